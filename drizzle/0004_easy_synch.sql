@@ -0,0 +1,65 @@
+CREATE TABLE IF NOT EXISTS "order_fulfilments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_group_id" uuid NOT NULL,
+	"merchant_id" integer NOT NULL,
+	"status" varchar(50) DEFAULT 'pending',
+	"subtotal" numeric(12, 2) NOT NULL,
+	"commission_rate" numeric(5, 2) NOT NULL,
+	"commission_amount" numeric(12, 2) NOT NULL,
+	"merchant_payout" numeric(12, 2) NOT NULL,
+	"delivery_request_id" uuid,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "order_fulfilments_order_group_id_merchant_id_unique" UNIQUE("order_group_id","merchant_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "order_groups" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"group_number" varchar(100) NOT NULL,
+	"buyer_id" integer NOT NULL,
+	"payment_tx_ref" varchar(255) NOT NULL,
+	"subtotal" numeric(12, 2) NOT NULL,
+	"total_amount" numeric(12, 2) NOT NULL,
+	"commission_total" numeric(12, 2) DEFAULT '0.00',
+	"merchant_count" integer DEFAULT 1 NOT NULL,
+	"status" varchar(50) DEFAULT 'PENDING',
+	"payment_status" varchar(50) DEFAULT 'PENDING',
+	"delivery_address" text,
+	"paid_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "order_groups_group_number_unique" UNIQUE("group_number"),
+	CONSTRAINT "order_groups_payment_tx_ref_unique" UNIQUE("payment_tx_ref")
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "order_group_id" uuid;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "fulfilment_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "orders" ADD CONSTRAINT "orders_order_group_id_order_groups_id_fk" FOREIGN KEY ("order_group_id") REFERENCES "order_groups"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "orders" ADD CONSTRAINT "orders_fulfilment_id_order_fulfilments_id_fk" FOREIGN KEY ("fulfilment_id") REFERENCES "order_fulfilments"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "order_fulfilments" ADD CONSTRAINT "order_fulfilments_order_group_id_order_groups_id_fk" FOREIGN KEY ("order_group_id") REFERENCES "order_groups"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "order_fulfilments" ADD CONSTRAINT "order_fulfilments_merchant_id_users_id_fk" FOREIGN KEY ("merchant_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "order_groups" ADD CONSTRAINT "order_groups_buyer_id_users_id_fk" FOREIGN KEY ("buyer_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
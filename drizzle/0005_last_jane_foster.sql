@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "payment_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"provider" varchar(30) NOT NULL,
+	"event_id" varchar(255) NOT NULL,
+	"event_type" varchar(100) NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"tx_ref" varchar(255),
+	"transaction_id" varchar(255),
+	"payment_status" varchar(20) NOT NULL,
+	"amount" numeric(14, 2),
+	"payload" json NOT NULL,
+	"processing_status" varchar(20) DEFAULT 'PROCESSING' NOT NULL,
+	"outcome" json,
+	"error" text,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"processed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "payment_events_provider_event_id_unique" UNIQUE("provider","event_id")
+);
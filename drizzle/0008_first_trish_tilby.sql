@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS "jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"data" json NOT NULL,
+	"status" varchar(20) DEFAULT 'PENDING' NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"backoff_ms" integer DEFAULT 5000 NOT NULL,
+	"repeat_every_ms" integer,
+	"unique_key" varchar(255),
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_at" timestamp,
+	"locked_by" varchar(255),
+	"last_error" text,
+	"result" json,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "jobs_unique_live_key" ON "jobs" ("unique_key") WHERE status in ('PENDING', 'RUNNING');--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "jobs_claim_idx" ON "jobs" ("status","type","run_at");
\ No newline at end of file
@@ -0,0 +1,70 @@
+CREATE TABLE IF NOT EXISTS "notification_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"category" varchar(50) NOT NULL,
+	"type" varchar(50) NOT NULL,
+	"template" json NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "scheduled_notification_deliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scheduled_notification_id" uuid NOT NULL,
+	"run" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"user_role" varchar(20) NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"notification_id" varchar(255),
+	"push_job_id" varchar(255),
+	"error" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "scheduled_notifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scheduler_id" integer NOT NULL,
+	"recipients" json,
+	"audience" json,
+	"message" json,
+	"template_id" uuid,
+	"template_variables" json,
+	"variable_source" varchar(50),
+	"type" varchar(50) DEFAULT 'SYSTEM',
+	"priority" varchar(20) DEFAULT 'MEDIUM',
+	"schedule_time" timestamp NOT NULL,
+	"recurrence" varchar(20),
+	"recurrence_ends_at" timestamp,
+	"status" varchar(20) DEFAULT 'scheduled' NOT NULL,
+	"last_run_status" varchar(20),
+	"last_run_at" timestamp,
+	"run_count" integer DEFAULT 0 NOT NULL,
+	"locked_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "scheduled_notification_deliveries" ADD CONSTRAINT "scheduled_notification_deliveries_scheduled_notification_id_scheduled_notifications_id_fk" FOREIGN KEY ("scheduled_notification_id") REFERENCES "scheduled_notifications"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "scheduled_notification_deliveries" ADD CONSTRAINT "scheduled_notification_deliveries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "scheduled_notifications" ADD CONSTRAINT "scheduled_notifications_scheduler_id_users_id_fk" FOREIGN KEY ("scheduler_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "scheduled_notifications" ADD CONSTRAINT "scheduled_notifications_template_id_notification_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "notification_templates"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS "device_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" integer NOT NULL,
+	"token" varchar(512) NOT NULL,
+	"platform" varchar(20) NOT NULL,
+	"provider" varchar(20) NOT NULL,
+	"app_version" varchar(50),
+	"last_seen_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "device_tokens_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "device_topic_subscriptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"device_token_id" uuid NOT NULL,
+	"topic" varchar(100) NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "device_topic_subscriptions_device_token_id_topic_unique" UNIQUE("device_token_id","topic")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "device_tokens_user_idx" ON "device_tokens" ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "device_topic_subscriptions_topic_idx" ON "device_topic_subscriptions" ("topic");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "device_tokens" ADD CONSTRAINT "device_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "device_topic_subscriptions" ADD CONSTRAINT "device_topic_subscriptions_device_token_id_device_tokens_id_fk" FOREIGN KEY ("device_token_id") REFERENCES "device_tokens"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,54 @@
+CREATE TABLE IF NOT EXISTS "notification_deliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"dispatch_id" uuid NOT NULL,
+	"user_id" integer NOT NULL,
+	"user_role" varchar(20) NOT NULL,
+	"event_type" varchar(50) NOT NULL,
+	"category" varchar(50) NOT NULL,
+	"priority" varchar(20) NOT NULL,
+	"channel" varchar(20) NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"reason" varchar(50),
+	"title" varchar(255) NOT NULL,
+	"message" text NOT NULL,
+	"action_url" varchar(500),
+	"data" json,
+	"notification_id" varchar(255),
+	"job_id" varchar(255),
+	"error" text,
+	"scheduled_for" timestamp,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "notification_preferences" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" integer NOT NULL,
+	"user_role" varchar(20) NOT NULL,
+	"email_notifications" boolean DEFAULT true NOT NULL,
+	"push_notifications" boolean DEFAULT true NOT NULL,
+	"sms_notifications" boolean DEFAULT false NOT NULL,
+	"categories" json,
+	"frequency" varchar(20) DEFAULT 'immediate',
+	"quiet_hours" json,
+	"timezone" varchar(50) DEFAULT 'Africa/Lagos' NOT NULL,
+	"language" varchar(10) DEFAULT 'en',
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "notification_preferences_user_id_user_role_unique" UNIQUE("user_id","user_role")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "notification_deliveries_user_idx" ON "notification_deliveries" ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "notification_deliveries_dispatch_idx" ON "notification_deliveries" ("dispatch_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS "admin_role_assignments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" integer NOT NULL,
+	"role" varchar(30) NOT NULL,
+	"granted_by" integer,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "admin_role_assignments_user_id_role_unique" UNIQUE("user_id","role")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "admin_role_assignments" ADD CONSTRAINT "admin_role_assignments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "admin_role_assignments" ADD CONSTRAINT "admin_role_assignments_granted_by_users_id_fk" FOREIGN KEY ("granted_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+-- Existing admins keep full access until a super admin narrows their roles
+INSERT INTO "admin_role_assignments" ("user_id", "role")
+SELECT "id", 'SUPER_ADMIN' FROM "users" WHERE "role" = 'ADMIN'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,38 @@
+CREATE TABLE IF NOT EXISTS "audit_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"actor_id" integer,
+	"actor_role" varchar(20),
+	"action" varchar(150) NOT NULL,
+	"resource" varchar(50),
+	"resource_id" varchar(100),
+	"method" varchar(10),
+	"path" text,
+	"status_code" integer,
+	"success" boolean,
+	"request_id" varchar(64),
+	"ip_address" varchar(45),
+	"user_agent" text,
+	"changes" jsonb,
+	"metadata" jsonb,
+	"prev_hash" varchar(64) NOT NULL,
+	"hash" varchar(64) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "audit_logs_created_at_idx" ON "audit_logs" ("created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "audit_logs_actor_idx" ON "audit_logs" ("actor_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "audit_logs_resource_idx" ON "audit_logs" ("resource","resource_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "audit_logs_request_idx" ON "audit_logs" ("request_id");--> statement-breakpoint
+-- Entries are never changed; they are only removed by the retention purge, which opts in per transaction
+CREATE OR REPLACE FUNCTION audit_logs_append_only() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND current_setting('audit_logs.allow_purge', true) = 'on' THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+CREATE TRIGGER audit_logs_append_only
+BEFORE UPDATE OR DELETE ON "audit_logs"
+FOR EACH ROW EXECUTE FUNCTION audit_logs_append_only();
@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS "dispatch_offers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"delivery_request_id" uuid NOT NULL,
+	"driver_id" integer NOT NULL,
+	"round" integer DEFAULT 0 NOT NULL,
+	"radius_km" numeric(6, 2),
+	"distance_km" numeric(8, 2),
+	"score" numeric(6, 2),
+	"status" varchar(20) DEFAULT 'OFFERED' NOT NULL,
+	"decline_reason" text,
+	"offered_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"responded_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "pickup_latitude" numeric(10, 8);--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "pickup_longitude" numeric(11, 8);--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "dispatch_status" varchar(20);--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "dispatch_radius_km" numeric(6, 2);--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "dispatch_round" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "dispatch_offers_delivery_idx" ON "dispatch_offers" ("delivery_request_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "dispatch_offers_driver_idx" ON "dispatch_offers" ("driver_id","offered_at");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "dispatch_offers_open_idx" ON "dispatch_offers" ("delivery_request_id") WHERE status = 'OFFERED';--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "dispatch_offers" ADD CONSTRAINT "dispatch_offers_delivery_request_id_delivery_requests_id_fk" FOREIGN KEY ("delivery_request_id") REFERENCES "delivery_requests"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "dispatch_offers" ADD CONSTRAINT "dispatch_offers_driver_id_users_id_fk" FOREIGN KEY ("driver_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
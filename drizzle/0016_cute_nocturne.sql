@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS "geocode_cache" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"query_key" varchar(64) NOT NULL,
+	"query" text NOT NULL,
+	"latitude" numeric(10, 8),
+	"longitude" numeric(11, 8),
+	"formatted_address" text,
+	"precision" varchar(20),
+	"state" varchar(100),
+	"lga" varchar(100),
+	"provider" varchar(20) NOT NULL,
+	"hit_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	CONSTRAINT "geocode_cache_query_key_unique" UNIQUE("query_key")
+);
+--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "delivery_latitude" numeric(10, 8);--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "delivery_longitude" numeric(11, 8);--> statement-breakpoint
+ALTER TABLE "fuel_orders" ADD COLUMN "delivery_latitude" numeric(10, 8);--> statement-breakpoint
+ALTER TABLE "fuel_orders" ADD COLUMN "delivery_longitude" numeric(11, 8);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "delivery_latitude" numeric(10, 8);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "delivery_longitude" numeric(11, 8);
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS "delivery_location_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"delivery_request_id" uuid NOT NULL,
+	"driver_id" integer NOT NULL,
+	"latitude" numeric(10, 8) NOT NULL,
+	"longitude" numeric(11, 8) NOT NULL,
+	"heading" numeric(5, 2),
+	"speed" numeric(6, 2),
+	"accuracy" numeric(8, 2),
+	"status" varchar(50),
+	"recorded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "current_latitude" numeric(10, 8);--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "current_longitude" numeric(11, 8);--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "location_updated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "estimated_delivery_time" timestamp;--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "arrived_at_pickup_at" timestamp;--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "near_dropoff_at" timestamp;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "delivery_location_history_delivery_idx" ON "delivery_location_history" ("delivery_request_id","recorded_at");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "delivery_location_history" ADD CONSTRAINT "delivery_location_history_delivery_request_id_delivery_requests_id_fk" FOREIGN KEY ("delivery_request_id") REFERENCES "delivery_requests"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "delivery_location_history" ADD CONSTRAINT "delivery_location_history_driver_id_users_id_fk" FOREIGN KEY ("driver_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS "service_zones" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"boundary" jsonb NOT NULL,
+	"min_latitude" numeric(10, 8) NOT NULL,
+	"max_latitude" numeric(10, 8) NOT NULL,
+	"min_longitude" numeric(11, 8) NOT NULL,
+	"max_longitude" numeric(11, 8) NOT NULL,
+	"base_fee" numeric(10, 2) NOT NULL,
+	"per_km_rate" numeric(10, 2) NOT NULL,
+	"surge_multiplier" numeric(4, 2) DEFAULT '1.00' NOT NULL,
+	"operating_hours" jsonb,
+	"services" jsonb NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "service_zones_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "service_zones" ADD CONSTRAINT "service_zones_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,44 @@
+CREATE TABLE IF NOT EXISTS "delivery_quotes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"customer_id" integer NOT NULL,
+	"zone_id" uuid,
+	"pickup_address" text NOT NULL,
+	"delivery_address" text NOT NULL,
+	"pickup_latitude" numeric(10, 8) NOT NULL,
+	"pickup_longitude" numeric(11, 8) NOT NULL,
+	"delivery_latitude" numeric(10, 8) NOT NULL,
+	"delivery_longitude" numeric(11, 8) NOT NULL,
+	"delivery_type" varchar(50) NOT NULL,
+	"package_size" varchar(20) NOT NULL,
+	"scheduled_pickup_time" timestamp,
+	"distance_km" numeric(8, 2) NOT NULL,
+	"duration_minutes" integer NOT NULL,
+	"fee" numeric(10, 2) NOT NULL,
+	"currency" varchar(3) DEFAULT 'NGN' NOT NULL,
+	"breakdown" jsonb NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD COLUMN "quote_id" uuid;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "delivery_quotes_customer_idx" ON "delivery_quotes" ("customer_id","created_at");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "delivery_requests" ADD CONSTRAINT "delivery_requests_quote_id_delivery_quotes_id_fk" FOREIGN KEY ("quote_id") REFERENCES "delivery_quotes"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "delivery_quotes" ADD CONSTRAINT "delivery_quotes_customer_id_users_id_fk" FOREIGN KEY ("customer_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "delivery_quotes" ADD CONSTRAINT "delivery_quotes_zone_id_service_zones_id_fk" FOREIGN KEY ("zone_id") REFERENCES "service_zones"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "delivery_requests" ADD CONSTRAINT "delivery_requests_quote_id_unique" UNIQUE("quote_id");
\ No newline at end of file
@@ -0,0 +1,58 @@
+CREATE TABLE IF NOT EXISTS "analytics_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"event_type" varchar(100) NOT NULL,
+	"occurred_at" timestamp DEFAULT now() NOT NULL,
+	"user_id" integer,
+	"merchant_id" integer,
+	"zone_id" varchar(64),
+	"session_id" varchar(64),
+	"value" numeric(18, 4),
+	"data" jsonb
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "analytics_rollups_day" (
+	"dimension" varchar(20) NOT NULL,
+	"dimension_value" varchar(64) NOT NULL,
+	"event_type" varchar(100) NOT NULL,
+	"bucket_start" timestamp NOT NULL,
+	"event_count" integer DEFAULT 0 NOT NULL,
+	"value_count" integer DEFAULT 0 NOT NULL,
+	"value_sum" numeric(20, 4) DEFAULT '0' NOT NULL,
+	"value_min" numeric(18, 4),
+	"value_max" numeric(18, 4),
+	CONSTRAINT "analytics_rollups_day_bucket_key" UNIQUE("dimension","dimension_value","event_type","bucket_start")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "analytics_rollups_hour" (
+	"dimension" varchar(20) NOT NULL,
+	"dimension_value" varchar(64) NOT NULL,
+	"event_type" varchar(100) NOT NULL,
+	"bucket_start" timestamp NOT NULL,
+	"event_count" integer DEFAULT 0 NOT NULL,
+	"value_count" integer DEFAULT 0 NOT NULL,
+	"value_sum" numeric(20, 4) DEFAULT '0' NOT NULL,
+	"value_min" numeric(18, 4),
+	"value_max" numeric(18, 4),
+	CONSTRAINT "analytics_rollups_hour_bucket_key" UNIQUE("dimension","dimension_value","event_type","bucket_start")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "analytics_rollups_minute" (
+	"dimension" varchar(20) NOT NULL,
+	"dimension_value" varchar(64) NOT NULL,
+	"event_type" varchar(100) NOT NULL,
+	"bucket_start" timestamp NOT NULL,
+	"event_count" integer DEFAULT 0 NOT NULL,
+	"value_count" integer DEFAULT 0 NOT NULL,
+	"value_sum" numeric(20, 4) DEFAULT '0' NOT NULL,
+	"value_min" numeric(18, 4),
+	"value_max" numeric(18, 4),
+	CONSTRAINT "analytics_rollups_minute_bucket_key" UNIQUE("dimension","dimension_value","event_type","bucket_start")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "analytics_events_type_time_idx" ON "analytics_events" ("event_type","occurred_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "analytics_events_merchant_time_idx" ON "analytics_events" ("merchant_id","occurred_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "analytics_events_zone_time_idx" ON "analytics_events" ("zone_id","occurred_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "analytics_events_occurred_at_idx" ON "analytics_events" ("occurred_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "analytics_rollups_day_bucket_idx" ON "analytics_rollups_day" ("bucket_start");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "analytics_rollups_hour_bucket_idx" ON "analytics_rollups_hour" ("bucket_start");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "analytics_rollups_minute_bucket_idx" ON "analytics_rollups_minute" ("bucket_start");
\ No newline at end of file
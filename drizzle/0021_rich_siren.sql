@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS "finance_periods" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"period" varchar(7) NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"period_end" timestamp NOT NULL,
+	"report" jsonb NOT NULL,
+	"checksum" varchar(64) NOT NULL,
+	"notes" text,
+	"closed_by" integer NOT NULL,
+	"closed_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "finance_periods_period_unique" UNIQUE("period")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ledger_postings_created_at_idx" ON "ledger_postings" ("created_at");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "finance_periods" ADD CONSTRAINT "finance_periods_closed_by_users_id_fk" FOREIGN KEY ("closed_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,41 @@
+-- Carry wallet balances from before the ledger into it. The first posting to a wallet overwrites
+-- wallets.balance with the ledger balance, so every wallet the ledger has not seen yet gets an
+-- OPENING entry crediting its balance against the OPENING_EQUITY system account.
+INSERT INTO "ledger_accounts" ("code", "account_type", "normal_balance", "allow_negative")
+VALUES ('OPENING_EQUITY', 'EQUITY', 'CREDIT', true)
+ON CONFLICT ("code") DO NOTHING;
+--> statement-breakpoint
+CREATE TEMPORARY TABLE "opening_wallet_balances" ON COMMIT DROP AS
+SELECT DISTINCT ON ("user_id") "user_id", "balance"::numeric(14, 2) AS "balance"
+FROM "wallets"
+WHERE "balance" ~ '^[0-9]+(\.[0-9]+)?$'
+  AND NOT EXISTS (SELECT 1 FROM "ledger_accounts" WHERE "code" = 'WALLET:' || "wallets"."user_id")
+ORDER BY "user_id", "updated_at" DESC NULLS LAST;
+--> statement-breakpoint
+DELETE FROM "opening_wallet_balances" WHERE "balance" <= 0;
+--> statement-breakpoint
+INSERT INTO "ledger_accounts" ("code", "account_type", "normal_balance", "user_id", "balance", "allow_negative")
+SELECT 'WALLET:' || "user_id", 'WALLET', 'CREDIT', "user_id", "balance", false
+FROM "opening_wallet_balances";
+--> statement-breakpoint
+INSERT INTO "journal_entries" ("reference", "entry_type", "description", "metadata")
+SELECT 'OPENING:WALLET:' || "user_id", 'OPENING', 'Opening wallet balance', json_build_object('userId', "user_id")
+FROM "opening_wallet_balances"
+ON CONFLICT ("reference") DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "ledger_postings" ("entry_id", "account_id", "direction", "amount", "balance_after")
+SELECT "journal_entries"."id", "ledger_accounts"."id", 'CREDIT', "opening_wallet_balances"."balance", "opening_wallet_balances"."balance"
+FROM "opening_wallet_balances"
+INNER JOIN "journal_entries" ON "journal_entries"."reference" = 'OPENING:WALLET:' || "opening_wallet_balances"."user_id"
+INNER JOIN "ledger_accounts" ON "ledger_accounts"."code" = 'WALLET:' || "opening_wallet_balances"."user_id";
+--> statement-breakpoint
+INSERT INTO "ledger_postings" ("entry_id", "account_id", "direction", "amount", "balance_after")
+SELECT "journal_entries"."id", "equity"."id", 'DEBIT', "opening_wallet_balances"."balance",
+  "equity"."balance" - sum("opening_wallet_balances"."balance") OVER (ORDER BY "opening_wallet_balances"."user_id")
+FROM "opening_wallet_balances"
+INNER JOIN "journal_entries" ON "journal_entries"."reference" = 'OPENING:WALLET:' || "opening_wallet_balances"."user_id"
+CROSS JOIN (SELECT "id", "balance" FROM "ledger_accounts" WHERE "code" = 'OPENING_EQUITY') AS "equity";
+--> statement-breakpoint
+UPDATE "ledger_accounts"
+SET "balance" = "balance" - (SELECT coalesce(sum("balance"), 0) FROM "opening_wallet_balances"), "updated_at" = now()
+WHERE "code" = 'OPENING_EQUITY';
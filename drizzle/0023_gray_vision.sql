@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "payment_intents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tx_ref" varchar(255) NOT NULL,
+	"user_id" integer NOT NULL,
+	"provider" varchar(30) NOT NULL,
+	"amount" numeric(14, 2) NOT NULL,
+	"currency" varchar(3) DEFAULT 'NGN',
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "payment_intents_tx_ref_unique" UNIQUE("tx_ref")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "payment_intents" ADD CONSTRAINT "payment_intents_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
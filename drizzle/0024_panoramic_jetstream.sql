@@ -0,0 +1,23 @@
+-- Give every transaction its own reference before making the column unique. Order payments of
+-- one checkout shared the gateway reference: they get the order id appended and keep the shared
+-- reference in their metadata. Any other repeated reference keeps its oldest row unchanged.
+UPDATE "transactions"
+SET "transaction_ref" = "transaction_ref" || ':' || ("metadata"->>'orderId'),
+  "metadata" = ("metadata"::jsonb || jsonb_build_object('txRef', "transaction_ref"))::json
+WHERE "type" = 'PAYMENT'
+  AND "transaction_ref" IS NOT NULL
+  AND "metadata"->>'orderId' IS NOT NULL
+  AND "metadata"->>'txRef' IS NULL;
+--> statement-breakpoint
+UPDATE "transactions"
+SET "transaction_ref" = "transaction_ref" || ':' || "id"
+WHERE "id" IN (
+  SELECT "id" FROM (
+    SELECT "id", row_number() OVER (PARTITION BY "transaction_ref" ORDER BY "id") AS "position"
+    FROM "transactions"
+    WHERE "transaction_ref" IS NOT NULL
+  ) AS "numbered"
+  WHERE "position" > 1
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_transaction_ref_unique" UNIQUE("transaction_ref");
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "bank_accounts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" integer NOT NULL,
+	"account_number" varchar(20) NOT NULL,
+	"bank_code" varchar(20) NOT NULL,
+	"account_name" varchar(255) NOT NULL,
+	"provider" varchar(30) NOT NULL,
+	"verified_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "bank_accounts_user_id_account_number_bank_code_unique" UNIQUE("user_id","account_number","bank_code")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bank_accounts" ADD CONSTRAINT "bank_accounts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1 @@
+ALTER TABLE "payment_intents" ADD COLUMN "purpose" varchar(30) DEFAULT 'ORDER' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "payment_events" ADD COLUMN "currency" varchar(3);
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "order_fulfilments" ADD COLUMN "delivery_quote_id" uuid;--> statement-breakpoint
+ALTER TABLE "order_fulfilments" ADD COLUMN "delivery_fee" numeric(10, 2) DEFAULT '0.00';--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "order_fulfilments" ADD CONSTRAINT "order_fulfilments_delivery_quote_id_delivery_quotes_id_fk" FOREIGN KEY ("delivery_quote_id") REFERENCES "delivery_quotes"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,27 @@
+-- Checkout used to request each fulfilment's delivery before payment. Call off the ones of groups
+-- that were never paid, and unlink them so a late payment requests a fresh delivery.
+UPDATE "delivery_requests"
+SET "status" = 'CANCELLED', "updated_at" = now()
+WHERE "status" = 'PENDING'
+  AND "id" IN (
+    SELECT f."delivery_request_id"
+    FROM "order_fulfilments" f
+    JOIN "order_groups" g ON g."id" = f."order_group_id"
+    WHERE g."payment_status" <> 'PAID' OR f."status" IN ('cancelled', 'refunded')
+  );
+--> statement-breakpoint
+UPDATE "order_fulfilments" f
+SET "delivery_request_id" = NULL
+FROM "order_groups" g
+WHERE g."id" = f."order_group_id"
+  AND g."payment_status" <> 'PAID'
+  AND f."delivery_request_id" IS NOT NULL;
+--> statement-breakpoint
+-- Link the deliveries of paid fulfilments to an order they carry
+UPDATE "delivery_requests" d
+SET "order_id" = (
+  SELECT o."id" FROM "orders" o WHERE o."fulfilment_id" = f."id" ORDER BY o."created_at" LIMIT 1
+)
+FROM "order_fulfilments" f
+WHERE f."delivery_request_id" = d."id"
+  AND d."order_id" IS NULL;
@@ -19,6 +19,9 @@ const client = postgres(connectionString, {
 
 export const db = drizzle(client, { schema });
 
+// Handle passed into db.transaction callbacks, so helpers can join an open transaction
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 // Test database connection
 export const testConnection = async () => {
   try {
@@ -3,8 +3,16 @@ import { config } from 'dotenv';
 
 config();
 
-export const JWT_SECRET_KEY = process.env.JWT_SECRET_KEY || 'your-jwt-secret-key';
-export const JWT_REFRESH_SECRET_KEY = process.env.JWT_REFRESH_SECRET_KEY || 'your-jwt-refresh-secret-key';
+// JWT signing. JWT_KEYS lists every key that may verify a token, e.g. "2026-10:secretA,2026-04:secretB";
+// new tokens are signed with JWT_ACTIVE_KEY_ID (default: the first key). Keep a retired key listed until
+// the refresh tokens signed with it have expired. Without JWT_KEYS, JWT_SECRET_KEY is the only key.
+export const JWT_SECRET_KEY = process.env.JWT_SECRET_KEY || process.env.JWT_SECRET || 'your-jwt-secret-key';
+export const JWT_KEYS = process.env.JWT_KEYS;
+export const JWT_ACTIVE_KEY_ID = process.env.JWT_ACTIVE_KEY_ID;
+export const JWT_ISSUER = process.env.JWT_ISSUER || 'brillprime-api';
+export const JWT_AUDIENCE = process.env.JWT_AUDIENCE || 'brillprime-app';
+export const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+export const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
 export const PORT = process.env.PORT || '3000';
 export const NO_REPLY_USER_EMAIL = process.env.NO_REPLY_USER_EMAIL;
 export const NO_REPLY_USER_PASSWORD = process.env.NO_REPLY_USER_PASSWORD;
@@ -21,6 +29,10 @@ export const REDIS_HOST = process.env.REDIS_HOST || 'localhost';
 export const REDIS_PASSWORD = process.env.REDIS_PASSWORD;
 export const REDIS_USERNAME = process.env.REDIS_USERNAME;
 
+// Response cache and rate-limit counters; without Redis each process keeps its own
+export const CACHE_DRIVER: 'memory' | 'redis' = process.env.CACHE_DRIVER === 'redis' ? 'redis' : 'memory';
+export const CACHE_KEY_PREFIX = process.env.CACHE_KEY_PREFIX || 'brillprime:cache:';
+
 export const HAPI_FHIR_BASE_URL = process.env.HAPI_FHIR_BASE_URL;
 export const HAPI_FHIR_API_KEY = process.env.HAPI_FHIR_API_KEY;
 
@@ -38,6 +50,74 @@ export const APPLE_KEY_ID = process.env.APPLE_KEY_ID;
 export const APPLE_PRIVATE_KEY = process.env.APPLE_PRIVATE_KEY;
 export const FRONTEND_URL = process.env.FRONTEND_URL;
 
+// Payment gateways
+export const BASE_URL = process.env.BASE_URL || 'http://localhost:5000';
+export const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+export const PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER;
+export const PAYMENT_PROVIDER_FALLBACKS = process.env.PAYMENT_PROVIDER_FALLBACKS; // e.g. "paystack,flutterwave"
+export const PAYMENT_PROVIDER_BY_COUNTRY = process.env.PAYMENT_PROVIDER_BY_COUNTRY; // e.g. "NG:paystack,GH:flutterwave"
+export const FLW_BASE_URL = process.env.FLW_BASE_URL || 'https://api.flutterwave.com/v3';
+export const FLW_SECRET_KEY = process.env.FLW_SECRET_KEY;
+export const FLW_SECRET_HASH = process.env.FLW_SECRET_HASH; // webhook secret hash set on the Flutterwave dashboard
+export const PAYSTACK_BASE_URL = process.env.PAYSTACK_BASE_URL || 'https://api.paystack.co';
+export const PAYSTACK_SECRET_KEY = process.env.PAYSTACK_SECRET_KEY;
+export const MOCK_PAYMENT_OUTCOME = process.env.MOCK_PAYMENT_OUTCOME || 'successful';
+export const MOCK_WEBHOOK_SECRET = process.env.MOCK_WEBHOOK_SECRET; // the mock gateway is only registered in development and tests, and only with this set
+
+// Inventory
+export const STOCK_RESERVATION_MINUTES = parseInt(process.env.STOCK_RESERVATION_MINUTES || '15', 10);
+
+// Job queue
+export const JOB_POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10);
+export const JOB_LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '300000', 10); // a RUNNING job older than this is presumed abandoned
+
+// Driver dispatch
+export const DISPATCH_OFFER_TIMEOUT_SECONDS = parseInt(process.env.DISPATCH_OFFER_TIMEOUT_SECONDS || '45', 10);
+export const DISPATCH_INITIAL_RADIUS_KM = parseFloat(process.env.DISPATCH_INITIAL_RADIUS_KM || '5');
+export const DISPATCH_MAX_RADIUS_KM = parseFloat(process.env.DISPATCH_MAX_RADIUS_KM || '20'); // the radius doubles up to this, then dispatch escalates to admins
+
+// Delivery pricing
+export const DELIVERY_QUOTE_TTL_SECONDS = parseInt(process.env.DELIVERY_QUOTE_TTL_SECONDS || '600', 10);
+export const DELIVERY_QUOTE_SECRET = process.env.DELIVERY_QUOTE_SECRET || JWT_SECRET_KEY; // signs quote ids
+export const PRICING_MAX_SURGE = parseFloat(process.env.PRICING_MAX_SURGE || '3'); // cap on zone, time-window and demand surge combined
+
+// Route optimisation
+export const ROUTE_ROAD_FACTOR = parseFloat(process.env.ROUTE_ROAD_FACTOR || '1.3'); // road distance per straight-line km, for the ROAD distance model
+
+// Live delivery tracking
+export const TRACKING_PICKUP_GEOFENCE_METERS = parseInt(process.env.TRACKING_PICKUP_GEOFENCE_METERS || '150', 10);
+export const TRACKING_DROPOFF_GEOFENCE_METERS = parseInt(process.env.TRACKING_DROPOFF_GEOFENCE_METERS || '500', 10);
+export const TRACKING_MIN_POINT_INTERVAL_SECONDS = parseInt(process.env.TRACKING_MIN_POINT_INTERVAL_SECONDS || '5', 10); // faster reports move the driver but are not added to the trail
+
+// Geocoding
+export const GEOCODING_PROVIDER = process.env.GEOCODING_PROVIDER; // "google", "nominatim" or "gazetteer"; the offline gazetteer is always the last fallback
+export const GOOGLE_MAPS_API_KEY = process.env.GOOGLE_MAPS_API_KEY;
+export const NOMINATIM_URL = process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org';
+export const NOMINATIM_USER_AGENT = process.env.NOMINATIM_USER_AGENT || 'BrillPrime/1.0 (support@brillprime.com)'; // the public server requires an identifying agent
+export const GEOCODE_CACHE_TTL_DAYS = parseInt(process.env.GEOCODE_CACHE_TTL_DAYS || '90', 10);
+
+// Audit trail
+export const AUDIT_LOG_RETENTION_DAYS = parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '365', 10); // 0 keeps entries forever
+
+// Analytics events; 0 keeps them forever. Rollups outlive them: minute buckets for 7 days, hour buckets for 400 days, day buckets forever
+export const ANALYTICS_EVENT_RETENTION_DAYS = parseInt(process.env.ANALYTICS_EVENT_RETENTION_DAYS || '90', 10);
+
+// Push notifications
+export const PUSH_PROVIDER = process.env.PUSH_PROVIDER; // "fake" sends nothing and records messages in memory
+export const FCM_PROJECT_ID = process.env.FCM_PROJECT_ID;
+export const FCM_CLIENT_EMAIL = process.env.FCM_CLIENT_EMAIL; // service account used for HTTP v1 access tokens
+export const FCM_PRIVATE_KEY = process.env.FCM_PRIVATE_KEY?.replace(/\\n/g, '\n');
+export const APNS_KEY_ID = process.env.APNS_KEY_ID;
+export const APNS_TEAM_ID = process.env.APNS_TEAM_ID;
+export const APNS_PRIVATE_KEY = process.env.APNS_PRIVATE_KEY?.replace(/\\n/g, '\n'); // .p8 token signing key
+export const APNS_BUNDLE_ID = process.env.APNS_BUNDLE_ID;
+export const APNS_PRODUCTION = process.env.APNS_PRODUCTION === 'true';
+
+// SMS (Termii); without an API key messages are only logged
+export const TERMII_BASE_URL = process.env.TERMII_BASE_URL || 'https://api.ng.termii.com';
+export const TERMII_API_KEY = process.env.TERMII_API_KEY;
+export const TERMII_SENDER_ID = process.env.TERMII_SENDER_ID || 'BrillPrime';
+
 export const env = {
   isDev: String(process.env.NODE_ENV).toLowerCase().includes('dev'),
   isTest: String(process.env.NODE_ENV).toLowerCase().includes('test'),
@@ -0,0 +1,100 @@
+// Every rate-limit policy in one place. A request is checked against each policy it matches and
+// refused when any of them is exhausted.
+
+export type RateLimitAlgorithm = 'SLIDING_WINDOW' | 'TOKEN_BUCKET';
+
+// What a counter is kept per: the signed-in user (the IP for anonymous callers), the caller's IP,
+// or the exact route hit within the policy's group. Nothing the client can choose freely, such as
+// a header, may be part of a key, or a new value would buy a fresh allowance.
+export type RateLimitKeyPart = 'user' | 'ip' | 'route';
+
+export interface RateLimitPolicy {
+  name: string;
+  // Exact paths, or prefixes ending in *
+  paths: string[];
+  exclude?: string[];
+  // Every method when omitted
+  methods?: string[];
+  algorithm: RateLimitAlgorithm;
+  // Requests per window; for a token bucket the burst size, refilled evenly over the window
+  limit: number;
+  windowMs: number;
+  keyBy: RateLimitKeyPart[];
+  message?: string;
+}
+
+const MINUTE = 60 * 1000;
+
+export const rateLimitPolicies: RateLimitPolicy[] = [
+  {
+    name: 'api',
+    paths: ['/api/*'],
+    // Gateways retry webhooks on their own schedule and sign them
+    exclude: ['/api/payment/webhook*'],
+    algorithm: 'TOKEN_BUCKET',
+    limit: 300,
+    windowMs: 5 * MINUTE,
+    keyBy: ['user'],
+    message: 'Too many requests',
+  },
+  {
+    name: 'auth',
+    paths: ['/api/auth/*', '/api/social-auth/*', '/admin/auth/*'],
+    algorithm: 'SLIDING_WINDOW',
+    limit: 30,
+    windowMs: 15 * MINUTE,
+    keyBy: ['ip'],
+    message: 'Too many authentication requests',
+  },
+  {
+    name: 'login',
+    paths: ['/api/auth/login', '/admin/auth/login', '/api/auth/verify-mfa'],
+    methods: ['POST'],
+    algorithm: 'SLIDING_WINDOW',
+    limit: 5,
+    windowMs: 15 * MINUTE,
+    keyBy: ['ip', 'route'],
+    message: 'Too many login attempts, please try again later',
+  },
+  {
+    name: 'otp-resend',
+    paths: ['/api/auth/resend-otp', '/api/auth/forgot-password'],
+    methods: ['POST'],
+    algorithm: 'SLIDING_WINDOW',
+    limit: 3,
+    windowMs: 10 * MINUTE,
+    keyBy: ['ip', 'route'],
+    message: 'Too many codes requested, please wait before asking for another',
+  },
+  {
+    name: 'otp-verify',
+    paths: ['/api/auth/verify-otp', '/api/auth/reset-password', '/admin/auth/reset-password'],
+    methods: ['POST'],
+    algorithm: 'SLIDING_WINDOW',
+    limit: 10,
+    windowMs: 15 * MINUTE,
+    keyBy: ['ip', 'route'],
+    message: 'Too many code attempts, please try again later',
+  },
+  {
+    name: 'payment',
+    paths: ['/api/payment/*', '/api/qr/*'],
+    exclude: ['/api/payment/webhook*'],
+    methods: ['POST', 'PUT', 'PATCH', 'DELETE'],
+    algorithm: 'SLIDING_WINDOW',
+    limit: 20,
+    windowMs: MINUTE,
+    keyBy: ['user'],
+    message: 'Too many payment requests, please slow down',
+  },
+  {
+    name: 'withdraw',
+    paths: ['/api/wallet/withdraw', '/api/payment/payout'],
+    methods: ['POST'],
+    algorithm: 'SLIDING_WINDOW',
+    limit: 5,
+    windowMs: 60 * MINUTE,
+    keyBy: ['user'],
+    message: 'Too many withdrawal requests, please try again later',
+  },
+];
@@ -13,8 +13,8 @@ import { cacheMiddleware } from './middleware/cacheMiddleware';
 import { rateLimiter } from './middleware/rateLimiter';
 import { ValidationMiddleware } from './middleware/validation';
 import { auditLogger } from './middleware/auditLogger';
-import { realtimeAnalyticsService } from './services/realtimeAnalytics';
-import { messageQueue } from './services/messageQueue';
+import { analyticsService } from './services/analytics';
+import { messageQueue, JobTypes } from './services/messageQueue';
 
 // Route imports
 import authRoutes from './routes/auth';
@@ -68,24 +68,19 @@ const securityMiddlewares = SecurityMiddleware.create({
 });
 securityMiddlewares.forEach(middleware => app.use(middleware));
 
-// Rate limiting
-app.use('/api/', rateLimiter.middleware({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  maxRequests: 100,
-  message: 'Too many requests from this IP'
-}));
-
-// Stricter rate limiting for auth endpoints
-app.use('/api/auth/', rateLimiter.middleware({
-  windowMs: 15 * 60 * 1000,
-  maxRequests: 5,
-  message: 'Too many authentication attempts'
-}));
+// Rate limiting; policies are declared in config/rateLimits.ts
+app.use(rateLimiter.middleware());
 
 // Basic middleware
 app.use(cors());
 app.use(morgan('combined'));
-app.use(express.json({ limit: '10mb' }));
+// Keep the raw body so payment webhooks can check the gateway's signature over the exact bytes
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, _res, buf) => {
+    (req as any).rawBody = buf.toString('utf8');
+  },
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(ValidationMiddleware.sanitizeHtml);
 app.use(auditLogger.middleware());
@@ -167,6 +162,10 @@ app.get('/api', (req, res) => {
         'POST /api/auth/login': 'Login user',
         'POST /api/auth/verify-otp': 'Verify email with OTP',
         'POST /api/auth/resend-otp': 'Resend OTP code',
+        'POST /api/auth/refresh': 'Exchange a refresh token for a new token pair',
+        'POST /api/auth/logout': 'Revoke the current session, or all sessions (authenticated)',
+        'GET /api/auth/sessions': 'List active sessions (authenticated)',
+        'DELETE /api/auth/sessions/:id': 'Revoke one of your sessions (authenticated)',
       },
       adminAuth: {
         'POST /admin/auth/register': 'Register a new admin user (requires admin key)',
@@ -190,6 +189,7 @@ app.get('/api', (req, res) => {
         'GET /api/products/:id': 'Get single product (public)',
         'POST /api/products': 'Create product (merchant only)',
         'PUT /api/products/:id': 'Update product (product owner only)',
+        'GET /api/products/:id/stock': 'Get stock levels and reservations (product owner only)',
         'DELETE /api/products/:id': 'Delete product (product owner only)',
         'GET /api/products/categories': 'Get all categories (public)',
         'POST /api/products/categories': 'Create category (merchant only)',
@@ -203,28 +203,51 @@ app.get('/api', (req, res) => {
         'DELETE /api/cart': 'Clear cart (authenticated)',
       },
       orders: {
-        'POST /api/orders/checkout': 'Create order from cart (authenticated)',
+        'POST /api/orders/checkout': 'Create order group from cart, split per merchant (authenticated)',
+        'GET /api/orders/groups/:id': 'Get order group with fulfilments (authenticated)',
+        'GET /api/orders/fulfilments': 'Get merchant fulfilments (merchant only)',
+        'PUT /api/orders/fulfilments/:id/status': 'Update fulfilment status (merchant only)',
         'GET /api/orders/my-orders': 'Get user orders (authenticated)',
         'GET /api/orders/merchant-orders': 'Get merchant orders (merchant only)',
         'PUT /api/orders/:id/status': 'Update order status (merchant only)',
+        'GET /api/orders/:id/timeline': 'Get order status timeline (buyer, seller or admin)',
         'PUT /api/orders/:id/cancel': 'Cancel order (consumer only)',
         'POST /api/orders/:id/refund': 'Process refund (merchant/admin only)',
         'POST /api/orders/:id/review': 'Add order review (authenticated)',
         'GET /api/orders/:id': 'Get order details (authenticated)',
       },
       delivery: {
-        'POST /api/delivery/request': 'Create delivery request (authenticated)',
+        'POST /api/delivery/quote': 'Get a signed, expiring delivery price quote (authenticated)',
+        'POST /api/delivery/request': 'Create delivery request from a quote (authenticated)',
         'GET /api/delivery/available': 'Get available deliveries (driver only)',
+        'GET /api/delivery/offers': 'Get open dispatch offers (driver only)',
+        'POST /api/delivery/offers/:offerId/accept': 'Accept a dispatch offer (driver only)',
+        'POST /api/delivery/offers/:offerId/decline': 'Decline a dispatch offer (driver only)',
         'POST /api/delivery/:id/accept': 'Accept delivery request (driver only)',
         'PUT /api/delivery/:id/status': 'Update delivery status (driver only)',
+        'PUT /api/delivery/:id/location': 'Report driver location; updates ETA and geofence status (driver only)',
+        'GET /api/delivery/:id/location-history': 'Get recorded delivery route (authenticated)',
         'GET /api/delivery/my-deliveries': 'Get driver deliveries (driver only)',
-        'GET /api/delivery/track/:trackingNumber': 'Track delivery (public)',
+        'GET /api/delivery/:id/tracking': 'Track delivery with live position, route and ETA (authenticated)',
+        'GET /api/delivery/track/:trackingNumber': 'Track delivery status and ETA (public)',
         'GET /api/delivery/stats': 'Get delivery statistics (driver only)',
         'GET /api/delivery/earnings': 'Get driver earnings (driver only)',
         'POST /api/delivery/request-payout': 'Request payout (driver only)',
         'GET /api/delivery/:id/route': 'Get delivery route (driver only)',
         'POST /api/delivery/:id/review': 'Add delivery review (authenticated)',
       },
+      geo: {
+        'GET /api/geo/geocode': 'Geocode a Nigerian address (authenticated)',
+        'GET /api/geo/service-areas': 'Check service zone availability at a location (public)',
+        'POST /api/geo/estimate-delivery': 'Estimate delivery time and fee from coordinates or addresses (public)',
+        'GET /api/geo/nearby-services': 'Find nearby merchants and services (authenticated)',
+        'POST /api/geo/optimize-route': 'Plan a multi-stop pickup and drop-off route with ETAs, time windows and capacity (driver only)',
+        'GET /api/geo/zones': 'List service zones (admin only)',
+        'GET /api/geo/zones/:id': 'Get a service zone (admin only)',
+        'POST /api/geo/zones': 'Create a service zone with boundary, pricing, hours and services (admin only)',
+        'PUT /api/geo/zones/:id': 'Update a service zone (admin only)',
+        'DELETE /api/geo/zones/:id': 'Delete a service zone (admin only)',
+      },
       social: {
         'POST /api/social/posts': 'Create vendor post (merchant only)',
         'GET /api/social/posts': 'Get vendor posts feed (public)',
@@ -248,10 +271,15 @@ app.get('/api', (req, res) => {
         'GET /api/analytics/sales': 'Get sales analytics (merchant only)',
         'POST /api/analytics/record-daily': 'Record daily analytics (merchant only)',
         'GET /api/analytics/profile': 'Get merchant profile analytics (merchant only)',
+        'GET /api/analytics/events': 'Time-bucketed metrics over the merchant\'s order events (merchant only)',
+        'GET /api/analytics/reports/:report': 'Customer, cohort, product conversion and peak-hour reports as JSON or CSV (merchant only)',
       },
       payment: {
         'POST /api/payment/initialize': 'Initialize payment transaction (authenticated)',
         'POST /api/payment/verify': 'Verify payment transaction (authenticated)',
+        'POST /api/payment/process': 'Pay for an order through the configured gateway (authenticated)',
+        'POST /api/payment/webhook/:provider': 'Receive signed payment gateway webhooks (idempotent per provider event id)',
+        'POST /api/payment/settle/:orderId': 'Release a delivered order\'s escrow to the merchant (admin only)',
         'POST /api/payment/refund/:id': 'Process payment refund (merchant/admin)',
         'POST /api/payment/dispute/:id': 'Create payment dispute (authenticated)',
         'POST /api/payment/payout': 'Request payout (merchant/driver)',
@@ -272,6 +300,19 @@ app.get('/api', (req, res) => {
         'GET /api/notifications/unread-count': 'Get unread notifications count (merchant only)',
         'POST /api/notifications': 'Create notification (internal/system use)',
         'DELETE /api/notifications/:id': 'Delete notification (merchant only)',
+        'GET /api/notifications/preferences': 'Get channel, category, quiet hours and timezone preferences',
+        'POST /api/notifications/preferences': 'Update notification preferences',
+        'GET /api/notifications/deliveries': 'Per-channel delivery status of your notifications',
+        'POST /api/notifications/schedule': 'Schedule a one-off or recurring notification from a message or template (admin/merchant)',
+        'GET /api/notifications/scheduled': 'List scheduled notifications (admin/merchant)',
+        'GET /api/notifications/scheduled/:id/deliveries': 'Per-recipient delivery results of a scheduled notification (admin/merchant)',
+        'PUT /api/notifications/scheduled/:id/status': 'Cancel or re-arm a scheduled notification (admin/merchant)',
+        'POST /api/notifications/devices': 'Register a device token for push notifications',
+        'GET /api/notifications/devices': 'List your devices and topic subscriptions',
+        'DELETE /api/notifications/devices/:id': 'Unregister a device',
+        'POST /api/notifications/devices/:id/topics': 'Subscribe a device to a topic',
+        'DELETE /api/notifications/devices/:id/topics/:topic': 'Unsubscribe a device from a topic',
+        'GET /api/notifications/devices/stats': 'Registered devices and push provider status (admin only)',
       },
       support: {
         'POST /api/support/tickets': 'Create support ticket (public/authenticated)',
@@ -305,9 +346,32 @@ app.get('/api', (req, res) => {
         'GET /api/admin/users': 'Get all users with filters (admin only)',
         'PUT /api/admin/users/:id/verify': 'Verify user identity (admin only)',
         'GET /api/admin/analytics/platform': 'Get platform-wide analytics (admin only)',
+        'GET /api/admin/analytics/events': 'Time-bucketed event counts, sums and percentiles by merchant, zone or event type (admin only)',
         'GET /api/admin/drivers/verification-requests': 'Get pending driver verifications (admin only)',
         'PUT /api/admin/users/:id/status': 'Suspend or activate user account (admin only)',
+        'POST /api/admin/users/:id/reset-mfa': 'Reset a user\'s MFA and revoke their sessions (admin only)',
         'GET /api/admin/system/health': 'Get system health metrics (admin only)',
+        'GET /api/admin/ledger/trial-balance': 'Get ledger trial balance across all accounts (admin only)',
+        'GET /api/admin/payment-events': 'List payment gateway events with processing status (admin only)',
+        'GET /api/admin/payment-events/:id': 'Get a payment event with its raw payload (admin only)',
+        'POST /api/admin/payment-events/:id/replay': 'Replay a failed payment event (admin only)',
+        'GET /api/admin/finance/report': 'Daily GMV, commission, fees, refunds, disputes, float, payouts and gateway reconciliation, as JSON or CSV (admin only)',
+        'GET /api/admin/finance/periods': 'List closed accounting months (admin only)',
+        'GET /api/admin/finance/periods/:period': 'Finance report for a month, frozen once closed (admin only)',
+        'POST /api/admin/finance/periods/:period/close': 'Close a finished month and freeze its finance report (admin only)',
+        'GET /api/admin/jobs': 'List background jobs (admin only)',
+        'GET /api/admin/jobs/stats': 'Job counts by type and status (admin only)',
+        'GET /api/admin/jobs/:id': 'Get background job (admin only)',
+        'POST /api/admin/jobs/:id/retry': 'Retry dead-lettered job (admin only)',
+        'DELETE /api/admin/jobs/:id': 'Cancel pending job (admin only)',
+        'POST /api/admin/jobs/purge': 'Purge completed or dead jobs (admin only)',
+        'POST /api/admin/create-admin': 'Create an admin with roles (admins.manage)',
+        'GET /api/admin/me/permissions': 'Current admin\'s roles and permissions (admin only)',
+        'GET /api/admin/roles': 'List admin roles and their permissions (admins.manage)',
+        'GET /api/admin/admins': 'List admins with their roles (admins.manage)',
+        'PUT /api/admin/admins/:id/roles': 'Replace an admin\'s roles (admins.manage)',
+        'GET /api/admin/audit-logs': 'Search the audit trail; format=csv to export (audit.view)',
+        'GET /api/admin/audit-logs/verify': 'Check the audit hash chain for tampering (audit.view)',
       },
       receipts: {
         'POST /api/receipts/generate': 'Generate receipt and QR code for completed order (authenticated)',
@@ -406,6 +470,7 @@ app.get('/api', (req, res) => {
         'POST /api/wallet/deposit': 'Deposit funds into the wallet',
         'POST /api/wallet/withdraw': 'Withdraw funds from the wallet',
         'GET /api/wallet/history': 'Get transaction history for the wallet',
+        'GET /api/wallet/:userId/statement': 'Get running ledger statement for the wallet',
       },
       security: {
         'POST /api/security/enable-2fa': 'Enable two-factor authentication',
@@ -457,6 +522,10 @@ app.get('/api', (req, res) => {
         'POST /api/auto-assignment/assign/:deliveryId': 'Manually assign a delivery to a driver',
         'GET /api/auto-assignment/assignments/driver/:driverId': 'Get deliveries assigned to a driver',
         'GET /api/auto-assignment/assignments/delivery/:deliveryId': 'Get driver assigned to a delivery',
+        'GET /api/auto-assignment/dispatch/escalated': 'Deliveries no driver accepted (admin only)',
+        'GET /api/auto-assignment/dispatch/:deliveryId': 'Dispatch status and offer history (admin only)',
+        'POST /api/auto-assignment/dispatch/:deliveryId/retry': 'Restart dispatch for a delivery (admin only)',
+        'GET /api/auto-assignment/acceptance-rates': 'Driver offer acceptance rates (admin only)',
       }
     },
     authentication: {
@@ -510,6 +579,30 @@ server.listen(parseInt(serverPort as string), '0.0.0.0', () => {
       console.log('❌ Database connection failed');
     }
   });
+
+  // Work through the shared job queue; the unique key keeps one reservation sweep across all instances
+  messageQueue.start();
+  messageQueue.add(JobTypes.EXPIRE_RESERVATIONS, {}, {
+    uniqueKey: JobTypes.EXPIRE_RESERVATIONS,
+    repeatEvery: 60 * 1000,
+  }).catch(error => console.error('Failed to schedule reservation expiry:', error));
+  messageQueue.add(JobTypes.DISPATCH_SCHEDULED_NOTIFICATIONS, {}, {
+    uniqueKey: JobTypes.DISPATCH_SCHEDULED_NOTIFICATIONS,
+    repeatEvery: 30 * 1000,
+  }).catch(error => console.error('Failed to schedule notification dispatch:', error));
+  messageQueue.add(JobTypes.PURGE_AUDIT_LOGS, {}, {
+    uniqueKey: JobTypes.PURGE_AUDIT_LOGS,
+    repeatEvery: 24 * 60 * 60 * 1000,
+  }).catch(error => console.error('Failed to schedule audit log retention:', error));
+  messageQueue.add(JobTypes.PURGE_ANALYTICS, {}, {
+    uniqueKey: JobTypes.PURGE_ANALYTICS,
+    repeatEvery: 24 * 60 * 60 * 1000,
+  }).catch(error => console.error('Failed to schedule analytics retention:', error));
+});
+
+// Analytics events are written in batches; store the last one before the process stops
+process.once('SIGTERM', () => {
+  analyticsService.flush().finally(() => process.exit(0));
 });
 
 export default app;
\ No newline at end of file
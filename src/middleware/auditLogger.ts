@@ -1,115 +1,80 @@
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
-import { logger } from '../utils/logger';
+import { auditLogService, AuditEntry, AuditFilters } from '../services/auditLog';
 
-export interface AuditLogEntry {
-  userId?: string;
-  userRole?: string;
-  action: string;
-  resource?: string;
-  resourceId?: string;
-  ipAddress: string;
-  userAgent: string;
-  timestamp: Date;
-  success: boolean;
-  errorMessage?: string;
-  metadata?: any;
-}
+// Everything a route supplies; who, where from and which request are taken from the request itself
+type AuditLogEntry = Omit<AuditEntry, 'actorId' | 'actorRole' | 'requestId' | 'ipAddress' | 'userAgent'>;
 
-class AuditLoggerService {
-  private logs: AuditLogEntry[] = [];
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+const SENSITIVE_PARAM = /token|password|secret|otp|code|signature/i;
 
-  async logAction(entry: AuditLogEntry): Promise<void> {
-    this.logs.push(entry);
+const redactQuery = (query: Request['query']) =>
+  Object.fromEntries(Object.entries(query).map(([key, value]) => [key, SENSITIVE_PARAM.test(key) ? '[redacted]' : value]));
 
-    // Log to console/file
-    logger.info('Audit Log', {
-      userId: entry.userId,
-      action: entry.action,
-      resource: entry.resource,
-      success: entry.success,
-      timestamp: entry.timestamp,
-      ipAddress: entry.ipAddress
-    });
+// "/api/admin/users/5/status" -> "users"; the admin prefix says who acted, not what was acted on
+const resourceFromPath = (path: string): string | undefined => {
+  const segments = path.split('/').filter(Boolean);
+  const rest = segments[0] === 'api' ? segments.slice(1) : segments;
+  return rest[0] === 'admin' ? rest[1] : rest[0];
+};
 
-    // In production, you might want to store this in a database
-    // await db.insert(auditLogs).values(entry);
+class AuditLoggerService {
+  // Record an action taken while handling a request, e.g. an admin edit with its before/after diff.
+  // Resolves to whether the entry was stored and never rejects, so a failed write cannot fail a
+  // change that has already been made; the writer logs the failure.
+  async logAction(req: Request, entry: AuditLogEntry): Promise<boolean> {
+    const user = (req as any).user;
+    return auditLogService.record({
+      actorId: user?.userId,
+      actorRole: user?.role,
+      requestId: (req as any).requestId,
+      ipAddress: req.ip || req.socket.remoteAddress,
+      userAgent: req.get('User-Agent'),
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      ...entry,
+    }).then(() => true, () => false);
   }
 
+  // Tags each request with an id and records every mutating request, and every request made by an
+  // admin, once the response has been sent. Bodies are not recorded; they can hold credentials.
   middleware() {
     return (req: Request, res: Response, next: NextFunction) => {
       const startTime = Date.now();
-
-      // Capture the original end function
-      const originalEnd = res.end;
-
-      res.end = function(chunk?: any, encoding?: any) {
-        const endTime = Date.now();
-        const responseTime = endTime - startTime;
-
-        // Log the request
-        const auditEntry: AuditLogEntry = {
-          userId: (req as any).user?.userId?.toString(),
-          userRole: (req as any).user?.role,
-          action: `${req.method} ${req.path}`,
-          resource: req.path.split('/')[2], // Extract resource from path
-          resourceId: req.params.id,
-          ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-          userAgent: req.get('User-Agent') || 'unknown',
-          timestamp: new Date(),
+      const requestId = (req.get('X-Request-ID') || '').slice(0, 64) || crypto.randomUUID();
+      (req as any).requestId = requestId;
+      res.setHeader('X-Request-ID', requestId);
+
+      res.on('finish', () => {
+        const user = (req as any).user;
+        if (!MUTATING_METHODS.has(req.method) && user?.role !== 'ADMIN') {
+          return;
+        }
+
+        const path = req.originalUrl.split('?')[0];
+        // The matched route pattern groups entries by endpoint rather than by id
+        const route = req.route ? `${req.baseUrl}${req.route.path}` : path;
+        this.logAction(req, {
+          action: `${req.method} ${route}`,
+          resource: resourceFromPath(path),
+          resourceId: req.params?.id ?? Object.values(req.params || {})[0],
+          statusCode: res.statusCode,
           success: res.statusCode < 400,
-          errorMessage: res.statusCode >= 400 ? `HTTP ${res.statusCode}` : undefined,
           metadata: {
-            method: req.method,
-            path: req.path,
-            statusCode: res.statusCode,
-            responseTime,
-            queryParams: req.query,
-            bodySize: chunk ? Buffer.byteLength(chunk) : 0
-          }
-        };
-
-        // Log the audit entry
-        auditLogger.logAction(auditEntry).catch(err => {
-          logger.error('Failed to log audit entry', err);
+            responseTimeMs: Date.now() - startTime,
+            query: redactQuery(req.query),
+          },
         });
-
-        // Call the original end function
-        return originalEnd.call(this, chunk, encoding);
-      };
+      });
 
       next();
     };
   }
 
-  async getAuditLogs(filters?: {
-    userId?: string;
-    action?: string;
-    startDate?: Date;
-    endDate?: Date;
-    limit?: number;
-  }): Promise<AuditLogEntry[]> {
-    let filteredLogs = [...this.logs];
-
-    if (filters) {
-      if (filters.userId) {
-        filteredLogs = filteredLogs.filter(log => log.userId === filters.userId);
-      }
-      if (filters.action) {
-        filteredLogs = filteredLogs.filter(log => log.action.includes(filters.action!));
-      }
-      if (filters.startDate) {
-        filteredLogs = filteredLogs.filter(log => log.timestamp >= filters.startDate!);
-      }
-      if (filters.endDate) {
-        filteredLogs = filteredLogs.filter(log => log.timestamp <= filters.endDate!);
-      }
-      if (filters.limit) {
-        filteredLogs = filteredLogs.slice(0, filters.limit);
-      }
-    }
-
-    return filteredLogs.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  async getAuditLogs(filters?: AuditFilters) {
+    return auditLogService.query(filters);
   }
 }
 
-export const auditLogger = new AuditLoggerService();
\ No newline at end of file
+export const auditLogger = new AuditLoggerService();
+export { AuditLogEntry };
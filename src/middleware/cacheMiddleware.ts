@@ -1,18 +1,25 @@
-
 import { Request, Response, NextFunction } from 'express';
-import { ICacheService, InMemoryCache } from '../utils/cache';
+import { ICacheService, CacheManager, encodeEntry, decodeEntry } from '../utils/cache';
 
 interface CacheOptions {
   ttl: number;
+  // Milliseconds past ttl during which the old response is served while one request refreshes it
+  staleTtl?: number;
   keyGenerator?: (req: Request) => string;
   skipCache?: (req: Request) => boolean;
+  // Tags for a response about to be cached, e.g. cacheTags.forProducts(body.products)
+  tags?: (req: Request, body: any) => string[];
 }
 
 class CacheMiddleware {
   private cache: ICacheService;
+  // One request per key builds the response; the rest wait for it, or get the stale copy meanwhile.
+  // Resolves to undefined when the response turned out not to be cacheable.
+  private inflight = new Map<string, Promise<any>>();
+  private generation = 0;
 
   constructor(cache?: ICacheService) {
-    this.cache = cache || new InMemoryCache();
+    this.cache = cache || CacheManager.getInstance();
   }
 
   middleware(options: CacheOptions) {
@@ -23,29 +30,54 @@ class CacheMiddleware {
       }
 
       try {
-        const cacheKey = options.keyGenerator 
+        const cacheKey = options.keyGenerator
           ? options.keyGenerator(req)
           : `${req.originalUrl || req.url}`;
 
-        // Try to get from cache
-        const cachedData = await this.cache.get(cacheKey);
-        
-        if (cachedData) {
-          return res.json(JSON.parse(cachedData));
+        const entry = decodeEntry(await this.cache.get(cacheKey));
+        const fresh = !!entry && entry.freshUntil > Date.now();
+        if (entry && (fresh || this.inflight.has(cacheKey))) {
+          res.set('X-Cache', fresh ? 'HIT' : 'STALE');
+          return res.json(entry.value);
+        }
+
+        const running = this.inflight.get(cacheKey);
+        if (running) {
+          const body = await running;
+          if (body !== undefined) {
+            res.set('X-Cache', 'HIT');
+            return res.json(body);
+          }
+          return next();
         }
 
-        // Store original json method
-        const originalJson = res.json;
+        // This request builds the response, for itself and for everyone asking meanwhile
+        let settle: (body: any) => void = () => undefined;
+        const building = new Promise<any>(resolve => { settle = resolve; });
+        const finish = (body: any) => {
+          if (this.inflight.get(cacheKey) === building) this.inflight.delete(cacheKey);
+          settle(body);
+        };
+        this.inflight.set(cacheKey, building);
+        res.on('close', () => finish(undefined));
 
-        // Override json method to cache the response
-        res.json = function(data: any) {
-          // Cache the data
-          this.cache.set(cacheKey, JSON.stringify(data), options.ttl)
-            .catch(error => console.error('Cache set error:', error));
-          
-          // Call original json method
-          return originalJson.call(this, data);
-        }.bind({ cache: this.cache });
+        const generation = this.generation;
+        const originalJson = res.json.bind(res);
+        res.json = (body: any) => {
+          if (res.statusCode >= 200 && res.statusCode < 300) {
+            // A write that invalidated this response while it was being built wins
+            if (generation === this.generation) {
+              this.cache.set(cacheKey, encodeEntry(body, options.ttl), options.ttl + (options.staleTtl ?? 0), {
+                tags: options.tags?.(req, body),
+              }).catch(error => console.error('Cache set error:', error));
+            }
+            finish(body);
+          } else {
+            finish(undefined);
+          }
+          res.set('X-Cache', entry ? 'REFRESH' : 'MISS');
+          return originalJson(body);
+        };
 
         next();
       } catch (error) {
@@ -55,9 +87,35 @@ class CacheMiddleware {
     };
   }
 
-  async invalidate(pattern: string): Promise<void> {
+  // For write routes: once the handler answers with a 2xx, drop the cached responses carrying any
+  // of the tags before the answer goes out, so the writer's next read sees the change
+  invalidates(tags: (req: Request, body: any) => string[]) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const originalJson = res.json.bind(res);
+      res.json = (body: any) => {
+        if (res.statusCode < 200 || res.statusCode >= 300) {
+          return originalJson(body);
+        }
+        this.invalidateTags(tags(req, body)).finally(() => originalJson(body));
+        return res;
+      };
+      next();
+    };
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    this.generation++;
+    try {
+      await this.cache.invalidateTags(tags);
+    } catch (error) {
+      console.error('Cache invalidation error:', error);
+    }
+  }
+
+  async invalidate(key: string): Promise<void> {
+    this.generation++;
     try {
-      await this.cache.del(pattern);
+      await this.cache.del(key);
     } catch (error) {
       console.error('Cache invalidation error:', error);
     }
@@ -1,75 +1,52 @@
-
 import { Request, Response, NextFunction } from 'express';
-import { ICacheService, InMemoryCache } from '../utils/cache';
-
-interface RateLimitOptions {
-  windowMs: number;
-  maxRequests: number;
-  message?: string;
-  skipSuccessfulRequests?: boolean;
-  skipFailedRequests?: boolean;
-  keyGenerator?: (req: Request) => string;
-  onLimitReached?: (req: Request, res: Response) => void;
-}
+import { ICacheService, CacheManager, RateLimitCounter } from '../utils/cache';
+import { verifyToken } from '../utils/auth';
+import { rateLimitPolicies, RateLimitPolicy, RateLimitKeyPart } from '../config/rateLimits';
 
-interface RateLimitInfo {
-  totalHits: number;
-  resetTime: number;
+interface RateLimitResult {
+  policy: RateLimitPolicy;
+  counter: RateLimitCounter;
 }
 
+const matchesPath = (pattern: string, path: string): boolean =>
+  pattern.endsWith('*') ? path.startsWith(pattern.slice(0, -1)) : path === pattern || path === `${pattern}/`;
+
+// Counters live in the shared cache, so with CACHE_DRIVER=redis every process enforces the same limits
 class RateLimiter {
   private cache: ICacheService;
 
-  constructor(cache?: ICacheService) {
-    this.cache = cache || new InMemoryCache();
+  constructor(cache?: ICacheService, private policies: RateLimitPolicy[] = rateLimitPolicies) {
+    this.cache = cache || CacheManager.getInstance();
   }
 
-  middleware(options: RateLimitOptions) {
+  // Checks every policy the request matches. The RateLimit-* headers describe the refusing policy,
+  // or else the one with the fewest requests left.
+  middleware() {
     return async (req: Request, res: Response, next: NextFunction) => {
-      try {
-        const key = options.keyGenerator 
-          ? options.keyGenerator(req)
-          : `ratelimit:${req.ip}:${req.originalUrl || req.url}`;
-
-        const now = Date.now();
-        const windowStart = now - options.windowMs;
-
-        // Get current rate limit info
-        const cachedInfo = await this.cache.get(key);
-        let rateLimitInfo: RateLimitInfo = cachedInfo 
-          ? JSON.parse(cachedInfo)
-          : { totalHits: 0, resetTime: now + options.windowMs };
-
-        // Reset if window has expired
-        if (now > rateLimitInfo.resetTime) {
-          rateLimitInfo = {
-            totalHits: 0,
-            resetTime: now + options.windowMs
-          };
-        }
-
-        // Increment hit count
-        rateLimitInfo.totalHits++;
-
-        // Update cache
-        await this.cache.set(key, JSON.stringify(rateLimitInfo), options.windowMs);
-
-        // Set rate limit headers
-        res.set({
-          'X-RateLimit-Limit': options.maxRequests.toString(),
-          'X-RateLimit-Remaining': Math.max(0, options.maxRequests - rateLimitInfo.totalHits).toString(),
-          'X-RateLimit-Reset': new Date(rateLimitInfo.resetTime).toISOString()
-        });
-
-        // Check if limit exceeded
-        if (rateLimitInfo.totalHits > options.maxRequests) {
-          if (options.onLimitReached) {
-            options.onLimitReached(req, res);
-          }
+      const path = (req.originalUrl || req.url).split('?')[0];
+      const matching = this.policies.filter(policy => this.matches(policy, req.method, path));
+      if (matching.length === 0) {
+        return next();
+      }
 
+      try {
+        const results: RateLimitResult[] = await Promise.all(matching.map(async policy => ({
+          policy,
+          counter: await this.consume(policy, req, path),
+        })));
+
+        const denied = results.find(result => !result.counter.allowed);
+        const reported = denied || results.reduce((tightest, result) =>
+          result.counter.remaining < tightest.counter.remaining ? result : tightest);
+        this.setHeaders(res, reported);
+
+        if (denied) {
+          const retryAfter = Math.max(1, Math.ceil(denied.counter.retryAfterMs / 1000));
+          res.set('Retry-After', String(retryAfter));
           return res.status(429).json({
-            error: options.message || 'Too many requests',
-            retryAfter: Math.ceil((rateLimitInfo.resetTime - now) / 1000)
+            error: denied.policy.message || 'Too many requests',
+            policy: denied.policy.name,
+            retryAfter,
           });
         }
 
@@ -80,7 +57,58 @@ class RateLimiter {
       }
     };
   }
+
+  private matches(policy: RateLimitPolicy, method: string, path: string): boolean {
+    if (policy.methods && !policy.methods.includes(method)) return false;
+    if (policy.exclude?.some(pattern => matchesPath(pattern, path))) return false;
+    return policy.paths.some(pattern => matchesPath(pattern, path));
+  }
+
+  private consume(policy: RateLimitPolicy, req: Request, path: string): Promise<RateLimitCounter> {
+    const key = ['ratelimit', policy.name, ...policy.keyBy.map(part => this.keyPart(part, req, path))].join(':');
+    return policy.algorithm === 'TOKEN_BUCKET'
+      ? this.cache.tokenBucket(key, policy.limit, policy.windowMs)
+      : this.cache.slidingWindow(key, policy.limit, policy.windowMs);
+  }
+
+  private keyPart(part: RateLimitKeyPart, req: Request, path: string): string {
+    switch (part) {
+      case 'user': {
+        const userId = this.userId(req);
+        return userId ? `user=${userId}` : `ip=${this.ip(req)}`;
+      }
+      case 'ip':
+        return `ip=${this.ip(req)}`;
+      case 'route':
+        return `route=${path.replace(/\/$/, '')}`;
+    }
+  }
+
+  // Routes authenticate after this runs, so the token is only checked for its signature here;
+  // a revoked session still fails in authenticateToken
+  private userId(req: Request): number | null {
+    const token = req.headers['authorization']?.split(' ')[1];
+    if (!token) return null;
+    try {
+      return verifyToken(token).userId;
+    } catch {
+      return null;
+    }
+  }
+
+  private ip(req: Request): string {
+    return req.ip || req.socket.remoteAddress || 'unknown';
+  }
+
+  private setHeaders(res: Response, { policy, counter }: RateLimitResult) {
+    res.set({
+      'RateLimit-Limit': String(policy.limit),
+      'RateLimit-Remaining': String(Math.max(0, counter.remaining)),
+      'RateLimit-Reset': String(Math.ceil(counter.resetMs / 1000)),
+      'RateLimit-Policy': `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`,
+    });
+  }
 }
 
 export const rateLimiter = new RateLimiter();
-export { RateLimiter, RateLimitOptions };
+export { RateLimiter, RateLimitResult };
@@ -2,9 +2,11 @@
 import { Router } from 'express';
 import { eq } from 'drizzle-orm';
 import { users } from '../schema';
-import { hashPassword, comparePassword, generateToken } from '../utils/auth';
+import { hashPassword, comparePassword, authenticateToken } from '../utils/auth';
 import db from '../config/database';
 import { fraudDetectionMiddleware } from '../utils/fraud-middleware';
+import { sessionService, clientInfo } from '../services/sessions';
+import { adminPermissionService } from '../services/adminPermissions';
 
 const router = Router();
 
@@ -40,16 +42,21 @@ router.post('/login', fraudDetectionMiddleware('ADMIN_LOGIN') as any, async (req
       return res.status(401).json({ error: 'Admin account not verified' });
     }
 
-    // Generate JWT token with admin role
-    const token = generateToken({
-      userId: foundUser.id,
-      email: foundUser.email,
-      role: 'ADMIN',
-    });
+    if (foundUser.isActive === false) {
+      return res.status(403).json({ error: 'Admin account is deactivated' });
+    }
+
+    // Start an admin session
+    const { token, refreshToken } = await sessionService.create(foundUser, clientInfo(req));
+    const [adminRoles, permissions] = await Promise.all([
+      adminPermissionService.getRoles(foundUser.id),
+      adminPermissionService.getPermissions(foundUser.id),
+    ]);
 
     res.json({
       message: 'Admin login successful',
       token,
+      refreshToken,
       admin: {
         id: foundUser.id,
         userId: foundUser.userId,
@@ -57,6 +64,8 @@ router.post('/login', fraudDetectionMiddleware('ADMIN_LOGIN') as any, async (req
         email: foundUser.email,
         role: foundUser.role,
         isVerified: foundUser.isVerified,
+        adminRoles,
+        permissions: [...permissions],
       },
       redirectTo: '/admin/dashboard', // Specific admin dashboard route
     });
@@ -67,9 +76,11 @@ router.post('/login', fraudDetectionMiddleware('ADMIN_LOGIN') as any, async (req
 });
 
 // Admin logout endpoint
-router.post('/logout', async (req, res) => {
+router.post('/logout', authenticateToken, async (req, res) => {
   try {
-    // In a more advanced setup, you might want to blacklist the token
+    const { userId, sid } = (req as any).user;
+    await sessionService.revoke(sid, 'LOGOUT', userId);
+
     res.json({ 
       message: 'Admin logged out successfully',
       redirectTo: '/admin/login'
@@ -119,6 +130,13 @@ router.post('/register', async (req, res) => {
       isVerified: true, // Auto-verify admin users
     }).returning();
 
+    // The first admin ever registered becomes super admin so someone can assign roles; later
+    // registrations start with no permissions until a super admin grants them roles
+    const bootstrap = await adminPermissionService.hasNoAssignments();
+    if (bootstrap) {
+      await adminPermissionService.setRoles(newAdmin[0].id, ['SUPER_ADMIN'], newAdmin[0].id);
+    }
+
     res.status(201).json({
       message: 'Admin user registered successfully',
       admin: {
@@ -127,6 +145,7 @@ router.post('/register', async (req, res) => {
         fullName: newAdmin[0].fullName,
         email: newAdmin[0].email,
         role: newAdmin[0].role,
+        adminRoles: bootstrap ? ['SUPER_ADMIN'] : [],
       },
       redirectTo: '/admin/login'
     });
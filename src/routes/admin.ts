@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { eq, and, desc, sql, or, like } from 'drizzle-orm';
 import db from '../config/database';
 import { 
@@ -11,14 +11,26 @@ import {
   deliveryRequests,
   vendorPosts,
   identityVerifications,
-  driverVerifications
+  driverVerifications,
+  mfaConfigurations
 } from '../schema';
 import { authenticateToken, authorizeRoles, hashPassword } from '../utils/auth';
+import { requirePermission } from '../utils/admin-middleware';
+import { ledgerService } from '../services/ledger';
+import { paymentEventService } from '../services/paymentEvents';
+import { messageQueue } from '../services/messageQueue';
+import { sessionService } from '../services/sessions';
+import { adminPermissionService, AdminPermissionError } from '../services/adminPermissions';
+import { auditLogService } from '../services/auditLog';
+import { analyticsService, AnalyticsQueryError } from '../services/analytics';
+import { financeReportService, FinanceReportError, FinanceReport, FINANCE_DAY_COLUMNS, FINANCE_DISCREPANCY_COLUMNS } from '../services/financeReports';
+import { toCsv } from '../utils/csv';
+import { auditLogger } from '../middleware/auditLogger';
 
 const router = Router();
 
 // Admin dashboard endpoint
-router.get('/dashboard', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/dashboard', authenticateToken, requirePermission('analytics.view'), async (req, res) => {
   try {
     const adminUser = (req as any).user;
 
@@ -68,7 +80,7 @@ router.get('/dashboard', authenticateToken, authorizeRoles('ADMIN'), async (req,
 });
 
 // Get all users with filters
-router.get('/users', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/users', authenticateToken, requirePermission('users.view'), async (req, res) => {
   try {
     const { 
       role, 
@@ -153,7 +165,7 @@ router.get('/users', authenticateToken, authorizeRoles('ADMIN'), async (req, res
 });
 
 // Verify user identity
-router.put('/users/:id/verify', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.put('/users/:id/verify', authenticateToken, requirePermission('users.manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const { isVerified, isPhoneVerified, isIdentityVerified } = req.body;
@@ -167,6 +179,7 @@ router.put('/users/:id/verify', authenticateToken, authorizeRoles('ADMIN'), asyn
       return res.status(400).json({ error: 'No verification fields provided' });
     }
 
+    const [before] = await db.select().from(users).where(eq(users.id, Number(id)));
     const updatedUser = await db.update(users)
       .set(updateData)
       .where(eq(users.id, Number(id)))
@@ -176,6 +189,13 @@ router.put('/users/:id/verify', authenticateToken, authorizeRoles('ADMIN'), asyn
       return res.status(404).json({ error: 'User not found' });
     }
 
+    await auditLogger.logAction(req, {
+      action: 'user.verification.update',
+      resource: 'users',
+      resourceId: id,
+      changes: auditLogService.diff(before, updatedUser[0], Object.keys(updateData)),
+    });
+
     res.json({
       message: 'User verification status updated',
       user: {
@@ -194,7 +214,7 @@ router.put('/users/:id/verify', authenticateToken, authorizeRoles('ADMIN'), asyn
 });
 
 // Get platform-wide analytics
-router.get('/analytics/platform', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/analytics/platform', authenticateToken, requirePermission('analytics.view'), async (req, res) => {
   try {
     const { startDate, endDate } = req.query;
 
@@ -313,8 +333,22 @@ router.get('/analytics/platform', authenticateToken, authorizeRoles('ADMIN'), as
   }
 });
 
+// Time-bucketed event metrics from the analytics store, across all merchants and zones
+router.get('/analytics/events', authenticateToken, requirePermission('analytics.view'), async (req, res) => {
+  try {
+    const result = await analyticsService.query(analyticsService.parseQuery(req.query as Record<string, unknown>));
+    res.json(result);
+  } catch (error) {
+    if (error instanceof AnalyticsQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Query analytics events error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get pending driver verification requests
-router.get('/drivers/verification-requests', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/drivers/verification-requests', authenticateToken, requirePermission('verifications.review'), async (req, res) => {
   try {
     const { page = 1, limit = 20 } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
@@ -360,8 +394,8 @@ router.get('/drivers/verification-requests', authenticateToken, authorizeRoles('
   }
 });
 
-// Suspend or activate user account (using isVerified as status flag)
-router.put('/users/:id/status', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+// Suspend or activate user account
+router.put('/users/:id/status', authenticateToken, requirePermission('users.manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const { isActive } = req.body;
@@ -370,12 +404,9 @@ router.put('/users/:id/status', authenticateToken, authorizeRoles('ADMIN'), asyn
       return res.status(400).json({ error: 'isActive must be a boolean value' });
     }
 
-    // For now, we use isVerified as the status flag since there's no isActive field
-    // In production, you'd want to add an isActive field to the users table
+    const [before] = await db.select({ isActive: users.isActive }).from(users).where(eq(users.id, Number(id)));
     const updatedUser = await db.update(users)
-      .set({ 
-        isVerified: isActive // Using verification status as a proxy for active status
-      })
+      .set({ isActive, updatedAt: new Date() })
       .where(eq(users.id, Number(id)))
       .returning();
 
@@ -383,6 +414,19 @@ router.put('/users/:id/status', authenticateToken, authorizeRoles('ADMIN'), asyn
       return res.status(404).json({ error: 'User not found' });
     }
 
+    // A suspended account is signed out everywhere; its refresh tokens stop working too
+    const revokedSessions = isActive
+      ? 0
+      : await sessionService.revokeAllForUser(updatedUser[0].id, 'DEACTIVATED');
+
+    await auditLogger.logAction(req, {
+      action: isActive ? 'user.activate' : 'user.suspend',
+      resource: 'users',
+      resourceId: id,
+      changes: auditLogService.diff(before, updatedUser[0], ['isActive']),
+      metadata: { revokedSessions },
+    });
+
     res.json({
       message: `User account ${isActive ? 'activated' : 'suspended'} successfully`,
       user: {
@@ -390,7 +434,9 @@ router.put('/users/:id/status', authenticateToken, authorizeRoles('ADMIN'), asyn
         fullName: updatedUser[0].fullName,
         email: updatedUser[0].email,
         isVerified: updatedUser[0].isVerified,
+        isActive: updatedUser[0].isActive,
       },
+      revokedSessions,
     });
   } catch (error) {
     console.error('Update user status error:', error);
@@ -398,8 +444,41 @@ router.put('/users/:id/status', authenticateToken, authorizeRoles('ADMIN'), asyn
   }
 });
 
+// Reset a user's MFA, e.g. after a lost authenticator, and sign them out everywhere
+router.post('/users/:id/reset-mfa', authenticateToken, requirePermission('users.manage'), async (req, res) => {
+  try {
+    const userId = Number(req.params.id);
+
+    const [user] = await db.select({ id: users.id }).from(users).where(eq(users.id, userId));
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const [mfaBefore] = await db.update(mfaConfigurations)
+      .set({ isEnabled: false, backupCodes: null, updatedAt: new Date() })
+      .where(eq(mfaConfigurations.userId, userId))
+      .returning({ id: mfaConfigurations.id });
+    const revokedSessions = await sessionService.revokeAllForUser(userId, 'MFA_RESET');
+
+    await auditLogger.logAction(req, {
+      action: 'user.mfa.reset',
+      resource: 'users',
+      resourceId: userId,
+      metadata: { hadMfaConfiguration: !!mfaBefore, revokedSessions },
+    });
+
+    res.json({
+      message: 'MFA reset successfully; the user must sign in again',
+      revokedSessions,
+    });
+  } catch (error) {
+    console.error('Reset MFA error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get system health metrics
-router.get('/system/health', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/system/health', authenticateToken, requirePermission('system.view'), async (req, res) => {
   try {
     // Get various system metrics
     const [
@@ -428,8 +507,10 @@ router.get('/system/health', authenticateToken, authorizeRoles('ADMIN'), async (
       }).from(deliveryRequests).where(
         or(
           eq(deliveryRequests.status, 'ASSIGNED'),
+          eq(deliveryRequests.status, 'AT_PICKUP'),
           eq(deliveryRequests.status, 'PICKED_UP'),
-          eq(deliveryRequests.status, 'IN_TRANSIT')
+          eq(deliveryRequests.status, 'IN_TRANSIT'),
+          eq(deliveryRequests.status, 'ARRIVING')
         )
       ),
 
@@ -457,15 +538,377 @@ router.get('/system/health', authenticateToken, authorizeRoles('ADMIN'), async (
   }
 });
 
+// Get ledger trial balance (debits must equal credits)
+router.get('/ledger/trial-balance', authenticateToken, requirePermission('finance.view'), async (req, res) => {
+  try {
+    const trialBalance = await ledgerService.getTrialBalance();
+
+    res.json({
+      timestamp: new Date().toISOString(),
+      ...trialBalance,
+    });
+  } catch (error) {
+    console.error('Get trial balance error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List payment gateway events (webhooks and callbacks)
+router.get('/payment-events', authenticateToken, requirePermission('finance.view'), async (req, res) => {
+  try {
+    const { provider, status, txRef, page = 1, limit = 20 } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+
+    const events = await paymentEventService.list({
+      provider: provider as string | undefined,
+      status: status as string | undefined,
+      txRef: txRef as string | undefined,
+      limit: limitNum,
+      offset: (pageNum - 1) * limitNum,
+    });
+
+    res.json({
+      events,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+      },
+    });
+  } catch (error) {
+    console.error('Get payment events error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a payment event with its raw payload and processing outcome
+router.get('/payment-events/:id', authenticateToken, requirePermission('finance.view'), async (req, res) => {
+  try {
+    const event = await paymentEventService.getEvent(req.params.id);
+    if (!event) {
+      return res.status(404).json({ error: 'Payment event not found' });
+    }
+
+    res.json(event);
+  } catch (error) {
+    console.error('Get payment event error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replay a payment event that failed to process
+router.post('/payment-events/:id/replay', authenticateToken, requirePermission('finance.manage'), async (req, res) => {
+  try {
+    const event = await paymentEventService.replay(req.params.id);
+    if (!event) {
+      const existing = await paymentEventService.getEvent(req.params.id);
+      return existing
+        ? res.status(409).json({ error: `Only failed events can be replayed (status is ${existing.processingStatus})` })
+        : res.status(404).json({ error: 'Payment event not found' });
+    }
+
+    res.json({
+      message: event.processingStatus === 'FAILED' ? 'Replay failed' : 'Payment event replayed',
+      event,
+    });
+  } catch (error) {
+    console.error('Replay payment event error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Daily rows, or with section=discrepancies the unreconciled gateway references, as a CSV download
+const sendFinanceCsv = (res: Response, report: FinanceReport, section: unknown, name: string, checksum?: string) => {
+  const csv = section === 'discrepancies'
+    ? toCsv(FINANCE_DISCREPANCY_COLUMNS, report.discrepancies)
+    : toCsv(FINANCE_DAY_COLUMNS, report.days);
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${name}${section === 'discrepancies' ? '-discrepancies' : ''}.csv"`);
+  if (checksum) {
+    res.setHeader('X-Report-Checksum', checksum);
+  }
+  return res.send(csv);
+};
+
+const financeErrorStatus = (error: FinanceReportError) =>
+  error.code === 'PERIOD_CLOSED' || error.code === 'PERIOD_NOT_ENDED' ? 409 : 400;
+
+// Finance report for any range of days: GMV, commission, fees, refunds, disputes, float, payouts and reconciliation
+router.get('/finance/report', authenticateToken, requirePermission('finance.view'), async (req, res) => {
+  try {
+    const range = financeReportService.parseRange(req.query);
+    const report = await financeReportService.build(range);
+
+    if (req.query.format === 'csv') {
+      return sendFinanceCsv(res, report, req.query.section, `finance-${range.fromDay}-to-${range.toDay}`);
+    }
+
+    res.json(report);
+  } catch (error) {
+    if (error instanceof FinanceReportError) {
+      return res.status(financeErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    console.error('Get finance report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Closed accounting months
+router.get('/finance/periods', authenticateToken, requirePermission('finance.view'), async (req, res) => {
+  try {
+    const periods = await financeReportService.listClosedPeriods();
+    res.json({ periods });
+  } catch (error) {
+    console.error('List finance periods error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// A month's finance report: as frozen at close, or live while the month is open
+router.get('/finance/periods/:period', authenticateToken, requirePermission('finance.view'), async (req, res) => {
+  try {
+    const period = await financeReportService.getPeriod(req.params.period);
+
+    if (req.query.format === 'csv') {
+      return sendFinanceCsv(res, period.report, req.query.section, `finance-${period.period}`, period.checksum);
+    }
+
+    res.json(period);
+  } catch (error) {
+    if (error instanceof FinanceReportError) {
+      return res.status(financeErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    console.error('Get finance period error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Close a finished month, freezing its report
+router.post('/finance/periods/:period/close', authenticateToken, requirePermission('finance.manage'), async (req, res) => {
+  try {
+    const { notes } = req.body;
+    const closed = await financeReportService.closePeriod(req.params.period, (req as any).user.userId, notes);
+
+    await auditLogger.logAction(req, {
+      action: 'finance.period.close',
+      resource: 'finance_periods',
+      resourceId: closed.period,
+      metadata: { checksum: closed.checksum },
+    });
+
+    res.status(201).json({
+      message: `Finance period ${closed.period} closed`,
+      period: closed.period,
+      checksum: closed.checksum,
+      closedAt: closed.closedAt,
+      report: closed.report,
+    });
+  } catch (error) {
+    if (error instanceof FinanceReportError) {
+      return res.status(financeErrorStatus(error)).json({ error: error.message, code: error.code });
+    }
+    console.error('Close finance period error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List background jobs
+router.get('/jobs', authenticateToken, requirePermission('system.view'), async (req, res) => {
+  try {
+    const { status, type, page = 1, limit = 20 } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+
+    const jobs = await messageQueue.list({
+      status: status as string | undefined,
+      type: type as string | undefined,
+      limit: limitNum,
+      offset: (pageNum - 1) * limitNum,
+    });
+
+    res.json({
+      jobs,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+      },
+    });
+  } catch (error) {
+    console.error('Get jobs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Job counts by type and status
+router.get('/jobs/stats', authenticateToken, requirePermission('system.view'), async (req, res) => {
+  try {
+    res.json({ stats: await messageQueue.getStats() });
+  } catch (error) {
+    console.error('Get job stats error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a job with its payload and last error
+router.get('/jobs/:id', authenticateToken, requirePermission('system.view'), async (req, res) => {
+  try {
+    const job = await messageQueue.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Get job error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Retry a dead-lettered job
+router.post('/jobs/:id/retry', authenticateToken, requirePermission('system.operate'), async (req, res) => {
+  try {
+    const job = await messageQueue.retry(req.params.id);
+    if (!job) {
+      const existing = await messageQueue.getJob(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      return res.status(409).json({
+        error: existing.status === 'DEAD'
+          ? 'Another job with the same key is already queued'
+          : `Only dead jobs can be retried (status is ${existing.status})`,
+      });
+    }
+
+    res.json({ message: 'Job queued for retry', job });
+  } catch (error) {
+    console.error('Retry job error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Cancel a job that has not started yet
+router.delete('/jobs/:id', authenticateToken, requirePermission('system.operate'), async (req, res) => {
+  try {
+    const removed = await messageQueue.remove(req.params.id);
+    if (!removed) {
+      return res.status(409).json({ error: 'Only pending jobs can be cancelled' });
+    }
+
+    res.json({ message: 'Job cancelled' });
+  } catch (error) {
+    console.error('Cancel job error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Purge finished jobs
+router.post('/jobs/purge', authenticateToken, requirePermission('system.operate'), async (req, res) => {
+  try {
+    const { status, type, olderThanDays } = req.body;
+
+    if (status && !['COMPLETED', 'DEAD'].includes(status)) {
+      return res.status(400).json({ error: 'Only COMPLETED or DEAD jobs can be purged' });
+    }
+
+    const purged = await messageQueue.purge({
+      status,
+      type,
+      before: olderThanDays !== undefined ? new Date(Date.now() - Number(olderThanDays) * 24 * 60 * 60 * 1000) : undefined,
+    });
+
+    res.json({ message: `Purged ${purged} jobs`, purged });
+  } catch (error) {
+    console.error('Purge jobs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Search the audit trail; format=csv downloads every match instead of a page
+router.get('/audit-logs', authenticateToken, requirePermission('audit.view'), async (req, res) => {
+  try {
+    const { actorId, actorRole, action, resource, resourceId, requestId, success, from, to, format, page = 1, limit = 50 } = req.query;
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 50, 1), 500);
+    const fromDate = from ? new Date(from as string) : undefined;
+    const toDate = to ? new Date(to as string) : undefined;
+
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ error: 'from and to must be valid dates' });
+    }
+
+    const filters = {
+      actorId: actorId ? Number(actorId) : undefined,
+      actorRole: actorRole as string | undefined,
+      action: action as string | undefined,
+      resource: resource as string | undefined,
+      resourceId: resourceId as string | undefined,
+      requestId: requestId as string | undefined,
+      success: success === undefined ? undefined : success === 'true',
+      from: fromDate,
+      to: toDate,
+    };
+
+    if (format === 'csv') {
+      const { csv, truncated } = await auditLogService.exportCsv(filters);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-logs-${new Date().toISOString().slice(0, 10)}.csv"`);
+      if (truncated) {
+        res.setHeader('X-Export-Truncated', 'true');
+      }
+      return res.send(csv);
+    }
+
+    const { entries, total } = await auditLogService.query({
+      ...filters,
+      limit: limitNum,
+      offset: (pageNum - 1) * limitNum,
+    });
+
+    res.json({
+      entries,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    console.error('Get audit logs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Recompute the audit hash chain to detect edited or removed entries
+router.get('/audit-logs/verify', authenticateToken, requirePermission('audit.view'), async (req, res) => {
+  try {
+    const { fromId, toId } = req.query;
+    const result = await auditLogService.verifyChain(
+      fromId ? Number(fromId) : undefined,
+      toId ? Number(toId) : undefined,
+    );
+
+    res.json(result);
+  } catch (error) {
+    console.error('Verify audit logs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Create admin user (super admin only or initial setup)
-router.post('/create-admin', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/create-admin', authenticateToken, requirePermission('admins.manage'), async (req, res) => {
   try {
-    const { fullName, email, phone, password } = req.body;
+    const { fullName, email, phone, password, roles = [] } = req.body;
 
     if (!fullName || !email || !phone || !password) {
       return res.status(400).json({ error: 'All fields are required' });
     }
 
+    if (!Array.isArray(roles) || roles.some((role: string) => !adminPermissionService.isRole(role))) {
+      return res.status(400).json({ error: 'roles must be a list of admin roles', validRoles: adminPermissionService.describe().roles.map(role => role.name) });
+    }
+
     // Check if user already exists
     const existingUser = await db.select().from(users).where(eq(users.email, email));
     if (existingUser.length > 0) {
@@ -490,6 +933,16 @@ router.post('/create-admin', authenticateToken, authorizeRoles('ADMIN'), async (
       isVerified: true, // Auto-verify admin users
     }).returning();
 
+    const assignedRoles = await adminPermissionService.setRoles(newAdmin[0].id, roles, (req as any).user.userId);
+
+    await auditLogger.logAction(req, {
+      action: 'admin.create',
+      resource: 'admins',
+      resourceId: newAdmin[0].id,
+      changes: { roles: { before: null, after: assignedRoles } },
+      metadata: { email: newAdmin[0].email },
+    });
+
     res.status(201).json({
       message: 'Admin user created successfully',
       admin: {
@@ -498,6 +951,7 @@ router.post('/create-admin', authenticateToken, authorizeRoles('ADMIN'), async (
         fullName: newAdmin[0].fullName,
         email: newAdmin[0].email,
         role: newAdmin[0].role,
+        adminRoles: assignedRoles,
       },
     });
   } catch (error) {
@@ -506,4 +960,70 @@ router.post('/create-admin', authenticateToken, authorizeRoles('ADMIN'), async (
   }
 });
 
+// The current admin's roles and permissions, for showing only what they can use
+router.get('/me/permissions', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const [roles, permissions] = await Promise.all([
+      adminPermissionService.getRoles(userId),
+      adminPermissionService.getPermissions(userId),
+    ]);
+
+    res.json({ roles, permissions: [...permissions] });
+  } catch (error) {
+    console.error('Get admin permissions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin roles and the permissions each grants
+router.get('/roles', authenticateToken, requirePermission('admins.manage'), async (req, res) => {
+  res.json(adminPermissionService.describe());
+});
+
+// Admin accounts with their roles
+router.get('/admins', authenticateToken, requirePermission('admins.manage'), async (req, res) => {
+  try {
+    const admins = await adminPermissionService.listAdmins();
+    res.json({ admins });
+  } catch (error) {
+    console.error('List admins error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replace an admin's roles
+router.put('/admins/:id/roles', authenticateToken, requirePermission('admins.manage'), async (req, res) => {
+  try {
+    const adminId = Number(req.params.id);
+    const { roles } = req.body;
+
+    if (!Array.isArray(roles) || roles.some((role: string) => !adminPermissionService.isRole(role))) {
+      return res.status(400).json({ error: 'roles must be a list of admin roles', validRoles: adminPermissionService.describe().roles.map(role => role.name) });
+    }
+
+    const previousRoles = await adminPermissionService.getRoles(adminId);
+    const assignedRoles = await adminPermissionService.setRoles(adminId, roles, (req as any).user.userId);
+
+    await auditLogger.logAction(req, {
+      action: 'admin.roles.update',
+      resource: 'admins',
+      resourceId: adminId,
+      changes: auditLogService.diff({ roles: [...previousRoles].sort() }, { roles: [...assignedRoles].sort() }),
+    });
+
+    res.json({
+      message: 'Admin roles updated successfully',
+      adminId,
+      roles: assignedRoles,
+    });
+  } catch (error) {
+    if (error instanceof AdminPermissionError) {
+      return res.status(error.code === 'NOT_ADMIN' ? 404 : 409).json({ error: error.message, code: error.code });
+    }
+    console.error('Update admin roles error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -3,6 +3,9 @@ import { eq, and, desc, sql, gte, lte } from 'drizzle-orm';
 import db from '../config/database';
 import { merchantAnalytics, orders, products, vendorPosts, users, merchantProfiles } from '../schema';
 import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { analyticsService, AnalyticsQueryError } from '../services/analytics';
+import { merchantReportService, MerchantReportError } from '../services/merchantReports';
+import { toCsv } from '../utils/csv';
 
 const router = Router();
 
@@ -384,4 +387,52 @@ router.get('/profile', authenticateToken, authorizeRoles('MERCHANT'), async (req
   }
 });
 
+// Time-bucketed metrics over the merchant's own order events
+router.get('/events', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+  try {
+    const merchantId = (req as any).user.userId;
+    if (req.query.groupBy === 'merchant') {
+      return res.status(400).json({ error: 'groupBy must be eventType or zone' });
+    }
+
+    const query = analyticsService.parseQuery({ ...req.query, merchantId });
+    res.json(await analyticsService.query(query));
+  } catch (error) {
+    if (error instanceof AnalyticsQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Query merchant analytics events error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Merchant reports: customers, cohorts, products or peak-hours, as JSON or ?format=csv
+router.get('/reports/:report', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+  try {
+    const merchantId = (req as any).user.userId;
+    const { report } = req.params;
+    if (!merchantReportService.isReport(report)) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    const range = merchantReportService.parseRange(report, req.query);
+    const result = await merchantReportService.build(report, merchantId, range);
+
+    if (req.query.format === 'csv') {
+      const period = `${range.from.toISOString().slice(0, 10)}-to-${range.to.toISOString().slice(0, 10)}`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${report}-${period}.csv"`);
+      return res.send(toCsv(result.columns, result.rows));
+    }
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof MerchantReportError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Build merchant report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
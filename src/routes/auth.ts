@@ -2,12 +2,13 @@ import { Router } from 'express';
 import { eq, and } from 'drizzle-orm';
 import db from '../config/database';
 import { users, otpCodes, merchantProfiles, driverProfiles, mfaConfigurations } from '../schema';
-import { hashPassword, comparePassword, generateToken, generateOTP, authenticateToken } from '../utils/auth';
+import { hashPassword, comparePassword, generateOTP, authenticateToken } from '../utils/auth';
 import * as speakeasy from 'speakeasy';
 import * as QRCode from 'qrcode';
 import { sendOTPEmail, sendWelcomeEmail } from '../utils/mailer';
 import { v4 as uuidv4 } from 'uuid';
 import { fraudDetectionMiddleware } from '../utils/fraud-middleware';
+import { sessionService, clientInfo, SessionError } from '../services/sessions';
 
 const router = Router();
 
@@ -116,16 +117,13 @@ router.post('/verify-otp', async (req, res) => {
     // Send welcome email
     await sendWelcomeEmail(email, user[0].fullName);
 
-    // Generate JWT token
-    const token = generateToken({
-      userId: user[0].id,
-      email: user[0].email,
-      role: user[0].role as 'CONSUMER' | 'MERCHANT' | 'DRIVER',
-    });
+    // Start a session
+    const { token, refreshToken } = await sessionService.create(user[0], clientInfo(req));
 
     res.json({
       message: 'Email verified successfully',
       token,
+      refreshToken,
       user: {
         id: user[0].id,
         userId: user[0].userId,
@@ -168,12 +166,12 @@ router.post('/login', fraudDetectionMiddleware('LOGIN') as any, async (req: any,
       return res.status(401).json({ error: 'Please verify your email first' });
     }
 
-    // Generate JWT token
-    const token = generateToken({
-      userId: foundUser.id,
-      email: foundUser.email,
-      role: foundUser.role as 'CONSUMER' | 'MERCHANT' | 'DRIVER',
-    });
+    if (foundUser.isActive === false) {
+      return res.status(403).json({ error: 'Account is deactivated' });
+    }
+
+    // Start a session
+    const { token, refreshToken } = await sessionService.create(foundUser, clientInfo(req));
 
     // Determine redirect URL based on user role
     const getRoleRedirect = (role: string) => {
@@ -196,6 +194,7 @@ router.post('/login', fraudDetectionMiddleware('LOGIN') as any, async (req: any,
     res.json({
       message: 'Login successful',
       token,
+      refreshToken,
       user: {
         id: foundUser.id,
         userId: foundUser.userId,
@@ -337,6 +336,9 @@ router.post('/reset-password', async (req, res) => {
       .set({ isUsed: true })
       .where(eq(otpCodes.id, otp_record.id));
 
+    // Whoever knew the old password is signed out everywhere
+    await sessionService.revokeAllForUser(updatedUser[0].id, 'PASSWORD_RESET');
+
     res.json({ message: 'Password reset successfully' });
   } catch (error) {
     console.error('Reset password error:', error);
@@ -380,7 +382,10 @@ router.put('/change-password', authenticateToken, fraudDetectionMiddleware('PASS
       .set({ password: hashedNewPassword })
       .where(eq(users.id, userId));
 
-    res.json({ message: 'Password changed successfully' });
+    // Sign out every other device; this one stays logged in
+    const revokedSessions = await sessionService.revokeAllForUser(userId, 'PASSWORD_CHANGED', (req as any).user.sid);
+
+    res.json({ message: 'Password changed successfully', revokedSessions });
   } catch (error) {
     console.error('Change password error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -542,6 +547,10 @@ router.post('/verify-mfa', async (req, res) => {
       return res.status(401).json({ error: 'Please verify your email first' });
     }
 
+    if (foundUser.isActive === false) {
+      return res.status(403).json({ error: 'Account is deactivated' });
+    }
+
     // Check if user has MFA enabled
     const mfaConfig = await db.select().from(mfaConfigurations).where(eq(mfaConfigurations.userId, foundUser.id));
 
@@ -584,16 +593,13 @@ router.post('/verify-mfa', async (req, res) => {
         .where(eq(mfaConfigurations.userId, foundUser.id));
     }
 
-    // Generate JWT token
-    const token = generateToken({
-      userId: foundUser.id,
-      email: foundUser.email,
-      role: foundUser.role as 'CONSUMER' | 'MERCHANT' | 'DRIVER',
-    });
+    // Start a session
+    const { token, refreshToken } = await sessionService.create(foundUser, clientInfo(req));
 
     res.json({
       message: 'MFA verification successful',
       token,
+      refreshToken,
       user: {
         id: foundUser.id,
         userId: foundUser.userId,
@@ -666,7 +672,10 @@ router.post('/disable-mfa', authenticateToken, async (req, res) => {
       })
       .where(eq(mfaConfigurations.userId, userId));
 
-    res.json({ message: 'MFA disabled successfully' });
+    // Turning MFA off weakens the account, so other devices must sign in again
+    const revokedSessions = await sessionService.revokeAllForUser(userId, 'MFA_RESET', (req as any).user.sid);
+
+    res.json({ message: 'MFA disabled successfully', revokedSessions });
   } catch (error) {
     console.error('Disable MFA error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -694,6 +703,81 @@ router.get('/mfa-status', authenticateToken, async (req, res) => {
   }
 });
 
+// Exchange a refresh token for a new access and refresh token pair
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    const tokens = await sessionService.refresh(refreshToken, clientInfo(req));
+
+    res.json({
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      refreshTokenExpiresAt: tokens.refreshTokenExpiresAt,
+    });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(401).json({ error: error.message, code: error.code });
+    }
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Log out of this device, or of every device with { allDevices: true }
+router.post('/logout', authenticateToken, async (req, res) => {
+  try {
+    const { userId, sid } = (req as any).user;
+
+    if (req.body?.allDevices === true) {
+      const revokedSessions = await sessionService.revokeAllForUser(userId, 'LOGOUT');
+      return res.json({ message: 'Logged out of all devices', revokedSessions });
+    }
+
+    await sessionService.revoke(sid, 'LOGOUT', userId);
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List the devices signed in to this account
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const { userId, sid } = (req as any).user;
+    const activeSessions = await sessionService.listForUser(userId);
+
+    res.json({
+      sessions: activeSessions.map(session => ({ ...session, current: session.id === sid })),
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Sign a device out
+router.delete('/sessions/:id', authenticateToken, async (req, res) => {
+  try {
+    const { userId } = (req as any).user;
+    const revoked = await sessionService.revoke(req.params.id, 'USER_REVOKED', userId);
+
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Report User endpoint
 router.post('/api/report/user/:id', authenticateToken, async (req, res) => {
   try {
@@ -4,12 +4,14 @@ import { eq, and, desc } from 'drizzle-orm';
 import db from '../config/database';
 import { orders, deliveryRequests, driverProfiles, users } from '../schema';
 import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { requirePermission, requirePermissionForAdmins } from '../utils/admin-middleware';
 import { AutoAssignmentService, autoAssignmentService } from '../services/auto-assignment';
+import { dispatchService, DispatchError } from '../services/dispatch';
 
 const router = Router();
 
 // Configure auto-assignment settings (admin only)
-router.post('/settings', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/settings', authenticateToken, requirePermission('dispatch.manage'), async (req, res) => {
   try {
     const { 
       maxDistance, 
@@ -44,7 +46,7 @@ router.post('/settings', authenticateToken, authorizeRoles('ADMIN'), async (req,
 });
 
 // Get auto-assignment settings (admin only)
-router.get('/settings', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/settings', authenticateToken, requirePermission('dispatch.manage'), async (req, res) => {
   try {
     // In a real implementation, you would fetch from database
     const settings = {
@@ -112,7 +114,7 @@ router.get('/drivers', authenticateToken, async (req, res) => {
 });
 
 // Manually assign a delivery to a driver
-router.post('/assign/:deliveryId', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), async (req, res) => {
+router.post('/assign/:deliveryId', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), requirePermissionForAdmins('dispatch.manage'), async (req, res) => {
   try {
     const { deliveryId } = req.params;
     const { driverId, notes } = req.body;
@@ -151,11 +153,13 @@ router.post('/assign/:deliveryId', authenticateToken, authorizeRoles('ADMIN', 'M
       });
     }
 
-    // Assign driver to delivery
+    // Assign driver to delivery, withdrawing any open dispatch offer
+    await dispatchService.cancelOffers(deliveryId);
     const updatedDelivery = await db.update(deliveryRequests)
       .set({
         driverId: driver[0].userId,
         status: 'ASSIGNED',
+        ...(delivery[0].dispatchStatus && { dispatchStatus: 'ASSIGNED' }),
         updatedAt: new Date()
       })
       .where(eq(deliveryRequests.id, deliveryId))
@@ -427,7 +431,7 @@ router.get('/:orderId/assignment-status', authenticateToken, async (req, res) =>
 });
 
 // Get assignment statistics (admin only)
-router.get('/stats', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/stats', authenticateToken, requirePermission('dispatch.manage'), async (req, res) => {
   try {
     const stats = AutoAssignmentService.getAssignmentStats();
     
@@ -459,4 +463,114 @@ router.get('/stats', authenticateToken, authorizeRoles('ADMIN'), async (req, res
   }
 });
 
+// Deliveries dispatch escalated because no driver accepted them (admin only)
+router.get('/dispatch/escalated', authenticateToken, requirePermission('dispatch.manage'), async (req, res) => {
+  try {
+    const deliveries = await dispatchService.getEscalated();
+
+    res.json({
+      success: true,
+      data: { deliveries }
+    });
+  } catch (error) {
+    console.error('Get escalated deliveries error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get escalated deliveries'
+    });
+  }
+});
+
+// Dispatch state and offer history of a delivery (admin only)
+router.get('/dispatch/:deliveryId', authenticateToken, requirePermission('dispatch.manage'), async (req, res) => {
+  try {
+    const { deliveryId } = req.params;
+    const [delivery] = await db.select().from(deliveryRequests).where(eq(deliveryRequests.id, deliveryId));
+
+    if (!delivery) {
+      return res.status(404).json({
+        success: false,
+        message: 'Delivery request not found'
+      });
+    }
+
+    const offers = await dispatchService.getOffers(deliveryId);
+
+    res.json({
+      success: true,
+      data: {
+        deliveryId,
+        status: delivery.status,
+        dispatchStatus: delivery.dispatchStatus,
+        dispatchRound: delivery.dispatchRound,
+        radiusKm: delivery.dispatchRadiusKm,
+        offers
+      }
+    });
+  } catch (error) {
+    console.error('Get dispatch status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get dispatch status'
+    });
+  }
+});
+
+// Restart dispatch for a pending delivery at the initial radius (admin only)
+router.post('/dispatch/:deliveryId/retry', authenticateToken, requirePermission('dispatch.manage'), async (req, res) => {
+  try {
+    const offer = await dispatchService.retry(req.params.deliveryId);
+
+    res.json({
+      success: true,
+      message: offer ? 'Delivery offered to a driver' : 'No driver available; dispatch escalated',
+      data: { offer }
+    });
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return res.status(409).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Retry dispatch error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retry dispatch'
+    });
+  }
+});
+
+// Offer acceptance rates used in dispatch scoring (admin only)
+router.get('/acceptance-rates', authenticateToken, requirePermission('dispatch.manage'), async (req, res) => {
+  try {
+    const driverIds = String(req.query.driverIds || '')
+      .split(',')
+      .map(id => parseInt(id, 10))
+      .filter(id => !Number.isNaN(id));
+
+    if (driverIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'driverIds query parameter is required'
+      });
+    }
+
+    const rates = await autoAssignmentService.getAcceptanceRates(driverIds);
+
+    res.json({
+      success: true,
+      data: {
+        drivers: [...rates.entries()].map(([driverId, stats]) => ({ driverId, ...stats }))
+      }
+    });
+  } catch (error) {
+    console.error('Get acceptance rates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get acceptance rates'
+    });
+  }
+});
+
 export default router;
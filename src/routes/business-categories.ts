@@ -3,7 +3,8 @@ import { Router } from 'express';
 import { eq, and, desc } from 'drizzle-orm';
 import db from '../config/database';
 import { businessCategories, commodityCategories } from '../schema';
-import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { authenticateToken } from '../utils/auth';
+import { requirePermission } from '../utils/admin-middleware';
 
 const router = Router();
 
@@ -61,7 +62,7 @@ router.get('/:businessCategoryId/commodities', async (req, res) => {
 });
 
 // Create business category (Admin only)
-router.post('/', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/', authenticateToken, requirePermission('catalog.manage'), async (req, res) => {
   try {
     const { name, imageUrl } = req.body;
 
@@ -86,7 +87,7 @@ router.post('/', authenticateToken, authorizeRoles('ADMIN'), async (req, res) =>
 });
 
 // Create commodity category (Admin only)
-router.post('/:businessCategoryId/commodities', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/:businessCategoryId/commodities', authenticateToken, requirePermission('catalog.manage'), async (req, res) => {
   try {
     const { businessCategoryId } = req.params;
     const { name } = req.body;
@@ -3,6 +3,7 @@ import { eq, and } from 'drizzle-orm';
 import db from '../config/database';
 import { cartItems, products, users } from '../schema';
 import { authenticateToken } from '../utils/auth';
+import { analyticsService } from '../services/analytics';
 
 const router = Router();
 
@@ -71,6 +72,8 @@ router.post('/add', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Product not found or out of stock' });
     }
 
+    await analyticsService.trackEvent('cart_item_added', { productId, quantity }, { userId, merchantId: product[0].sellerId });
+
     // Check if item already exists in cart
     const existingItem = await db.select().from(cartItems).where(and(
       eq(cartItems.userId, userId),
@@ -128,6 +131,8 @@ router.post('/', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Product not found or out of stock' });
     }
 
+    await analyticsService.trackEvent('cart_item_added', { productId, quantity }, { userId, merchantId: product[0].sellerId });
+
     // Check if item already exists in cart
     const existingItem = await db.select().from(cartItems).where(and(
       eq(cartItems.userId, userId),
@@ -5,6 +5,9 @@ import db from '../config/database';
 import { products, categories, users } from '../schema';
 import { authenticateToken, authorizeRoles } from '../utils/auth';
 import { validateAddCommodity, validateUpdateCommodity } from '../utils/validation';
+import { inventoryService } from '../services/inventory';
+import { cacheMiddleware } from '../middleware/cacheMiddleware';
+import { cacheTags } from '../utils/cache';
 import { AddCommodityDto, UpdateCommodityDto } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -68,7 +71,10 @@ router.get('/subcategories', async (req, res) => {
 });
 
 // Add commodity (Vendor/Merchant only)
-router.post('/add', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+router.post('/add', authenticateToken, authorizeRoles('MERCHANT'), cacheMiddleware.invalidates(req => [
+  cacheTags.products,
+  cacheTags.merchant((req as any).user.userId),
+]), async (req, res) => {
   try {
     const vendorId = (req as any).user.userId;
     const { name, description, price, unit, categoryId, image, minimumOrder, quantity, imageUrl } = req.body;
@@ -109,6 +115,8 @@ router.post('/add', authenticateToken, authorizeRoles('MERCHANT'), async (req, r
       sellerId: vendorId,
       image,
       minimumOrder: minimumOrder || 1,
+      quantity: quantity || 0,
+      inStock: (quantity || 0) > 0,
     }).returning();
 
     res.status(201).json({
@@ -123,11 +131,13 @@ router.post('/add', authenticateToken, authorizeRoles('MERCHANT'), async (req, r
 });
 
 // Update commodity (Vendor only)
-router.post('/update/:id', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+router.post('/update/:id', authenticateToken, authorizeRoles('MERCHANT'), cacheMiddleware.invalidates(req => [
+  cacheTags.product(req.params.id),
+]), async (req, res) => {
   try {
     const { id } = req.params;
     const vendorId = (req as any).user.userId;
-    const { name, description, price, unit, categoryId, image, minimumOrder, inStock, quantity, imageUrl } = req.body;
+    const { name, description, price, unit, categoryId, image, minimumOrder, quantity, imageUrl } = req.body;
 
     // Validate the request data
     const validation = validateUpdateCommodity({ 
@@ -156,7 +166,7 @@ router.post('/update/:id', authenticateToken, authorizeRoles('MERCHANT'), async
       return res.status(404).json({ error: 'Commodity not found or you do not have permission to edit it' });
     }
 
-    // Update commodity
+    // Update commodity; inStock follows the stock level and is not set directly
     const updatedCommodity = await db.update(products)
       .set({
         name,
@@ -166,16 +176,19 @@ router.post('/update/:id', authenticateToken, authorizeRoles('MERCHANT'), async
         categoryId,
         image,
         minimumOrder,
-        inStock,
         updatedAt: new Date(),
       })
       .where(eq(products.id, id))
       .returning();
 
+    const restocked = quantity !== undefined
+      ? await inventoryService.setQuantity(id, vendorId, Number(quantity))
+      : null;
+
     res.json({
       status: 'Success',
       message: 'Commodity updated successfully',
-      data: updatedCommodity[0],
+      data: restocked || updatedCommodity[0],
     });
   } catch (error) {
     console.error('Update commodity error:', error);
@@ -184,7 +197,9 @@ router.post('/update/:id', authenticateToken, authorizeRoles('MERCHANT'), async
 });
 
 // Remove commodity (Vendor only)
-router.delete('/remove/:id', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+router.delete('/remove/:id', authenticateToken, authorizeRoles('MERCHANT'), cacheMiddleware.invalidates(req => [
+  cacheTags.product(req.params.id),
+]), async (req, res) => {
   try {
     const { id } = req.params;
     const vendorId = (req as any).user.userId;
@@ -3,12 +3,13 @@ import { Router } from 'express';
 import { eq, and, or, desc, gte, lte, count, inArray, like, sql } from 'drizzle-orm';
 import db from '../config/database';
 import { users, contentReports, moderationResponses } from '../schema';
-import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { authenticateToken } from '../utils/auth';
+import { requirePermission } from '../utils/admin-middleware';
 
 const router = Router();
 
 // Get moderation reports with filtering
-router.get('/reports', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/reports', authenticateToken, requirePermission('moderation.manage'), async (req, res) => {
   try {
     const { 
       page = '1', 
@@ -119,7 +120,7 @@ router.get('/reports', authenticateToken, authorizeRoles('ADMIN'), async (req, r
 });
 
 // Take action on report
-router.post('/reports/:id/action', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/reports/:id/action', authenticateToken, requirePermission('moderation.manage'), async (req, res) => {
   try {
     const reportId = parseInt(req.params.id);
     const { action, reason, notifyUser = true } = req.body;
@@ -170,7 +171,7 @@ router.post('/reports/:id/action', authenticateToken, authorizeRoles('ADMIN'), a
 });
 
 // Bulk action on reports
-router.post('/reports/bulk-action', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/reports/bulk-action', authenticateToken, requirePermission('moderation.manage'), async (req, res) => {
   try {
     const { reportIds, action, reason } = req.body;
     const adminId = (req as any).user.id;
@@ -215,7 +216,7 @@ router.post('/reports/bulk-action', authenticateToken, authorizeRoles('ADMIN'),
 });
 
 // Get moderation statistics
-router.get('/stats', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/stats', authenticateToken, requirePermission('moderation.manage'), async (req, res) => {
   try {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
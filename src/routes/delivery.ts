@@ -1,98 +1,178 @@
-import { Router } from 'express';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { Router, Response } from 'express';
+import { eq, and, or, isNull, desc, inArray, sql } from 'drizzle-orm';
 import db from '../config/database';
 import { 
   deliveryRequests, 
   users, 
   driverProfiles,
-  orders
+  orders,
+  orderFulfilments
 } from '../schema';
 import { authenticateToken, authorizeRoles } from '../utils/auth';
 import { createNotification } from './notifications';
+import { orderGroupService } from '../services/orderGroups';
+import { dispatchService, DispatchError } from '../services/dispatch';
+import { geocodingService } from '../services/geocoding';
+import { ServiceZoneError } from '../services/serviceZones';
+import { deliveryPricingService, PricingError } from '../services/deliveryPricing';
+import { deliveryTrackingService, TrackingError } from '../services/deliveryTracking';
 
 const router = Router();
 
-// Create delivery request
+// Coordinates sent by the client; undefined when absent, null when malformed
+const parseLocation = (location: any) => {
+  if (!location) return undefined;
+  const latitude = Number(location.latitude);
+  const longitude = Number(location.longitude);
+  return Number.isFinite(latitude) && Number.isFinite(longitude) ? { latitude, longitude } : null;
+};
+
+const sendPricingError = (res: Response, error: unknown) => {
+  if (error instanceof ServiceZoneError) {
+    res.status(422).json({ error: error.message, reason: error.code, opensAt: error.opensAt ?? null });
+    return true;
+  }
+  if (error instanceof PricingError) {
+    const status = error.code === 'INVALID_QUOTE' ? 404
+      : error.code === 'QUOTE_USED' ? 409
+      : error.code === 'QUOTE_EXPIRED' ? 410
+      : error.code === 'UNLOCATED' ? 422
+      : 400;
+    res.status(status).json({ error: error.message, code: error.code });
+    return true;
+  }
+  return false;
+};
+
+// The orders a delivery carries: a checkout delivery carries its fulfilment's orders, a
+// standalone request the order checked against the requester when it was made
+const deliveredOrderIds = async (delivery: typeof deliveryRequests.$inferSelect) => {
+  const carried = await db.select({ id: orders.id })
+    .from(orders)
+    .innerJoin(orderFulfilments, eq(orders.fulfilmentId, orderFulfilments.id))
+    .where(eq(orderFulfilments.deliveryRequestId, delivery.id));
+  if (carried.length > 0) {
+    return carried.map(order => order.id);
+  }
+  return delivery.orderId ? [delivery.orderId] : [];
+};
+
+// Price a delivery. The returned quoteId is what /request orders with.
+router.post('/quote', authenticateToken, async (req, res) => {
+  try {
+    const customerId = (req as any).user.userId;
+    const { pickupAddress, deliveryAddress, deliveryType, packageSize, scheduledPickupTime } = req.body;
+
+    const pickupLocation = parseLocation(req.body.pickupLocation);
+    const deliveryLocation = parseLocation(req.body.deliveryLocation);
+    if (pickupLocation === null || deliveryLocation === null) {
+      return res.status(400).json({ error: 'pickupLocation and deliveryLocation must have numeric latitude and longitude' });
+    }
+
+    const pickupAt = scheduledPickupTime ? new Date(scheduledPickupTime) : null;
+    if (pickupAt && isNaN(pickupAt.getTime())) {
+      return res.status(400).json({ error: 'scheduledPickupTime must be a valid date' });
+    }
+
+    const quote = await deliveryPricingService.createQuote(customerId, {
+      pickupAddress,
+      deliveryAddress,
+      pickupLocation,
+      deliveryLocation,
+      deliveryType,
+      packageSize,
+      scheduledPickupTime: pickupAt,
+    });
+
+    res.status(201).json({ message: 'Delivery quote created', quote });
+  } catch (error) {
+    if (sendPricingError(res, error)) return;
+    console.error('Create delivery quote error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create delivery request from a quote; route, type and fee all come from the quote
 router.post('/request', authenticateToken, async (req, res) => {
   try {
     const customerId = (req as any).user.userId;
     const {
+      quoteId,
       merchantId,
       orderId,
-      deliveryType,
       cargoValue,
       requiresPremiumDriver,
-      pickupAddress,
-      deliveryAddress,
-      estimatedDistance,
-      estimatedDuration,
-      deliveryFee,
-      scheduledPickupTime,
       specialInstructions,
     } = req.body;
 
-    if (!deliveryType || !pickupAddress || !deliveryAddress || !deliveryFee) {
-      return res.status(400).json({ error: 'Required fields: deliveryType, pickupAddress, deliveryAddress, deliveryFee' });
+    if (!quoteId) {
+      return res.status(400).json({ error: 'quoteId is required; get one from POST /api/delivery/quote' });
     }
 
-    // Generate tracking number
-    const trackingNumber = `BP-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
+    // A delivery only moves an order the requester bought, from the merchant who sold it
+    let sellerId = merchantId;
+    if (orderId) {
+      const [order] = await db.select({ buyerId: orders.buyerId, sellerId: orders.sellerId })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .limit(1);
+      if (!order || order.buyerId !== customerId) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+      if (merchantId !== undefined && Number(merchantId) !== order.sellerId) {
+        return res.status(400).json({ error: 'Order was not placed with this merchant' });
+      }
+      sellerId = order.sellerId;
+    }
 
-    const newDelivery = await db.insert(deliveryRequests).values({
-      customerId,
-      merchantId,
-      orderId,
-      deliveryType: deliveryType as any,
-      cargoValue: cargoValue?.toString() || '0',
-      requiresPremiumDriver: requiresPremiumDriver || false,
-      pickupAddress,
-      deliveryAddress,
-      estimatedDistance: estimatedDistance?.toString(),
-      estimatedDuration,
-      deliveryFee: deliveryFee.toString(),
-      scheduledPickupTime: scheduledPickupTime ? new Date(scheduledPickupTime) : null,
-      specialInstructions,
-      trackingNumber,
-    }).returning();
+    // Generate tracking number
+    const trackingNumber = deliveryTrackingService.newTrackingNumber('BP');
+
+    // Claiming the quote and creating the request together means a failed insert leaves it reusable
+    const newDelivery = await db.transaction(async (tx) => {
+      const quote = await deliveryPricingService.redeem(quoteId, customerId, tx);
+      return tx.insert(deliveryRequests).values({
+        customerId,
+        merchantId: sellerId,
+        orderId,
+        quoteId: quote.id,
+        deliveryType: quote.deliveryType,
+        cargoValue: cargoValue?.toString() || '0',
+        requiresPremiumDriver: requiresPremiumDriver || false,
+        pickupAddress: quote.pickupAddress,
+        deliveryAddress: quote.deliveryAddress,
+        estimatedDistance: quote.distanceKm,
+        estimatedDuration: quote.durationMinutes,
+        deliveryFee: quote.fee,
+        scheduledPickupTime: quote.scheduledPickupTime,
+        specialInstructions,
+        trackingNumber,
+        pickupLatitude: quote.pickupLatitude,
+        pickupLongitude: quote.pickupLongitude,
+        deliveryLatitude: quote.deliveryLatitude,
+        deliveryLongitude: quote.deliveryLongitude,
+      }).returning();
+    });
 
-    // Find available drivers and send notifications
+    // Offer the delivery to the best-ranked nearby driver; declines and timeouts cascade from there
+    let offer = null;
     try {
-      const availableDrivers = await db.select({
-        userId: users.id,
-      })
-        .from(users)
-        .leftJoin(driverProfiles, eq(users.id, driverProfiles.userId))
-        .where(and(
-          eq(users.role, 'DRIVER'),
-          eq(driverProfiles.isAvailable, true),
-          eq(driverProfiles.isActive, true)
-        ))
-        .limit(10); // Limit to 10 drivers for now
-
-      // Send delivery request notifications to available drivers
-      for (const driver of availableDrivers) {
-        await createNotification({
-          userId: driver.userId,
-          userRole: 'DRIVER',
-          title: 'New Delivery Request',
-          message: `${deliveryType} delivery - ₦${deliveryFee} (${estimatedDistance || 'TBD'}km)`,
-          type: 'DELIVERY_REQUEST',
-          relatedId: newDelivery[0].id,
-          priority: 'HIGH',
-          actionUrl: `/delivery/requests/${newDelivery[0].id}`,
-          expiresAt: new Date(Date.now() + 30 * 60 * 1000), // Expires in 30 minutes
-        });
-      }
-    } catch (notificationError) {
-      console.error('Failed to create delivery request notifications:', notificationError);
-      // Don't fail the delivery creation if notification creation fails
+      offer = await dispatchService.start(newDelivery[0].id);
+    } catch (dispatchError) {
+      console.error('Failed to start delivery dispatch:', dispatchError);
+      // Don't fail the delivery creation if dispatch cannot start; admins can retry it
     }
 
     res.status(201).json({
       message: 'Delivery request created successfully',
       delivery: newDelivery[0],
+      dispatch: {
+        status: offer ? 'OFFERED' : 'SEARCHING',
+        offerExpiresAt: offer?.expiresAt ?? null,
+      },
     });
   } catch (error) {
+    if (sendPricingError(res, error)) return;
     console.error('Create delivery request error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -113,7 +193,12 @@ router.get('/available', authenticateToken, authorizeRoles('DRIVER'), async (req
 
     const driver = driverProfile[0];
 
-    let whereConditions = [eq(deliveryRequests.status, 'PENDING')];
+    // Deliveries under dispatch are only visible to the driver holding the offer; open board
+    // requests and ones dispatch escalated stay listed for any driver
+    let whereConditions = [
+      eq(deliveryRequests.status, 'PENDING'),
+      or(isNull(deliveryRequests.dispatchStatus), eq(deliveryRequests.dispatchStatus, 'ESCALATED'))!,
+    ];
 
     // Filter by delivery type if driver has service type restrictions
     if (deliveryType) {
@@ -166,6 +251,58 @@ router.get('/available', authenticateToken, authorizeRoles('DRIVER'), async (req
   }
 });
 
+// Get the driver's open dispatch offers
+router.get('/offers', authenticateToken, authorizeRoles('DRIVER'), async (req, res) => {
+  try {
+    const driverId = (req as any).user.userId;
+    const offers = await dispatchService.getOpenOffersForDriver(driverId);
+
+    res.json({ offers });
+  } catch (error) {
+    console.error('Get dispatch offers error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Accept a dispatch offer
+router.post('/offers/:offerId/accept', authenticateToken, authorizeRoles('DRIVER'), async (req, res) => {
+  try {
+    const driverId = (req as any).user.userId;
+    const delivery = await dispatchService.accept(req.params.offerId, driverId);
+
+    res.json({
+      message: 'Delivery request accepted successfully',
+      delivery,
+    });
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return res.status(error.code === 'NOT_FOUND' ? 404 : 409).json({ error: error.message, code: error.code });
+    }
+    console.error('Accept dispatch offer error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Decline a dispatch offer
+router.post('/offers/:offerId/decline', authenticateToken, authorizeRoles('DRIVER'), async (req, res) => {
+  try {
+    const driverId = (req as any).user.userId;
+    const { reason } = req.body;
+    const offer = await dispatchService.decline(req.params.offerId, driverId, reason);
+
+    res.json({
+      message: 'Delivery offer declined',
+      offer,
+    });
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return res.status(error.code === 'NOT_FOUND' ? 404 : 409).json({ error: error.message, code: error.code });
+    }
+    console.error('Decline dispatch offer error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Accept delivery request
 router.post('/:id/accept', authenticateToken, authorizeRoles('DRIVER'), async (req, res) => {
   try {
@@ -197,16 +334,28 @@ router.post('/:id/accept', authenticateToken, authorizeRoles('DRIVER'), async (r
       return res.status(403).json({ error: 'This delivery requires a premium driver' });
     }
 
-    // Update delivery request
+    if (await dispatchService.isOfferedToOther(id, driverId)) {
+      return res.status(409).json({ error: 'This delivery is currently offered to another driver' });
+    }
+
+    // Update delivery request; the status guard stops two drivers taking the same delivery
     const updatedDelivery = await db.update(deliveryRequests)
       .set({
         driverId,
         status: 'ASSIGNED',
+        ...(deliveryRequest.dispatchStatus && { dispatchStatus: 'ASSIGNED' }),
         updatedAt: new Date(),
       })
-      .where(eq(deliveryRequests.id, id))
+      .where(and(eq(deliveryRequests.id, id), eq(deliveryRequests.status, 'PENDING')))
       .returning();
 
+    if (updatedDelivery.length === 0) {
+      return res.status(409).json({ error: 'Delivery request was already assigned' });
+    }
+
+    // A driver holding the offer may also take it through this endpoint
+    await dispatchService.cancelOffers(id);
+
     // Notify customer and potentially merchant about driver assignment
     try {
       if (updatedDelivery[0].customerId) {
@@ -242,7 +391,7 @@ router.put('/:id/status', authenticateToken, authorizeRoles('DRIVER'), async (re
     const driverId = (req as any).user.userId;
     const { status, actualPickupTime, actualDeliveryTime } = req.body;
 
-    const validStatuses = ['ASSIGNED', 'PICKED_UP', 'IN_TRANSIT', 'DELIVERED', 'CANCELLED'];
+    const validStatuses = ['ASSIGNED', 'AT_PICKUP', 'PICKED_UP', 'IN_TRANSIT', 'ARRIVING', 'DELIVERED', 'CANCELLED'];
     if (!status || !validStatuses.includes(status)) {
       return res.status(400).json({ error: 'Invalid status' });
     }
@@ -272,12 +421,15 @@ router.put('/:id/status', authenticateToken, authorizeRoles('DRIVER'), async (re
     if (updatedDelivery.length === 0) {
       return res.status(404).json({ error: 'Delivery request not found or unauthorized' });
     }
+    deliveryTrackingService.publishStatus(updatedDelivery[0]);
 
     // Create notifications for delivery status updates
     const statusMessages = {
       ASSIGNED: 'A driver has been assigned to your delivery',
+      AT_PICKUP: 'Your driver has arrived at the pickup location',
       PICKED_UP: 'Your package has been picked up and is on the way',
       IN_TRANSIT: 'Your package is in transit',
+      ARRIVING: 'Your driver is almost at the delivery address',
       DELIVERED: 'Your package has been delivered successfully',
       CANCELLED: 'Your delivery has been cancelled'
     };
@@ -381,44 +533,6 @@ router.get('/my-deliveries', authenticateToken, authorizeRoles('DRIVER'), async
   }
 });
 
-// Track delivery by tracking number (public)
-router.get('/track/:trackingNumber', async (req, res) => {
-  try {
-    const { trackingNumber } = req.params;
-
-    const delivery = await db.select({
-      id: deliveryRequests.id,
-      deliveryType: deliveryRequests.deliveryType,
-      pickupAddress: deliveryRequests.pickupAddress,
-      deliveryAddress: deliveryRequests.deliveryAddress,
-      status: deliveryRequests.status,
-      scheduledPickupTime: deliveryRequests.scheduledPickupTime,
-      actualPickupTime: deliveryRequests.actualPickupTime,
-      estimatedDeliveryTime: deliveryRequests.estimatedDeliveryTime,
-      actualDeliveryTime: deliveryRequests.actualDeliveryTime,
-      trackingNumber: deliveryRequests.trackingNumber,
-      createdAt: deliveryRequests.createdAt,
-      driver: {
-        id: users.id,
-        fullName: users.fullName,
-        phone: users.phone,
-      },
-    })
-      .from(deliveryRequests)
-      .leftJoin(users, eq(deliveryRequests.driverId, users.id))
-      .where(eq(deliveryRequests.trackingNumber, trackingNumber));
-
-    if (delivery.length === 0) {
-      return res.status(404).json({ error: 'Delivery not found' });
-    }
-
-    res.json(delivery[0]);
-  } catch (error) {
-    console.error('Track delivery error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
 // Get delivery statistics for drivers
 router.get('/stats', authenticateToken, authorizeRoles('DRIVER'), async (req, res) => {
   try {
@@ -444,44 +558,62 @@ router.get('/stats', authenticateToken, authorizeRoles('DRIVER'), async (req, re
   }
 });
 
-// Update delivery location (for drivers)
+// Update delivery location (for drivers). Recalculates the ETA, extends the route history and
+// advances the status when the driver reaches the pickup or nears the drop-off.
 router.put('/:id/location', authenticateToken, authorizeRoles('DRIVER'), async (req, res) => {
   try {
     const deliveryId = req.params.id;
     const driverId = (req as any).user.userId;
-    const { latitude, longitude, address } = req.body;
 
-    if (!latitude || !longitude) {
-      return res.status(400).json({ error: 'Latitude and longitude are required' });
+    const report = deliveryTrackingService.parseReport(req.body);
+    const update = await deliveryTrackingService.recordLocation(deliveryId, driverId, report);
+
+    res.json({
+      message: 'Location updated successfully',
+      data: update,
+    });
+  } catch (error) {
+    if (error instanceof TrackingError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'NOT_ACTIVE' ? 409 : 400;
+      return res.status(status).json({ error: error.message });
     }
+    console.error('Update delivery location error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Verify this driver is assigned to the delivery
-    const delivery = await db.select()
-      .from(deliveryRequests)
-      .where(and(
-        eq(deliveryRequests.id, deliveryId),
-        eq(deliveryRequests.driverId, driverId)
-      ));
+// Live tracking with addresses, driver contact, position and route (customer, merchant, driver or admin)
+router.get('/:id/tracking', authenticateToken, async (req, res) => {
+  try {
+    const deliveryId = req.params.id;
+    const { userId, role } = (req as any).user;
 
-    if (delivery.length === 0) {
-      return res.status(404).json({ error: 'Delivery not found or not assigned to you' });
+    if (!(await deliveryTrackingService.canFollow(deliveryId, userId, role))) {
+      return res.status(404).json({ error: 'Delivery not found' });
     }
 
-    // Update delivery with current location (storing in special instructions for now)
-    const updatedDelivery = await db.update(deliveryRequests)
-      .set({
-        specialInstructions: JSON.stringify({ currentLatitude: latitude, currentLongitude: longitude, currentAddress: address }),
-        updatedAt: new Date(),
-      })
-      .where(eq(deliveryRequests.id, deliveryId))
-      .returning();
+    res.json(await deliveryTrackingService.getTracking(deliveryId));
+  } catch (error) {
+    console.error('Get delivery tracking error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    res.json({
-      message: 'Location updated successfully',
-      delivery: updatedDelivery[0],
-    });
+// Get the recorded route of a delivery (customer, merchant, driver or admin)
+router.get('/:id/location-history', authenticateToken, async (req, res) => {
+  try {
+    const deliveryId = req.params.id;
+    const { userId, role } = (req as any).user;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 500, 1), 2000);
+
+    if (!(await deliveryTrackingService.canFollow(deliveryId, userId, role))) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    const points = await deliveryTrackingService.getHistory(deliveryId, limit);
+    res.json({ deliveryId, points });
   } catch (error) {
-    console.error('Update delivery location error:', error);
+    console.error('Get delivery location history error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -499,7 +631,7 @@ router.put('/:id/pickup', authenticateToken, authorizeRoles('DRIVER'), async (re
       .where(and(
         eq(deliveryRequests.id, deliveryId),
         eq(deliveryRequests.driverId, driverId),
-        eq(deliveryRequests.status, 'ASSIGNED')
+        inArray(deliveryRequests.status, ['ASSIGNED', 'AT_PICKUP'])
       ));
 
     if (delivery.length === 0) {
@@ -517,6 +649,7 @@ router.put('/:id/pickup', authenticateToken, authorizeRoles('DRIVER'), async (re
       })
       .where(eq(deliveryRequests.id, deliveryId))
       .returning();
+    deliveryTrackingService.publishStatus(updatedDelivery[0]);
 
     res.json({
       message: 'Delivery marked as picked up',
@@ -541,7 +674,7 @@ router.put('/:id/deliver', authenticateToken, authorizeRoles('DRIVER'), async (r
       .where(and(
         eq(deliveryRequests.id, deliveryId),
         eq(deliveryRequests.driverId, driverId),
-        eq(deliveryRequests.status, 'PICKED_UP')
+        inArray(deliveryRequests.status, ['PICKED_UP', 'IN_TRANSIT', 'ARRIVING'])
       ));
 
     if (delivery.length === 0) {
@@ -559,12 +692,16 @@ router.put('/:id/deliver', authenticateToken, authorizeRoles('DRIVER'), async (r
       })
       .where(eq(deliveryRequests.id, deliveryId))
       .returning();
-
-    // Update associated order status if linked
-    if (delivery[0].orderId) {
-      await db.update(orders)
-        .set({ status: 'delivered' })
-        .where(eq(orders.id, delivery[0].orderId as string));
+    deliveryTrackingService.publishStatus(updatedDelivery[0]);
+
+    // Move the delivered orders on through the lifecycle (shipped first if the merchant never marked them)
+    const driver = { role: 'DRIVER' as const, userId: driverId };
+    for (const orderId of await deliveredOrderIds(delivery[0])) {
+      await orderGroupService.tryTransitionOrder(orderId, 'shipped', driver, { reason: 'Picked up by driver' });
+      await orderGroupService.tryTransitionOrder(orderId, 'delivered', driver, {
+        reason: 'Delivered by driver',
+        metadata: { deliveryId, recipientName },
+      });
     }
 
     res.json({
@@ -577,58 +714,16 @@ router.put('/:id/deliver', authenticateToken, authorizeRoles('DRIVER'), async (r
   }
 });
 
-// Get delivery tracking information (public)
+// Track delivery by tracking number (public): status, ETA and timeline without addresses or positions.
+// Subscribe to the /tracking socket namespace with track_delivery for pushed updates.
 router.get('/track/:trackingNumber', async (req, res) => {
   try {
-    const { trackingNumber } = req.params;
-
-    const delivery = await db.select({
-      delivery: deliveryRequests,
-      driver: {
-        id: users.id,
-        fullName: users.fullName,
-        phone: users.phone,
-        profilePicture: users.profilePicture,
-      },
-    })
-      .from(deliveryRequests)
-      .leftJoin(users, eq(deliveryRequests.driverId, users.id))
-      .where(eq(deliveryRequests.trackingNumber, trackingNumber));
-
-    if (delivery.length === 0) {
+    const tracking = await deliveryTrackingService.getPublicTracking(req.params.trackingNumber);
+    if (!tracking) {
       return res.status(404).json({ error: 'Tracking number not found' });
     }
 
-    const deliveryData = delivery[0];
-
-    res.json({
-      trackingNumber: deliveryData.delivery.trackingNumber,
-      status: deliveryData.delivery.status,
-      deliveryType: deliveryData.delivery.deliveryType,
-      pickupAddress: deliveryData.delivery.pickupAddress,
-      deliveryAddress: deliveryData.delivery.deliveryAddress,
-      estimatedDuration: deliveryData.delivery.estimatedDuration,
-      currentLocation: deliveryData.delivery.pickupLocation ? {
-        latitude: (deliveryData.delivery.pickupLocation as any).latitude || 0,
-        longitude: (deliveryData.delivery.pickupLocation as any).longitude || 0,
-        address: deliveryData.delivery.pickupAddress,
-      } : null,
-      driver: deliveryData.driver ? {
-        name: deliveryData.driver.fullName,
-        phone: deliveryData.driver.phone,
-        profilePicture: deliveryData.driver.profilePicture,
-      } : null,
-      timeline: {
-        createdAt: deliveryData.delivery.createdAt,
-        scheduledPickupTime: deliveryData.delivery.scheduledPickupTime,
-        actualPickupTime: deliveryData.delivery.actualPickupTime,
-        actualDeliveryTime: deliveryData.delivery.actualDeliveryTime,
-      },
-      proofOfDelivery: deliveryData.delivery.status === 'DELIVERED' ? {
-        proofUrl: deliveryData.delivery.proofOfDelivery,
-        specialInstructions: deliveryData.delivery.specialInstructions,
-      } : null,
-    });
+    res.json(tracking);
   } catch (error) {
     console.error('Track delivery error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -793,10 +888,8 @@ router.get('/:id/route', authenticateToken, authorizeRoles('DRIVER'), async (req
       deliveryAddress: deliveryData.deliveryAddress,
       estimatedDistance: deliveryData.estimatedDistance,
       estimatedDuration: deliveryData.estimatedDuration,
-      currentLocation: deliveryData.pickupLocation ? {
-        latitude: (deliveryData.pickupLocation as any).latitude || 0,
-        longitude: (deliveryData.pickupLocation as any).longitude || 0,
-      } : null,
+      pickupLocation: geocodingService.fromColumns(deliveryData.pickupLatitude, deliveryData.pickupLongitude),
+      deliveryLocation: geocodingService.fromColumns(deliveryData.deliveryLatitude, deliveryData.deliveryLongitude),
       optimizedRoute: [
         { step: 1, instruction: `Head to pickup location: ${deliveryData.pickupAddress}` },
         { step: 2, instruction: `Collect package` },
@@ -1,11 +1,13 @@
 
 import { Router } from 'express';
 import { db } from '../config/database';
-import { users, orders } from '../schema';
+import { users, orders, driverProfiles } from '../schema';
 import { eq, desc, and, count, sum, sql } from 'drizzle-orm';
 import { authenticateToken } from '../utils/auth';
 import { z } from 'zod';
 import { AutoAssignmentService } from '../services/auto-assignment';
+import { serviceZoneService } from '../services/serviceZones';
+import { geocodingService } from '../services/geocoding';
 
 const router = Router();
 
@@ -98,15 +100,28 @@ router.put('/status', authenticateToken, async (req, res) => {
     }
 
     const validatedData = updateDriverStatusSchema.parse(req.body);
+    const isAvailable = validatedData.isOnline && validatedData.isAvailable !== false;
+
+    // Drivers can only take work from inside a zone that offers deliveries or fuel
+    if (isAvailable) {
+      const [profile] = await db.select({ latitude: driverProfiles.currentLatitude, longitude: driverProfiles.currentLongitude })
+        .from(driverProfiles)
+        .where(eq(driverProfiles.userId, driverId));
+      const location = validatedData.currentLocation || geocodingService.fromColumns(profile?.latitude, profile?.longitude);
+      const inServiceArea = await serviceZoneService.coverageFor(['DELIVERY', 'FUEL']);
+      if (location && !inServiceArea(location)) {
+        return res.status(422).json({ error: 'You are outside our service area and cannot go available here' });
+      }
+    }
 
-    // Update driver status in database (would need driver_profiles table)
-    // For now, store in session or user metadata
-    req.session.driverStatus = {
-      isOnline: validatedData.isOnline,
-      isAvailable: validatedData.isAvailable,
-      currentLocation: validatedData.currentLocation,
-      lastUpdated: new Date()
-    };
+    const locationColumns = validatedData.currentLocation ? geocodingService.toColumns(validatedData.currentLocation) : null;
+    await db.update(driverProfiles)
+      .set({
+        isAvailable,
+        ...(locationColumns && { currentLatitude: locationColumns.latitude, currentLongitude: locationColumns.longitude }),
+        updatedAt: new Date(),
+      })
+      .where(eq(driverProfiles.userId, driverId));
 
     // Broadcast status update
     if (global.io) {
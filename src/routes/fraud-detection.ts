@@ -3,12 +3,13 @@ import { Router } from 'express';
 import { eq, and, or, desc, gte, lte, count, inArray, sql } from 'drizzle-orm';
 import db from '../config/database';
 import { users, transactions, fraudAlerts, suspiciousActivities, accountFlags } from '../schema';
-import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { authenticateToken } from '../utils/auth';
+import { requirePermission } from '../utils/admin-middleware';
 
 const router = Router();
 
 // Get fraud alerts with filtering
-router.get('/alerts', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/alerts', authenticateToken, requirePermission('fraud.manage'), async (req, res) => {
   try {
     const { severity, status, type, search, startDate, endDate, page = 1, limit = 20 } = req.query;
     const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
@@ -66,7 +67,7 @@ router.get('/alerts', authenticateToken, authorizeRoles('ADMIN'), async (req, re
 });
 
 // Get fraud statistics
-router.get('/stats', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/stats', authenticateToken, requirePermission('fraud.manage'), async (req, res) => {
   try {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -116,7 +117,7 @@ router.get('/stats', authenticateToken, authorizeRoles('ADMIN'), async (req, res
 });
 
 // Get suspicious activities
-router.get('/activities', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/activities', authenticateToken, requirePermission('fraud.manage'), async (req, res) => {
   try {
     const activities = await db
       .select({
@@ -146,7 +147,7 @@ router.get('/activities', authenticateToken, authorizeRoles('ADMIN'), async (req
 });
 
 // Investigate alert
-router.post('/alerts/:alertId/investigate', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/alerts/:alertId/investigate', authenticateToken, requirePermission('fraud.manage'), async (req, res) => {
   try {
     const { alertId } = req.params;
     const { reason } = req.body;
@@ -167,7 +168,7 @@ router.post('/alerts/:alertId/investigate', authenticateToken, authorizeRoles('A
 });
 
 // Resolve alert
-router.post('/alerts/:alertId/resolve', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/alerts/:alertId/resolve', authenticateToken, requirePermission('fraud.manage'), async (req, res) => {
   try {
     const { alertId } = req.params;
     const { reason } = req.body;
@@ -191,7 +192,7 @@ router.post('/alerts/:alertId/resolve', authenticateToken, authorizeRoles('ADMIN
 });
 
 // Flag user account
-router.post('/users/:userId/flag', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/users/:userId/flag', authenticateToken, requirePermission('fraud.manage'), async (req, res) => {
   try {
     const { userId } = req.params;
     const { reason, severity = 'HIGH' } = req.body;
@@ -215,7 +216,7 @@ router.post('/users/:userId/flag', authenticateToken, authorizeRoles('ADMIN'), a
 });
 
 // Bulk actions on alerts
-router.post('/alerts/bulk-action', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/alerts/bulk-action', authenticateToken, requirePermission('fraud.manage'), async (req, res) => {
   try {
     const { alertIds, action, reason } = req.body;
     const adminId = (req as any).user.id;
@@ -13,6 +13,8 @@ import {
 } from '../schema';
 import { authenticateToken, authorizeRoles } from '../utils/auth';
 import { createNotification } from './notifications';
+import { geocodingService } from '../services/geocoding';
+import { serviceZoneService } from '../services/serviceZones';
 
 const router = Router();
 
@@ -50,6 +52,8 @@ router.post('/order', authenticateToken, async (req, res) => {
       minimumOrderQuantity: fuelInventory.minimumOrderQuantity,
       maximumOrderQuantity: fuelInventory.maximumOrderQuantity,
       isAvailable: fuelInventory.isAvailable,
+      merchantLatitude: users.latitude,
+      merchantLongitude: users.longitude,
       merchant: {
         fullName: users.fullName,
         location: merchantProfiles.businessAddress,
@@ -101,6 +105,22 @@ router.post('/order', authenticateToken, async (req, res) => {
     // Generate order number
     const orderNumber = `FO-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
 
+    // Locate both ends so the driver can be routed and an immediate order gets an arrival estimate
+    const [deliveryPoint, merchantPoint] = await Promise.all([
+      geocodingService.geocode(deliveryAddress),
+      geocodingService.fromColumns(inventoryData.merchantLatitude, inventoryData.merchantLongitude)
+        || geocodingService.geocode(inventoryData.merchant?.location),
+    ]);
+
+    // Fuel must be offered where it is going, and open when it is due
+    const zoneCheck = await serviceZoneService.check(deliveryPoint, 'FUEL', deliveryDate ? new Date(deliveryDate) : new Date());
+    if (!zoneCheck.available) {
+      return res.status(422).json({ error: zoneCheck.message, reason: zoneCheck.reason, opensAt: zoneCheck.opensAt ?? null });
+    }
+
+    const deliveryColumns = geocodingService.toColumns(deliveryPoint);
+    const trip = geocodingService.estimateTrip(merchantPoint, deliveryPoint);
+
     // Create fuel order
     const newOrder = await db.insert(fuelOrders).values({
       customerId,
@@ -113,7 +133,10 @@ router.post('/order', authenticateToken, async (req, res) => {
       pricePerUnit: inventoryData.pricePerUnit,
       totalPrice: totalPrice.toString(),
       deliveryAddress,
+      deliveryLatitude: deliveryColumns.latitude,
+      deliveryLongitude: deliveryColumns.longitude,
       deliveryDate: deliveryDate ? new Date(deliveryDate) : null,
+      estimatedDeliveryTime: !deliveryDate && trip ? new Date(Date.now() + trip.durationMinutes * 60000) : null,
       specialInstructions,
       orderNumber,
     }).returning();
@@ -149,6 +172,7 @@ router.post('/order', authenticateToken, async (req, res) => {
       data: {
         order: newOrder[0],
         merchant: inventoryData.merchant,
+        estimatedDistance: trip?.distanceKm ?? null,
       },
     });
   } catch (error) {
@@ -1,18 +1,28 @@
 
-import { Router } from 'express';
-import { eq, and, sql } from 'drizzle-orm';
+import { Router, Response } from 'express';
+import { eq, and, sql, inArray } from 'drizzle-orm';
 import db from '../config/database';
-import { users, merchantProfiles, products, userLocations } from '../schema';
+import { users, merchantProfiles, products, userLocations, driverProfiles, deliveryRequests, deliveryQuotes } from '../schema';
 import { Message } from '../utils/messages';
 import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { geocodingService } from '../services/geocoding';
+import { serviceZoneService, ServiceZoneError, ServiceZone, ZoneService } from '../services/serviceZones';
+import { deliveryPricingService, PricingError } from '../services/deliveryPricing';
+import { routeOptimizerService, RouteOptimizerError, RouteJob } from '../services/routeOptimizer';
+import { requirePermission } from '../utils/admin-middleware';
 
 const router = Router();
 
-// Duplicate route removed - kept only the authenticated version below
+const sendZoneError = (res: Response, error: ServiceZoneError) => {
+  if (error.code === 'NOT_FOUND') {
+    return res.status(404).json({ error: error.message });
+  }
+  return res.status(400).json({ error: error.message });
+};
 
-// Duplicate route removed - kept only the role-authorized version below
+const zoneSummary = (zone: ServiceZone | null) => zone ? { id: zone.id, name: zone.name } : null;
 
-// Check service availability by location
+// Check service availability by location against the service zones
 router.get('/service-areas', async (req, res) => {
   try {
     const { latitude, longitude, serviceType } = req.query;
@@ -21,17 +31,51 @@ router.get('/service-areas', async (req, res) => {
       return res.status(400).json({ error: 'Latitude and longitude are required' });
     }
 
-    // Check if location is within service areas
-    const serviceAreas = await checkServiceAvailability(
-      parseFloat(latitude as string),
-      parseFloat(longitude as string),
-      serviceType as string
-    );
+    const point = { latitude: Number(latitude), longitude: Number(longitude) };
+    if (!Number.isFinite(point.latitude) || !Number.isFinite(point.longitude)) {
+      return res.status(400).json({ error: 'Latitude and longitude must be numbers' });
+    }
+
+    const requested = serviceType ? String(serviceType).toUpperCase() as ZoneService : null;
+    if (requested && !['DELIVERY', 'FUEL', 'TOLL'].includes(requested)) {
+      return res.status(400).json({ error: 'serviceType must be delivery, fuel or toll' });
+    }
+    const serviceTypes: ZoneService[] = requested ? [requested] : ['DELIVERY', 'FUEL', 'TOLL'];
+
+    const checks = await Promise.all(serviceTypes.map(async (service) => {
+      const check = await serviceZoneService.check(point, service);
+      return [service, {
+        available: check.available,
+        reason: check.reason ?? null,
+        message: check.message ?? null,
+        opensAt: check.opensAt ?? null,
+        zone: zoneSummary(check.zone),
+      }] as const;
+    }));
+    const zones = await serviceZoneService.zonesAt(point);
 
     res.json({
-      location: { latitude, longitude },
-      availability: serviceAreas,
-      nearestServiceCenter: serviceAreas.find(area => area.available)
+      status: 'Success',
+      message: Message.serviceAreasChecked,
+      data: {
+        isServiceAvailable: checks.some(([, check]) => check.available),
+        location: point,
+        services: Object.fromEntries(checks),
+        serviceAreas: zones.map(zone => ({
+          id: zone.id,
+          name: zone.name,
+          description: zone.description,
+          services: zone.services,
+          isOpen: serviceZoneService.isOpen(zone),
+          operatingHours: zone.operatingHours,
+          pricing: {
+            baseFee: zone.baseFee,
+            perKmRate: zone.perKmRate,
+            surgeMultiplier: zone.surgeMultiplier,
+          },
+        })),
+        checkedAt: new Date(),
+      },
     });
   } catch (error) {
     console.error('Service areas error:', error);
@@ -39,20 +83,48 @@ router.get('/service-areas', async (req, res) => {
   }
 });
 
+// Geocode a Nigerian address
+router.get('/geocode', authenticateToken, async (req, res) => {
+  try {
+    const { address } = req.query;
+
+    if (!address || typeof address !== 'string') {
+      return res.status(400).json({ error: 'Address is required' });
+    }
+
+    const result = await geocodingService.geocode(address);
+
+    if (!result) {
+      return res.status(404).json({ error: 'Address could not be located' });
+    }
+
+    res.json({ address, result });
+  } catch (error) {
+    console.error('Geocode error:', error);
+    res.status(500).json({ error: 'Failed to geocode address' });
+  }
+});
+
 // Estimate delivery time
 router.post('/estimate-delivery', async (req, res) => {
   try {
     const { 
-      pickupLocation, 
-      deliveryLocation, 
+      pickupAddress,
+      deliveryAddress,
       deliveryType = 'standard',
       timeOfDay,
       packageSize = 'small'
     } = req.body;
 
+    // Coordinates win; otherwise the addresses are geocoded
+    const [pickupLocation, deliveryLocation] = await Promise.all([
+      req.body.pickupLocation || geocodingService.geocode(pickupAddress),
+      req.body.deliveryLocation || geocodingService.geocode(deliveryAddress),
+    ]);
+
     if (!pickupLocation || !deliveryLocation) {
       return res.status(400).json({ 
-        error: 'Pickup and delivery locations are required' 
+        error: 'Pickup and delivery locations are required; send coordinates or addresses that can be located' 
       });
     }
 
@@ -63,6 +135,24 @@ router.post('/estimate-delivery', async (req, res) => {
       deliveryLocation.longitude
     );
 
+    // Priced in the pickup's zone; both ends must be inside the delivery service area
+    const [pickupCheck, dropoffCheck] = await Promise.all([
+      serviceZoneService.check(pickupLocation, 'DELIVERY'),
+      serviceZoneService.check(deliveryLocation, 'DELIVERY'),
+    ]);
+    const unavailable = [pickupCheck, dropoffCheck].find(check => !check.available && check.reason !== 'CLOSED');
+    if (unavailable) {
+      return res.status(422).json({ error: unavailable.message, reason: unavailable.reason });
+    }
+    // Same engine as binding quotes, but nothing is stored; order with POST /api/delivery/quote
+    const pricing = await deliveryPricingService.price({
+      pickup: pickupLocation,
+      dropoff: deliveryLocation,
+      zone: pickupCheck.zone,
+      deliveryType,
+      packageSize,
+    });
+
     const baseTime = Math.ceil(distance / 30 * 60); // 30 km/h average speed
     const trafficMultiplier = getTrafficMultiplier(timeOfDay);
     const typeMultiplier = getDeliveryTypeMultiplier(deliveryType);
@@ -76,17 +166,24 @@ router.post('/estimate-delivery', async (req, res) => {
         earliest: new Date(Date.now() + estimatedMinutes * 60000),
         latest: new Date(Date.now() + (estimatedMinutes + 30) * 60000)
       },
-      deliveryFee: calculateDeliveryFee(distance, deliveryType, packageSize),
+      deliveryFee: pricing.total,
+      zone: zoneSummary(pickupCheck.zone),
+      // Requests can still be placed while the zone is closed; they are handled once it opens
+      opensAt: pickupCheck.available ? null : pickupCheck.opensAt ?? null,
       factors: {
         distance,
         traffic: trafficMultiplier,
         deliveryType: typeMultiplier,
-        packageSize
+        packageSize,
+        pricing,
       }
     };
 
     res.json(estimate);
   } catch (error) {
+    if (error instanceof PricingError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Delivery estimation error:', error);
     res.status(500).json({ error: 'Failed to estimate delivery time' });
   }
@@ -148,24 +245,6 @@ function estimateTolls(waypoints: any[]): number {
   return waypoints.length > 5 ? 500 : 200;
 }
 
-async function checkServiceAvailability(lat: number, lng: number, serviceType: string): Promise<any[]> {
-  // Mock service area checking
-  return [
-    {
-      area: 'Lagos Island',
-      available: true,
-      serviceTypes: ['delivery', 'pickup', 'express'],
-      eta: '30 minutes'
-    },
-    {
-      area: 'Victoria Island',
-      available: true,
-      serviceTypes: ['delivery', 'express'],
-      eta: '45 minutes'
-    }
-  ];
-}
-
 function getTrafficMultiplier(timeOfDay: string): number {
   const hour = new Date().getHours();
   if (hour >= 7 && hour <= 9) return 1.5; // Morning rush
@@ -182,15 +261,6 @@ function getDeliveryTypeMultiplier(type: string): number {
   }
 }
 
-function calculateDeliveryFee(distance: number, type: string, size: string): number {
-  let baseFee = 500;
-  let distanceFee = distance * 50;
-  let typeFee = type === 'express' ? 300 : type === 'same_day' ? 100 : 0;
-  let sizeFee = size === 'large' ? 200 : size === 'medium' ? 100 : 0;
-  
-  return baseFee + distanceFee + typeFee + sizeFee;
-}
-
 // Continue with additional routes
 
 // GET /api/geo/nearby-services - Find nearby services by category
@@ -276,229 +346,198 @@ router.get('/nearby-services', authenticateToken, async (req, res) => {
   }
 });
 
-// POST /api/geo/optimize-route - Route optimization for deliveries
+// POST /api/geo/optimize-route - Order a driver's pickups and drop-offs into one route
 router.post('/optimize-route', authenticateToken, authorizeRoles('DRIVER'), async (req, res) => {
   try {
     const driverId = (req as any).user.userId;
-    const { deliveryPoints, startLocation } = req.body;
-
-    if (!deliveryPoints || !Array.isArray(deliveryPoints) || deliveryPoints.length === 0) {
-      return res.status(400).json({ error: 'Delivery points array is required' });
-    }
+    const { jobs, deliveryPoints, useActiveDeliveries, startTime, returnToStart, distanceModel } = req.body;
 
-    if (!startLocation || !startLocation.latitude || !startLocation.longitude) {
+    const startLocation = req.body.startLocation;
+    if (!startLocation || !Number.isFinite(Number(startLocation.latitude)) || !Number.isFinite(Number(startLocation.longitude))) {
       return res.status(400).json({ error: 'Start location with latitude and longitude is required' });
     }
+    const start = { latitude: Number(startLocation.latitude), longitude: Number(startLocation.longitude) };
 
-    // Simple route optimization using nearest neighbor algorithm
-    // In production, you'd use a more sophisticated algorithm or external service
-    const optimizeRoute = (start: any, points: any[]) => {
-      const route = [start];
-      const remaining = [...points];
-
-      while (remaining.length > 0) {
-        const current = route[route.length - 1];
-        let nearestIndex = 0;
-        let nearestDistance = Infinity;
-
-        remaining.forEach((point, index) => {
-          const distance = calculateDistance(
-            current.latitude,
-            current.longitude,
-            point.latitude,
-            point.longitude
-          );
-          if (distance < nearestDistance) {
-            nearestDistance = distance;
-            nearestIndex = index;
-          }
-        });
-
-        route.push(remaining[nearestIndex]);
-        remaining.splice(nearestIndex, 1);
-      }
-
-      return route;
-    };
-
-    const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number) => {
-      const R = 6371; // Earth's radius in kilometers
-      const dLat = (lat2 - lat1) * (Math.PI / 180);
-      const dLng = (lng2 - lng1) * (Math.PI / 180);
-      const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.cos(lat1 * (Math.PI / 180)) * Math.cos(lat2 * (Math.PI / 180)) *
-        Math.sin(dLng / 2) * Math.sin(dLng / 2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      return R * c;
-    };
+    if (distanceModel !== undefined && !['HAVERSINE', 'ROAD'].includes(distanceModel)) {
+      return res.status(400).json({ error: 'distanceModel must be HAVERSINE or ROAD' });
+    }
+    const startAt = startTime ? new Date(startTime) : new Date();
+    if (isNaN(startAt.getTime())) {
+      return res.status(400).json({ error: 'startTime must be a valid date' });
+    }
 
-    const optimizedRoute = optimizeRoute(startLocation, deliveryPoints);
+    const routeJobs: RouteJob[] = [];
+    if (Array.isArray(jobs)) {
+      jobs.forEach((job, index) => routeJobs.push(routeOptimizerService.parseJob(job, index)));
+    }
+    // Plain points are drop-offs of packages already on board
+    if (Array.isArray(deliveryPoints)) {
+      deliveryPoints.forEach((point, index) => routeJobs.push({
+        id: String(point.id ?? `point_${index + 1}`),
+        dropoff: routeOptimizerService.parseStop(point, `deliveryPoints[${index}]`),
+      }));
+    }
+    if (useActiveDeliveries) {
+      routeJobs.push(...await activeDeliveryJobs(driverId));
+    }
+    if (routeJobs.length === 0) {
+      return res.status(400).json({ error: 'Send jobs or deliveryPoints, or set useActiveDeliveries' });
+    }
 
-    // Calculate total distance and estimated time
-    let totalDistance = 0;
-    for (let i = 1; i < optimizedRoute.length; i++) {
-      totalDistance += calculateDistance(
-        optimizedRoute[i - 1].latitude,
-        optimizedRoute[i - 1].longitude,
-        optimizedRoute[i].latitude,
-        optimizedRoute[i].longitude
-      );
+    const [profile] = await db.select({ vehicleType: driverProfiles.vehicleType })
+      .from(driverProfiles)
+      .where(eq(driverProfiles.userId, driverId))
+      .limit(1);
+    const capacity = req.body.capacity !== undefined
+      ? Number(req.body.capacity)
+      : routeOptimizerService.capacityFor(profile?.vehicleType);
+    if (!Number.isFinite(capacity) || capacity <= 0) {
+      return res.status(400).json({ error: 'capacity must be a positive number' });
     }
 
-    const estimatedTime = Math.ceil(totalDistance * 3); // Assume 3 minutes per km
+    const plan = routeOptimizerService.optimize({
+      start,
+      startAt,
+      end: returnToStart ? start : null,
+      capacity,
+      distanceModel,
+      jobs: routeJobs,
+    });
 
     res.json({
       status: 'Success',
       message: Message.routeOptimized,
       data: {
-        optimizedRoute,
-        totalDistance: Math.round(totalDistance * 100) / 100,
-        estimatedTime,
+        ...plan,
         driverId,
         createdAt: new Date(),
       },
     });
   } catch (error) {
+    if (error instanceof RouteOptimizerError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Route optimization error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// GET /api/geo/service-areas - Check service availability by location
-router.get('/service-areas', async (req, res) => {
-  try {
-    const { latitude, longitude } = req.query;
-
-    if (!latitude || !longitude) {
-      return res.status(400).json({ error: 'Latitude and longitude are required' });
-    }
-
-    const lat = Number(latitude);
-    const lng = Number(longitude);
-
-    // Mock service areas check (replace with real database tables later)
-    const serviceAreasWithin = [
-      {
-        id: '1',
-        name: 'Lagos Island Area',
-        description: 'Central Lagos delivery zone',
-        isActive: true,
-        deliveryFee: '500',
-        estimatedDeliveryTime: 30,
-      }
-    ];
-
-    // Mock nearby delivery zones (replace with real database tables later)  
-    const nearbyZones = [
-      {
-        id: '1',
-        name: 'Zone A - Lagos',
-        deliveryFee: '500',
-        minOrderAmount: '1000',
-        maxDeliveryTime: 60,
-      }
-    ];
-
-    const isServiceAvailable = true;
-
-    res.json({
-      status: 'Success',
-      message: Message.serviceAreasChecked,
-      data: {
-        isServiceAvailable,
-        location: { latitude: lat, longitude: lng },
-        serviceAreas: serviceAreasWithin,
-        nearbyZones,
-        checkedAt: new Date(),
+// The driver's deliveries under way. Collected packages only need dropping off; the rest need a
+// pickup first, and a scheduled pickup cannot happen before its time.
+async function activeDeliveryJobs(driverId: number): Promise<RouteJob[]> {
+  const deliveries = await db.select()
+    .from(deliveryRequests)
+    .where(and(
+      eq(deliveryRequests.driverId, driverId),
+      inArray(deliveryRequests.status, ['ASSIGNED', 'AT_PICKUP', 'PICKED_UP', 'IN_TRANSIT', 'ARRIVING']),
+    ));
+
+  const jobs: RouteJob[] = [];
+  for (const delivery of deliveries) {
+    const pickup = geocodingService.fromColumns(delivery.pickupLatitude, delivery.pickupLongitude);
+    const dropoff = geocodingService.fromColumns(delivery.deliveryLatitude, delivery.deliveryLongitude);
+    if (!dropoff) continue;
+
+    const collected = !['ASSIGNED', 'AT_PICKUP'].includes(delivery.status || '');
+    if (!collected && !pickup) continue;
+
+    const [quote] = delivery.quoteId
+      ? await db.select({ packageSize: deliveryQuotes.packageSize }).from(deliveryQuotes).where(eq(deliveryQuotes.id, delivery.quoteId))
+      : [];
+    jobs.push({
+      id: delivery.trackingNumber || delivery.id,
+      pickup: collected ? null : {
+        location: pickup!,
+        address: delivery.pickupAddress,
+        earliest: delivery.scheduledPickupTime,
       },
+      dropoff: { location: dropoff, address: delivery.deliveryAddress },
+      load: routeOptimizerService.loadFor(quote?.packageSize),
     });
+  }
+  return jobs;
+}
+
+// Admin: list service zones, inactive ones included
+router.get('/zones', authenticateToken, requirePermission('zones.manage'), async (req, res) => {
+  try {
+    const zones = await serviceZoneService.list();
+    res.json({ status: 'Success', data: zones });
   } catch (error) {
-    console.error('Service areas check error:', error);
+    console.error('List service zones error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// POST /api/geo/estimate-delivery - Get delivery time estimates
-router.post('/estimate-delivery', authenticateToken, async (req, res) => {
+// Admin: get one service zone
+router.get('/zones/:id', authenticateToken, requirePermission('zones.manage'), async (req, res) => {
   try {
-    const { pickupLocation, deliveryLocation, orderSize, priority = 'standard' } = req.body;
-
-    if (!pickupLocation || !deliveryLocation) {
-      return res.status(400).json({ error: 'Pickup and delivery locations are required' });
-    }
-
-    if (!pickupLocation.latitude || !deliveryLocation.latitude) {
-      return res.status(400).json({ error: 'Latitude and longitude are required for both locations' });
+    const zone = await serviceZoneService.get(req.params.id);
+    res.json({ status: 'Success', data: zone });
+  } catch (error) {
+    if (error instanceof ServiceZoneError) {
+      return sendZoneError(res, error);
     }
+    console.error('Get service zone error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Calculate distance
-    const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number) => {
-      const R = 6371;
-      const dLat = (lat2 - lat1) * (Math.PI / 180);
-      const dLng = (lng2 - lng1) * (Math.PI / 180);
-      const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.cos(lat1 * (Math.PI / 180)) * Math.cos(lat2 * (Math.PI / 180)) *
-        Math.sin(dLng / 2) * Math.sin(dLng / 2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      return R * c;
-    };
-
-    const distance = calculateDistance(
-      pickupLocation.latitude,
-      pickupLocation.longitude,
-      deliveryLocation.latitude,
-      deliveryLocation.longitude
-    );
+// Admin: create a service zone
+router.post('/zones', authenticateToken, requirePermission('zones.manage'), async (req, res) => {
+  try {
+    const adminId = (req as any).user.userId;
+    const zone = await serviceZoneService.create({ services: ['DELIVERY', 'FUEL', 'TOLL'], ...req.body }, adminId);
 
-    // Base delivery time calculation
-    let baseTime = Math.ceil(distance * 4); // 4 minutes per km base
-    
-    // Adjust for order size
-    if (orderSize === 'large') {
-      baseTime *= 1.3;
-    } else if (orderSize === 'medium') {
-      baseTime *= 1.1;
+    res.status(201).json({
+      status: 'Success',
+      message: 'Service zone created successfully',
+      data: zone,
+    });
+  } catch (error: any) {
+    if (error instanceof ServiceZoneError) {
+      return sendZoneError(res, error);
     }
-
-    // Adjust for priority
-    let estimatedTime = baseTime;
-    let deliveryFee = Math.max(500, distance * 100); // Base fee calculation
-
-    switch (priority) {
-      case 'express':
-        estimatedTime = Math.ceil(baseTime * 0.7);
-        deliveryFee *= 1.5;
-        break;
-      case 'priority':
-        estimatedTime = Math.ceil(baseTime * 0.85);
-        deliveryFee *= 1.25;
-        break;
-      default:
-        estimatedTime = baseTime;
+    if (error?.code === '23505') {
+      return res.status(409).json({ error: 'A service zone with this name already exists' });
     }
+    console.error('Create service zone error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Time windows
-    const currentTime = new Date();
-    const estimatedPickup = new Date(currentTime.getTime() + 15 * 60000); // 15 min prep time
-    const estimatedDelivery = new Date(estimatedPickup.getTime() + estimatedTime * 60000);
+// Admin: update a service zone's boundary, pricing, hours, services or status
+router.put('/zones/:id', authenticateToken, requirePermission('zones.manage'), async (req, res) => {
+  try {
+    const zone = await serviceZoneService.update(req.params.id, req.body);
 
     res.json({
       status: 'Success',
-      message: Message.deliveryEstimate,
-      data: {
-        distance: Math.round(distance * 100) / 100,
-        estimatedTime,
-        deliveryFee,
-        priority,
-        estimatedPickup,
-        estimatedDelivery,
-        pickupLocation,
-        deliveryLocation,
-        calculatedAt: new Date(),
-      },
+      message: 'Service zone updated successfully',
+      data: zone,
     });
+  } catch (error: any) {
+    if (error instanceof ServiceZoneError) {
+      return sendZoneError(res, error);
+    }
+    if (error?.code === '23505') {
+      return res.status(409).json({ error: 'A service zone with this name already exists' });
+    }
+    console.error('Update service zone error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: delete a service zone
+router.delete('/zones/:id', authenticateToken, requirePermission('zones.manage'), async (req, res) => {
+  try {
+    await serviceZoneService.remove(req.params.id);
+    res.json({ status: 'Success', message: 'Service zone deleted successfully' });
   } catch (error) {
-    console.error('Delivery estimation error:', error);
+    if (error instanceof ServiceZoneError) {
+      return sendZoneError(res, error);
+    }
+    console.error('Delete service zone error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
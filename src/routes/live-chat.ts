@@ -3,7 +3,8 @@ import { Router } from 'express';
 import { eq, and, or, desc } from 'drizzle-orm';
 import db from '../config/database';
 import { users, conversations, chatMessages, supportTickets } from '../schema';
-import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { authenticateToken } from '../utils/auth';
+import { requirePermission, requirePermissionForAdmins } from '../utils/admin-middleware';
 
 const router = Router();
 
@@ -86,7 +87,7 @@ router.get('/conversations', authenticateToken, async (req, res) => {
 });
 
 // Get conversation messages
-router.get('/conversations/:id/messages', authenticateToken, async (req, res) => {
+router.get('/conversations/:id/messages', authenticateToken, requirePermissionForAdmins('support.manage'), async (req, res) => {
   try {
     const conversationId = parseInt(req.params.id);
     const userId = (req as any).user.id;
@@ -131,7 +132,7 @@ router.get('/conversations/:id/messages', authenticateToken, async (req, res) =>
 });
 
 // Send message
-router.post('/conversations/:id/messages', authenticateToken, async (req, res) => {
+router.post('/conversations/:id/messages', authenticateToken, requirePermissionForAdmins('support.manage'), async (req, res) => {
   try {
     const conversationId = parseInt(req.params.id);
     const { content, messageType = 'TEXT' } = req.body;
@@ -182,7 +183,7 @@ router.post('/conversations/:id/messages', authenticateToken, async (req, res) =
 });
 
 // Admin: Get all active conversations
-router.get('/admin/conversations', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/admin/conversations', authenticateToken, requirePermission('support.manage'), async (req, res) => {
   try {
     const { status = 'ACTIVE', priority = 'all', limit = 50 } = req.query;
 
@@ -230,7 +231,7 @@ router.get('/admin/conversations', authenticateToken, authorizeRoles('ADMIN'), a
 });
 
 // Admin: Assign conversation to agent
-router.post('/admin/conversations/:id/assign', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/admin/conversations/:id/assign', authenticateToken, requirePermission('support.manage'), async (req, res) => {
   try {
     const conversationId = parseInt(req.params.id);
     const { agentId } = req.body;
@@ -253,7 +254,7 @@ router.post('/admin/conversations/:id/assign', authenticateToken, authorizeRoles
 });
 
 // Admin: Close conversation
-router.post('/admin/conversations/:id/close', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/admin/conversations/:id/close', authenticateToken, requirePermission('support.manage'), async (req, res) => {
   try {
     const conversationId = parseInt(req.params.id);
     const { resolution } = req.body;
@@ -276,7 +277,7 @@ router.post('/admin/conversations/:id/close', authenticateToken, authorizeRoles(
 });
 
 // Get chat statistics
-router.get('/admin/stats', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/admin/stats', authenticateToken, requirePermission('support.manage'), async (req, res) => {
   try {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -8,69 +8,24 @@ import {
   orders,
   deliveryRequests,
   users,
-  notificationPreferences,
   notificationTemplates,
   scheduledNotifications
 } from '../schema';
 import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { requirePermission, requirePermissionForAdmins } from '../utils/admin-middleware';
 import { Message } from '../utils/messages';
+import { scheduledNotificationService } from '../services/scheduledNotifications';
+import { pushNotificationService } from '../services/pushNotifications';
+import { pushGateway } from '../services/push';
+import { notificationDispatcher, DispatchInput } from '../services/notificationDispatcher';
 
 const router = Router();
 
-// Utility function to create notifications
-const createNotification = async (notificationData: {
-  userId: number;
-  userRole: 'CONSUMER' | 'MERCHANT' | 'DRIVER';
-  title: string;
-  message: string;
-  type: string;
-  relatedId?: string;
-  priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
-  actionUrl?: string;
-  expiresAt?: Date;
-}) => {
-  const { userId, userRole, title, message, type, relatedId, priority = 'MEDIUM', actionUrl, expiresAt } = notificationData;
-
-  let notification;
-
-  switch (userRole) {
-    case 'CONSUMER':
-      notification = await db.insert(consumerNotifications).values({
-        consumerId: userId,
-        title,
-        message,
-        type: type as any,
-        relatedId,
-        priority,
-        actionUrl,
-      }).returning();
-      break;
-    case 'MERCHANT':
-      notification = await db.insert(merchantNotifications).values({
-        merchantId: userId,
-        title,
-        message,
-        type: type as any,
-        relatedId,
-        priority,
-        actionUrl,
-      }).returning();
-      break;
-    case 'DRIVER':
-      notification = await db.insert(driverNotifications).values({
-        driverId: userId,
-        title,
-        message,
-        type: type as any,
-        relatedId,
-        priority,
-        actionUrl,
-        expiresAt,
-      }).returning();
-      break;
-  }
-
-  return notification?.[0];
+// Utility function to create notifications. Goes through the dispatcher, so the user's preferences
+// decide whether push, email or SMS copies go out as well; returns the in-app notification.
+const createNotification = async (notificationData: DispatchInput) => {
+  const result = await notificationDispatcher.dispatch(notificationData);
+  return result.inApp;
 };
 
 // Get notifications for current user (works for all user types)
@@ -422,7 +377,7 @@ router.post('/', authenticateToken, async (req, res) => {
 });
 
 // Order status notification triggers
-router.post('/order-status', authenticateToken, authorizeRoles('MERCHANT', 'DRIVER', 'ADMIN'), async (req, res) => {
+router.post('/order-status', authenticateToken, authorizeRoles('MERCHANT', 'DRIVER', 'ADMIN'), requirePermissionForAdmins('notifications.manage'), async (req, res) => {
   try {
     const { orderId, status } = req.body;
 
@@ -477,7 +432,7 @@ router.post('/order-status', authenticateToken, authorizeRoles('MERCHANT', 'DRIV
 });
 
 // Delivery request notification for drivers
-router.post('/delivery-request', authenticateToken, authorizeRoles('MERCHANT', 'ADMIN'), async (req, res) => {
+router.post('/delivery-request', authenticateToken, authorizeRoles('MERCHANT', 'ADMIN'), requirePermissionForAdmins('notifications.manage'), async (req, res) => {
   try {
     const { deliveryRequestId, driverIds } = req.body;
 
@@ -531,7 +486,7 @@ router.post('/delivery-request', authenticateToken, authorizeRoles('MERCHANT', '
 });
 
 // Payout confirmation notification
-router.post('/payout-confirmation', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/payout-confirmation', authenticateToken, requirePermission('finance.manage'), async (req, res) => {
   try {
     const { userId, userRole, amount, status, payoutId } = req.body;
 
@@ -643,47 +598,32 @@ router.post('/preferences', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: 'Valid preferences object is required' });
     }
 
-    // In production, you'd save these to a user_notification_preferences table
-    const userPreferences = {
-      userId,
-      userRole,
-      emailNotifications: preferences.email || true,
-      pushNotifications: preferences.push || true,
-      smsNotifications: preferences.sms || false,
-      categories: preferences.categories || {
-        order_updates: true,
-        delivery_updates: true,
-        promotions: false,
-        system_alerts: true
-      },
-      frequency: preferences.frequency || 'immediate',
-      quietHours: preferences.quietHours || { start: '22:00', end: '07:00' },
-      updatedAt: new Date()
-    };
+    const { email, push, sms, categories, frequency, quietHours, timezone, language } = preferences;
 
-    await db.insert(notificationPreferences).values({
-      userId,
-      userRole,
-      emailNotifications: userPreferences.emailNotifications,
-      pushNotifications: userPreferences.pushNotifications,
-      smsNotifications: userPreferences.smsNotifications,
-      categories: userPreferences.categories as any,
-      frequency: userPreferences.frequency,
-      quietHours: userPreferences.quietHours as any,
-      updatedAt: userPreferences.updatedAt
-    }).onConflictDoUpdate({
-      target: [notificationPreferences.userId, notificationPreferences.userRole],
-      set: {
-        emailNotifications: userPreferences.emailNotifications,
-        pushNotifications: userPreferences.pushNotifications,
-        smsNotifications: userPreferences.smsNotifications,
-        categories: userPreferences.categories as any,
-        frequency: userPreferences.frequency,
-        quietHours: userPreferences.quietHours as any,
-        updatedAt: userPreferences.updatedAt
-      }
-    });
+    if (categories !== undefined && (typeof categories !== 'object' || categories === null
+      || Object.entries(categories).some(([name, enabled]) => !notificationDispatcher.isCategory(name) || typeof enabled !== 'boolean'))) {
+      return res.status(400).json({ error: 'Categories must map known categories to true or false' });
+    }
+    if (quietHours !== undefined && quietHours !== null && !notificationDispatcher.isValidQuietHours(quietHours)) {
+      return res.status(400).json({ error: 'Quiet hours must be { start, end } in HH:MM, or null to turn them off' });
+    }
+    if (timezone !== undefined && !notificationDispatcher.isValidTimezone(timezone)) {
+      return res.status(400).json({ error: 'Unknown timezone' });
+    }
+    if (frequency !== undefined && !['immediate', 'hourly', 'daily'].includes(frequency)) {
+      return res.status(400).json({ error: 'Frequency must be immediate, hourly or daily' });
+    }
 
+    const userPreferences = await notificationDispatcher.savePreferences(userId, userRole, {
+      emailNotifications: email !== undefined ? !!email : undefined,
+      pushNotifications: push !== undefined ? !!push : undefined,
+      smsNotifications: sms !== undefined ? !!sms : undefined,
+      categories,
+      frequency,
+      quietHours: quietHours === null ? null : quietHours && { start: quietHours.start, end: quietHours.end },
+      timezone,
+      language,
+    });
 
     res.json({
       message: 'Notification preferences updated successfully',
@@ -696,7 +636,7 @@ router.post('/preferences', authenticateToken, async (req, res) => {
 });
 
 // Send bulk notifications
-router.post('/batch-send', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), async (req, res) => {
+router.post('/batch-send', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), requirePermissionForAdmins('notifications.manage'), async (req, res) => {
   try {
     const senderId = (req as any).user.userId;
     const senderRole = (req as any).user.role;
@@ -758,7 +698,7 @@ router.post('/batch-send', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'
 });
 
 // Get notification templates
-router.get('/templates', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), async (req, res) => {
+router.get('/templates', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), requirePermissionForAdmins('notifications.manage'), async (req, res) => {
   try {
     const { category, type } = req.query;
 
@@ -847,21 +787,35 @@ router.get('/templates', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'),
 });
 
 // Schedule future notifications
-router.post('/schedule', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), async (req, res) => {
+router.post('/schedule', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), requirePermissionForAdmins('notifications.manage'), async (req, res) => {
   try {
     const schedulerId = (req as any).user.userId;
+    const userRole = (req as any).user.role;
     const { 
       recipients, 
+      audience,
       message, 
       scheduleTime, 
       templateId, 
       templateVariables = {},
+      variableSource,
+      recurrence,
+      recurrenceEndsAt,
       type = 'SYSTEM',
       priority = 'MEDIUM' 
     } = req.body;
 
-    if (!recipients || !Array.isArray(recipients) || recipients.length === 0) {
-      return res.status(400).json({ error: 'Recipients array is required' });
+    if (audience) {
+      if (userRole !== 'ADMIN') {
+        return res.status(403).json({ error: 'Only admins can schedule notifications for an audience' });
+      }
+      if (!audience.role || !scheduledNotificationService.isRecipientRole(audience.role)) {
+        return res.status(400).json({ error: 'Audience role must be CONSUMER, MERCHANT or DRIVER' });
+      }
+    } else if (!recipients || !Array.isArray(recipients) || recipients.length === 0) {
+      return res.status(400).json({ error: 'Recipients array or audience is required' });
+    } else if (recipients.some((r: any) => !r?.userId || !scheduledNotificationService.isRecipientRole(r.userRole))) {
+      return res.status(400).json({ error: 'Each recipient needs a userId and a userRole of CONSUMER, MERCHANT or DRIVER' });
     }
 
     if (!scheduleTime) {
@@ -869,50 +823,64 @@ router.post('/schedule', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'),
     }
 
     const scheduledTime = new Date(scheduleTime);
-    if (scheduledTime <= new Date()) {
+    if (isNaN(scheduledTime.getTime()) || scheduledTime <= new Date()) {
       return res.status(400).json({ error: 'Schedule time must be in the future' });
     }
 
+    if (recurrence && !scheduledNotificationService.isRecurrence(recurrence)) {
+      return res.status(400).json({ error: 'Recurrence must be daily, weekly or monthly' });
+    }
+
+    const endsAt = recurrenceEndsAt ? new Date(recurrenceEndsAt) : null;
+    if (endsAt && (isNaN(endsAt.getTime()) || endsAt <= scheduledTime)) {
+      return res.status(400).json({ error: 'Recurrence end must be after the schedule time' });
+    }
+
+    if (variableSource && !scheduledNotificationService.isVariableSource(variableSource)) {
+      return res.status(400).json({ error: 'Unknown variable source' });
+    }
+
     if (!message && !templateId) {
       return res.status(400).json({ error: 'Either message or templateId is required' });
     }
 
-    // Create scheduled notification record
-    const scheduledNotification = {
-      id: `scheduled_${Date.now()}_${schedulerId}`,
+    if (message && (!message.title || !message.body)) {
+      return res.status(400).json({ error: 'Message requires a title and body' });
+    }
+
+    if (templateId) {
+      const [template] = await db.select({ id: notificationTemplates.id, isActive: notificationTemplates.isActive })
+        .from(notificationTemplates)
+        .where(eq(notificationTemplates.id, templateId));
+      if (!template || template.isActive === false) {
+        return res.status(404).json({ error: 'Notification template not found' });
+      }
+    }
+
+    const [scheduledNotification] = await db.insert(scheduledNotifications).values({
       schedulerId,
-      recipients,
+      recipients: audience ? null : recipients,
+      audience: audience ? { role: audience.role } : null,
       message: message || null,
       templateId: templateId || null,
       templateVariables,
+      variableSource: variableSource || null,
       scheduleTime: scheduledTime,
+      recurrence: recurrence || null,
+      recurrenceEndsAt: endsAt,
       type,
       priority,
-      status: 'scheduled',
-      createdAt: new Date()
-    };
-
-    await db.insert(scheduledNotifications).values({
-      id: scheduledNotification.id,
-      schedulerId: scheduledNotification.schedulerId,
-      recipients: JSON.stringify(scheduledNotification.recipients),
-      message: scheduledNotification.message ? JSON.stringify(scheduledNotification.message) : null,
-      templateId: scheduledNotification.templateId,
-      templateVariables: JSON.stringify(scheduledNotification.templateVariables),
-      scheduleTime: scheduledNotification.scheduleTime,
-      type: scheduledNotification.type,
-      priority: scheduledNotification.priority,
-      status: scheduledNotification.status,
-      createdAt: scheduledNotification.createdAt
-    });
+    }).returning();
 
     res.status(201).json({
       message: 'Notification scheduled successfully',
       scheduledNotification: {
         id: scheduledNotification.id,
         scheduledFor: scheduledTime,
-        recipientCount: recipients.length,
-        status: 'scheduled'
+        recurrence: scheduledNotification.recurrence,
+        recipientCount: audience ? null : recipients.length,
+        audience: scheduledNotification.audience,
+        status: scheduledNotification.status
       }
     });
   } catch (error) {
@@ -921,47 +889,45 @@ router.post('/schedule', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'),
   }
 });
 
-// Get user notification preferences
+// Get user notification preferences (defaults when none are saved)
 router.get('/preferences', authenticateToken, async (req, res) => {
   try {
     const userId = (req as any).user.userId;
     const userRole = (req as any).user.role;
 
-    const preferences = await db.select()
-      .from(notificationPreferences)
-      .where(and(
-        eq(notificationPreferences.userId, userId),
-        eq(notificationPreferences.userRole, userRole)
-      ));
+    const preferences = await notificationDispatcher.getPreferences(userId, userRole);
 
-    if (preferences.length > 0) {
-      return res.json({ preferences: preferences[0] });
+    res.json({ preferences: { userId, userRole, ...preferences } });
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({ error: 'Failed to get notification preferences' });
+  }
+});
+
+// Per-channel delivery status of notifications sent to the current user (admins may pass userId)
+router.get('/deliveries', authenticateToken, async (req, res) => {
+  try {
+    const currentUserId = (req as any).user.userId;
+    const userRole = (req as any).user.role;
+    const { userId, dispatchId, channel, status, page = 1, limit = 20 } = req.query;
+
+    if (channel && !notificationDispatcher.isChannel(channel as string)) {
+      return res.status(400).json({ error: 'Channel must be IN_APP, PUSH, EMAIL or SMS' });
     }
 
-    // If no preferences found, return defaults
-    const defaultPreferences = {
-      userId,
-      userRole,
-      emailNotifications: true,
-      pushNotifications: true,
-      smsNotifications: false,
-      categories: {
-        order_updates: true,
-        delivery_updates: true,
-        promotions: false,
-        system_alerts: true,
-        payment_updates: true,
-        security_alerts: true
-      },
-      frequency: 'immediate', // immediate, hourly, daily
-      quietHours: { start: '22:00', end: '07:00' },
-      language: 'en'
-    };
+    const deliveries = await notificationDispatcher.listDeliveries({
+      userId: userRole === 'ADMIN' ? (userId ? Number(userId) : undefined) : currentUserId,
+      dispatchId: dispatchId as string | undefined,
+      channel: channel as string | undefined,
+      status: status as string | undefined,
+      limit: Number(limit),
+      offset: (Number(page) - 1) * Number(limit),
+    });
 
-    res.json({ preferences: defaultPreferences });
+    res.json({ deliveries, page: Number(page), limit: Number(limit) });
   } catch (error) {
-    console.error('Get notification preferences error:', error);
-    res.status(500).json({ error: 'Failed to get notification preferences' });
+    console.error('Get notification deliveries error:', error);
+    res.status(500).json({ error: 'Failed to get notification deliveries' });
   }
 });
 
@@ -1025,7 +991,7 @@ router.get('/search', authenticateToken, async (req, res) => {
 });
 
 // Get all notification templates (for admin)
-router.get('/templates/all', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/templates/all', authenticateToken, requirePermission('notifications.manage'), async (req, res) => {
   try {
     const templates = await db.select().from(notificationTemplates);
     res.json({ templates });
@@ -1036,7 +1002,7 @@ router.get('/templates/all', authenticateToken, authorizeRoles('ADMIN'), async (
 });
 
 // Create a new notification template (for admin)
-router.post('/templates', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/templates', authenticateToken, requirePermission('notifications.manage'), async (req, res) => {
   try {
     const { name, category, type, template } = req.body;
 
@@ -1061,7 +1027,7 @@ router.post('/templates', authenticateToken, authorizeRoles('ADMIN'), async (req
 });
 
 // Update an existing notification template (for admin)
-router.put('/templates/:id', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.put('/templates/:id', authenticateToken, requirePermission('notifications.manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const { name, category, type, template } = req.body;
@@ -1093,7 +1059,7 @@ router.put('/templates/:id', authenticateToken, authorizeRoles('ADMIN'), async (
 });
 
 // Delete a notification template (for admin)
-router.delete('/templates/:id', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.delete('/templates/:id', authenticateToken, requirePermission('notifications.manage'), async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -1112,12 +1078,17 @@ router.delete('/templates/:id', authenticateToken, authorizeRoles('ADMIN'), asyn
   }
 });
 
-// Get scheduled notifications
-router.get('/scheduled', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), async (req, res) => {
+// Get scheduled notifications (merchants only see their own)
+router.get('/scheduled', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), requirePermissionForAdmins('notifications.manage'), async (req, res) => {
   try {
+    const userId = (req as any).user.userId;
+    const userRole = (req as any).user.role;
     const { status, scheduleTime } = req.query;
     let whereConditions: any[] = [];
 
+    if (userRole !== 'ADMIN') {
+      whereConditions.push(eq(scheduledNotifications.schedulerId, userId));
+    }
     if (status) {
       whereConditions.push(eq(scheduledNotifications.status, status as string));
     }
@@ -1127,40 +1098,79 @@ router.get('/scheduled', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'),
 
     const scheduledNotificationsList = await db.select()
       .from(scheduledNotifications)
-      .where(and(...whereConditions));
+      .where(and(...whereConditions))
+      .orderBy(desc(scheduledNotifications.scheduleTime));
 
-    // Parse JSON fields
-    const parsedNotifications = scheduledNotificationsList.map(n => ({
-      ...n,
-      recipients: JSON.parse(n.recipients),
-      message: n.message ? JSON.parse(n.message) : null,
-      templateVariables: JSON.parse(n.templateVariables),
-    }));
-
-    res.json({ scheduledNotifications: parsedNotifications });
+    res.json({ scheduledNotifications: scheduledNotificationsList });
   } catch (error) {
     console.error('Get scheduled notifications error:', error);
     res.status(500).json({ error: 'Failed to get scheduled notifications' });
   }
 });
 
-// Update scheduled notification status (e.g., retry, cancel)
-router.put('/scheduled/:id/status', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), async (req, res) => {
+// Per-recipient delivery results of a scheduled notification, optionally for one run
+router.get('/scheduled/:id/deliveries', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), requirePermissionForAdmins('notifications.manage'), async (req, res) => {
   try {
+    const userId = (req as any).user.userId;
+    const userRole = (req as any).user.role;
+    const { id } = req.params;
+    const { run } = req.query;
+
+    const [scheduled] = await db.select()
+      .from(scheduledNotifications)
+      .where(eq(scheduledNotifications.id, id));
+
+    if (!scheduled || (userRole !== 'ADMIN' && scheduled.schedulerId !== userId)) {
+      return res.status(404).json({ error: 'Scheduled notification not found' });
+    }
+
+    const deliveries = await scheduledNotificationService.getDeliveries(id, run ? Number(run) : undefined);
+
+    res.json({
+      scheduledNotification: {
+        id: scheduled.id,
+        status: scheduled.status,
+        lastRunStatus: scheduled.lastRunStatus,
+        lastRunAt: scheduled.lastRunAt,
+        runCount: scheduled.runCount,
+      },
+      summary: {
+        sent: deliveries.filter(d => d.status === 'SENT').length,
+        failed: deliveries.filter(d => d.status === 'FAILED').length,
+      },
+      deliveries,
+    });
+  } catch (error) {
+    console.error('Get scheduled notification deliveries error:', error);
+    res.status(500).json({ error: 'Failed to get scheduled notification deliveries' });
+  }
+});
+
+// Cancel or re-arm a scheduled notification
+router.put('/scheduled/:id/status', authenticateToken, authorizeRoles('ADMIN', 'MERCHANT'), requirePermissionForAdmins('notifications.manage'), async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const userRole = (req as any).user.role;
     const { id } = req.params;
     const { status } = req.body;
 
-    if (!status) {
-      return res.status(400).json({ error: 'Status is required' });
+    if (!status || !['cancelled', 'scheduled'].includes(status)) {
+      return res.status(400).json({ error: 'Status must be cancelled or scheduled' });
+    }
+
+    // A run that is in progress cannot be changed underneath the dispatcher
+    const conditions = [eq(scheduledNotifications.id, id), sql`${scheduledNotifications.status} <> 'processing'`];
+    if (userRole !== 'ADMIN') {
+      conditions.push(eq(scheduledNotifications.schedulerId, userId));
     }
 
     const updatedNotification = await db.update(scheduledNotifications)
-      .set({ status })
-      .where(eq(scheduledNotifications.id, id))
+      .set({ status, updatedAt: new Date() })
+      .where(and(...conditions))
       .returning();
 
     if (updatedNotification.length === 0) {
-      return res.status(404).json({ error: 'Scheduled notification not found' });
+      return res.status(404).json({ error: 'Scheduled notification not found or currently being sent' });
     }
 
     res.json({ message: 'Scheduled notification status updated successfully', notification: updatedNotification[0] });
@@ -1170,6 +1180,110 @@ router.put('/scheduled/:id/status', authenticateToken, authorizeRoles('ADMIN', '
   }
 });
 
+// Register this device for push notifications (idempotent per token)
+router.post('/devices', authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { token, platform, provider, appVersion } = req.body;
+
+    if (!token || typeof token !== 'string' || token.length > 512) {
+      return res.status(400).json({ error: 'A device token of at most 512 characters is required' });
+    }
+    if (!platform || !pushGateway.isPlatform(platform)) {
+      return res.status(400).json({ error: 'Platform must be android, ios or web' });
+    }
+    if (provider && !['fcm', 'apns'].includes(provider)) {
+      return res.status(400).json({ error: 'Provider must be fcm or apns' });
+    }
+
+    const device = await pushNotificationService.registerDevice(userId, { token, platform, provider, appVersion });
+
+    res.status(201).json({ message: 'Device registered successfully', device });
+  } catch (error) {
+    console.error('Register device error:', error);
+    res.status(500).json({ error: 'Failed to register device' });
+  }
+});
+
+// List the current user's devices and their topic subscriptions
+router.get('/devices', authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const devices = await pushNotificationService.listDevices(userId);
+    res.json({ devices });
+  } catch (error) {
+    console.error('Get devices error:', error);
+    res.status(500).json({ error: 'Failed to get devices' });
+  }
+});
+
+// Unregister a device, e.g. on logout
+router.delete('/devices/:id', authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const removed = await pushNotificationService.unregisterDevice(userId, req.params.id);
+
+    if (!removed) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    res.json({ message: 'Device unregistered successfully' });
+  } catch (error) {
+    console.error('Unregister device error:', error);
+    res.status(500).json({ error: 'Failed to unregister device' });
+  }
+});
+
+// Subscribe a device to a topic
+router.post('/devices/:id/topics', authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const { topic } = req.body;
+
+    if (!topic || !pushNotificationService.isValidTopic(topic)) {
+      return res.status(400).json({ error: 'Topic must be 1-100 letters, digits or -_.~%' });
+    }
+
+    const subscribed = await pushNotificationService.subscribeToTopic(userId, req.params.id, topic);
+    if (!subscribed) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    res.status(201).json({ message: 'Subscribed to topic successfully', topic });
+  } catch (error) {
+    console.error('Subscribe to topic error:', error);
+    res.status(500).json({ error: 'Failed to subscribe to topic' });
+  }
+});
+
+// Unsubscribe a device from a topic
+router.delete('/devices/:id/topics/:topic', authenticateToken, async (req, res) => {
+  try {
+    const userId = (req as any).user.userId;
+    const unsubscribed = await pushNotificationService.unsubscribeFromTopic(userId, req.params.id, req.params.topic);
+
+    if (!unsubscribed) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    res.json({ message: 'Unsubscribed from topic successfully' });
+  } catch (error) {
+    console.error('Unsubscribe from topic error:', error);
+    res.status(500).json({ error: 'Failed to unsubscribe from topic' });
+  }
+});
+
+// Registered devices, topics and push provider configuration
+router.get('/devices/stats', authenticateToken, requirePermission('notifications.manage'), async (req, res) => {
+  try {
+    const stats = await pushNotificationService.getStats();
+    res.json(stats);
+  } catch (error) {
+    console.error('Get push stats error:', error);
+    res.status(500).json({ error: 'Failed to get push notification stats' });
+  }
+});
+
 // Example of using the Message enum for responses
 router.get('/example', authenticateToken, (req, res) => {
   res.json({ message: Message.userProfile });
@@ -1,87 +1,147 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { eq, and, desc, sql } from 'drizzle-orm';
-import axios from 'axios';
 import db from '../config/database';
-import { orders, products, cartItems, users, transactions, reviews } from '../schema';
+import { orders, products, cartItems, users, reviews, receipts } from '../schema';
 import { authenticateToken, authorizeRoles } from '../utils/auth';
 import { Message } from '../utils/messages';
-import { createNotification } from './notifications';
+import { validateOrderStatus } from '../utils/validation';
+import { orderGroupService, CheckoutError } from '../services/orderGroups';
+import { orderLifecycle, OrderTransitionError, actorFromUser } from '../services/orderLifecycle';
+import { InventoryError } from '../services/inventory';
+import { PaymentProviderError } from '../services/payments';
+import { paymentEventService } from '../services/paymentEvents';
+import { ServiceZoneError } from '../services/serviceZones';
 
 const router = Router();
 
-// Create order from cart (checkout)
+const sendTransitionError = (res: Response, error: OrderTransitionError, invalidMessage: string) => {
+  if (error.code === 'NOT_FOUND') {
+    return res.status(404).json({ error: 'Order not found' });
+  }
+  if (error.code === 'FORBIDDEN') {
+    return res.status(403).json({ error: error.message, currentStatus: error.currentStatus });
+  }
+  if (error.code === 'INVALID_AMOUNT') {
+    return res.status(400).json({ error: error.message, currentStatus: error.currentStatus });
+  }
+  return res.status(400).json({ error: invalidMessage, currentStatus: error.currentStatus });
+};
+
+// Create order from cart (checkout) - one order group, one fulfilment per merchant
 router.post('/checkout', authenticateToken, async (req, res) => {
   try {
     const buyerId = (req as any).user.userId;
-    const { deliveryAddress } = req.body;
+    const { deliveryAddress, specialInstructions } = req.body;
 
     if (!deliveryAddress) {
       return res.status(400).json({ error: 'Delivery address is required' });
     }
 
-    // Get cart items
-    const cart = await db.select({
-      id: cartItems.id,
-      quantity: cartItems.quantity,
-      product: {
-        id: products.id,
-        name: products.name,
-        price: products.price,
-        sellerId: products.sellerId,
-        inStock: products.inStock,
-      },
-    })
-      .from(cartItems)
-      .leftJoin(products, eq(cartItems.productId, products.id))
-      .where(eq(cartItems.userId, buyerId));
+    const { group, fulfilments } = await orderGroupService.checkout(buyerId, deliveryAddress, specialInstructions);
 
-    if (cart.length === 0) {
-      return res.status(400).json({ error: 'Cart is empty' });
+    res.status(201).json({
+      message: 'Orders created successfully',
+      orderGroup: group,
+      fulfilments,
+      orders: fulfilments.flatMap(fulfilment => fulfilment.orders),
+      paymentTxRef: group.paymentTxRef,
+      totalPrice: Number(group.totalAmount),
+    });
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof ServiceZoneError) {
+      return res.status(422).json({ error: error.message, reason: error.code, opensAt: error.opensAt ?? null });
     }
+    if (error instanceof InventoryError) {
+      return res.status(error.code === 'INSUFFICIENT_STOCK' ? 409 : 400).json({ error: error.message, productId: error.productId });
+    }
+    console.error('Checkout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Check for multiple vendors (similar to NestJS logic)
-    const vendorIds = cart.map(item => item.product?.sellerId).filter(Boolean);
-    const uniqueVendorIds = [...new Set(vendorIds)];
+// Get order group (buyer sees every merchant's slice, merchants only their own)
+router.get('/groups/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { userId, role } = (req as any).user;
+
+    const group = await orderGroupService.getGroupForUser(id, userId, role);
 
-    if (uniqueVendorIds.length > 1) {
-      return res.status(400).json({ error: 'Cannot place an order with items from multiple vendors.' });
+    if (!group) {
+      return res.status(404).json({ error: 'Order group not found' });
     }
 
-    // Create orders for each product
-    const createdOrders = [];
-    let totalOrderPrice = 0;
+    res.json({
+      status: 'Success',
+      message: 'Order group fetched successfully',
+      data: group,
+    });
+  } catch (error) {
+    console.error('Get order group error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    for (const item of cart) {
-      if (!item.product?.inStock) {
-        return res.status(400).json({ error: `Product ${item.product?.name} is out of stock` });
-      }
+// Get merchant fulfilments (merchant only)
+router.get('/fulfilments', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+  try {
+    const merchantId = (req as any).user.userId;
+    const { page = 1, limit = 10, status } = req.query;
 
-      const totalPrice = Number(item.product.price) * item.quantity;
-      totalOrderPrice += totalPrice;
+    const fulfilments = await orderGroupService.getMerchantFulfilments(merchantId, {
+      status: status as string | undefined,
+      limit: Number(limit),
+      offset: (Number(page) - 1) * Number(limit),
+    });
 
-      const order = await db.insert(orders).values({
-        buyerId,
-        sellerId: item.product.sellerId,
-        productId: item.product.id,
-        quantity: item.quantity,
-        totalPrice: totalPrice.toString(),
-        deliveryAddress,
-        status: 'pending',
-      }).returning();
+    res.json({
+      status: 'Success',
+      message: 'Fulfilments fetched successfully',
+      data: {
+        fulfilments,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total: fulfilments.length,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get merchant fulfilments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      createdOrders.push(order[0]);
+// Update fulfilment status (merchant only)
+router.put('/fulfilments/:id/status', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const merchantId = (req as any).user.userId;
+    const { status, reason } = req.body;
+
+    if (!status || !validateOrderStatus(status)) {
+      return res.status(400).json({ error: 'Invalid status' });
     }
 
-    // Clear cart after successful order creation
-    await db.delete(cartItems).where(eq(cartItems.userId, buyerId));
+    const fulfilment = await orderGroupService.updateFulfilmentStatus(id, merchantId, status, reason);
 
-    res.status(201).json({
-      message: 'Orders created successfully',
-      orders: createdOrders,
-      totalPrice: totalOrderPrice,
+    if (!fulfilment) {
+      return res.status(404).json({ error: 'Fulfilment not found or you do not have permission to update it' });
+    }
+
+    res.json({
+      status: 'Success',
+      message: 'Fulfilment status updated successfully',
+      data: fulfilment,
     });
   } catch (error) {
-    console.error('Checkout error:', error);
+    if (error instanceof OrderTransitionError) {
+      return sendTransitionError(res, error, 'Fulfilment cannot move to this status');
+    }
+    console.error('Update fulfilment status error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -93,7 +153,7 @@ router.put('/:id/cancel', authenticateToken, async (req, res) => {
     const buyerId = (req as any).user.userId;
     const { reason } = req.body;
 
-    // Check if order belongs to the buyer and can be cancelled
+    // Check if order belongs to the buyer
     const existingOrder = await db.select().from(orders).where(and(
       eq(orders.id, orderId),
       eq(orders.buyerId, buyerId)
@@ -103,45 +163,22 @@ router.put('/:id/cancel', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Order not found or you do not have permission to cancel it' });
     }
 
-    const order = existingOrder[0];
-
-    // Check if order can be cancelled (only pending or confirmed orders)
-    if (!['pending', 'confirmed'].includes(order.status)) {
-      return res.status(400).json({ 
-        error: 'Order cannot be cancelled at this stage',
-        currentStatus: order.status
-      });
-    }
-
-    const updatedOrder = await db.update(orders)
-      .set({ 
-        status: 'cancelled',
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
-
-    // Notify seller about order cancellation
-    try {
-      await createNotification({
-        userId: order.sellerId,
-        userRole: 'MERCHANT',
-        title: 'Order Cancelled',
-        message: `Order ${orderId} has been cancelled by the customer.${reason ? ` Reason: ${reason}` : ''}`,
-        type: 'ORDER_CANCELLED',
-        relatedId: orderId,
-        priority: 'MEDIUM',
-      });
-    } catch (notificationError) {
-      console.error('Failed to create order cancellation notification:', notificationError);
-    }
+    // The lifecycle decides whether the order can still be cancelled and refunds it if it was paid;
+    // the merchant's fulfilment and its delivery follow the order
+    const result = await orderGroupService.transitionOrder(orderId, 'cancelled', actorFromUser((req as any).user), {
+      reason,
+      changes: { cancelReason: reason },
+    });
 
     res.json({
       status: 'Success',
       message: 'Order cancelled successfully',
-      data: updatedOrder[0],
+      data: { ...result.order, refund: result.outputs.refund },
     });
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return sendTransitionError(res, error, 'Order cannot be cancelled at this stage');
+    }
     console.error('Cancel order error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -155,8 +192,14 @@ router.post('/:id/refund', authenticateToken, async (req, res) => {
     const userRole = (req as any).user.role;
     const { amount, reason } = req.body;
 
-    if (!amount || !reason) {
-      return res.status(400).json({ error: 'Amount and reason are required' });
+    if (!reason) {
+      return res.status(400).json({ error: 'Reason is required' });
+    }
+
+    // Without an amount, whatever has not been refunded yet goes back
+    const refundAmount = amount === undefined ? undefined : Number(amount);
+    if (refundAmount !== undefined && !(Number.isFinite(refundAmount) && refundAmount > 0)) {
+      return res.status(400).json({ error: 'Amount must be a positive number' });
     }
 
     // Check if order exists
@@ -173,56 +216,22 @@ router.post('/:id/refund', authenticateToken, async (req, res) => {
       return res.status(403).json({ error: 'You do not have permission to refund this order' });
     }
 
-    // Validate refund amount
-    const orderTotal = parseFloat(order.totalPrice);
-    const refundAmount = parseFloat(amount);
-
-    if (refundAmount > orderTotal) {
-      return res.status(400).json({ error: 'Refund amount cannot exceed order total' });
-    }
-
-    // Generate refund reference
-    const refundRef = `REFUND_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
-
-    // Update order status
-    const updatedOrder = await db.update(orders)
-      .set({ 
-        status: 'refunded',
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, orderId))
-      .returning();
-
-    // Notify customer about refund
-    try {
-      await createNotification({
-        userId: order.buyerId,
-        userRole: 'CONSUMER',
-        title: 'Refund Processed',
-        message: `Your refund of ₦${refundAmount} for order ${orderId} has been processed.`,
-        type: 'REFUND_PROCESSED',
-        relatedId: orderId,
-        priority: 'HIGH',
-      });
-    } catch (notificationError) {
-      console.error('Failed to create refund notification:', notificationError);
-    }
+    // The amount is capped at what is left of the payment; the order is marked refunded once
+    // all of it has gone back
+    const result = await orderLifecycle.refund(orderId, refundAmount, actorFromUser((req as any).user), { reason });
 
     res.json({
       status: 'Success',
       message: 'Refund processed successfully',
       data: {
-        order: updatedOrder[0],
-        refund: {
-          refundRef,
-          amount: refundAmount,
-          reason,
-          processedAt: new Date(),
-          status: 'COMPLETED'
-        }
+        order: result.order,
+        refund: result.refund,
       }
     });
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return sendTransitionError(res, error, 'Order cannot be refunded at this stage');
+    }
     console.error('Process refund error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -276,79 +285,34 @@ router.post('/:id/review', authenticateToken, async (req, res) => {
 router.post('/place', authenticateToken, async (req, res) => {
   try {
     const buyerId = (req as any).user.userId;
-    const { deliveryAddress } = req.body;
+    const { deliveryAddress, specialInstructions } = req.body;
 
     if (!deliveryAddress) {
       return res.status(400).json({ error: 'Delivery address is required' });
     }
 
-    // Get cart items
-    const cart = await db.select({
-      id: cartItems.id,
-      quantity: cartItems.quantity,
-      product: {
-        id: products.id,
-        name: products.name,
-        price: products.price,
-        sellerId: products.sellerId,
-        inStock: products.inStock,
-      },
-    })
-      .from(cartItems)
-      .leftJoin(products, eq(cartItems.productId, products.id))
-      .where(eq(cartItems.userId, buyerId));
-
-    if (cart.length === 0) {
-      return res.status(400).json({ error: 'Cart is empty' });
-    }
-
-    const totalPrice = cart.reduce((total, item) => {
-      return total + (Number(item.product?.price || 0) * item.quantity);
-    }, 0);
-
-    // Check for multiple vendors
-    const vendorIds = cart.map(item => item.product?.sellerId).filter(Boolean);
-    const uniqueVendorIds = [...new Set(vendorIds)];
-
-    if (uniqueVendorIds.length > 1) {
-      return res.status(400).json({ error: 'Cannot place an order with items from multiple vendors.' });
-    }
-
-    // Create orders
-    const createdOrders = [];
-
-    for (const item of cart) {
-      if (!item.product?.inStock) {
-        return res.status(400).json({ error: `Product ${item.product?.name} is out of stock` });
-      }
-
-      const itemTotal = Number(item.product.price) * item.quantity;
-
-      const order = await db.insert(orders).values({
-        buyerId,
-        sellerId: item.product.sellerId,
-        productId: item.product.id,
-        quantity: item.quantity,
-        totalPrice: itemTotal.toString(),
-        deliveryAddress,
-        status: 'pending',
-      }).returning();
-
-      createdOrders.push(order[0]);
-    }
-
-    // Clear cart
-    await db.delete(cartItems).where(eq(cartItems.userId, buyerId));
+    const { group, fulfilments } = await orderGroupService.checkout(buyerId, deliveryAddress, specialInstructions);
 
     res.status(201).json({
       status: 'Success',
       message: 'Order placed successfully',
       data: {
-        orders: createdOrders,
-        totalPrice: totalPrice,
+        orderGroup: group,
+        orders: fulfilments.flatMap(fulfilment => fulfilment.orders),
+        paymentTxRef: group.paymentTxRef,
+        totalPrice: Number(group.totalAmount),
       },
     });
   } catch (error) {
+    if (error instanceof CheckoutError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof ServiceZoneError) {
+      return res.status(422).json({ error: error.message, reason: error.code, opensAt: error.opensAt ?? null });
+    }
+    if (error instanceof InventoryError) {
+      return res.status(error.code === 'INSUFFICIENT_STOCK' ? 409 : 400).json({ error: error.message, productId: error.productId });
+    }
     console.error('Place order error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -568,68 +532,67 @@ router.get('/vendor-orders', authenticateToken, async (req, res) => {
 router.put('/:id/status', authenticateToken, async (req, res) => {
   try {
     const { id: orderId } = req.params;
-    const sellerId = (req as any).user.userId;
-    const { status } = req.body;
+    const user = (req as any).user;
+    const { status, reason } = req.body;
 
-    const validStatuses = ['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled'];
-    if (!status || !validStatuses.includes(status)) {
+    if (!status || !validateOrderStatus(status)) {
       return res.status(400).json({ error: 'Invalid status' });
     }
 
-    // Check if order belongs to the seller
+    // Check if order belongs to the seller (admins can update any order)
     const existingOrder = await db.select().from(orders).where(and(
       eq(orders.id, orderId),
-      eq(orders.sellerId, sellerId)
+      user.role === 'ADMIN' ? undefined : eq(orders.sellerId, user.userId)
     ));
 
     if (existingOrder.length === 0) {
       return res.status(404).json({ error: 'Order not found or you do not have permission to update it' });
     }
 
-    const updatedOrder = await db.update(orders)
-      .set({ status: status as any })
-      .where(and(
-        eq(orders.id, orderId),
-        eq(orders.sellerId, sellerId)
-      ))
-      .returning();
+    // The lifecycle checks the move is allowed for this role and notifies the other party; the
+    // order's fulfilment and group follow it
+    const result = await orderGroupService.transitionOrder(orderId, status, actorFromUser(user), { reason });
 
-    if (updatedOrder.length === 0) {
-      return res.status(404).json({ error: 'Order not found or unauthorized' });
+    res.json({
+      status: 'Success',
+      message: 'Order status updated successfully',
+      data: result.order,
+    });
+  } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return sendTransitionError(res, error, 'Order cannot move to this status');
     }
+    console.error('Update order status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Create notification for consumer about order status change
-    const statusMessages = {
-      confirmed: 'Your order has been confirmed by the merchant',
-      processing: 'Your order is being processed',
-      shipped: 'Your order has been shipped and is on the way',
-      delivered: 'Your order has been delivered successfully',
-      cancelled: 'Your order has been cancelled'
-    };
+// Order status timeline (buyer, seller or admin)
+router.get('/:id/timeline', authenticateToken, async (req, res) => {
+  try {
+    const { id: orderId } = req.params;
+    const user = (req as any).user;
 
-    try {
-      await createNotification({
-        userId: updatedOrder[0].buyerId,
-        userRole: 'CONSUMER',
-        title: `Order ${status.charAt(0).toUpperCase() + status.slice(1)}`,
-        message: statusMessages[status as keyof typeof statusMessages] || `Your order status has been updated to ${status}`,
-        type: 'ORDER_STATUS',
-        relatedId: orderId,
-        priority: status === 'delivered' || status === 'cancelled' ? 'HIGH' : 'MEDIUM',
-        actionUrl: `/orders/${orderId}`,
-      });
-    } catch (notificationError) {
-      console.error('Failed to create order status notification:', notificationError);
-      // Don't fail the order update if notification creation fails
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+
+    if (!order || (user.role !== 'ADMIN' && order.buyerId !== user.userId && order.sellerId !== user.userId)) {
+      return res.status(404).json({ error: 'Order not found' });
     }
 
+    const timeline = await orderLifecycle.getTimeline(orderId);
+
     res.json({
       status: 'Success',
-      message: 'Order status updated successfully',
-      data: updatedOrder[0],
+      message: 'Order timeline fetched successfully',
+      data: {
+        orderId: order.id,
+        status: order.status,
+        nextStatuses: orderLifecycle.nextStatuses(order.status, actorFromUser(user).role),
+        timeline,
+      },
     });
   } catch (error) {
-    console.error('Update order status error:', error);
+    console.error('Get order timeline error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -638,77 +601,68 @@ router.put('/:id/status', authenticateToken, async (req, res) => {
 router.patch('/verify-order', authenticateToken, async (req, res) => {
   try {
     const userId = (req as any).user.userId;
-    const { transactionId, txRef, status: paymentStatus } = req.body;
+    const { transactionId, txRef } = req.body;
 
     if (!transactionId || !txRef) {
       return res.status(400).json({ error: 'Transaction ID and txRef are required' });
     }
 
-    // Find orders related to this transaction
     const userOrders = await db.select()
       .from(orders)
-      .where(eq(orders.buyerId, userId));
+      .where(and(eq(orders.buyerId, userId), eq(orders.paymentTxRef, txRef)));
 
     if (userOrders.length === 0) {
-      return res.status(404).json({ error: 'No orders found for this user' });
+      return res.status(404).json({ error: 'No orders found for this payment' });
     }
 
-    // Update order status based on payment verification
-    let newStatus = 'pending';
-    let message = 'Order verification pending';
+    // Ask the gateway the payment was started with rather than trusting a client-supplied status
+    const gateway = await paymentEventService.providerFor(txRef);
+    if (!gateway) {
+      return res.status(404).json({ error: 'Payment was not started for this reference' });
+    }
+    const verification = await gateway.verify(transactionId);
+    if (verification.txRef !== txRef) {
+      return res.status(400).json({ error: 'Transaction does not belong to this order' });
+    }
 
-    if (paymentStatus === 'successful') {
-      newStatus = 'confirmed';
+    const outcome = await paymentEventService.applyOutcome({
+      txRef,
+      status: verification.status,
+      provider: gateway.name,
+      transactionId: verification.transactionId,
+      amount: verification.amount,
+      currency: verification.currency,
+    });
+
+    let message = 'Order verification pending';
+    if (outcome.action === 'CONFIRMED') {
       message = 'Order verified successfully';
-    } else if (paymentStatus === 'failed') {
-      newStatus = 'cancelled';
+    } else if (outcome.action === 'REFUNDED') {
+      message = 'The items sold out before the payment arrived; the payment has been refunded';
+    } else if (outcome.action === 'FAILED') {
       message = 'Order verification failed';
+    } else if (outcome.action === 'AMOUNT_MISMATCH') {
+      return res.status(400).json({ error: 'Paid amount or currency does not match the order total' });
     }
 
-    // Update the most recent pending order
-    const pendingOrder = userOrders.find(order => order.status === 'pending');
-
-    if (pendingOrder) {
-      const updatedOrder = await db.update(orders)
-        .set({ 
-          status: newStatus as any,
-          updatedAt: new Date()
-        })
-        .where(eq(orders.id, pendingOrder.id))
-        .returning();
-
-      // Generate receipt if payment was successful
-      if (paymentStatus === 'successful') {
-        try {
-          // Call receipt generation API internally
-          const receiptResponse = await axios.post('http://localhost:3000/api/receipts/generate', {
-            orderId: pendingOrder.id,
-            paymentMethod: 'card', // Default, can be updated based on actual payment method
-            transactionRef: txRef,
-          }, {
-            headers: {
-              'Authorization': `Bearer ${(req as any).token}`, // Pass the user's token
-              'Content-Type': 'application/json'
-            }
-          });
-
-          message += `. Receipt generated: ${receiptResponse.data.receipt.receiptNumber}`;
-        } catch (receiptError) {
-          console.error('Receipt generation failed:', receiptError);
-          // Don't fail the order verification if receipt generation fails
-          message += '. Note: Receipt generation pending.';
-        }
-      }
-
-      res.json({
-        status: 'Success',
-        message: message,
-        data: updatedOrder[0],
-      });
-    } else {
-      res.status(404).json({ error: 'No pending order found to verify' });
+    const [order] = await db.select().from(orders).where(eq(orders.id, userOrders[0].id));
+    const [receipt] = await db.select({ receiptNumber: receipts.receiptNumber })
+      .from(receipts)
+      .where(eq(receipts.orderId, order.id))
+      .limit(1);
+    if (receipt) {
+      message += `. Receipt generated: ${receipt.receiptNumber}`;
     }
+
+    res.json({
+      status: 'Success',
+      message: message,
+      data: order,
+    });
   } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return res.status(502).json({ error: error.message });
+    }
     console.error('Verify order error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -718,27 +672,42 @@ router.patch('/verify-order', authenticateToken, async (req, res) => {
 router.post('/confirm-order', authenticateToken, async (req, res) => {
   try {
     const { txRef } = req.body;
-    const sellerId = (req as any).user.userId;
+    const user = (req as any).user;
 
     if (!txRef) {
       return res.status(400).json({ error: 'Transaction reference is required' });
     }
 
-    // Find orders for this vendor
-    const vendorOrders = await db.select()
+    // Paid orders for this vendor under the payment reference
+    const vendorOrders = await db.select({ id: orders.id })
       .from(orders)
-      .where(eq(orders.sellerId, sellerId));
+      .where(and(
+        eq(orders.sellerId, user.userId),
+        eq(orders.paymentTxRef, txRef),
+        eq(orders.status, 'confirmed')
+      ));
 
     if (vendorOrders.length === 0) {
-      return res.status(404).json({ error: 'No orders found for this vendor' });
+      return res.status(404).json({ error: 'No paid orders found for this vendor' });
+    }
+
+    const processing = [];
+    for (const { id } of vendorOrders) {
+      const result = await orderGroupService.transitionOrder(id, 'processing', actorFromUser(user), {
+        reason: 'Accepted by vendor',
+      });
+      processing.push(result.order);
     }
 
     res.json({
       status: 'Success',
       message: 'Order confirmation processed',
-      data: { txRef },
+      data: { txRef, orders: processing },
     });
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return sendTransitionError(res, error, 'Order cannot be confirmed at this stage');
+    }
     console.error('Confirm order error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -803,116 +772,6 @@ router.get('/:id', authenticateToken, async (req, res) => {
   }
 });
 
-// Cancel order (Consumer side)
-router.put('/:id/cancel', authenticateToken, async (req, res) => {
-  try {
-    const { id } = req.params;
-    const buyerId = (req as any).user.userId;
-    const { reason } = req.body;
-
-    // Check if order belongs to the buyer and can be cancelled
-    const existingOrder = await db.select().from(orders).where(and(
-      eq(orders.id, id),
-      eq(orders.buyerId, buyerId)
-    ));
-
-    if (existingOrder.length === 0) {
-      return res.status(404).json({ error: 'Order not found or you do not have permission to cancel it' });
-    }
-
-    const order = existingOrder[0];
-
-    // Only allow cancellation for pending, confirmed, or processing orders
-    if (!order.status || !['pending', 'confirmed', 'processing'].includes(order.status)) {
-      return res.status(400).json({ error: 'Order cannot be cancelled at this stage' });
-    }
-
-    const updatedOrder = await db.update(orders)
-      .set({ 
-        status: 'cancelled',
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, id))
-      .returning();
-
-    res.json({
-      status: 'Success',
-      message: 'Order cancelled successfully',
-      data: updatedOrder[0],
-    });
-  } catch (error) {
-    console.error('Cancel order error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
-// Refund order (Merchant/Admin side)
-router.post('/:id/refund', authenticateToken, async (req, res) => {
-  try {
-    const { id } = req.params;
-    const userId = (req as any).user.userId;
-    const { refundAmount, refundReason } = req.body;
-
-    if (!refundAmount || !refundReason) {
-      return res.status(400).json({ error: 'Refund amount and reason are required' });
-    }
-
-    // Get order details
-    const existingOrder = await db.select({
-      id: orders.id,
-      buyerId: orders.buyerId,
-      sellerId: orders.sellerId,
-      totalPrice: orders.totalPrice,
-      status: orders.status,
-      buyer: {
-        fullName: users.fullName,
-        email: users.email,
-      },
-    })
-      .from(orders)
-      .leftJoin(users, eq(orders.buyerId, users.id))
-      .where(eq(orders.id, id));
-
-    if (existingOrder.length === 0) {
-      return res.status(404).json({ error: 'Order not found' });
-    }
-
-    const order = existingOrder[0];
-
-    // Check if user has permission (seller or admin)
-    const userRole = (req as any).user.role;
-    if (order.sellerId !== userId && userRole !== 'ADMIN') {
-      return res.status(403).json({ error: 'You do not have permission to process this refund' });
-    }
-
-    // Update order status
-    const updatedOrder = await db.update(orders)
-      .set({ 
-        status: 'cancelled',
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, id))
-      .returning();
-
-    // Here you would integrate with payment provider for actual refund
-    // For now, we'll just log the refund request
-    console.log(`Refund processed for order ${id}: ${refundAmount} - ${refundReason}`);
-
-    res.json({
-      status: 'Success',
-      message: 'Refund processed successfully',
-      data: {
-        order: updatedOrder[0],
-        refundAmount,
-        refundReason,
-      },
-    });
-  } catch (error) {
-    console.error('Process refund error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
 // Add order review/rating
 router.post('/:id/review', authenticateToken, async (req, res) => {
   try {
@@ -955,189 +814,6 @@ router.post('/:id/review', authenticateToken, async (req, res) => {
   }
 });
 
-// Update order status (Merchant only)
-router.put('/:id/status', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
-  try {
-    const { id } = req.params;
-    const { status } = req.body;
-    const sellerId = (req as any).user.userId;
-
-    const validStatuses = ['pending', 'confirmed', 'preparing', 'ready', 'delivered', 'cancelled'];
-    if (!status || !validStatuses.includes(status)) {
-      return res.status(400).json({ error: 'Invalid status. Must be one of: ' + validStatuses.join(', ') });
-    }
-
-    // Check if order exists and belongs to the merchant
-    const existingOrder = await db.select().from(orders).where(and(
-      eq(orders.id, id),
-      eq(orders.sellerId, sellerId)
-    ));
-
-    if (existingOrder.length === 0) {
-      return res.status(404).json({ error: 'Order not found or unauthorized' });
-    }
-
-    const updatedOrder = await db.update(orders)
-      .set({ 
-        status: status as any,
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, id))
-      .returning();
-
-    // Notify customer about status update
-    try {
-      await createNotification({
-        userId: existingOrder[0].buyerId,
-        userRole: 'CONSUMER',
-        title: 'Order Status Updated',
-        message: `Your order #${id} status has been updated to ${status}`,
-        type: 'ORDER_UPDATE',
-        relatedId: id.toString(),
-        priority: 'MEDIUM',
-      });
-    } catch (notificationError) {
-      console.error('Failed to send order status notification:', notificationError);
-    }
-
-    res.json({
-      status: 'Success',
-      message: 'Order status updated successfully',
-      data: updatedOrder[0],
-    });
-  } catch (error) {
-    console.error('Update order status error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
-// Cancel order (Consumer only)
-router.put('/:id/cancel', authenticateToken, async (req, res) => {
-  try {
-    const { id } = req.params;
-    const buyerId = (req as any).user.userId;
-
-    // Check if order exists and belongs to the user
-    const existingOrder = await db.select().from(orders).where(and(
-      eq(orders.id, id),
-      eq(orders.buyerId, buyerId)
-    ));
-
-    if (existingOrder.length === 0) {
-      return res.status(404).json({ error: 'Order not found or unauthorized' });
-    }
-
-    // Only allow cancellation if order is still pending or confirmed
-    if (!['pending', 'confirmed'].includes(existingOrder[0].status)) {
-      return res.status(400).json({ error: 'Order cannot be cancelled at this stage' });
-    }
-
-    const cancelledOrder = await db.update(orders)
-      .set({ 
-        status: 'cancelled' as any,
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, id))
-      .returning();
-
-    // Notify merchant about cancellation
-    try {
-      await createNotification({
-        userId: existingOrder[0].sellerId,
-        userRole: 'MERCHANT',
-        title: 'Order Cancelled',
-        message: `Order #${id} has been cancelled by the customer`,
-        type: 'ORDER_CANCELLED',
-        relatedId: id.toString(),
-        priority: 'HIGH',
-      });
-    } catch (notificationError) {
-      console.error('Failed to send order cancellation notification:', notificationError);
-    }
-
-    res.json({
-      status: 'Success',
-      message: 'Order cancelled successfully',
-      data: cancelledOrder[0],
-    });
-  } catch (error) {
-    console.error('Cancel order error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
-// Process order refund (Merchant/Admin only)
-router.post('/:id/refund', authenticateToken, authorizeRoles('MERCHANT', 'ADMIN'), async (req, res) => {
-  try {
-    const { id } = req.params;
-    const { amount, reason } = req.body;
-    const userId = (req as any).user.userId;
-    const userRole = (req as any).user.role;
-
-    if (!amount || !reason) {
-      return res.status(400).json({ error: 'Amount and reason are required' });
-    }
-
-    // Check if order exists
-    const existingOrder = await db.select().from(orders).where(eq(orders.id, id));
-
-    if (existingOrder.length === 0) {
-      return res.status(404).json({ error: 'Order not found' });
-    }
-
-    const order = existingOrder[0];
-
-    // Check authorization (merchant must own the order or be admin)
-    if (userRole !== 'ADMIN' && order.sellerId !== userId) {
-      return res.status(403).json({ error: 'Not authorized to refund this order' });
-    }
-
-    // Create refund transaction
-    const refund = await db.insert(transactions).values({
-      userId: order.buyerId,
-      type: 'REFUND',
-      amount: amount.toString(),
-      status: 'COMPLETED',
-      description: `Refund for order #${id}: ${reason}`,
-      relatedOrderId: parseInt(id),
-      processedBy: userId,
-      createdAt: new Date()
-    }).returning();
-
-    // Update order status to refunded
-    await db.update(orders)
-      .set({ 
-        status: 'refunded' as any,
-        updatedAt: new Date()
-      })
-      .where(eq(orders.id, id));
-
-    // Notify customer about refund
-    try {
-      await createNotification({
-        userId: order.buyerId,
-        userRole: 'CONSUMER',
-        title: 'Refund Processed',
-        message: `Your refund of ₦${amount} for order #${id} has been processed`,
-        type: 'REFUND_PROCESSED',
-        relatedId: id.toString(),
-        priority: 'HIGH',
-      });
-    } catch (notificationError) {
-      console.error('Failed to send refund notification:', notificationError);
-    }
-
-    res.json({
-      status: 'Success',
-      message: 'Refund processed successfully',
-      data: refund[0],
-    });
-  } catch (error) {
-    console.error('Process refund error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
 // Add order review
 router.post('/:id/review', authenticateToken, async (req, res) => {
   try {
@@ -1,198 +1,156 @@
+import crypto from 'crypto';
 import { Router } from 'express';
-import axios from 'axios';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { eq, and, desc, inArray, count } from 'drizzle-orm';
 import db from '../config/database';
-import { users, orders, products, driverProfiles, deliveryRequests, transactions } from '../schema';
+import { users, orders, transactions, merchantProfiles, orderFulfilments } from '../schema';
 import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { requirePermission, requirePermissionForAdmins } from '../utils/admin-middleware';
+import { auditLogger } from '../middleware/auditLogger';
 import { createNotification } from './notifications';
 import { fraudDetectionMiddleware, logPaymentMismatch } from '../utils/fraud-middleware';
+import { ledgerService, LedgerError } from '../services/ledger';
+import { paymentGateway, PaymentProviderError, UnknownPaymentProviderError } from '../services/payments';
+import { paymentEventService } from '../services/paymentEvents';
+import { payoutService, PayoutError } from '../services/payouts';
+import { orderLifecycle, OrderTransitionError, actorFromUser } from '../services/orderLifecycle';
+import { BASE_URL, APP_URL } from '../config/environment';
 
 
 const router = Router();
 
-// Environment variables for Flutterwave
-const FLUTTERWAVE_BASE_URL = process.env.FLW_BASE_URL || 'https://api.flutterwave.com/v3';
-const FLUTTERWAVE_SECRET_KEY = process.env.FLW_SECRET_KEY;
-
 // Initialize payment
 router.post('/initialize', authenticateToken, async (req: any, res) => {
   try {
-    const { amount, currency = 'NGN', customerEmail } = req.body;
+    const { amount, currency = 'NGN', customerEmail, country } = req.body;
     const userId = req.user?.userId;
 
-    if (!amount || !customerEmail) {
+    if (!customerEmail || (!amount && !req.body.txRef)) {
       return res.status(400).json({ error: 'Amount and customer email are required' });
     }
 
-    const txRef = `payment-${userId}-${Date.now()}`;
-
-    const response = await axios.post(
-      `${FLUTTERWAVE_BASE_URL}/payments`,
-      {
-        tx_ref: txRef,
-        amount,
-        currency,
-        redirect_url: `${process.env.BASE_URL || 'http://localhost:5000'}/api/payment/callback`,
-        customer: {
-          email: customerEmail,
-        },
-        customizations: {
-          title: 'Brillprime',
-          description: 'Order Payment',
-        },
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${FLUTTERWAVE_SECRET_KEY}`,
-          'Content-Type': 'application/json',
-        },
+    // Paying for a checkout uses its payment reference and charges the orders' total
+    let txRef = `payment-${userId}-${Date.now()}`;
+    let chargeAmount = parseFloat(amount);
+    if (req.body.txRef) {
+      txRef = String(req.body.txRef);
+      const awaiting = await db.select({ totalPrice: orders.totalPrice })
+        .from(orders)
+        .where(and(eq(orders.buyerId, userId), eq(orders.paymentTxRef, txRef), inArray(orders.status, ['pending', 'failed'])));
+      if (awaiting.length === 0) {
+        return res.status(404).json({ error: 'No orders awaiting payment under this reference' });
       }
-    );
+      chargeAmount = awaiting.reduce((sum, order) => sum + parseFloat(order.totalPrice), 0);
+      if (amount && Math.abs(parseFloat(amount) - chargeAmount) > 0.01) {
+        return res.status(400).json({ error: 'Amount does not match the orders total', expected: chargeAmount.toFixed(2) });
+      }
+    }
+
+    const payment = await paymentGateway.execute(country, provider => provider.initialize({
+      txRef,
+      amount: chargeAmount,
+      currency,
+      customerEmail,
+      redirectUrl: `${BASE_URL}/api/payment/callback`,
+    }));
+
+    // The callback, verification and webhooks are only trusted from the provider that took the payment
+    await paymentEventService.recordIntent({ txRef, userId, provider: payment.provider, amount: chargeAmount, currency });
 
     res.json({
       status: 'Success',
       message: 'Payment initialized successfully',
       data: {
-        paymentLink: response.data.data.link,
+        paymentLink: payment.paymentLink,
         txRef: txRef,
+        provider: payment.provider,
       },
     });
   } catch (error) {
     console.error('Payment initialization error:', error);
-    res.status(500).json({ error: 'Payment initialization failed' });
+    res.status(error instanceof PaymentProviderError ? 502 : 500).json({ error: 'Payment initialization failed' });
   }
 });
 
 // Payment callback endpoint
 router.get('/callback', async (req, res) => {
   try {
-    const { transaction_id, tx_ref, status } = req.query;
+    // Flutterwave sends transaction_id and tx_ref, Paystack sends reference
+    const { transaction_id, tx_ref, reference } = req.query;
+    const txRef = (tx_ref || reference) as string;
+    const verifyId = (transaction_id || reference) as string;
 
-    if (!transaction_id) {
+    if (!verifyId || !txRef) {
       return res.status(400).json({ error: 'Transaction ID is required' });
     }
 
-    const paymentData = await verifyPayment(transaction_id as string);
+    const provider = await paymentEventService.providerFor(txRef);
+    if (!provider) {
+      return res.redirect(`${APP_URL}/payment/failure?tx_ref=${encodeURIComponent(txRef)}`);
+    }
+
+    const payment = await provider.verify(verifyId);
+    if (payment.txRef !== txRef) {
+      return res.redirect(`${APP_URL}/payment/failure?tx_ref=${encodeURIComponent(txRef)}`);
+    }
 
-    if (paymentData === 'successful') {
-      // Update order status and notify user
-      const order = await db.select().from(orders).where(eq(orders.paymentTxRef, tx_ref as string));
-      if (order.length > 0) {
-        await db.update(orders)
-          .set({ status: 'confirmed', updatedAt: new Date() })
-          .where(eq(orders.id, order[0].id));
-
-        // Notify consumer about order confirmation
-        await createNotification({
-          userId: order[0].buyerId,
-          userRole: 'CONSUMER',
-          title: 'Order Confirmed',
-          message: `Your order ${order[0].id} has been confirmed and is being processed.`,
-          type: 'ORDER_UPDATE',
-          relatedId: order[0].id
-        });
+    // Record the verified result as an event so a refreshed callback, or a webhook for the same
+    // charge, does not confirm the orders or notify anyone a second time
+    await paymentEventService.ingest({
+      provider: payment.provider,
+      eventId: `callback:${payment.transactionId}:${payment.status}`,
+      eventType: 'callback.verified',
+      status: payment.status,
+      txRef,
+      transactionId: payment.transactionId,
+      amount: payment.amount,
+      currency: payment.currency,
+    }, { query: req.query, verification: payment }, 'CALLBACK');
 
-        // Notify merchant about new order
-        await createNotification({
-          userId: order[0].sellerId,
-          userRole: 'MERCHANT',
-          title: 'New Order',
-          message: `You have a new order ${order[0].id} to fulfill.`,
-          type: 'NEW_ORDER',
-          relatedId: order[0].id
-        });
-      }
+    if (payment.status === 'successful') {
       // Redirect to success page
-      return res.redirect(`${process.env.APP_URL || 'http://localhost:3000'}/payment/success?tx_ref=${tx_ref}`);
+      return res.redirect(`${APP_URL}/payment/success?tx_ref=${txRef}`);
     } else {
-      // Update order status to failed/cancelled and notify user
-      const order = await db.select().from(orders).where(eq(orders.paymentTxRef, tx_ref as string));
-      if (order.length > 0) {
-        await db.update(orders)
-          .set({ status: 'failed', updatedAt: new Date() })
-          .where(eq(orders.id, order[0].id));
-
-        // Notify consumer about payment failure
-        await createNotification({
-          userId: order[0].buyerId,
-          userRole: 'CONSUMER',
-          title: 'Payment Failed',
-          message: `There was an issue processing your payment for order ${order[0].id}. Please try again.`,
-          type: 'PAYMENT_FAILED',
-          relatedId: order[0].id
-        });
-      }
       // Redirect to failure page
-      return res.redirect(`${process.env.APP_URL || 'http://localhost:3000'}/payment/failure?tx_ref=${tx_ref}`);
+      return res.redirect(`${APP_URL}/payment/failure?tx_ref=${txRef}`);
     }
   } catch (error) {
     console.error('Payment callback error:', error);
-    return res.redirect(`${process.env.APP_URL || 'http://localhost:3000'}/payment/failure`);
+    return res.redirect(`${APP_URL}/payment/failure`);
   }
 });
 
-// Webhook endpoint for Flutterwave notifications
-router.post('/webhook', async (req, res) => {
+// Webhook endpoint for gateway notifications (Flutterwave when no provider is given)
+router.post('/webhook/:provider?', async (req: any, res) => {
   try {
-    const { data } = req.body;
-    const { tx_ref, status, transaction_id } = data;
+    const provider = paymentGateway.getProvider(req.params.provider || 'flutterwave');
+    const rawBody: string = req.rawBody ?? JSON.stringify(req.body);
 
-    console.log('Webhook received:', { tx_ref, status, transaction_id });
+    // Unsigned payloads are not stored: a forged event id would otherwise shadow the real delivery
+    if (!provider.verifyWebhookSignature(rawBody, req.headers)) {
+      console.warn(`Rejected ${provider.name} webhook with an invalid signature`);
+      return res.status(401).json({ error: 'Invalid webhook signature' });
+    }
 
-    // Verify webhook signature if needed
-    // const signature = req.headers['verif-hash'];
+    // Parse the bytes that were signed rather than the sanitised body
+    const payload = JSON.parse(rawBody);
+    const event = provider.parseWebhook(payload);
 
-    if (status === 'successful') {
-      // Update order status or handle successful payment
-      console.log(`Payment successful for tx_ref: ${tx_ref}`);
-      const order = await db.select().from(orders).where(eq(orders.paymentTxRef, tx_ref));
-      if (order.length > 0) {
-        await db.update(orders)
-          .set({ status: 'confirmed', updatedAt: new Date() })
-          .where(eq(orders.id, order[0].id));
-
-        // Notify consumer about order confirmation
-        await createNotification({
-          userId: order[0].buyerId,
-          userRole: 'CONSUMER',
-          title: 'Order Confirmed',
-          message: `Your order ${order[0].id} has been confirmed and is being processed.`,
-          type: 'ORDER_UPDATE',
-          relatedId: order[0].id
-        });
+    if (!event) {
+      return res.status(400).json({ error: 'Unrecognised webhook payload' });
+    }
 
-        // Notify merchant about new order
-        await createNotification({
-          userId: order[0].sellerId,
-          userRole: 'MERCHANT',
-          title: 'New Order',
-          message: `You have a new order ${order[0].id} to fulfill.`,
-          type: 'NEW_ORDER',
-          relatedId: order[0].id
-        });
-      }
-    } else if (status === 'failed') {
-      console.log(`Payment failed for tx_ref: ${tx_ref}`);
-      const order = await db.select().from(orders).where(eq(orders.paymentTxRef, tx_ref));
-      if (order.length > 0) {
-        await db.update(orders)
-          .set({ status: 'failed', updatedAt: new Date() })
-          .where(eq(orders.id, order[0].id));
-
-        // Notify consumer about payment failure
-        await createNotification({
-          userId: order[0].buyerId,
-          userRole: 'CONSUMER',
-          title: 'Payment Failed',
-          message: `There was an issue processing your payment for order ${order[0].id}. Please try again.`,
-          type: 'PAYMENT_FAILED',
-          relatedId: order[0].id
-        });
-      }
+    const { event: stored, duplicate } = await paymentEventService.ingest(event, payload, 'WEBHOOK');
+
+    // A non-2xx response makes the gateway redeliver, which retries the failed event
+    if (!duplicate && stored.processingStatus === 'FAILED') {
+      return res.status(500).json({ error: 'Webhook processing failed', eventId: stored.id });
     }
 
-    res.status(200).json({ status: 'success' });
+    res.status(200).json({ status: 'success', duplicate });
   } catch (error) {
+    if (error instanceof UnknownPaymentProviderError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Webhook error:', error);
     res.status(500).json({ error: 'Webhook processing failed' });
   }
@@ -212,77 +170,67 @@ router.post('/verify', authenticateToken, async (req: any, res) => {
       return res.status(401).json({ error: 'User authentication required' });
     }
 
-    const paymentStatus = await verifyPayment(transactionId);
-
-    // Find and update related orders
-    const userOrders = await db.select()
+    // Only orders the caller placed under this payment reference can be confirmed by it
+    const paymentOrders = await db.select()
       .from(orders)
-      .where(eq(orders.buyerId, userId));
+      .where(and(eq(orders.buyerId, userId), eq(orders.paymentTxRef, txRef)));
 
-    let message = 'Payment verification pending';
-    let newStatus = 'pending';
+    if (paymentOrders.length === 0) {
+      return res.status(404).json({ error: 'No orders found for this payment' });
+    }
+
+    const provider = await paymentEventService.providerFor(txRef);
+    if (!provider) {
+      return res.status(404).json({ error: 'Payment was not started for this reference' });
+    }
 
-    if (paymentStatus === 'successful') {
-      newStatus = 'confirmed';
+    const payment = await provider.verify(transactionId);
+    if (payment.txRef !== txRef) {
+      return res.status(400).json({ error: 'Transaction does not belong to this payment' });
+    }
+
+    // Same path as callbacks and webhooks: the amount is checked against the orders' total and
+    // orders that were already confirmed are left alone
+    const outcome = await paymentEventService.applyOutcome({
+      txRef,
+      status: payment.status,
+      provider: payment.provider,
+      transactionId: payment.transactionId,
+      amount: payment.amount,
+      currency: payment.currency,
+    });
+
+    if (outcome.action === 'AMOUNT_MISMATCH') {
+      return res.status(400).json({ error: 'Paid amount or currency does not match the order total' });
+    }
+
+    let message = 'Payment verification pending';
+    if (outcome.action === 'REFUNDED') {
+      message = 'The items sold out before the payment arrived; the payment has been refunded';
+    } else if (payment.status === 'successful') {
       message = 'Payment verified successfully';
-    } else if (paymentStatus === 'failed') {
-      newStatus = 'cancelled';
+    } else if (payment.status === 'failed') {
       message = 'Payment verification failed';
     }
 
-    // Update the most recent pending order
-    const pendingOrder = userOrders.find(order => order.status === 'pending');
-
-    if (pendingOrder) {
-      const updatedOrder = await db.update(orders)
-        .set({ 
-          status: newStatus as any,
-          updatedAt: new Date()
-        })
-        .where(eq(orders.id, pendingOrder.id))
-        .returning();
-
-        // Notify about order status update
-        if (newStatus === 'confirmed') {
-            await createNotification({
-              userId: updatedOrder[0].buyerId,
-              userRole: 'CONSUMER',
-              title: 'Order Status Update',
-              message: `Your order ${updatedOrder[0].id} has been confirmed.`,
-              type: 'ORDER_UPDATE',
-              relatedId: updatedOrder[0].id
-            });
-            await createNotification({
-              userId: updatedOrder[0].sellerId,
-              userRole: 'MERCHANT',
-              title: 'New Order Confirmation',
-              message: `Order ${updatedOrder[0].id} has been confirmed.`,
-              type: 'ORDER_UPDATE',
-              relatedId: updatedOrder[0].id
-            });
-        } else if (newStatus === 'cancelled') {
-            await createNotification({
-              userId: updatedOrder[0].buyerId,
-              userRole: 'CONSUMER',
-              title: 'Order Status Update',
-              message: `Your order ${updatedOrder[0].id} has been cancelled due to payment failure.`,
-              type: 'ORDER_CANCELLED',
-              relatedId: updatedOrder[0].id
-            });
-        }
+    const updatedOrders = await db.select()
+      .from(orders)
+      .where(inArray(orders.id, paymentOrders.map(order => order.id)))
+      .orderBy(desc(orders.createdAt));
 
-      res.json({
-        status: 'Success',
-        message: message,
-        data: {
-          order: updatedOrder[0],
-          paymentStatus: paymentStatus,
-        },
-      });
-    } else {
-      res.status(404).json({ error: 'No pending order found to verify' });
-    }
+    res.json({
+      status: 'Success',
+      message: message,
+      data: {
+        order: updatedOrders[0],
+        orders: updatedOrders,
+        paymentStatus: payment.status,
+      },
+    });
   } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return res.status(502).json({ error: error.message });
+    }
     console.error('Payment verification error:', error);
     res.status(500).json({ error: 'Payment verification failed' });
   }
@@ -291,16 +239,13 @@ router.post('/verify', authenticateToken, async (req: any, res) => {
 // Process payment for order
 router.post('/process', authenticateToken, fraudDetectionMiddleware('PAYMENT'), async (req: any, res) => {
   try {
-    const { orderId, amount, paymentMethod } = req.body;
+    const { orderId, amount, paymentMethod, transactionId, customerEmail, country } = req.body;
     const userId = req.user?.userId;
 
     if (!orderId || !amount || !paymentMethod) {
       return res.status(400).json({ error: 'Order ID, amount, and payment method are required' });
     }
 
-    // Generate transaction reference for this payment
-    const txRef = `process-${userId}-${Date.now()}`;
-
     // Fetch order details
     const order = await db.select().from(orders).where(eq(orders.id, orderId));
 
@@ -312,29 +257,25 @@ router.post('/process', authenticateToken, fraudDetectionMiddleware('PAYMENT'),
       return res.status(403).json({ error: 'You are not authorized to process this order' });
     }
 
-    // TODO: Integrate with actual payment gateway (Stripe, Paystack, etc.)
-    // For now, we'll simulate payment processing
-    const paymentSuccessful = Math.random() > 0.1; // 90% success rate for demo
-
-    if (!paymentSuccessful) {
-      return res.status(400).json({ 
-        error: 'Payment failed',
-        transactionRef: `failed_${Date.now()}`,
-      });
+    if (!['pending', 'failed'].includes(order[0].status || '')) {
+      return res.status(409).json({ error: 'Order is not awaiting payment', orderStatus: order[0].status });
     }
 
+    // A checkout's orders share its payment reference and are paid together, so the charge
+    // keeps that reference and covers every order still awaiting payment under it
+    const txRef = order[0].paymentTxRef || `process-${userId}-${crypto.randomUUID()}`;
+    const awaiting = order[0].paymentTxRef
+      ? await db.select({ totalPrice: orders.totalPrice })
+        .from(orders)
+        .where(and(eq(orders.buyerId, userId), eq(orders.paymentTxRef, txRef), inArray(orders.status, ['pending', 'failed'])))
+      : [order[0]];
+
     // Check for payment amount mismatch (fraud detection)
-    const expectedAmount = parseFloat(order[0].totalPrice);
+    const expectedAmount = awaiting.reduce((sum, awaitingOrder) => sum + parseFloat(awaitingOrder.totalPrice), 0);
     const actualAmount = parseFloat(amount);
 
     if (Math.abs(expectedAmount - actualAmount) > 0.01) {
-      await logPaymentMismatch(
-        userId, 
-        expectedAmount, 
-        actualAmount, 
-        paymentMethod,
-        txRef // Assuming txRef is available here, otherwise pass it in req.body
-      );
+      await logPaymentMismatch(userId, expectedAmount, actualAmount, paymentMethod, txRef);
 
       return res.status(400).json({ 
         error: 'Payment amount mismatch detected',
@@ -343,66 +284,112 @@ router.post('/process', authenticateToken, fraudDetectionMiddleware('PAYMENT'),
       });
     }
 
-    // If payment is successful and amount matches, update order status
-    await db.update(orders)
-      .set({ status: 'confirmed', updatedAt: new Date() })
-      .where(eq(orders.id, orderId));
+    if (!transactionId) {
+      // No completed charge yet: start one with the gateway and let the callback or webhook confirm the order
+      const buyer = await db.select({ email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+      const checkout = await paymentGateway.execute(country, gatewayProvider => gatewayProvider.initialize({
+        txRef,
+        amount: expectedAmount,
+        currency: 'NGN',
+        customerEmail: customerEmail || buyer[0]?.email,
+        redirectUrl: `${BASE_URL}/api/payment/callback`,
+        metadata: { orderId },
+      }));
+      await paymentEventService.recordIntent({ txRef, userId, provider: checkout.provider, amount: expectedAmount });
+
+      if (!order[0].paymentTxRef) {
+        await db.update(orders)
+          .set({ paymentTxRef: txRef, updatedAt: new Date() })
+          .where(eq(orders.id, orderId));
+      }
 
-    // Notify buyer and seller
-    await createNotification({
-      userId: userId,
-      userRole: 'CONSUMER',
-      title: 'Payment Successful',
-      message: `Your payment for order ${orderId} was successful.`,
-      type: 'PAYMENT_SUCCESS',
-      relatedId: orderId
-    });
-    await createNotification({
-      userId: order[0].sellerId,
-      userRole: 'MERCHANT',
-      title: 'Order Payment Received',
-      message: `Payment for order ${orderId} has been received.`,
-      type: 'PAYMENT_RECEIVED',
-      relatedId: orderId
+      return res.status(202).json({
+        status: 'Success',
+        message: 'Payment initiated',
+        data: {
+          orderId,
+          transactionRef: txRef,
+          paymentLink: checkout.paymentLink,
+          provider: checkout.provider,
+          paymentStatus: 'pending',
+        },
+      });
+    }
+
+    // The client completed the charge: confirm it with the gateway that was asked to take it
+    // rather than trusting the request
+    const provider = order[0].paymentTxRef ? await paymentEventService.providerFor(txRef) : null;
+    if (!provider) {
+      return res.status(400).json({ error: 'Payment was not started for this order' });
+    }
+
+    const payment = await provider.verify(transactionId);
+    if (payment.txRef !== txRef) {
+      return res.status(400).json({ error: 'Transaction does not belong to this order' });
+    }
+
+    // Same path as callbacks and webhooks: the paid amount is checked against every order under
+    // the reference, the group is confirmed together and a retried request notifies no one twice
+    const outcome = await paymentEventService.applyOutcome({
+      txRef,
+      status: payment.status,
+      provider: payment.provider,
+      transactionId: payment.transactionId,
+      amount: payment.amount,
+      currency: payment.currency,
     });
 
+    if (payment.status !== 'successful') {
+      return res.status(400).json({ 
+        error: 'Payment failed',
+        transactionRef: txRef,
+      });
+    }
+
+    if (outcome.action === 'AMOUNT_MISMATCH') {
+      await logPaymentMismatch(userId, expectedAmount, payment.amount ?? 0, paymentMethod, txRef);
+
+      return res.status(400).json({ 
+        error: 'Payment amount mismatch detected',
+        expected: expectedAmount,
+        received: payment.amount ?? null,
+      });
+    }
+
+    if (outcome.action === 'REFUNDED') {
+      return res.status(409).json({
+        error: 'The items sold out before the payment arrived; the payment has been refunded',
+        transactionRef: txRef,
+      });
+    }
+
     res.json({
       status: 'Success',
       message: 'Payment processed successfully',
       data: {
         orderId,
-        transactionRef: `txn_${Date.now()}_${orderId}`, // Simulate transaction reference
+        transactionRef: txRef,
         paymentStatus: 'confirmed',
       },
     });
   } catch (error) {
     console.error('Process payment error:', error);
-    res.status(500).json({ error: 'Payment processing failed' });
+    res.status(error instanceof PaymentProviderError ? 502 : 500).json({ error: 'Payment processing failed' });
   }
 });
 
 // Get list of banks
 router.get('/banks', authenticateToken, async (req, res) => {
   try {
-    const { search } = req.query;
-
-    const response = await axios.get('https://api.flutterwave.com/v3/banks/NG', {
-      headers: {
-        Authorization: `Bearer ${FLUTTERWAVE_SECRET_KEY}`,
-      },
-    });
+    const { search, country = 'NG' } = req.query;
 
-    if (response.data.status !== 'success') {
-      return res.status(400).json({ error: 'Failed to fetch bank list' });
-    }
-
-    let banks = response.data.data;
+    let banks = await paymentGateway.execute(country as string, provider => provider.listBanks(country as string));
 
     // Apply search filter if provided
     if (search) {
       const lowerSearch = (search as string).toLowerCase();
       banks = banks.filter(
-        (bank: any) => 
+        bank => 
           bank.name.toLowerCase().includes(lowerSearch) || 
           bank.code.includes(search as string)
       );
@@ -414,6 +401,9 @@ router.get('/banks', authenticateToken, async (req, res) => {
       data: banks,
     });
   } catch (error) {
+    if (error instanceof PaymentProviderError && !error.retryable) {
+      return res.status(400).json({ error: 'Failed to fetch bank list' });
+    }
     console.error('Get banks error:', error);
     res.status(500).json({ error: 'Failed to fetch banks' });
   }
@@ -422,43 +412,30 @@ router.get('/banks', authenticateToken, async (req, res) => {
 // Verify bank account
 router.post('/verify-account', authenticateToken, async (req, res) => {
   try {
-    const { accountNumber, bankCode } = req.body;
+    const { accountNumber, bankCode, country } = req.body;
 
     if (!accountNumber || !bankCode) {
       return res.status(400).json({ error: 'Account number and bank code are required' });
     }
 
-    const response = await axios.post(
-      'https://api.flutterwave.com/v3/accounts/resolve',
-      {
-        account_number: accountNumber,
-        account_bank: bankCode,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${FLUTTERWAVE_SECRET_KEY}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    if (response.data.status !== 'success') {
-      return res.status(400).json({ error: 'Failed to verify account' });
-    }
+    const account = await paymentGateway.execute(country, provider => provider.resolveAccount(accountNumber, bankCode));
 
     res.json({
       status: 'Success',
       message: 'Account verified successfully',
-      data: response.data.data,
+      data: account,
     });
   } catch (error) {
+    if (error instanceof PaymentProviderError && !error.retryable) {
+      return res.status(400).json({ error: 'Failed to verify account' });
+    }
     console.error('Account verification error:', error);
     res.status(500).json({ error: 'Account verification failed' });
   }
 });
 
-// Settle vendor payment (transfer funds)
-router.post('/settle/:orderId', authenticateToken, async (req, res) => {
+// Settle vendor payment (transfer funds). Escrow is only released once the order is delivered.
+router.post('/settle/:orderId', authenticateToken, requirePermission('finance.manage'), async (req, res) => {
   try {
     const { orderId } = req.params;
 
@@ -468,6 +445,7 @@ router.post('/settle/:orderId', authenticateToken, async (req, res) => {
       sellerId: orders.sellerId,
       totalPrice: orders.totalPrice,
       status: orders.status,
+      fulfilmentId: orders.fulfilmentId,
       seller: {
         id: users.id,
         fullName: users.fullName,
@@ -484,46 +462,56 @@ router.post('/settle/:orderId', authenticateToken, async (req, res) => {
 
     const order = orderData[0];
 
-    if (order.status !== 'confirmed') {
-      return res.status(400).json({ error: 'Order has not been paid' });
-    }
+    if (order.status !== 'delivered') {
+      return res.status(400).json({ error: 'Only delivered orders can be settled', currentStatus: order.status });
+    }
+
+    // Use the commission rate locked in at checkout, falling back to the merchant's current rate
+    const commissionSource = order.fulfilmentId
+      ? await db.select({ commissionRate: orderFulfilments.commissionRate })
+        .from(orderFulfilments)
+        .where(eq(orderFulfilments.id, order.fulfilmentId))
+        .limit(1)
+      : await db.select({ commissionRate: merchantProfiles.commissionRate })
+        .from(merchantProfiles)
+        .where(eq(merchantProfiles.userId, order.sellerId))
+        .limit(1);
+
+    // Escrow is released to the merchant wallet and the commission booked in one ledger entry
+    const settlement = await ledgerService.settleOrder({
+      orderId: order.id,
+      sellerId: order.sellerId,
+      commissionRate: commissionSource[0]?.commissionRate ?? '5.00',
+      settledBy: (req as any).user?.userId,
+    });
 
-    // Note: You'll need to add account details to your users schema
-    // For now, this is a placeholder for the settlement logic
+    await auditLogger.logAction(req, {
+      action: 'order.settle',
+      resource: 'orders',
+      resourceId: order.id,
+      metadata: { transactionId: settlement.transaction?.id, journalEntryId: settlement.entry?.id },
+    });
 
     res.json({
       status: 'Success',
-      message: 'Settlement initiated (implementation pending account details)',
-      data: { orderId: order.id },
+      message: 'Settlement completed',
+      data: {
+        orderId: order.id,
+        transaction: settlement.transaction,
+        journalEntryId: settlement.entry?.id,
+      },
     });
   } catch (error) {
+    if (error instanceof LedgerError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Settlement error:', error);
     res.status(500).json({ error: 'Settlement failed' });
   }
 });
 
-// Helper function to verify payment with Flutterwave
-async function verifyPayment(transactionId: string): Promise<string> {
-  try {
-    const response = await axios.get(
-      `${FLUTTERWAVE_BASE_URL}/transactions/${transactionId}/verify`,
-      {
-        headers: {
-          Authorization: `Bearer ${FLUTTERWAVE_SECRET_KEY}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    return response.data.data.status;
-  } catch (error) {
-    console.error('Payment verification error:', error);
-    throw new Error('Failed to verify payment');
-  }
-}
-
 // Process refund
-router.post('/refund/:id', authenticateToken, async (req: any, res) => {
+router.post('/refund/:id', authenticateToken, requirePermissionForAdmins('finance.manage'), async (req: any, res) => {
   try {
     const { id } = req.params; // This could be order ID or transaction ID
     const { amount, reason, refundType = 'full' } = req.body;
@@ -548,69 +536,46 @@ router.post('/refund/:id', authenticateToken, async (req: any, res) => {
       return res.status(403).json({ error: 'You do not have permission to process this refund' });
     }
 
-    const refundAmount = amount || parseFloat(order.totalPrice);
-
-    // In production, integrate with Flutterwave refund API
     try {
-      // Example Flutterwave refund call
-      /*
-      const refundResponse = await axios.post(
-        `${FLUTTERWAVE_BASE_URL}/transactions/${transactionId}/refund`,
-        {
-          amount: refundAmount,
-          comment: reason,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${FLUTTERWAVE_SECRET_KEY}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      */
-
-      // Update order status
-      await db.update(orders)
-        .set({ 
-          status: 'cancelled',
-          updatedAt: new Date()
-        })
-        .where(eq(orders.id, id));
+      // The lifecycle caps the refund at what is left of the payment, posts it to the ledger and
+      // queues the gateway refund once that has committed. Only the refund that returns the last
+      // of the payment marks the order refunded.
+      const result = await orderLifecycle.refund(id, amount !== undefined ? Number(amount) : undefined, actorFromUser(req.user), {
+        reason,
+        metadata: { refundType },
+      });
+      const refund = result.refund;
 
       const refundData = {
         orderId: id,
-        refundAmount,
+        refundAmount: refund?.amount,
+        totalRefunded: result.order.refundAmount,
+        orderStatus: result.order.status,
         refundType,
         reason,
-        status: 'PROCESSING',
-        referenceId: `REF-${Date.now()}-${id}`,
+        status: result.order.refundStatus || 'PENDING',
+        referenceId: refund?.transaction.transactionRef,
         processedAt: new Date(),
       };
 
-      // Notify relevant parties about the refund
-      await createNotification({
-        userId: order.buyerId,
-        userRole: 'CONSUMER',
-        title: 'Refund Processed',
-        message: `Your refund for order ${id} has been initiated.`,
-        type: 'REFUND_PROCESSED',
-        relatedId: id
-      });
-      await createNotification({
-        userId: order.sellerId,
-        userRole: 'MERCHANT',
-        title: 'Refund Issued',
-        message: `A refund has been issued for order ${id}.`,
-        type: 'REFUND_ISSUED',
-        relatedId: id
-      });
-
       res.json({
         status: 'Success',
         message: 'Refund processed successfully',
         data: refundData,
       });
     } catch (refundError) {
+      if (refundError instanceof OrderTransitionError) {
+        return res.status(refundError.code === 'FORBIDDEN' ? 403 : 400).json({
+          error: refundError.message,
+          currentStatus: refundError.currentStatus,
+        });
+      }
+      if (refundError instanceof LedgerError) {
+        return res.status(400).json({ error: refundError.message });
+      }
+      if (refundError instanceof PaymentProviderError) {
+        return res.status(502).json({ error: refundError.message });
+      }
       console.error('Refund processing error:', refundError);
       res.status(500).json({ error: 'Failed to process refund' });
     }
@@ -653,9 +618,22 @@ router.post('/dispute/:id', authenticateToken, async (req, res) => {
       return res.status(403).json({ error: 'You are not authorized to dispute this payment' });
     }
 
-    // Create dispute record (in production, store in disputes table)
+    // Kept as a DISPUTE transaction so finance reports count it; no money moves until it is resolved
+    const disputeId = `DISPUTE-${crypto.randomUUID()}`;
+    await ledgerService.record({
+      userId,
+      recipientId: userId === order.buyerId ? order.sellerId : order.buyerId,
+      type: 'DISPUTE',
+      amount: order.totalPrice,
+      netAmount: order.totalPrice,
+      transactionRef: disputeId,
+      description: `Dispute for order ${id}: ${disputeReason}`,
+      status: 'PENDING',
+      metadata: { orderId: id, disputeReason, description, evidence: evidence || [] },
+    });
+
     const disputeData = {
-      disputeId: `DISPUTE-${Date.now()}-${id}`,
+      disputeId,
       orderId: id,
       initiatedBy: userId,
       disputeReason,
@@ -700,11 +678,11 @@ router.post('/payout', authenticateToken, authorizeRoles('MERCHANT', 'DRIVER'),
   try {
     const userId = req.user?.userId;
     const userRole = req.user?.role;
-    const { amount, bankAccount, accountNumber, bankCode, notes } = req.body;
+    const { amount, bankAccountId, notes } = req.body;
 
-    if (!amount || !bankAccount || !accountNumber || !bankCode) {
+    if (!amount || !bankAccountId) {
       return res.status(400).json({ 
-        error: 'Amount and bank details are required' 
+        error: 'Amount and bank account are required' 
       });
     }
 
@@ -713,33 +691,8 @@ router.post('/payout', authenticateToken, authorizeRoles('MERCHANT', 'DRIVER'),
       return res.status(403).json({ error: 'Only merchants and drivers can request payouts' });
     }
 
-    let availableBalance = 0;
-
-    if (userRole === 'MERCHANT') {
-      // Calculate merchant available balance from completed orders
-      const merchantEarnings = await db.select({
-        totalEarnings: sql<string>`sum(${orders.totalPrice})`,
-      })
-        .from(orders)
-        .where(and(
-          eq(orders.sellerId, userId),
-          eq(orders.status, 'delivered')
-        ));
-
-      availableBalance = parseFloat(merchantEarnings[0]?.totalEarnings || '0');
-    } else if (userRole === 'DRIVER') {
-      // Calculate driver available balance from completed deliveries
-      const driverEarnings = await db.select({
-        totalEarnings: sql<string>`sum(${deliveryRequests.deliveryFee})`,
-      })
-        .from(deliveryRequests)
-        .where(and(
-          eq(deliveryRequests.driverId, userId),
-          eq(deliveryRequests.status, 'DELIVERED')
-        ));
-
-      availableBalance = parseFloat(driverEarnings[0]?.totalEarnings || '0');
-    }
+    // Earnings are credited to the wallet at settlement, so the ledger balance is what can be paid out
+    const availableBalance = parseFloat(await ledgerService.getWalletBalance(userId));
 
     if (amount > availableBalance) {
       return res.status(400).json({ 
@@ -747,15 +700,25 @@ router.post('/payout', authenticateToken, authorizeRoles('MERCHANT', 'DRIVER'),
       });
     }
 
+    // Paid only to an account the user saved and the gateway verified
+    const { transaction, bankAccount } = await payoutService.requestWithdrawal({
+      userId,
+      amount,
+      bankAccountId: String(bankAccountId),
+      type: 'PAYOUT_REQUEST',
+      notes,
+    });
+
     // Create payout request
     const payoutRequest = {
-      payoutId: `PAYOUT-${Date.now()}-${userId}`,
+      payoutId: transaction.transactionRef,
       userId,
       userRole,
       amount,
-      bankAccount,
-      accountNumber,
-      bankCode,
+      bankAccountId: bankAccount.id,
+      bankAccount: bankAccount.accountName,
+      accountNumber: `******${bankAccount.accountNumber.slice(-4)}`,
+      bankCode: bankAccount.bankCode,
       notes: notes || '',
       status: 'PENDING',
       requestedAt: new Date(),
@@ -767,9 +730,9 @@ router.post('/payout', authenticateToken, authorizeRoles('MERCHANT', 'DRIVER'),
       userId: userId,
       userRole: 'MERCHANT',
       title: 'Payout Request Submitted',
-      message: `Your payout request of ${amount} has been submitted and is pending approval.`,
+      message: `Your payout request of ${amount} has been submitted and is being sent to your bank.`,
       type: 'PAYOUT_REQUEST',
-      relatedId: payoutRequest.payoutId
+      relatedId: payoutRequest.payoutId || undefined
     });
 
     res.json({
@@ -778,6 +741,12 @@ router.post('/payout', authenticateToken, authorizeRoles('MERCHANT', 'DRIVER'),
       data: payoutRequest,
     });
   } catch (error) {
+    if (error instanceof PayoutError) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof LedgerError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Request payout error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -794,39 +763,43 @@ router.get('/payout/history', authenticateToken, async (req: any, res) => {
       return res.status(403).json({ error: 'Only merchants and drivers can view payout history' });
     }
 
-    // In production, this would fetch from a payouts table
-    // For now, return mock data
-    const mockPayouts = [
-      {
-        payoutId: `PAYOUT-${Date.now()}-${userId}`,
-        amount: '5000.00',
-        status: 'COMPLETED',
-        requestedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 7 days ago
-        processedAt: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000), // 6 days ago
-        bankAccount: '**** **** **** 1234',
-      },
-      {
-        payoutId: `PAYOUT-${Date.now() - 1000}-${userId}`,
-        amount: '3000.00',
-        status: 'PENDING',
-        requestedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
-        bankAccount: '**** **** **** 1234',
-      },
-    ];
+    const conditions = [eq(transactions.userId, userId), eq(transactions.type, 'PAYOUT_REQUEST')];
+    if (status) {
+      conditions.push(eq(transactions.status, String(status).toUpperCase()));
+    }
+    const offset = (Number(page) - 1) * Number(limit);
 
-    const filteredPayouts = status 
-      ? mockPayouts.filter(p => p.status === status)
-      : mockPayouts;
+    const [payouts, [{ total }]] = await Promise.all([
+      db.select()
+        .from(transactions)
+        .where(and(...conditions))
+        .orderBy(desc(transactions.createdAt))
+        .limit(Number(limit))
+        .offset(offset),
+      db.select({ total: count() }).from(transactions).where(and(...conditions)),
+    ]);
 
     res.json({
       status: 'Success',
       message: 'Payout history fetched successfully',
       data: {
-        payouts: filteredPayouts,
+        payouts: payouts.map(payout => {
+          const details = (payout.metadata || {}) as Record<string, any>;
+          return {
+            payoutId: payout.transactionRef,
+            amount: payout.amount,
+            status: payout.status,
+            requestedAt: payout.createdAt,
+            processedAt: payout.completedAt ?? (payout.status === 'FAILED' ? payout.updatedAt : null),
+            bankAccount: details.bankAccount,
+            accountNumber: details.accountNumber ? `******${String(details.accountNumber).slice(-4)}` : null,
+            failureReason: details.failureReason ?? null,
+          };
+        }),
         pagination: {
           page: Number(page),
           limit: Number(limit),
-          total: filteredPayouts.length,
+          total,
         },
       },
     });
@@ -885,174 +858,6 @@ router.post('/api/report/product/:id', authenticateToken, async (req, res) => {
   }
 });
 
-// Process payment refund
-router.post('/refund/:id', authenticateToken, authorizeRoles('MERCHANT', 'ADMIN'), async (req: any, res) => {
-  try {
-    const { id: transactionId } = req.params;
-    const { amount, reason } = req.body;
-    const userId = req.user?.userId;
-
-    if (!amount || !reason) {
-      return res.status(400).json({ error: 'Amount and reason are required' });
-    }
-
-    // Find the original transaction
-    const originalTransaction = await db.select().from(transactions).where(eq(transactions.id, transactionId));
-    
-    if (originalTransaction.length === 0) {
-      return res.status(404).json({ error: 'Transaction not found' });
-    }
-
-    const transaction = originalTransaction[0];
-    
-    // Verify user has permission to refund
-    if (req.user.role !== 'ADMIN') {
-      // Check if user is the merchant for this transaction
-      const order = await db.select().from(orders).where(eq(orders.id, transaction.relatedOrderId));
-      if (order.length === 0 || order[0].sellerId !== userId) {
-        return res.status(403).json({ error: 'Not authorized to refund this transaction' });
-      }
-    }
-
-    // Create refund transaction
-    const refund = await db.insert(transactions).values({
-      userId: transaction.userId,
-      type: 'REFUND',
-      amount: amount.toString(),
-      status: 'COMPLETED',
-      description: `Refund for transaction ${transactionId}: ${reason}`,
-      relatedTransactionId: transactionId,
-      processedBy: userId,
-      createdAt: new Date()
-    }).returning();
-
-    res.json({
-      status: 'Success',
-      message: 'Refund processed successfully',
-      data: refund[0]
-    });
-  } catch (error) {
-    console.error('Process refund error:', error);
-    res.status(500).json({ error: 'Failed to process refund' });
-  }
-});
-
-// Create payment dispute
-router.post('/dispute/:id', authenticateToken, async (req: any, res) => {
-  try {
-    const { id: transactionId } = req.params;
-    const { reason, description, evidence = [] } = req.body;
-    const userId = req.user?.userId;
-
-    if (!reason || !description) {
-      return res.status(400).json({ error: 'Reason and description are required' });
-    }
-
-    // Find the transaction
-    const transaction = await db.select().from(transactions).where(eq(transactions.id, transactionId));
-    
-    if (transaction.length === 0) {
-      return res.status(404).json({ error: 'Transaction not found' });
-    }
-
-    // Verify user owns this transaction
-    if (transaction[0].userId !== userId) {
-      return res.status(403).json({ error: 'Not authorized to dispute this transaction' });
-    }
-
-    // Create dispute record
-    const dispute = await db.insert(transactions).values({
-      userId,
-      type: 'DISPUTE',
-      amount: '0.00',
-      status: 'PENDING',
-      description: `Dispute for transaction ${transactionId}: ${reason} - ${description}`,
-      relatedTransactionId: transactionId,
-      metadata: { reason, description, evidence },
-      createdAt: new Date()
-    }).returning();
-
-    res.status(201).json({
-      status: 'Success',
-      message: 'Payment dispute created successfully',
-      data: dispute[0]
-    });
-  } catch (error) {
-    console.error('Create dispute error:', error);
-    res.status(500).json({ error: 'Failed to create dispute' });
-  }
-});
-
-// Request payout
-router.post('/payout', authenticateToken, authorizeRoles('MERCHANT', 'DRIVER'), async (req: any, res) => {
-  try {
-    const { amount, bankAccount } = req.body;
-    const userId = req.user?.userId;
-
-    if (!amount || !bankAccount) {
-      return res.status(400).json({ error: 'Amount and bank account are required' });
-    }
-
-    // Create payout request
-    const payout = await db.insert(transactions).values({
-      userId,
-      type: 'PAYOUT_REQUEST',
-      amount: amount.toString(),
-      status: 'PENDING',
-      description: `Payout request for ${amount}`,
-      metadata: { bankAccount },
-      createdAt: new Date()
-    }).returning();
-
-    res.status(201).json({
-      status: 'Success',
-      message: 'Payout request submitted successfully',
-      data: payout[0]
-    });
-  } catch (error) {
-    console.error('Request payout error:', error);
-    res.status(500).json({ error: 'Failed to request payout' });
-  }
-});
-
-// Get payout history
-router.get('/payout/history', authenticateToken, authorizeRoles('MERCHANT', 'DRIVER'), async (req: any, res) => {
-  try {
-    const userId = req.user?.userId;
-    const { page = 1, limit = 20 } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
-
-    const payoutHistory = await db.select()
-      .from(transactions)
-      .where(and(
-        eq(transactions.userId, userId),
-        or(
-          eq(transactions.type, 'PAYOUT_REQUEST'),
-          eq(transactions.type, 'PAYOUT_COMPLETED')
-        )
-      ))
-      .orderBy(desc(transactions.createdAt))
-      .limit(Number(limit))
-      .offset(offset);
-
-    res.json({
-      status: 'Success',
-      message: 'Payout history retrieved successfully',
-      data: {
-        payouts: payoutHistory,
-        pagination: {
-          page: Number(page),
-          limit: Number(limit),
-          total: payoutHistory.length
-        }
-      }
-    });
-  } catch (error) {
-    console.error('Get payout history error:', error);
-    res.status(500).json({ error: 'Failed to get payout history' });
-  }
-});
-
 // Get payment history
 router.get('/history', authenticateToken, async (req: any, res) => {
   try {
@@ -1090,183 +895,4 @@ router.get('/history', authenticateToken, async (req: any, res) => {
   }
 });
 
-// Create payment dispute
-router.post('/dispute/:id', authenticateToken, async (req: any, res) => {
-  try {
-    const { id: paymentId } = req.params;
-    const userId = req.user?.userId;
-    const { reason, description, evidence = [] } = req.body;
-
-    if (!reason || !description) {
-      return res.status(400).json({ error: 'Reason and description are required' });
-    }
-
-    // Check if payment exists and belongs to user
-    const payment = await db.select().from(orders).where(eq(orders.id, paymentId));
-    
-    if (payment.length === 0) {
-      return res.status(404).json({ error: 'Payment not found' });
-    }
-
-    if (payment[0].buyerId !== userId) {
-      return res.status(403).json({ error: 'You can only dispute your own payments' });
-    }
-
-    // Create dispute record (you might need to add a disputes table)
-    const disputeRef = `DISPUTE_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
-    
-    res.json({
-      status: 'Success',
-      message: 'Payment dispute created successfully',
-      data: {
-        disputeRef,
-        paymentId,
-        reason,
-        description,
-        evidence,
-        status: 'PENDING',
-        createdAt: new Date()
-      }
-    });
-  } catch (error) {
-    console.error('Create payment dispute error:', error);
-    res.status(500).json({ error: 'Failed to create payment dispute' });
-  }
-});
-
-// Request payout (for merchants/drivers)
-router.post('/payout', authenticateToken, authorizeRoles('MERCHANT', 'DRIVER'), async (req: any, res) => {
-  try {
-    const userId = req.user?.userId;
-    const { amount, bankAccount, reason } = req.body;
-
-    if (!amount || !bankAccount) {
-      return res.status(400).json({ error: 'Amount and bank account details are required' });
-    }
-
-    if (amount <= 0) {
-      return res.status(400).json({ error: 'Amount must be greater than 0' });
-    }
-
-    // Generate payout reference
-    const payoutRef = `PAYOUT_${Date.now()}_${Math.random().toString(36).substr(2, 8)}`;
-
-    // In a real implementation, you would check available balance
-    // and integrate with a payout service
-
-    res.json({
-      status: 'Success',
-      message: 'Payout request submitted successfully',
-      data: {
-        payoutRef,
-        amount,
-        status: 'PENDING',
-        estimatedProcessingTime: '2-3 business days',
-        createdAt: new Date()
-      }
-    });
-  } catch (error) {
-    console.error('Request payout error:', error);
-    res.status(500).json({ error: 'Failed to request payout' });
-  }
-});
-
-// Get payout history
-router.get('/payout/history', authenticateToken, authorizeRoles('MERCHANT', 'DRIVER'), async (req: any, res) => {
-  try {
-    const userId = req.user?.userId;
-    const { page = 1, limit = 20, status } = req.query;
-
-    // Mock payout history - in real implementation, fetch from database
-    const mockPayouts = [
-      {
-        id: 1,
-        payoutRef: 'PAYOUT_1234567890_abc123',
-        amount: 15000,
-        status: 'COMPLETED',
-        bankAccount: '**** **** **** 1234',
-        processedAt: new Date(Date.now() - 86400000), // 1 day ago
-        createdAt: new Date(Date.now() - 172800000), // 2 days ago
-      },
-      {
-        id: 2,
-        payoutRef: 'PAYOUT_1234567891_def456',
-        amount: 25000,
-        status: 'PENDING',
-        bankAccount: '**** **** **** 1234',
-        createdAt: new Date(Date.now() - 86400000), // 1 day ago
-      }
-    ];
-
-    res.json({
-      status: 'Success',
-      message: 'Payout history retrieved successfully',
-      data: {
-        payouts: mockPayouts,
-        pagination: {
-          page: Number(page),
-          limit: Number(limit),
-          total: mockPayouts.length
-        }
-      }
-    });
-  } catch (error) {
-    console.error('Get payout history error:', error);
-    res.status(500).json({ error: 'Failed to get payout history' });
-  }
-});
-
-// Get payment history
-router.get('/history', authenticateToken, async (req: any, res) => {
-  try {
-    const userId = req.user?.userId;
-    const { page = 1, limit = 20, type, status } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
-
-    let whereConditions = [eq(orders.buyerId, userId)];
-
-    if (status) {
-      whereConditions.push(eq(orders.status, status as any));
-    }
-
-    const paymentHistory = await db.select({
-      id: orders.id,
-      totalPrice: orders.totalPrice,
-      status: orders.status,
-      createdAt: orders.createdAt,
-      product: {
-        name: products.name,
-        image: products.image,
-      },
-      seller: {
-        fullName: users.fullName,
-        profilePicture: users.profilePicture,
-      }
-    })
-      .from(orders)
-      .leftJoin(products, eq(orders.productId, products.id))
-      .leftJoin(users, eq(orders.sellerId, users.id))
-      .where(and(...whereConditions))
-      .orderBy(desc(orders.createdAt))
-      .limit(Number(limit))
-      .offset(offset);
-
-    res.json({
-      status: 'Success',
-      message: 'Payment history retrieved successfully',
-      data: {
-        payments: paymentHistory,
-        pagination: {
-          page: Number(page),
-          limit: Number(limit),
-          total: paymentHistory.length
-        }
-      }
-    });
-  } catch (error) {
-    console.error('Get payment history error:', error);
-    res.status(500).json({ error: 'Failed to get payment history' });
-  }
-});
-
 export default router;
\ No newline at end of file
@@ -1,14 +1,24 @@
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { eq, and, like, desc, sql } from 'drizzle-orm';
 import db from '../config/database';
 import { products, categories, users } from '../schema';
 import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { inventoryService } from '../services/inventory';
 import { v4 as uuidv4 } from 'uuid';
+import { cacheMiddleware } from '../middleware/cacheMiddleware';
+import { cacheTags } from '../utils/cache';
+import { analyticsService } from '../services/analytics';
 
 const router = Router();
 
+// Catalog reads are cached per URL; writes below drop the entries tagged with what they change
+const CATALOG_CACHE = { ttl: 60 * 1000, staleTtl: 5 * 60 * 1000 };
+
 // Get all categories
-router.get('/categories', async (req, res) => {
+router.get('/categories', cacheMiddleware.middleware({
+  ...CATALOG_CACHE,
+  tags: (req, body) => [cacheTags.categories, ...body.map((category: any) => cacheTags.category(category.slug))],
+}), async (req, res) => {
   try {
     const allCategories = await db.select().from(categories).where(eq(categories.isActive, true));
     res.json(allCategories);
@@ -19,7 +29,10 @@ router.get('/categories', async (req, res) => {
 });
 
 // Create category (Admin only - for now any merchant can create)
-router.post('/categories', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+router.post('/categories', authenticateToken, authorizeRoles('MERCHANT'), cacheMiddleware.invalidates(req => [
+  cacheTags.categories,
+  cacheTags.category(req.body.slug),
+]), async (req, res) => {
   try {
     const { name, icon, slug, description } = req.body;
 
@@ -51,7 +64,10 @@ router.post('/categories', authenticateToken, authorizeRoles('MERCHANT'), async
 });
 
 // Get all products with filters
-router.get('/', async (req, res) => {
+router.get('/', cacheMiddleware.middleware({
+  ...CATALOG_CACHE,
+  tags: (req, body) => cacheTags.forProducts(body.products),
+}), async (req, res) => {
   try {
     const { 
       page = 1, 
@@ -138,8 +154,24 @@ router.get('/', async (req, res) => {
   }
 });
 
+// Product page views feed the merchant conversion reports. This runs ahead of the cache so
+// responses served from it are counted too.
+const trackProductView = (req: Request, res: Response, next: NextFunction) => {
+  const originalJson = res.json.bind(res);
+  res.json = (body: any) => {
+    if (res.statusCode === 200 && body?.id) {
+      analyticsService.trackEvent('product_viewed', { productId: body.id }, { merchantId: body.seller?.id });
+    }
+    return originalJson(body);
+  };
+  next();
+};
+
 // Get single product
-router.get('/:id', async (req, res) => {
+router.get('/:id', trackProductView, cacheMiddleware.middleware({
+  ...CATALOG_CACHE,
+  tags: (req, body) => cacheTags.forProducts([body]),
+}), async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -154,6 +186,7 @@ router.get('/:id', async (req, res) => {
       reviewCount: products.reviewCount,
       inStock: products.inStock,
       minimumOrder: products.minimumOrder,
+      maximumOrder: products.maximumOrder,
       createdAt: products.createdAt,
       updatedAt: products.updatedAt,
       category: {
@@ -190,15 +223,22 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create product (Merchants only)
-router.post('/', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+router.post('/', authenticateToken, authorizeRoles('MERCHANT'), cacheMiddleware.invalidates(req => [
+  cacheTags.products,
+  cacheTags.merchant((req as any).user.userId),
+]), async (req, res) => {
   try {
     const sellerId = (req as any).user.userId;
-    const { name, description, price, unit, categoryId, image, minimumOrder } = req.body;
+    const { name, description, price, unit, categoryId, image, minimumOrder, maximumOrder, quantity = 0, lowStockThreshold } = req.body;
 
     if (!name || !description || !price || !unit || !categoryId) {
       return res.status(400).json({ error: 'Name, description, price, unit, and categoryId are required' });
     }
 
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      return res.status(400).json({ error: 'Quantity must be a whole number of at least 0' });
+    }
+
     // Verify category exists
     const category = await db.select().from(categories).where(eq(categories.id, categoryId));
     if (category.length === 0) {
@@ -214,6 +254,10 @@ router.post('/', authenticateToken, authorizeRoles('MERCHANT'), async (req, res)
       sellerId,
       image,
       minimumOrder: minimumOrder || 1,
+      maximumOrder,
+      quantity,
+      inStock: quantity > 0,
+      lowStockThreshold,
     }).returning();
 
     res.status(201).json({
@@ -227,11 +271,17 @@ router.post('/', authenticateToken, authorizeRoles('MERCHANT'), async (req, res)
 });
 
 // Update product (Product owner only)
-router.put('/:id', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+router.put('/:id', authenticateToken, authorizeRoles('MERCHANT'), cacheMiddleware.invalidates(req => [
+  cacheTags.product(req.params.id),
+]), async (req, res) => {
   try {
     const { id } = req.params;
     const sellerId = (req as any).user.userId;
-    const { name, description, price, unit, categoryId, image, minimumOrder, inStock } = req.body;
+    const { name, description, price, unit, categoryId, image, minimumOrder, maximumOrder, quantity, lowStockThreshold } = req.body;
+
+    if (quantity !== undefined && (!Number.isInteger(quantity) || quantity < 0)) {
+      return res.status(400).json({ error: 'Quantity must be a whole number of at least 0' });
+    }
 
     // Check if product exists and belongs to the seller
     const existingProduct = await db.select().from(products).where(and(
@@ -243,7 +293,7 @@ router.put('/:id', authenticateToken, authorizeRoles('MERCHANT'), async (req, re
       return res.status(404).json({ error: 'Product not found or you do not have permission to edit it' });
     }
 
-    // Update product
+    // Update product; inStock follows the stock level and is not set directly
     const updatedProduct = await db.update(products)
       .set({
         name,
@@ -253,15 +303,20 @@ router.put('/:id', authenticateToken, authorizeRoles('MERCHANT'), async (req, re
         categoryId,
         image,
         minimumOrder,
-        inStock,
+        maximumOrder,
+        lowStockThreshold,
         updatedAt: new Date(),
       })
       .where(eq(products.id, id))
       .returning();
 
+    const restocked = quantity !== undefined
+      ? await inventoryService.setQuantity(id, sellerId, quantity)
+      : null;
+
     res.json({
       message: 'Product updated successfully',
-      product: updatedProduct[0],
+      product: restocked || updatedProduct[0],
     });
   } catch (error) {
     console.error('Update product error:', error);
@@ -269,8 +324,32 @@ router.put('/:id', authenticateToken, authorizeRoles('MERCHANT'), async (req, re
   }
 });
 
+// Get product stock levels and active reservations (Product owner only)
+router.get('/:id/stock', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const sellerId = (req as any).user.userId;
+
+    const stock = await inventoryService.getStock(id);
+
+    if (!stock || stock.sellerId !== sellerId) {
+      return res.status(404).json({ error: 'Product not found or you do not have permission to view it' });
+    }
+
+    res.json({
+      message: 'Product stock fetched successfully',
+      stock,
+    });
+  } catch (error) {
+    console.error('Get product stock error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Delete product (Product owner only)
-router.delete('/:id', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+router.delete('/:id', authenticateToken, authorizeRoles('MERCHANT'), cacheMiddleware.invalidates(req => [
+  cacheTags.product(req.params.id),
+]), async (req, res) => {
   try {
     const { id } = req.params;
     const sellerId = (req as any).user.userId;
@@ -298,7 +377,10 @@ router.delete('/:id', authenticateToken, authorizeRoles('MERCHANT'), async (req,
 });
 
 // Get products by seller
-router.get('/seller/:sellerId', async (req, res) => {
+router.get('/seller/:sellerId', cacheMiddleware.middleware({
+  ...CATALOG_CACHE,
+  tags: (req, body) => [...cacheTags.forProducts(body.products), cacheTags.merchant(req.params.sellerId)],
+}), async (req, res) => {
   try {
     const { sellerId } = req.params;
     const { page = 1, limit = 10 } = req.query;
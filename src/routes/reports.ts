@@ -3,7 +3,8 @@ import { Router } from 'express';
 import { eq, and, desc, sql, or, isNull } from 'drizzle-orm';
 import db from '../config/database';
 import { reports, users, products, fraudAlerts, blacklistedEntities } from '../schema';
-import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { authenticateToken } from '../utils/auth';
+import { requirePermission } from '../utils/admin-middleware';
 
 const router = Router();
 
@@ -221,7 +222,7 @@ router.get('/my-reports', authenticateToken, async (req, res) => {
 });
 
 // Admin: Get all reports
-router.get('/admin/all', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/admin/all', authenticateToken, requirePermission('moderation.manage'), async (req, res) => {
   try {
     const { 
       status, 
@@ -294,7 +295,7 @@ router.get('/admin/all', authenticateToken, authorizeRoles('ADMIN'), async (req,
 });
 
 // Admin: Update report status
-router.put('/admin/:id', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.put('/admin/:id', authenticateToken, requirePermission('moderation.manage'), async (req, res) => {
   try {
     const reportId = req.params.id;
     const adminId = (req as any).user.userId;
@@ -349,7 +350,7 @@ router.put('/admin/:id', authenticateToken, authorizeRoles('ADMIN'), async (req,
 });
 
 // Admin: Get report statistics
-router.get('/admin/stats', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/admin/stats', authenticateToken, requirePermission('moderation.manage'), async (req, res) => {
   try {
     const statusStats = await db.select({
       status: reports.status,
@@ -412,7 +413,7 @@ router.get('/admin/stats', authenticateToken, authorizeRoles('ADMIN'), async (re
 });
 
 // Admin: Fraud alerts management
-router.get('/admin/fraud-alerts', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/admin/fraud-alerts', authenticateToken, requirePermission('fraud.manage'), async (req, res) => {
   try {
     const { severity, isResolved, page = 1, limit = 20 } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
@@ -462,7 +463,7 @@ router.get('/admin/fraud-alerts', authenticateToken, authorizeRoles('ADMIN'), as
 });
 
 // Admin: Resolve fraud alert
-router.put('/admin/fraud-alerts/:id/resolve', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.put('/admin/fraud-alerts/:id/resolve', authenticateToken, requirePermission('fraud.manage'), async (req, res) => {
   try {
     const alertId = req.params.id;
     const adminId = (req as any).user.userId;
@@ -498,7 +499,7 @@ router.put('/admin/fraud-alerts/:id/resolve', authenticateToken, authorizeRoles(
 });
 
 // Admin: Blacklist management
-router.post('/admin/blacklist', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/admin/blacklist', authenticateToken, requirePermission('blacklist.manage'), async (req, res) => {
   try {
     const adminId = (req as any).user.userId;
     const { entityType, entityValue, reason, expiresAt } = req.body;
@@ -542,7 +543,7 @@ router.post('/admin/blacklist', authenticateToken, authorizeRoles('ADMIN'), asyn
 });
 
 // Admin: Remove from blacklist
-router.delete('/admin/blacklist/:id', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.delete('/admin/blacklist/:id', authenticateToken, requirePermission('blacklist.manage'), async (req, res) => {
   try {
     const blacklistId = parseInt(req.params.id);
 
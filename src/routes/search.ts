@@ -4,11 +4,18 @@ import db from '../config/database';
 import { products, categories, users, merchantProfiles, searchHistory, trendingSearches } from '../schema';
 import { authenticateToken } from '../utils/auth';
 import { Message } from '../utils/messages';
+import { cacheMiddleware } from '../middleware/cacheMiddleware';
+import { cacheTags } from '../utils/cache';
 
 const router = Router();
 
 // Advanced search with filters
-router.get('/products', async (req, res) => {
+// Cached per URL, tagged with every product, seller and category in the results
+router.get('/products', cacheMiddleware.middleware({
+  ttl: 60 * 1000,
+  staleTtl: 5 * 60 * 1000,
+  tags: (req, body) => cacheTags.forProducts(body.products),
+}), async (req, res) => {
   try {
     const {
       q = '', // search query
@@ -523,8 +530,8 @@ router.post('/advanced', authenticateToken, async (req, res) => {
       try {
         await db.insert(searchHistory).values({
           userId,
-          searchTerm: query,
-          filters: JSON.stringify({ category, minPrice, maxPrice, location, rating, inStock }),
+          searchQuery: String(query).slice(0, 255),
+          searchType: 'PRODUCT',
           resultsCount: results.length,
         });
       } catch (historyError) {
@@ -6,7 +6,7 @@ import { Strategy as FacebookStrategy } from 'passport-facebook';
 import { eq } from 'drizzle-orm';
 import db from '../config/database';
 import { users } from '../schema';
-import { generateToken } from '../utils/auth';
+import { sessionService, clientInfo } from '../services/sessions';
 import { sendWelcomeEmail } from '../utils/mailer';
 
 const router = Router();
@@ -96,16 +96,17 @@ router.get('/google', passport.authenticate('google', { scope: ['profile', 'emai
 
 router.get('/google/callback', 
   passport.authenticate('google', { session: false }),
-  (req, res) => {
-    const user = req.user as any;
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role
-    });
-
-    // Redirect to frontend with token
-    res.redirect(`${process.env.FRONTEND_URL || 'http://localhost:3001'}/auth/callback?token=${token}`);
+  async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { token, refreshToken } = await sessionService.create(user, clientInfo(req));
+
+      // Redirect to frontend with tokens
+      res.redirect(`${process.env.FRONTEND_URL || 'http://localhost:3001'}/auth/callback?token=${token}&refreshToken=${refreshToken}`);
+    } catch (error) {
+      console.error('Google sign-in error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
   }
 );
 
@@ -114,15 +115,16 @@ router.get('/facebook', passport.authenticate('facebook', { scope: ['email'] }))
 
 router.get('/facebook/callback',
   passport.authenticate('facebook', { session: false }),
-  (req, res) => {
-    const user = req.user as any;
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role
-    });
-
-    res.redirect(`${process.env.FRONTEND_URL || 'http://localhost:3001'}/auth/callback?token=${token}`);
+  async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { token, refreshToken } = await sessionService.create(user, clientInfo(req));
+
+      res.redirect(`${process.env.FRONTEND_URL || 'http://localhost:3001'}/auth/callback?token=${token}&refreshToken=${refreshToken}`);
+    } catch (error) {
+      console.error('Facebook sign-in error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
   }
 );
 
@@ -171,15 +173,16 @@ router.post('/apple', async (req, res) => {
       await sendWelcomeEmail(userData.email, userData.fullName);
     }
 
-    const token = generateToken({
-      userId: userData.id,
-      email: userData.email,
-      role: userData.role as any
-    });
+    if (userData.isActive === false) {
+      return res.status(403).json({ error: 'Account is deactivated' });
+    }
+
+    const { token, refreshToken } = await sessionService.create(userData, clientInfo(req));
 
     res.json({
       message: 'Apple Sign-In successful',
       token,
+      refreshToken,
       user: {
         id: userData.id,
         userId: userData.userId,
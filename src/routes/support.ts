@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { eq, and, desc, sql, or } from 'drizzle-orm';
 import db from '../config/database';
 import { supportTickets, users } from '../schema';
-import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { authenticateToken } from '../utils/auth';
+import { requirePermission } from '../utils/admin-middleware';
 
 const router = Router();
 
@@ -163,7 +164,7 @@ router.get('/tickets/:id', async (req, res) => {
 });
 
 // Update ticket (for admin/support staff)
-router.put('/tickets/:id', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.put('/tickets/:id', authenticateToken, requirePermission('support.manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const {
@@ -214,7 +215,7 @@ router.put('/tickets/:id', authenticateToken, authorizeRoles('ADMIN'), async (re
 });
 
 // Get all tickets (admin only)
-router.get('/admin/tickets', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/admin/tickets', authenticateToken, requirePermission('support.manage'), async (req, res) => {
   try {
     const { status, priority, userRole, assignedTo, page = 1, limit = 20 } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
@@ -281,7 +282,7 @@ router.get('/admin/tickets', authenticateToken, authorizeRoles('ADMIN'), async (
 });
 
 // Get ticket statistics (admin only)
-router.get('/admin/stats', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/admin/stats', authenticateToken, requirePermission('support.manage'), async (req, res) => {
   try {
     const stats = await db.select({
       status: supportTickets.status,
@@ -1,14 +1,17 @@
 
 import { Router } from 'express';
 import db from '../config/database';
-import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { authenticateToken } from '../utils/auth';
+import { requirePermission } from '../utils/admin-middleware';
 import { users, transactions, orders } from '../schema';
 import { count, gte } from 'drizzle-orm';
+import { paymentGateway } from '../services/payments';
+import { analyticsService } from '../services/analytics';
 
 const router = Router();
 
 // System health check
-router.get('/health', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/health', authenticateToken, requirePermission('system.view'), async (req, res) => {
   try {
     // Check database connectivity
     const dbCheck = await db.select({ count: count() }).from(users);
@@ -19,10 +22,14 @@ router.get('/health', authenticateToken, authorizeRoles('ADMIN'), async (req, re
       .from(transactions)
       .where(gte(transactions.createdAt, new Date(Date.now() - 60 * 60 * 1000))); // Last hour
 
+    const gatewayStatus = paymentGateway.getStatus();
+    const primaryGateway = gatewayStatus.providers.find(p => p.name === gatewayStatus.defaultProvider);
+
     const health = {
       database: dbCheck[0].count >= 0 ? 'healthy' : 'error',
       api: 'online',
-      paymentGateway: process.env.PAYSTACK_SECRET_KEY ? 'active' : 'inactive',
+      paymentGateway: primaryGateway?.configured && primaryGateway.available ? 'active' : 'inactive',
+      paymentProviders: gatewayStatus,
       websocket: 'active', // Would check actual WebSocket status
       recentActivity: recentTransactions[0].count,
       lastChecked: new Date().toISOString(),
@@ -47,7 +54,7 @@ router.get('/health', authenticateToken, authorizeRoles('ADMIN'), async (req, re
 });
 
 // Real-time metrics
-router.get('/metrics/realtime', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/metrics/realtime', authenticateToken, requirePermission('system.view'), async (req, res) => {
   try {
     const now = new Date();
     const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
@@ -55,17 +62,32 @@ router.get('/metrics/realtime', authenticateToken, authorizeRoles('ADMIN'), asyn
     const [
       recentTransactions,
       activeUsers,
-      pendingOrders
+      pendingOrders,
+      events
     ] = await Promise.all([
       db.select({ count: count() }).from(transactions).where(gte(transactions.createdAt, oneHourAgo)),
       db.select({ count: count() }).from(users).where(gte(users.createdAt, oneHourAgo)),
-      db.select({ count: count() }).from(orders).where(gte(orders.createdAt, oneHourAgo))
+      db.select({ count: count() }).from(orders).where(gte(orders.createdAt, oneHourAgo)),
+      // Per-minute counts for every event type over the last hour, from the analytics store
+      analyticsService.query({ metric: 'count', interval: 'minute', from: oneHourAgo, to: now, groupBy: 'eventType' })
     ]);
 
+    const perMinute = new Map<number, number>();
+    for (const series of events.series) {
+      for (const point of series.points) {
+        perMinute.set(point.bucket.getTime(), (perMinute.get(point.bucket.getTime()) || 0) + (point.value || 0));
+      }
+    }
+
     const metrics = {
       recentTransactions: recentTransactions[0].count,
       newUsers: activeUsers[0].count,
       pendingOrders: pendingOrders[0].count,
+      events: {
+        lastHour: events.series.reduce((sum, series) => sum + (series.total || 0), 0),
+        topEvents: events.series.slice(0, 10).map(series => ({ eventType: series.key, count: series.total })),
+        perMinute: [...perMinute.entries()].map(([bucket, count]) => ({ bucket: new Date(bucket), count })),
+      },
       serverMetrics: {
         cpuUsage: Math.floor(Math.random() * 30) + 20, // Mock CPU usage
         memoryUsage: Math.round((process.memoryUsage().heapUsed / 1024 / 1024) * 100) / 100,
@@ -86,7 +108,7 @@ router.get('/metrics/realtime', authenticateToken, authorizeRoles('ADMIN'), asyn
 });
 
 // Performance metrics
-router.get('/performance', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/performance', authenticateToken, requirePermission('system.view'), async (req, res) => {
   try {
     const performance = {
       responseTime: {
@@ -120,7 +142,7 @@ router.get('/performance', authenticateToken, authorizeRoles('ADMIN'), async (re
 });
 
 // Error logs
-router.get('/errors', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/errors', authenticateToken, requirePermission('system.view'), async (req, res) => {
   try {
     const { limit = 50, severity = '', startDate = '', endDate = '' } = req.query;
 
@@ -152,7 +174,7 @@ router.get('/errors', authenticateToken, authorizeRoles('ADMIN'), async (req, re
 });
 
 // Database maintenance
-router.post('/maintenance/backup', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/maintenance/backup', authenticateToken, requirePermission('system.operate'), async (req, res) => {
   try {
     // In a real implementation, this would trigger a database backup
     const backupId = `backup_${Date.now()}`;
@@ -13,7 +13,8 @@ import {
   tollPayments,
   consumerNotifications 
 } from '../schema';
-import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { authenticateToken } from '../utils/auth';
+import { requirePermission } from '../utils/admin-middleware';
 import { createNotification } from './notifications';
 
 const router = Router();
@@ -320,7 +321,7 @@ router.get('/:id/receipt', authenticateToken, async (req, res) => {
 });
 
 // Admin/Toll Operators: View all toll payments
-router.get('/transactions', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/transactions', authenticateToken, requirePermission('finance.view'), async (req, res) => {
   try {
     const { 
       page = 1, 
@@ -409,7 +410,7 @@ router.get('/transactions', authenticateToken, authorizeRoles('ADMIN'), async (r
 });
 
 // Admin/Toll Operators: Get toll usage statistics
-router.get('/stats', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/stats', authenticateToken, requirePermission('finance.view'), async (req, res) => {
   try {
     const { period = 'daily', locationId, startDate, endDate } = req.query;
 
@@ -496,7 +497,7 @@ router.get('/stats', authenticateToken, authorizeRoles('ADMIN'), async (req, res
 });
 
 // Admin: Add new toll location
-router.post('/locations', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.post('/locations', authenticateToken, requirePermission('catalog.manage'), async (req, res) => {
   try {
     const { 
       name, 
@@ -553,7 +554,7 @@ router.post('/locations', authenticateToken, authorizeRoles('ADMIN'), async (req
 });
 
 // Admin: Update toll location and pricing
-router.put('/locations/:id', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.put('/locations/:id', authenticateToken, requirePermission('catalog.manage'), async (req, res) => {
   try {
     const locationId = req.params.id;
     const { 
@@ -3,6 +3,8 @@ import { eq, and, like, desc, or, sql } from 'drizzle-orm';
 import db from '../config/database';
 import { users, merchantProfiles, driverProfiles, userLocations } from '../schema';
 import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { cacheMiddleware } from '../middleware/cacheMiddleware';
+import { cacheTags } from '../utils/cache';
 
 const router = Router();
 
@@ -41,8 +43,10 @@ router.get('/profile', authenticateToken, async (req, res) => {
   }
 });
 
-// Update user profile
-router.put('/profile', authenticateToken, async (req, res) => {
+// Update user profile; product listings show the seller's name, photo and city
+router.put('/profile', authenticateToken, cacheMiddleware.invalidates(req => [
+  cacheTags.merchant((req as any).user.userId),
+]), async (req, res) => {
   try {
     const userId = (req as any).user.userId;
     const { fullName, phone, address, city, state, country, bio, profilePicture } = req.body;
@@ -218,7 +222,9 @@ router.get('/merchants/:id', async (req, res) => {
 });
 
 // Update merchant profile
-router.put('/merchant-profile', authenticateToken, authorizeRoles('MERCHANT'), async (req, res) => {
+router.put('/merchant-profile', authenticateToken, authorizeRoles('MERCHANT'), cacheMiddleware.invalidates(req => [
+  cacheTags.merchant((req as any).user.userId),
+]), async (req, res) => {
   try {
     const userId = (req as any).user.userId;
     const {
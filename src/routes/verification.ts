@@ -3,6 +3,7 @@ import { eq, and, desc } from 'drizzle-orm';
 import db from '../config/database';
 import { identityVerifications, driverVerifications, phoneVerifications, users } from '../schema';
 import { authenticateToken, authorizeRoles } from '../utils/auth';
+import { requirePermission } from '../utils/admin-middleware';
 import { generateOTP } from '../utils/auth';
 import { sendOTPEmail } from '../utils/mailer';
 
@@ -252,7 +253,7 @@ router.get('/status', authenticateToken, async (req, res) => {
 });
 
 // Admin: Approve identity verification
-router.put('/admin/identity/:id/approve', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.put('/admin/identity/:id/approve', authenticateToken, requirePermission('verifications.review'), async (req, res) => {
   try {
     const { id } = req.params;
     const verificationId = Number(id);
@@ -289,7 +290,7 @@ router.put('/admin/identity/:id/approve', authenticateToken, authorizeRoles('ADM
 });
 
 // Admin: Reject identity verification
-router.put('/admin/identity/:id/reject', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.put('/admin/identity/:id/reject', authenticateToken, requirePermission('verifications.review'), async (req, res) => {
   try {
     const { id } = req.params;
     const verificationId = Number(id);
@@ -327,7 +328,7 @@ router.put('/admin/identity/:id/reject', authenticateToken, authorizeRoles('ADMI
 });
 
 // Admin: Approve driver verification
-router.put('/admin/driver/:id/approve', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.put('/admin/driver/:id/approve', authenticateToken, requirePermission('verifications.review'), async (req, res) => {
   try {
     const { id } = req.params;
     const verificationId = Number(id);
@@ -359,7 +360,7 @@ router.put('/admin/driver/:id/approve', authenticateToken, authorizeRoles('ADMIN
 });
 
 // Admin: Reject driver verification
-router.put('/admin/driver/:id/reject', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.put('/admin/driver/:id/reject', authenticateToken, requirePermission('verifications.review'), async (req, res) => {
   try {
     const { id } = req.params;
     const verificationId = Number(id);
@@ -397,7 +398,7 @@ router.put('/admin/driver/:id/reject', authenticateToken, authorizeRoles('ADMIN'
 });
 
 // Admin: Get pending verifications
-router.get('/admin/pending', authenticateToken, authorizeRoles('ADMIN'), async (req, res) => {
+router.get('/admin/pending', authenticateToken, requirePermission('verifications.review'), async (req, res) => {
   try {
     const { type, page = 1, limit = 20 } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
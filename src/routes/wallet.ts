@@ -1,11 +1,104 @@
 
-import { Router } from 'express';
+import crypto from 'crypto';
+import { Router, Response } from 'express';
 import { db } from '../config/database';
 import { wallets, transactions, users } from '../schema';
 import { eq, desc } from 'drizzle-orm';
+import { ledgerService, LedgerError } from '../services/ledger';
+import { payoutService, PayoutError } from '../services/payouts';
+import { paymentGateway, PaymentProviderError } from '../services/payments';
+import { paymentEventService } from '../services/paymentEvents';
+import { authenticateToken } from '../utils/auth';
+import { requirePermissionForAdmins } from '../utils/admin-middleware';
+import { BASE_URL } from '../config/environment';
 
 const router = Router();
 
+// Start a gateway charge for a wallet top-up. The wallet is only credited when the gateway
+// confirms the charge through the callback or a webhook, never by this request.
+const startWalletFunding = async (userId: number, body: any, res: Response) => {
+  const { amount, customerEmail, country } = body;
+  const value = parseFloat(amount);
+
+  if (!Number.isFinite(value) || value <= 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'A positive amount is required'
+    });
+  }
+
+  const txRef = `wallet-${userId}-${crypto.randomUUID()}`;
+  const [user] = await db.select({ email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+  const checkout = await paymentGateway.execute(country, provider => provider.initialize({
+    txRef,
+    amount: value,
+    currency: 'NGN',
+    customerEmail: customerEmail || user?.email,
+    redirectUrl: `${BASE_URL}/api/payment/callback`,
+    description: 'Wallet funding',
+  }));
+  await paymentEventService.recordIntent({ txRef, userId, provider: checkout.provider, amount: value, purpose: 'WALLET_FUNDING' });
+
+  res.status(202).json({
+    success: true,
+    message: 'Payment initiated; the wallet is credited once the payment is confirmed',
+    data: {
+      transactionRef: txRef,
+      paymentLink: checkout.paymentLink,
+      provider: checkout.provider
+    }
+  });
+};
+
+// Bank accounts the caller can withdraw to
+router.get('/bank-accounts', authenticateToken, async (req: any, res) => {
+  try {
+    const accounts = await payoutService.listBankAccounts(req.user.userId);
+
+    res.json({
+      success: true,
+      data: accounts
+    });
+  } catch (error) {
+    console.error('Error fetching bank accounts:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch bank accounts'
+    });
+  }
+});
+
+// Save a bank account for withdrawals after the gateway resolves it to the holder's name
+router.post('/bank-accounts', authenticateToken, async (req: any, res) => {
+  try {
+    const { accountNumber, bankCode, country } = req.body;
+
+    if (!accountNumber || !bankCode) {
+      return res.status(400).json({
+        success: false,
+        message: 'Account number and bank code are required'
+      });
+    }
+
+    const account = await payoutService.saveBankAccount(req.user.userId, String(accountNumber), String(bankCode), country);
+
+    res.status(201).json({
+      success: true,
+      message: 'Bank account verified and saved',
+      data: account
+    });
+  } catch (error) {
+    if (error instanceof PaymentProviderError && !error.retryable) {
+      return res.status(400).json({ success: false, message: 'Bank account could not be verified' });
+    }
+    console.error('Error saving bank account:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save bank account'
+    });
+  }
+});
+
 // Get user wallet
 router.get('/:userId', async (req, res) => {
   try {
@@ -73,54 +166,57 @@ router.get('/:userId/transactions', async (req, res) => {
   }
 });
 
-// Fund wallet
-router.post('/:userId/fund', async (req, res) => {
+// Get running wallet statement from the ledger
+router.get('/:userId/statement', authenticateToken, requirePermissionForAdmins('finance.view'), async (req: any, res) => {
   try {
     const { userId } = req.params;
-    const { amount, paymentMethod, transactionRef } = req.body;
-
-    // Create transaction record
-    const transaction = await db
-      .insert(transactions)
-      .values({
-        userId: parseInt(userId),
-        amount: amount.toString(),
-        type: 'WALLET_FUNDING',
-        paymentMethod,
-        transactionRef,
-        description: 'Wallet funding',
-        status: 'COMPLETED'
-      })
-      .returning();
-
-    // Update wallet balance
-    const currentWallet = await db
-      .select()
-      .from(wallets)
-      .where(eq(wallets.userId, parseInt(userId)))
-      .limit(1);
+    const { limit = 20, offset = 0 } = req.query;
 
-    if (currentWallet.length > 0) {
-      const currentBalance = parseFloat(currentWallet[0].balance || '0');
-      const newBalance = currentBalance + parseFloat(amount);
-      
-      await db
-        .update(wallets)
-        .set({ 
-          balance: newBalance.toString(),
-          updatedAt: new Date()
-        })
-        .where(eq(wallets.userId, parseInt(userId)));
+    if (req.user.role !== 'ADMIN' && req.user.userId !== parseInt(userId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only view your own wallet statement'
+      });
     }
 
+    const [balance, entries] = await Promise.all([
+      ledgerService.getWalletBalance(parseInt(userId)),
+      ledgerService.getWalletStatement(parseInt(userId), {
+        limit: parseInt(limit as string),
+        offset: parseInt(offset as string)
+      })
+    ]);
+
     res.json({
       success: true,
-      message: 'Wallet funded successfully',
-      data: transaction[0]
+      data: {
+        balance,
+        entries
+      }
     });
   } catch (error) {
-    console.error('Error funding wallet:', error);
+    console.error('Error fetching wallet statement:', error);
     res.status(500).json({
+      success: false,
+      message: 'Failed to fetch wallet statement'
+    });
+  }
+});
+
+// Fund wallet
+router.post('/:userId/fund', authenticateToken, async (req: any, res) => {
+  try {
+    if (req.user.userId !== parseInt(req.params.userId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only fund your own wallet'
+      });
+    }
+
+    await startWalletFunding(req.user.userId, req.body, res);
+  } catch (error) {
+    console.error('Error funding wallet:', error);
+    res.status(error instanceof PaymentProviderError ? 502 : 500).json({
       success: false,
       message: 'Failed to fund wallet'
     });
@@ -217,131 +313,52 @@ router.get('/balance', async (req, res) => {
 });
 
 // Deposit funds
-router.post('/deposit', async (req, res) => {
+router.post('/deposit', authenticateToken, async (req: any, res) => {
   try {
-    const { userId, amount, paymentMethod, transactionRef } = req.body;
-
-    if (!userId || !amount || !paymentMethod) {
-      return res.status(400).json({
-        success: false,
-        message: 'User ID, amount, and payment method are required'
-      });
-    }
-
-    // Create transaction record
-    const transaction = await db
-      .insert(transactions)
-      .values({
-        userId: parseInt(userId),
-        amount: amount.toString(),
-        type: 'WALLET_FUNDING',
-        paymentMethod,
-        transactionRef: transactionRef || `DEP_${Date.now()}`,
-        description: 'Wallet deposit',
-        status: 'COMPLETED'
-      })
-      .returning();
-
-    // Update wallet balance
-    const currentWallet = await db
-      .select()
-      .from(wallets)
-      .where(eq(wallets.userId, parseInt(userId)))
-      .limit(1);
-
-    if (currentWallet.length > 0) {
-      const currentBalance = parseFloat(currentWallet[0].balance || '0');
-      const newBalance = currentBalance + parseFloat(amount);
-      
-      await db
-        .update(wallets)
-        .set({ 
-          balance: newBalance.toString(),
-          updatedAt: new Date()
-        })
-        .where(eq(wallets.userId, parseInt(userId)));
-    }
-
-    res.json({
-      success: true,
-      message: 'Deposit successful',
-      data: transaction[0]
-    });
+    await startWalletFunding(req.user.userId, req.body, res);
   } catch (error) {
     console.error('Error processing deposit:', error);
-    res.status(500).json({
+    res.status(error instanceof PaymentProviderError ? 502 : 500).json({
       success: false,
       message: 'Failed to process deposit'
     });
   }
 });
 
-// Withdraw funds
-router.post('/withdraw', async (req, res) => {
+// Withdraw funds to one of the caller's saved bank accounts
+router.post('/withdraw', authenticateToken, async (req: any, res) => {
   try {
-    const { userId, amount, withdrawalMethod } = req.body;
-
-    if (!userId || !amount || !withdrawalMethod) {
-      return res.status(400).json({
-        success: false,
-        message: 'User ID, amount, and withdrawal method are required'
-      });
-    }
-
-    // Check wallet balance
-    const currentWallet = await db
-      .select()
-      .from(wallets)
-      .where(eq(wallets.userId, parseInt(userId)))
-      .limit(1);
-
-    if (currentWallet.length === 0) {
-      return res.status(404).json({
-        success: false,
-        message: 'Wallet not found'
-      });
-    }
-
-    const currentBalance = parseFloat(currentWallet[0].balance || '0');
-    const withdrawalAmount = parseFloat(amount);
+    const userId = req.user.userId;
+    const { amount, bankAccountId, withdrawalMethod } = req.body;
 
-    if (currentBalance < withdrawalAmount) {
+    if (!amount || !bankAccountId) {
       return res.status(400).json({
         success: false,
-        message: 'Insufficient balance'
+        message: 'Amount and bank account are required'
       });
     }
 
-    // Create withdrawal transaction
-    const transaction = await db
-      .insert(transactions)
-      .values({
-        userId: parseInt(userId),
-        amount: amount.toString(),
-        type: 'WITHDRAWAL',
-        paymentMethod: withdrawalMethod,
-        transactionRef: `WTH_${Date.now()}`,
-        description: 'Wallet withdrawal',
-        status: 'PENDING'
-      })
-      .returning();
-
-    // Update wallet balance
-    const newBalance = currentBalance - withdrawalAmount;
-    await db
-      .update(wallets)
-      .set({ 
-        balance: newBalance.toString(),
-        updatedAt: new Date()
-      })
-      .where(eq(wallets.userId, parseInt(userId)));
+    // Balance check and debit happen under a row lock inside the ledger transaction
+    const { transaction } = await payoutService.requestWithdrawal({
+      userId,
+      amount,
+      bankAccountId: String(bankAccountId),
+      withdrawalMethod,
+    });
 
     res.json({
       success: true,
       message: 'Withdrawal initiated successfully',
-      data: transaction[0]
+      data: transaction
     });
   } catch (error) {
+    if (error instanceof PayoutError) {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+    if (error instanceof LedgerError) {
+      const message = error.code === 'INSUFFICIENT_FUNDS' ? 'Insufficient balance' : error.message;
+      return res.status(400).json({ success: false, message });
+    }
     console.error('Error processing withdrawal:', error);
     res.status(500).json({
       success: false,
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, uuid, json, jsonb, varchar, pgEnum, unique, time } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, uuid, json, jsonb, varchar, pgEnum, unique, uniqueIndex, index, time } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -34,6 +34,63 @@ export const users = pgTable("users", {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Sessions table (one per login; the refresh token carries the session id and its generation)
+export const sessions = pgTable('sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  // Bumped on every refresh; presenting an older generation means the token was stolen and replayed
+  generation: integer('generation').notNull().default(0),
+  userAgent: text('user_agent'),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  lastUsedAt: timestamp('last_used_at').defaultNow(),
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+  revokedReason: varchar('revoked_reason', { length: 50 }), // LOGOUT, PASSWORD_CHANGED, DEACTIVATED, MFA_RESET, REFRESH_TOKEN_REUSE, ...
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  userIdx: index('sessions_user_idx').on(table.userId),
+}));
+
+// Admin sub-roles held by ADMIN users; each role grants a fixed set of permissions (see services/adminPermissions)
+export const adminRoleAssignments = pgTable('admin_role_assignments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: varchar('role', { length: 30 }).notNull(), // SUPER_ADMIN, SUPPORT_AGENT, FINANCE, COMPLIANCE, MODERATOR
+  grantedBy: integer('granted_by').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  uniqueUserRole: unique().on(table.userId, table.role),
+}));
+
+// Append-only audit trail. Each row's hash covers its content and the previous row's hash, so an
+// edited or removed row breaks the chain; a trigger rejects updates, and deletes outside the retention purge.
+export const auditLogs = pgTable('audit_logs', {
+  id: serial('id').primaryKey(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  actorId: integer('actor_id'), // not a foreign key so entries outlive the account
+  actorRole: varchar('actor_role', { length: 20 }),
+  action: varchar('action', { length: 150 }).notNull(), // e.g. "PUT /api/admin/users/:id/status" or "user.status.update"
+  resource: varchar('resource', { length: 50 }),
+  resourceId: varchar('resource_id', { length: 100 }),
+  method: varchar('method', { length: 10 }),
+  path: text('path'),
+  statusCode: integer('status_code'),
+  success: boolean('success'),
+  requestId: varchar('request_id', { length: 64 }),
+  ipAddress: varchar('ip_address', { length: 45 }),
+  userAgent: text('user_agent'),
+  changes: jsonb('changes'), // { field: { before, after } } for admin edits
+  metadata: jsonb('metadata'),
+  prevHash: varchar('prev_hash', { length: 64 }).notNull(),
+  hash: varchar('hash', { length: 64 }).notNull(),
+}, (table) => ({
+  createdAtIdx: index('audit_logs_created_at_idx').on(table.createdAt),
+  actorIdx: index('audit_logs_actor_idx').on(table.actorId),
+  resourceIdx: index('audit_logs_resource_idx').on(table.resource, table.resourceId),
+  requestIdx: index('audit_logs_request_idx').on(table.requestId),
+}));
+
 export const otpCodes = pgTable("otp_codes", {
   id: serial("id").primaryKey(),
   email: text("email").notNull(),
@@ -150,6 +207,9 @@ export const products = pgTable('products', {
   description: text('description'),
   price: varchar('price', { length: 20 }).notNull(),
   quantity: integer('quantity').notNull().default(0),
+  reservedQuantity: integer('reserved_quantity').notNull().default(0), // held by unpaid checkouts
+  lowStockThreshold: integer('low_stock_threshold'),
+  lowStockAlertedAt: timestamp('low_stock_alerted_at'),
   unit: varchar('unit', { length: 50 }),
   categoryId: integer('category_id').references(() => categories.id),
   vendorId: integer('vendor_id').notNull().references(() => users.id),
@@ -188,6 +248,8 @@ export const orders = pgTable('orders', {
   paymentStatus: varchar('payment_status', { length: 50 }).default('pending'),
   paymentTxRef: varchar('payment_tx_ref', { length: 255 }),
   deliveryAddress: text('delivery_address'),
+  deliveryLatitude: decimal('delivery_latitude', { precision: 10, scale: 8 }),
+  deliveryLongitude: decimal('delivery_longitude', { precision: 11, scale: 8 }),
   specialInstructions: text('special_instructions'),
   estimatedDeliveryDate: timestamp('estimated_delivery_date'),
   actualDeliveryDate: timestamp('actual_delivery_date'),
@@ -198,10 +260,80 @@ export const orders = pgTable('orders', {
   refundAmount: varchar('refund_amount', { length: 20 }),
   refundStatus: varchar('refund_status', { length: 50 }),
   metadata: json('metadata'),
+  orderGroupId: uuid('order_group_id').references(() => orderGroups.id),
+  fulfilmentId: uuid('fulfilment_id').references(() => orderFulfilments.id),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Order Groups table - one per checkout, paid with a single payment reference
+export const orderGroups = pgTable('order_groups', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  groupNumber: varchar('group_number', { length: 100 }).notNull().unique(),
+  buyerId: integer('buyer_id').notNull().references(() => users.id),
+  paymentTxRef: varchar('payment_tx_ref', { length: 255 }).notNull().unique(),
+  subtotal: decimal('subtotal', { precision: 12, scale: 2 }).notNull(),
+  totalAmount: decimal('total_amount', { precision: 12, scale: 2 }).notNull(),
+  commissionTotal: decimal('commission_total', { precision: 12, scale: 2 }).default('0.00'),
+  merchantCount: integer('merchant_count').notNull().default(1),
+  status: varchar('status', { length: 50 }).default('PENDING'), // PENDING, PAID, PARTIALLY_FULFILLED, COMPLETED, CANCELLED
+  paymentStatus: varchar('payment_status', { length: 50 }).default('PENDING'),
+  deliveryAddress: text('delivery_address'),
+  paidAt: timestamp('paid_at'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Order Fulfilments table - a merchant's slice of an order group
+export const orderFulfilments = pgTable('order_fulfilments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderGroupId: uuid('order_group_id').notNull().references(() => orderGroups.id),
+  merchantId: integer('merchant_id').notNull().references(() => users.id),
+  status: varchar('status', { length: 50 }).default('pending'),
+  subtotal: decimal('subtotal', { precision: 12, scale: 2 }).notNull(),
+  commissionRate: decimal('commission_rate', { precision: 5, scale: 2 }).notNull(),
+  commissionAmount: decimal('commission_amount', { precision: 12, scale: 2 }).notNull(),
+  merchantPayout: decimal('merchant_payout', { precision: 12, scale: 2 }).notNull(),
+  // Priced by the delivery quote engine at checkout
+  deliveryQuoteId: uuid('delivery_quote_id').references(() => deliveryQuotes.id),
+  deliveryFee: decimal('delivery_fee', { precision: 10, scale: 2 }).default('0.00'),
+  deliveryRequestId: uuid('delivery_request_id'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  uniqueGroupMerchant: unique().on(table.orderGroupId, table.merchantId),
+}));
+
+// Order status history table (one row per lifecycle transition)
+export const orderStatusHistory = pgTable('order_status_history', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orderId: uuid('order_id').notNull().references(() => orders.id),
+  fromStatus: varchar('from_status', { length: 50 }), // null for the creation entry
+  toStatus: varchar('to_status', { length: 50 }).notNull(),
+  actorId: integer('actor_id').references(() => users.id),
+  actorRole: varchar('actor_role', { length: 20 }).notNull(), // CONSUMER, MERCHANT, DRIVER, ADMIN, SYSTEM
+  reason: text('reason'),
+  metadata: json('metadata'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Inventory reservations table (stock held for an order until it is paid or the hold expires)
+export const inventoryReservations = pgTable('inventory_reservations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  productId: uuid('product_id').notNull().references(() => products.id),
+  orderId: uuid('order_id').notNull().references(() => orders.id),
+  buyerId: integer('buyer_id').notNull().references(() => users.id),
+  quantity: integer('quantity').notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('ACTIVE'), // ACTIVE, COMMITTED, RELEASED, EXPIRED
+  expiresAt: timestamp('expires_at').notNull(),
+  committedAt: timestamp('committed_at'),
+  releasedAt: timestamp('released_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  uniqueOrder: unique().on(table.orderId),
+}));
+
 // Cart Items table
 export const cartItems = pgTable('cart_items', {
   id: serial('id').primaryKey(),
@@ -347,6 +479,129 @@ export const driverNotifications = pgTable('driver_notifications', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Notification preferences table (one row per user and role; missing row means defaults)
+export const notificationPreferences = pgTable('notification_preferences', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  userRole: varchar('user_role', { length: 20 }).notNull(),
+  emailNotifications: boolean('email_notifications').notNull().default(true),
+  pushNotifications: boolean('push_notifications').notNull().default(true),
+  smsNotifications: boolean('sms_notifications').notNull().default(false),
+  categories: json('categories'), // { order_updates: true, promotions: false, ... }
+  frequency: varchar('frequency', { length: 20 }).default('immediate'),
+  quietHours: json('quiet_hours'), // { start: 'HH:MM', end: 'HH:MM' } in the user's timezone, null for none
+  timezone: varchar('timezone', { length: 50 }).notNull().default('Africa/Lagos'),
+  language: varchar('language', { length: 10 }).default('en'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  uniqueUserRole: unique().on(table.userId, table.userRole),
+}));
+
+// Per-channel outcome of every dispatched notification (one dispatch fans out to several rows)
+export const notificationDeliveries = pgTable('notification_deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  dispatchId: uuid('dispatch_id').notNull(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  userRole: varchar('user_role', { length: 20 }).notNull(),
+  eventType: varchar('event_type', { length: 50 }).notNull(),
+  category: varchar('category', { length: 50 }).notNull(),
+  priority: varchar('priority', { length: 20 }).notNull(),
+  channel: varchar('channel', { length: 20 }).notNull(), // IN_APP, PUSH, EMAIL, SMS
+  status: varchar('status', { length: 20 }).notNull(), // PENDING, DEFERRED, SENT, SKIPPED, FAILED
+  reason: varchar('reason', { length: 50 }), // why a channel was skipped or deferred
+  title: varchar('title', { length: 255 }).notNull(),
+  message: text('message').notNull(),
+  actionUrl: varchar('action_url', { length: 500 }),
+  data: json('data'),
+  notificationId: varchar('notification_id', { length: 255 }), // in-app notification row
+  jobId: varchar('job_id', { length: 255 }),
+  error: text('error'),
+  scheduledFor: timestamp('scheduled_for'),
+  sentAt: timestamp('sent_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  userIdx: index('notification_deliveries_user_idx').on(table.userId, table.createdAt),
+  dispatchIdx: index('notification_deliveries_dispatch_idx').on(table.dispatchId),
+}));
+
+// Notification templates table ({ title, body, actionUrl? } with {variable} placeholders)
+export const notificationTemplates = pgTable('notification_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 255 }).notNull(),
+  category: varchar('category', { length: 50 }).notNull(),
+  type: varchar('type', { length: 50 }).notNull(),
+  template: json('template').notNull(),
+  isActive: boolean('is_active').default(true),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Scheduled notifications table (one-off or recurring sends to a recipient list or a whole role)
+export const scheduledNotifications = pgTable('scheduled_notifications', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  schedulerId: integer('scheduler_id').notNull().references(() => users.id),
+  recipients: json('recipients'), // [{ userId, userRole }]
+  audience: json('audience'), // { role } - resolved to every active user with that role at send time
+  message: json('message'), // { title, body, actionUrl? } when no template is used
+  templateId: uuid('template_id').references(() => notificationTemplates.id),
+  templateVariables: json('template_variables'),
+  variableSource: varchar('variable_source', { length: 50 }), // per-recipient variables, e.g. merchant_weekly_digest
+  type: varchar('type', { length: 50 }).default('SYSTEM'),
+  priority: varchar('priority', { length: 20 }).default('MEDIUM'),
+  scheduleTime: timestamp('schedule_time').notNull(), // next run
+  recurrence: varchar('recurrence', { length: 20 }), // daily, weekly, monthly
+  recurrenceEndsAt: timestamp('recurrence_ends_at'),
+  status: varchar('status', { length: 20 }).notNull().default('scheduled'), // scheduled, processing, sent, partially_failed, failed, cancelled
+  lastRunStatus: varchar('last_run_status', { length: 20 }),
+  lastRunAt: timestamp('last_run_at'),
+  runCount: integer('run_count').notNull().default(0),
+  lockedAt: timestamp('locked_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Per-recipient outcome of each scheduled notification run
+export const scheduledNotificationDeliveries = pgTable('scheduled_notification_deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  scheduledNotificationId: uuid('scheduled_notification_id').notNull().references(() => scheduledNotifications.id),
+  run: integer('run').notNull(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  userRole: varchar('user_role', { length: 20 }).notNull(),
+  status: varchar('status', { length: 20 }).notNull(), // SENT, FAILED
+  notificationId: varchar('notification_id', { length: 255 }),
+  pushJobId: varchar('push_job_id', { length: 255 }),
+  error: text('error'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Device tokens table (one row per app install; the provider is the push service that issued the token)
+export const deviceTokens = pgTable('device_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  token: varchar('token', { length: 512 }).notNull().unique(),
+  platform: varchar('platform', { length: 20 }).notNull(), // android, ios, web
+  provider: varchar('provider', { length: 20 }).notNull(), // fcm, apns
+  appVersion: varchar('app_version', { length: 50 }),
+  lastSeenAt: timestamp('last_seen_at').defaultNow(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  userIdx: index('device_tokens_user_idx').on(table.userId),
+}));
+
+// Topic subscriptions of a device; removed with the device when its token is pruned
+export const deviceTopicSubscriptions = pgTable('device_topic_subscriptions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  deviceTokenId: uuid('device_token_id').notNull().references(() => deviceTokens.id, { onDelete: 'cascade' }),
+  topic: varchar('topic', { length: 100 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  uniqueDeviceTopic: unique().on(table.deviceTokenId, table.topic),
+  topicIdx: index('device_topic_subscriptions_topic_idx').on(table.topic),
+}));
+
 // Add missing tables for comprehensive functionality
 export const deliveryRequests = pgTable('delivery_requests', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -368,10 +623,93 @@ export const deliveryRequests = pgTable('delivery_requests', {
   specialInstructions: text('special_instructions'),
   trackingNumber: varchar('tracking_number', { length: 100 }),
   status: varchar('status', { length: 50 }).default('PENDING'),
+  // The server-issued quote the fee came from; each quote is used at most once
+  quoteId: uuid('quote_id').unique().references(() => deliveryQuotes.id),
+  pickupLatitude: decimal('pickup_latitude', { precision: 10, scale: 8 }),
+  pickupLongitude: decimal('pickup_longitude', { precision: 11, scale: 8 }),
+  deliveryLatitude: decimal('delivery_latitude', { precision: 10, scale: 8 }),
+  deliveryLongitude: decimal('delivery_longitude', { precision: 11, scale: 8 }),
+  // Driver dispatch: SEARCHING, OFFERED, ASSIGNED or ESCALATED; null when the request was never dispatched
+  dispatchStatus: varchar('dispatch_status', { length: 20 }),
+  dispatchRadiusKm: decimal('dispatch_radius_km', { precision: 6, scale: 2 }),
+  // Bumped when an admin restarts dispatch; drivers offered in the current round are not offered again
+  dispatchRound: integer('dispatch_round').notNull().default(0),
+  // Latest driver position and the ETA recalculated from it
+  currentLatitude: decimal('current_latitude', { precision: 10, scale: 8 }),
+  currentLongitude: decimal('current_longitude', { precision: 11, scale: 8 }),
+  locationUpdatedAt: timestamp('location_updated_at'),
+  estimatedDeliveryTime: timestamp('estimated_delivery_time'),
+  // Geofence events; each moves the status on once (ASSIGNED to AT_PICKUP, PICKED_UP or IN_TRANSIT to ARRIVING)
+  arrivedAtPickupAt: timestamp('arrived_at_pickup_at'),
+  nearDropoffAt: timestamp('near_dropoff_at'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// A delivery price the server offered a customer. The fee is only honoured through the signed quote
+// id, before it expires and once.
+export const deliveryQuotes = pgTable('delivery_quotes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  customerId: integer('customer_id').notNull().references(() => users.id),
+  zoneId: uuid('zone_id').references(() => serviceZones.id),
+  pickupAddress: text('pickup_address').notNull(),
+  deliveryAddress: text('delivery_address').notNull(),
+  pickupLatitude: decimal('pickup_latitude', { precision: 10, scale: 8 }).notNull(),
+  pickupLongitude: decimal('pickup_longitude', { precision: 11, scale: 8 }).notNull(),
+  deliveryLatitude: decimal('delivery_latitude', { precision: 10, scale: 8 }).notNull(),
+  deliveryLongitude: decimal('delivery_longitude', { precision: 11, scale: 8 }).notNull(),
+  deliveryType: varchar('delivery_type', { length: 50 }).notNull(),
+  packageSize: varchar('package_size', { length: 20 }).notNull(),
+  scheduledPickupTime: timestamp('scheduled_pickup_time'),
+  distanceKm: decimal('distance_km', { precision: 8, scale: 2 }).notNull(),
+  durationMinutes: integer('duration_minutes').notNull(),
+  fee: decimal('fee', { precision: 10, scale: 2 }).notNull(),
+  currency: varchar('currency', { length: 3 }).notNull().default('NGN'),
+  breakdown: jsonb('breakdown').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  customerIdx: index('delivery_quotes_customer_idx').on(table.customerId, table.createdAt),
+}));
+
+// Breadcrumb trail of driver positions reported while a delivery is under way
+export const deliveryLocationHistory = pgTable('delivery_location_history', {
+  id: serial('id').primaryKey(),
+  deliveryRequestId: uuid('delivery_request_id').notNull().references(() => deliveryRequests.id),
+  driverId: integer('driver_id').notNull().references(() => users.id),
+  latitude: decimal('latitude', { precision: 10, scale: 8 }).notNull(),
+  longitude: decimal('longitude', { precision: 11, scale: 8 }).notNull(),
+  heading: decimal('heading', { precision: 5, scale: 2 }), // degrees clockwise from north
+  speed: decimal('speed', { precision: 6, scale: 2 }), // km/h as reported by the device
+  accuracy: decimal('accuracy', { precision: 8, scale: 2 }), // metres
+  status: varchar('status', { length: 50 }), // delivery status when the point was recorded
+  recordedAt: timestamp('recorded_at').notNull().defaultNow(),
+}, (table) => ({
+  deliveryIdx: index('delivery_location_history_delivery_idx').on(table.deliveryRequestId, table.recordedAt),
+}));
+
+// One offer of a delivery to one driver; the outcomes feed the driver's acceptance rate
+export const dispatchOffers = pgTable('dispatch_offers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  deliveryRequestId: uuid('delivery_request_id').notNull().references(() => deliveryRequests.id),
+  driverId: integer('driver_id').notNull().references(() => users.id),
+  round: integer('round').notNull().default(0),
+  radiusKm: decimal('radius_km', { precision: 6, scale: 2 }),
+  distanceKm: decimal('distance_km', { precision: 8, scale: 2 }),
+  score: decimal('score', { precision: 6, scale: 2 }),
+  status: varchar('status', { length: 20 }).notNull().default('OFFERED'), // OFFERED, ACCEPTED, DECLINED, EXPIRED, CANCELLED
+  declineReason: text('decline_reason'),
+  offeredAt: timestamp('offered_at').notNull().defaultNow(),
+  expiresAt: timestamp('expires_at').notNull(),
+  respondedAt: timestamp('responded_at'),
+}, (table) => ({
+  deliveryIdx: index('dispatch_offers_delivery_idx').on(table.deliveryRequestId),
+  driverIdx: index('dispatch_offers_driver_idx').on(table.driverId, table.offeredAt),
+  // A delivery is offered to one driver at a time
+  openOfferIdx: uniqueIndex('dispatch_offers_open_idx').on(table.deliveryRequestId).where(sql`status = 'OFFERED'`),
+}));
+
 export const conversations = pgTable('conversations', {
   id: uuid('id').primaryKey().defaultRandom(),
   customerId: integer('customer_id').notNull().references(() => users.id),
@@ -445,7 +783,7 @@ export const transactions = pgTable('transactions', {
   status: varchar('status', { length: 20 }).default('PENDING'),
   description: text('description'),
   paymentMethod: varchar('payment_method', { length: 50 }),
-  transactionRef: varchar('transaction_ref', { length: 255 }),
+  transactionRef: varchar('transaction_ref', { length: 255 }).unique(),
   relatedOrderId: integer('related_order_id').references(() => orders.id),
   relatedTransactionId: integer('related_transaction_id'),
   processedBy: integer('processed_by').references(() => users.id),
@@ -628,6 +966,8 @@ export const fuelOrders = pgTable('fuel_orders', {
   pricePerUnit: varchar('price_per_unit', { length: 20 }).notNull(),
   totalPrice: varchar('total_price', { length: 20 }).notNull(),
   deliveryAddress: text('delivery_address').notNull(),
+  deliveryLatitude: decimal('delivery_latitude', { precision: 10, scale: 8 }),
+  deliveryLongitude: decimal('delivery_longitude', { precision: 11, scale: 8 }),
   deliveryDate: timestamp('delivery_date'),
   specialInstructions: text('special_instructions'),
   orderNumber: varchar('order_number', { length: 100 }).notNull(),
@@ -639,6 +979,46 @@ export const fuelOrders = pgTable('fuel_orders', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Geocoder answers keyed by normalised address; a row without coordinates caches a miss
+export const geocodeCache = pgTable('geocode_cache', {
+  id: serial('id').primaryKey(),
+  queryKey: varchar('query_key', { length: 64 }).notNull().unique(),
+  query: text('query').notNull(),
+  latitude: decimal('latitude', { precision: 10, scale: 8 }),
+  longitude: decimal('longitude', { precision: 11, scale: 8 }),
+  formattedAddress: text('formatted_address'),
+  precision: varchar('precision', { length: 20 }),
+  state: varchar('state', { length: 100 }),
+  lga: varchar('lga', { length: 100 }),
+  provider: varchar('provider', { length: 20 }).notNull(),
+  hitCount: integer('hit_count').notNull().default(0),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  expiresAt: timestamp('expires_at').notNull(),
+});
+
+// Where the platform operates. The boundary is a GeoJSON Polygon or MultiPolygon; the bounding box
+// lets point lookups skip zones that cannot contain the point.
+export const serviceZones = pgTable('service_zones', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull().unique(),
+  description: text('description'),
+  boundary: jsonb('boundary').notNull(),
+  minLatitude: decimal('min_latitude', { precision: 10, scale: 8 }).notNull(),
+  maxLatitude: decimal('max_latitude', { precision: 10, scale: 8 }).notNull(),
+  minLongitude: decimal('min_longitude', { precision: 11, scale: 8 }).notNull(),
+  maxLongitude: decimal('max_longitude', { precision: 11, scale: 8 }).notNull(),
+  baseFee: decimal('base_fee', { precision: 10, scale: 2 }).notNull(),
+  perKmRate: decimal('per_km_rate', { precision: 10, scale: 2 }).notNull(),
+  surgeMultiplier: decimal('surge_multiplier', { precision: 4, scale: 2 }).notNull().default('1.00'),
+  operatingHours: jsonb('operating_hours'), // [{ dayOfWeek, openTime, closeTime }] in Lagos time; null means always open
+  services: jsonb('services').notNull(), // any of DELIVERY, FUEL, TOLL
+  priority: integer('priority').notNull().default(0), // where zones overlap, the highest priority wins
+  isActive: boolean('is_active').notNull().default(true),
+  createdBy: integer('created_by').references(() => users.id),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
 export const tollLocations = pgTable('toll_locations', {
   id: uuid('id').primaryKey().defaultRandom(),
   name: varchar('name', { length: 255 }).notNull(),
@@ -700,6 +1080,178 @@ export const wallets = pgTable('wallets', {
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Double-entry ledger tables
+export const ledgerAccounts = pgTable('ledger_accounts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  code: varchar('code', { length: 100 }).notNull().unique(), // WALLET:<userId>, ESCROW:<orderId>, PLATFORM_FEES, ...
+  accountType: varchar('account_type', { length: 30 }).notNull(), // WALLET, ESCROW, PLATFORM_FEE, PAYOUT, GATEWAY, EQUITY
+  normalBalance: varchar('normal_balance', { length: 10 }).notNull(), // DEBIT or CREDIT
+  userId: integer('user_id').references(() => users.id),
+  orderId: uuid('order_id').references(() => orders.id),
+  currency: varchar('currency', { length: 3 }).default('NGN'),
+  balance: decimal('balance', { precision: 14, scale: 2 }).notNull().default('0.00'),
+  allowNegative: boolean('allow_negative').default(false),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const journalEntries = pgTable('journal_entries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  reference: varchar('reference', { length: 255 }).notNull().unique(),
+  entryType: varchar('entry_type', { length: 50 }).notNull(), // WALLET_FUNDING, WITHDRAWAL, PAYMENT, SETTLEMENT, REFUND, PAYOUT, PAYOUT_REVERSAL, OPENING
+  description: text('description'),
+  transactionId: integer('transaction_id').references(() => transactions.id),
+  orderId: uuid('order_id').references(() => orders.id),
+  createdBy: integer('created_by').references(() => users.id),
+  metadata: json('metadata'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const ledgerPostings = pgTable('ledger_postings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  entryId: uuid('entry_id').notNull().references(() => journalEntries.id),
+  accountId: uuid('account_id').notNull().references(() => ledgerAccounts.id),
+  direction: varchar('direction', { length: 10 }).notNull(), // DEBIT or CREDIT
+  amount: decimal('amount', { precision: 14, scale: 2 }).notNull(),
+  balanceAfter: decimal('balance_after', { precision: 14, scale: 2 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  createdAtIdx: index('ledger_postings_created_at_idx').on(table.createdAt),
+}));
+
+// Payment gateway events (webhooks and callbacks), one row per provider event id
+export const paymentEvents = pgTable('payment_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  provider: varchar('provider', { length: 30 }).notNull(),
+  eventId: varchar('event_id', { length: 255 }).notNull(),
+  eventType: varchar('event_type', { length: 100 }).notNull(),
+  source: varchar('source', { length: 20 }).notNull(), // WEBHOOK, CALLBACK
+  txRef: varchar('tx_ref', { length: 255 }),
+  transactionId: varchar('transaction_id', { length: 255 }),
+  paymentStatus: varchar('payment_status', { length: 20 }).notNull(), // successful, failed, pending
+  amount: decimal('amount', { precision: 14, scale: 2 }),
+  currency: varchar('currency', { length: 3 }),
+  payload: json('payload').notNull(),
+  processingStatus: varchar('processing_status', { length: 20 }).notNull().default('PROCESSING'), // PROCESSING, PROCESSED, IGNORED, FAILED
+  outcome: json('outcome'),
+  error: text('error'),
+  attempts: integer('attempts').notNull().default(1),
+  processedAt: timestamp('processed_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  uniqueProviderEvent: unique().on(table.provider, table.eventId),
+}));
+
+// The gateway each payment reference was started with. Callbacks, verification and webhooks are
+// only trusted from this provider, never one named in the request.
+export const paymentIntents = pgTable('payment_intents', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  txRef: varchar('tx_ref', { length: 255 }).notNull().unique(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  provider: varchar('provider', { length: 30 }).notNull(),
+  purpose: varchar('purpose', { length: 30 }).notNull().default('ORDER'), // ORDER, WALLET_FUNDING
+  amount: decimal('amount', { precision: 14, scale: 2 }).notNull(),
+  currency: varchar('currency', { length: 3 }).default('NGN'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Bank accounts a user can be paid out to. Each was resolved to its holder's name by the gateway
+// when it was saved; withdrawals only go to these, never to details sent with the request.
+export const bankAccounts = pgTable('bank_accounts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  accountNumber: varchar('account_number', { length: 20 }).notNull(),
+  bankCode: varchar('bank_code', { length: 20 }).notNull(),
+  accountName: varchar('account_name', { length: 255 }).notNull(),
+  provider: varchar('provider', { length: 30 }).notNull(), // gateway that resolved the account
+  verifiedAt: timestamp('verified_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  uniqueUserAccount: unique().on(table.userId, table.accountNumber, table.bankCode),
+}));
+
+// Closed accounting months. The finance report is frozen when a month is closed, so later
+// corrections never change figures the books were closed on.
+export const financePeriods = pgTable('finance_periods', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  period: varchar('period', { length: 7 }).notNull().unique(), // YYYY-MM, Lagos time
+  periodStart: timestamp('period_start').notNull(),
+  periodEnd: timestamp('period_end').notNull(),
+  report: jsonb('report').notNull(),
+  checksum: varchar('checksum', { length: 64 }).notNull(), // sha256 of the report JSON
+  notes: text('notes'),
+  closedBy: integer('closed_by').notNull().references(() => users.id),
+  closedAt: timestamp('closed_at').notNull().defaultNow(),
+});
+
+// Background jobs shared by every API instance; workers claim rows with FOR UPDATE SKIP LOCKED
+export const jobs = pgTable('jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  type: varchar('type', { length: 100 }).notNull(),
+  data: json('data').notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('PENDING'), // PENDING, RUNNING, COMPLETED, DEAD
+  priority: integer('priority').notNull().default(0), // higher runs first
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(5),
+  backoffMs: integer('backoff_ms').notNull().default(5000), // base delay, doubled after each failed attempt
+  repeatEveryMs: integer('repeat_every_ms'), // recurring jobs schedule their next run on completion
+  uniqueKey: varchar('unique_key', { length: 255 }),
+  runAt: timestamp('run_at').notNull().defaultNow(),
+  lockedAt: timestamp('locked_at'),
+  lockedBy: varchar('locked_by', { length: 255 }),
+  lastError: text('last_error'),
+  result: json('result'),
+  completedAt: timestamp('completed_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  // Only one live job per unique key; finished jobs keep their key for history.
+  // drizzle-kit drops the WHERE clause, so migration 0008 adds it by hand.
+  uniqueLiveKey: uniqueIndex('jobs_unique_live_key').on(table.uniqueKey).where(sql`status in ('PENDING', 'RUNNING')`),
+  claimIdx: index('jobs_claim_idx').on(table.status, table.type, table.runAt),
+}));
+
+// Analytics events, written in batches. Rollup tables keep per-bucket totals for every event type,
+// overall (dimension 'all', dimensionValue '') and per merchant and zone, after raw events are purged.
+export const analyticsEvents = pgTable('analytics_events', {
+  id: serial('id').primaryKey(),
+  eventType: varchar('event_type', { length: 100 }).notNull(),
+  occurredAt: timestamp('occurred_at').notNull().defaultNow(),
+  userId: integer('user_id'), // dimensions are not foreign keys so events outlive what they describe
+  merchantId: integer('merchant_id'),
+  zoneId: varchar('zone_id', { length: 64 }),
+  sessionId: varchar('session_id', { length: 64 }),
+  value: decimal('value', { precision: 18, scale: 4 }), // summed and ranked by the query API, e.g. an order total
+  data: jsonb('data'),
+}, (table) => ({
+  typeTimeIdx: index('analytics_events_type_time_idx').on(table.eventType, table.occurredAt),
+  merchantTimeIdx: index('analytics_events_merchant_time_idx').on(table.merchantId, table.occurredAt),
+  zoneTimeIdx: index('analytics_events_zone_time_idx').on(table.zoneId, table.occurredAt),
+  occurredAtIdx: index('analytics_events_occurred_at_idx').on(table.occurredAt),
+}));
+
+const analyticsRollupTable = (name: string) => pgTable(name, {
+  dimension: varchar('dimension', { length: 20 }).notNull(), // all, merchant, zone
+  dimensionValue: varchar('dimension_value', { length: 64 }).notNull(),
+  eventType: varchar('event_type', { length: 100 }).notNull(),
+  bucketStart: timestamp('bucket_start').notNull(),
+  eventCount: integer('event_count').notNull().default(0),
+  valueCount: integer('value_count').notNull().default(0), // events that carried a value
+  valueSum: decimal('value_sum', { precision: 20, scale: 4 }).notNull().default('0'),
+  valueMin: decimal('value_min', { precision: 18, scale: 4 }),
+  valueMax: decimal('value_max', { precision: 18, scale: 4 }),
+}, (table) => ({
+  bucketKey: unique(`${name}_bucket_key`).on(table.dimension, table.dimensionValue, table.eventType, table.bucketStart),
+  bucketIdx: index(`${name}_bucket_idx`).on(table.bucketStart),
+}));
+
+export const analyticsRollupsMinute = analyticsRollupTable('analytics_rollups_minute');
+export const analyticsRollupsHour = analyticsRollupTable('analytics_rollups_hour');
+export const analyticsRollupsDay = analyticsRollupTable('analytics_rollups_day');
+
 // Security and logging tables
 export const securityLogs = pgTable('security_logs', {
   id: uuid('id').primaryKey().defaultRandom(),
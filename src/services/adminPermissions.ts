@@ -0,0 +1,176 @@
+import db from '../config/database';
+import { adminRoleAssignments, users } from '../schema';
+import { eq, and, ne, inArray, notInArray, sql } from 'drizzle-orm';
+
+const PERMISSIONS = {
+  'analytics.view': 'View the admin dashboard and platform analytics',
+  'users.view': 'View user accounts',
+  'users.manage': 'Verify, suspend and reactivate users, and reset their MFA',
+  'admins.manage': 'Create admins and assign admin roles',
+  'verifications.review': 'Approve or reject identity and driver verifications',
+  'support.manage': 'Work support tickets and live chat conversations',
+  'moderation.manage': 'Review content and user reports',
+  'fraud.manage': 'Investigate and resolve fraud alerts and flag users',
+  'blacklist.manage': 'Add and remove blacklist entries',
+  'finance.view': 'View the ledger, payment events, toll transactions and finance reports',
+  'finance.manage': 'Replay payment events, issue refunds, confirm payouts and close finance periods',
+  'notifications.manage': 'Manage notification templates and send platform notifications',
+  'catalog.manage': 'Manage business categories, commodities and toll locations',
+  'dispatch.manage': 'Configure and run delivery auto-assignment',
+  'zones.manage': 'Manage service zones, their pricing, operating hours and services',
+  'system.view': 'View system health, metrics and background jobs',
+  'system.operate': 'Retry, delete and purge jobs and trigger backups',
+  'audit.view': 'Search, export and verify the audit trail',
+} as const;
+
+type Permission = keyof typeof PERMISSIONS;
+
+const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+const ROLES = {
+  SUPER_ADMIN: ALL_PERMISSIONS,
+  SUPPORT_AGENT: ['users.view', 'support.manage'],
+  FINANCE: ['analytics.view', 'finance.view', 'finance.manage'],
+  COMPLIANCE: ['users.view', 'users.manage', 'verifications.review', 'fraud.manage', 'blacklist.manage', 'finance.view', 'audit.view'],
+  MODERATOR: ['users.view', 'moderation.manage'],
+} satisfies Record<string, Permission[]>;
+
+type AdminRole = keyof typeof ROLES;
+
+class AdminPermissionError extends Error {
+  constructor(public code: 'NOT_ADMIN' | 'LAST_SUPER_ADMIN', message: string) {
+    super(message);
+    this.name = 'AdminPermissionError';
+  }
+}
+
+class AdminPermissionService {
+  isRole(value: string): value is AdminRole {
+    return value in ROLES;
+  }
+
+  isPermission(value: string): value is Permission {
+    return value in PERMISSIONS;
+  }
+
+  // The role and permission catalogue, for the management UI
+  describe() {
+    return {
+      permissions: ALL_PERMISSIONS.map(name => ({ name, description: PERMISSIONS[name] })),
+      roles: (Object.keys(ROLES) as AdminRole[]).map(name => ({ name, permissions: ROLES[name] })),
+    };
+  }
+
+  async getRoles(userId: number): Promise<AdminRole[]> {
+    const rows = await db.select({ role: adminRoleAssignments.role })
+      .from(adminRoleAssignments)
+      .where(eq(adminRoleAssignments.userId, userId));
+    // Roles dropped from the catalogue simply stop granting anything
+    return rows.map(row => row.role).filter((role): role is AdminRole => this.isRole(role));
+  }
+
+  async getPermissions(userId: number): Promise<Set<Permission>> {
+    const roles = await this.getRoles(userId);
+    return new Set(roles.flatMap(role => ROLES[role] as Permission[]));
+  }
+
+  async hasPermission(userId: number, permission: Permission): Promise<boolean> {
+    return (await this.getPermissions(userId)).has(permission);
+  }
+
+  // Replace an admin's roles. The last super admin cannot give the role up, so the platform
+  // always keeps someone able to assign roles.
+  async setRoles(userId: number, roles: AdminRole[], grantedBy: number): Promise<AdminRole[]> {
+    const [admin] = await db.select({ role: users.role }).from(users).where(eq(users.id, userId));
+    if (!admin || admin.role !== 'ADMIN') {
+      throw new AdminPermissionError('NOT_ADMIN', 'User is not an admin');
+    }
+
+    const wanted = [...new Set(roles)];
+    await db.transaction(async (tx) => {
+      // Serialise role changes so two concurrent demotions cannot both pass the last-super-admin check
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('admin_role_assignments'))`);
+
+      if (!wanted.includes('SUPER_ADMIN')) {
+        const [others] = await tx.select({ count: sql<number>`count(*)::int` })
+          .from(adminRoleAssignments)
+          .innerJoin(users, eq(users.id, adminRoleAssignments.userId))
+          .where(and(
+            eq(adminRoleAssignments.role, 'SUPER_ADMIN'),
+            ne(adminRoleAssignments.userId, userId),
+            eq(users.isActive, true),
+          ));
+        const [current] = await tx.select({ id: adminRoleAssignments.id })
+          .from(adminRoleAssignments)
+          .where(and(eq(adminRoleAssignments.userId, userId), eq(adminRoleAssignments.role, 'SUPER_ADMIN')));
+        if (current && others.count === 0) {
+          throw new AdminPermissionError('LAST_SUPER_ADMIN', 'Cannot remove the last active super admin');
+        }
+      }
+
+      await tx.delete(adminRoleAssignments).where(and(
+        eq(adminRoleAssignments.userId, userId),
+        wanted.length > 0 ? notInArray(adminRoleAssignments.role, wanted) : undefined,
+      ));
+      if (wanted.length > 0) {
+        await tx.insert(adminRoleAssignments)
+          .values(wanted.map(role => ({ userId, role, grantedBy })))
+          .onConflictDoNothing();
+      }
+    });
+
+    return wanted;
+  }
+
+  // Every admin account with its roles
+  async listAdmins() {
+    const admins = await db.select({
+      id: users.id,
+      userId: users.userId,
+      fullName: users.fullName,
+      email: users.email,
+      isActive: users.isActive,
+      createdAt: users.createdAt,
+    })
+      .from(users)
+      .where(eq(users.role, 'ADMIN'))
+      .orderBy(users.createdAt);
+    if (admins.length === 0) {
+      return [];
+    }
+
+    const assignments = await db.select()
+      .from(adminRoleAssignments)
+      .where(inArray(adminRoleAssignments.userId, admins.map(admin => admin.id)));
+
+    return admins.map(admin => ({
+      ...admin,
+      roles: assignments
+        .filter(assignment => assignment.userId === admin.id)
+        .map(assignment => ({ role: assignment.role, grantedBy: assignment.grantedBy, grantedAt: assignment.createdAt })),
+    }));
+  }
+
+  // Ids of active admins granted a permission through any of their roles, e.g. to alert whoever can act on it
+  async listAdminIdsWithPermission(permission: Permission): Promise<number[]> {
+    const roles = (Object.keys(ROLES) as AdminRole[]).filter(role => (ROLES[role] as Permission[]).includes(permission));
+    const rows = await db.selectDistinct({ userId: adminRoleAssignments.userId })
+      .from(adminRoleAssignments)
+      .innerJoin(users, eq(users.id, adminRoleAssignments.userId))
+      .where(and(
+        inArray(adminRoleAssignments.role, roles),
+        eq(users.role, 'ADMIN'),
+        eq(users.isActive, true),
+      ));
+    return rows.map(row => row.userId);
+  }
+
+  // True until the first role is ever assigned; lets the initial admin registration bootstrap a super admin
+  async hasNoAssignments(): Promise<boolean> {
+    const [row] = await db.select({ id: adminRoleAssignments.id }).from(adminRoleAssignments).limit(1);
+    return !row;
+  }
+}
+
+export const adminPermissionService = new AdminPermissionService();
+export { AdminPermissionService, AdminPermissionError, Permission, AdminRole };
@@ -0,0 +1,490 @@
+import db from '../config/database';
+import { analyticsEvents, analyticsRollupsMinute, analyticsRollupsHour, analyticsRollupsDay } from '../schema';
+import { and, eq, gte, lt, inArray, sql, SQL } from 'drizzle-orm';
+import { ANALYTICS_EVENT_RETENTION_DAYS } from '../config/environment';
+import { messageQueue, JobTypes } from './messageQueue';
+
+type AnalyticsInterval = 'minute' | 'hour' | 'day';
+type AnalyticsDimension = 'merchant' | 'zone';
+type AnalyticsGroupBy = AnalyticsDimension | 'eventType';
+type AnalyticsMetric = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'p50' | 'p90' | 'p95' | 'p99';
+
+interface TrackOptions {
+  userId?: number | null;
+  merchantId?: number | null;
+  zoneId?: string | null;
+  sessionId?: string | null;
+  // Measured quantity that sum, avg, min, max and the percentiles work on, e.g. an order total
+  value?: number | string | null;
+  occurredAt?: Date;
+}
+
+interface AnalyticsQuery {
+  metric: AnalyticsMetric;
+  interval: AnalyticsInterval;
+  from: Date;
+  to: Date;
+  eventTypes?: string[];
+  merchantId?: number;
+  zoneId?: string;
+  groupBy?: AnalyticsGroupBy;
+}
+
+interface AnalyticsPoint {
+  bucket: Date;
+  value: number | null;
+}
+
+interface AnalyticsSeries {
+  // Event type, merchant id or zone id when grouped; null otherwise
+  key: string | null;
+  // Over the whole range: the count or sum, or the metric over every matching event
+  total: number | null;
+  points: AnalyticsPoint[];
+}
+
+interface AnalyticsResult {
+  metric: AnalyticsMetric;
+  interval: AnalyticsInterval;
+  from: Date;
+  to: Date;
+  // rollup tables, or raw events when the query needs them (percentiles, or merchant and zone together)
+  source: 'rollups' | 'events';
+  series: AnalyticsSeries[];
+}
+
+class AnalyticsQueryError extends Error {
+  constructor(public code: 'INVALID_QUERY', message: string) {
+    super(message);
+    this.name = 'AnalyticsQueryError';
+  }
+}
+
+type AnalyticsEventRow = typeof analyticsEvents.$inferInsert;
+type RollupTable = typeof analyticsRollupsMinute;
+
+interface RollupRow {
+  dimension: 'all' | AnalyticsDimension;
+  dimensionValue: string;
+  eventType: string;
+  bucketStart: Date;
+  eventCount: number;
+  valueCount: number;
+  valueSum: number;
+  valueMin: number | null;
+  valueMax: number | null;
+}
+
+const INTERVALS: AnalyticsInterval[] = ['minute', 'hour', 'day'];
+const METRICS: AnalyticsMetric[] = ['count', 'sum', 'avg', 'min', 'max', 'p50', 'p90', 'p95', 'p99'];
+const GROUP_BYS: AnalyticsGroupBy[] = ['merchant', 'zone', 'eventType'];
+const INTERVAL_MS: Record<AnalyticsInterval, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+const ROLLUP_TABLES: Record<AnalyticsInterval, RollupTable> = {
+  minute: analyticsRollupsMinute,
+  hour: analyticsRollupsHour,
+  day: analyticsRollupsDay,
+};
+// Rollup retention; day buckets are kept forever
+const ROLLUP_RETENTION_DAYS: Partial<Record<AnalyticsInterval, number>> = { minute: 7, hour: 400 };
+
+const BATCH_SIZE = 500;
+const FLUSH_DELAY_MS = 1000;
+const RETRY_DELAY_MS = 5000;
+// Events held while the database is unreachable; beyond this the oldest are dropped
+const MAX_PENDING = 20000;
+const MAX_BUCKETS = 1500;
+const MAX_SERIES = 50;
+
+// Buckets are whole UTC minutes, hours and days
+const bucketStart = (time: Date, interval: AnalyticsInterval): Date =>
+  new Date(Math.floor(time.getTime() / INTERVAL_MS[interval]) * INTERVAL_MS[interval]);
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+// trackEvent queues an event and returns at once; one writer per process stores queued events
+// together with their rollups, so history survives restarts and is shared by every instance
+class AnalyticsService {
+  private pending: AnalyticsEventRow[] = [];
+  private flushTimer?: NodeJS.Timeout;
+  private flushing = false;
+
+  constructor() {
+    messageQueue.registerHandler(JobTypes.PURGE_ANALYTICS, async () => this.purgeExpired(), { concurrency: 1 });
+  }
+
+  // Merchant, zone and user default to data.merchantId, data.zoneId and data.userId
+  async trackEvent(eventType: string, data: Record<string, any> = {}, options: TrackOptions = {}): Promise<void> {
+    const merchantId = toNumber(options.merchantId ?? data.merchantId);
+    const userId = toNumber(options.userId ?? data.userId);
+    const zoneId = options.zoneId ?? data.zoneId;
+
+    this.pending.push({
+      eventType: eventType.slice(0, 100),
+      occurredAt: options.occurredAt || new Date(),
+      userId: userId !== null ? Math.trunc(userId) : null,
+      merchantId: merchantId !== null ? Math.trunc(merchantId) : null,
+      zoneId: zoneId ? String(zoneId).slice(0, 64) : null,
+      sessionId: options.sessionId?.slice(0, 64) ?? null,
+      value: toNumber(options.value)?.toFixed(4) ?? null,
+      data,
+    });
+
+    if (this.pending.length > MAX_PENDING) {
+      const dropped = this.pending.splice(0, this.pending.length - MAX_PENDING);
+      console.error(`Analytics backlog full, dropped ${dropped.length} events`);
+    }
+    this.scheduleFlush(this.pending.length >= BATCH_SIZE ? 0 : FLUSH_DELAY_MS);
+  }
+
+  // Write everything queued so far, e.g. before shutting down
+  async flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    while (this.pending.length > 0) {
+      if (!(await this.writeBatch())) return;
+    }
+  }
+
+  // Validate query-string style input; defaults to hourly counts over the last 24 hours
+  parseQuery(raw: Record<string, unknown>): AnalyticsQuery {
+    const metric = (raw.metric || 'count') as AnalyticsMetric;
+    if (!METRICS.includes(metric)) {
+      throw new AnalyticsQueryError('INVALID_QUERY', `metric must be one of ${METRICS.join(', ')}`);
+    }
+    const interval = (raw.interval || 'hour') as AnalyticsInterval;
+    if (!INTERVALS.includes(interval)) {
+      throw new AnalyticsQueryError('INVALID_QUERY', `interval must be one of ${INTERVALS.join(', ')}`);
+    }
+    const groupBy = raw.groupBy ? raw.groupBy as AnalyticsGroupBy : undefined;
+    if (groupBy && !GROUP_BYS.includes(groupBy)) {
+      throw new AnalyticsQueryError('INVALID_QUERY', `groupBy must be one of ${GROUP_BYS.join(', ')}`);
+    }
+
+    const to = raw.to ? new Date(raw.to as string) : new Date();
+    const from = raw.from ? new Date(raw.from as string) : new Date(to.getTime() - INTERVAL_MS.day);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      throw new AnalyticsQueryError('INVALID_QUERY', 'from and to must be valid dates with from before to');
+    }
+    if ((to.getTime() - bucketStart(from, interval).getTime()) / INTERVAL_MS[interval] > MAX_BUCKETS) {
+      throw new AnalyticsQueryError('INVALID_QUERY', `At most ${MAX_BUCKETS} ${interval} buckets per query; use a longer interval`);
+    }
+
+    const merchantId = raw.merchantId !== undefined && raw.merchantId !== '' ? Number(raw.merchantId) : undefined;
+    if (merchantId !== undefined && !Number.isInteger(merchantId)) {
+      throw new AnalyticsQueryError('INVALID_QUERY', 'merchantId must be an integer');
+    }
+    const eventTypes = typeof raw.eventType === 'string'
+      ? raw.eventType.split(',').map(type => type.trim()).filter(Boolean)
+      : Array.isArray(raw.eventType) ? raw.eventType.map(String) : undefined;
+
+    return {
+      metric,
+      interval,
+      from,
+      to,
+      eventTypes: eventTypes?.length ? eventTypes : undefined,
+      merchantId,
+      zoneId: raw.zoneId ? String(raw.zoneId) : undefined,
+      groupBy,
+    };
+  }
+
+  // Time-bucketed metric, optionally split into one series per event type, merchant or zone.
+  // Counts and value totals come from the rollups; percentiles need the raw events, so they only
+  // reach back ANALYTICS_EVENT_RETENTION_DAYS.
+  async query(query: AnalyticsQuery): Promise<AnalyticsResult> {
+    const fromRollups = !query.metric.startsWith('p') && this.rollupDimension(query) !== null;
+    const rows = fromRollups ? await this.queryRollups(query) : await this.queryEvents(query);
+
+    const buckets: Date[] = [];
+    for (let time = bucketStart(query.from, query.interval).getTime(); time < query.to.getTime(); time += INTERVAL_MS[query.interval]) {
+      buckets.push(new Date(time));
+    }
+
+    const additive = query.metric === 'count' || query.metric === 'sum';
+    const byKey = new Map<string | null, Map<number, number | null>>();
+    for (const row of rows) {
+      if (!byKey.has(row.key)) byKey.set(row.key, new Map());
+      byKey.get(row.key)!.set(new Date(row.bucket).getTime(), toNumber(row.value));
+    }
+
+    const totals = await this.totals(query, fromRollups, [...byKey.keys()]);
+    const series = [...byKey.entries()]
+      .map(([key, values]) => ({
+        key,
+        total: totals.get(key) ?? null,
+        points: buckets.map(bucket => ({
+          bucket,
+          value: values.get(bucket.getTime()) ?? (additive ? 0 : null),
+        })),
+      }))
+      .sort((a, b) => (b.total ?? -Infinity) - (a.total ?? -Infinity))
+      .slice(0, MAX_SERIES);
+
+    return {
+      metric: query.metric,
+      interval: query.interval,
+      from: query.from,
+      to: query.to,
+      source: fromRollups ? 'rollups' : 'events',
+      series,
+    };
+  }
+
+  // Drop raw events past ANALYTICS_EVENT_RETENTION_DAYS and rollups past their own retention
+  async purgeExpired(): Promise<{ events: number; rollups: number }> {
+    const now = Date.now();
+    let events = 0;
+    if (ANALYTICS_EVENT_RETENTION_DAYS > 0) {
+      const cutoff = new Date(now - ANALYTICS_EVENT_RETENTION_DAYS * INTERVAL_MS.day);
+      const purged = await db.delete(analyticsEvents).where(lt(analyticsEvents.occurredAt, cutoff));
+      events = purged.count;
+    }
+
+    let rollups = 0;
+    for (const interval of INTERVALS) {
+      const days = ROLLUP_RETENTION_DAYS[interval];
+      if (!days) continue;
+      const table = ROLLUP_TABLES[interval];
+      const purged = await db.delete(table).where(lt(table.bucketStart, new Date(now - days * INTERVAL_MS.day)));
+      rollups += purged.count;
+    }
+    return { events, rollups };
+  }
+
+  // Which rollup rows answer the query, or null when only raw events can
+  private rollupDimension(query: AnalyticsQuery): 'all' | AnalyticsDimension | null {
+    if (query.merchantId !== undefined && query.zoneId !== undefined) return null;
+    const filtered: AnalyticsDimension | null = query.merchantId !== undefined ? 'merchant' : query.zoneId !== undefined ? 'zone' : null;
+    const grouped = query.groupBy === 'merchant' || query.groupBy === 'zone' ? query.groupBy : null;
+    if (filtered && grouped && filtered !== grouped) return null;
+    return filtered || grouped || 'all';
+  }
+
+  private rollupWhere(query: AnalyticsQuery, table: RollupTable): SQL | undefined {
+    const dimension = this.rollupDimension(query)!;
+    const filterValue = dimension === 'merchant' ? query.merchantId : dimension === 'zone' ? query.zoneId : undefined;
+    return and(
+      eq(table.dimension, dimension),
+      filterValue !== undefined ? eq(table.dimensionValue, String(filterValue)) : undefined,
+      query.eventTypes ? inArray(table.eventType, query.eventTypes) : undefined,
+      gte(table.bucketStart, bucketStart(query.from, query.interval)),
+      lt(table.bucketStart, query.to),
+    );
+  }
+
+  private rollupKey(query: AnalyticsQuery, table: RollupTable): SQL {
+    if (query.groupBy === 'eventType') return sql`${table.eventType}`;
+    if (query.groupBy) return sql`${table.dimensionValue}`;
+    return sql`null`;
+  }
+
+  private rollupMetric(metric: AnalyticsMetric, table: RollupTable): SQL {
+    switch (metric) {
+      case 'count': return sql`sum(${table.eventCount})`;
+      case 'sum': return sql`sum(${table.valueSum})`;
+      case 'avg': return sql`sum(${table.valueSum}) / nullif(sum(${table.valueCount}), 0)`;
+      case 'min': return sql`min(${table.valueMin})`;
+      default: return sql`max(${table.valueMax})`;
+    }
+  }
+
+  private async queryRollups(query: AnalyticsQuery) {
+    const table = ROLLUP_TABLES[query.interval];
+    const key = this.rollupKey(query, table);
+    return db.select({
+      bucket: table.bucketStart,
+      key: sql<string | null>`${key}`,
+      value: sql<string | null>`${this.rollupMetric(query.metric, table)}`,
+    })
+      .from(table)
+      .where(this.rollupWhere(query, table))
+      .groupBy(...(query.groupBy ? [table.bucketStart, key] : [table.bucketStart]));
+  }
+
+  private eventWhere(query: AnalyticsQuery): SQL | undefined {
+    return and(
+      query.eventTypes ? inArray(analyticsEvents.eventType, query.eventTypes) : undefined,
+      query.merchantId !== undefined ? eq(analyticsEvents.merchantId, query.merchantId) : undefined,
+      query.zoneId !== undefined ? eq(analyticsEvents.zoneId, query.zoneId) : undefined,
+      gte(analyticsEvents.occurredAt, bucketStart(query.from, query.interval)),
+      lt(analyticsEvents.occurredAt, query.to),
+    );
+  }
+
+  private eventKey(groupBy?: AnalyticsGroupBy): SQL {
+    switch (groupBy) {
+      case 'eventType': return sql`${analyticsEvents.eventType}`;
+      case 'merchant': return sql`${analyticsEvents.merchantId}::text`;
+      case 'zone': return sql`${analyticsEvents.zoneId}`;
+      default: return sql`null`;
+    }
+  }
+
+  private eventMetric(metric: AnalyticsMetric): SQL {
+    switch (metric) {
+      case 'count': return sql`count(*)`;
+      case 'sum': return sql`sum(${analyticsEvents.value})`;
+      case 'avg': return sql`avg(${analyticsEvents.value})`;
+      case 'min': return sql`min(${analyticsEvents.value})`;
+      case 'max': return sql`max(${analyticsEvents.value})`;
+      default: {
+        const fraction = Number(metric.slice(1)) / 100;
+        return sql`percentile_cont(${sql.raw(String(fraction))}) within group (order by ${analyticsEvents.value})`;
+      }
+    }
+  }
+
+  private async queryEvents(query: AnalyticsQuery) {
+    // interval is one of INTERVALS, so it is safe to inline
+    const bucket = sql`date_trunc('${sql.raw(query.interval)}', ${analyticsEvents.occurredAt})`;
+    const key = this.eventKey(query.groupBy);
+    return db.select({
+      bucket: sql<Date>`${bucket}`,
+      key: sql<string | null>`${key}`,
+      value: sql<string | null>`${this.eventMetric(query.metric)}`,
+    })
+      .from(analyticsEvents)
+      .where(this.eventWhere(query))
+      .groupBy(...(query.groupBy ? [bucket, key] : [bucket]));
+  }
+
+  // Whole-range figure per series; the points would add up to it for counts and sums, but an
+  // average or percentile has to be computed over the range
+  private async totals(query: AnalyticsQuery, fromRollups: boolean, keys: Array<string | null>): Promise<Map<string | null, number | null>> {
+    if (keys.length === 0) {
+      return new Map();
+    }
+
+    // Postgres refuses a constant in GROUP BY, so ungrouped queries have none
+    const grouped = !!query.groupBy;
+    let rows: Array<{ key: string | null; value: string | null }>;
+    if (fromRollups) {
+      const table = ROLLUP_TABLES[query.interval];
+      const key = this.rollupKey(query, table);
+      rows = await db.select({ key: sql<string | null>`${key}`, value: sql<string | null>`${this.rollupMetric(query.metric, table)}` })
+        .from(table)
+        .where(this.rollupWhere(query, table))
+        .groupBy(...(grouped ? [key] : []));
+    } else {
+      const key = this.eventKey(query.groupBy);
+      rows = await db.select({ key: sql<string | null>`${key}`, value: sql<string | null>`${this.eventMetric(query.metric)}` })
+        .from(analyticsEvents)
+        .where(this.eventWhere(query))
+        .groupBy(...(grouped ? [key] : []));
+    }
+    return new Map(rows.map(row => [row.key, toNumber(row.value)]));
+  }
+
+  private scheduleFlush(delay: number) {
+    if (this.flushing) {
+      return;
+    }
+    if (this.flushTimer && delay > 0) {
+      return;
+    }
+    clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.writeBatch();
+    }, delay);
+  }
+
+  // Store one batch of events and add it to every rollup. Both happen in one transaction, so a
+  // failed batch is retried whole without counting any event twice.
+  private async writeBatch(): Promise<boolean> {
+    const batch = this.pending.splice(0, BATCH_SIZE);
+    if (batch.length === 0) {
+      return true;
+    }
+
+    this.flushing = true;
+    let written = false;
+    try {
+      await db.transaction(async (tx) => {
+        await tx.insert(analyticsEvents).values(batch);
+        for (const interval of INTERVALS) {
+          const table = ROLLUP_TABLES[interval];
+          const rows = this.rollUp(batch, interval);
+          await tx.insert(table)
+            .values(rows.map(row => ({
+              ...row,
+              valueSum: row.valueSum.toFixed(4),
+              valueMin: row.valueMin?.toFixed(4) ?? null,
+              valueMax: row.valueMax?.toFixed(4) ?? null,
+            })))
+            .onConflictDoUpdate({
+              target: [table.dimension, table.dimensionValue, table.eventType, table.bucketStart],
+              set: {
+                eventCount: sql`${table.eventCount} + excluded.event_count`,
+                valueCount: sql`${table.valueCount} + excluded.value_count`,
+                valueSum: sql`${table.valueSum} + excluded.value_sum`,
+                valueMin: sql`least(${table.valueMin}, excluded.value_min)`,
+                valueMax: sql`greatest(${table.valueMax}, excluded.value_max)`,
+              },
+            });
+        }
+      });
+      written = true;
+    } catch (error) {
+      console.error(`Failed to write ${batch.length} analytics events, retrying:`, error);
+      this.pending.unshift(...batch);
+    } finally {
+      this.flushing = false;
+      if (this.pending.length > 0) {
+        this.scheduleFlush(written ? (this.pending.length >= BATCH_SIZE ? 0 : FLUSH_DELAY_MS) : RETRY_DELAY_MS);
+      }
+    }
+    return written;
+  }
+
+  private rollUp(batch: AnalyticsEventRow[], interval: AnalyticsInterval): RollupRow[] {
+    const rows = new Map<string, RollupRow>();
+    for (const event of batch) {
+      const bucket = bucketStart(event.occurredAt!, interval);
+      const value = toNumber(event.value);
+      const dimensions: Array<[RollupRow['dimension'], string]> = [['all', '']];
+      if (event.merchantId !== null && event.merchantId !== undefined) dimensions.push(['merchant', String(event.merchantId)]);
+      if (event.zoneId) dimensions.push(['zone', event.zoneId]);
+
+      for (const [dimension, dimensionValue] of dimensions) {
+        const key = `${dimension}|${dimensionValue}|${event.eventType}|${bucket.getTime()}`;
+        let row = rows.get(key);
+        if (!row) {
+          row = { dimension, dimensionValue, eventType: event.eventType, bucketStart: bucket, eventCount: 0, valueCount: 0, valueSum: 0, valueMin: null, valueMax: null };
+          rows.set(key, row);
+        }
+        row.eventCount++;
+        if (value !== null) {
+          row.valueCount++;
+          row.valueSum += value;
+          row.valueMin = row.valueMin === null ? value : Math.min(row.valueMin, value);
+          row.valueMax = row.valueMax === null ? value : Math.max(row.valueMax, value);
+        }
+      }
+    }
+    return [...rows.values()];
+  }
+}
+
+export const analyticsService = new AnalyticsService();
+export {
+  AnalyticsService,
+  AnalyticsQueryError,
+  AnalyticsQuery,
+  AnalyticsResult,
+  AnalyticsSeries,
+  AnalyticsPoint,
+  AnalyticsInterval,
+  AnalyticsMetric,
+  AnalyticsGroupBy,
+  TrackOptions,
+};
@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import db from '../config/database';
+import { auditLogs } from '../schema';
+import { eq, and, gte, lte, lt, gt, ilike, desc, asc, sql } from 'drizzle-orm';
+import { AUDIT_LOG_RETENTION_DAYS } from '../config/environment';
+import { messageQueue, JobTypes } from './messageQueue';
+import { toCsv } from '../utils/csv';
+
+interface AuditEntry {
+  actorId?: number | null;
+  actorRole?: string | null;
+  action: string;
+  resource?: string | null;
+  resourceId?: string | number | null;
+  method?: string | null;
+  path?: string | null;
+  statusCode?: number | null;
+  success?: boolean | null;
+  requestId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  changes?: AuditChanges | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+interface AuditFilters {
+  actorId?: number;
+  actorRole?: string;
+  action?: string;
+  resource?: string;
+  resourceId?: string;
+  requestId?: string;
+  success?: boolean;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+interface ChainCheck {
+  valid: boolean;
+  checked: number;
+  firstId?: number;
+  lastId?: number;
+  brokenAt?: number;
+  reason?: string;
+}
+
+type AuditLog = typeof auditLogs.$inferSelect;
+type HashedFields = Omit<AuditLog, 'id' | 'prevHash' | 'hash'>;
+
+interface PendingEntry {
+  row: HashedFields;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+// prevHash of the first entry ever written
+const GENESIS_HASH = '0'.repeat(64);
+const BATCH_SIZE = 100;
+const FLUSH_DELAY_MS = 50;
+const EXPORT_LIMIT = 50000;
+const VERIFY_PAGE_SIZE = 1000;
+const CSV_COLUMNS: (keyof AuditLog)[] = [
+  'id', 'createdAt', 'actorId', 'actorRole', 'action', 'resource', 'resourceId', 'method', 'path',
+  'statusCode', 'success', 'requestId', 'ipAddress', 'userAgent', 'changes', 'metadata', 'prevHash', 'hash',
+];
+
+// JSON with object keys sorted at every level, so a row read back from jsonb hashes the same as when it was written
+const canonical = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  const entries = Object.keys(value as object)
+    .filter(key => (value as any)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonical((value as any)[key])}`);
+  return `{${entries.join(',')}}`;
+};
+
+const chainHash = (prevHash: string, row: HashedFields): string =>
+  crypto.createHash('sha256')
+    .update(prevHash)
+    .update(canonical({ ...row, createdAt: row.createdAt.toISOString() }))
+    .digest('hex');
+
+// Round-trip through JSON so values are stored exactly as they will later be read and re-hashed
+const plain = <T>(value: T): T => (value === undefined || value === null ? value : JSON.parse(JSON.stringify(value)));
+
+class AuditLogService {
+  private pending: PendingEntry[] = [];
+  private flushTimer?: NodeJS.Timeout;
+  private flushing = false;
+
+  constructor() {
+    messageQueue.registerHandler(JobTypes.PURGE_AUDIT_LOGS, async () => ({ purged: await this.purgeExpired() }), { concurrency: 1 });
+  }
+
+  // Queue an entry for the chain. Entries are written in small batches by one writer; await the
+  // result when the caller must know the entry is stored.
+  record(entry: AuditEntry): Promise<void> {
+    const row: HashedFields = {
+      createdAt: new Date(),
+      actorId: entry.actorId ?? null,
+      actorRole: entry.actorRole ?? null,
+      action: entry.action.slice(0, 150),
+      resource: entry.resource?.slice(0, 50) ?? null,
+      resourceId: entry.resourceId !== undefined && entry.resourceId !== null ? String(entry.resourceId).slice(0, 100) : null,
+      method: entry.method ?? null,
+      path: entry.path ?? null,
+      statusCode: entry.statusCode ?? null,
+      success: entry.success ?? null,
+      requestId: entry.requestId?.slice(0, 64) ?? null,
+      ipAddress: entry.ipAddress?.slice(0, 45) ?? null,
+      userAgent: entry.userAgent ?? null,
+      changes: plain(entry.changes) ?? null,
+      metadata: plain(entry.metadata) ?? null,
+    };
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ row, resolve, reject });
+      this.scheduleFlush();
+    });
+  }
+
+  // Fields that differ between two versions of a record
+  diff(before: Record<string, any> | null | undefined, after: Record<string, any> | null | undefined, fields?: string[]): AuditChanges {
+    const keys = fields || [...new Set([...Object.keys(before || {}), ...Object.keys(after || {})])];
+    const changes: AuditChanges = {};
+    for (const key of keys) {
+      const previous = before?.[key] ?? null;
+      const next = after?.[key] ?? null;
+      if (canonical(plain(previous)) !== canonical(plain(next))) {
+        changes[key] = { before: plain(previous), after: plain(next) };
+      }
+    }
+    return changes;
+  }
+
+  async query(filters: AuditFilters = {}) {
+    const where = this.buildWhere(filters);
+    const [entries, [{ total }]] = await Promise.all([
+      db.select()
+        .from(auditLogs)
+        .where(where)
+        .orderBy(desc(auditLogs.id))
+        .limit(filters.limit ?? 50)
+        .offset(filters.offset ?? 0),
+      db.select({ total: sql<number>`count(*)::int` }).from(auditLogs).where(where),
+    ]);
+
+    return { entries, total };
+  }
+
+  // Matching entries as CSV, newest first, capped at EXPORT_LIMIT rows
+  async exportCsv(filters: AuditFilters = {}): Promise<{ csv: string; truncated: boolean }> {
+    const rows = await db.select()
+      .from(auditLogs)
+      .where(this.buildWhere(filters))
+      .orderBy(desc(auditLogs.id))
+      .limit(EXPORT_LIMIT + 1);
+
+    return { csv: toCsv(CSV_COLUMNS, rows.slice(0, EXPORT_LIMIT)), truncated: rows.length > EXPORT_LIMIT };
+  }
+
+  // Recompute the chain over a range of ids. The first entry checked is trusted as the anchor,
+  // since entries before it may have been removed by retention.
+  async verifyChain(fromId?: number, toId?: number): Promise<ChainCheck> {
+    let previous: AuditLog | undefined;
+    let checked = 0;
+    let firstId: number | undefined;
+    let cursor = fromId !== undefined ? fromId - 1 : 0;
+
+    for (;;) {
+      const page = await db.select()
+        .from(auditLogs)
+        .where(and(gt(auditLogs.id, cursor), toId !== undefined ? lte(auditLogs.id, toId) : undefined))
+        .orderBy(asc(auditLogs.id))
+        .limit(VERIFY_PAGE_SIZE);
+      if (page.length === 0) {
+        return { valid: true, checked, firstId, lastId: previous?.id };
+      }
+
+      for (const row of page) {
+        firstId ??= row.id;
+        if (previous && row.prevHash !== previous.hash) {
+          return { valid: false, checked, firstId, lastId: previous.id, brokenAt: row.id, reason: 'prevHash does not match the preceding entry' };
+        }
+        const { id, prevHash, hash, ...fields } = row;
+        if (chainHash(prevHash, fields) !== hash) {
+          return { valid: false, checked, firstId, lastId: previous?.id, brokenAt: id, reason: 'Entry content does not match its hash' };
+        }
+        previous = row;
+        checked++;
+      }
+      cursor = page[page.length - 1].id;
+    }
+  }
+
+  // Drop entries older than AUDIT_LOG_RETENTION_DAYS. The trigger on audit_logs only allows
+  // deletes inside a transaction that sets audit_logs.allow_purge.
+  async purgeExpired(): Promise<number> {
+    if (AUDIT_LOG_RETENTION_DAYS <= 0) {
+      return 0;
+    }
+
+    const cutoff = new Date(Date.now() - AUDIT_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`set local audit_logs.allow_purge = 'on'`);
+      const purged = await tx.delete(auditLogs)
+        .where(lt(auditLogs.createdAt, cutoff))
+        .returning({ id: auditLogs.id });
+      return purged.length;
+    });
+  }
+
+  private buildWhere(filters: AuditFilters) {
+    return and(
+      filters.actorId !== undefined ? eq(auditLogs.actorId, filters.actorId) : undefined,
+      filters.actorRole ? eq(auditLogs.actorRole, filters.actorRole) : undefined,
+      filters.action ? ilike(auditLogs.action, `%${filters.action}%`) : undefined,
+      filters.resource ? eq(auditLogs.resource, filters.resource) : undefined,
+      filters.resourceId ? eq(auditLogs.resourceId, filters.resourceId) : undefined,
+      filters.requestId ? eq(auditLogs.requestId, filters.requestId) : undefined,
+      filters.success !== undefined ? eq(auditLogs.success, filters.success) : undefined,
+      filters.from ? gte(auditLogs.createdAt, filters.from) : undefined,
+      filters.to ? lte(auditLogs.createdAt, filters.to) : undefined,
+    );
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer || this.flushing) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+
+  // Append a batch under an advisory lock so every instance extends the same chain in id order
+  private async flush() {
+    const batch = this.pending.splice(0, BATCH_SIZE);
+    if (batch.length === 0) {
+      return;
+    }
+
+    this.flushing = true;
+    try {
+      await db.transaction(async (tx) => {
+        await tx.execute(sql`select pg_advisory_xact_lock(hashtext('audit_logs'))`);
+        const [last] = await tx.select({ hash: auditLogs.hash })
+          .from(auditLogs)
+          .orderBy(desc(auditLogs.id))
+          .limit(1);
+
+        let prevHash = last?.hash ?? GENESIS_HASH;
+        const rows = batch.map(({ row }) => {
+          const hash = chainHash(prevHash, row);
+          const chained = { ...row, prevHash, hash };
+          prevHash = hash;
+          return chained;
+        });
+        await tx.insert(auditLogs).values(rows);
+      });
+      batch.forEach(entry => entry.resolve());
+    } catch (error) {
+      console.error(`Failed to write ${batch.length} audit entries:`, error);
+      batch.forEach(entry => entry.reject(error));
+    } finally {
+      this.flushing = false;
+      if (this.pending.length > 0) {
+        this.scheduleFlush();
+      }
+    }
+  }
+}
+
+export const auditLogService = new AuditLogService();
+export { AuditLogService, AuditEntry, AuditChanges, AuditFilters, ChainCheck };
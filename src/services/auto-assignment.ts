@@ -1,26 +1,11 @@
 import db from '../config/database';
-import { driverProfiles, orders, users, deliveryRequests } from '../schema';
-import { eq, and, sql, ne, isNull, or } from 'drizzle-orm';
-
-// Import with fallback for missing services
-let messageQueue: any;
-let realtimeAnalyticsService: any;
-
-try {
-  messageQueue = require('./messageQueue').messageQueue;
-} catch {
-  messageQueue = {
-    add: async (type: string, data: any) => console.log('Queue job:', type, data)
-  };
-}
-
-try {
-  realtimeAnalyticsService = require('./realtimeAnalytics').realtimeAnalyticsService;
-} catch {
-  realtimeAnalyticsService = {
-    trackEvent: async (event: string, data: any) => console.log('Analytics:', event, data)
-  };
-}
+import { driverProfiles, orders, users, deliveryRequests, dispatchOffers, merchantProfiles } from '../schema';
+import { eq, and, sql, ne, isNull, or, gte, inArray, notInArray } from 'drizzle-orm';
+import { messageQueue, JobTypes } from './messageQueue';
+import { geocodingService } from './geocoding';
+import { serviceZoneService } from './serviceZones';
+import { routeOptimizerService, RouteJob, RoutePlan } from './routeOptimizer';
+import { analyticsService } from './analytics';
 
 interface Location {
   latitude: number;
@@ -43,9 +28,19 @@ interface DriverCandidate {
   activeOrders: number;
   tier: string;
   lastDelivery: Date | null;
+  acceptanceRate: number;
   score: number;
 }
 
+interface AcceptanceStats {
+  offered: number;
+  accepted: number;
+  declined: number;
+  expired: number;
+  // Smoothed towards ACCEPTANCE_PRIOR_RATE, so a handful of responses moves it only a little
+  rate: number;
+}
+
 interface DriverLocation {
   driverId: number;
   latitude: number;
@@ -70,6 +65,29 @@ interface AssignmentResult {
   assignedOrder?: any;
 }
 
+interface BatchOrder {
+  orderId: number;
+  pickup: Location;
+  dropoff: Location;
+  deadline: Date | null;
+}
+
+interface OrderBatch {
+  orders: BatchOrder[];
+  plan: RoutePlan;
+  // What the same orders cost driven one at a time
+  separateDistanceKm: number;
+}
+
+// Acceptance rates are computed over this window of dispatch offers
+const ACCEPTANCE_WINDOW_DAYS = 30;
+const ACCEPTANCE_PRIOR_RATE = 0.8;
+const ACCEPTANCE_PRIOR_WEIGHT = 5;
+// Orders share a driver only when picked up within this distance of each other
+const BATCH_PICKUP_RADIUS_KM = 3;
+// Batches are planned before the driver is known, so they must fit a motorcycle
+const BATCH_CAPACITY = routeOptimizerService.capacityFor('MOTORCYCLE');
+
 class AutoAssignmentService {
   private static availableDrivers: Map<number, DriverLocation> = new Map();
 
@@ -89,7 +107,7 @@ class AutoAssignmentService {
       const candidates = await this.findDriverCandidates(pickupLocation, assignmentCriteria);
 
       if (candidates.length === 0) {
-        await realtimeAnalyticsService.trackEvent('driver_assignment_failed', {
+        await analyticsService.trackEvent('driver_assignment_failed', {
           orderId,
           reason: 'no_candidates',
           criteria: assignmentCriteria
@@ -104,25 +122,32 @@ class AutoAssignmentService {
       await this.performAssignment(orderId, selectedDriver.driverId);
 
       // Track analytics
-      await realtimeAnalyticsService.trackEvent('driver_assigned', {
+      await analyticsService.trackEvent('driver_assigned', {
         orderId,
         driverId: selectedDriver.driverId,
         distance: selectedDriver.distance,
         score: selectedDriver.score,
         candidateCount: candidates.length
-      });
+      }, { value: selectedDriver.distance });
 
       // Queue notification
-      await messageQueue.add('send_notification', {
-        type: 'driver_assignment',
-        driverId: selectedDriver.driverId,
-        orderId
+      await messageQueue.add(JobTypes.SEND_NOTIFICATION, {
+        target: { userId: String(selectedDriver.driverId) },
+        notification: {
+          title: 'New Delivery Assigned',
+          body: `You have been assigned order ${orderId}`,
+          data: { type: 'driver_assignment', orderId }
+        },
+        options: { priority: 'high' }
+      }, {
+        priority: 10,
+        uniqueKey: `driver_assignment:${orderId}:${selectedDriver.driverId}`
       });
 
       return selectedDriver.driverId;
     } catch (error) {
       console.error('Auto-assignment error:', error);
-      await realtimeAnalyticsService.trackEvent('driver_assignment_error', {
+      await analyticsService.trackEvent('driver_assignment_error', {
         orderId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
@@ -135,12 +160,14 @@ class AutoAssignmentService {
       // Get order details
       const [order] = await db.select().from(orders).where(eq(orders.id, orderId)).limit(1);
 
-      if (!order || !order.deliveryAddress) {
-        throw new Error('Order not found or missing delivery address');
+      if (!order) {
+        throw new Error('Order not found');
       }
 
-      // Parse delivery address to get coordinates (you might need to implement geocoding)
-      const pickupLocation = { latitude: 6.5244, longitude: 3.3792 }; // Default Lagos coordinates
+      const pickupLocation = await this.pickupLocationForOrder(order);
+      if (!pickupLocation) {
+        throw new Error('Could not locate the seller to pick the order up from');
+      }
 
       // Use stricter criteria for reassignment
       const reassignmentCriteria: AssignmentCriteria = {
@@ -152,7 +179,7 @@ class AutoAssignmentService {
       const candidates = await this.findDriverCandidates(pickupLocation, reassignmentCriteria, excludeDriverId);
 
       if (candidates.length === 0) {
-        await realtimeAnalyticsService.trackEvent('driver_reassignment_failed', {
+        await analyticsService.trackEvent('driver_reassignment_failed', {
           orderId,
           excludeDriverId,
           reason: 'no_candidates'
@@ -163,7 +190,7 @@ class AutoAssignmentService {
       const selectedDriver = this.selectBestDriver(candidates);
       await this.performAssignment(orderId, selectedDriver.driverId);
 
-      await realtimeAnalyticsService.trackEvent('driver_reassigned', {
+      await analyticsService.trackEvent('driver_reassigned', {
         orderId,
         newDriverId: selectedDriver.driverId,
         previousDriverId: excludeDriverId,
@@ -177,10 +204,13 @@ class AutoAssignmentService {
     }
   }
 
-  private async findDriverCandidates(
+  // Available drivers within criteria.maxDistance, best score first. excludeUserIds drops drivers by
+  // user id, e.g. those already offered a delivery.
+  async findDriverCandidates(
     location: Location,
     criteria: AssignmentCriteria,
-    excludeDriverId?: number
+    excludeDriverId?: number,
+    excludeUserIds: number[] = []
   ): Promise<DriverCandidate[]> {
     try {
       // Build the query
@@ -193,6 +223,10 @@ class AutoAssignmentService {
         whereConditions.push(ne(driverProfiles.id, excludeDriverId));
       }
 
+      if (excludeUserIds.length > 0) {
+        whereConditions.push(notInArray(driverProfiles.userId, excludeUserIds));
+      }
+
       // Get drivers with location and stats
       const driversWithLocation = await db.select({
         driverId: driverProfiles.id,
@@ -208,16 +242,18 @@ class AutoAssignmentService {
       .where(and(...whereConditions));
 
       const candidates: DriverCandidate[] = [];
+      // Drivers outside every service zone are not available for work
+      const inServiceArea = await serviceZoneService.coverageFor(['DELIVERY', 'FUEL']);
 
       for (const driver of driversWithLocation) {
         // Skip drivers without location
         if (!driver.latitude || !driver.longitude) continue;
 
+        const driverLocation = { latitude: parseFloat(driver.latitude), longitude: parseFloat(driver.longitude) };
+        if (!inServiceArea(driverLocation)) continue;
+
         // Calculate distance
-        const distance = this.calculateDistance(
-          location,
-          { latitude: parseFloat(driver.latitude), longitude: parseFloat(driver.longitude) }
-        );
+        const distance = this.calculateDistance(location, driverLocation);
 
         if (distance > criteria.maxDistance) continue;
 
@@ -251,13 +287,19 @@ class AutoAssignmentService {
           activeOrders,
           tier: driver.tier || 'STANDARD',
           lastDelivery: lastDeliveryResult?.lastDelivery || null,
+          acceptanceRate: ACCEPTANCE_PRIOR_RATE,
           score: 0
         };
 
-        candidate.score = this.calculateDriverScore(candidate, criteria);
         candidates.push(candidate);
       }
 
+      const acceptance = await this.getAcceptanceRates(candidates.map(candidate => candidate.userId));
+      for (const candidate of candidates) {
+        candidate.acceptanceRate = acceptance.get(candidate.userId)?.rate ?? ACCEPTANCE_PRIOR_RATE;
+        candidate.score = this.calculateDriverScore(candidate, criteria);
+      }
+
       // Filter by minimum rating if specified
       return candidates
         .filter(candidate => candidate.rating >= criteria.preferredRating)
@@ -272,18 +314,21 @@ class AutoAssignmentService {
   private calculateDriverScore(candidate: DriverCandidate, criteria: AssignmentCriteria): number {
     let score = 0;
 
-    // Distance score (closer is better) - 40% weight
-    const distanceScore = Math.max(0, (criteria.maxDistance - candidate.distance) / criteria.maxDistance) * 40;
+    // Distance score (closer is better) - 35% weight
+    const distanceScore = Math.max(0, (criteria.maxDistance - candidate.distance) / criteria.maxDistance) * 35;
     score += distanceScore;
 
-    // Rating score - 25% weight
-    const ratingScore = (candidate.rating / 5) * 25;
+    // Rating score - 20% weight
+    const ratingScore = (candidate.rating / 5) * 20;
     score += ratingScore;
 
-    // Workload score (fewer active orders is better) - 20% weight
-    const workloadScore = Math.max(0, (criteria.maxAssignments - candidate.activeOrders) / criteria.maxAssignments) * 20;
+    // Workload score (fewer active orders is better) - 15% weight
+    const workloadScore = Math.max(0, (criteria.maxAssignments - candidate.activeOrders) / criteria.maxAssignments) * 15;
     score += workloadScore;
 
+    // Acceptance rate (drivers who take their offers dispatch faster) - 15% weight
+    score += candidate.acceptanceRate * 15;
+
     // Tier bonus - 10% weight
     if (criteria.considerTier) {
       const tierScores = { GOLD: 10, SILVER: 7, STANDARD: 4, BRONZE: 2 };
@@ -301,7 +346,7 @@ class AutoAssignmentService {
     return Math.round(score * 100) / 100;
   }
 
-  private selectBestDriver(candidates: DriverCandidate[]): DriverCandidate {
+  selectBestDriver(candidates: DriverCandidate[]): DriverCandidate {
     // Add some randomization to prevent always selecting the same top driver
     const topCandidates = candidates.slice(0, Math.min(3, candidates.length));
 
@@ -328,6 +373,60 @@ class AutoAssignmentService {
     return topCandidates[0];
   }
 
+  // Offer outcomes per driver over the last ACCEPTANCE_WINDOW_DAYS. Offers still open or
+  // cancelled by dispatch count for nothing.
+  async getAcceptanceRates(userIds: number[]): Promise<Map<number, AcceptanceStats>> {
+    const stats = new Map<number, AcceptanceStats>();
+    if (userIds.length === 0) {
+      return stats;
+    }
+
+    const since = new Date(Date.now() - ACCEPTANCE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const rows = await db.select({
+      driverId: dispatchOffers.driverId,
+      accepted: sql<number>`count(*) filter (where ${dispatchOffers.status} = 'ACCEPTED')::int`,
+      declined: sql<number>`count(*) filter (where ${dispatchOffers.status} = 'DECLINED')::int`,
+      expired: sql<number>`count(*) filter (where ${dispatchOffers.status} = 'EXPIRED')::int`,
+    })
+      .from(dispatchOffers)
+      .where(and(
+        inArray(dispatchOffers.driverId, userIds),
+        gte(dispatchOffers.offeredAt, since),
+      ))
+      .groupBy(dispatchOffers.driverId);
+
+    for (const userId of userIds) {
+      const row = rows.find(r => r.driverId === userId);
+      const accepted = row?.accepted ?? 0;
+      const declined = row?.declined ?? 0;
+      const expired = row?.expired ?? 0;
+      const offered = accepted + declined + expired;
+      const rate = (accepted + ACCEPTANCE_PRIOR_RATE * ACCEPTANCE_PRIOR_WEIGHT) / (offered + ACCEPTANCE_PRIOR_WEIGHT);
+      stats.set(userId, { offered, accepted, declined, expired, rate: Math.round(rate * 1000) / 1000 });
+    }
+    return stats;
+  }
+
+  // Orders are picked up from the seller: their stored location, else their geocoded business address
+  private async pickupLocationForOrder(order: typeof orders.$inferSelect): Promise<Location | null> {
+    const [seller] = await db.select({
+      latitude: users.latitude,
+      longitude: users.longitude,
+      address: users.address,
+      businessAddress: merchantProfiles.businessAddress,
+    })
+      .from(users)
+      .leftJoin(merchantProfiles, eq(merchantProfiles.userId, users.id))
+      .where(eq(users.id, order.sellerId))
+      .limit(1);
+    if (!seller) {
+      return null;
+    }
+
+    return geocodingService.fromColumns(seller.latitude, seller.longitude)
+      || geocodingService.geocode(seller.businessAddress || seller.address);
+  }
+
   private async performAssignment(orderId: number, driverId: number): Promise<void> {
     await db.update(orders)
       .set({
@@ -355,18 +454,27 @@ class AutoAssignmentService {
     return degrees * (Math.PI / 180);
   }
 
-  // Batch assignment for multiple orders
+  // Batch assignment for multiple orders. Orders picked up close together whose combined route is
+  // shorter than driving them separately go to one driver, who gets the planned stop sequence.
   async batchAssignDrivers(orderIds: number[]): Promise<Map<number, number | null>> {
     const assignments = new Map<number, number | null>();
+    const pending: BatchOrder[] = [];
 
     for (const orderId of orderIds) {
       try {
         const [order] = await db.select().from(orders).where(eq(orders.id, orderId)).limit(1);
-        
-        if (order && order.pickupLocation) {
-          const pickupLocation = JSON.parse(order.pickupLocation);
-          const driverId = await this.assignDriver(orderId, pickupLocation);
-          assignments.set(orderId, driverId);
+        const [pickup, dropoff] = order
+          ? await Promise.all([
+            this.pickupLocationForOrder(order),
+            geocodingService.fromColumns(order.deliveryLatitude, order.deliveryLongitude) || geocodingService.geocode(order.deliveryAddress),
+          ])
+          : [null, null];
+
+        if (pickup && dropoff) {
+          pending.push({ orderId, pickup, dropoff, deadline: order.estimatedDeliveryDate });
+        } else if (pickup) {
+          // Without a drop-off point the order cannot share a route
+          assignments.set(orderId, await this.assignDriver(orderId, pickup));
         } else {
           assignments.set(orderId, null);
         }
@@ -376,9 +484,104 @@ class AutoAssignmentService {
       }
     }
 
+    for (const batch of this.planBatches(pending)) {
+      try {
+        const orderIdsInBatch = batch.orders.map(order => order.orderId);
+        const candidates = await this.findDriverCandidates(batch.orders[0].pickup, {
+          ...this.defaultCriteria,
+          // Room for the whole batch on top of the driver's current work
+          maxAssignments: this.defaultCriteria.maxAssignments - batch.orders.length + 1,
+        });
+
+        if (candidates.length === 0) {
+          await analyticsService.trackEvent('driver_assignment_failed', {
+            orderIds: orderIdsInBatch,
+            reason: 'no_candidates',
+          });
+          orderIdsInBatch.forEach(orderId => assignments.set(orderId, null));
+          continue;
+        }
+
+        const selectedDriver = this.selectBestDriver(candidates);
+        for (const orderId of orderIdsInBatch) {
+          await this.performAssignment(orderId, selectedDriver.driverId);
+          assignments.set(orderId, selectedDriver.driverId);
+        }
+
+        await analyticsService.trackEvent('driver_batch_assigned', {
+          orderIds: orderIdsInBatch,
+          driverId: selectedDriver.driverId,
+          totalDistanceKm: batch.plan.totalDistanceKm,
+          separateDistanceKm: batch.separateDistanceKm,
+        }, { value: batch.plan.totalDistanceKm });
+
+        await messageQueue.add(JobTypes.SEND_NOTIFICATION, {
+          target: { userId: String(selectedDriver.driverId) },
+          notification: {
+            title: orderIdsInBatch.length > 1 ? 'New Delivery Batch Assigned' : 'New Delivery Assigned',
+            body: orderIdsInBatch.length > 1
+              ? `You have been assigned ${orderIdsInBatch.length} orders on one route (${batch.plan.totalDistanceKm} km)`
+              : `You have been assigned order ${orderIdsInBatch[0]}`,
+            data: {
+              type: 'driver_assignment',
+              orderIds: orderIdsInBatch,
+              stops: batch.plan.stops.map(stop => ({ orderId: stop.jobId, type: stop.type, arrivalAt: stop.arrivalAt })),
+            },
+          },
+          options: { priority: 'high' }
+        }, {
+          priority: 10,
+          uniqueKey: `driver_assignment:${orderIdsInBatch.join(',')}:${selectedDriver.driverId}`
+        });
+      } catch (error) {
+        console.error('Failed to assign driver for order batch:', error);
+        batch.orders.forEach(order => assignments.set(order.orderId, null));
+      }
+    }
+
     return assignments;
   }
 
+  // Group orders greedily: each batch starts from the first unbatched order and takes others whose
+  // pickup is nearby, as long as the route still fits the smallest vehicle, meets every deadline
+  // and is shorter than the separate trips.
+  planBatches(orders: BatchOrder[]): OrderBatch[] {
+    const jobFor = (order: BatchOrder): RouteJob => ({
+      id: String(order.orderId),
+      pickup: { location: order.pickup },
+      dropoff: { location: order.dropoff, latest: order.deadline },
+    });
+    const separateKm = (batch: BatchOrder[]) => batch.reduce((sum, order) =>
+      sum + routeOptimizerService.optimize({ start: order.pickup, jobs: [jobFor(order)], capacity: BATCH_CAPACITY }).totalDistanceKm, 0);
+
+    const remaining = [...orders];
+    const batches: OrderBatch[] = [];
+    while (remaining.length > 0) {
+      const seed = remaining.shift()!;
+      let batch = [seed];
+      let plan = routeOptimizerService.optimize({ start: seed.pickup, jobs: [jobFor(seed)], capacity: BATCH_CAPACITY });
+
+      for (const candidate of [...remaining]) {
+        if (batch.length >= this.defaultCriteria.maxAssignments) break;
+        if (this.calculateDistance(seed.pickup, candidate.pickup) > BATCH_PICKUP_RADIUS_KM) continue;
+
+        const combined = routeOptimizerService.optimize({
+          start: seed.pickup,
+          jobs: [...batch, candidate].map(jobFor),
+          capacity: BATCH_CAPACITY,
+        });
+        if (combined.unassigned.length === 0 && combined.totalDistanceKm < separateKm([...batch, candidate])) {
+          batch = [...batch, candidate];
+          plan = combined;
+          remaining.splice(remaining.indexOf(candidate), 1);
+        }
+      }
+
+      batches.push({ orders: batch, plan, separateDistanceKm: Math.round(separateKm(batch) * 100) / 100 });
+    }
+    return batches;
+  }
+
   // Get assignment statistics
   async getAssignmentStats(timeRange: { start: Date; end: Date }) {
     const [successfulAssignments, failedAssignments, avgAssignmentTime] = await Promise.all([
@@ -596,4 +799,4 @@ class AutoAssignmentService {
 AutoAssignmentService.initializeMockDrivers();
 
 export const autoAssignmentService = new AutoAssignmentService();
-export { AutoAssignmentService, AssignmentCriteria, DriverCandidate, DriverLocation, DeliveryLocation, AssignmentResult };
\ No newline at end of file
+export { AutoAssignmentService, AssignmentCriteria, AcceptanceStats, DriverCandidate, DriverLocation, DeliveryLocation, AssignmentResult, BatchOrder, OrderBatch };
\ No newline at end of file
@@ -0,0 +1,331 @@
+import crypto from 'crypto';
+import db from '../config/database';
+import { deliveryQuotes, deliveryRequests, driverProfiles } from '../schema';
+import { eq, and, gt, gte, isNull, isNotNull } from 'drizzle-orm';
+import { DELIVERY_QUOTE_TTL_SECONDS, DELIVERY_QUOTE_SECRET, PRICING_MAX_SURGE } from '../config/environment';
+import { geocodingService, Coordinates } from './geocoding';
+import { serviceZoneService, ServiceZone } from './serviceZones';
+import { analyticsService } from './analytics';
+
+type DeliveryQuote = typeof deliveryQuotes.$inferSelect;
+type DeliveryType = 'STANDARD' | 'SAME_DAY' | 'EXPRESS' | 'SCHEDULED';
+type PackageSize = 'SMALL' | 'MEDIUM' | 'LARGE' | 'EXTRA_LARGE';
+
+interface QuoteRequest {
+  pickupAddress: string;
+  deliveryAddress: string;
+  pickupLocation?: Coordinates;
+  deliveryLocation?: Coordinates;
+  deliveryType?: string;
+  packageSize?: string;
+  scheduledPickupTime?: Date | null;
+}
+
+interface PriceInput {
+  pickup: Coordinates;
+  dropoff: Coordinates;
+  zone: ServiceZone | null;
+  deliveryType?: string;
+  packageSize?: string;
+  at?: Date;
+}
+
+interface DemandSnapshot {
+  openRequests: number;
+  availableDrivers: number;
+  ratio: number;
+  multiplier: number;
+}
+
+interface PriceBreakdown {
+  zone: { id: string; name: string } | null;
+  distanceKm: number;
+  durationMinutes: number;
+  baseFee: number;
+  distanceFee: number;
+  deliveryType: DeliveryType;
+  typeFee: number;
+  packageSize: PackageSize;
+  sizeFee: number;
+  zoneSurge: number;
+  timeWindow: string | null;
+  timeMultiplier: number;
+  demand: DemandSnapshot;
+  surgeMultiplier: number;
+  total: number;
+}
+
+interface IssuedQuote {
+  quoteId: string;
+  fee: number;
+  currency: string;
+  expiresAt: Date;
+  breakdown: PriceBreakdown;
+}
+
+class PricingError extends Error {
+  constructor(
+    public code: 'INVALID_REQUEST' | 'UNLOCATED' | 'INVALID_QUOTE' | 'QUOTE_EXPIRED' | 'QUOTE_USED',
+    message: string,
+  ) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+const TYPE_FEES: Record<DeliveryType, number> = {
+  STANDARD: 0,
+  SCHEDULED: 0,
+  SAME_DAY: 100,
+  EXPRESS: 300,
+};
+
+const SIZE_FEES: Record<PackageSize, number> = {
+  SMALL: 0,
+  MEDIUM: 100,
+  LARGE: 200,
+  EXTRA_LARGE: 400,
+};
+
+// Busy periods in Lagos time; a window whose end is before its start runs past midnight
+const TIME_WINDOWS = [
+  { name: 'MORNING_PEAK', start: 7, end: 10, multiplier: 1.2 },
+  { name: 'EVENING_PEAK', start: 16, end: 20, multiplier: 1.3 },
+  { name: 'LATE_NIGHT', start: 22, end: 5, multiplier: 1.15 },
+];
+// West Africa Time is UTC+1 all year
+const UTC_OFFSET_MS = 60 * 60 * 1000;
+
+// Demand is the pending requests of the last hour against the drivers available right now. Each
+// request per driver above one adds a quarter to the multiplier.
+const DEMAND_WINDOW_MS = 60 * 60 * 1000;
+const DEMAND_STEP = 0.25;
+const MAX_DEMAND_MULTIPLIER = 2;
+// Without service zones, demand is measured within this distance of the pickup
+const DEMAND_RADIUS_KM = 10;
+// Current demand says little about pickups further ahead than this
+const DEMAND_HORIZON_MS = 2 * 60 * 60 * 1000;
+const DEMAND_CACHE_TTL_MS = 60 * 1000;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const sign = (quote: Pick<DeliveryQuote, 'id' | 'customerId' | 'fee' | 'expiresAt'>): string =>
+  crypto.createHmac('sha256', DELIVERY_QUOTE_SECRET)
+    .update(`${quote.id}.${quote.customerId}.${quote.fee}.${quote.expiresAt.getTime()}`)
+    .digest('base64url');
+
+// Server-side delivery pricing. Fees are (zone base fee + distance x per-km rate + delivery type
+// and package size fees), multiplied by the zone's surge, the time window and local demand, with
+// the combined surge capped at PRICING_MAX_SURGE. Clients get a signed quote id to order with.
+class DeliveryPricingService {
+  private demandCache = new Map<string, { snapshot: DemandSnapshot; expiresAt: number }>();
+
+  normaliseDeliveryType(value?: string): DeliveryType {
+    const type = (value || 'STANDARD').toUpperCase();
+    if (!(type in TYPE_FEES)) {
+      throw new PricingError('INVALID_REQUEST', `deliveryType must be one of ${Object.keys(TYPE_FEES).join(', ')}`);
+    }
+    return type as DeliveryType;
+  }
+
+  normalisePackageSize(value?: string): PackageSize {
+    const size = (value || 'SMALL').toUpperCase();
+    if (!(size in SIZE_FEES)) {
+      throw new PricingError('INVALID_REQUEST', `packageSize must be one of ${Object.keys(SIZE_FEES).join(', ')}`);
+    }
+    return size as PackageSize;
+  }
+
+  // Price a trip without issuing a quote, e.g. for estimates
+  async price(input: PriceInput): Promise<PriceBreakdown> {
+    const at = input.at || new Date();
+    const deliveryType = this.normaliseDeliveryType(input.deliveryType);
+    const packageSize = this.normalisePackageSize(input.packageSize);
+
+    const distanceKm = geocodingService.distanceKm(input.pickup, input.dropoff);
+    const zonePricing = serviceZoneService.priceDelivery(input.zone, distanceKm);
+    const typeFee = TYPE_FEES[deliveryType];
+    const sizeFee = SIZE_FEES[packageSize];
+
+    const window = this.timeWindow(at);
+    const timeMultiplier = window?.multiplier ?? 1;
+    const demand = at.getTime() - Date.now() > DEMAND_HORIZON_MS
+      ? { openRequests: 0, availableDrivers: 0, ratio: 0, multiplier: 1 }
+      : await this.demandAt(input.pickup, input.zone);
+    const surgeMultiplier = round(Math.min(zonePricing.surgeMultiplier * timeMultiplier * demand.multiplier, PRICING_MAX_SURGE));
+
+    const subtotal = zonePricing.baseFee + zonePricing.distanceFee + typeFee + sizeFee;
+    return {
+      zone: input.zone ? { id: input.zone.id, name: input.zone.name } : null,
+      distanceKm,
+      durationMinutes: geocodingService.estimateDurationMinutes(distanceKm),
+      baseFee: zonePricing.baseFee,
+      distanceFee: zonePricing.distanceFee,
+      deliveryType,
+      typeFee,
+      packageSize,
+      sizeFee,
+      zoneSurge: zonePricing.surgeMultiplier,
+      timeWindow: window?.name ?? null,
+      timeMultiplier,
+      demand,
+      surgeMultiplier,
+      // Whole naira
+      total: Math.round(subtotal * surgeMultiplier),
+    };
+  }
+
+  // Locate both ends, check the delivery service covers them at pickup time, price the trip and
+  // store the quote. Throws a ServiceZoneError when the trip is outside the service area.
+  async createQuote(customerId: number, request: QuoteRequest): Promise<IssuedQuote> {
+    if (!request.pickupAddress || !request.deliveryAddress) {
+      throw new PricingError('INVALID_REQUEST', 'pickupAddress and deliveryAddress are required');
+    }
+    const deliveryType = this.normaliseDeliveryType(request.deliveryType);
+    const packageSize = this.normalisePackageSize(request.packageSize);
+    const pickupAt = request.scheduledPickupTime || new Date();
+
+    const [pickup, dropoff] = await Promise.all([
+      request.pickupLocation || geocodingService.geocode(request.pickupAddress),
+      request.deliveryLocation || geocodingService.geocode(request.deliveryAddress),
+    ]);
+    if (!pickup || !dropoff) {
+      throw new PricingError('UNLOCATED', `The ${pickup ? 'delivery' : 'pickup'} address could not be located; send coordinates instead`);
+    }
+
+    const zone = await serviceZoneService.assertAvailable(pickup, 'DELIVERY', pickupAt);
+    await serviceZoneService.assertAvailable(dropoff, 'DELIVERY', pickupAt);
+
+    const breakdown = await this.price({ pickup, dropoff, zone, deliveryType, packageSize, at: pickupAt });
+    const pickupColumns = geocodingService.toColumns(pickup);
+    const dropoffColumns = geocodingService.toColumns(dropoff);
+
+    const [quote] = await db.insert(deliveryQuotes).values({
+      customerId,
+      zoneId: zone?.id ?? null,
+      pickupAddress: request.pickupAddress,
+      deliveryAddress: request.deliveryAddress,
+      pickupLatitude: pickupColumns.latitude!,
+      pickupLongitude: pickupColumns.longitude!,
+      deliveryLatitude: dropoffColumns.latitude!,
+      deliveryLongitude: dropoffColumns.longitude!,
+      deliveryType,
+      packageSize,
+      scheduledPickupTime: request.scheduledPickupTime || null,
+      distanceKm: breakdown.distanceKm.toFixed(2),
+      durationMinutes: breakdown.durationMinutes,
+      fee: breakdown.total.toFixed(2),
+      breakdown,
+      expiresAt: new Date(Date.now() + DELIVERY_QUOTE_TTL_SECONDS * 1000),
+    }).returning();
+
+    await analyticsService.trackEvent('delivery_quote_issued', {
+      quoteId: quote.id,
+      customerId,
+      zoneId: quote.zoneId,
+      fee: breakdown.total,
+      surgeMultiplier: breakdown.surgeMultiplier,
+    }, { userId: customerId, value: breakdown.total });
+
+    return {
+      quoteId: `${quote.id}.${sign(quote)}`,
+      fee: breakdown.total,
+      currency: quote.currency,
+      expiresAt: quote.expiresAt,
+      breakdown,
+    };
+  }
+
+  // Claim a quote for a delivery request. Checks the signature, the customer and the expiry, and
+  // marks the quote used so it cannot price a second request. Pass the transaction that creates
+  // the request so a failed insert leaves the quote unused.
+  async redeem(quoteId: string, customerId: number, tx: Pick<typeof db, 'select' | 'update'> = db): Promise<DeliveryQuote> {
+    const [id, signature] = typeof quoteId === 'string' ? quoteId.split('.') : [];
+    if (!id || !signature || !/^[0-9a-f-]{36}$/i.test(id)) {
+      throw new PricingError('INVALID_QUOTE', 'Quote not found');
+    }
+
+    const [quote] = await tx.select().from(deliveryQuotes).where(eq(deliveryQuotes.id, id));
+    const expected = quote ? sign(quote) : '';
+    if (!quote || quote.customerId !== customerId || expected.length !== signature.length
+      || !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+      throw new PricingError('INVALID_QUOTE', 'Quote not found');
+    }
+
+    const [claimed] = await tx.update(deliveryQuotes)
+      .set({ usedAt: new Date() })
+      .where(and(eq(deliveryQuotes.id, id), isNull(deliveryQuotes.usedAt), gt(deliveryQuotes.expiresAt, new Date())))
+      .returning();
+    if (!claimed) {
+      throw quote.usedAt
+        ? new PricingError('QUOTE_USED', 'Quote has already been used')
+        : new PricingError('QUOTE_EXPIRED', 'Quote has expired; request a new one');
+    }
+    return claimed;
+  }
+
+  private timeWindow(at: Date) {
+    const hour = new Date(at.getTime() + UTC_OFFSET_MS).getUTCHours();
+    return TIME_WINDOWS.find(window => window.start < window.end
+      ? hour >= window.start && hour < window.end
+      : hour >= window.start || hour < window.end) || null;
+  }
+
+  // Pending requests against available drivers in the pickup's zone, or near the pickup when no
+  // zones are configured. Zone figures are cached briefly since every quote in the zone reads them.
+  private async demandAt(pickup: Coordinates, zone: ServiceZone | null): Promise<DemandSnapshot> {
+    const cached = zone && this.demandCache.get(zone.id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.snapshot;
+    }
+
+    const inArea = (point: Coordinates | null) => !!point && (zone
+      ? serviceZoneService.contains(zone, point)
+      : geocodingService.distanceKm(pickup, point) <= DEMAND_RADIUS_KM);
+
+    const [requests, drivers] = await Promise.all([
+      db.select({ latitude: deliveryRequests.pickupLatitude, longitude: deliveryRequests.pickupLongitude })
+        .from(deliveryRequests)
+        .where(and(
+          eq(deliveryRequests.status, 'PENDING'),
+          gte(deliveryRequests.createdAt, new Date(Date.now() - DEMAND_WINDOW_MS)),
+          isNotNull(deliveryRequests.pickupLatitude),
+        )),
+      db.select({ latitude: driverProfiles.currentLatitude, longitude: driverProfiles.currentLongitude })
+        .from(driverProfiles)
+        .where(and(
+          eq(driverProfiles.isActive, true),
+          eq(driverProfiles.isAvailable, true),
+          isNotNull(driverProfiles.currentLatitude),
+        )),
+    ]);
+
+    const openRequests = requests.filter(row => inArea(geocodingService.fromColumns(row.latitude, row.longitude))).length;
+    const availableDrivers = drivers.filter(row => inArea(geocodingService.fromColumns(row.latitude, row.longitude))).length;
+    const ratio = round(openRequests / Math.max(availableDrivers, 1));
+    const snapshot = {
+      openRequests,
+      availableDrivers,
+      ratio,
+      multiplier: round(Math.min(1 + Math.max(0, ratio - 1) * DEMAND_STEP, MAX_DEMAND_MULTIPLIER)),
+    };
+
+    if (zone) {
+      this.demandCache.set(zone.id, { snapshot, expiresAt: Date.now() + DEMAND_CACHE_TTL_MS });
+    }
+    return snapshot;
+  }
+}
+
+export const deliveryPricingService = new DeliveryPricingService();
+export {
+  DeliveryPricingService,
+  PricingError,
+  DeliveryQuote,
+  DeliveryType,
+  PackageSize,
+  QuoteRequest,
+  PriceBreakdown,
+  IssuedQuote,
+  DemandSnapshot,
+};
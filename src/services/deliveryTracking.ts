@@ -0,0 +1,423 @@
+import EventEmitter from 'events';
+import crypto from 'crypto';
+import db from '../config/database';
+import { deliveryRequests, deliveryLocationHistory, users } from '../schema';
+import { eq, and, desc, inArray, SQL } from 'drizzle-orm';
+import {
+  TRACKING_PICKUP_GEOFENCE_METERS,
+  TRACKING_DROPOFF_GEOFENCE_METERS,
+  TRACKING_MIN_POINT_INTERVAL_SECONDS,
+} from '../config/environment';
+import { notificationDispatcher } from './notificationDispatcher';
+import { analyticsService } from './analytics';
+import { geocodingService, Coordinates } from './geocoding';
+
+type DeliveryRequest = typeof deliveryRequests.$inferSelect;
+type GeofenceEvent = 'ARRIVED_AT_PICKUP' | 'NEAR_DROPOFF';
+
+interface LocationReport {
+  latitude: number;
+  longitude: number;
+  heading?: number;
+  speed?: number;
+  accuracy?: number;
+}
+
+interface TrackedPosition extends Coordinates {
+  heading: number | null;
+  speed: number | null;
+  recordedAt: Date;
+}
+
+interface Eta {
+  distanceKm: number;
+  durationMinutes: number;
+  estimatedDeliveryTime: Date;
+}
+
+// Emitted as 'location' on every accepted report
+interface LocationEvent {
+  deliveryId: string;
+  trackingNumber: string | null;
+  status: string;
+  location: TrackedPosition;
+  eta: Eta | null;
+}
+
+// Emitted as 'status' whenever a delivery's status changes, by a geofence or by the driver
+interface StatusEvent {
+  deliveryId: string;
+  trackingNumber: string | null;
+  status: string;
+  geofence?: GeofenceEvent;
+  changedAt: Date;
+}
+
+class TrackingError extends Error {
+  constructor(public code: 'NOT_FOUND' | 'NOT_ACTIVE' | 'INVALID_LOCATION', message: string) {
+    super(message);
+    this.name = 'TrackingError';
+  }
+}
+
+// Statuses in which a driver is on the way and reports positions
+const TRACKED_STATUSES = ['ASSIGNED', 'AT_PICKUP', 'PICKED_UP', 'IN_TRANSIT', 'ARRIVING'];
+// Before these the package has not been collected, so the ETA runs through the pickup
+const BEFORE_PICKUP_STATUSES = ['ASSIGNED', 'AT_PICKUP'];
+const ROUTE_POINT_LIMIT = 500;
+
+const GEOFENCE_MESSAGES: Record<GeofenceEvent, { title: string; message: string }> = {
+  ARRIVED_AT_PICKUP: { title: 'Driver at Pickup', message: 'Your driver has arrived at the pickup location.' },
+  NEAR_DROPOFF: { title: 'Driver Almost There', message: 'Your driver is almost at the delivery address. Please be ready to receive your package.' },
+};
+
+const toNumber = (value: string | null | undefined): number | null =>
+  value === null || value === undefined ? null : parseFloat(value);
+
+const optionalNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null || value === '' || !Number.isFinite(Number(value)) ? undefined : Number(value);
+
+// Live tracking for deliveries under way: keeps the driver's position and a breadcrumb trail,
+// recalculates the ETA on each report, and moves the status on when the driver reaches the pickup
+// or nears the drop-off. Subscribers (the socket server) relay 'location' and 'status' events.
+class DeliveryTrackingService extends EventEmitter {
+  // Parse a location report from a request body or socket message
+  parseReport(body: any): LocationReport {
+    const latitude = Number(body?.latitude);
+    const longitude = Number(body?.longitude);
+    if (body?.latitude === undefined || body?.longitude === undefined || !Number.isFinite(latitude) || !Number.isFinite(longitude)
+      || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new TrackingError('INVALID_LOCATION', 'Valid latitude and longitude are required');
+    }
+
+    return {
+      latitude,
+      longitude,
+      heading: optionalNumber(body.heading),
+      speed: optionalNumber(body.speed),
+      accuracy: optionalNumber(body.accuracy),
+    };
+  }
+
+  // Record the assigned driver's position. Reports closer together than
+  // TRACKING_MIN_POINT_INTERVAL_SECONDS update the live position without growing the trail.
+  async recordLocation(deliveryId: string, driverId: number, report: LocationReport): Promise<LocationEvent> {
+    const [delivery] = await db.select()
+      .from(deliveryRequests)
+      .where(and(eq(deliveryRequests.id, deliveryId), eq(deliveryRequests.driverId, driverId)));
+    if (!delivery) {
+      throw new TrackingError('NOT_FOUND', 'Delivery not found or not assigned to you');
+    }
+    if (!TRACKED_STATUSES.includes(delivery.status || '')) {
+      throw new TrackingError('NOT_ACTIVE', `Delivery is ${delivery.status}; locations are only tracked while it is under way`);
+    }
+
+    const now = new Date();
+    const position = { latitude: report.latitude, longitude: report.longitude };
+    const geofence = this.checkGeofences(delivery, position);
+    const status = geofence ? await this.advance(delivery, geofence, now) : delivery.status!;
+    const eta = this.estimate(delivery, status, position, now);
+    const columns = geocodingService.toColumns(position);
+
+    await db.update(deliveryRequests)
+      .set({
+        currentLatitude: columns.latitude,
+        currentLongitude: columns.longitude,
+        locationUpdatedAt: now,
+        ...(eta && { estimatedDeliveryTime: eta.estimatedDeliveryTime }),
+      })
+      .where(eq(deliveryRequests.id, deliveryId));
+
+    const [last] = await db.select({ recordedAt: deliveryLocationHistory.recordedAt })
+      .from(deliveryLocationHistory)
+      .where(eq(deliveryLocationHistory.deliveryRequestId, deliveryId))
+      .orderBy(desc(deliveryLocationHistory.recordedAt))
+      .limit(1);
+    if (!last || now.getTime() - last.recordedAt.getTime() >= TRACKING_MIN_POINT_INTERVAL_SECONDS * 1000) {
+      await db.insert(deliveryLocationHistory).values({
+        deliveryRequestId: deliveryId,
+        driverId,
+        latitude: columns.latitude!,
+        longitude: columns.longitude!,
+        heading: report.heading?.toFixed(2) ?? null,
+        speed: report.speed?.toFixed(2) ?? null,
+        accuracy: report.accuracy?.toFixed(2) ?? null,
+        status,
+        recordedAt: now,
+      });
+    }
+
+    const event: LocationEvent = {
+      deliveryId,
+      trackingNumber: delivery.trackingNumber,
+      status,
+      location: { ...position, heading: report.heading ?? null, speed: report.speed ?? null, recordedAt: now },
+      eta,
+    };
+    this.emit('location', event);
+    return event;
+  }
+
+  // Relay a status change made outside the geofences, e.g. the driver confirming pickup
+  publishStatus(delivery: DeliveryRequest) {
+    const event: StatusEvent = {
+      deliveryId: delivery.id,
+      trackingNumber: delivery.trackingNumber,
+      status: delivery.status!,
+      changedAt: delivery.updatedAt || new Date(),
+    };
+    this.emit('status', event);
+  }
+
+  // Tracking numbers are shared with anyone following a parcel, so they must not be guessable
+  newTrackingNumber(prefix = 'TRK'): string {
+    return `${prefix}-${crypto.randomBytes(10).toString('hex').toUpperCase()}`;
+  }
+
+  // Full view for the delivery's customer, merchant, driver and admins: addresses, driver
+  // contact, live position, ETA and the trail so far
+  async getTracking(deliveryId: string) {
+    return this.loadTracking(eq(deliveryRequests.id, deliveryId));
+  }
+
+  // Anyone with the tracking number sees progress only: status, ETA, timeline and the driver's
+  // first name. Addresses, positions, the route and phone numbers need a signed-in participant.
+  async getPublicTracking(trackingNumber: string) {
+    const tracking = await this.loadTracking(eq(deliveryRequests.trackingNumber, trackingNumber), false);
+    if (!tracking) {
+      return null;
+    }
+
+    return {
+      id: tracking.id,
+      trackingNumber: tracking.trackingNumber,
+      status: tracking.status,
+      deliveryType: tracking.deliveryType,
+      eta: this.toPublicEta(tracking.eta),
+      driver: tracking.driver ? { name: tracking.driver.name?.split(' ')[0] ?? null } : null,
+      timeline: tracking.timeline,
+    };
+  }
+
+  // The part of a location update that may go to the public tracking namespace
+  toPublicLocation(event: LocationEvent) {
+    return {
+      trackingNumber: event.trackingNumber,
+      status: event.status,
+      eta: this.toPublicEta(event.eta),
+      updatedAt: event.location.recordedAt,
+    };
+  }
+
+  // Breadcrumb trail, oldest first; with a limit, the most recent points
+  async getHistory(deliveryId: string, limit = ROUTE_POINT_LIMIT) {
+    const points = await db.select({
+      latitude: deliveryLocationHistory.latitude,
+      longitude: deliveryLocationHistory.longitude,
+      heading: deliveryLocationHistory.heading,
+      speed: deliveryLocationHistory.speed,
+      status: deliveryLocationHistory.status,
+      recordedAt: deliveryLocationHistory.recordedAt,
+    })
+      .from(deliveryLocationHistory)
+      .where(eq(deliveryLocationHistory.deliveryRequestId, deliveryId))
+      .orderBy(desc(deliveryLocationHistory.recordedAt))
+      .limit(limit);
+
+    return points.reverse().map(point => ({
+      latitude: parseFloat(point.latitude),
+      longitude: parseFloat(point.longitude),
+      heading: toNumber(point.heading),
+      speed: toNumber(point.speed),
+      status: point.status,
+      recordedAt: point.recordedAt,
+    }));
+  }
+
+  // Tracking numbers resolve to a delivery id for the socket rooms
+  async findByTrackingNumber(trackingNumber: string): Promise<DeliveryRequest | null> {
+    const [delivery] = await db.select()
+      .from(deliveryRequests)
+      .where(eq(deliveryRequests.trackingNumber, trackingNumber));
+    return delivery || null;
+  }
+
+  // Whether the user may follow the delivery: its customer, merchant or driver, or an admin
+  async canFollow(deliveryId: string, userId: number, role?: string): Promise<boolean> {
+    const [delivery] = await db.select({
+      customerId: deliveryRequests.customerId,
+      merchantId: deliveryRequests.merchantId,
+      driverId: deliveryRequests.driverId,
+    })
+      .from(deliveryRequests)
+      .where(eq(deliveryRequests.id, deliveryId));
+    if (!delivery) {
+      return false;
+    }
+    return role === 'ADMIN' || [delivery.customerId, delivery.merchantId, delivery.driverId].includes(userId);
+  }
+
+  private async loadTracking(condition: SQL, withRoute = true) {
+    const [row] = await db.select({
+      delivery: deliveryRequests,
+      driver: {
+        id: users.id,
+        fullName: users.fullName,
+        phone: users.phone,
+        profilePicture: users.profilePicture,
+      },
+    })
+      .from(deliveryRequests)
+      .leftJoin(users, eq(deliveryRequests.driverId, users.id))
+      .where(condition);
+    if (!row) {
+      return null;
+    }
+
+    const { delivery, driver } = row;
+    const tracked = TRACKED_STATUSES.includes(delivery.status || '');
+    const current = geocodingService.fromColumns(delivery.currentLatitude, delivery.currentLongitude);
+    const eta = tracked && current ? this.estimate(delivery, delivery.status!, current, delivery.locationUpdatedAt || new Date()) : null;
+
+    return {
+      id: delivery.id,
+      trackingNumber: delivery.trackingNumber,
+      status: delivery.status,
+      deliveryType: delivery.deliveryType,
+      pickupAddress: delivery.pickupAddress,
+      deliveryAddress: delivery.deliveryAddress,
+      pickupLocation: geocodingService.fromColumns(delivery.pickupLatitude, delivery.pickupLongitude),
+      deliveryLocation: geocodingService.fromColumns(delivery.deliveryLatitude, delivery.deliveryLongitude),
+      estimatedDistance: delivery.estimatedDistance,
+      estimatedDuration: delivery.estimatedDuration,
+      currentLocation: current ? { ...current, updatedAt: delivery.locationUpdatedAt } : null,
+      eta,
+      driver: driver ? {
+        name: driver.fullName,
+        phone: driver.phone,
+        profilePicture: driver.profilePicture,
+      } : null,
+      timeline: {
+        createdAt: delivery.createdAt,
+        scheduledPickupTime: delivery.scheduledPickupTime,
+        arrivedAtPickupAt: delivery.arrivedAtPickupAt,
+        actualPickupTime: delivery.actualPickupTime,
+        nearDropoffAt: delivery.nearDropoffAt,
+        estimatedDeliveryTime: delivery.estimatedDeliveryTime,
+        actualDeliveryTime: delivery.actualDeliveryTime,
+      },
+      route: withRoute ? await this.getHistory(delivery.id, ROUTE_POINT_LIMIT) : [],
+    };
+  }
+
+  // The geofence the position has just entered, if it moves the delivery on
+  private checkGeofences(delivery: DeliveryRequest, position: Coordinates): GeofenceEvent | null {
+    if (delivery.status === 'ASSIGNED' && !delivery.arrivedAtPickupAt) {
+      const pickup = geocodingService.fromColumns(delivery.pickupLatitude, delivery.pickupLongitude);
+      if (pickup && geocodingService.distanceKm(position, pickup) * 1000 <= TRACKING_PICKUP_GEOFENCE_METERS) {
+        return 'ARRIVED_AT_PICKUP';
+      }
+    }
+    if ((delivery.status === 'PICKED_UP' || delivery.status === 'IN_TRANSIT') && !delivery.nearDropoffAt) {
+      const dropoff = geocodingService.fromColumns(delivery.deliveryLatitude, delivery.deliveryLongitude);
+      if (dropoff && geocodingService.distanceKm(position, dropoff) * 1000 <= TRACKING_DROPOFF_GEOFENCE_METERS) {
+        return 'NEAR_DROPOFF';
+      }
+    }
+    return null;
+  }
+
+  // Apply a geofence transition and tell the customer. The status guard keeps a concurrent
+  // update from the driver's app from being overwritten; the returned status is what stuck.
+  private async advance(delivery: DeliveryRequest, geofence: GeofenceEvent, at: Date): Promise<string> {
+    const [updated] = await db.update(deliveryRequests)
+      .set(geofence === 'ARRIVED_AT_PICKUP'
+        ? { status: 'AT_PICKUP', arrivedAtPickupAt: at, updatedAt: at }
+        : { status: 'ARRIVING', nearDropoffAt: at, updatedAt: at })
+      .where(and(
+        eq(deliveryRequests.id, delivery.id),
+        geofence === 'ARRIVED_AT_PICKUP'
+          ? eq(deliveryRequests.status, 'ASSIGNED')
+          : inArray(deliveryRequests.status, ['PICKED_UP', 'IN_TRANSIT']),
+      ))
+      .returning();
+    if (!updated) {
+      const [current] = await db.select({ status: deliveryRequests.status })
+        .from(deliveryRequests)
+        .where(eq(deliveryRequests.id, delivery.id));
+      return current?.status || delivery.status!;
+    }
+
+    const event: StatusEvent = {
+      deliveryId: updated.id,
+      trackingNumber: updated.trackingNumber,
+      status: updated.status!,
+      geofence,
+      changedAt: at,
+    };
+    this.emit('status', event);
+    await analyticsService.trackEvent('delivery_geofence', { deliveryId: updated.id, driverId: updated.driverId, geofence });
+
+    try {
+      await notificationDispatcher.dispatch({
+        userId: updated.customerId,
+        userRole: 'CONSUMER',
+        ...GEOFENCE_MESSAGES[geofence],
+        type: 'DELIVERY_UPDATE',
+        relatedId: updated.id,
+        priority: geofence === 'NEAR_DROPOFF' ? 'HIGH' : 'MEDIUM',
+        actionUrl: `/delivery/${updated.id}/track`,
+        data: { deliveryId: updated.id, trackingNumber: updated.trackingNumber, geofence },
+      });
+    } catch (error) {
+      console.error('Failed to notify customer of geofence event:', error);
+    }
+
+    return updated.status!;
+  }
+
+  // Only when the parcel should arrive; the remaining distance would tell how close the driver is
+  private toPublicEta(eta: Eta | null) {
+    return eta ? { estimatedDeliveryTime: eta.estimatedDeliveryTime } : null;
+  }
+
+  // Remaining distance and time from the driver's position: through the pickup until the package
+  // is collected, then straight to the drop-off
+  private estimate(delivery: DeliveryRequest, status: string, position: Coordinates, from: Date): Eta | null {
+    const dropoff = geocodingService.fromColumns(delivery.deliveryLatitude, delivery.deliveryLongitude);
+    if (!dropoff) {
+      return null;
+    }
+
+    let distance: number;
+    if (BEFORE_PICKUP_STATUSES.includes(status)) {
+      const pickup = geocodingService.fromColumns(delivery.pickupLatitude, delivery.pickupLongitude);
+      if (!pickup) {
+        return null;
+      }
+      distance = geocodingService.distanceKm(position, pickup) + geocodingService.distanceKm(pickup, dropoff);
+    } else {
+      distance = geocodingService.distanceKm(position, dropoff);
+    }
+
+    const durationMinutes = geocodingService.estimateDurationMinutes(distance);
+    return {
+      distanceKm: Math.round(distance * 100) / 100,
+      durationMinutes,
+      estimatedDeliveryTime: new Date(from.getTime() + durationMinutes * 60 * 1000),
+    };
+  }
+}
+
+export const deliveryTrackingService = new DeliveryTrackingService();
+export {
+  DeliveryTrackingService,
+  TrackingError,
+  TRACKED_STATUSES,
+  LocationReport,
+  LocationEvent,
+  StatusEvent,
+  TrackedPosition,
+  Eta,
+  GeofenceEvent,
+};
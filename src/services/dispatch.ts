@@ -0,0 +1,410 @@
+import db from '../config/database';
+import { deliveryRequests, dispatchOffers, users } from '../schema';
+import { eq, and, desc, gt, lte, inArray, sql } from 'drizzle-orm';
+import {
+  DISPATCH_OFFER_TIMEOUT_SECONDS,
+  DISPATCH_INITIAL_RADIUS_KM,
+  DISPATCH_MAX_RADIUS_KM,
+} from '../config/environment';
+import { messageQueue, JobTypes } from './messageQueue';
+import { autoAssignmentService, AssignmentCriteria } from './auto-assignment';
+import { notificationDispatcher } from './notificationDispatcher';
+import { pushNotificationService } from './pushNotifications';
+import { adminPermissionService } from './adminPermissions';
+import { analyticsService } from './analytics';
+import { geocodingService } from './geocoding';
+
+type DispatchStatus = 'SEARCHING' | 'OFFERED' | 'ASSIGNED' | 'ESCALATED';
+type OfferStatus = 'OFFERED' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED' | 'CANCELLED';
+
+type DispatchOffer = typeof dispatchOffers.$inferSelect;
+type DeliveryRequest = typeof deliveryRequests.$inferSelect;
+
+interface Location {
+  latitude: number;
+  longitude: number;
+}
+
+class DispatchError extends Error {
+  constructor(public code: 'NOT_FOUND' | 'NOT_DISPATCHABLE' | 'OFFER_CLOSED', message: string) {
+    super(message);
+    this.name = 'DispatchError';
+  }
+}
+
+// Dispatch considers every available driver in range, including new ones without a rating yet
+const DISPATCH_CRITERIA: Omit<AssignmentCriteria, 'maxDistance'> = {
+  maxAssignments: 3,
+  preferredRating: 0,
+  requireActiveStatus: true,
+  considerTier: true,
+};
+
+const toNumber = (value: string | null | undefined): number | null =>
+  value === null || value === undefined ? null : parseFloat(value);
+
+class DispatchService {
+  constructor() {
+    messageQueue.registerHandler(JobTypes.EXPIRE_DISPATCH_OFFER, async (job) => ({
+      expired: await this.expire((job.data as { offerId: string }).offerId),
+    }));
+  }
+
+  // Begin dispatching a new delivery request: offer it to the best-ranked driver near the pickup
+  async start(deliveryId: string): Promise<DispatchOffer | null> {
+    const [delivery] = await db.update(deliveryRequests)
+      .set({
+        dispatchStatus: 'SEARCHING',
+        dispatchRadiusKm: DISPATCH_INITIAL_RADIUS_KM.toFixed(2),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(deliveryRequests.id, deliveryId), eq(deliveryRequests.status, 'PENDING')))
+      .returning();
+    if (!delivery) {
+      throw new DispatchError('NOT_DISPATCHABLE', 'Delivery request is not pending');
+    }
+
+    return this.offerNext(deliveryId);
+  }
+
+  // Offer the delivery to the next driver. Drivers already offered it in this round, and drivers
+  // holding an open offer for another delivery, are skipped. With nobody left in range the radius
+  // doubles up to DISPATCH_MAX_RADIUS_KM, after which dispatch escalates to admins.
+  async offerNext(deliveryId: string): Promise<DispatchOffer | null> {
+    const outcome = await db.transaction(async (tx) => {
+      // The row lock keeps a decline and a timeout for the same delivery from offering it twice
+      const [delivery] = await tx.select()
+        .from(deliveryRequests)
+        .where(eq(deliveryRequests.id, deliveryId))
+        .for('update');
+      if (!delivery || delivery.status !== 'PENDING' || delivery.driverId) {
+        return null;
+      }
+
+      const [open] = await tx.select()
+        .from(dispatchOffers)
+        .where(and(eq(dispatchOffers.deliveryRequestId, deliveryId), eq(dispatchOffers.status, 'OFFERED')));
+      if (open) {
+        return { offer: open, delivery, created: false };
+      }
+
+      const pickup = await this.pickupLocation(delivery);
+      if (!pickup) {
+        return { delivery, escalate: 'No pickup location to dispatch from' };
+      }
+
+      const offeredThisRound = await tx.select({ driverId: dispatchOffers.driverId })
+        .from(dispatchOffers)
+        .where(and(eq(dispatchOffers.deliveryRequestId, deliveryId), eq(dispatchOffers.round, delivery.dispatchRound)));
+      const busy = await tx.select({ driverId: dispatchOffers.driverId })
+        .from(dispatchOffers)
+        .where(and(eq(dispatchOffers.status, 'OFFERED'), gt(dispatchOffers.expiresAt, new Date())));
+      const excluded = [...new Set([...offeredThisRound, ...busy].map(row => row.driverId))];
+
+      let radius = toNumber(delivery.dispatchRadiusKm) ?? DISPATCH_INITIAL_RADIUS_KM;
+      for (;;) {
+        const candidates = (await autoAssignmentService.findDriverCandidates(
+          pickup,
+          { ...DISPATCH_CRITERIA, maxDistance: radius },
+          undefined,
+          excluded,
+        )).filter(candidate => !delivery.requiresPremiumDriver || candidate.tier === 'PREMIUM');
+
+        if (candidates.length > 0) {
+          const driver = autoAssignmentService.selectBestDriver(candidates);
+          const [offer] = await tx.insert(dispatchOffers).values({
+            deliveryRequestId: deliveryId,
+            driverId: driver.userId,
+            round: delivery.dispatchRound,
+            radiusKm: radius.toFixed(2),
+            distanceKm: driver.distance.toFixed(2),
+            score: driver.score.toFixed(2),
+            expiresAt: new Date(Date.now() + DISPATCH_OFFER_TIMEOUT_SECONDS * 1000),
+          }).returning();
+          await tx.update(deliveryRequests)
+            .set({ dispatchStatus: 'OFFERED', dispatchRadiusKm: radius.toFixed(2), updatedAt: new Date() })
+            .where(eq(deliveryRequests.id, deliveryId));
+          return { offer, delivery, created: true };
+        }
+
+        if (radius >= DISPATCH_MAX_RADIUS_KM) {
+          return { delivery, escalate: `No driver accepted within ${DISPATCH_MAX_RADIUS_KM}km` };
+        }
+        radius = Math.min(radius * 2, DISPATCH_MAX_RADIUS_KM);
+        await tx.update(deliveryRequests)
+          .set({ dispatchRadiusKm: radius.toFixed(2), updatedAt: new Date() })
+          .where(eq(deliveryRequests.id, deliveryId));
+      }
+    });
+
+    if (!outcome) {
+      return null;
+    }
+    if (outcome.escalate !== undefined) {
+      await this.escalate(outcome.delivery, outcome.escalate);
+      return null;
+    }
+    if (outcome.created) {
+      await this.announceOffer(outcome.offer, outcome.delivery);
+    }
+    return outcome.offer;
+  }
+
+  // The driver takes the delivery. Fails when the offer was already answered, expired or cancelled.
+  async accept(offerId: string, driverId: number): Promise<DeliveryRequest> {
+    const delivery = await db.transaction(async (tx) => {
+      const [offer] = await tx.update(dispatchOffers)
+        .set({ status: 'ACCEPTED', respondedAt: new Date() })
+        .where(and(
+          eq(dispatchOffers.id, offerId),
+          eq(dispatchOffers.driverId, driverId),
+          eq(dispatchOffers.status, 'OFFERED'),
+          gt(dispatchOffers.expiresAt, new Date()),
+        ))
+        .returning();
+      if (!offer) {
+        await this.assertOfferExists(offerId, driverId);
+        throw new DispatchError('OFFER_CLOSED', 'Offer is no longer open');
+      }
+
+      const [assigned] = await tx.update(deliveryRequests)
+        .set({ driverId, status: 'ASSIGNED', dispatchStatus: 'ASSIGNED', updatedAt: new Date() })
+        .where(and(eq(deliveryRequests.id, offer.deliveryRequestId), eq(deliveryRequests.status, 'PENDING')))
+        .returning();
+      if (!assigned) {
+        throw new DispatchError('OFFER_CLOSED', 'Delivery request is no longer available');
+      }
+      return assigned;
+    });
+
+    await analyticsService.trackEvent('dispatch_offer_accepted', { deliveryId: delivery.id, offerId, driverId });
+    try {
+      await notificationDispatcher.dispatch({
+        userId: delivery.customerId,
+        userRole: 'CONSUMER',
+        title: 'Driver Assigned',
+        message: 'Your delivery is now assigned to a driver.',
+        type: 'DELIVERY_UPDATE',
+        relatedId: delivery.id,
+        priority: 'MEDIUM',
+        actionUrl: `/delivery/${delivery.id}/track`,
+      });
+    } catch (error) {
+      console.error('Failed to notify customer of driver assignment:', error);
+    }
+
+    return delivery;
+  }
+
+  // The driver turns the delivery down; it moves on to the next candidate straight away
+  async decline(offerId: string, driverId: number, reason?: string): Promise<DispatchOffer> {
+    const [offer] = await db.update(dispatchOffers)
+      .set({ status: 'DECLINED', declineReason: reason || null, respondedAt: new Date() })
+      .where(and(
+        eq(dispatchOffers.id, offerId),
+        eq(dispatchOffers.driverId, driverId),
+        eq(dispatchOffers.status, 'OFFERED'),
+      ))
+      .returning();
+    if (!offer) {
+      await this.assertOfferExists(offerId, driverId);
+      throw new DispatchError('OFFER_CLOSED', 'Offer is no longer open');
+    }
+
+    await analyticsService.trackEvent('dispatch_offer_declined', { deliveryId: offer.deliveryRequestId, offerId, driverId, reason });
+    await this.offerNext(offer.deliveryRequestId);
+    return offer;
+  }
+
+  // Timeout job for one offer; a no-op when the driver answered in time
+  async expire(offerId: string): Promise<boolean> {
+    const [offer] = await db.update(dispatchOffers)
+      .set({ status: 'EXPIRED', respondedAt: new Date() })
+      .where(and(
+        eq(dispatchOffers.id, offerId),
+        eq(dispatchOffers.status, 'OFFERED'),
+        lte(dispatchOffers.expiresAt, new Date()),
+      ))
+      .returning();
+    if (!offer) {
+      return false;
+    }
+
+    await analyticsService.trackEvent('dispatch_offer_expired', { deliveryId: offer.deliveryRequestId, offerId, driverId: offer.driverId });
+    await this.offerNext(offer.deliveryRequestId);
+    return true;
+  }
+
+  // Start a fresh round at the initial radius, e.g. after an escalation. Drivers offered in earlier
+  // rounds become eligible again.
+  async retry(deliveryId: string): Promise<DispatchOffer | null> {
+    await this.cancelOffers(deliveryId);
+    const [delivery] = await db.update(deliveryRequests)
+      .set({
+        dispatchStatus: 'SEARCHING',
+        dispatchRadiusKm: DISPATCH_INITIAL_RADIUS_KM.toFixed(2),
+        dispatchRound: sql`${deliveryRequests.dispatchRound} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(deliveryRequests.id, deliveryId), eq(deliveryRequests.status, 'PENDING')))
+      .returning();
+    if (!delivery) {
+      throw new DispatchError('NOT_DISPATCHABLE', 'Delivery request is not pending');
+    }
+
+    return this.offerNext(deliveryId);
+  }
+
+  // Withdraw the open offer, e.g. when an admin assigns a driver by hand
+  async cancelOffers(deliveryId: string): Promise<number> {
+    const cancelled = await db.update(dispatchOffers)
+      .set({ status: 'CANCELLED', respondedAt: new Date() })
+      .where(and(eq(dispatchOffers.deliveryRequestId, deliveryId), eq(dispatchOffers.status, 'OFFERED')))
+      .returning({ id: dispatchOffers.id });
+    return cancelled.length;
+  }
+
+  // Whether another driver currently holds an open offer for the delivery
+  async isOfferedToOther(deliveryId: string, driverId: number): Promise<boolean> {
+    const [open] = await db.select({ driverId: dispatchOffers.driverId })
+      .from(dispatchOffers)
+      .where(and(
+        eq(dispatchOffers.deliveryRequestId, deliveryId),
+        eq(dispatchOffers.status, 'OFFERED'),
+        gt(dispatchOffers.expiresAt, new Date()),
+      ));
+    return !!open && open.driverId !== driverId;
+  }
+
+  async getOffers(deliveryId: string): Promise<DispatchOffer[]> {
+    return db.select()
+      .from(dispatchOffers)
+      .where(eq(dispatchOffers.deliveryRequestId, deliveryId))
+      .orderBy(desc(dispatchOffers.offeredAt));
+  }
+
+  // Open offers waiting on a driver's answer, with the delivery they are for
+  async getOpenOffersForDriver(driverId: number) {
+    return db.select({
+      offer: dispatchOffers,
+      delivery: {
+        id: deliveryRequests.id,
+        deliveryType: deliveryRequests.deliveryType,
+        pickupAddress: deliveryRequests.pickupAddress,
+        deliveryAddress: deliveryRequests.deliveryAddress,
+        estimatedDistance: deliveryRequests.estimatedDistance,
+        estimatedDuration: deliveryRequests.estimatedDuration,
+        deliveryFee: deliveryRequests.deliveryFee,
+        scheduledPickupTime: deliveryRequests.scheduledPickupTime,
+        specialInstructions: deliveryRequests.specialInstructions,
+      },
+    })
+      .from(dispatchOffers)
+      .innerJoin(deliveryRequests, eq(deliveryRequests.id, dispatchOffers.deliveryRequestId))
+      .where(and(
+        eq(dispatchOffers.driverId, driverId),
+        eq(dispatchOffers.status, 'OFFERED'),
+        gt(dispatchOffers.expiresAt, new Date()),
+      ))
+      .orderBy(dispatchOffers.expiresAt);
+  }
+
+  // Pending deliveries that no driver took, oldest first
+  async getEscalated() {
+    return db.select()
+      .from(deliveryRequests)
+      .where(and(eq(deliveryRequests.dispatchStatus, 'ESCALATED'), eq(deliveryRequests.status, 'PENDING')))
+      .orderBy(deliveryRequests.createdAt);
+  }
+
+  // The request's own pickup coordinates, else the merchant's location, else the geocoded pickup
+  // address for requests created before addresses were geocoded
+  private async pickupLocation(delivery: DeliveryRequest): Promise<Location | null> {
+    const stored = geocodingService.fromColumns(delivery.pickupLatitude, delivery.pickupLongitude);
+    if (stored) {
+      return stored;
+    }
+
+    if (delivery.merchantId) {
+      const [merchant] = await db.select({ latitude: users.latitude, longitude: users.longitude })
+        .from(users)
+        .where(eq(users.id, delivery.merchantId));
+      const merchantLocation = geocodingService.fromColumns(merchant?.latitude, merchant?.longitude);
+      if (merchantLocation) {
+        return merchantLocation;
+      }
+    }
+
+    return geocodingService.geocode(delivery.pickupAddress);
+  }
+
+  private async assertOfferExists(offerId: string, driverId: number) {
+    const [offer] = await db.select({ id: dispatchOffers.id })
+      .from(dispatchOffers)
+      .where(and(eq(dispatchOffers.id, offerId), eq(dispatchOffers.driverId, driverId)));
+    if (!offer) {
+      throw new DispatchError('NOT_FOUND', 'Offer not found');
+    }
+  }
+
+  // Schedule the offer's timeout and tell the driver
+  private async announceOffer(offer: DispatchOffer, delivery: DeliveryRequest) {
+    await messageQueue.add(JobTypes.EXPIRE_DISPATCH_OFFER, { offerId: offer.id }, {
+      runAt: offer.expiresAt,
+      priority: 10,
+      uniqueKey: `dispatch_offer:${offer.id}`,
+    });
+    await analyticsService.trackEvent('dispatch_offer_sent', {
+      deliveryId: delivery.id,
+      offerId: offer.id,
+      driverId: offer.driverId,
+      round: offer.round,
+      radiusKm: offer.radiusKm,
+    });
+
+    try {
+      await notificationDispatcher.dispatch({
+        userId: offer.driverId,
+        userRole: 'DRIVER',
+        title: 'New Delivery Request',
+        message: `${delivery.deliveryType} delivery - ₦${delivery.deliveryFee} (${offer.distanceKm}km to pickup). Respond within ${DISPATCH_OFFER_TIMEOUT_SECONDS}s`,
+        type: 'DELIVERY_REQUEST',
+        relatedId: delivery.id,
+        priority: 'URGENT',
+        actionUrl: `/delivery/offers/${offer.id}`,
+        expiresAt: offer.expiresAt,
+        data: { offerId: offer.id, deliveryId: delivery.id, expiresAt: offer.expiresAt.toISOString() },
+      });
+    } catch (error) {
+      console.error('Failed to notify driver of dispatch offer:', error);
+    }
+  }
+
+  // Nobody took the delivery: flag it and alert the admins who run dispatch
+  private async escalate(delivery: DeliveryRequest, reason: string) {
+    const [escalated] = await db.update(deliveryRequests)
+      .set({ dispatchStatus: 'ESCALATED', updatedAt: new Date() })
+      .where(and(
+        eq(deliveryRequests.id, delivery.id),
+        eq(deliveryRequests.status, 'PENDING'),
+        inArray(deliveryRequests.dispatchStatus, ['SEARCHING', 'OFFERED']),
+      ))
+      .returning({ id: deliveryRequests.id });
+    if (!escalated) {
+      return;
+    }
+
+    await analyticsService.trackEvent('dispatch_escalated', { deliveryId: delivery.id, reason });
+    const adminIds = await adminPermissionService.listAdminIdsWithPermission('dispatch.manage');
+    if (adminIds.length > 0) {
+      await pushNotificationService.sendToUsers(adminIds.map(String), {
+        title: 'Delivery needs a driver',
+        body: `${delivery.trackingNumber || delivery.id}: ${reason}`,
+        data: { type: 'dispatch_escalated', deliveryId: delivery.id },
+      }, { priority: 'high' });
+    }
+  }
+}
+
+export const dispatchService = new DispatchService();
+export { DispatchService, DispatchError, DispatchStatus, OfferStatus, DispatchOffer };
@@ -0,0 +1,539 @@
+import crypto from 'crypto';
+import db from '../config/database';
+import {
+  ledgerAccounts,
+  journalEntries,
+  ledgerPostings,
+  transactions,
+  paymentEvents,
+  deliveryRequests,
+  financePeriods,
+} from '../schema';
+import { and, eq, gte, lt, inArray, desc, sql } from 'drizzle-orm';
+import { SystemAccounts } from './ledger';
+
+interface ReportRange {
+  // Lagos calendar days, both inclusive
+  fromDay: string;
+  toDay: string;
+  from: Date;
+  to: Date;
+}
+
+interface FinanceDay {
+  date: string;
+  gmv: string;
+  payments: number;
+  settled: string;
+  commission: string;
+  takeRate: number | null;
+  deliveryFees: string;
+  deliveries: number;
+  refunds: string;
+  refundCount: number;
+  disputes: number;
+  chargebacks: number;
+  chargebackAmount: string;
+  walletFunding: string;
+  walletFloat: string;
+  escrowHeld: string;
+  payoutsRequested: string;
+  payoutsCompleted: string;
+  payoutsReversed: string;
+  payoutsPending: string;
+  gatewayCollected: string;
+  ledgerCollected: string;
+  reconciliationDifference: string;
+  unmatched: number;
+}
+
+// A gateway reference whose collected amount differs from what the ledger recorded for it
+interface Discrepancy {
+  date: string;
+  reference: string;
+  provider: string | null;
+  gatewayAmount: string;
+  ledgerAmount: string;
+  difference: string;
+}
+
+interface FinanceReport {
+  from: string;
+  to: string;
+  timezone: string;
+  currency: string;
+  generatedAt: string;
+  summary: Record<string, string | number | null>;
+  days: FinanceDay[];
+  discrepancies: Discrepancy[];
+  discrepanciesTruncated: boolean;
+}
+
+class FinanceReportError extends Error {
+  constructor(public code: 'INVALID_RANGE' | 'INVALID_PERIOD' | 'PERIOD_NOT_ENDED' | 'PERIOD_CLOSED', message: string) {
+    super(message);
+    this.name = 'FinanceReportError';
+  }
+}
+
+// Books are kept in Lagos days; West Africa Time is UTC+1 all year
+const TIMEZONE = 'Africa/Lagos';
+const LAGOS_OFFSET_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 93;
+const MAX_DISCREPANCIES = 1000;
+
+// Gateway events land up to this long before or after the ledger entry for the same payment
+const RECONCILIATION_SLACK_MS = DAY_MS;
+// Events about money going back out, which are not collections
+const NON_COLLECTION_EVENTS = '(refund|dispute|chargeback|reversal)';
+const CHARGEBACK_EVENTS = '(dispute|chargeback)';
+
+export const FINANCE_DAY_COLUMNS: (keyof FinanceDay)[] = [
+  'date', 'gmv', 'payments', 'settled', 'commission', 'takeRate', 'deliveryFees', 'deliveries',
+  'refunds', 'refundCount', 'disputes', 'chargebacks', 'chargebackAmount', 'walletFunding',
+  'walletFloat', 'escrowHeld', 'payoutsRequested', 'payoutsCompleted', 'payoutsReversed',
+  'payoutsPending', 'gatewayCollected', 'ledgerCollected', 'reconciliationDifference', 'unmatched',
+];
+
+export const FINANCE_DISCREPANCY_COLUMNS: (keyof Discrepancy)[] = [
+  'date', 'reference', 'provider', 'gatewayAmount', 'ledgerAmount', 'difference',
+];
+
+// Sums are kept in kobo so daily totals add up exactly
+const toMinor = (amount: unknown): number => Math.round(Number(amount || 0) * 100);
+const fromMinor = (minor: number): string => (minor / 100).toFixed(2);
+
+const LOCAL_DAY = (column: unknown) => sql<string>`to_char(${column} + interval '1 hour', 'YYYY-MM-DD')`;
+const localDay = (date: Date): string => new Date(date.getTime() + LAGOS_OFFSET_MS).toISOString().slice(0, 10);
+const dayStart = (day: string): Date => new Date(Date.parse(`${day}T00:00:00Z`) - LAGOS_OFFSET_MS);
+const addDays = (day: string, days: number): string => new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const isDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`))
+  && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+// Daily GMV, commission, delivery fees, refunds, disputes, float and payouts, read from the ledger
+// and reconciled against what the payment gateways reported collecting
+class FinanceReportService {
+  parseRange(raw: { from?: unknown; to?: unknown }): ReportRange {
+    const toDay = raw.to ? String(raw.to) : localDay(new Date());
+    const fromDay = raw.from ? String(raw.from) : addDays(toDay, 1 - DEFAULT_RANGE_DAYS);
+    if (!isDay(fromDay) || !isDay(toDay) || fromDay > toDay) {
+      throw new FinanceReportError('INVALID_RANGE', 'from and to must be YYYY-MM-DD dates with from on or before to');
+    }
+    if (Date.parse(toDay) - Date.parse(fromDay) >= MAX_RANGE_DAYS * DAY_MS) {
+      throw new FinanceReportError('INVALID_RANGE', `Reports cover at most ${MAX_RANGE_DAYS} days`);
+    }
+    return this.range(fromDay, toDay);
+  }
+
+  // An accounting month, YYYY-MM
+  parsePeriod(period: string): ReportRange {
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+      throw new FinanceReportError('INVALID_PERIOD', 'period must be a month in YYYY-MM form');
+    }
+    const [year, month] = period.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+    return this.range(`${period}-01`, lastDay);
+  }
+
+  async build(range: ReportRange): Promise<FinanceReport> {
+    const days = new Map<string, FinanceDay>();
+    for (let day = range.fromDay; day <= range.toDay; day = addDays(day, 1)) {
+      days.set(day, this.emptyDay(day));
+    }
+
+    const [movements, opening, deliveries, disputes, chargebacks, reconciliation] = await Promise.all([
+      this.ledgerMovements(range),
+      this.openingBalances(range),
+      this.deliveryFees(range),
+      this.disputesOpened(range),
+      this.chargebacks(range),
+      this.reconcile(range),
+    ]);
+
+    const balances = new Map(opening.map(row => [row.accountType, toMinor(row.balance)]));
+    const openingWalletFloat = balances.get('WALLET') || 0;
+    const change = new Map<string, Map<string, number>>();
+    const totals = new Map<string, number>();
+    const add = (day: FinanceDay, field: keyof FinanceDay, minor: number) => {
+      const key = `${day.date}:${field}`;
+      totals.set(key, (totals.get(key) || 0) + minor);
+    };
+
+    for (const row of movements) {
+      const day = days.get(row.day);
+      if (!day) continue;
+      const amount = toMinor(row.amount);
+
+      if (row.entryType === 'PAYMENT' && row.accountType === 'ESCROW' && row.direction === 'CREDIT') {
+        add(day, 'gmv', amount);
+        day.payments += row.entries;
+      }
+      if (row.entryType === 'SETTLEMENT' && row.accountType === 'ESCROW' && row.direction === 'DEBIT') {
+        add(day, 'settled', amount);
+      }
+      if (row.accountType === 'PLATFORM_FEE') {
+        add(day, 'commission', row.direction === 'CREDIT' ? amount : -amount);
+      }
+      if (row.entryType === 'REFUND' && row.accountType === 'GATEWAY' && row.direction === 'CREDIT') {
+        add(day, 'refunds', amount);
+        day.refundCount += row.entries;
+      }
+      if (row.entryType === 'WALLET_FUNDING' && row.accountType === 'GATEWAY' && row.direction === 'DEBIT') {
+        add(day, 'walletFunding', amount);
+      }
+      // Withdrawals enter PAYOUTS_PENDING when requested and leave it when the payout job either
+      // transfers them (PAYOUT) or returns them to the wallet (PAYOUT_REVERSAL)
+      if (row.accountType === 'PAYOUT' && row.direction === 'CREDIT') {
+        add(day, 'payoutsRequested', amount);
+      }
+      if (row.entryType === 'PAYOUT' && row.accountType === 'PAYOUT' && row.direction === 'DEBIT') {
+        add(day, 'payoutsCompleted', amount);
+      }
+      if (row.entryType === 'PAYOUT_REVERSAL' && row.accountType === 'PAYOUT' && row.direction === 'DEBIT') {
+        add(day, 'payoutsReversed', amount);
+      }
+
+      if (!change.has(row.day)) change.set(row.day, new Map());
+      const dayChange = change.get(row.day)!;
+      const signed = row.direction === row.normalBalance ? amount : -amount;
+      dayChange.set(row.accountType, (dayChange.get(row.accountType) || 0) + signed);
+    }
+
+    for (const row of deliveries) {
+      const day = days.get(row.day);
+      if (!day) continue;
+      add(day, 'deliveryFees', toMinor(row.fees));
+      day.deliveries += row.count;
+    }
+    for (const row of disputes) {
+      const day = days.get(row.day);
+      if (day) day.disputes += row.count;
+    }
+    for (const row of chargebacks) {
+      const day = days.get(row.day);
+      if (!day) continue;
+      day.chargebacks += row.count;
+      add(day, 'chargebackAmount', toMinor(row.amount));
+    }
+    for (const [date, recon] of reconciliation.byDay) {
+      const day = days.get(date);
+      if (!day) continue;
+      add(day, 'gatewayCollected', recon.gateway);
+      add(day, 'ledgerCollected', recon.ledger);
+      day.unmatched += recon.unmatched;
+    }
+
+    // Running balances close each day on the opening balance plus that day's postings
+    const money: (keyof FinanceDay)[] = [
+      'gmv', 'settled', 'commission', 'deliveryFees', 'refunds', 'chargebackAmount', 'walletFunding',
+      'payoutsRequested', 'payoutsCompleted', 'payoutsReversed', 'gatewayCollected', 'ledgerCollected',
+    ];
+    const rows = [...days.values()].map(day => {
+      for (const [accountType, delta] of change.get(day.date) || []) {
+        balances.set(accountType, (balances.get(accountType) || 0) + delta);
+      }
+      const minor = (field: keyof FinanceDay) => totals.get(`${day.date}:${field}`) || 0;
+      const row = { ...day } as Record<string, unknown>;
+      for (const field of money) {
+        row[field] = fromMinor(minor(field));
+      }
+      row.takeRate = minor('settled') > 0 ? Math.round((minor('commission') / minor('settled')) * 10000) / 10000 : null;
+      row.walletFloat = fromMinor(balances.get('WALLET') || 0);
+      row.escrowHeld = fromMinor(balances.get('ESCROW') || 0);
+      row.payoutsPending = fromMinor(balances.get('PAYOUT') || 0);
+      row.reconciliationDifference = fromMinor(minor('gatewayCollected') - minor('ledgerCollected'));
+      return row as unknown as FinanceDay;
+    });
+
+    const sum = (field: keyof FinanceDay) => rows.reduce((total, row) => total + toMinor(row[field]), 0);
+    const count = (field: keyof FinanceDay) => rows.reduce((total, row) => total + Number(row[field]), 0);
+    const last = rows[rows.length - 1];
+
+    return {
+      from: range.fromDay,
+      to: range.toDay,
+      timezone: TIMEZONE,
+      currency: 'NGN',
+      generatedAt: new Date().toISOString(),
+      summary: {
+        gmv: fromMinor(sum('gmv')),
+        payments: count('payments'),
+        settled: fromMinor(sum('settled')),
+        commission: fromMinor(sum('commission')),
+        takeRate: sum('settled') > 0 ? Math.round((sum('commission') / sum('settled')) * 10000) / 10000 : null,
+        deliveryFees: fromMinor(sum('deliveryFees')),
+        deliveries: count('deliveries'),
+        refunds: fromMinor(sum('refunds')),
+        refundCount: count('refundCount'),
+        disputes: count('disputes'),
+        chargebacks: count('chargebacks'),
+        chargebackAmount: fromMinor(sum('chargebackAmount')),
+        walletFunding: fromMinor(sum('walletFunding')),
+        openingWalletFloat: fromMinor(openingWalletFloat),
+        closingWalletFloat: last.walletFloat,
+        closingEscrowHeld: last.escrowHeld,
+        payoutsRequested: fromMinor(sum('payoutsRequested')),
+        payoutsCompleted: fromMinor(sum('payoutsCompleted')),
+        payoutsReversed: fromMinor(sum('payoutsReversed')),
+        closingPayoutsPending: last.payoutsPending,
+        gatewayCollected: fromMinor(sum('gatewayCollected')),
+        ledgerCollected: fromMinor(sum('ledgerCollected')),
+        reconciliationDifference: fromMinor(sum('gatewayCollected') - sum('ledgerCollected')),
+        unmatched: count('unmatched'),
+      },
+      days: rows,
+      discrepancies: reconciliation.discrepancies.slice(0, MAX_DISCREPANCIES),
+      discrepanciesTruncated: reconciliation.discrepancies.length > MAX_DISCREPANCIES,
+    };
+  }
+
+  // A closed month's frozen report, or the live figures for a month still open
+  async getPeriod(period: string) {
+    const range = this.parsePeriod(period);
+    const [closed] = await db.select().from(financePeriods).where(eq(financePeriods.period, period)).limit(1);
+    if (closed) {
+      return {
+        period,
+        status: 'CLOSED' as const,
+        closedAt: closed.closedAt,
+        closedBy: closed.closedBy,
+        notes: closed.notes,
+        checksum: closed.checksum,
+        report: closed.report as FinanceReport,
+      };
+    }
+
+    const report = await this.build(range);
+    return { period, status: 'OPEN' as const, checksum: this.checksum(report), report };
+  }
+
+  async listClosedPeriods() {
+    return db.select({
+      period: financePeriods.period,
+      periodStart: financePeriods.periodStart,
+      periodEnd: financePeriods.periodEnd,
+      checksum: financePeriods.checksum,
+      notes: financePeriods.notes,
+      closedBy: financePeriods.closedBy,
+      closedAt: financePeriods.closedAt,
+    })
+      .from(financePeriods)
+      .orderBy(desc(financePeriods.period));
+  }
+
+  // Freeze a finished month's report. Once closed it is served as stored, with the checksum
+  // finance can quote against the export.
+  async closePeriod(period: string, closedBy: number, notes?: string) {
+    const range = this.parsePeriod(period);
+    if (range.to.getTime() > Date.now()) {
+      throw new FinanceReportError('PERIOD_NOT_ENDED', `${period} has not ended yet`);
+    }
+
+    const report = await this.build(range);
+    const checksum = this.checksum(report);
+    const [closed] = await db.insert(financePeriods)
+      .values({
+        period,
+        periodStart: range.from,
+        periodEnd: range.to,
+        report,
+        checksum,
+        notes,
+        closedBy,
+      })
+      .onConflictDoNothing({ target: financePeriods.period })
+      .returning();
+
+    if (!closed) {
+      throw new FinanceReportError('PERIOD_CLOSED', `${period} is already closed`);
+    }
+    return closed;
+  }
+
+  checksum(report: FinanceReport): string {
+    return crypto.createHash('sha256').update(JSON.stringify(report)).digest('hex');
+  }
+
+  private range(fromDay: string, toDay: string): ReportRange {
+    return { fromDay, toDay, from: dayStart(fromDay), to: dayStart(addDays(toDay, 1)) };
+  }
+
+  private emptyDay(date: string): FinanceDay {
+    return {
+      date, gmv: '0.00', payments: 0, settled: '0.00', commission: '0.00', takeRate: null,
+      deliveryFees: '0.00', deliveries: 0, refunds: '0.00', refundCount: 0, disputes: 0,
+      chargebacks: 0, chargebackAmount: '0.00', walletFunding: '0.00', walletFloat: '0.00',
+      escrowHeld: '0.00', payoutsRequested: '0.00', payoutsCompleted: '0.00', payoutsReversed: '0.00',
+      payoutsPending: '0.00', gatewayCollected: '0.00', ledgerCollected: '0.00', reconciliationDifference: '0.00', unmatched: 0,
+    };
+  }
+
+  // Posted amounts per day, entry type, account type and direction
+  private ledgerMovements(range: ReportRange) {
+    const day = LOCAL_DAY(ledgerPostings.createdAt);
+    return db.select({
+      day,
+      entryType: journalEntries.entryType,
+      accountType: ledgerAccounts.accountType,
+      normalBalance: ledgerAccounts.normalBalance,
+      direction: ledgerPostings.direction,
+      amount: sql<string>`sum(${ledgerPostings.amount})`,
+      entries: sql<number>`count(distinct ${ledgerPostings.entryId})`.mapWith(Number),
+    })
+      .from(ledgerPostings)
+      .innerJoin(ledgerAccounts, eq(ledgerPostings.accountId, ledgerAccounts.id))
+      .innerJoin(journalEntries, eq(ledgerPostings.entryId, journalEntries.id))
+      .where(and(gte(ledgerPostings.createdAt, range.from), lt(ledgerPostings.createdAt, range.to)))
+      .groupBy(day, journalEntries.entryType, ledgerAccounts.accountType, ledgerAccounts.normalBalance, ledgerPostings.direction);
+  }
+
+  // Balance of each account type when the range opens, from every earlier posting
+  private openingBalances(range: ReportRange) {
+    return db.select({
+      accountType: ledgerAccounts.accountType,
+      balance: sql<string>`coalesce(sum(case when ${ledgerPostings.direction} = ${ledgerAccounts.normalBalance} then ${ledgerPostings.amount} else -${ledgerPostings.amount} end), 0)`,
+    })
+      .from(ledgerPostings)
+      .innerJoin(ledgerAccounts, eq(ledgerPostings.accountId, ledgerAccounts.id))
+      .where(lt(ledgerPostings.createdAt, range.from))
+      .groupBy(ledgerAccounts.accountType);
+  }
+
+  // Fees on deliveries completed each day
+  private deliveryFees(range: ReportRange) {
+    const day = LOCAL_DAY(deliveryRequests.actualDeliveryTime);
+    return db.select({
+      day,
+      fees: sql<string>`sum(${deliveryRequests.deliveryFee}::numeric)`,
+      count: sql<number>`count(*)`.mapWith(Number),
+    })
+      .from(deliveryRequests)
+      .where(and(
+        eq(deliveryRequests.status, 'DELIVERED'),
+        gte(deliveryRequests.actualDeliveryTime, range.from),
+        lt(deliveryRequests.actualDeliveryTime, range.to),
+      ))
+      .groupBy(day);
+  }
+
+  // Disputes customers raised with us
+  private disputesOpened(range: ReportRange) {
+    const day = LOCAL_DAY(transactions.createdAt);
+    return db.select({ day, count: sql<number>`count(*)`.mapWith(Number) })
+      .from(transactions)
+      .where(and(eq(transactions.type, 'DISPUTE'), gte(transactions.createdAt, range.from), lt(transactions.createdAt, range.to)))
+      .groupBy(day);
+  }
+
+  // Chargebacks the gateways notified us of
+  private chargebacks(range: ReportRange) {
+    const day = LOCAL_DAY(paymentEvents.createdAt);
+    return db.select({
+      day,
+      count: sql<number>`count(*)`.mapWith(Number),
+      amount: sql<string>`coalesce(sum(${paymentEvents.amount}), 0)`,
+    })
+      .from(paymentEvents)
+      .where(and(
+        sql`${paymentEvents.eventType} ~* ${CHARGEBACK_EVENTS}`,
+        gte(paymentEvents.createdAt, range.from),
+        lt(paymentEvents.createdAt, range.to),
+      ))
+      .groupBy(day);
+  }
+
+  // Match every payment reference the gateways reported as collected against the gateway-clearing
+  // debits the ledger posted for it. A reference is counted on the day the gateway first reported
+  // it, or the day the ledger posted it when the gateway never did.
+  private async reconcile(range: ReportRange) {
+    const from = new Date(range.from.getTime() - RECONCILIATION_SLACK_MS);
+    const to = new Date(range.to.getTime() + RECONCILIATION_SLACK_MS);
+    const gatewayReference = sql<string>`coalesce(${transactions.metadata}->>'txRef', ${transactions.transactionRef})`;
+
+    const [gateway, ledger] = await Promise.all([
+      // Webhooks and callbacks for the same charge repeat its amount, so each reference counts once
+      db.select({
+        reference: paymentEvents.txRef,
+        provider: sql<string>`min(${paymentEvents.provider})`,
+        amount: sql<string>`max(${paymentEvents.amount})`,
+        firstSeenAt: sql<Date>`min(${paymentEvents.createdAt})`.mapWith(paymentEvents.createdAt),
+      })
+        .from(paymentEvents)
+        .where(and(
+          eq(paymentEvents.paymentStatus, 'successful'),
+          sql`${paymentEvents.txRef} is not null`,
+          sql`${paymentEvents.eventType} !~* ${NON_COLLECTION_EVENTS}`,
+          gte(paymentEvents.createdAt, from),
+          lt(paymentEvents.createdAt, to),
+        ))
+        .groupBy(paymentEvents.txRef),
+
+      // A checkout's orders share one gateway reference, kept in each payment's metadata, so
+      // their payments are summed
+      db.select({
+        reference: gatewayReference,
+        amount: sql<string>`sum(${ledgerPostings.amount})`,
+        postedAt: sql<Date>`min(${ledgerPostings.createdAt})`.mapWith(ledgerPostings.createdAt),
+      })
+        .from(ledgerPostings)
+        .innerJoin(ledgerAccounts, eq(ledgerPostings.accountId, ledgerAccounts.id))
+        .innerJoin(journalEntries, eq(ledgerPostings.entryId, journalEntries.id))
+        .innerJoin(transactions, eq(journalEntries.transactionId, transactions.id))
+        .where(and(
+          eq(ledgerAccounts.code, SystemAccounts.GATEWAY_CLEARING),
+          eq(ledgerPostings.direction, 'DEBIT'),
+          inArray(journalEntries.entryType, ['PAYMENT', 'WALLET_FUNDING']),
+          gte(ledgerPostings.createdAt, from),
+          lt(ledgerPostings.createdAt, to),
+        ))
+        .groupBy(gatewayReference),
+    ]);
+
+    const references = new Map<string, { provider: string | null; gateway: number | null; ledger: number | null; at: Date }>();
+    for (const row of gateway) {
+      if (!row.reference) continue;
+      references.set(row.reference, { provider: row.provider, gateway: toMinor(row.amount), ledger: null, at: new Date(row.firstSeenAt) });
+    }
+    for (const row of ledger) {
+      if (!row.reference) continue;
+      const existing = references.get(row.reference);
+      if (existing) {
+        existing.ledger = toMinor(row.amount);
+      } else {
+        references.set(row.reference, { provider: null, gateway: null, ledger: toMinor(row.amount), at: new Date(row.postedAt) });
+      }
+    }
+
+    const byDay = new Map<string, { gateway: number; ledger: number; unmatched: number }>();
+    const discrepancies: Discrepancy[] = [];
+    for (const [reference, match] of references) {
+      if (match.at < range.from || match.at >= range.to) continue;
+      const date = localDay(match.at);
+      if (!byDay.has(date)) byDay.set(date, { gateway: 0, ledger: 0, unmatched: 0 });
+      const day = byDay.get(date)!;
+      day.gateway += match.gateway || 0;
+      day.ledger += match.ledger || 0;
+
+      if (match.gateway !== match.ledger) {
+        day.unmatched++;
+        discrepancies.push({
+          date,
+          reference,
+          provider: match.provider,
+          gatewayAmount: fromMinor(match.gateway || 0),
+          ledgerAmount: fromMinor(match.ledger || 0),
+          difference: fromMinor((match.gateway || 0) - (match.ledger || 0)),
+        });
+      }
+    }
+
+    discrepancies.sort((a, b) => a.date.localeCompare(b.date) || a.reference.localeCompare(b.reference));
+    return { byDay, discrepancies };
+  }
+}
+
+export const financeReportService = new FinanceReportService();
+export { FinanceReportService, FinanceReportError, FinanceReport, FinanceDay, Discrepancy, ReportRange };
@@ -0,0 +1,92 @@
+import { GeocodingProvider, GeocodeResult, GeocodePrecision, normaliseAddress } from './types';
+import { STATES, STATE_CENTRES, LGAS, DISTRICTS, LANDMARKS } from './nigeria';
+
+interface GazetteerEntry {
+  name: string;
+  // Normalised name and aliases, as they would appear in a normalised address
+  phrases: string[];
+  precision: GeocodePrecision;
+  state: string;
+  lga?: string;
+  latitude: number;
+  longitude: number;
+}
+
+// The more specific match wins when an address names several places
+const PRECISION_RANK: Partial<Record<GeocodePrecision, number>> = {
+  LANDMARK: 4,
+  DISTRICT: 3,
+  LGA: 2,
+  CITY: 2,
+  STATE: 1,
+};
+
+const buildEntries = (): GazetteerEntry[] => {
+  const entries: GazetteerEntry[] = [];
+  const add = (name: string, aliases: string[] = [], precision: GeocodePrecision, state: string, latitude: number, longitude: number, lga?: string) => {
+    entries.push({ name, phrases: [name, ...aliases].map(normaliseAddress), precision, state, lga, latitude, longitude });
+  };
+
+  for (const { state, capital: [capital, latitude, longitude, capitalAliases], aliases } of STATES) {
+    const [centreLatitude, centreLongitude] = STATE_CENTRES[state] || [latitude, longitude];
+    add(state, [`${state} State`, ...(aliases || [])], 'STATE', state, centreLatitude, centreLongitude);
+    add(capital, capitalAliases, 'CITY', state, latitude, longitude);
+  }
+  for (const [state, places] of Object.entries(LGAS)) {
+    places.forEach(([name, latitude, longitude, aliases]) => add(name, aliases, 'LGA', state, latitude, longitude, name));
+  }
+  for (const [state, places] of Object.entries(DISTRICTS)) {
+    places.forEach(([name, latitude, longitude, aliases]) => add(name, aliases, 'DISTRICT', state, latitude, longitude));
+  }
+  for (const [state, places] of Object.entries(LANDMARKS)) {
+    places.forEach(([name, latitude, longitude, aliases]) => add(name, aliases, 'LANDMARK', state, latitude, longitude));
+  }
+  return entries;
+};
+
+// Offline lookup against the bundled gazetteer. Resolves an address to the most specific place it
+// names, so "12 Allen Avenue, Ikeja, Lagos" lands on Allen Avenue rather than the state centre.
+// Always available: used in tests and as the last fallback when online geocoders fail.
+class GazetteerGeocodingProvider implements GeocodingProvider {
+  readonly name = 'gazetteer' as const;
+  private entries = buildEntries();
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    return this.lookup(address);
+  }
+
+  lookup(address: string): GeocodeResult | null {
+    const text = ` ${normaliseAddress(address)} `;
+    const matches = this.entries
+      .map(entry => ({ entry, length: Math.max(0, ...entry.phrases.filter(phrase => phrase && text.includes(` ${phrase} `)).map(phrase => phrase.length)) }))
+      .filter(match => match.length > 0);
+    if (matches.length === 0) {
+      return null;
+    }
+
+    // A state named in the address rules out same-named places elsewhere, e.g. Surulere in Oyo
+    const namedStates = new Set(matches.filter(match => match.entry.precision === 'STATE').map(match => match.entry.state));
+    const inNamedState = matches.filter(match => namedStates.has(match.entry.state));
+    const pool = namedStates.size > 0 && inNamedState.length > 0 ? inNamedState : matches;
+
+    const [{ entry }] = pool.sort((a, b) =>
+      (PRECISION_RANK[b.entry.precision] || 0) - (PRECISION_RANK[a.entry.precision] || 0) || b.length - a.length);
+
+    return {
+      latitude: entry.latitude,
+      longitude: entry.longitude,
+      formattedAddress: entry.precision === 'STATE' ? `${entry.state}, Nigeria` : `${entry.name}, ${entry.state}, Nigeria`,
+      precision: entry.precision,
+      state: entry.state,
+      lga: entry.lga,
+      provider: this.name,
+    };
+  }
+}
+
+export const gazetteerGeocodingProvider = new GazetteerGeocodingProvider();
+export { GazetteerGeocodingProvider };
@@ -0,0 +1,84 @@
+import axios from 'axios';
+import { GOOGLE_MAPS_API_KEY } from '../../config/environment';
+import { GeocodingProvider, GeocodeResult, GeocodePrecision, GeocodingProviderError } from './types';
+
+const GEOCODE_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
+const REQUEST_TIMEOUT_MS = 5000;
+
+// Statuses that may succeed on a later attempt
+const RETRYABLE_STATUSES = ['OVER_QUERY_LIMIT', 'UNKNOWN_ERROR'];
+
+const PRECISION_BY_LOCATION_TYPE: Record<string, GeocodePrecision> = {
+  ROOFTOP: 'ADDRESS',
+  RANGE_INTERPOLATED: 'ADDRESS',
+  GEOMETRIC_CENTER: 'STREET',
+  APPROXIMATE: 'DISTRICT',
+};
+
+// Google Maps Geocoding API, restricted to Nigeria
+class GoogleGeocodingProvider implements GeocodingProvider {
+  readonly name = 'google' as const;
+
+  isConfigured(): boolean {
+    return !!GOOGLE_MAPS_API_KEY;
+  }
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    if (!this.isConfigured()) {
+      throw new GeocodingProviderError(this.name, 'Google Maps is not configured');
+    }
+
+    let data: any;
+    try {
+      const response = await axios.get(GEOCODE_URL, {
+        params: { address, components: 'country:NG', key: GOOGLE_MAPS_API_KEY },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      data = response.data;
+    } catch (error: any) {
+      const status: number | undefined = error?.response?.status;
+      throw new GeocodingProviderError(this.name, error?.message || 'Request failed', !status || status >= 500 || status === 429);
+    }
+
+    if (data.status === 'ZERO_RESULTS') {
+      return null;
+    }
+    if (data.status !== 'OK') {
+      throw new GeocodingProviderError(this.name, `${data.status}: ${data.error_message || 'Geocoding failed'}`, RETRYABLE_STATUSES.includes(data.status));
+    }
+
+    const [result] = data.results;
+    const component = (type: string): string | undefined =>
+      result.address_components?.find((item: any) => item.types?.includes(type))?.long_name;
+
+    return {
+      latitude: result.geometry.location.lat,
+      longitude: result.geometry.location.lng,
+      formattedAddress: result.formatted_address,
+      precision: this.precisionOf(result),
+      state: component('administrative_area_level_1'),
+      lga: component('administrative_area_level_2'),
+      provider: this.name,
+    };
+  }
+
+  private precisionOf(result: any): GeocodePrecision {
+    const types: string[] = result.types || [];
+    if (types.includes('administrative_area_level_1')) {
+      return 'STATE';
+    }
+    if (types.includes('administrative_area_level_2')) {
+      return 'LGA';
+    }
+    if (types.includes('locality')) {
+      return 'CITY';
+    }
+    if (types.includes('point_of_interest') || types.includes('establishment')) {
+      return 'LANDMARK';
+    }
+    return PRECISION_BY_LOCATION_TYPE[result.geometry?.location_type] || 'DISTRICT';
+  }
+}
+
+export const googleGeocodingProvider = new GoogleGeocodingProvider();
+export { GoogleGeocodingProvider };
@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import db from '../../config/database';
+import { geocodeCache } from '../../schema';
+import { eq, and, gt, sql } from 'drizzle-orm';
+import { env, GEOCODING_PROVIDER, GOOGLE_MAPS_API_KEY, GEOCODE_CACHE_TTL_DAYS } from '../../config/environment';
+import { googleGeocodingProvider } from './google';
+import { nominatimGeocodingProvider } from './nominatim';
+import { gazetteerGeocodingProvider } from './gazetteer';
+import {
+  Coordinates,
+  GeocodeResult,
+  GeocodePrecision,
+  GeocodingProvider,
+  GeocodingProviderName,
+  normaliseAddress,
+  distanceKm,
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Misses, and answers the gazetteer gave because the online geocoder failed, are retried sooner
+const SHORT_TTL_DAYS = 1;
+const MEMORY_CACHE_SIZE = 500;
+// Average city driving speed used for estimates
+const AVERAGE_SPEED_KMH = 25;
+
+class GeocodingService {
+  private providers = new Map<GeocodingProviderName, GeocodingProvider>([
+    [googleGeocodingProvider.name, googleGeocodingProvider],
+    [nominatimGeocodingProvider.name, nominatimGeocodingProvider],
+    [gazetteerGeocodingProvider.name, gazetteerGeocodingProvider],
+  ]);
+  private primary: GeocodingProviderName;
+  // Most recently used last; keeps hot addresses off the database for up to a day
+  private memory = new Map<string, { result: GeocodeResult | null; expiresAt: number }>();
+
+  constructor() {
+    const configured = (GEOCODING_PROVIDER || '').toLowerCase() as GeocodingProviderName;
+    if (this.providers.has(configured)) {
+      this.primary = configured;
+    } else if (env.isTest) {
+      this.primary = 'gazetteer';
+    } else {
+      this.primary = GOOGLE_MAPS_API_KEY ? 'google' : 'nominatim';
+    }
+  }
+
+  // Coordinates for a free-text Nigerian address, or null when nothing matched. Never throws:
+  // the online geocoder is tried first, then the offline gazetteer, and answers are cached.
+  async geocode(address: string | null | undefined): Promise<GeocodeResult | null> {
+    const normalised = normaliseAddress(address || '');
+    if (!normalised) {
+      return null;
+    }
+    const key = crypto.createHash('sha256').update(normalised).digest('hex');
+
+    const hit = this.memory.get(key);
+    if (hit && hit.expiresAt > Date.now()) {
+      this.memory.delete(key);
+      this.memory.set(key, hit);
+      return hit.result;
+    }
+
+    try {
+      const cached = await this.readCache(key);
+      if (cached !== undefined) {
+        this.remember(key, cached);
+        return cached;
+      }
+    } catch (error) {
+      console.error('Geocode cache read failed:', error);
+    }
+
+    const { result, degraded } = await this.resolve(address!);
+    this.remember(key, result);
+    try {
+      await this.writeCache(key, address!, result, degraded);
+    } catch (error) {
+      console.error('Geocode cache write failed:', error);
+    }
+    return result;
+  }
+
+  // Offline lookup only, e.g. for bulk work that should not spend provider quota
+  lookupOffline(address: string): GeocodeResult | null {
+    return gazetteerGeocodingProvider.lookup(address);
+  }
+
+  distanceKm(from: Coordinates, to: Coordinates): number {
+    return Math.round(distanceKm(from, to) * 100) / 100;
+  }
+
+  estimateDurationMinutes(distance: number): number {
+    return Math.ceil(distance / AVERAGE_SPEED_KMH * 60);
+  }
+
+  // Distance and drive time between two points, when both are known
+  estimateTrip(from: Coordinates | null, to: Coordinates | null): { distanceKm: number; durationMinutes: number } | null {
+    if (!from || !to) {
+      return null;
+    }
+    const distance = this.distanceKm(from, to);
+    return { distanceKm: distance, durationMinutes: this.estimateDurationMinutes(distance) };
+  }
+
+  // Decimal columns store coordinates as strings
+  toColumns(point: Coordinates | null): { latitude: string | null; longitude: string | null } {
+    return point
+      ? { latitude: point.latitude.toFixed(8), longitude: point.longitude.toFixed(8) }
+      : { latitude: null, longitude: null };
+  }
+
+  fromColumns(latitude: string | null | undefined, longitude: string | null | undefined): Coordinates | null {
+    if (latitude === null || latitude === undefined || longitude === null || longitude === undefined) {
+      return null;
+    }
+    return { latitude: parseFloat(latitude), longitude: parseFloat(longitude) };
+  }
+
+  getStatus() {
+    return {
+      primary: this.primary,
+      fallback: gazetteerGeocodingProvider.name,
+      providers: [...this.providers.values()].map(provider => ({
+        name: provider.name,
+        configured: provider.isConfigured(),
+      })),
+    };
+  }
+
+  // Primary provider first, then the gazetteer. degraded marks an answer given only because the
+  // primary failed, so it is not cached for long.
+  private async resolve(address: string): Promise<{ result: GeocodeResult | null; degraded: boolean }> {
+    const chain = [...new Set<GeocodingProviderName>([this.primary, gazetteerGeocodingProvider.name])]
+      .map(name => this.providers.get(name)!);
+    let degraded = false;
+
+    for (const provider of chain) {
+      try {
+        const result = await provider.geocode(address);
+        if (result) {
+          return { result, degraded };
+        }
+      } catch (error) {
+        console.error(`Geocoding provider ${provider.name} failed:`, error instanceof Error ? error.message : error);
+        degraded = true;
+      }
+    }
+    return { result: null, degraded };
+  }
+
+  private async readCache(key: string): Promise<GeocodeResult | null | undefined> {
+    const [row] = await db.update(geocodeCache)
+      .set({ hitCount: sql`${geocodeCache.hitCount} + 1` })
+      .where(and(eq(geocodeCache.queryKey, key), gt(geocodeCache.expiresAt, new Date())))
+      .returning();
+    if (!row) {
+      return undefined;
+    }
+    if (row.latitude === null || row.longitude === null) {
+      return null;
+    }
+
+    return {
+      latitude: parseFloat(row.latitude),
+      longitude: parseFloat(row.longitude),
+      formattedAddress: row.formattedAddress || row.query,
+      precision: (row.precision || 'DISTRICT') as GeocodePrecision,
+      state: row.state || undefined,
+      lga: row.lga || undefined,
+      provider: row.provider as GeocodingProviderName,
+    };
+  }
+
+  private async writeCache(key: string, query: string, result: GeocodeResult | null, degraded: boolean) {
+    const ttlDays = result && !degraded ? GEOCODE_CACHE_TTL_DAYS : SHORT_TTL_DAYS;
+    const values = {
+      query,
+      ...this.toColumns(result),
+      formattedAddress: result?.formattedAddress ?? null,
+      precision: result?.precision ?? null,
+      state: result?.state?.slice(0, 100) ?? null,
+      lga: result?.lga?.slice(0, 100) ?? null,
+      provider: result?.provider ?? this.primary,
+      hitCount: 0,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + ttlDays * DAY_MS),
+    };
+
+    await db.insert(geocodeCache)
+      .values({ queryKey: key, ...values })
+      .onConflictDoUpdate({ target: geocodeCache.queryKey, set: values });
+  }
+
+  private remember(key: string, result: GeocodeResult | null) {
+    this.memory.delete(key);
+    this.memory.set(key, { result, expiresAt: Date.now() + SHORT_TTL_DAYS * DAY_MS });
+    if (this.memory.size > MEMORY_CACHE_SIZE) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
+}
+
+export const geocodingService = new GeocodingService();
+export { GeocodingService };
+export { gazetteerGeocodingProvider } from './gazetteer';
+export * from './types';
@@ -0,0 +1,326 @@
+// Offline gazetteer of Nigerian places: every state with its capital, the LGAs and districts of the
+// main delivery cities, and well-known landmarks. Coordinates are approximate centres, good enough
+// to rank drivers and estimate distance when no online geocoder is reachable.
+
+type Place = [name: string, latitude: number, longitude: number, aliases?: string[]];
+
+interface StateEntry {
+  state: string;
+  capital: Place;
+  aliases?: string[];
+}
+
+export const STATES: StateEntry[] = [
+  { state: 'Abia', capital: ['Umuahia', 5.5320, 7.4860] },
+  { state: 'Adamawa', capital: ['Yola', 9.2035, 12.4954] },
+  { state: 'Akwa Ibom', capital: ['Uyo', 5.0377, 7.9128] },
+  { state: 'Anambra', capital: ['Awka', 6.2105, 7.0741] },
+  { state: 'Bauchi', capital: ['Bauchi', 10.3158, 9.8442] },
+  { state: 'Bayelsa', capital: ['Yenagoa', 4.9267, 6.2676] },
+  { state: 'Benue', capital: ['Makurdi', 7.7337, 8.5214] },
+  { state: 'Borno', capital: ['Maiduguri', 11.8311, 13.1510] },
+  { state: 'Cross River', capital: ['Calabar', 4.9757, 8.3417] },
+  { state: 'Delta', capital: ['Asaba', 6.1985, 6.7319] },
+  { state: 'Ebonyi', capital: ['Abakaliki', 6.3249, 8.1137] },
+  { state: 'Edo', capital: ['Benin City', 6.3350, 5.6037, ['Benin']] },
+  { state: 'Ekiti', capital: ['Ado-Ekiti', 7.6211, 5.2214, ['Ado Ekiti']] },
+  { state: 'Enugu', capital: ['Enugu', 6.4584, 7.5464] },
+  { state: 'Gombe', capital: ['Gombe', 10.2897, 11.1673] },
+  { state: 'Imo', capital: ['Owerri', 5.4850, 7.0350] },
+  { state: 'Jigawa', capital: ['Dutse', 11.7564, 9.3389] },
+  { state: 'Kaduna', capital: ['Kaduna', 10.5105, 7.4165] },
+  { state: 'Kano', capital: ['Kano', 12.0022, 8.5920] },
+  { state: 'Katsina', capital: ['Katsina', 12.9908, 7.6018] },
+  { state: 'Kebbi', capital: ['Birnin Kebbi', 12.4539, 4.1975] },
+  { state: 'Kogi', capital: ['Lokoja', 7.7969, 6.7406] },
+  { state: 'Kwara', capital: ['Ilorin', 8.4966, 4.5421] },
+  { state: 'Lagos', capital: ['Ikeja', 6.6018, 3.3515] },
+  { state: 'Nasarawa', capital: ['Lafia', 8.4939, 8.5153], aliases: ['Nassarawa'] },
+  { state: 'Niger', capital: ['Minna', 9.6139, 6.5569] },
+  { state: 'Ogun', capital: ['Abeokuta', 7.1475, 3.3619] },
+  { state: 'Ondo', capital: ['Akure', 7.2571, 5.2058] },
+  { state: 'Osun', capital: ['Osogbo', 7.7827, 4.5418, ['Oshogbo']] },
+  { state: 'Oyo', capital: ['Ibadan', 7.3775, 3.9470] },
+  { state: 'Plateau', capital: ['Jos', 9.8965, 8.8583] },
+  { state: 'Rivers', capital: ['Port Harcourt', 4.8156, 7.0498, ['PH', 'Portharcourt']] },
+  { state: 'Sokoto', capital: ['Sokoto', 13.0059, 5.2476] },
+  { state: 'Taraba', capital: ['Jalingo', 8.8937, 11.3596] },
+  { state: 'Yobe', capital: ['Damaturu', 11.7470, 11.9608] },
+  { state: 'Zamfara', capital: ['Gusau', 12.1628, 6.6614] },
+  { state: 'Federal Capital Territory', capital: ['Abuja', 9.0765, 7.3986], aliases: ['FCT'] },
+];
+
+// A state resolves to its capital unless listed here, e.g. Lagos to the metropolis rather than Ikeja
+export const STATE_CENTRES: Record<string, [number, number]> = {
+  Lagos: [6.5244, 3.3792],
+};
+
+export const LGAS: Record<string, Place[]> = {
+  Lagos: [
+    ['Agege', 6.6180, 3.3209],
+    ['Ajeromi-Ifelodun', 6.4550, 3.3340, ['Ajegunle']],
+    ['Alimosho', 6.6100, 3.2958],
+    ['Amuwo-Odofin', 6.4676, 3.2869],
+    ['Apapa', 6.4489, 3.3590],
+    ['Badagry', 6.4150, 2.8813],
+    ['Epe', 6.5841, 3.9834],
+    ['Eti-Osa', 6.4590, 3.6015],
+    ['Ibeju-Lekki', 6.4733, 3.8867],
+    ['Ifako-Ijaiye', 6.6447, 3.3317],
+    ['Ikorodu', 6.6194, 3.5105],
+    ['Kosofe', 6.5707, 3.3895],
+    ['Lagos Island', 6.4549, 3.3942],
+    ['Lagos Mainland', 6.4969, 3.3841],
+    ['Mushin', 6.5273, 3.3414],
+    ['Ojo', 6.4593, 3.1784],
+    ['Oshodi-Isolo', 6.5355, 3.3087],
+    ['Shomolu', 6.5392, 3.3842, ['Somolu']],
+    ['Surulere', 6.5000, 3.3500],
+  ],
+  'Federal Capital Territory': [
+    ['Abuja Municipal', 9.0579, 7.4951, ['AMAC']],
+    ['Bwari', 9.2833, 7.3833],
+    ['Gwagwalada', 8.9430, 7.0830],
+    ['Kuje', 8.8797, 7.2276],
+    ['Kwali', 8.8793, 7.0014],
+    ['Abaji', 8.4756, 6.9452],
+  ],
+  Rivers: [
+    ['Obio-Akpor', 4.8700, 7.0000, ['Obio Akpor']],
+    ['Eleme', 4.7900, 7.1200],
+    ['Oyigbo', 4.8800, 7.1400],
+    ['Ikwerre', 5.0400, 6.9000],
+    ['Bonny', 4.4500, 7.1700],
+  ],
+  Kano: [
+    ['Kano Municipal', 11.9964, 8.5167],
+    ['Fagge', 12.0020, 8.5200],
+    ['Gwale', 11.9900, 8.4900],
+    ['Tarauni', 11.9700, 8.5500],
+    ['Ungogo', 12.0900, 8.4970],
+    ['Kumbotso', 11.8900, 8.5000],
+  ],
+  Oyo: [
+    ['Ibadan North', 7.4100, 3.9050],
+    ['Ibadan South-West', 7.3700, 3.8700],
+    ['Ogbomosho North', 8.1333, 4.2500, ['Ogbomosho', 'Ogbomoso']],
+    ['Oyo West', 7.8500, 3.9330],
+    ['Akinyele', 7.5300, 3.9300],
+  ],
+  Kaduna: [
+    ['Kaduna North', 10.5500, 7.4400],
+    ['Kaduna South', 10.4800, 7.4200],
+    ['Zaria', 11.0855, 7.7199],
+    ['Kafanchan', 9.5833, 8.3000],
+  ],
+  Enugu: [
+    ['Enugu North', 6.4500, 7.5000],
+    ['Enugu South', 6.4000, 7.4900],
+    ['Nsukka', 6.8567, 7.3958],
+  ],
+  Edo: [
+    ['Oredo', 6.3350, 5.6037],
+    ['Egor', 6.3700, 5.5900],
+    ['Ikpoba-Okha', 6.3000, 5.6500],
+    ['Auchi', 7.0700, 6.2700],
+  ],
+  Anambra: [
+    ['Onitsha', 6.1413, 6.8029],
+    ['Nnewi', 6.0177, 6.9170],
+    ['Awka South', 6.2100, 7.0700],
+  ],
+  Abia: [
+    ['Aba', 5.1066, 7.3667],
+    ['Ohafia', 5.6200, 7.8300],
+  ],
+  Delta: [
+    ['Warri', 5.5167, 5.7500],
+    ['Sapele', 5.8941, 5.6767],
+    ['Ughelli', 5.5000, 5.9900],
+  ],
+  Imo: [
+    ['Owerri Municipal', 5.4836, 7.0333],
+    ['Orlu', 5.7950, 7.0350],
+    ['Okigwe', 5.8300, 7.3500],
+  ],
+  'Akwa Ibom': [
+    ['Ikot Ekpene', 5.1818, 7.7149],
+    ['Eket', 4.6423, 7.9244],
+  ],
+  'Cross River': [
+    ['Calabar Municipal', 4.9589, 8.3269],
+    ['Ikom', 5.9600, 8.7100],
+  ],
+  Plateau: [
+    ['Jos North', 9.9285, 8.8921],
+    ['Jos South', 9.8000, 8.8600, ['Bukuru']],
+  ],
+  Kwara: [
+    ['Ilorin West', 8.4920, 4.5500],
+    ['Offa', 8.1500, 4.7200],
+  ],
+  Ogun: [
+    ['Abeokuta South', 7.1500, 3.3500],
+    ['Sagamu', 6.8322, 3.6319, ['Shagamu']],
+    ['Ado-Odo/Ota', 6.6804, 3.2356, ['Ota', 'Sango Ota']],
+    ['Ijebu Ode', 6.8194, 3.9173],
+    ['Ifo', 6.8150, 3.1950],
+  ],
+  Osun: [
+    ['Ife Central', 7.4824, 4.5603, ['Ile-Ife', 'Ile Ife']],
+    ['Ilesa', 7.6300, 4.7400, ['Ilesha']],
+  ],
+  Ondo: [
+    ['Akure South', 7.2500, 5.2000],
+    ['Owo', 7.1960, 5.5860],
+  ],
+  Kogi: [
+    ['Okene', 7.5500, 6.2350],
+    ['Anyigba', 7.4900, 7.1700],
+  ],
+  Niger: [
+    ['Suleja', 9.1806, 7.1794],
+    ['Bida', 9.0800, 6.0100],
+  ],
+  Benue: [
+    ['Gboko', 7.3200, 9.0000],
+    ['Otukpo', 7.1900, 8.1300],
+  ],
+  Borno: [
+    ['Biu', 10.6100, 12.1900],
+  ],
+  Bauchi: [
+    ['Azare', 11.6760, 10.1910],
+  ],
+};
+
+// Neighbourhoods addresses usually name instead of the LGA
+export const DISTRICTS: Record<string, Place[]> = {
+  Lagos: [
+    ['Victoria Island', 6.4281, 3.4219, ['VI']],
+    ['Ikoyi', 6.4541, 3.4345],
+    ['Lekki', 6.4698, 3.5852, ['Lekki Phase 1']],
+    ['Ajah', 6.4685, 3.5680],
+    ['Sangotedo', 6.4700, 3.6300],
+    ['Oniru', 6.4330, 3.4500],
+    ['Obalende', 6.4490, 3.4070],
+    ['Marina', 6.4500, 3.3900],
+    ['Yaba', 6.5095, 3.3711],
+    ['Ebute Metta', 6.4880, 3.3800],
+    ['Gbagada', 6.5560, 3.3890],
+    ['Magodo', 6.6175, 3.3812],
+    ['Maryland', 6.5710, 3.3670],
+    ['Anthony', 6.5660, 3.3670],
+    ['Ilupeju', 6.5530, 3.3560],
+    ['Ogba', 6.6289, 3.3400],
+    ['Ojodu', 6.6430, 3.3680, ['Berger']],
+    ['Ketu', 6.5960, 3.3900],
+    ['Ogudu', 6.5750, 3.3950],
+    ['Oshodi', 6.5560, 3.3380],
+    ['Isolo', 6.5370, 3.3220],
+    ['Ikotun', 6.5490, 3.2650],
+    ['Egbeda', 6.5920, 3.2920],
+    ['Festac Town', 6.4664, 3.2833, ['Festac']],
+    ['Satellite Town', 6.4500, 3.2550],
+    ['Ikota', 6.4440, 3.5540],
+    ['Allen Avenue', 6.6000, 3.3560, ['Allen']],
+    ['Opebi', 6.5960, 3.3640],
+    ['GRA Ikeja', 6.5800, 3.3500],
+  ],
+  'Federal Capital Territory': [
+    ['Garki', 9.0310, 7.4880],
+    ['Wuse', 9.0667, 7.4667],
+    ['Wuse II', 9.0800, 7.4700, ['Wuse 2']],
+    ['Maitama', 9.0882, 7.4934],
+    ['Asokoro', 9.0437, 7.5280],
+    ['Gwarinpa', 9.1099, 7.4042, ['Gwarimpa']],
+    ['Jabi', 9.0760, 7.4230],
+    ['Utako', 9.0667, 7.4400],
+    ['Wuye', 9.0590, 7.4460],
+    ['Lugbe', 8.9767, 7.3720],
+    ['Kubwa', 9.1550, 7.3222],
+    ['Lokogoma', 8.9830, 7.4520],
+    ['Apo', 9.0010, 7.4830],
+    ['Katampe', 9.1100, 7.4530],
+    ['Life Camp', 9.0830, 7.4050],
+    ['Central Business District', 9.0559, 7.4909, ['CBD']],
+    ['Karu', 9.0000, 7.5600],
+    ['Nyanya', 9.0100, 7.5700],
+  ],
+  Rivers: [
+    ['Rumuokoro', 4.8700, 6.9900],
+    ['Rumuola', 4.8300, 7.0100],
+    ['Trans-Amadi', 4.8100, 7.0400, ['Trans Amadi']],
+    ['D-Line', 4.8050, 7.0050, ['D Line']],
+    ['Old GRA Port Harcourt', 4.7900, 7.0000],
+  ],
+  Oyo: [
+    ['Bodija', 7.4352, 3.9133],
+    ['Dugbe', 7.3880, 3.8850],
+    ['Challenge', 7.3500, 3.8800],
+    ['Ring Road Ibadan', 7.3600, 3.8700],
+  ],
+  Kano: [
+    ['Sabon Gari Kano', 12.0100, 8.5300],
+    ['Nassarawa GRA', 11.9800, 8.5400],
+  ],
+  Enugu: [
+    ['Independence Layout', 6.4500, 7.5200],
+    ['New Haven', 6.4600, 7.5100],
+  ],
+};
+
+export const LANDMARKS: Record<string, Place[]> = {
+  Lagos: [
+    ['Murtala Muhammed International Airport', 6.5774, 3.3212, ['MMIA', 'Lagos Airport']],
+    ['University of Lagos', 6.5158, 3.3896, ['UNILAG']],
+    ['Lagos State University', 6.4696, 3.2004, ['LASU']],
+    ['National Stadium Surulere', 6.4988, 3.3655],
+    ['Tafawa Balewa Square', 6.4474, 3.3989, ['TBS']],
+    ['Balogun Market', 6.4543, 3.3880],
+    ['Computer Village', 6.5954, 3.3417],
+    ['Ikeja City Mall', 6.6142, 3.3580],
+    ['The Palms Lekki', 6.4371, 3.4508, ['The Palms']],
+    ['Lekki Toll Gate', 6.4337, 3.4542],
+    ['Eko Atlantic', 6.4104, 3.4066],
+    ['Tin Can Island Port', 6.4390, 3.3490, ['Tin Can']],
+    ['Mile 12 Market', 6.6070, 3.3990, ['Mile 12']],
+  ],
+  'Federal Capital Territory': [
+    ['Nnamdi Azikiwe International Airport', 9.0068, 7.2632, ['Abuja Airport']],
+    ['Eagle Square', 9.0571, 7.4973],
+    ['National Assembly', 9.0587, 7.5167],
+    ['Aso Rock', 9.0829, 7.5319],
+    ['Jabi Lake Mall', 9.0709, 7.4246],
+    ['Wuse Market', 9.0687, 7.4752],
+    ['University of Abuja', 8.9900, 7.1700, ['UniAbuja']],
+  ],
+  Rivers: [
+    ['Port Harcourt International Airport', 5.0155, 6.9496, ['Port Harcourt Airport']],
+    ['University of Port Harcourt', 4.9000, 6.9200, ['UNIPORT']],
+  ],
+  Kano: [
+    ['Mallam Aminu Kano International Airport', 12.0476, 8.5246, ['Kano Airport']],
+    ['Kurmi Market', 11.9961, 8.5148],
+    ['Bayero University', 11.9800, 8.4800, ['BUK']],
+  ],
+  Oyo: [
+    ['University of Ibadan', 7.4443, 3.8995, ['UI']],
+  ],
+  Osun: [
+    ['Obafemi Awolowo University', 7.5185, 4.5284, ['OAU']],
+  ],
+  Kaduna: [
+    ['Ahmadu Bello University', 11.1516, 7.6540, ['ABU']],
+  ],
+  Enugu: [
+    ['University of Nigeria Nsukka', 6.8670, 7.4083, ['UNN']],
+    ['Akanu Ibiam International Airport', 6.4743, 7.5619, ['Enugu Airport']],
+  ],
+  Anambra: [
+    ['Onitsha Main Market', 6.1560, 6.7760],
+  ],
+  Abia: [
+    ['Ariaria Market', 5.1232, 7.3443],
+  ],
+};
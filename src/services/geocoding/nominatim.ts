@@ -0,0 +1,80 @@
+import axios from 'axios';
+import { NOMINATIM_URL, NOMINATIM_USER_AGENT } from '../../config/environment';
+import { GeocodingProvider, GeocodeResult, GeocodePrecision, GeocodingProviderError } from './types';
+
+const REQUEST_TIMEOUT_MS = 5000;
+// The public server allows one request per second per application
+const MIN_REQUEST_INTERVAL_MS = 1000;
+
+const PRECISION_BY_TYPE: Record<string, GeocodePrecision> = {
+  house: 'ADDRESS',
+  building: 'ADDRESS',
+  road: 'STREET',
+  amenity: 'LANDMARK',
+  shop: 'LANDMARK',
+  tourism: 'LANDMARK',
+  aeroway: 'LANDMARK',
+  neighbourhood: 'DISTRICT',
+  suburb: 'DISTRICT',
+  quarter: 'DISTRICT',
+  city: 'CITY',
+  town: 'CITY',
+  village: 'CITY',
+  county: 'LGA',
+  state: 'STATE',
+};
+
+// OpenStreetMap's Nominatim search, restricted to Nigeria. Requests are spaced out to respect the usage policy.
+class NominatimGeocodingProvider implements GeocodingProvider {
+  readonly name = 'nominatim' as const;
+  private nextRequestAt = 0;
+
+  isConfigured(): boolean {
+    return !!NOMINATIM_URL;
+  }
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    await this.throttle();
+
+    let results: any[];
+    try {
+      const response = await axios.get(`${NOMINATIM_URL}/search`, {
+        params: { q: address, format: 'jsonv2', countrycodes: 'ng', limit: 1, addressdetails: 1 },
+        headers: { 'User-Agent': NOMINATIM_USER_AGENT },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      results = response.data;
+    } catch (error: any) {
+      const status: number | undefined = error?.response?.status;
+      throw new GeocodingProviderError(this.name, error?.message || 'Request failed', !status || status >= 500 || status === 429);
+    }
+
+    const [result] = Array.isArray(results) ? results : [];
+    if (!result) {
+      return null;
+    }
+
+    return {
+      latitude: parseFloat(result.lat),
+      longitude: parseFloat(result.lon),
+      formattedAddress: result.display_name,
+      precision: PRECISION_BY_TYPE[result.addresstype] || PRECISION_BY_TYPE[result.category] || 'DISTRICT',
+      state: result.address?.state,
+      lga: result.address?.county,
+      provider: this.name,
+    };
+  }
+
+  // Reserve the next free request slot and wait for it
+  private async throttle() {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequestAt);
+    this.nextRequestAt = slot + MIN_REQUEST_INTERVAL_MS;
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+}
+
+export const nominatimGeocodingProvider = new NominatimGeocodingProvider();
+export { NominatimGeocodingProvider };
@@ -0,0 +1,51 @@
+export type GeocodingProviderName = 'google' | 'nominatim' | 'gazetteer';
+
+// How finely a result pins the address, best first
+export type GeocodePrecision = 'ADDRESS' | 'STREET' | 'LANDMARK' | 'DISTRICT' | 'CITY' | 'LGA' | 'STATE';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodeResult extends Coordinates {
+  formattedAddress: string;
+  precision: GeocodePrecision;
+  state?: string;
+  lga?: string;
+  provider: GeocodingProviderName;
+}
+
+// Every geocoder answers the same way; null means it found nothing for the address
+export interface GeocodingProvider {
+  readonly name: GeocodingProviderName;
+  isConfigured(): boolean;
+  geocode(address: string): Promise<GeocodeResult | null>;
+}
+
+export class GeocodingProviderError extends Error {
+  constructor(
+    public provider: GeocodingProviderName,
+    message: string,
+    // Network failures, throttling and 5xx responses are worth retrying later
+    public retryable = false,
+  ) {
+    super(message);
+    this.name = 'GeocodingProviderError';
+  }
+}
+
+// Lowercase words only, so "12, Allen Avenue - Ikeja" and "12 allen avenue ikeja" are the same address
+export const normaliseAddress = (address: string): string =>
+  address.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Great-circle distance in kilometres
+export const distanceKm = (from: Coordinates, to: Coordinates): number => {
+  const R = 6371; // Earth's radius in km
+  const dLat = (to.latitude - from.latitude) * Math.PI / 180;
+  const dLon = (to.longitude - from.longitude) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(from.latitude * Math.PI / 180) * Math.cos(to.latitude * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
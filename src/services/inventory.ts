@@ -0,0 +1,300 @@
+import db, { DbTransaction } from '../config/database';
+import { products, inventoryReservations, merchantNotifications } from '../schema';
+import { eq, and, asc, lt, sql, SQL } from 'drizzle-orm';
+import { STOCK_RESERVATION_MINUTES } from '../config/environment';
+import { cacheMiddleware } from '../middleware/cacheMiddleware';
+import { cacheTags } from '../utils/cache';
+
+interface ReservationLine {
+  orderId: string;
+  productId: string;
+  buyerId: number;
+  quantity: number;
+}
+
+// The order columns stock movements need
+interface StockOrder {
+  id: string;
+  productId: string;
+  buyerId: number;
+  quantity: number;
+}
+
+interface StockDelta {
+  quantity?: number;
+  reserved?: number;
+}
+
+class InventoryError extends Error {
+  constructor(
+    public code: 'PRODUCT_UNAVAILABLE' | 'BELOW_MINIMUM' | 'ABOVE_MAXIMUM' | 'INSUFFICIENT_STOCK' | 'STOCK_MISMATCH',
+    message: string,
+    public productId: string,
+  ) {
+    super(message);
+    this.name = 'InventoryError';
+  }
+}
+
+class InventoryService {
+  // Hold stock for freshly created orders. Products are locked in id order so two checkouts
+  // sharing products cannot deadlock; any failure rolls the caller's transaction back.
+  async reserve(lines: ReservationLine[], tx: DbTransaction) {
+    const expiresAt = new Date(Date.now() + STOCK_RESERVATION_MINUTES * 60 * 1000);
+    const sorted = [...lines].sort((a, b) => a.productId.localeCompare(b.productId));
+    const reservations: Array<typeof inventoryReservations.$inferSelect> = [];
+
+    for (const line of sorted) {
+      const [product] = await tx.select({
+        name: products.name,
+        isActive: products.isActive,
+        minimumOrder: products.minimumOrder,
+        maximumOrder: products.maximumOrder,
+      })
+        .from(products)
+        .where(eq(products.id, line.productId));
+
+      if (!product || product.isActive === false) {
+        throw new InventoryError('PRODUCT_UNAVAILABLE', 'Product is no longer available', line.productId);
+      }
+      if (line.quantity < (product.minimumOrder || 1)) {
+        throw new InventoryError('BELOW_MINIMUM', `Minimum order for ${product.name} is ${product.minimumOrder || 1}`, line.productId);
+      }
+      if (product.maximumOrder && line.quantity > product.maximumOrder) {
+        throw new InventoryError('ABOVE_MAXIMUM', `Maximum order for ${product.name} is ${product.maximumOrder}`, line.productId);
+      }
+
+      // The availability check and the hold are one statement, so the last unit goes to one buyer only
+      const held = await this.adjust(tx, line.productId, { reserved: line.quantity },
+        sql`${products.quantity} - ${products.reservedQuantity} >= ${line.quantity}`);
+      if (!held) {
+        throw new InventoryError('INSUFFICIENT_STOCK', `Not enough ${product.name} in stock`, line.productId);
+      }
+
+      const [reservation] = await tx.insert(inventoryReservations).values({
+        productId: line.productId,
+        orderId: line.orderId,
+        buyerId: line.buyerId,
+        quantity: line.quantity,
+        expiresAt,
+      }).returning();
+      reservations.push(reservation);
+    }
+
+    return reservations;
+  }
+
+  // Take a paid order's units off the shelf. A live hold turns into the sale; a hold that already
+  // lapsed (late payment) or an order placed before reservations existed needs the units to be
+  // unsold still, and throws INSUFFICIENT_STOCK when another buyer took them in the meantime.
+  async commit(order: StockOrder, tx: DbTransaction) {
+    const reservation = await this.lockReservation(order.id, tx);
+    if (reservation?.status === 'COMMITTED') {
+      return;
+    }
+
+    const held = reservation?.status === 'ACTIVE' ? reservation.quantity : 0;
+    const taken = await this.adjust(tx, order.productId, { quantity: -order.quantity, reserved: -held },
+      sql`${products.quantity} - ${products.reservedQuantity} + ${held} >= ${order.quantity}`);
+    if (!taken) {
+      throw new InventoryError('INSUFFICIENT_STOCK', 'The items in this order have sold out', order.productId);
+    }
+
+    if (reservation) {
+      await tx.update(inventoryReservations)
+        .set({ status: 'COMMITTED', committedAt: new Date(), updatedAt: new Date() })
+        .where(eq(inventoryReservations.id, reservation.id));
+    } else {
+      await tx.insert(inventoryReservations).values({
+        productId: order.productId,
+        orderId: order.id,
+        buyerId: order.buyerId,
+        quantity: order.quantity,
+        status: 'COMMITTED',
+        expiresAt: new Date(),
+        committedAt: new Date(),
+      });
+    }
+  }
+
+  // Hand an order's stock back: drop an unpaid hold, or restock units that were sold but never
+  // delivered. Orders without a reservation row are restocked only if they had been paid.
+  async release(order: StockOrder, wasPaid: boolean, tx: DbTransaction) {
+    const reservation = await this.lockReservation(order.id, tx);
+
+    if (reservation?.status === 'ACTIVE') {
+      await this.adjust(tx, order.productId, { reserved: -reservation.quantity });
+    } else if (reservation?.status === 'COMMITTED' || (!reservation && wasPaid)) {
+      await this.adjust(tx, order.productId, { quantity: order.quantity });
+    } else {
+      return;
+    }
+
+    if (reservation) {
+      await tx.update(inventoryReservations)
+        .set({ status: 'RELEASED', releasedAt: new Date(), updatedAt: new Date() })
+        .where(eq(inventoryReservations.id, reservation.id));
+    }
+  }
+
+  // Holds whose payment window has passed, oldest first
+  async findExpired(limit = 100) {
+    return db.select({ id: inventoryReservations.id, orderId: inventoryReservations.orderId })
+      .from(inventoryReservations)
+      .where(and(eq(inventoryReservations.status, 'ACTIVE'), lt(inventoryReservations.expiresAt, new Date())))
+      .orderBy(asc(inventoryReservations.expiresAt))
+      .limit(limit);
+  }
+
+  // Release one lapsed hold; returns null when it was committed or released in the meantime
+  async expire(reservationId: string, tx: DbTransaction) {
+    const [reservation] = await tx.select()
+      .from(inventoryReservations)
+      .where(and(
+        eq(inventoryReservations.id, reservationId),
+        eq(inventoryReservations.status, 'ACTIVE'),
+        lt(inventoryReservations.expiresAt, new Date()),
+      ))
+      .for('update', { skipLocked: true });
+    if (!reservation) {
+      return null;
+    }
+
+    await this.adjust(tx, reservation.productId, { reserved: -reservation.quantity });
+    const [expired] = await tx.update(inventoryReservations)
+      .set({ status: 'EXPIRED', releasedAt: new Date(), updatedAt: new Date() })
+      .where(eq(inventoryReservations.id, reservation.id))
+      .returning();
+    return expired;
+  }
+
+  // Merchant restock or stock count correction
+  async setQuantity(productId: string, sellerId: number, quantity: number) {
+    return db.transaction(async (tx) => {
+      const [product] = await tx.update(products)
+        .set({
+          quantity,
+          inStock: sql`${quantity} - ${products.reservedQuantity} > 0`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(products.id, productId), eq(products.sellerId, sellerId)))
+        .returning();
+
+      if (product) {
+        await this.checkLowStock(product, tx);
+      }
+      return product ?? null;
+    });
+  }
+
+  async getStock(productId: string) {
+    const [product] = await db.select({
+      id: products.id,
+      sellerId: products.sellerId,
+      quantity: products.quantity,
+      reservedQuantity: products.reservedQuantity,
+      inStock: products.inStock,
+      minimumOrder: products.minimumOrder,
+      maximumOrder: products.maximumOrder,
+      lowStockThreshold: products.lowStockThreshold,
+      lowStockAlertedAt: products.lowStockAlertedAt,
+    })
+      .from(products)
+      .where(eq(products.id, productId));
+    if (!product) {
+      return null;
+    }
+
+    const activeReservations = await db.select({
+      orderId: inventoryReservations.orderId,
+      quantity: inventoryReservations.quantity,
+      expiresAt: inventoryReservations.expiresAt,
+    })
+      .from(inventoryReservations)
+      .where(and(eq(inventoryReservations.productId, productId), eq(inventoryReservations.status, 'ACTIVE')))
+      .orderBy(asc(inventoryReservations.expiresAt));
+
+    return {
+      ...product,
+      available: Math.max(product.quantity - product.reservedQuantity, 0),
+      activeReservations,
+    };
+  }
+
+  private async lockReservation(orderId: string, tx: DbTransaction) {
+    const [reservation] = await tx.select()
+      .from(inventoryReservations)
+      .where(eq(inventoryReservations.orderId, orderId))
+      .for('update');
+    return reservation ?? null;
+  }
+
+  // Apply a stock movement and keep inStock in step with what can still be sold. A movement that
+  // fails the caller's guard returns null; one that would take either counter below zero means
+  // the counters and the reservations disagree, and throws rather than hiding it.
+  private async adjust(tx: DbTransaction, productId: string, delta: StockDelta, guard?: SQL) {
+    const quantity = sql`${products.quantity} + ${delta.quantity ?? 0}`;
+    const reserved = sql`${products.reservedQuantity} + ${delta.reserved ?? 0}`;
+    const conditions = [eq(products.id, productId), sql`${quantity} >= 0`, sql`${reserved} >= 0`];
+    if (guard) {
+      conditions.push(guard);
+    }
+
+    const [product] = await tx.update(products)
+      .set({
+        quantity,
+        reservedQuantity: reserved,
+        inStock: sql`${quantity} - ${reserved} > 0`,
+        updatedAt: new Date(),
+      })
+      .where(and(...conditions))
+      .returning();
+
+    if (!product && !guard) {
+      throw new InventoryError('STOCK_MISMATCH', `Stock counters for product ${productId} would go below zero`, productId);
+    }
+    if (product) {
+      await this.checkLowStock(product, tx);
+      // Listings show whether a product is in stock, so a change either way refreshes them
+      const availableBefore = product.quantity - product.reservedQuantity - (delta.quantity ?? 0) + (delta.reserved ?? 0);
+      if ((availableBefore > 0) !== product.inStock) {
+        void cacheMiddleware.invalidateTags([cacheTags.product(product.id)]);
+      }
+    }
+    return product ?? null;
+  }
+
+  // Alert the merchant once when sellable stock drops to the threshold; re-arm after a restock
+  private async checkLowStock(product: typeof products.$inferSelect, tx: DbTransaction) {
+    if (product.lowStockThreshold === null) {
+      return;
+    }
+
+    const available = Math.max(product.quantity - product.reservedQuantity, 0);
+    if (available > product.lowStockThreshold) {
+      if (product.lowStockAlertedAt) {
+        await tx.update(products).set({ lowStockAlertedAt: null }).where(eq(products.id, product.id));
+      }
+      return;
+    }
+    if (product.lowStockAlertedAt) {
+      return;
+    }
+
+    await tx.update(products).set({ lowStockAlertedAt: new Date() }).where(eq(products.id, product.id));
+    await tx.insert(merchantNotifications).values({
+      merchantId: product.sellerId,
+      title: available === 0 ? 'Out of Stock' : 'Low Stock',
+      message: available === 0
+        ? `${product.name} is out of stock.`
+        : `${product.name} is down to ${available} ${product.unit || 'units'} (threshold ${product.lowStockThreshold}).`,
+      type: 'LOW_STOCK',
+      relatedId: product.id,
+      priority: available === 0 ? 'HIGH' : 'MEDIUM',
+      actionUrl: `/products/${product.id}`,
+    });
+  }
+}
+
+export const inventoryService = new InventoryService();
+export { InventoryService, InventoryError, ReservationLine };
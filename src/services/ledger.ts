@@ -0,0 +1,594 @@
+import crypto from 'crypto';
+import db, { DbTransaction } from '../config/database';
+import { ledgerAccounts, journalEntries, ledgerPostings, wallets, transactions } from '../schema';
+import { eq, and, inArray, desc, sql } from 'drizzle-orm';
+
+type EntryDirection = 'DEBIT' | 'CREDIT';
+type LedgerAccountType = 'WALLET' | 'ESCROW' | 'PLATFORM_FEE' | 'PAYOUT' | 'GATEWAY' | 'EQUITY';
+
+interface PostingLine {
+  accountCode: string;
+  direction: EntryDirection;
+  amount: number | string;
+}
+
+interface JournalEntryInput {
+  reference: string; // Unique per business event, makes posting idempotent
+  entryType: string;
+  description?: string;
+  lines: PostingLine[];
+  transactionId?: number;
+  orderId?: string;
+  createdBy?: number;
+  metadata?: Record<string, any>;
+}
+
+interface AccountSpec {
+  code: string;
+  accountType: LedgerAccountType;
+  normalBalance: EntryDirection;
+  userId?: number;
+  orderId?: string;
+  allowNegative: boolean;
+}
+
+interface StatementOptions {
+  limit?: number;
+  offset?: number;
+}
+
+// System accounts shared by every journal entry
+export const SystemAccounts = {
+  GATEWAY_CLEARING: 'GATEWAY_CLEARING', // Funds held by the payment gateway on our behalf
+  PLATFORM_FEES: 'PLATFORM_FEES',       // Commission earned by the platform
+  PAYOUTS_PENDING: 'PAYOUTS_PENDING',   // Withdrawals owed to users but not yet transferred
+  OPENING_EQUITY: 'OPENING_EQUITY',     // Contra side of wallet balances carried over from before the ledger
+} as const;
+
+class LedgerError extends Error {
+  constructor(public code: 'UNBALANCED_ENTRY' | 'INVALID_AMOUNT' | 'INSUFFICIENT_FUNDS' | 'NOTHING_TO_SETTLE' | 'DUPLICATE_REFERENCE', message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+// Amounts are handled in kobo (minor units) so postings never accumulate float error
+const toMinor = (amount: number | string): number => {
+  const value = typeof amount === 'string' ? parseFloat(amount) : amount;
+  if (!Number.isFinite(value)) {
+    throw new LedgerError('INVALID_AMOUNT', `Invalid amount: ${amount}`);
+  }
+  return Math.round(value * 100);
+};
+
+const fromMinor = (minor: number): string => (minor / 100).toFixed(2);
+
+class LedgerService {
+  walletAccount(userId: number): string {
+    return `WALLET:${userId}`;
+  }
+
+  escrowAccount(orderId: string): string {
+    return `ESCROW:${orderId}`;
+  }
+
+  // Post a balanced journal entry; joins the caller's transaction when one is passed in
+  async post(input: JournalEntryInput, trx?: DbTransaction) {
+    if (trx) {
+      return this.postInTransaction(input, trx);
+    }
+    return db.transaction(tx => this.postInTransaction(input, tx));
+  }
+
+  // Insert a `transactions` row and its journal entry atomically, linking the two. A reference
+  // that was already posted returns the original pair, so a repeated call never leaves a
+  // transaction row without its postings.
+  async record(
+    transaction: typeof transactions.$inferInsert,
+    entry?: Omit<JournalEntryInput, 'transactionId'>,
+    trx?: DbTransaction
+  ) {
+    const run = async (tx: DbTransaction) => {
+      const existing = entry ? await this.findEntry(entry.reference, tx) : null;
+      if (existing) {
+        const [original] = existing.transactionId
+          ? await tx.select().from(transactions).where(eq(transactions.id, existing.transactionId)).limit(1)
+          : [];
+        if (!original) {
+          throw new LedgerError('DUPLICATE_REFERENCE', `Journal entry ${existing.reference} was posted without a transaction`);
+        }
+        return { transaction: original, entry: existing, duplicate: true };
+      }
+
+      const [created] = await tx.insert(transactions).values(transaction).returning();
+      const journalEntry = entry
+        ? await this.postInTransaction({ ...entry, transactionId: created.id }, tx)
+        : null;
+      return { transaction: created, entry: journalEntry, duplicate: false };
+    };
+
+    return trx ? run(trx) : db.transaction(run);
+  }
+
+  async fundWallet(params: {
+    userId: number;
+    amount: number | string;
+    paymentMethod?: string;
+    transactionRef?: string;
+    description?: string;
+  }) {
+    const { userId, amount, paymentMethod, description = 'Wallet funding' } = params;
+    const transactionRef = params.transactionRef || `DEP_${crypto.randomUUID()}`;
+    const value = fromMinor(this.requirePositive(amount));
+
+    return this.record({
+      userId,
+      type: 'WALLET_FUNDING',
+      amount: value,
+      netAmount: value,
+      paymentMethod,
+      transactionRef,
+      description,
+      status: 'COMPLETED',
+      completedAt: new Date(),
+    }, {
+      reference: `WALLET_FUNDING:${transactionRef}`,
+      entryType: 'WALLET_FUNDING',
+      description,
+      createdBy: userId,
+      lines: [
+        { accountCode: SystemAccounts.GATEWAY_CLEARING, direction: 'DEBIT', amount: value },
+        { accountCode: this.walletAccount(userId), direction: 'CREDIT', amount: value },
+      ],
+    });
+  }
+
+  // Moves funds out of the wallet into the payouts-pending account until the transfer completes
+  async withdrawFromWallet(params: {
+    userId: number;
+    amount: number | string;
+    withdrawalMethod?: string;
+    type?: 'WITHDRAWAL' | 'PAYOUT_REQUEST';
+    metadata?: Record<string, any>;
+  }) {
+    const { userId, amount, withdrawalMethod, type = 'WITHDRAWAL', metadata } = params;
+    const value = fromMinor(this.requirePositive(amount));
+    // Also the gateway's idempotency key for the transfer, so it must never repeat
+    const transactionRef = `${type === 'WITHDRAWAL' ? 'WTH' : 'PAYOUT'}_${crypto.randomUUID()}`;
+    const description = type === 'WITHDRAWAL' ? 'Wallet withdrawal' : `Payout request for ${value}`;
+
+    return this.record({
+      userId,
+      type,
+      amount: value,
+      netAmount: value,
+      paymentMethod: withdrawalMethod,
+      transactionRef,
+      description,
+      status: 'PENDING',
+      metadata,
+    }, {
+      reference: `${type}:${transactionRef}`,
+      entryType: type,
+      description,
+      createdBy: userId,
+      lines: [
+        { accountCode: this.walletAccount(userId), direction: 'DEBIT', amount: value },
+        { accountCode: SystemAccounts.PAYOUTS_PENDING, direction: 'CREDIT', amount: value },
+      ],
+    });
+  }
+
+  // The gateway paid the withdrawal out, so the money leaves the gateway balance
+  async completePayout(transactionId: number, transfer: Record<string, any>) {
+    return this.closePayout(transactionId, 'COMPLETED', transfer);
+  }
+
+  // The transfer did not go through: give the money back to the wallet it came from
+  async reversePayout(transactionId: number, reason: string, transfer: Record<string, any> = {}) {
+    return this.closePayout(transactionId, 'FAILED', { ...transfer, failureReason: reason });
+  }
+
+  // Customer payment lands in a per-order escrow account until the order is settled
+  async captureOrderPayment(params: {
+    orderId: string;
+    buyerId: number;
+    amount: number | string;
+    transactionRef: string;
+    paymentMethod?: string;
+    // Gateway that took the money and its transaction id, kept so refunds can go back through it
+    provider?: string;
+    providerTransactionId?: string;
+  }, trx?: DbTransaction) {
+    const { orderId, buyerId, amount, transactionRef, paymentMethod, provider, providerTransactionId } = params;
+    const value = fromMinor(this.requirePositive(amount));
+    const reference = `PAYMENT:${orderId}:${transactionRef}`;
+
+    // A checkout's orders share the gateway reference, so each order's row gets its own
+    // transactionRef and keeps the shared one in its metadata for reconciliation
+    return this.record({
+      userId: buyerId,
+      type: 'PAYMENT',
+      amount: value,
+      netAmount: value,
+      paymentMethod,
+      transactionRef: `${transactionRef}:${orderId}`,
+      description: `Payment for order ${orderId}`,
+      status: 'COMPLETED',
+      metadata: { orderId, txRef: transactionRef, provider, providerTransactionId },
+      completedAt: new Date(),
+    }, {
+      reference,
+      entryType: 'PAYMENT',
+      description: `Payment for order ${orderId}`,
+      orderId,
+      createdBy: buyerId,
+      lines: [
+        { accountCode: SystemAccounts.GATEWAY_CLEARING, direction: 'DEBIT', amount: value },
+        { accountCode: this.escrowAccount(orderId), direction: 'CREDIT', amount: value },
+      ],
+    }, trx);
+  }
+
+  // Release an order's escrow to the merchant wallet, less platform commission
+  async settleOrder(params: {
+    orderId: string;
+    sellerId: number;
+    commissionRate: number | string;
+    settledBy?: number;
+  }, trx?: DbTransaction) {
+    const { orderId, sellerId, settledBy } = params;
+    const rate = parseFloat(String(params.commissionRate ?? 0)) || 0;
+
+    const run = async (tx: DbTransaction) => {
+      const escrowCode = this.escrowAccount(orderId);
+      const [escrow] = await this.lockAccounts([escrowCode], tx);
+      const held = escrow ? toMinor(escrow.balance) : 0;
+
+      if (held <= 0) {
+        throw new LedgerError('NOTHING_TO_SETTLE', `No escrowed funds to settle for order ${orderId}`);
+      }
+
+      const fee = Math.round(held * rate / 100);
+      const net = held - fee;
+      const lines: PostingLine[] = [
+        { accountCode: escrowCode, direction: 'DEBIT', amount: fromMinor(held) },
+        { accountCode: this.walletAccount(sellerId), direction: 'CREDIT', amount: fromMinor(net) },
+      ];
+      if (fee > 0) {
+        lines.push({ accountCode: SystemAccounts.PLATFORM_FEES, direction: 'CREDIT', amount: fromMinor(fee) });
+      }
+
+      return this.record({
+        userId: sellerId,
+        type: 'SETTLEMENT',
+        amount: fromMinor(held),
+        fee: fromMinor(fee),
+        netAmount: fromMinor(net),
+        transactionRef: `SETTLE_${orderId}`,
+        description: `Settlement for order ${orderId}`,
+        status: 'COMPLETED',
+        processedBy: settledBy,
+        metadata: { orderId, commissionRate: rate },
+        completedAt: new Date(),
+      }, {
+        reference: `SETTLEMENT:${orderId}`,
+        entryType: 'SETTLEMENT',
+        description: `Settlement for order ${orderId}`,
+        orderId,
+        createdBy: settledBy,
+        metadata: { commissionRate: rate },
+        lines,
+      }, tx);
+    };
+
+    return trx ? run(trx) : db.transaction(run);
+  }
+
+  // Refund from escrow first; anything already settled is clawed back from the merchant wallet
+  async refundOrder(params: {
+    orderId: string;
+    buyerId: number;
+    sellerId: number;
+    amount: number | string;
+    reason: string;
+    processedBy?: number;
+    relatedTransactionId?: number;
+  }, trx?: DbTransaction) {
+    const { orderId, buyerId, sellerId, reason, processedBy, relatedTransactionId } = params;
+    const refund = this.requirePositive(params.amount);
+
+    const run = async (tx: DbTransaction) => {
+      const escrowCode = this.escrowAccount(orderId);
+      const [escrow] = await this.lockAccounts([escrowCode], tx);
+      const fromEscrow = Math.min(refund, escrow ? toMinor(escrow.balance) : 0);
+      const fromMerchant = refund - fromEscrow;
+
+      const lines: PostingLine[] = [
+        { accountCode: SystemAccounts.GATEWAY_CLEARING, direction: 'CREDIT', amount: fromMinor(refund) },
+      ];
+      if (fromEscrow > 0) {
+        lines.push({ accountCode: escrowCode, direction: 'DEBIT', amount: fromMinor(fromEscrow) });
+      }
+      if (fromMerchant > 0) {
+        lines.push({ accountCode: this.walletAccount(sellerId), direction: 'DEBIT', amount: fromMinor(fromMerchant) });
+      }
+
+      const refundRef = `REFUND_${crypto.randomUUID()}`;
+      return this.record({
+        userId: buyerId,
+        type: 'REFUND',
+        amount: fromMinor(refund),
+        netAmount: fromMinor(refund),
+        transactionRef: refundRef,
+        description: `Refund for order ${orderId}: ${reason}`,
+        // Completed by the refund job once the gateway has sent the money back
+        status: 'PENDING',
+        relatedTransactionId,
+        processedBy,
+        metadata: { orderId, reason, fromEscrow: fromMinor(fromEscrow), fromMerchant: fromMinor(fromMerchant) },
+      }, {
+        reference: `REFUND:${refundRef}`,
+        entryType: 'REFUND',
+        description: `Refund for order ${orderId}: ${reason}`,
+        orderId,
+        createdBy: processedBy,
+        lines,
+      }, tx);
+    };
+
+    return trx ? run(trx) : db.transaction(run);
+  }
+
+  async getWalletBalance(userId: number): Promise<string> {
+    const account = await db.select({ balance: ledgerAccounts.balance })
+      .from(ledgerAccounts)
+      .where(eq(ledgerAccounts.code, this.walletAccount(userId)))
+      .limit(1);
+
+    return account[0]?.balance ?? '0.00';
+  }
+
+  // Money still held for an order that has not been settled or refunded
+  async getEscrowBalance(orderId: string, trx?: DbTransaction): Promise<string> {
+    const account = await (trx ?? db).select({ balance: ledgerAccounts.balance })
+      .from(ledgerAccounts)
+      .where(eq(ledgerAccounts.code, this.escrowAccount(orderId)))
+      .limit(1);
+
+    return account[0]?.balance ?? '0.00';
+  }
+
+  // The captured payment for an order, whose metadata names the gateway that took it
+  async findOrderPayment(orderId: string, trx?: DbTransaction) {
+    const payment = await (trx ?? db).select()
+      .from(transactions)
+      .where(and(eq(transactions.type, 'PAYMENT'), sql`${transactions.metadata}->>'orderId' = ${orderId}`))
+      .orderBy(desc(transactions.createdAt))
+      .limit(1);
+
+    return payment[0] ?? null;
+  }
+
+  // Running statement of a wallet, newest first, with the balance after each posting
+  async getWalletStatement(userId: number, options: StatementOptions = {}) {
+    const { limit = 20, offset = 0 } = options;
+
+    return db.select({
+      postingId: ledgerPostings.id,
+      direction: ledgerPostings.direction,
+      amount: ledgerPostings.amount,
+      balanceAfter: ledgerPostings.balanceAfter,
+      entryId: journalEntries.id,
+      reference: journalEntries.reference,
+      entryType: journalEntries.entryType,
+      description: journalEntries.description,
+      transactionId: journalEntries.transactionId,
+      orderId: journalEntries.orderId,
+      createdAt: ledgerPostings.createdAt,
+    })
+      .from(ledgerPostings)
+      .innerJoin(ledgerAccounts, eq(ledgerPostings.accountId, ledgerAccounts.id))
+      .innerJoin(journalEntries, eq(ledgerPostings.entryId, journalEntries.id))
+      .where(eq(ledgerAccounts.code, this.walletAccount(userId)))
+      .orderBy(desc(ledgerPostings.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  // Total debits must equal total credits across the whole ledger
+  async getTrialBalance() {
+    const totals = await db.select({
+      accountType: ledgerAccounts.accountType,
+      debits: sql<string>`coalesce(sum(case when ${ledgerPostings.direction} = 'DEBIT' then ${ledgerPostings.amount} else 0 end), 0)`,
+      credits: sql<string>`coalesce(sum(case when ${ledgerPostings.direction} = 'CREDIT' then ${ledgerPostings.amount} else 0 end), 0)`,
+    })
+      .from(ledgerPostings)
+      .innerJoin(ledgerAccounts, eq(ledgerPostings.accountId, ledgerAccounts.id))
+      .groupBy(ledgerAccounts.accountType);
+
+    const totalDebits = totals.reduce((sum, row) => sum + toMinor(row.debits), 0);
+    const totalCredits = totals.reduce((sum, row) => sum + toMinor(row.credits), 0);
+
+    return {
+      byAccountType: totals,
+      totalDebits: fromMinor(totalDebits),
+      totalCredits: fromMinor(totalCredits),
+      isBalanced: totalDebits === totalCredits,
+    };
+  }
+
+  private async postInTransaction(input: JournalEntryInput, tx: DbTransaction) {
+    const existing = await this.findEntry(input.reference, tx);
+    if (existing) {
+      return existing;
+    }
+
+    const lines = input.lines
+      .map(line => ({ ...line, minor: toMinor(line.amount) }))
+      .filter(line => line.minor !== 0);
+
+    if (lines.some(line => line.minor < 0)) {
+      throw new LedgerError('INVALID_AMOUNT', 'Posting amounts must be positive');
+    }
+
+    const debits = lines.filter(l => l.direction === 'DEBIT').reduce((sum, l) => sum + l.minor, 0);
+    const credits = lines.filter(l => l.direction === 'CREDIT').reduce((sum, l) => sum + l.minor, 0);
+    if (lines.length < 2 || debits !== credits) {
+      throw new LedgerError('UNBALANCED_ENTRY', `Journal entry ${input.reference} does not balance (debits ${fromMinor(debits)}, credits ${fromMinor(credits)})`);
+    }
+
+    const codes = [...new Set(lines.map(line => line.accountCode))];
+    await tx.insert(ledgerAccounts)
+      .values(codes.map(code => this.accountSpec(code)))
+      .onConflictDoNothing({ target: ledgerAccounts.code });
+
+    const accounts = await this.lockAccounts(codes, tx);
+    const balances = new Map(accounts.map(account => [account.code, toMinor(account.balance)]));
+    const byCode = new Map(accounts.map(account => [account.code, account]));
+
+    const [entry] = await tx.insert(journalEntries).values({
+      reference: input.reference,
+      entryType: input.entryType,
+      description: input.description,
+      transactionId: input.transactionId,
+      orderId: input.orderId,
+      createdBy: input.createdBy,
+      metadata: input.metadata,
+    }).returning();
+
+    for (const line of lines) {
+      const account = byCode.get(line.accountCode)!;
+      const signed = line.direction === account.normalBalance ? line.minor : -line.minor;
+      const balanceAfter = (balances.get(account.code) ?? 0) + signed;
+
+      if (balanceAfter < 0 && !account.allowNegative) {
+        throw new LedgerError('INSUFFICIENT_FUNDS', `Insufficient balance in ${account.code}`);
+      }
+      balances.set(account.code, balanceAfter);
+
+      await tx.insert(ledgerPostings).values({
+        entryId: entry.id,
+        accountId: account.id,
+        direction: line.direction,
+        amount: fromMinor(line.minor),
+        balanceAfter: fromMinor(balanceAfter),
+      });
+    }
+
+    for (const account of accounts) {
+      const balance = fromMinor(balances.get(account.code) ?? 0);
+      await tx.update(ledgerAccounts)
+        .set({ balance, updatedAt: new Date() })
+        .where(eq(ledgerAccounts.id, account.id));
+
+      // Keep the legacy wallets.balance column in step with the ledger
+      if (account.accountType === 'WALLET' && account.userId) {
+        const updated = await tx.update(wallets)
+          .set({ balance, updatedAt: new Date() })
+          .where(eq(wallets.userId, account.userId))
+          .returning({ id: wallets.id });
+        if (updated.length === 0) {
+          await tx.insert(wallets).values({ userId: account.userId, balance });
+        }
+      }
+    }
+
+    return entry;
+  }
+
+  // Move a withdrawal out of PAYOUTS_PENDING exactly once. Returns null when another run already
+  // completed or reversed it.
+  private async closePayout(transactionId: number, status: 'COMPLETED' | 'FAILED', details: Record<string, any>) {
+    return db.transaction(async (tx) => {
+      const [payout] = await tx.select()
+        .from(transactions)
+        .where(and(
+          eq(transactions.id, transactionId),
+          inArray(transactions.type, ['WITHDRAWAL', 'PAYOUT_REQUEST']),
+          inArray(transactions.status, ['PENDING', 'PROCESSING']),
+        ))
+        .for('update');
+      if (!payout) {
+        return null;
+      }
+
+      const value = fromMinor(this.requirePositive(payout.amount));
+      const completed = status === 'COMPLETED';
+      const [transaction] = await tx.update(transactions)
+        .set({
+          status,
+          metadata: { ...(payout.metadata as Record<string, any> | null), ...details },
+          completedAt: completed ? new Date() : undefined,
+          updatedAt: new Date(),
+        })
+        .where(eq(transactions.id, payout.id))
+        .returning();
+
+      const entry = await this.postInTransaction({
+        reference: `${completed ? 'PAYOUT' : 'PAYOUT_REVERSAL'}:${payout.transactionRef}`,
+        entryType: completed ? 'PAYOUT' : 'PAYOUT_REVERSAL',
+        description: completed ? `Payout ${payout.transactionRef} transferred` : `Payout ${payout.transactionRef} returned to wallet`,
+        transactionId: payout.id,
+        lines: [
+          { accountCode: SystemAccounts.PAYOUTS_PENDING, direction: 'DEBIT', amount: value },
+          {
+            accountCode: completed ? SystemAccounts.GATEWAY_CLEARING : this.walletAccount(payout.userId),
+            direction: 'CREDIT',
+            amount: value,
+          },
+        ],
+      }, tx);
+
+      return { transaction, entry };
+    });
+  }
+
+  // Lock account rows in a stable order so concurrent postings can't deadlock
+  private async lockAccounts(codes: string[], tx: DbTransaction) {
+    return tx.select()
+      .from(ledgerAccounts)
+      .where(inArray(ledgerAccounts.code, codes))
+      .orderBy(ledgerAccounts.code)
+      .for('update');
+  }
+
+  private async findEntry(reference: string, tx: DbTransaction) {
+    const existing = await tx.select()
+      .from(journalEntries)
+      .where(eq(journalEntries.reference, reference))
+      .limit(1);
+    return existing[0] ?? null;
+  }
+
+  private requirePositive(amount: number | string): number {
+    const minor = toMinor(amount);
+    if (minor <= 0) {
+      throw new LedgerError('INVALID_AMOUNT', 'Amount must be greater than 0');
+    }
+    return minor;
+  }
+
+  private accountSpec(code: string): AccountSpec {
+    const [prefix, id] = code.split(':');
+    switch (prefix) {
+      case 'WALLET':
+        return { code, accountType: 'WALLET', normalBalance: 'CREDIT', userId: parseInt(id), allowNegative: false };
+      case 'ESCROW':
+        return { code, accountType: 'ESCROW', normalBalance: 'CREDIT', orderId: id, allowNegative: false };
+      case SystemAccounts.PLATFORM_FEES:
+        return { code, accountType: 'PLATFORM_FEE', normalBalance: 'CREDIT', allowNegative: true };
+      case SystemAccounts.PAYOUTS_PENDING:
+        return { code, accountType: 'PAYOUT', normalBalance: 'CREDIT', allowNegative: true };
+      case SystemAccounts.GATEWAY_CLEARING:
+        return { code, accountType: 'GATEWAY', normalBalance: 'DEBIT', allowNegative: true };
+      case SystemAccounts.OPENING_EQUITY:
+        return { code, accountType: 'EQUITY', normalBalance: 'CREDIT', allowNegative: true };
+      default:
+        throw new Error(`Unknown ledger account: ${code}`);
+    }
+  }
+}
+
+export const ledgerService = new LedgerService();
+export { LedgerService, LedgerError, JournalEntryInput, PostingLine };
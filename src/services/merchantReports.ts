@@ -0,0 +1,414 @@
+import db from '../config/database';
+import { orders, products, cartItems, searchHistory, analyticsEvents } from '../schema';
+import { and, eq, gte, lt, inArray, sql } from 'drizzle-orm';
+
+type MerchantReport = 'customers' | 'cohorts' | 'products' | 'peak-hours';
+
+interface ReportRange {
+  from: Date;
+  to: Date;
+}
+
+type ReportRow = Record<string, string | number | null>;
+
+interface MerchantReportResult {
+  report: MerchantReport;
+  merchantId: number;
+  from: Date;
+  to: Date;
+  summary: ReportRow;
+  // Column order for rows, as in the CSV download
+  columns: string[];
+  rows: ReportRow[];
+}
+
+class MerchantReportError extends Error {
+  constructor(public code: 'UNKNOWN_REPORT' | 'INVALID_RANGE', message: string) {
+    super(message);
+    this.name = 'MerchantReportError';
+  }
+}
+
+const REPORTS: MerchantReport[] = ['customers', 'cohorts', 'products', 'peak-hours'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS: Record<MerchantReport, number> = { customers: 90, cohorts: 365, products: 30, 'peak-hours': 90 };
+const MAX_RANGE_DAYS = 731;
+const DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Paid orders, including ones refunded later; unpaid, failed and cancelled orders are not sales
+const SALE_STATUSES = ['confirmed', 'processing', 'shipped', 'delivered', 'refunded'];
+// Orders a customer actually placed, whatever became of them
+const PLACED_STATUSES = [...SALE_STATUSES, 'cancelled'];
+
+// Reports read Lagos time; West Africa Time is UTC+1 all year
+const LOCAL_CREATED_AT = sql`(${orders.createdAt} + interval '1 hour')`;
+const ORDER_MONTH = sql<string>`to_char(${LOCAL_CREATED_AT}, 'YYYY-MM')`;
+// A basket is the merchant's share of one checkout; orders from before checkouts were grouped stand alone
+const BASKET = sql`coalesce(${orders.fulfilmentId}::text, ${orders.id}::text)`;
+const ORDER_TOTAL = sql`${orders.totalPrice}::numeric`;
+
+// Search terms shorter than this match too many product names to mean anything
+const MIN_SEARCH_LENGTH = 3;
+
+const rate = (part: number, whole: number): number | null =>
+  whole > 0 ? Math.round((part / whole) * 10000) / 10000 : null;
+
+const money = (value: unknown): number => Math.round(Number(value || 0) * 100) / 100;
+
+// 'YYYY-MM' to a month count, so cohort offsets are plain subtraction
+const monthIndex = (month: string): number => {
+  const [year, monthOfYear] = month.split('-').map(Number);
+  return year * 12 + monthOfYear - 1;
+};
+
+const localMonth = (date: Date): string => new Date(date.getTime() + 60 * 60 * 1000).toISOString().slice(0, 7);
+
+// Reports computed on demand from orders, cart items, search history and analytics events
+class MerchantReportService {
+  isReport(report: string): report is MerchantReport {
+    return REPORTS.includes(report as MerchantReport);
+  }
+
+  parseRange(report: MerchantReport, raw: { from?: unknown; to?: unknown }): ReportRange {
+    const to = raw.to ? new Date(raw.to as string) : new Date();
+    const from = raw.from ? new Date(raw.from as string) : new Date(to.getTime() - DEFAULT_RANGE_DAYS[report] * DAY_MS);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      throw new MerchantReportError('INVALID_RANGE', 'from and to must be valid dates with from before to');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new MerchantReportError('INVALID_RANGE', `Reports cover at most ${MAX_RANGE_DAYS} days`);
+    }
+    return { from, to };
+  }
+
+  async build(report: string, merchantId: number, range: ReportRange): Promise<MerchantReportResult> {
+    if (!this.isReport(report)) {
+      throw new MerchantReportError('UNKNOWN_REPORT', `report must be one of ${REPORTS.join(', ')}`);
+    }
+
+    const built = report === 'customers' ? await this.customers(merchantId, range)
+      : report === 'cohorts' ? await this.cohorts(merchantId, range)
+      : report === 'products' ? await this.products(merchantId, range)
+      : await this.peakHours(merchantId, range);
+
+    return { report, merchantId, from: range.from, to: range.to, ...built };
+  }
+
+  // Repeat-customer rate and average basket over the range, with a month-by-month breakdown
+  private async customers(merchantId: number, range: ReportRange) {
+    const [baskets, newCustomers] = await Promise.all([
+      db.select({
+        buyerId: orders.buyerId,
+        month: ORDER_MONTH,
+        value: sql<string>`sum(${ORDER_TOTAL})`,
+        items: sql<number>`sum(${orders.quantity})`.mapWith(Number),
+      })
+        .from(orders)
+        .where(this.salesIn(merchantId, range))
+        .groupBy(orders.buyerId, BASKET, ORDER_MONTH),
+
+      // Customers whose first purchase from the merchant falls in the range
+      db.select({
+        buyerId: orders.buyerId,
+        firstOrderAt: sql<Date>`min(${orders.createdAt})`.mapWith(orders.createdAt),
+      })
+        .from(orders)
+        .where(and(eq(orders.sellerId, merchantId), inArray(orders.status, SALE_STATUSES)))
+        .groupBy(orders.buyerId)
+        .having(and(gte(sql`min(${orders.createdAt})`, range.from), lt(sql`min(${orders.createdAt})`, range.to))),
+    ]);
+
+    const firstMonth = new Map(newCustomers.map(row => [row.buyerId, localMonth(new Date(row.firstOrderAt))]));
+    const basketsPerBuyer = new Map<number, number>();
+    const months = new Map<string, { buyers: Set<number>; newBuyers: Set<number>; baskets: number; revenue: number }>();
+    let revenue = 0;
+    let items = 0;
+
+    for (const basket of baskets) {
+      basketsPerBuyer.set(basket.buyerId, (basketsPerBuyer.get(basket.buyerId) || 0) + 1);
+      revenue += Number(basket.value || 0);
+      items += basket.items || 0;
+
+      if (!months.has(basket.month)) {
+        months.set(basket.month, { buyers: new Set(), newBuyers: new Set(), baskets: 0, revenue: 0 });
+      }
+      const month = months.get(basket.month)!;
+      month.buyers.add(basket.buyerId);
+      if (firstMonth.get(basket.buyerId) === basket.month) month.newBuyers.add(basket.buyerId);
+      month.baskets++;
+      month.revenue += Number(basket.value || 0);
+    }
+
+    const customers = basketsPerBuyer.size;
+    const repeatCustomers = [...basketsPerBuyer.values()].filter(count => count > 1).length;
+    const rows = [...months.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, stats]) => ({
+        month,
+        customers: stats.buyers.size,
+        newCustomers: stats.newBuyers.size,
+        returningCustomers: stats.buyers.size - stats.newBuyers.size,
+        baskets: stats.baskets,
+        revenue: money(stats.revenue),
+        averageBasketValue: stats.baskets > 0 ? money(stats.revenue / stats.baskets) : null,
+      }));
+
+    return {
+      summary: {
+        customers,
+        newCustomers: [...basketsPerBuyer.keys()].filter(buyerId => firstMonth.has(buyerId)).length,
+        repeatCustomers,
+        repeatCustomerRate: rate(repeatCustomers, customers),
+        baskets: baskets.length,
+        revenue: money(revenue),
+        averageBasketValue: baskets.length > 0 ? money(revenue / baskets.length) : null,
+        averageBasketItems: baskets.length > 0 ? Math.round((items / baskets.length) * 100) / 100 : null,
+      },
+      columns: ['month', 'customers', 'newCustomers', 'returningCustomers', 'baskets', 'revenue', 'averageBasketValue'],
+      rows,
+    };
+  }
+
+  // Customers grouped by the month of their first purchase (cohorts starting in the range), and the
+  // share of each cohort buying again in each later month up to now
+  private async cohorts(merchantId: number, range: ReportRange) {
+    const [firsts, activity] = await Promise.all([
+      db.select({ buyerId: orders.buyerId, firstOrderAt: sql<Date>`min(${orders.createdAt})`.mapWith(orders.createdAt) })
+        .from(orders)
+        .where(and(eq(orders.sellerId, merchantId), inArray(orders.status, SALE_STATUSES)))
+        .groupBy(orders.buyerId)
+        .having(and(gte(sql`min(${orders.createdAt})`, range.from), lt(sql`min(${orders.createdAt})`, range.to))),
+
+      db.selectDistinct({ buyerId: orders.buyerId, month: ORDER_MONTH })
+        .from(orders)
+        .where(and(eq(orders.sellerId, merchantId), inArray(orders.status, SALE_STATUSES), gte(orders.createdAt, range.from))),
+    ]);
+
+    const cohortOf = new Map(firsts.map(row => [row.buyerId, localMonth(new Date(row.firstOrderAt))]));
+    const cohorts = new Map<string, { customers: number; active: Map<number, number> }>();
+    for (const month of cohortOf.values()) {
+      if (!cohorts.has(month)) cohorts.set(month, { customers: 0, active: new Map() });
+      cohorts.get(month)!.customers++;
+    }
+    for (const { buyerId, month } of activity) {
+      const cohort = cohortOf.get(buyerId);
+      if (!cohort) continue;
+      const offset = monthIndex(month) - monthIndex(cohort);
+      const active = cohorts.get(cohort)!.active;
+      active.set(offset, (active.get(offset) || 0) + 1);
+    }
+
+    const current = monthIndex(localMonth(new Date()));
+    const sorted = [...cohorts.keys()].sort();
+    const maxOffset = sorted.length > 0 ? current - monthIndex(sorted[0]) : 0;
+    const offsets = Array.from({ length: maxOffset + 1 }, (_, offset) => offset);
+
+    const rows = sorted.map(month => {
+      const cohort = cohorts.get(month)!;
+      const row: ReportRow = { cohort: month, customers: cohort.customers };
+      for (const offset of offsets) {
+        // Months that have not happened yet for this cohort stay empty
+        row[`month${offset}`] = monthIndex(month) + offset > current ? null : rate(cohort.active.get(offset) || 0, cohort.customers);
+      }
+      return row;
+    });
+
+    const returned = sorted.reduce((sum, month) => {
+      const cohort = cohorts.get(month)!;
+      return sum + [...cohort.active.entries()].filter(([offset]) => offset > 0).length;
+    }, 0);
+
+    return {
+      summary: {
+        cohorts: rows.length,
+        customers: cohortOf.size,
+        // Cohort-months with any return purchase, out of those that have elapsed
+        cohortMonthsWithReturns: returned,
+      },
+      columns: ['cohort', 'customers', ...offsets.map(offset => `month${offset}`)],
+      rows,
+    };
+  }
+
+  // Per product: searches matching it, views, carts and orders, with the conversion between each
+  // step and how often its orders were cancelled or refunded
+  private async products(merchantId: number, range: ReportRange) {
+    const [catalog, sales, buyers, views, cartEvents, carts, searches] = await Promise.all([
+      db.select({ id: products.id, name: products.name }).from(products).where(eq(products.sellerId, merchantId)),
+
+      db.select({
+        productId: orders.productId,
+        placed: sql<number>`count(*)`.mapWith(Number),
+        sold: sql<number>`count(*) filter (where ${inArray(orders.status, SALE_STATUSES)})`.mapWith(Number),
+        units: sql<number>`coalesce(sum(${orders.quantity}) filter (where ${inArray(orders.status, SALE_STATUSES)}), 0)`.mapWith(Number),
+        revenue: sql<string>`coalesce(sum(${ORDER_TOTAL}) filter (where ${inArray(orders.status, SALE_STATUSES)} and ${orders.status} <> 'refunded'), 0)`,
+        cancelled: sql<number>`count(*) filter (where ${orders.status} = 'cancelled')`.mapWith(Number),
+        refunded: sql<number>`count(*) filter (where ${orders.status} = 'refunded')`.mapWith(Number),
+      })
+        .from(orders)
+        .where(and(eq(orders.sellerId, merchantId), inArray(orders.status, PLACED_STATUSES), gte(orders.createdAt, range.from), lt(orders.createdAt, range.to)))
+        .groupBy(orders.productId),
+
+      db.selectDistinct({ productId: orders.productId, userId: orders.buyerId })
+        .from(orders)
+        .where(this.salesIn(merchantId, range)),
+
+      db.select({
+        productId: sql<string>`${analyticsEvents.data}->>'productId'`,
+        views: sql<number>`count(*)`.mapWith(Number),
+      })
+        .from(analyticsEvents)
+        .where(and(
+          eq(analyticsEvents.eventType, 'product_viewed'),
+          eq(analyticsEvents.merchantId, merchantId),
+          gte(analyticsEvents.occurredAt, range.from),
+          lt(analyticsEvents.occurredAt, range.to),
+        ))
+        .groupBy(sql`${analyticsEvents.data}->>'productId'`),
+
+      db.selectDistinct({ productId: sql<string>`${analyticsEvents.data}->>'productId'`, userId: analyticsEvents.userId })
+        .from(analyticsEvents)
+        .where(and(
+          eq(analyticsEvents.eventType, 'cart_item_added'),
+          eq(analyticsEvents.merchantId, merchantId),
+          gte(analyticsEvents.occurredAt, range.from),
+          lt(analyticsEvents.occurredAt, range.to),
+        )),
+
+      db.selectDistinct({ productId: cartItems.productId, userId: cartItems.userId })
+        .from(cartItems)
+        .innerJoin(products, eq(cartItems.productId, products.id))
+        .where(and(eq(products.sellerId, merchantId), gte(cartItems.createdAt, range.from), lt(cartItems.createdAt, range.to))),
+
+      db.select({ productId: products.id, searches: sql<number>`count(*)`.mapWith(Number) })
+        .from(products)
+        .innerJoin(searchHistory, and(
+          gte(searchHistory.createdAt, range.from),
+          lt(searchHistory.createdAt, range.to),
+          sql`length(${searchHistory.searchQuery}) >= ${MIN_SEARCH_LENGTH}`,
+          sql`position(lower(${searchHistory.searchQuery}) in lower(${products.name})) > 0`,
+        ))
+        .where(eq(products.sellerId, merchantId))
+        .groupBy(products.id),
+    ]);
+
+    // Everyone who bought went through a cart, so buyers count as carts even when the cart is gone
+    const cartUsers = new Map<string, Set<number>>();
+    for (const { productId, userId } of [...cartEvents, ...carts, ...buyers]) {
+      if (!productId || userId === null) continue;
+      if (!cartUsers.has(productId)) cartUsers.set(productId, new Set());
+      cartUsers.get(productId)!.add(userId);
+    }
+    const buyerCounts = new Map<string, number>();
+    for (const { productId } of buyers) {
+      buyerCounts.set(productId, (buyerCounts.get(productId) || 0) + 1);
+    }
+    const salesBy = new Map(sales.map(row => [row.productId, row]));
+    const viewsBy = new Map(views.map(row => [row.productId, row.views]));
+    const searchesBy = new Map(searches.map(row => [row.productId, row.searches]));
+
+    const rows = catalog.map(product => {
+      const sale = salesBy.get(product.id);
+      const productViews = viewsBy.get(product.id) || 0;
+      const productCarts = cartUsers.get(product.id)?.size || 0;
+      const productBuyers = buyerCounts.get(product.id) || 0;
+      const placed = sale?.placed || 0;
+      return {
+        productId: product.id,
+        name: product.name,
+        searches: searchesBy.get(product.id) || 0,
+        views: productViews,
+        carts: productCarts,
+        buyers: productBuyers,
+        orders: sale?.sold || 0,
+        units: sale?.units || 0,
+        revenue: money(sale?.revenue),
+        viewToCartRate: rate(productCarts, productViews),
+        cartToOrderRate: rate(productBuyers, productCarts),
+        viewToOrderRate: rate(productBuyers, productViews),
+        cancelled: sale?.cancelled || 0,
+        cancelRate: rate(sale?.cancelled || 0, placed),
+        refunded: sale?.refunded || 0,
+        refundRate: rate(sale?.refunded || 0, placed),
+      };
+    }).sort((a, b) => b.revenue - a.revenue || b.views - a.views);
+
+    const total = (key: 'views' | 'carts' | 'buyers' | 'orders' | 'cancelled' | 'refunded') => rows.reduce((sum, row) => sum + row[key], 0);
+    const placed = sales.reduce((sum, row) => sum + row.placed, 0);
+
+    return {
+      summary: {
+        products: rows.length,
+        views: total('views'),
+        carts: total('carts'),
+        buyers: total('buyers'),
+        orders: total('orders'),
+        revenue: money(rows.reduce((sum, row) => sum + row.revenue, 0)),
+        cancelRate: rate(total('cancelled'), placed),
+        refundRate: rate(total('refunded'), placed),
+      },
+      columns: [
+        'productId', 'name', 'searches', 'views', 'carts', 'buyers', 'orders', 'units', 'revenue',
+        'viewToCartRate', 'cartToOrderRate', 'viewToOrderRate', 'cancelled', 'cancelRate', 'refunded', 'refundRate',
+      ],
+      rows,
+    };
+  }
+
+  // Baskets by hour of day in Lagos time, split by day of week
+  private async peakHours(merchantId: number, range: ReportRange) {
+    const cells = await db.select({
+      dayOfWeek: sql<number>`extract(dow from ${LOCAL_CREATED_AT})::int`.mapWith(Number),
+      hour: sql<number>`extract(hour from ${LOCAL_CREATED_AT})::int`.mapWith(Number),
+      baskets: sql<number>`count(distinct ${BASKET})`.mapWith(Number),
+      revenue: sql<string>`sum(${ORDER_TOTAL})`,
+    })
+      .from(orders)
+      .where(this.salesIn(merchantId, range))
+      .groupBy(sql`extract(dow from ${LOCAL_CREATED_AT})`, sql`extract(hour from ${LOCAL_CREATED_AT})`);
+
+    const hours = Array.from({ length: 24 }, (_, hour) => {
+      const row: ReportRow = { hour, baskets: 0, revenue: 0, share: null };
+      DAYS.forEach(day => { row[day] = 0; });
+      return row;
+    });
+    const byDay = DAYS.map(() => 0);
+    let totalBaskets = 0;
+
+    for (const cell of cells) {
+      const row = hours[cell.hour];
+      row.baskets = (row.baskets as number) + cell.baskets;
+      row.revenue = money((row.revenue as number) + Number(cell.revenue || 0));
+      row[DAYS[cell.dayOfWeek]] = (row[DAYS[cell.dayOfWeek]] as number) + cell.baskets;
+      byDay[cell.dayOfWeek] += cell.baskets;
+      totalBaskets += cell.baskets;
+    }
+    hours.forEach(row => { row.share = rate(row.baskets as number, totalBaskets); });
+
+    const peak = [...hours].sort((a, b) => (b.baskets as number) - (a.baskets as number));
+    const busiestDay = byDay.indexOf(Math.max(...byDay));
+
+    return {
+      summary: {
+        baskets: totalBaskets,
+        peakHour: totalBaskets > 0 ? peak[0].hour : null,
+        topHours: totalBaskets > 0 ? peak.slice(0, 3).filter(row => (row.baskets as number) > 0).map(row => row.hour).join(' ') : null,
+        busiestDay: totalBaskets > 0 ? DAYS[busiestDay] : null,
+      },
+      columns: ['hour', 'baskets', 'revenue', 'share', ...DAYS],
+      rows: hours,
+    };
+  }
+
+  private salesIn(merchantId: number, range: ReportRange) {
+    return and(
+      eq(orders.sellerId, merchantId),
+      inArray(orders.status, SALE_STATUSES),
+      gte(orders.createdAt, range.from),
+      lt(orders.createdAt, range.to),
+    );
+  }
+}
+
+export const merchantReportService = new MerchantReportService();
+export { MerchantReportService, MerchantReportError, MerchantReport, MerchantReportResult, ReportRange };
@@ -1,16 +1,16 @@
-
 import EventEmitter from 'events';
+import os from 'os';
+import db, { DbTransaction } from '../config/database';
+import { jobs } from '../schema';
+import { eq, and, asc, desc, inArray, lt, lte, sql } from 'drizzle-orm';
+import { JOB_POLL_INTERVAL_MS, JOB_LOCK_TIMEOUT_MS } from '../config/environment';
 
-interface QueueJob {
-  id: string;
-  type: string;
-  data: any;
-  priority: number;
-  attempts: number;
-  maxAttempts: number;
-  createdAt: Date;
-  scheduledAt?: Date;
-}
+type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'DEAD';
+
+// Handlers receive the stored row; the job's payload is in job.data
+type QueueJob = typeof jobs.$inferSelect;
+
+type JobHandler = (job: QueueJob) => Promise<any>;
 
 interface QueueOptions {
   concurrency?: number;
@@ -18,157 +18,325 @@ interface QueueOptions {
   retryDelay?: number;
 }
 
+interface JobOptions {
+  priority?: number;
+  delay?: number;
+  runAt?: Date;
+  maxAttempts?: number;
+  // Base retry delay, doubled after each failed attempt
+  backoffMs?: number;
+  // At most one pending or running job per key
+  uniqueKey?: string;
+  // Schedule the next run this many ms after each run finishes
+  repeatEvery?: number;
+}
+
+interface JobFilters {
+  status?: string;
+  type?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const LIVE_STATUSES: JobStatus[] = ['PENDING', 'RUNNING'];
+const FINISHED_STATUSES: JobStatus[] = ['COMPLETED', 'DEAD'];
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
 class MessageQueue extends EventEmitter {
-  private jobs: Map<string, QueueJob> = new Map();
-  private processing: Set<string> = new Set();
-  private handlers: Map<string, (job: QueueJob) => Promise<any>> = new Map();
+  private handlers = new Map<string, { handler: JobHandler; concurrency: number; running: number }>();
   private options: Required<QueueOptions>;
-  private isProcessing = false;
+  private workerId = `${os.hostname()}:${process.pid}`;
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private lastRecovery = 0;
 
   constructor(options: QueueOptions = {}) {
     super();
     this.options = {
       concurrency: options.concurrency || 5,
-      defaultMaxAttempts: options.defaultMaxAttempts || 3,
+      defaultMaxAttempts: options.defaultMaxAttempts || 5,
       retryDelay: options.retryDelay || 5000
     };
   }
 
-  async add(type: string, data: any, options: {
-    priority?: number;
-    maxAttempts?: number;
-    delay?: number;
-  } = {}): Promise<string> {
-    const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const scheduledAt = options.delay ? new Date(Date.now() + options.delay) : undefined;
-
-    const job: QueueJob = {
-      id: jobId,
+  // Enqueue a job. Adding a job whose uniqueKey is already pending or running returns the
+  // existing job's id instead of queueing a second copy.
+  async add(type: string, data: any, options: JobOptions = {}): Promise<string> {
+    const [job] = await db.insert(jobs).values({
       type,
-      data,
+      data: data ?? {},
       priority: options.priority || 0,
-      attempts: 0,
       maxAttempts: options.maxAttempts || this.options.defaultMaxAttempts,
-      createdAt: new Date(),
-      scheduledAt
-    };
+      backoffMs: options.backoffMs || this.options.retryDelay,
+      repeatEveryMs: options.repeatEvery,
+      uniqueKey: options.uniqueKey,
+      runAt: options.runAt || new Date(Date.now() + (options.delay || 0)),
+    })
+      .onConflictDoNothing()
+      .returning();
+
+    if (job) {
+      this.emit('job:added', job);
+      this.kick();
+      return job.id;
+    }
 
-    this.jobs.set(jobId, job);
-    this.emit('job:added', job);
+    const [existing] = await db.select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.uniqueKey, options.uniqueKey!), inArray(jobs.status, LIVE_STATUSES)))
+      .limit(1);
 
-    if (!this.isProcessing) {
-      this.startProcessing();
-    }
+    // The live job finished between the insert and the lookup, so the key is free again
+    return existing ? existing.id : this.add(type, data, options);
+  }
 
-    return jobId;
+  // Handle jobs of a type on this instance, running at most `concurrency` of them at once
+  registerHandler(type: string, handler: JobHandler, options: { concurrency?: number } = {}): void {
+    this.handlers.set(type, {
+      handler,
+      concurrency: options.concurrency || this.options.concurrency,
+      running: 0,
+    });
+    this.kick();
   }
 
-  registerHandler(type: string, handler: (job: QueueJob) => Promise<any>): void {
-    this.handlers.set(type, handler);
+  // Start claiming jobs for the registered types
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.poll(), JOB_POLL_INTERVAL_MS);
+    this.kick();
   }
 
-  async remove(jobId: string): Promise<boolean> {
-    if (this.processing.has(jobId)) {
-      return false; // Cannot remove job that's being processed
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
     }
 
-    return this.jobs.delete(jobId);
+    // Wait for all processing jobs to complete
+    while ([...this.handlers.values()].some(entry => entry.running > 0)) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
   }
 
   async getJob(jobId: string): Promise<QueueJob | undefined> {
-    return this.jobs.get(jobId);
-  }
-
-  getStats() {
-    const pending = Array.from(this.jobs.values()).filter(job => 
-      !this.processing.has(job.id) && (!job.scheduledAt || job.scheduledAt <= new Date())
-    ).length;
-    
-    const scheduled = Array.from(this.jobs.values()).filter(job => 
-      job.scheduledAt && job.scheduledAt > new Date()
-    ).length;
-
-    return {
-      pending,
-      processing: this.processing.size,
-      scheduled,
-      total: this.jobs.size
-    };
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId)).limit(1);
+    return job;
   }
 
-  private startProcessing(): void {
-    this.isProcessing = true;
-    this.processJobs();
+  async list(filters: JobFilters = {}) {
+    const { status, type, limit = 20, offset = 0 } = filters;
+    const conditions = [];
+    if (status) conditions.push(eq(jobs.status, status));
+    if (type) conditions.push(eq(jobs.type, type));
+
+    return db.select()
+      .from(jobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.createdAt))
+      .limit(limit)
+      .offset(offset);
   }
 
-  private async processJobs(): Promise<void> {
-    if (this.processing.size >= this.options.concurrency) {
-      return;
-    }
+  // Counts per type and status
+  async getStats() {
+    return db.select({
+      type: jobs.type,
+      status: jobs.status,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(jobs)
+      .groupBy(jobs.type, jobs.status)
+      .orderBy(asc(jobs.type), asc(jobs.status));
+  }
 
-    const availableJobs = Array.from(this.jobs.values())
-      .filter(job => 
-        !this.processing.has(job.id) && 
-        (!job.scheduledAt || job.scheduledAt <= new Date())
-      )
-      .sort((a, b) => b.priority - a.priority || a.createdAt.getTime() - b.createdAt.getTime());
-
-    const job = availableJobs[0];
-    if (!job) {
-      // No jobs to process, stop processing
-      this.isProcessing = false;
-      return;
+  // Put a dead-lettered job back in the queue with a fresh set of attempts. Returns null if the
+  // job is not dead or another job with the same unique key is already queued.
+  async retry(jobId: string): Promise<QueueJob | null> {
+    try {
+      const [job] = await db.update(jobs)
+        .set({ status: 'PENDING', attempts: 0, runAt: new Date(), lastError: null, updatedAt: new Date() })
+        .where(and(eq(jobs.id, jobId), eq(jobs.status, 'DEAD')))
+        .returning();
+      if (job) {
+        this.kick();
+      }
+      return job ?? null;
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return null;
+      }
+      throw error;
     }
+  }
 
-    this.processing.add(job.id);
-    this.processJob(job).finally(() => {
-      this.processing.delete(job.id);
-      // Continue processing more jobs
-      setImmediate(() => this.processJobs());
-    });
+  // Cancel a job that has not started yet
+  async remove(jobId: string): Promise<boolean> {
+    const removed = await db.delete(jobs)
+      .where(and(eq(jobs.id, jobId), eq(jobs.status, 'PENDING')))
+      .returning({ id: jobs.id });
+    return removed.length > 0;
+  }
 
-    // Process more jobs concurrently if possible
-    if (this.processing.size < this.options.concurrency) {
-      setImmediate(() => this.processJobs());
+  // Delete finished jobs, optionally only of one status or type, or finished before a date
+  async purge(filters: { status?: string; type?: string; before?: Date } = {}): Promise<number> {
+    const conditions = [inArray(jobs.status, FINISHED_STATUSES)];
+    if (filters.status) conditions.push(eq(jobs.status, filters.status));
+    if (filters.type) conditions.push(eq(jobs.type, filters.type));
+    if (filters.before) conditions.push(lt(jobs.updatedAt, filters.before));
+
+    const purged = await db.delete(jobs).where(and(...conditions)).returning({ id: jobs.id });
+    return purged.length;
+  }
+
+  private kick(): void {
+    if (this.timer) {
+      setImmediate(() => this.poll());
     }
   }
 
-  private async processJob(job: QueueJob): Promise<void> {
-    const handler = this.handlers.get(job.type);
-    if (!handler) {
-      this.emit('job:error', job, new Error(`No handler registered for job type: ${job.type}`));
-      this.jobs.delete(job.id);
+  private async poll(): Promise<void> {
+    if (this.polling) {
       return;
     }
+    this.polling = true;
 
-    job.attempts++;
+    try {
+      if (Date.now() - this.lastRecovery > JOB_LOCK_TIMEOUT_MS / 2) {
+        this.lastRecovery = Date.now();
+        await this.recoverStale();
+      }
+
+      for (const [type, entry] of this.handlers) {
+        const free = entry.concurrency - entry.running;
+        if (free <= 0) continue;
+
+        for (const job of await this.claim(type, free)) {
+          entry.running++;
+          this.processJob(job, entry.handler).finally(() => {
+            entry.running--;
+            this.kick();
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Job queue poll error:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Claim due jobs in priority order. SKIP LOCKED lets every instance poll the same table
+  // without two of them picking up the same job.
+  private async claim(type: string, limit: number): Promise<QueueJob[]> {
+    const due = db.select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.status, 'PENDING'), eq(jobs.type, type), lte(jobs.runAt, sql`now()`)))
+      .orderBy(desc(jobs.priority), asc(jobs.runAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return db.update(jobs)
+      .set({
+        status: 'RUNNING',
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedAt: new Date(),
+        lockedBy: this.workerId,
+        updatedAt: new Date(),
+      })
+      .where(inArray(jobs.id, due))
+      .returning();
+  }
+
+  private async processJob(job: QueueJob, handler: JobHandler): Promise<void> {
     this.emit('job:started', job);
+    const ownedByUs = and(eq(jobs.id, job.id), eq(jobs.status, 'RUNNING'), eq(jobs.lockedBy, this.workerId));
 
     try {
       const result = await handler(job);
+      await db.transaction(async (tx) => {
+        const [completed] = await tx.update(jobs)
+          .set({
+            status: 'COMPLETED',
+            result: result ?? null,
+            lastError: null,
+            lockedAt: null,
+            lockedBy: null,
+            completedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(ownedByUs)
+          .returning();
+        if (completed) {
+          await this.scheduleNext(completed, tx);
+        }
+      });
       this.emit('job:completed', job, result);
-      this.jobs.delete(job.id);
     } catch (error) {
       this.emit('job:error', job, error);
+      const lastError = error instanceof Error ? error.message : String(error);
 
       if (job.attempts >= job.maxAttempts) {
+        console.error(`Job ${job.type} ${job.id} dead-lettered after ${job.attempts} attempts:`, lastError);
+        await db.transaction(async (tx) => {
+          const [dead] = await tx.update(jobs)
+            .set({ status: 'DEAD', lastError, lockedAt: null, lockedBy: null, updatedAt: new Date() })
+            .where(ownedByUs)
+            .returning();
+          if (dead) {
+            await this.scheduleNext(dead, tx);
+          }
+        });
         this.emit('job:failed', job, error);
-        this.jobs.delete(job.id);
       } else {
-        // Retry after delay
-        job.scheduledAt = new Date(Date.now() + this.options.retryDelay);
+        // Retry after an exponentially growing delay
+        const delay = Math.min(job.backoffMs * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+        await db.update(jobs)
+          .set({
+            status: 'PENDING',
+            lastError,
+            runAt: new Date(Date.now() + delay),
+            lockedAt: null,
+            lockedBy: null,
+            updatedAt: new Date(),
+          })
+          .where(ownedByUs);
         this.emit('job:retry', job);
       }
     }
   }
 
-  async stop(): Promise<void> {
-    this.isProcessing = false;
-    
-    // Wait for all processing jobs to complete
-    while (this.processing.size > 0) {
-      await new Promise(resolve => setTimeout(resolve, 100));
+  // Recurring jobs queue their next run when the current one finishes, even if it failed
+  private async scheduleNext(job: QueueJob, tx: DbTransaction): Promise<void> {
+    if (!job.repeatEveryMs) {
+      return;
     }
+    await tx.insert(jobs).values({
+      type: job.type,
+      data: job.data,
+      priority: job.priority,
+      maxAttempts: job.maxAttempts,
+      backoffMs: job.backoffMs,
+      repeatEveryMs: job.repeatEveryMs,
+      uniqueKey: job.uniqueKey,
+      runAt: new Date(Date.now() + job.repeatEveryMs),
+    }).onConflictDoNothing();
+  }
+
+  // Jobs whose worker died mid-run go back to the queue, or to the dead-letter state if they
+  // have used up their attempts
+  private async recoverStale(): Promise<void> {
+    await db.update(jobs)
+      .set({
+        status: sql`case when ${jobs.attempts} >= ${jobs.maxAttempts} then 'DEAD' else 'PENDING' end`,
+        lastError: 'Worker stopped before the job finished',
+        lockedAt: null,
+        lockedBy: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(jobs.status, 'RUNNING'), lt(jobs.lockedAt, new Date(Date.now() - JOB_LOCK_TIMEOUT_MS))));
   }
 }
 
@@ -180,65 +348,16 @@ export const JobTypes = {
   SEND_EMAIL: 'send_email',
   PROCESS_PAYMENT: 'process_payment',
   SEND_NOTIFICATION: 'send_notification',
-  UPDATE_ANALYTICS: 'update_analytics',
-  SYNC_DATA: 'sync_data'
-} as const;
-
-export { MessageQueue, QueueJob, QueueOptions };
-interface QueueJob {
-  type: string;
-  data: any;
-  delay?: number;
-}
-
-export const JobTypes = {
-  SEND_NOTIFICATION: 'send_notification',
-  PROCESS_PAYMENT: 'process_payment',
   GENERATE_RECEIPT: 'generate_receipt',
-  UPDATE_ANALYTICS: 'update_analytics'
+  SYNC_DATA: 'sync_data',
+  EXPIRE_RESERVATIONS: 'expire_reservations',
+  DISPATCH_SCHEDULED_NOTIFICATIONS: 'dispatch_scheduled_notifications',
+  DELIVER_NOTIFICATION: 'deliver_notification',
+  PURGE_AUDIT_LOGS: 'purge_audit_logs',
+  PURGE_ANALYTICS: 'purge_analytics',
+  EXPIRE_DISPATCH_OFFER: 'expire_dispatch_offer',
+  PROCESS_PAYOUT: 'process_payout',
+  PROCESS_REFUND: 'process_refund'
 } as const;
 
-class MessageQueue {
-  private jobs: QueueJob[] = [];
-  private processing = false;
-
-  async add(jobType: string, data: any, options: { delay?: number } = {}): Promise<void> {
-    const job: QueueJob = {
-      type: jobType,
-      data,
-      delay: options.delay
-    };
-
-    this.jobs.push(job);
-    
-    if (!this.processing) {
-      this.processJobs();
-    }
-  }
-
-  private async processJobs(): Promise<void> {
-    this.processing = true;
-
-    while (this.jobs.length > 0) {
-      const job = this.jobs.shift();
-      if (!job) continue;
-
-      try {
-        await this.processJob(job);
-      } catch (error) {
-        console.error('Failed to process job:', error);
-      }
-    }
-
-    this.processing = false;
-  }
-
-  private async processJob(job: QueueJob): Promise<void> {
-    console.log(`Processing job: ${job.type}`, job.data);
-    
-    // Simulate job processing
-    await new Promise(resolve => setTimeout(resolve, 100));
-  }
-}
-
-export const messageQueue = new MessageQueue();
+export { MessageQueue, QueueJob, QueueOptions, JobOptions, JobStatus };
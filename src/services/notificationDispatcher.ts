@@ -0,0 +1,486 @@
+import crypto from 'crypto';
+import db from '../config/database';
+import {
+  users,
+  consumerNotifications,
+  merchantNotifications,
+  driverNotifications,
+  notificationPreferences,
+  notificationDeliveries,
+} from '../schema';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { APP_URL, FRONTEND_URL } from '../config/environment';
+import { messageQueue, JobTypes, QueueJob } from './messageQueue';
+import { pushNotificationService } from './pushNotifications';
+import { sendNotificationEmail } from '../utils/mailer';
+import { sendSms } from '../utils/sms';
+
+type NotificationChannel = 'IN_APP' | 'PUSH' | 'EMAIL' | 'SMS';
+type NotificationRole = 'CONSUMER' | 'MERCHANT' | 'DRIVER';
+type NotificationPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+type NotificationCategory =
+  | 'order_updates'
+  | 'delivery_updates'
+  | 'payment_updates'
+  | 'promotions'
+  | 'security_alerts'
+  | 'system_alerts';
+type DeliveryStatus = 'PENDING' | 'DEFERRED' | 'SENT' | 'SKIPPED' | 'FAILED';
+
+interface DispatchInput {
+  userId: number;
+  userRole: NotificationRole;
+  title: string;
+  message: string;
+  // Event type, e.g. ORDER_UPDATE; decides the category and default channels
+  type: string;
+  relatedId?: string;
+  priority?: NotificationPriority;
+  actionUrl?: string;
+  expiresAt?: Date;
+  data?: Record<string, any>;
+  // Restrict the dispatch to these channels instead of the category defaults
+  channels?: NotificationChannel[];
+}
+
+interface QuietHours {
+  start: string;
+  end: string;
+}
+
+interface PreferenceSettings {
+  emailNotifications: boolean;
+  pushNotifications: boolean;
+  smsNotifications: boolean;
+  categories: Record<string, boolean>;
+  frequency: string;
+  quietHours: QuietHours | null;
+  timezone: string;
+  language: string;
+}
+
+interface ChannelOutcome {
+  channel: NotificationChannel;
+  status: DeliveryStatus;
+  reason?: string;
+  deliveryId: string;
+  jobId?: string;
+  scheduledFor?: Date;
+}
+
+interface DispatchResult {
+  dispatchId: string;
+  category: NotificationCategory;
+  inApp?: { id: string; [key: string]: any };
+  channels: ChannelOutcome[];
+}
+
+interface ChannelResult {
+  status: 'SENT' | 'SKIPPED' | 'FAILED';
+  reason?: string;
+  error?: string;
+}
+
+type Delivery = typeof notificationDeliveries.$inferSelect;
+
+const EVENT_CATEGORIES: Record<string, NotificationCategory> = {
+  ORDER_UPDATE: 'order_updates',
+  ORDER_STATUS: 'order_updates',
+  ORDER_CANCELLED: 'order_updates',
+  NEW_ORDER: 'order_updates',
+  FUEL_ORDER: 'order_updates',
+  BRILLPRIME_RECEIPT: 'order_updates',
+  DELIVERY: 'delivery_updates',
+  DELIVERY_REQUEST: 'delivery_updates',
+  DELIVERY_UPDATE: 'delivery_updates',
+  DELIVERY_REVIEW: 'delivery_updates',
+  FUEL_DELIVERY: 'delivery_updates',
+  PAYMENT: 'payment_updates',
+  PAYMENT_FAILED: 'payment_updates',
+  PAYMENT_RECEIVED: 'payment_updates',
+  PAYMENT_SUCCESS: 'payment_updates',
+  PAYOUT_CONFIRMATION: 'payment_updates',
+  PAYOUT_REQUEST: 'payment_updates',
+  REFUND: 'payment_updates',
+  SETTLEMENT: 'payment_updates',
+  TOLL_PAYMENT: 'payment_updates',
+  WALLET_FUNDING: 'payment_updates',
+  DISPUTE: 'payment_updates',
+  DISPUTE_CREATED: 'payment_updates',
+  DISPUTE_FILED: 'payment_updates',
+  PROMOTION: 'promotions',
+  SECURITY_ALERT: 'security_alerts',
+  LOGIN_ALERT: 'security_alerts',
+};
+
+const CATEGORY_CHANNELS: Record<NotificationCategory, NotificationChannel[]> = {
+  order_updates: ['IN_APP', 'PUSH'],
+  delivery_updates: ['IN_APP', 'PUSH'],
+  payment_updates: ['IN_APP', 'PUSH', 'EMAIL'],
+  promotions: ['IN_APP', 'PUSH', 'EMAIL'],
+  security_alerts: ['IN_APP', 'PUSH', 'EMAIL', 'SMS'],
+  system_alerts: ['IN_APP', 'PUSH'],
+};
+
+// Categories a user cannot opt out of
+const MANDATORY_CATEGORIES: NotificationCategory[] = ['security_alerts'];
+// Channels that interrupt the user and so wait for quiet hours to end
+const INTERRUPTING_CHANNELS: NotificationChannel[] = ['PUSH', 'SMS'];
+const CHANNELS: NotificationChannel[] = ['IN_APP', 'PUSH', 'EMAIL', 'SMS'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const DEFAULT_PREFERENCES: PreferenceSettings = {
+  emailNotifications: true,
+  pushNotifications: true,
+  smsNotifications: false,
+  categories: {
+    order_updates: true,
+    delivery_updates: true,
+    payment_updates: true,
+    promotions: false,
+    security_alerts: true,
+    system_alerts: true,
+  },
+  frequency: 'immediate',
+  quietHours: null,
+  timezone: 'Africa/Lagos',
+  language: 'en',
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes past midnight on the user's wall clock
+const localMinutes = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hour12: false }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(item => item.type === type)?.value || 0);
+  return (part('hour') % 24) * 60 + part('minute');
+};
+
+class NotificationDispatcher {
+  constructor() {
+    messageQueue.registerHandler(JobTypes.DELIVER_NOTIFICATION, this.processDelivery.bind(this));
+  }
+
+  // Write the in-app notification and fan the event out to the other channels the user's
+  // preferences allow. Every channel, including the ones skipped, gets a delivery row.
+  async dispatch(input: DispatchInput): Promise<DispatchResult> {
+    const priority = input.priority || 'MEDIUM';
+    const category = this.categoryFor(input.type);
+    const preferences = await this.getPreferences(input.userId, input.userRole);
+    const channels = [...new Set<NotificationChannel>(['IN_APP', ...(input.channels || CATEGORY_CHANNELS[category])])];
+    const quietUntil = priority === 'URGENT' ? null : this.quietHoursEnd(preferences);
+
+    const inApp = await this.writeInApp({ ...input, priority });
+
+    const plans = channels.map(channel => {
+      if (channel === 'IN_APP') {
+        return { channel, status: 'SENT' as DeliveryStatus, notificationId: inApp?.id, sentAt: new Date() };
+      }
+      if (!this.channelEnabled(preferences, channel)) {
+        return { channel, status: 'SKIPPED' as DeliveryStatus, reason: 'CHANNEL_DISABLED' };
+      }
+      if (preferences.categories[category] === false && !MANDATORY_CATEGORIES.includes(category)) {
+        return { channel, status: 'SKIPPED' as DeliveryStatus, reason: 'CATEGORY_OPTED_OUT' };
+      }
+      if (quietUntil && INTERRUPTING_CHANNELS.includes(channel)) {
+        return { channel, status: 'DEFERRED' as DeliveryStatus, reason: 'QUIET_HOURS', scheduledFor: quietUntil };
+      }
+      return { channel, status: 'PENDING' as DeliveryStatus };
+    });
+
+    const dispatchId = crypto.randomUUID();
+    const deliveries = await db.insert(notificationDeliveries).values(plans.map(plan => ({
+      dispatchId,
+      userId: input.userId,
+      userRole: input.userRole,
+      eventType: input.type,
+      category,
+      priority,
+      title: input.title,
+      message: input.message,
+      actionUrl: input.actionUrl,
+      data: { ...input.data, relatedId: input.relatedId },
+      ...plan,
+    }))).returning();
+
+    const outcomes: ChannelOutcome[] = [];
+    for (const delivery of deliveries) {
+      const outcome: ChannelOutcome = {
+        channel: delivery.channel as NotificationChannel,
+        status: delivery.status as DeliveryStatus,
+        reason: delivery.reason ?? undefined,
+        deliveryId: delivery.id,
+        scheduledFor: delivery.scheduledFor ?? undefined,
+      };
+      if (delivery.status === 'PENDING' || delivery.status === 'DEFERRED') {
+        outcome.jobId = await this.enqueue(delivery);
+      }
+      outcomes.push(outcome);
+    }
+
+    return { dispatchId, category, inApp, channels: outcomes };
+  }
+
+  categoryFor(type: string): NotificationCategory {
+    return EVENT_CATEGORIES[type] || 'system_alerts';
+  }
+
+  async getPreferences(userId: number, userRole: string): Promise<PreferenceSettings> {
+    const [saved] = await db.select()
+      .from(notificationPreferences)
+      .where(and(eq(notificationPreferences.userId, userId), eq(notificationPreferences.userRole, userRole)));
+    if (!saved) {
+      return { ...DEFAULT_PREFERENCES, categories: { ...DEFAULT_PREFERENCES.categories } };
+    }
+
+    return {
+      emailNotifications: saved.emailNotifications,
+      pushNotifications: saved.pushNotifications,
+      smsNotifications: saved.smsNotifications,
+      categories: { ...DEFAULT_PREFERENCES.categories, ...(saved.categories as Record<string, boolean> || {}) },
+      frequency: saved.frequency || DEFAULT_PREFERENCES.frequency,
+      quietHours: (saved.quietHours as QuietHours | null) || null,
+      timezone: saved.timezone,
+      language: saved.language || DEFAULT_PREFERENCES.language,
+    };
+  }
+
+  // Merge changes into the saved (or default) preferences
+  async savePreferences(userId: number, userRole: string, changes: Partial<PreferenceSettings>): Promise<PreferenceSettings> {
+    const current = await this.getPreferences(userId, userRole);
+    const next: PreferenceSettings = {
+      ...current,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      categories: { ...current.categories, ...(changes.categories || {}) },
+    };
+
+    await db.insert(notificationPreferences).values({
+      userId,
+      userRole,
+      ...next,
+    }).onConflictDoUpdate({
+      target: [notificationPreferences.userId, notificationPreferences.userRole],
+      set: { ...next, updatedAt: new Date() },
+    });
+
+    return next;
+  }
+
+  isCategory(value: string): value is NotificationCategory {
+    return value in CATEGORY_CHANNELS;
+  }
+
+  isChannel(value: string): value is NotificationChannel {
+    return (CHANNELS as string[]).includes(value);
+  }
+
+  isValidQuietHours(value: any): value is QuietHours {
+    return !!value && TIME_PATTERN.test(value.start) && TIME_PATTERN.test(value.end);
+  }
+
+  isValidTimezone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async listDeliveries(filters: { userId?: number; dispatchId?: string; channel?: string; status?: string; limit?: number; offset?: number } = {}) {
+    const { userId, dispatchId, channel, status, limit = 20, offset = 0 } = filters;
+    const conditions = [];
+    if (userId !== undefined) conditions.push(eq(notificationDeliveries.userId, userId));
+    if (dispatchId) conditions.push(eq(notificationDeliveries.dispatchId, dispatchId));
+    if (channel) conditions.push(eq(notificationDeliveries.channel, channel));
+    if (status) conditions.push(eq(notificationDeliveries.status, status));
+
+    return db.select()
+      .from(notificationDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  // When the user's quiet hours end, or null if they are not in quiet hours right now.
+  // A window such as 22:00-07:00 runs past midnight.
+  private quietHoursEnd(preferences: PreferenceSettings, now = new Date()): Date | null {
+    if (!preferences.quietHours) {
+      return null;
+    }
+    const start = toMinutes(preferences.quietHours.start);
+    const end = toMinutes(preferences.quietHours.end);
+    if (start === end) {
+      return null;
+    }
+
+    const current = localMinutes(now, preferences.timezone);
+    const quiet = start < end ? current >= start && current < end : current >= start || current < end;
+    if (!quiet) {
+      return null;
+    }
+
+    const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+    return new Date(now.getTime() + minutesLeft * 60 * 1000 - now.getUTCSeconds() * 1000);
+  }
+
+  private channelEnabled(preferences: PreferenceSettings, channel: NotificationChannel): boolean {
+    if (channel === 'PUSH') return preferences.pushNotifications;
+    if (channel === 'EMAIL') return preferences.emailNotifications;
+    if (channel === 'SMS') return preferences.smsNotifications;
+    return true;
+  }
+
+  private async enqueue(delivery: Delivery): Promise<string | undefined> {
+    try {
+      const jobId = await messageQueue.add(JobTypes.DELIVER_NOTIFICATION, { deliveryId: delivery.id }, {
+        priority: delivery.priority === 'URGENT' || delivery.priority === 'HIGH' ? 10 : 0,
+        runAt: delivery.scheduledFor ?? undefined,
+      });
+      await db.update(notificationDeliveries)
+        .set({ jobId, updatedAt: new Date() })
+        .where(eq(notificationDeliveries.id, delivery.id));
+      return jobId;
+    } catch (error) {
+      console.error('Queue notification delivery error:', error);
+      await db.update(notificationDeliveries)
+        .set({ status: 'FAILED', error: error instanceof Error ? error.message : String(error), updatedAt: new Date() })
+        .where(eq(notificationDeliveries.id, delivery.id));
+      return undefined;
+    }
+  }
+
+  // Send one channel of a dispatch. Errors are retried by the queue; the delivery is marked
+  // FAILED once the job runs out of attempts.
+  private async processDelivery(job: QueueJob) {
+    const { deliveryId } = job.data as { deliveryId: string };
+    const [delivery] = await db.select()
+      .from(notificationDeliveries)
+      .where(and(eq(notificationDeliveries.id, deliveryId), inArray(notificationDeliveries.status, ['PENDING', 'DEFERRED'])));
+    if (!delivery) {
+      return { skipped: true };
+    }
+
+    try {
+      const result = await this.sendChannel(delivery);
+      await db.update(notificationDeliveries)
+        .set({
+          status: result.status,
+          reason: result.reason ?? delivery.reason,
+          error: result.error ?? null,
+          sentAt: result.status === 'SENT' ? new Date() : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(notificationDeliveries.id, delivery.id));
+      return result;
+    } catch (error) {
+      if (job.attempts >= job.maxAttempts) {
+        await db.update(notificationDeliveries)
+          .set({ status: 'FAILED', error: error instanceof Error ? error.message : String(error), updatedAt: new Date() })
+          .where(eq(notificationDeliveries.id, delivery.id));
+      }
+      throw error;
+    }
+  }
+
+  private async sendChannel(delivery: Delivery): Promise<ChannelResult> {
+    const [user] = await db.select({ fullName: users.fullName, email: users.email, phone: users.phone, isActive: users.isActive })
+      .from(users)
+      .where(eq(users.id, delivery.userId));
+    if (!user || user.isActive === false) {
+      return { status: 'SKIPPED', reason: 'USER_INACTIVE' };
+    }
+
+    if (delivery.channel === 'PUSH') {
+      const summary = await pushNotificationService.deliver({ userId: String(delivery.userId) }, {
+        title: delivery.title,
+        body: delivery.message,
+        data: { ...(delivery.data as Record<string, any> || {}), type: delivery.eventType, actionUrl: delivery.actionUrl },
+      }, { priority: delivery.priority === 'URGENT' || delivery.priority === 'HIGH' ? 'high' : 'normal' });
+
+      if (summary.targeted === 0 || summary.targeted === summary.pruned) {
+        return { status: 'SKIPPED', reason: 'NO_DEVICES' };
+      }
+      return summary.sent > 0
+        ? { status: 'SENT' }
+        : { status: 'FAILED', error: `None of ${summary.targeted} devices accepted the message` };
+    }
+
+    if (delivery.channel === 'EMAIL') {
+      const link = delivery.actionUrl?.startsWith('/') ? `${FRONTEND_URL || APP_URL}${delivery.actionUrl}` : delivery.actionUrl;
+      await sendNotificationEmail(user.email, user.fullName, delivery.title, delivery.message, link ?? undefined);
+      return { status: 'SENT' };
+    }
+
+    if (delivery.channel === 'SMS') {
+      if (!user.phone) {
+        return { status: 'SKIPPED', reason: 'NO_PHONE' };
+      }
+      await sendSms(user.phone, `${delivery.title}: ${delivery.message}`);
+      return { status: 'SENT' };
+    }
+
+    return { status: 'SKIPPED', reason: 'UNSUPPORTED_CHANNEL' };
+  }
+
+  // The user's inbox for their role
+  private async writeInApp(input: DispatchInput & { priority: NotificationPriority }) {
+    const { userId, userRole, title, message, type, relatedId, priority, actionUrl, expiresAt } = input;
+
+    let notification;
+
+    switch (userRole) {
+      case 'CONSUMER':
+        notification = await db.insert(consumerNotifications).values({
+          consumerId: userId,
+          title,
+          message,
+          type: type as any,
+          relatedId,
+          priority,
+          actionUrl,
+        }).returning();
+        break;
+      case 'MERCHANT':
+        notification = await db.insert(merchantNotifications).values({
+          merchantId: userId,
+          title,
+          message,
+          type: type as any,
+          relatedId,
+          priority,
+          actionUrl,
+        }).returning();
+        break;
+      case 'DRIVER':
+        notification = await db.insert(driverNotifications).values({
+          driverId: userId,
+          title,
+          message,
+          type: type as any,
+          relatedId,
+          priority,
+          actionUrl,
+          expiresAt,
+        }).returning();
+        break;
+    }
+
+    return notification?.[0];
+  }
+}
+
+export const notificationDispatcher = new NotificationDispatcher();
+export {
+  NotificationDispatcher,
+  DispatchInput,
+  DispatchResult,
+  NotificationChannel,
+  NotificationCategory,
+  NotificationPriority,
+  PreferenceSettings,
+};
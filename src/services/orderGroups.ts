@@ -0,0 +1,555 @@
+import db, { DbTransaction } from '../config/database';
+import {
+  orders,
+  orderGroups,
+  orderFulfilments,
+  cartItems,
+  products,
+  merchantProfiles,
+  deliveryRequests,
+  deliveryQuotes,
+  users,
+} from '../schema';
+import { eq, and, inArray, desc } from 'drizzle-orm';
+import { orderLifecycle, TransitionOptions, TransitionResult, OrderTransitionError, OrderActor } from './orderLifecycle';
+import { inventoryService } from './inventory';
+import { geocodingService } from './geocoding';
+import { serviceZoneService } from './serviceZones';
+import { deliveryTrackingService } from './deliveryTracking';
+import { deliveryPricingService, PricingError } from './deliveryPricing';
+import { messageQueue, JobTypes } from './messageQueue';
+import { OrderStatus } from '../types/orders';
+
+const DEFAULT_COMMISSION_RATE = '5.00';
+
+interface CartLine {
+  cartItemId: number;
+  productId: string;
+  name: string;
+  price: string;
+  quantity: number;
+  sellerId: number;
+  inStock: boolean | null;
+}
+
+interface CheckoutResult {
+  group: typeof orderGroups.$inferSelect;
+  fulfilments: Array<typeof orderFulfilments.$inferSelect & {
+    orders: Array<typeof orders.$inferSelect>;
+  }>;
+}
+
+class CheckoutError extends Error {
+  constructor(public code: 'EMPTY_CART' | 'OUT_OF_STOCK' | 'UNDELIVERABLE', message: string) {
+    super(message);
+    this.name = 'CheckoutError';
+  }
+}
+
+const toAmount = (value: number): string => value.toFixed(2);
+
+// Statuses an order moves forward through, least advanced first
+const PROGRESS: OrderStatus[] = ['pending', 'confirmed', 'processing', 'shipped', 'delivered'];
+
+// A fulfilment is as far along as its least advanced order still in play; once none is, it is
+// refunded if all of them were and cancelled (or failed, for an unpaid slice) otherwise
+const fulfilmentStatusOf = (statuses: OrderStatus[]): OrderStatus | null => {
+  const active = statuses.filter(status => PROGRESS.includes(status));
+  if (active.length > 0) {
+    return PROGRESS.find(status => active.includes(status))!;
+  }
+  if (statuses.length === 0) {
+    return null;
+  }
+  if (statuses.every(status => status === 'refunded')) {
+    return 'refunded';
+  }
+  return statuses.every(status => status === 'failed') ? 'failed' : 'cancelled';
+};
+
+class OrderGroupService {
+  constructor() {
+    messageQueue.registerHandler(JobTypes.EXPIRE_RESERVATIONS, async () => ({ expired: await this.expireUnpaidCheckouts() }), { concurrency: 1 });
+  }
+
+  // Turn the buyer's cart into one order group with a fulfilment per merchant
+  async checkout(buyerId: number, deliveryAddress: string, specialInstructions?: string): Promise<CheckoutResult> {
+    const cart: CartLine[] = (await db.select({
+      cartItemId: cartItems.id,
+      quantity: cartItems.quantity,
+      productId: products.id,
+      name: products.name,
+      price: products.price,
+      sellerId: products.sellerId,
+      inStock: products.inStock,
+    })
+      .from(cartItems)
+      .innerJoin(products, eq(cartItems.productId, products.id))
+      .where(eq(cartItems.userId, buyerId))) as CartLine[];
+
+    if (cart.length === 0) {
+      throw new CheckoutError('EMPTY_CART', 'Cart is empty');
+    }
+
+    const unavailable = cart.find(item => !item.inStock);
+    if (unavailable) {
+      throw new CheckoutError('OUT_OF_STOCK', `Product ${unavailable.name} is out of stock`);
+    }
+
+    const byMerchant = new Map<number, CartLine[]>();
+    for (const item of cart) {
+      byMerchant.set(item.sellerId, [...(byMerchant.get(item.sellerId) || []), item]);
+    }
+
+    const merchantIds = [...byMerchant.keys()];
+    const profiles = await db.select({
+      userId: merchantProfiles.userId,
+      commissionRate: merchantProfiles.commissionRate,
+      businessAddress: merchantProfiles.businessAddress,
+    })
+      .from(merchantProfiles)
+      .where(inArray(merchantProfiles.userId, merchantIds));
+    const merchantUsers = await db.select({ id: users.id, address: users.address, latitude: users.latitude, longitude: users.longitude })
+      .from(users)
+      .where(inArray(users.id, merchantIds));
+
+    // Geocode before the transaction so provider latency does not hold locks. A merchant's stored
+    // location beats geocoding their address.
+    const pickupAddressFor = (merchantId: number) => profiles.find(p => p.userId === merchantId)?.businessAddress
+      || merchantUsers.find(u => u.id === merchantId)?.address
+      || null;
+    const deliveryPoint = await geocodingService.geocode(deliveryAddress);
+    // Throws a ServiceZoneError when we do not deliver to the address, or not right now
+    await serviceZoneService.assertAvailable(deliveryPoint, 'DELIVERY');
+    const pickupPoints = new Map(await Promise.all(merchantIds.map(async (merchantId) => {
+      const merchant = merchantUsers.find(u => u.id === merchantId);
+      const point = geocodingService.fromColumns(merchant?.latitude, merchant?.longitude)
+        || await geocodingService.geocode(pickupAddressFor(merchantId));
+      return [merchantId, point] as const;
+    })));
+    const deliveryColumns = geocodingService.toColumns(deliveryPoint);
+
+    // Each merchant's delivery is priced by the quote engine; the quote is claimed with the checkout
+    // and the delivery itself is only requested once the group is paid
+    const quotes = new Map(await Promise.all(merchantIds.map(async (merchantId) => {
+      try {
+        const quote = await deliveryPricingService.createQuote(buyerId, {
+          pickupAddress: pickupAddressFor(merchantId) || 'Merchant address pending',
+          deliveryAddress,
+          pickupLocation: pickupPoints.get(merchantId) || undefined,
+          deliveryLocation: deliveryPoint || undefined,
+          deliveryType: 'STANDARD',
+        });
+        return [merchantId, quote.quoteId] as const;
+      } catch (error) {
+        if (error instanceof PricingError && error.code === 'UNLOCATED') {
+          throw new CheckoutError('UNDELIVERABLE', 'A merchant in the cart or the delivery address could not be located for delivery');
+        }
+        throw error;
+      }
+    })));
+
+    const subtotal = cart.reduce((sum, item) => sum + Number(item.price) * item.quantity, 0);
+    const paymentTxRef = `group-${buyerId}-${Date.now()}`;
+
+    return db.transaction(async (tx) => {
+      const [group] = await tx.insert(orderGroups).values({
+        groupNumber: `OG-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+        buyerId,
+        paymentTxRef,
+        subtotal: toAmount(subtotal),
+        totalAmount: toAmount(subtotal),
+        merchantCount: merchantIds.length,
+        deliveryAddress,
+      }).returning();
+
+      const fulfilments: CheckoutResult['fulfilments'] = [];
+      const placedOrders: Array<typeof orders.$inferSelect> = [];
+      let commissionTotal = 0;
+
+      for (const [merchantId, items] of byMerchant) {
+        const profile = profiles.find(p => p.userId === merchantId);
+        const commissionRate = profile?.commissionRate || DEFAULT_COMMISSION_RATE;
+        const merchantSubtotal = items.reduce((sum, item) => sum + Number(item.price) * item.quantity, 0);
+        const commissionAmount = Math.round(merchantSubtotal * parseFloat(commissionRate)) / 100;
+        commissionTotal += commissionAmount;
+
+        const quote = await deliveryPricingService.redeem(quotes.get(merchantId)!, buyerId, tx);
+        const trackingNumber = deliveryTrackingService.newTrackingNumber();
+
+        const [fulfilment] = await tx.insert(orderFulfilments).values({
+          orderGroupId: group.id,
+          merchantId,
+          subtotal: toAmount(merchantSubtotal),
+          commissionRate,
+          commissionAmount: toAmount(commissionAmount),
+          merchantPayout: toAmount(merchantSubtotal - commissionAmount),
+          deliveryQuoteId: quote.id,
+          deliveryFee: quote.fee,
+        }).returning();
+
+        const fulfilmentOrders = await tx.insert(orders).values(items.map(item => ({
+          buyerId,
+          sellerId: merchantId,
+          productId: item.productId,
+          quantity: item.quantity,
+          totalPrice: toAmount(Number(item.price) * item.quantity),
+          deliveryAddress,
+          deliveryLatitude: deliveryColumns.latitude,
+          deliveryLongitude: deliveryColumns.longitude,
+          specialInstructions,
+          status: 'pending',
+          paymentTxRef,
+          trackingNumber,
+          orderGroupId: group.id,
+          fulfilmentId: fulfilment.id,
+        }))).returning();
+        await orderLifecycle.recordCreated(fulfilmentOrders.map(order => order.id), { role: 'CONSUMER', userId: buyerId }, tx);
+
+        fulfilments.push({ ...fulfilment, orders: fulfilmentOrders });
+        placedOrders.push(...fulfilmentOrders);
+      }
+
+      // Hold the stock until payment; running out of any item aborts the whole checkout
+      await inventoryService.reserve(placedOrders.map(order => ({
+        orderId: order.id,
+        productId: order.productId,
+        buyerId,
+        quantity: order.quantity,
+      })), tx);
+
+      const [updatedGroup] = await tx.update(orderGroups)
+        .set({ commissionTotal: toAmount(commissionTotal) })
+        .where(eq(orderGroups.id, group.id))
+        .returning();
+
+      await tx.delete(cartItems).where(eq(cartItems.userId, buyerId));
+
+      return { group: updatedGroup, fulfilments };
+    });
+  }
+
+  // Buyers see the whole group; merchants only see their own fulfilment
+  async getGroupForUser(groupId: string, userId: number, role: string) {
+    const group = await db.select().from(orderGroups).where(eq(orderGroups.id, groupId)).limit(1);
+    if (group.length === 0) {
+      return null;
+    }
+
+    const isBuyer = group[0].buyerId === userId;
+    const fulfilmentConditions = [eq(orderFulfilments.orderGroupId, groupId)];
+    if (!isBuyer && role !== 'ADMIN') {
+      fulfilmentConditions.push(eq(orderFulfilments.merchantId, userId));
+    }
+
+    const fulfilments = await db.select()
+      .from(orderFulfilments)
+      .where(and(...fulfilmentConditions));
+
+    if (!isBuyer && role !== 'ADMIN' && fulfilments.length === 0) {
+      return null;
+    }
+
+    const groupOrders = fulfilments.length > 0
+      ? await db.select().from(orders).where(inArray(orders.fulfilmentId, fulfilments.map(f => f.id)))
+      : [];
+
+    const { paymentTxRef, ...groupSummary } = group[0];
+    return {
+      ...(isBuyer || role === 'ADMIN' ? group[0] : groupSummary),
+      fulfilments: fulfilments.map(fulfilment => ({
+        ...fulfilment,
+        orders: groupOrders.filter(order => order.fulfilmentId === fulfilment.id),
+      })),
+    };
+  }
+
+  async getMerchantFulfilments(merchantId: number, options: { status?: string; limit?: number; offset?: number } = {}) {
+    const { status, limit = 10, offset = 0 } = options;
+    const conditions = [eq(orderFulfilments.merchantId, merchantId)];
+    if (status) {
+      conditions.push(eq(orderFulfilments.status, status));
+    }
+
+    return db.select({
+      fulfilment: orderFulfilments,
+      group: {
+        id: orderGroups.id,
+        groupNumber: orderGroups.groupNumber,
+        paymentStatus: orderGroups.paymentStatus,
+        deliveryAddress: orderGroups.deliveryAddress,
+      },
+    })
+      .from(orderFulfilments)
+      .innerJoin(orderGroups, eq(orderFulfilments.orderGroupId, orderGroups.id))
+      .where(and(...conditions))
+      .orderBy(desc(orderFulfilments.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  // Update one merchant's slice and keep its orders and the parent group in step. Every order
+  // goes through the lifecycle, so one disallowed transition rejects the whole update.
+  async updateFulfilmentStatus(fulfilmentId: string, merchantId: number, status: OrderStatus, reason?: string) {
+    const transitions: TransitionResult[] = [];
+    let cancelledDelivery: typeof deliveryRequests.$inferSelect | null = null;
+    const updated = await db.transaction(async (tx) => {
+      const [fulfilment] = await tx.update(orderFulfilments)
+        .set({ status, updatedAt: new Date() })
+        .where(and(eq(orderFulfilments.id, fulfilmentId), eq(orderFulfilments.merchantId, merchantId)))
+        .returning();
+
+      if (!fulfilment) {
+        return null;
+      }
+
+      const fulfilmentOrders = await tx.select({ id: orders.id, status: orders.status })
+        .from(orders)
+        .where(eq(orders.fulfilmentId, fulfilmentId));
+      for (const order of fulfilmentOrders) {
+        if (order.status !== status) {
+          transitions.push(await orderLifecycle.transition(order.id, status, { role: 'MERCHANT', userId: merchantId }, { reason }, tx));
+        }
+      }
+      if (status === 'cancelled' || status === 'refunded') {
+        cancelledDelivery = await this.cancelDelivery(fulfilment.deliveryRequestId, tx);
+      }
+
+      await this.syncGroupStatus(fulfilment.orderGroupId, tx);
+      return fulfilment;
+    });
+
+    await orderLifecycle.dispatchEffects(...transitions);
+    if (cancelledDelivery) {
+      deliveryTrackingService.publishStatus(cancelledDelivery);
+    }
+    return updated;
+  }
+
+  // Move one order through the lifecycle and keep its fulfilment, the parent group and the
+  // fulfilment's delivery in step with it
+  async transitionOrder(
+    orderId: string,
+    to: OrderStatus,
+    actor: OrderActor,
+    options: TransitionOptions = {},
+  ): Promise<TransitionResult> {
+    let cancelledDelivery: typeof deliveryRequests.$inferSelect | null = null;
+    const result = await db.transaction(async (tx) => {
+      const transition = await orderLifecycle.transition(orderId, to, actor, options, tx);
+      if (transition.order.fulfilmentId) {
+        cancelledDelivery = await this.syncFulfilment(transition.order.fulfilmentId, tx);
+      }
+      return transition;
+    });
+
+    await orderLifecycle.dispatchEffects(result);
+    if (cancelledDelivery) {
+      deliveryTrackingService.publishStatus(cancelledDelivery);
+    }
+    return result;
+  }
+
+  // Like transitionOrder, but returns null when the order has already moved past `to`
+  async tryTransitionOrder(...args: Parameters<OrderGroupService['transitionOrder']>): Promise<TransitionResult | null> {
+    try {
+      return await this.transitionOrder(...args);
+    } catch (error) {
+      if (error instanceof OrderTransitionError && error.code === 'INVALID_TRANSITION') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Record a successful payment against the group that owns the payment reference. A payment
+  // that arrives after the group was failed counts too; slices whose stock sold out in between
+  // were refunded, and a group with nothing left to fill is cancelled.
+  async markPaid(paymentTxRef: string, trx?: DbTransaction) {
+    const run = async (tx: DbTransaction) => {
+      const [group] = await tx.select()
+        .from(orderGroups)
+        .where(and(eq(orderGroups.paymentTxRef, paymentTxRef), inArray(orderGroups.paymentStatus, ['PENDING', 'FAILED'])))
+        .for('update');
+      if (!group) {
+        return null;
+      }
+
+      const groupOrders = await tx.select()
+        .from(orders)
+        .where(eq(orders.orderGroupId, group.id));
+      const fulfilments = await tx.select()
+        .from(orderFulfilments)
+        .where(and(eq(orderFulfilments.orderGroupId, group.id), eq(orderFulfilments.status, 'pending')));
+
+      for (const fulfilment of fulfilments) {
+        const fulfilmentOrders = groupOrders.filter(order => order.fulfilmentId === fulfilment.id);
+        const statuses = fulfilmentOrders.map(order => order.status);
+        const status = statuses.includes('confirmed')
+          ? 'confirmed'
+          : statuses.length > 0 && statuses.every(value => value === 'refunded') ? 'refunded' : undefined;
+        if (status) {
+          const delivery = status === 'confirmed'
+            ? await this.requestDelivery(group, fulfilment, fulfilmentOrders.filter(order => order.status === 'confirmed'), tx)
+            : null;
+          await tx.update(orderFulfilments)
+            .set({ status, deliveryRequestId: delivery?.id ?? fulfilment.deliveryRequestId, updatedAt: new Date() })
+            .where(eq(orderFulfilments.id, fulfilment.id));
+        }
+      }
+
+      const paid = groupOrders.some(order => order.status === 'confirmed');
+      const [updated] = await tx.update(orderGroups)
+        .set({
+          status: paid ? 'PAID' : 'CANCELLED',
+          paymentStatus: paid ? 'PAID' : 'REFUNDED',
+          paidAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(orderGroups.id, group.id))
+        .returning();
+      return updated;
+    };
+
+    return trx ? run(trx) : db.transaction(run);
+  }
+
+  // Request the delivery for a paid fulfilment at the fee it was quoted at checkout. The
+  // delivery carries the fulfilment's orders and is linked to the first of them.
+  private async requestDelivery(
+    group: typeof orderGroups.$inferSelect,
+    fulfilment: typeof orderFulfilments.$inferSelect,
+    paidOrders: Array<typeof orders.$inferSelect>,
+    tx: DbTransaction,
+  ) {
+    if (fulfilment.deliveryRequestId || !fulfilment.deliveryQuoteId || paidOrders.length === 0) {
+      return null;
+    }
+    const [quote] = await tx.select().from(deliveryQuotes).where(eq(deliveryQuotes.id, fulfilment.deliveryQuoteId));
+    if (!quote) {
+      return null;
+    }
+
+    const [first] = paidOrders;
+    const [delivery] = await tx.insert(deliveryRequests).values({
+      customerId: group.buyerId,
+      merchantId: fulfilment.merchantId,
+      orderId: first.id,
+      quoteId: quote.id,
+      deliveryType: quote.deliveryType,
+      pickupAddress: quote.pickupAddress,
+      deliveryAddress: quote.deliveryAddress,
+      pickupLatitude: quote.pickupLatitude,
+      pickupLongitude: quote.pickupLongitude,
+      deliveryLatitude: quote.deliveryLatitude,
+      deliveryLongitude: quote.deliveryLongitude,
+      estimatedDistance: quote.distanceKm,
+      estimatedDuration: quote.durationMinutes,
+      deliveryFee: quote.fee,
+      specialInstructions: first.specialInstructions,
+      trackingNumber: first.trackingNumber || deliveryTrackingService.newTrackingNumber(),
+    }).returning();
+    return delivery;
+  }
+
+  // Derive a fulfilment's status from its orders after one of them moved. Returns the delivery
+  // it called off, if the fulfilment is now closed.
+  private async syncFulfilment(fulfilmentId: string, tx: DbTransaction) {
+    const fulfilmentOrders = await tx.select({ status: orders.status })
+      .from(orders)
+      .where(eq(orders.fulfilmentId, fulfilmentId));
+    const status = fulfilmentStatusOf(fulfilmentOrders.map(order => order.status as OrderStatus));
+    if (!status) {
+      return null;
+    }
+
+    const [fulfilment] = await tx.update(orderFulfilments)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(orderFulfilments.id, fulfilmentId))
+      .returning();
+    if (!fulfilment) {
+      return null;
+    }
+
+    await this.syncGroupStatus(fulfilment.orderGroupId, tx);
+    return status === 'cancelled' || status === 'refunded'
+      ? this.cancelDelivery(fulfilment.deliveryRequestId, tx)
+      : null;
+  }
+
+  private async syncGroupStatus(groupId: string, tx: DbTransaction) {
+    const siblings = await tx.select({ status: orderFulfilments.status })
+      .from(orderFulfilments)
+      .where(eq(orderFulfilments.orderGroupId, groupId));
+
+    const closed = (status: string | null) => status === 'cancelled' || status === 'refunded';
+    const groupStatus = siblings.every(s => s.status === 'delivered')
+      ? 'COMPLETED'
+      : siblings.every(s => closed(s.status))
+        ? 'CANCELLED'
+        : siblings.some(s => s.status === 'delivered')
+          ? 'PARTIALLY_FULFILLED'
+          : undefined;
+
+    if (groupStatus) {
+      await tx.update(orderGroups)
+        .set({ status: groupStatus, updatedAt: new Date() })
+        .where(eq(orderGroups.id, groupId));
+    }
+  }
+
+  // Call off a fulfilment's delivery that no driver has picked up yet
+  private async cancelDelivery(deliveryRequestId: string | null, tx: DbTransaction) {
+    if (!deliveryRequestId) {
+      return null;
+    }
+    const [cancelled] = await tx.update(deliveryRequests)
+      .set({ status: 'CANCELLED', updatedAt: new Date() })
+      .where(and(eq(deliveryRequests.id, deliveryRequestId), inArray(deliveryRequests.status, ['PENDING', 'ASSIGNED', 'AT_PICKUP'])))
+      .returning();
+    return cancelled ?? null;
+  }
+
+  // Fail unpaid orders whose stock hold has lapsed so the units go back on sale. A payment
+  // that arrives later still confirms a failed order while the units are unsold, and is
+  // refunded otherwise.
+  async expireUnpaidCheckouts() {
+    const expired = await inventoryService.findExpired();
+    let count = 0;
+
+    for (const { id } of expired) {
+      const result = await db.transaction(async (tx) => {
+        const reservation = await inventoryService.expire(id, tx);
+        if (!reservation) {
+          return null;
+        }
+        return orderLifecycle.tryTransition(reservation.orderId, 'failed', { role: 'SYSTEM' }, {
+          reason: 'Payment not completed before the stock reservation expired',
+          changes: { paymentStatus: 'failed' },
+        }, tx);
+      });
+
+      if (result) {
+        count++;
+        await orderLifecycle.dispatchEffects(result);
+        if (result.order.paymentTxRef) {
+          await this.markPaymentFailed(result.order.paymentTxRef);
+        }
+      }
+    }
+
+    return count;
+  }
+
+  async markPaymentFailed(paymentTxRef: string) {
+    const [group] = await db.update(orderGroups)
+      .set({ paymentStatus: 'FAILED', updatedAt: new Date() })
+      .where(and(eq(orderGroups.paymentTxRef, paymentTxRef), eq(orderGroups.paymentStatus, 'PENDING')))
+      .returning();
+
+    return group ?? null;
+  }
+}
+
+export const orderGroupService = new OrderGroupService();
+export { OrderGroupService, CheckoutError, CheckoutResult };
@@ -0,0 +1,450 @@
+import db, { DbTransaction } from '../config/database';
+import { orders, orderStatusHistory, receipts, users } from '../schema';
+import { eq, asc } from 'drizzle-orm';
+import { OrderStatus } from '../types/orders';
+import { ledgerService } from './ledger';
+import { inventoryService } from './inventory';
+import { refundService } from './refunds';
+import { analyticsService } from './analytics';
+import { createNotification } from '../routes/notifications';
+
+type OrderActorRole = 'CONSUMER' | 'MERCHANT' | 'DRIVER' | 'ADMIN' | 'SYSTEM';
+
+interface OrderActor {
+  role: OrderActorRole;
+  userId?: number;
+}
+
+interface TransitionOptions {
+  reason?: string;
+  metadata?: Record<string, any>;
+  // Extra order columns written in the same update as the status
+  changes?: Partial<typeof orders.$inferInsert>;
+}
+
+interface TransitionContext {
+  order: typeof orders.$inferSelect;
+  from: OrderStatus;
+  to: OrderStatus;
+  actor: OrderActor;
+  reason?: string;
+  metadata: Record<string, any>;
+  // Hooks can leave results here for the caller, e.g. the refund they posted
+  outputs: Record<string, any>;
+}
+
+interface TransitionResult extends TransitionContext {
+  history: typeof orderStatusHistory.$inferSelect;
+}
+
+// Transaction hooks run inside the status change and roll back with it; effect hooks run
+// after commit and only log their failures
+type TransactionHook = (context: TransitionContext, tx: DbTransaction) => Promise<void>;
+type EffectHook = (context: TransitionContext) => Promise<void>;
+
+// Allowed transitions and which roles may make each one. A payment that arrives after the
+// order's stock has sold is captured and handed straight back, so unpaid orders can be refunded.
+const TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, OrderActorRole[]>>> = {
+  pending: {
+    confirmed: ['SYSTEM', 'ADMIN'],
+    failed: ['SYSTEM'],
+    cancelled: ['CONSUMER', 'MERCHANT', 'ADMIN', 'SYSTEM'],
+    refunded: ['SYSTEM'],
+  },
+  failed: {
+    confirmed: ['SYSTEM', 'ADMIN'],
+    cancelled: ['CONSUMER', 'ADMIN', 'SYSTEM'],
+    refunded: ['SYSTEM'],
+  },
+  confirmed: {
+    processing: ['MERCHANT', 'ADMIN'],
+    shipped: ['MERCHANT', 'DRIVER', 'ADMIN'],
+    cancelled: ['CONSUMER', 'MERCHANT', 'ADMIN', 'SYSTEM'],
+    refunded: ['MERCHANT', 'ADMIN', 'SYSTEM'],
+  },
+  processing: {
+    shipped: ['MERCHANT', 'DRIVER', 'ADMIN'],
+    cancelled: ['MERCHANT', 'ADMIN', 'SYSTEM'],
+    refunded: ['MERCHANT', 'ADMIN', 'SYSTEM'],
+  },
+  shipped: {
+    delivered: ['MERCHANT', 'DRIVER', 'ADMIN', 'SYSTEM'],
+    refunded: ['MERCHANT', 'ADMIN', 'SYSTEM'],
+  },
+  delivered: {
+    refunded: ['MERCHANT', 'ADMIN'],
+  },
+  // Cancelling a paid order already returns the money, so a cancelled order is final
+  cancelled: {},
+  refunded: {},
+};
+
+// Statuses in which the buyer has paid and the goods have left stock
+const PAID_STATUSES: OrderStatus[] = ['confirmed', 'processing', 'shipped'];
+
+const STATUS_MESSAGES: Record<OrderStatus, string> = {
+  pending: 'Your order is awaiting payment',
+  confirmed: 'Your order has been confirmed by the merchant',
+  processing: 'Your order is being processed',
+  shipped: 'Your order has been shipped and is on the way',
+  delivered: 'Your order has been delivered successfully',
+  cancelled: 'Your order has been cancelled',
+  failed: 'Payment for your order failed',
+  refunded: 'Your order has been refunded',
+};
+
+class OrderTransitionError extends Error {
+  constructor(
+    public code: 'NOT_FOUND' | 'INVALID_TRANSITION' | 'FORBIDDEN' | 'INVALID_AMOUNT',
+    message: string,
+    public currentStatus?: string,
+  ) {
+    super(message);
+    this.name = 'OrderTransitionError';
+  }
+}
+
+// What the buyer paid for an order less what has already gone back, in naira
+const refundableAmount = (order: typeof orders.$inferSelect) =>
+  (Math.round(parseFloat(order.totalPrice) * 100) - Math.round(parseFloat(order.refundAmount || '0') * 100)) / 100;
+
+// Map an authenticated user onto a lifecycle actor (vendors act as merchants)
+const actorFromUser = (user: { userId: number; role: string }): OrderActor => ({
+  userId: user.userId,
+  role: user.role === 'VENDOR' ? 'MERCHANT' : user.role as OrderActorRole,
+});
+
+class OrderLifecycleService {
+  private transactionHooks: Array<{ statuses: OrderStatus[]; hook: TransactionHook }> = [];
+  private effectHooks: Array<{ statuses: OrderStatus[]; hook: EffectHook }> = [];
+
+  onTransition(statuses: OrderStatus[], hook: TransactionHook) {
+    this.transactionHooks.push({ statuses, hook });
+  }
+
+  afterTransition(statuses: OrderStatus[], hook: EffectHook) {
+    this.effectHooks.push({ statuses, hook });
+  }
+
+  canTransition(from: string, to: OrderStatus, role: OrderActorRole): boolean {
+    return !!TRANSITIONS[from as OrderStatus]?.[to]?.includes(role);
+  }
+
+  nextStatuses(from: string, role: OrderActorRole): OrderStatus[] {
+    const targets = TRANSITIONS[from as OrderStatus] || {};
+    return (Object.keys(targets) as OrderStatus[]).filter(to => targets[to]!.includes(role));
+  }
+
+  // Move an order to a new status, record it and run the hooks. When the caller passes its own
+  // transaction it must call dispatchEffects with the result once that transaction commits.
+  async transition(
+    orderId: string,
+    to: OrderStatus,
+    actor: OrderActor,
+    options: TransitionOptions = {},
+    trx?: DbTransaction,
+  ): Promise<TransitionResult> {
+    const run = async (tx: DbTransaction): Promise<TransitionResult> => {
+      const [current] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update');
+      if (!current) {
+        throw new OrderTransitionError('NOT_FOUND', 'Order not found');
+      }
+
+      const from = current.status as OrderStatus;
+      if (!TRANSITIONS[from]?.[to]) {
+        throw new OrderTransitionError('INVALID_TRANSITION', `Order cannot move from ${from} to ${to}`, from);
+      }
+      if (!this.canTransition(from, to, actor.role)) {
+        throw new OrderTransitionError('FORBIDDEN', `A ${actor.role.toLowerCase()} cannot move an order from ${from} to ${to}`, from);
+      }
+
+      const [order] = await tx.update(orders)
+        .set({ ...options.changes, status: to, updatedAt: new Date() })
+        .where(eq(orders.id, orderId))
+        .returning();
+
+      const [history] = await tx.insert(orderStatusHistory).values({
+        orderId,
+        fromStatus: from,
+        toStatus: to,
+        actorId: actor.userId,
+        actorRole: actor.role,
+        reason: options.reason,
+        metadata: options.metadata,
+      }).returning();
+
+      const context: TransitionContext = {
+        order,
+        from,
+        to,
+        actor,
+        reason: options.reason,
+        metadata: options.metadata || {},
+        outputs: {},
+      };
+      for (const { statuses, hook } of this.transactionHooks) {
+        if (statuses.includes(to)) {
+          await hook(context, tx);
+        }
+      }
+
+      return { ...context, history };
+    };
+
+    if (trx) {
+      return run(trx);
+    }
+
+    const result = await db.transaction(run);
+    await this.dispatchEffects(result);
+    return result;
+  }
+
+  // Like transition, but returns null instead of throwing when the order's current status does
+  // not allow the move. Used by system paths that may see the same event more than once.
+  async tryTransition(
+    orderId: string,
+    to: OrderStatus,
+    actor: OrderActor,
+    options: TransitionOptions = {},
+    trx?: DbTransaction,
+  ): Promise<TransitionResult | null> {
+    try {
+      return await this.transition(orderId, to, actor, options, trx);
+    } catch (error) {
+      if (error instanceof OrderTransitionError && error.code === 'INVALID_TRANSITION') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Give back part or all (the default) of what the buyer paid. Refunds add up to at most the
+  // captured amount; the order moves to refunded once all of it has gone back, while a partial
+  // refund leaves the status alone but is only allowed where the move to refunded would be.
+  async refund(orderId: string, requested: number | undefined, actor: OrderActor, options: { reason: string; metadata?: Record<string, any> }) {
+    const result = await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update');
+      if (!current) {
+        throw new OrderTransitionError('NOT_FOUND', 'Order not found');
+      }
+
+      const from = current.status as OrderStatus;
+      if (!TRANSITIONS[from]?.refunded) {
+        throw new OrderTransitionError('INVALID_TRANSITION', `Order cannot move from ${from} to refunded`, from);
+      }
+      if (!this.canTransition(from, 'refunded', actor.role)) {
+        throw new OrderTransitionError('FORBIDDEN', `A ${actor.role.toLowerCase()} cannot refund an order that is ${from}`, from);
+      }
+
+      const remaining = refundableAmount(current);
+      const amount = requested ?? remaining;
+      if (!(amount > 0) || Math.round(amount * 100) > Math.round(remaining * 100)) {
+        throw new OrderTransitionError('INVALID_AMOUNT', `Refund amount must be positive and at most ${remaining.toFixed(2)}`, from);
+      }
+
+      const transition = Math.round(amount * 100) === Math.round(remaining * 100)
+        ? await this.transition(orderId, 'refunded', actor, { reason: options.reason, metadata: { ...options.metadata, amount } }, tx)
+        : null;
+      const refund = transition ? transition.outputs.refund : await postRefund(current, amount, actor, options.reason, tx);
+
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId));
+      return { order, refund, transition };
+    });
+
+    // A refund that moved the order to refunded is queued by its transition's effects
+    if (!result.transition && result.refund) {
+      await refundService.enqueue(result.refund.transaction.id);
+    }
+    await this.dispatchEffects(result.transition);
+    return result;
+  }
+
+  async dispatchEffects(...results: Array<TransitionResult | null | undefined>) {
+    for (const result of results) {
+      if (!result) continue;
+      for (const { statuses, hook } of this.effectHooks) {
+        if (!statuses.includes(result.to)) continue;
+        try {
+          await hook(result);
+        } catch (error) {
+          console.error(`Order ${result.order.id} ${result.to} hook failed:`, error);
+        }
+      }
+    }
+  }
+
+  // Opening timeline entry for newly placed orders
+  async recordCreated(orderIds: string[], actor: OrderActor, trx?: DbTransaction) {
+    if (orderIds.length === 0) {
+      return;
+    }
+    await (trx ?? db).insert(orderStatusHistory).values(orderIds.map(orderId => ({
+      orderId,
+      fromStatus: null,
+      toStatus: 'pending',
+      actorId: actor.userId,
+      actorRole: actor.role,
+      reason: 'Order placed',
+    })));
+  }
+
+  async getTimeline(orderId: string) {
+    return db.select({
+      id: orderStatusHistory.id,
+      fromStatus: orderStatusHistory.fromStatus,
+      toStatus: orderStatusHistory.toStatus,
+      actorRole: orderStatusHistory.actorRole,
+      reason: orderStatusHistory.reason,
+      metadata: orderStatusHistory.metadata,
+      createdAt: orderStatusHistory.createdAt,
+      actor: {
+        id: users.id,
+        fullName: users.fullName,
+      },
+    })
+      .from(orderStatusHistory)
+      .leftJoin(users, eq(orderStatusHistory.actorId, users.id))
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(asc(orderStatusHistory.createdAt));
+  }
+}
+
+export const orderLifecycle = new OrderLifecycleService();
+
+// Stock held at checkout leaves the shelf when the order is paid; a failed payment drops the
+// hold and a paid order called off before delivery goes back on the shelf
+orderLifecycle.onTransition(['confirmed', 'failed', 'cancelled', 'refunded'], async ({ order, from, to }, tx) => {
+  if (to === 'confirmed') {
+    await inventoryService.commit(order, tx);
+  } else if (from !== 'delivered') {
+    await inventoryService.release(order, PAID_STATUSES.includes(from), tx);
+  }
+});
+
+// Post a refund to the ledger (from escrow first, then the merchant's earnings) and add it to
+// the order's refunded total. The gateway refund is queued once this transaction commits.
+async function postRefund(order: typeof orders.$inferSelect, amount: number, actor: OrderActor, reason: string, tx: DbTransaction) {
+  const refund = await ledgerService.refundOrder({
+    orderId: order.id,
+    buyerId: order.buyerId,
+    sellerId: order.sellerId,
+    amount,
+    reason,
+    processedBy: actor.userId,
+  }, tx);
+
+  const refunded = (Math.round(parseFloat(order.refundAmount || '0') * 100) + Math.round(amount * 100)) / 100;
+  await tx.update(orders)
+    .set({ refundAmount: refunded.toFixed(2), refundStatus: 'PENDING' })
+    .where(eq(orders.id, order.id));
+
+  return { ...refund, amount };
+}
+
+// Money goes back to the buyer: a cancelled paid order returns whatever is still in escrow,
+// a refund returns the requested amount, by default whatever has not been refunded yet
+orderLifecycle.onTransition(['cancelled', 'refunded'], async (context, tx) => {
+  const { order, from, to, actor, reason, metadata, outputs } = context;
+  if (to === 'cancelled' && !PAID_STATUSES.includes(from)) {
+    return;
+  }
+
+  const amount = to === 'refunded'
+    ? Number(metadata.amount ?? refundableAmount(order))
+    : Number(await ledgerService.getEscrowBalance(order.id, tx));
+  if (!(amount > 0)) {
+    return;
+  }
+
+  outputs.refund = await postRefund(order, amount, actor, reason || (to === 'cancelled' ? 'Order cancelled' : 'Order refunded'), tx);
+});
+
+// Send the refund posted above back through the gateway
+orderLifecycle.afterTransition(['cancelled', 'refunded'], async ({ outputs }) => {
+  if (outputs.refund) {
+    await refundService.enqueue(outputs.refund.transaction.id);
+  }
+});
+
+// Let the other side of the order know; system transitions (payments) send their own notices
+orderLifecycle.afterTransition(['confirmed', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded'], async ({ order, to, actor, reason }) => {
+  if (actor.role === 'SYSTEM') {
+    return;
+  }
+
+  if (actor.role !== 'CONSUMER') {
+    await createNotification({
+      userId: order.buyerId,
+      userRole: 'CONSUMER',
+      title: `Order ${to.charAt(0).toUpperCase() + to.slice(1)}`,
+      message: `${STATUS_MESSAGES[to]}${reason ? `. Reason: ${reason}` : ''}`,
+      type: to === 'cancelled' ? 'ORDER_CANCELLED' : 'ORDER_STATUS',
+      relatedId: order.id,
+      priority: to === 'delivered' || to === 'cancelled' || to === 'refunded' ? 'HIGH' : 'MEDIUM',
+      actionUrl: `/orders/${order.id}`,
+    });
+  }
+
+  if (actor.role !== 'MERCHANT') {
+    await createNotification({
+      userId: order.sellerId,
+      userRole: 'MERCHANT',
+      title: `Order ${to.charAt(0).toUpperCase() + to.slice(1)}`,
+      message: actor.role === 'CONSUMER'
+        ? `Order ${order.id} has been ${to} by the customer.${reason ? ` Reason: ${reason}` : ''}`
+        : `Order ${order.id} is now ${to}.`,
+      type: to === 'cancelled' ? 'ORDER_CANCELLED' : 'ORDER_STATUS',
+      relatedId: order.id,
+      priority: to === 'cancelled' ? 'HIGH' : 'MEDIUM',
+    });
+  }
+});
+
+// Order activity for the analytics store, per merchant, valued at the order total
+orderLifecycle.afterTransition(['confirmed', 'processing', 'shipped', 'delivered', 'cancelled', 'failed', 'refunded'], async ({ order, from, to, actor }) => {
+  await analyticsService.trackEvent(`order_${to}`, { orderId: order.id, from, actorRole: actor.role }, {
+    userId: order.buyerId,
+    merchantId: order.sellerId,
+    value: order.totalPrice,
+  });
+});
+
+// Issue the receipt once an order is paid
+orderLifecycle.afterTransition(['confirmed'], async ({ order, metadata }) => {
+  const existing = await db.select({ id: receipts.id }).from(receipts).where(eq(receipts.orderId, order.id)).limit(1);
+  if (existing.length > 0) {
+    return;
+  }
+
+  const receiptNumber = `BP-REC-${Date.now()}-${Math.random().toString(36).substr(2, 8).toUpperCase()}`;
+  await db.insert(receipts).values({
+    receiptNumber,
+    orderId: order.id,
+    customerId: order.buyerId,
+    merchantId: order.sellerId,
+    totalAmount: order.totalPrice,
+    paymentMethod: metadata.paymentMethod || 'card',
+    paymentStatus: 'COMPLETED',
+    transactionRef: order.paymentTxRef,
+    qrCodeData: JSON.stringify({
+      receiptNumber,
+      orderId: order.id,
+      customerId: order.buyerId,
+      merchantId: order.sellerId,
+      totalAmount: order.totalPrice,
+      timestamp: new Date().toISOString(),
+      type: 'BRILLPRIME_RECEIPT',
+    }),
+  });
+});
+
+export {
+  OrderLifecycleService,
+  OrderTransitionError,
+  OrderActor,
+  OrderActorRole,
+  TransitionOptions,
+  TransitionResult,
+  actorFromUser,
+};
@@ -0,0 +1,432 @@
+import db, { DbTransaction } from '../config/database';
+import { orders, paymentEvents, paymentIntents } from '../schema';
+import { eq, and, inArray, desc, sql, SQL } from 'drizzle-orm';
+import { ledgerService } from './ledger';
+import { orderGroupService } from './orderGroups';
+import { orderLifecycle, TransitionResult } from './orderLifecycle';
+import { InventoryError } from './inventory';
+import { createNotification } from '../routes/notifications';
+import { paymentGateway, PaymentProviderName, PaymentStatus, WebhookEvent } from './payments';
+
+// Orders in these states can still be confirmed by a successful payment (a late success wins over an earlier failure)
+const PAYABLE_STATUSES = ['pending', 'failed'];
+const SYSTEM_ACTOR = { role: 'SYSTEM' as const };
+
+type PaymentEventSource = 'WEBHOOK' | 'CALLBACK';
+
+interface PaymentReference {
+  provider: PaymentProviderName;
+  transactionId: string;
+}
+
+interface PaymentOutcome {
+  txRef: string;
+  status: PaymentStatus;
+  provider?: PaymentProviderName;
+  transactionId?: string;
+  amount?: number;
+  currency?: string;
+}
+
+interface PaymentIntentInput {
+  txRef: string;
+  userId: number;
+  provider: PaymentProviderName;
+  amount: number;
+  currency?: string;
+  purpose?: 'ORDER' | 'WALLET_FUNDING';
+}
+
+interface OutcomeResult {
+  action: 'CONFIRMED' | 'REFUNDED' | 'WALLET_FUNDED' | 'FAILED' | 'NOOP' | 'AMOUNT_MISMATCH' | 'PROVIDER_MISMATCH';
+  orderIds: string[];
+}
+
+class PaymentEventService {
+  // Mark every order paid under a payment reference and move the payments into escrow in one
+  // database transaction, so a failure part-way leaves none of them confirmed. Orders another
+  // delivery already moved past payment are skipped. A late payment for stock that has sold
+  // since the hold lapsed is refunded instead; that order comes back 'refunded'.
+  private async confirmOrders(
+    awaiting: Array<typeof orders.$inferSelect>,
+    txRef: string,
+    paymentMethod: string,
+    payment?: PaymentReference,
+  ) {
+    const results = await db.transaction(async (tx) => {
+      const confirmed: TransitionResult[] = [];
+      for (const order of awaiting) {
+        let result: TransitionResult | null;
+        try {
+          // A savepoint, so a sold-out order is undone on its own and refunded below
+          result = await tx.transaction(savepoint => this.capture(order, txRef, paymentMethod, payment, savepoint));
+        } catch (error) {
+          if (!(error instanceof InventoryError && error.code === 'INSUFFICIENT_STOCK')) {
+            throw error;
+          }
+          result = await this.refundUnfillable(order, txRef, paymentMethod, payment, tx);
+        }
+        if (result) {
+          confirmed.push(result);
+        }
+      }
+
+      if (confirmed.length > 0) {
+        await orderGroupService.markPaid(txRef, tx);
+      }
+      return confirmed;
+    });
+
+    await orderLifecycle.dispatchEffects(...results);
+    return results.map(result => result.order);
+  }
+
+  private async capture(
+    order: typeof orders.$inferSelect,
+    txRef: string,
+    paymentMethod: string,
+    payment: PaymentReference | undefined,
+    tx: DbTransaction,
+  ) {
+    const result = await orderLifecycle.tryTransition(order.id, 'confirmed', SYSTEM_ACTOR, {
+      reason: 'Payment confirmed',
+      metadata: { txRef, paymentMethod, provider: payment?.provider },
+      changes: { paymentTxRef: txRef, paymentStatus: 'paid' },
+    }, tx);
+
+    if (!result) {
+      return null;
+    }
+
+    await ledgerService.captureOrderPayment({
+      orderId: order.id,
+      buyerId: order.buyerId,
+      amount: order.totalPrice,
+      transactionRef: txRef,
+      paymentMethod,
+      provider: payment?.provider,
+      providerTransactionId: payment?.transactionId,
+    }, tx);
+
+    return result;
+  }
+
+  // The money was taken but the goods are gone: capture the payment into escrow so the refund
+  // hook returns it through the gateway that took it, and close the order as refunded
+  private async refundUnfillable(
+    order: typeof orders.$inferSelect,
+    txRef: string,
+    paymentMethod: string,
+    payment: PaymentReference | undefined,
+    tx: DbTransaction,
+  ) {
+    const [current] = await tx.select({ status: orders.status })
+      .from(orders)
+      .where(eq(orders.id, order.id))
+      .for('update');
+    if (!current?.status || !PAYABLE_STATUSES.includes(current.status)) {
+      return null;
+    }
+
+    await ledgerService.captureOrderPayment({
+      orderId: order.id,
+      buyerId: order.buyerId,
+      amount: order.totalPrice,
+      transactionRef: txRef,
+      paymentMethod,
+      provider: payment?.provider,
+      providerTransactionId: payment?.transactionId,
+    }, tx);
+
+    return orderLifecycle.tryTransition(order.id, 'refunded', SYSTEM_ACTOR, {
+      reason: 'Paid after the items sold out',
+      metadata: { txRef, paymentMethod, provider: payment?.provider, amount: order.totalPrice },
+      changes: { paymentTxRef: txRef, paymentStatus: 'refunded' },
+    }, tx);
+  }
+
+  // Remember which gateway a payment reference was started with. Starting it again, e.g. after the
+  // first gateway was unreachable, moves it to the new gateway.
+  async recordIntent(intent: PaymentIntentInput) {
+    const values = { ...intent, amount: intent.amount.toFixed(2) };
+    const [stored] = await db.insert(paymentIntents)
+      .values(values)
+      .onConflictDoUpdate({
+        target: paymentIntents.txRef,
+        set: { provider: values.provider, amount: values.amount, currency: values.currency, updatedAt: new Date() },
+      })
+      .returning();
+    return stored;
+  }
+
+  async getIntent(txRef: string) {
+    const [intent] = await db.select().from(paymentIntents).where(eq(paymentIntents.txRef, txRef)).limit(1);
+    return intent ?? null;
+  }
+
+  // The gateway a payment reference was started with; null when it was not started here
+  async providerFor(txRef: string) {
+    const intent = await this.getIntent(txRef);
+    return intent ? paymentGateway.getProvider(intent.provider) : null;
+  }
+
+  // The one state transition behind callbacks, webhooks and replays. Only orders still awaiting
+  // payment change state, so applying the same outcome twice confirms and notifies nothing new.
+  async applyOutcome(outcome: PaymentOutcome): Promise<OutcomeResult> {
+    const intent = outcome.status !== 'pending' ? await this.getIntent(outcome.txRef) : null;
+    // A reference started with one gateway is only settled by that gateway
+    if (outcome.provider && intent && intent.provider !== outcome.provider) {
+      return { action: 'PROVIDER_MISMATCH', orderIds: [] };
+    }
+    if (outcome.status === 'successful') {
+      return intent?.purpose === 'WALLET_FUNDING' ? this.applyWalletFunding(outcome, intent) : this.applySuccess(outcome, intent);
+    }
+    if (outcome.status === 'failed') {
+      return this.applyFailure(outcome.txRef);
+    }
+    return { action: 'NOOP', orderIds: [] };
+  }
+
+  // Store a gateway event and process it once. A redelivery of an event that failed earlier is
+  // processed again; any other redelivery is reported as a duplicate and left alone.
+  async ingest(event: WebhookEvent, payload: unknown, source: PaymentEventSource) {
+    const [inserted] = await db.insert(paymentEvents)
+      .values({
+        provider: event.provider,
+        eventId: event.eventId,
+        eventType: event.eventType,
+        source,
+        txRef: event.txRef,
+        transactionId: event.transactionId,
+        paymentStatus: event.status,
+        amount: event.amount !== undefined ? event.amount.toFixed(2) : undefined,
+        currency: event.currency?.toUpperCase(),
+        payload,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    const sameEvent = and(eq(paymentEvents.provider, event.provider), eq(paymentEvents.eventId, event.eventId))!;
+    const claimed = inserted ?? await this.claimFailed(sameEvent);
+
+    if (!claimed) {
+      const [existing] = await db.select().from(paymentEvents).where(sameEvent).limit(1);
+      return { event: existing, duplicate: true };
+    }
+
+    return { event: await this.process(claimed), duplicate: false };
+  }
+
+  // Re-run a failed event; returns null when there is no failed event with that id
+  async replay(id: string) {
+    const claimed = await this.claimFailed(eq(paymentEvents.id, id));
+    return claimed ? this.process(claimed) : null;
+  }
+
+  async list(filters: { provider?: string; status?: string; txRef?: string; limit?: number; offset?: number } = {}) {
+    const { provider, status, txRef, limit = 20, offset = 0 } = filters;
+    const conditions = [];
+    if (provider) conditions.push(eq(paymentEvents.provider, provider));
+    if (status) conditions.push(eq(paymentEvents.processingStatus, status));
+    if (txRef) conditions.push(eq(paymentEvents.txRef, txRef));
+
+    return db.select()
+      .from(paymentEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(paymentEvents.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getEvent(id: string) {
+    const [event] = await db.select().from(paymentEvents).where(eq(paymentEvents.id, id)).limit(1);
+    return event ?? null;
+  }
+
+  // Atomically move a FAILED event back to PROCESSING so concurrent deliveries cannot both run it
+  private async claimFailed(condition: SQL) {
+    const [claimed] = await db.update(paymentEvents)
+      .set({ processingStatus: 'PROCESSING', attempts: sql`${paymentEvents.attempts} + 1`, error: null, updatedAt: new Date() })
+      .where(and(condition, eq(paymentEvents.processingStatus, 'FAILED')))
+      .returning();
+    return claimed ?? null;
+  }
+
+  private async process(event: typeof paymentEvents.$inferSelect) {
+    try {
+      if (!event.txRef) {
+        throw new Error('Event has no payment reference');
+      }
+
+      const outcome = await this.applyOutcome({
+        txRef: event.txRef,
+        status: event.paymentStatus as PaymentStatus,
+        provider: event.provider as PaymentProviderName,
+        transactionId: event.transactionId ?? undefined,
+        amount: event.amount !== null ? parseFloat(event.amount) : undefined,
+        currency: event.currency ?? undefined,
+      });
+
+      const processingStatus = outcome.action === 'NOOP' || outcome.action === 'PROVIDER_MISMATCH'
+        ? 'IGNORED'
+        : outcome.action === 'AMOUNT_MISMATCH' ? 'FAILED' : 'PROCESSED';
+      const errors: Partial<Record<OutcomeResult['action'], string>> = {
+        AMOUNT_MISMATCH: 'Paid amount or currency does not match the amount due',
+        PROVIDER_MISMATCH: 'Payment reference was started with another provider',
+      };
+
+      const [updated] = await db.update(paymentEvents)
+        .set({
+          processingStatus,
+          outcome,
+          error: errors[outcome.action] ?? null,
+          processedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(paymentEvents.id, event.id))
+        .returning();
+      return updated;
+    } catch (error) {
+      console.error('Payment event processing error:', error);
+      const [updated] = await db.update(paymentEvents)
+        .set({
+          processingStatus: 'FAILED',
+          error: error instanceof Error ? error.message : String(error),
+          updatedAt: new Date(),
+        })
+        .where(eq(paymentEvents.id, event.id))
+        .returning();
+      return updated;
+    }
+  }
+
+  // Confirm every order paid under a payment reference (a multi-merchant order group shares one)
+  private async applySuccess(outcome: PaymentOutcome, intent: typeof paymentIntents.$inferSelect | null): Promise<OutcomeResult> {
+    const awaiting = await db.select()
+      .from(orders)
+      .where(and(eq(orders.paymentTxRef, outcome.txRef), inArray(orders.status, PAYABLE_STATUSES)));
+    if (awaiting.length === 0) {
+      return { action: 'NOOP', orderIds: [] };
+    }
+
+    const expected = awaiting.reduce((sum, order) => sum + parseFloat(order.totalPrice), 0);
+    if (!this.coversAmount(outcome, expected, intent)) {
+      return { action: 'AMOUNT_MISMATCH', orderIds: awaiting.map(order => order.id) };
+    }
+
+    const payment = outcome.provider
+      ? { provider: outcome.provider, transactionId: outcome.transactionId || outcome.txRef }
+      : undefined;
+    const confirmed = await this.confirmOrders(awaiting, outcome.txRef, 'card', payment);
+    const paidOrders = confirmed.filter(order => order.status !== 'refunded');
+    const refundedOrders = confirmed.filter(order => order.status === 'refunded');
+    if (confirmed.length === 0) {
+      return { action: 'NOOP', orderIds: [] };
+    }
+
+    if (refundedOrders.length > 0) {
+      await createNotification({
+        userId: refundedOrders[0].buyerId,
+        userRole: 'CONSUMER',
+        title: 'Payment Refunded',
+        message: `The items in ${refundedOrders.length > 1 ? 'orders' : 'order'} ${refundedOrders.map(order => order.id).join(', ')} sold out before your payment arrived, so the payment has been refunded.`,
+        type: 'REFUND',
+        relatedId: refundedOrders[0].orderGroupId || refundedOrders[0].id
+      });
+    }
+    if (paidOrders.length === 0) {
+      return { action: 'REFUNDED', orderIds: refundedOrders.map(order => order.id) };
+    }
+
+    // Notify consumer about order confirmation
+    await createNotification({
+      userId: paidOrders[0].buyerId,
+      userRole: 'CONSUMER',
+      title: 'Order Confirmed',
+      message: paidOrders.length > 1
+        ? `Your ${paidOrders.length} orders have been confirmed and are being processed.`
+        : `Your order ${paidOrders[0].id} has been confirmed and is being processed.`,
+      type: 'ORDER_UPDATE',
+      relatedId: paidOrders[0].orderGroupId || paidOrders[0].id
+    });
+
+    // Notify each merchant about its own slice only
+    const sellerIds = [...new Set(paidOrders.map(order => order.sellerId))];
+    for (const sellerId of sellerIds) {
+      const sellerOrders = paidOrders.filter(order => order.sellerId === sellerId);
+      await createNotification({
+        userId: sellerId,
+        userRole: 'MERCHANT',
+        title: 'New Order',
+        message: `You have a new order ${sellerOrders.map(order => order.id).join(', ')} to fulfill.`,
+        type: 'NEW_ORDER',
+        relatedId: sellerOrders[0].fulfilmentId || sellerOrders[0].id
+      });
+    }
+
+    return { action: 'CONFIRMED', orderIds: paidOrders.map(order => order.id) };
+  }
+
+  // Credit a wallet top-up once its gateway reports it paid in full. The payment reference is the
+  // ledger reference, so a repeated event credits nothing new.
+  private async applyWalletFunding(outcome: PaymentOutcome, intent: typeof paymentIntents.$inferSelect): Promise<OutcomeResult> {
+    if (!this.coversAmount(outcome, parseFloat(intent.amount), intent)) {
+      return { action: 'AMOUNT_MISMATCH', orderIds: [] };
+    }
+
+    const { duplicate } = await ledgerService.fundWallet({
+      userId: intent.userId,
+      amount: intent.amount,
+      paymentMethod: 'card',
+      transactionRef: outcome.txRef,
+    });
+    return { action: duplicate ? 'NOOP' : 'WALLET_FUNDED', orderIds: [] };
+  }
+
+  // A success only counts when the gateway reports at least the amount due, in the currency the
+  // charge was started in. An outcome without an amount or currency proves nothing.
+  private coversAmount(outcome: PaymentOutcome, expected: number, intent: typeof paymentIntents.$inferSelect | null) {
+    const currency = (intent?.currency || 'NGN').toUpperCase();
+    return outcome.amount !== undefined
+      && outcome.currency?.toUpperCase() === currency
+      && outcome.amount + 0.01 >= expected;
+  }
+
+  private async applyFailure(txRef: string): Promise<OutcomeResult> {
+    const awaiting = await db.select({ id: orders.id })
+      .from(orders)
+      .where(and(eq(orders.paymentTxRef, txRef), eq(orders.status, 'pending')));
+
+    const failedOrders: Array<typeof orders.$inferSelect> = [];
+    for (const { id } of awaiting) {
+      const result = await orderLifecycle.tryTransition(id, 'failed', SYSTEM_ACTOR, {
+        reason: 'Payment failed',
+        metadata: { txRef },
+        changes: { paymentStatus: 'failed' },
+      });
+      if (result) {
+        failedOrders.push(result.order);
+      }
+    }
+    if (failedOrders.length === 0) {
+      return { action: 'NOOP', orderIds: [] };
+    }
+
+    await orderGroupService.markPaymentFailed(txRef);
+
+    // Notify consumer about payment failure
+    await createNotification({
+      userId: failedOrders[0].buyerId,
+      userRole: 'CONSUMER',
+      title: 'Payment Failed',
+      message: `There was an issue processing your payment for order ${failedOrders[0].orderGroupId || failedOrders[0].id}. Please try again.`,
+      type: 'PAYMENT_FAILED',
+      relatedId: failedOrders[0].orderGroupId || failedOrders[0].id
+    });
+
+    return { action: 'FAILED', orderIds: failedOrders.map(order => order.id) };
+  }
+}
+
+export const paymentEventService = new PaymentEventService();
+export { PaymentEventService, PaymentOutcome, PaymentEventSource, PaymentIntentInput };
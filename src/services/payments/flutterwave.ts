@@ -0,0 +1,179 @@
+import axios from 'axios';
+import { IncomingHttpHeaders } from 'http';
+import { FLW_BASE_URL, FLW_SECRET_KEY, FLW_SECRET_HASH } from '../../config/environment';
+import {
+  PaymentProvider,
+  PaymentStatus,
+  InitializePaymentInput,
+  InitializePaymentResult,
+  VerifyPaymentResult,
+  RefundInput,
+  RefundResult,
+  Bank,
+  ResolvedAccount,
+  TransferInput,
+  TransferResult,
+  WebhookEvent,
+  PaymentProviderError,
+  toProviderError,
+  safeEqual,
+  hmac,
+} from './types';
+
+const toStatus = (status?: string): PaymentStatus => {
+  if (status === 'successful') return 'successful';
+  if (status === 'failed' || status === 'cancelled') return 'failed';
+  return 'pending';
+};
+
+const toTransferStatus = (status?: string): TransferResult['status'] => {
+  if (status === 'SUCCESSFUL') return 'SUCCESSFUL';
+  if (status === 'FAILED') return 'FAILED';
+  return 'PENDING';
+};
+
+class FlutterwaveProvider implements PaymentProvider {
+  readonly name = 'flutterwave' as const;
+
+  isConfigured(): boolean {
+    return !!FLW_SECRET_KEY;
+  }
+
+  async initialize(input: InitializePaymentInput): Promise<InitializePaymentResult> {
+    const data = await this.request('post', '/payments', 'Payment initialization', {
+      tx_ref: input.txRef,
+      amount: input.amount,
+      currency: input.currency,
+      redirect_url: input.redirectUrl,
+      customer: {
+        email: input.customerEmail,
+      },
+      customizations: {
+        title: 'Brillprime',
+        description: input.description || 'Order Payment',
+      },
+      meta: input.metadata,
+    });
+
+    return { provider: this.name, txRef: input.txRef, paymentLink: data.link };
+  }
+
+  async verify(transactionId: string): Promise<VerifyPaymentResult> {
+    const data = await this.request('get', `/transactions/${transactionId}/verify`, 'Payment verification');
+
+    return {
+      provider: this.name,
+      status: toStatus(data.status),
+      transactionId: String(data.id ?? transactionId),
+      txRef: data.tx_ref,
+      amount: data.amount !== undefined ? Number(data.amount) : undefined,
+      currency: data.currency,
+    };
+  }
+
+  async refund(input: RefundInput): Promise<RefundResult> {
+    const data = await this.request('post', `/transactions/${input.transactionId}/refund`, 'Refund', {
+      amount: input.amount,
+      comments: input.reason,
+    });
+
+    return {
+      provider: this.name,
+      refundId: String(data.id),
+      status: data.status === 'completed' ? 'COMPLETED' : data.status === 'failed' ? 'FAILED' : 'PROCESSING',
+    };
+  }
+
+  async listBanks(country: string): Promise<Bank[]> {
+    const data = await this.request('get', `/banks/${country}`, 'Bank list');
+    return (data as any[]).map(bank => ({ name: bank.name, code: String(bank.code) }));
+  }
+
+  async resolveAccount(accountNumber: string, bankCode: string): Promise<ResolvedAccount> {
+    const data = await this.request('post', '/accounts/resolve', 'Account verification', {
+      account_number: accountNumber,
+      account_bank: bankCode,
+    });
+
+    return { accountNumber: data.account_number, accountName: data.account_name, bankCode };
+  }
+
+  async transfer(input: TransferInput): Promise<TransferResult> {
+    const data = await this.request('post', '/transfers', 'Transfer', {
+      account_bank: input.bankCode,
+      account_number: input.accountNumber,
+      amount: input.amount,
+      currency: input.currency,
+      narration: input.narration,
+      reference: input.reference,
+    });
+
+    return {
+      provider: this.name,
+      transferId: String(data.id),
+      reference: input.reference,
+      status: toTransferStatus(data.status),
+    };
+  }
+
+  async getTransfer(transferId: string, reference: string): Promise<TransferResult> {
+    const data = await this.request('get', `/transfers/${transferId}`, 'Transfer lookup');
+    return { provider: this.name, transferId: String(data.id), reference, status: toTransferStatus(data.status) };
+  }
+
+  // Flutterwave echoes the dashboard secret hash in verif-hash; newer webhooks also carry an
+  // HMAC-SHA256 of the body keyed with the same hash
+  verifyWebhookSignature(rawBody: string, headers: IncomingHttpHeaders): boolean {
+    if (!FLW_SECRET_HASH) {
+      return false;
+    }
+    const signature = headers['flutterwave-signature'];
+    if (signature) {
+      return safeEqual(hmac('sha256', FLW_SECRET_HASH, rawBody, 'base64'), signature);
+    }
+    return safeEqual(FLW_SECRET_HASH, headers['verif-hash']);
+  }
+
+  parseWebhook(body: any): WebhookEvent | null {
+    const data = body?.data;
+    if (!data || data.id === undefined) {
+      return null;
+    }
+
+    const eventType = body.event || body['event.type'] || 'charge.completed';
+    return {
+      provider: this.name,
+      eventId: `${eventType}:${data.id}`,
+      eventType,
+      status: toStatus(data.status),
+      txRef: data.tx_ref,
+      transactionId: String(data.id),
+      amount: data.amount !== undefined ? Number(data.amount) : undefined,
+      currency: data.currency,
+    };
+  }
+
+  private async request(method: 'get' | 'post', path: string, action: string, body?: unknown) {
+    try {
+      const response = await axios.request({
+        method,
+        url: `${FLW_BASE_URL}${path}`,
+        data: body,
+        headers: {
+          Authorization: `Bearer ${FLW_SECRET_KEY}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (response.data.status !== 'success') {
+        throw new PaymentProviderError(this.name, `${action} failed: ${response.data.message}`);
+      }
+      return response.data.data;
+    } catch (error) {
+      throw toProviderError(this.name, error, action);
+    }
+  }
+}
+
+export const flutterwaveProvider = new FlutterwaveProvider();
+export { FlutterwaveProvider };
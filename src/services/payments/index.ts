@@ -0,0 +1,123 @@
+import {
+  env,
+  PAYMENT_PROVIDER,
+  PAYMENT_PROVIDER_FALLBACKS,
+  PAYMENT_PROVIDER_BY_COUNTRY,
+  MOCK_WEBHOOK_SECRET,
+} from '../../config/environment';
+import { flutterwaveProvider } from './flutterwave';
+import { paystackProvider } from './paystack';
+import { mockPaymentProvider } from './mock';
+import { PaymentProvider, PaymentProviderName, PaymentProviderError, UnknownPaymentProviderError } from './types';
+
+const DEFAULT_COUNTRY = 'NG';
+// How long a provider that failed with a retryable error is skipped
+const UNAVAILABLE_COOLDOWN_MS = 60 * 1000;
+
+const parseList = (value?: string) => (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+class PaymentGateway {
+  private providers = new Map<PaymentProviderName, PaymentProvider>([
+    [flutterwaveProvider.name, flutterwaveProvider],
+    [paystackProvider.name, paystackProvider],
+  ]);
+  private unavailableUntil = new Map<PaymentProviderName, number>();
+  private defaultProvider: PaymentProviderName;
+  private fallbacks: PaymentProviderName[];
+  private byCountry = new Map<string, PaymentProviderName>();
+
+  constructor() {
+    // The mock gateway confirms any charge, so it only exists outside production and only with a
+    // webhook secret of its own
+    if ((env.isTest || env.isDev) && MOCK_WEBHOOK_SECRET) {
+      this.providers.set(mockPaymentProvider.name, mockPaymentProvider);
+    }
+    this.defaultProvider = this.toName(PAYMENT_PROVIDER || (this.providers.has('mock') && env.isTest ? 'mock' : 'flutterwave'));
+    this.fallbacks = parseList(PAYMENT_PROVIDER_FALLBACKS).map(name => this.toName(name));
+    for (const pair of parseList(PAYMENT_PROVIDER_BY_COUNTRY)) {
+      const [country, name] = pair.split(':').map(part => part.trim());
+      if (country && name) {
+        this.byCountry.set(country.toUpperCase(), this.toName(name));
+      }
+    }
+  }
+
+  // Look up a provider by name, e.g. to verify or refund with the gateway that took the payment
+  getProvider(name?: string): PaymentProvider {
+    return this.providers.get(name ? this.toName(name) : this.defaultProvider)!;
+  }
+
+  // Primary provider for a country followed by the configured fallbacks, healthy ones first
+  providersFor(country = DEFAULT_COUNTRY): PaymentProvider[] {
+    const primary = this.byCountry.get(country.toUpperCase()) || this.defaultProvider;
+    const names = [...new Set([primary, ...this.fallbacks])];
+    const candidates = names
+      .map(name => this.providers.get(name)!)
+      .filter((provider, index) => index === 0 || provider.isConfigured());
+
+    const now = Date.now();
+    const available = candidates.filter(provider => (this.unavailableUntil.get(provider.name) || 0) <= now);
+    const cooling = candidates.filter(provider => !available.includes(provider));
+    return [...available, ...cooling];
+  }
+
+  // Run an operation against the country's provider, moving to the next one only when a
+  // provider is unreachable. Business failures (declined card, bad account) are not retried.
+  async execute<T>(country: string | undefined, operation: (provider: PaymentProvider) => Promise<T>): Promise<T> {
+    const candidates = this.providersFor(country);
+    let lastError: unknown;
+
+    for (const provider of candidates) {
+      try {
+        const result = await operation(provider);
+        this.unavailableUntil.delete(provider.name);
+        return result;
+      } catch (error) {
+        lastError = error;
+        if (!(error instanceof PaymentProviderError) || !error.retryable) {
+          throw error;
+        }
+        console.error(`Payment provider ${provider.name} unavailable:`, error.message);
+        this.unavailableUntil.set(provider.name, Date.now() + UNAVAILABLE_COOLDOWN_MS);
+      }
+    }
+
+    throw lastError;
+  }
+
+  // Send a refund back through the gateway that captured a payment, using the provider details
+  // stored on the ledger's PAYMENT transaction. Payments taken outside a gateway have nothing to reverse.
+  async refundCharge(paymentMetadata: unknown, amount: number, reason: string) {
+    const { provider, providerTransactionId } = (paymentMetadata || {}) as { provider?: string; providerTransactionId?: string };
+    if (!provider || !providerTransactionId) {
+      return null;
+    }
+    return this.getProvider(provider).refund({ transactionId: providerTransactionId, amount, reason });
+  }
+
+  getStatus() {
+    const now = Date.now();
+    return {
+      defaultProvider: this.defaultProvider,
+      fallbacks: this.fallbacks,
+      countries: Object.fromEntries(this.byCountry),
+      providers: [...this.providers.values()].map(provider => ({
+        name: provider.name,
+        configured: provider.isConfigured(),
+        available: (this.unavailableUntil.get(provider.name) || 0) <= now,
+      })),
+    };
+  }
+
+  private toName(name: string): PaymentProviderName {
+    const normalised = name.toLowerCase() as PaymentProviderName;
+    if (!this.providers.has(normalised)) {
+      throw new UnknownPaymentProviderError(name);
+    }
+    return normalised;
+  }
+}
+
+export const paymentGateway = new PaymentGateway();
+export { PaymentGateway };
+export * from './types';
@@ -0,0 +1,148 @@
+import { IncomingHttpHeaders } from 'http';
+import { MOCK_PAYMENT_OUTCOME, MOCK_WEBHOOK_SECRET } from '../../config/environment';
+import {
+  PaymentProvider,
+  PaymentStatus,
+  InitializePaymentInput,
+  InitializePaymentResult,
+  VerifyPaymentResult,
+  RefundInput,
+  RefundResult,
+  Bank,
+  ResolvedAccount,
+  TransferInput,
+  TransferResult,
+  WebhookEvent,
+  PaymentProviderError,
+  safeEqual,
+  hmac,
+} from './types';
+
+interface MockCharge {
+  txRef: string;
+  amount: number;
+  currency: string;
+  refunded: number;
+}
+
+const MOCK_BANKS: Bank[] = [
+  { name: 'Access Bank', code: '044' },
+  { name: 'First Bank of Nigeria', code: '011' },
+  { name: 'Guaranty Trust Bank', code: '058' },
+  { name: 'United Bank for Africa', code: '033' },
+  { name: 'Zenith Bank', code: '057' },
+];
+
+// Offline gateway for development and tests, registered only when MOCK_WEBHOOK_SECRET is set.
+// Every charge settles with MOCK_PAYMENT_OUTCOME, except references containing "fail", which always fail.
+class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock' as const;
+  private charges = new Map<string, MockCharge>();
+  private sequence = 0;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async initialize(input: InitializePaymentInput): Promise<InitializePaymentResult> {
+    this.charges.set(input.txRef, { txRef: input.txRef, amount: input.amount, currency: input.currency, refunded: 0 });
+
+    const callback = new URL(input.redirectUrl);
+    callback.searchParams.set('tx_ref', input.txRef);
+    callback.searchParams.set('transaction_id', input.txRef);
+    callback.searchParams.set('status', this.outcomeFor(input.txRef));
+
+    return { provider: this.name, txRef: input.txRef, paymentLink: callback.toString() };
+  }
+
+  async verify(reference: string): Promise<VerifyPaymentResult> {
+    const charge = this.charges.get(reference);
+    return {
+      provider: this.name,
+      status: this.outcomeFor(reference),
+      transactionId: reference,
+      txRef: reference,
+      amount: charge?.amount,
+      currency: charge?.currency,
+    };
+  }
+
+  async refund(input: RefundInput): Promise<RefundResult> {
+    const charge = this.charges.get(input.transactionId);
+    if (charge) {
+      const amount = input.amount ?? charge.amount - charge.refunded;
+      if (charge.refunded + amount > charge.amount) {
+        throw new PaymentProviderError(this.name, 'Refund failed: amount exceeds charge');
+      }
+      charge.refunded += amount;
+    }
+
+    return { provider: this.name, refundId: `mock-refund-${++this.sequence}`, status: 'COMPLETED' };
+  }
+
+  async listBanks(_country: string): Promise<Bank[]> {
+    return MOCK_BANKS;
+  }
+
+  async resolveAccount(accountNumber: string, bankCode: string): Promise<ResolvedAccount> {
+    if (!/^\d{10}$/.test(accountNumber)) {
+      throw new PaymentProviderError(this.name, 'Account verification failed: invalid account number');
+    }
+    return { accountNumber, accountName: 'MOCK ACCOUNT HOLDER', bankCode };
+  }
+
+  async transfer(input: TransferInput): Promise<TransferResult> {
+    return {
+      provider: this.name,
+      transferId: `mock-transfer-${++this.sequence}`,
+      reference: input.reference,
+      status: this.outcomeFor(input.reference) === 'failed' ? 'FAILED' : 'SUCCESSFUL',
+    };
+  }
+
+  async getTransfer(transferId: string, reference: string): Promise<TransferResult> {
+    return {
+      provider: this.name,
+      transferId,
+      reference,
+      status: this.outcomeFor(reference) === 'failed' ? 'FAILED' : 'SUCCESSFUL',
+    };
+  }
+
+  // Same scheme as Paystack but SHA-256, so tests can sign payloads with MOCK_WEBHOOK_SECRET
+  verifyWebhookSignature(rawBody: string, headers: IncomingHttpHeaders): boolean {
+    if (!MOCK_WEBHOOK_SECRET) {
+      return false;
+    }
+    return safeEqual(hmac('sha256', MOCK_WEBHOOK_SECRET, rawBody), headers['x-mock-signature']);
+  }
+
+  parseWebhook(body: any): WebhookEvent | null {
+    const data = body?.data;
+    if (!data?.tx_ref) {
+      return null;
+    }
+
+    const eventType = body.event || 'charge.completed';
+    return {
+      provider: this.name,
+      eventId: `${eventType}:${data.id ?? data.tx_ref}`,
+      eventType,
+      status: data.status === 'successful' || data.status === 'failed' ? data.status : 'pending',
+      txRef: data.tx_ref,
+      transactionId: String(data.id ?? data.tx_ref),
+      amount: data.amount !== undefined ? Number(data.amount) : undefined,
+      currency: data.currency,
+    };
+  }
+
+  private outcomeFor(reference: string): PaymentStatus {
+    if (reference.includes('fail')) {
+      return 'failed';
+    }
+    return MOCK_PAYMENT_OUTCOME === 'failed' || MOCK_PAYMENT_OUTCOME === 'pending' ? MOCK_PAYMENT_OUTCOME : 'successful';
+  }
+}
+
+export const mockPaymentProvider = new MockPaymentProvider();
+export { MockPaymentProvider };
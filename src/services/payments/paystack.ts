@@ -0,0 +1,186 @@
+import axios from 'axios';
+import { IncomingHttpHeaders } from 'http';
+import { PAYSTACK_BASE_URL, PAYSTACK_SECRET_KEY } from '../../config/environment';
+import {
+  PaymentProvider,
+  PaymentStatus,
+  InitializePaymentInput,
+  InitializePaymentResult,
+  VerifyPaymentResult,
+  RefundInput,
+  RefundResult,
+  Bank,
+  ResolvedAccount,
+  TransferInput,
+  TransferResult,
+  WebhookEvent,
+  PaymentProviderError,
+  toProviderError,
+  safeEqual,
+  hmac,
+} from './types';
+
+const COUNTRY_NAMES: Record<string, string> = {
+  NG: 'nigeria',
+  GH: 'ghana',
+  KE: 'kenya',
+  ZA: 'south africa',
+};
+
+// Paystack amounts are in the currency's minor unit
+const toMinor = (amount: number) => Math.round(amount * 100);
+const fromMinor = (amount: number) => amount / 100;
+
+const toStatus = (status?: string): PaymentStatus => {
+  if (status === 'success') return 'successful';
+  if (status === 'failed' || status === 'abandoned' || status === 'reversed') return 'failed';
+  return 'pending';
+};
+
+const toTransferStatus = (status?: string): TransferResult['status'] => {
+  if (status === 'success') return 'SUCCESSFUL';
+  if (status === 'failed' || status === 'reversed') return 'FAILED';
+  return 'PENDING';
+};
+
+class PaystackProvider implements PaymentProvider {
+  readonly name = 'paystack' as const;
+
+  isConfigured(): boolean {
+    return !!PAYSTACK_SECRET_KEY;
+  }
+
+  async initialize(input: InitializePaymentInput): Promise<InitializePaymentResult> {
+    const data = await this.request('post', '/transaction/initialize', 'Payment initialization', {
+      reference: input.txRef,
+      amount: toMinor(input.amount),
+      currency: input.currency,
+      email: input.customerEmail,
+      callback_url: input.redirectUrl,
+      metadata: input.metadata,
+    });
+
+    return { provider: this.name, txRef: input.txRef, paymentLink: data.authorization_url };
+  }
+
+  async verify(reference: string): Promise<VerifyPaymentResult> {
+    const data = await this.request('get', `/transaction/verify/${encodeURIComponent(reference)}`, 'Payment verification');
+
+    return {
+      provider: this.name,
+      status: toStatus(data.status),
+      transactionId: String(data.id ?? reference),
+      txRef: data.reference,
+      amount: data.amount !== undefined ? fromMinor(Number(data.amount)) : undefined,
+      currency: data.currency,
+    };
+  }
+
+  async refund(input: RefundInput): Promise<RefundResult> {
+    const data = await this.request('post', '/refund', 'Refund', {
+      transaction: input.transactionId,
+      amount: input.amount !== undefined ? toMinor(input.amount) : undefined,
+      merchant_note: input.reason,
+    });
+
+    return {
+      provider: this.name,
+      refundId: String(data.id),
+      status: data.status === 'processed' ? 'COMPLETED' : data.status === 'failed' ? 'FAILED' : 'PROCESSING',
+    };
+  }
+
+  async listBanks(country: string): Promise<Bank[]> {
+    const name = COUNTRY_NAMES[country.toUpperCase()] || country;
+    const data = await this.request('get', `/bank?country=${encodeURIComponent(name)}`, 'Bank list');
+    return (data as any[]).map(bank => ({ name: bank.name, code: String(bank.code) }));
+  }
+
+  async resolveAccount(accountNumber: string, bankCode: string): Promise<ResolvedAccount> {
+    const query = `account_number=${encodeURIComponent(accountNumber)}&bank_code=${encodeURIComponent(bankCode)}`;
+    const data = await this.request('get', `/bank/resolve?${query}`, 'Account verification');
+
+    return { accountNumber: data.account_number, accountName: data.account_name, bankCode };
+  }
+
+  // Paystack pays out to a registered recipient, so create one on the fly
+  async transfer(input: TransferInput): Promise<TransferResult> {
+    const recipient = await this.request('post', '/transferrecipient', 'Transfer recipient', {
+      type: 'nuban',
+      name: input.accountName || input.accountNumber,
+      account_number: input.accountNumber,
+      bank_code: input.bankCode,
+      currency: input.currency,
+    });
+
+    const data = await this.request('post', '/transfer', 'Transfer', {
+      source: 'balance',
+      amount: toMinor(input.amount),
+      recipient: recipient.recipient_code,
+      reference: input.reference,
+      reason: input.narration,
+    });
+
+    return {
+      provider: this.name,
+      transferId: String(data.transfer_code || data.id),
+      reference: input.reference,
+      status: toTransferStatus(data.status),
+    };
+  }
+
+  async getTransfer(transferId: string, reference: string): Promise<TransferResult> {
+    const data = await this.request('get', `/transfer/verify/${encodeURIComponent(reference)}`, 'Transfer lookup');
+    return { provider: this.name, transferId: String(data.transfer_code || transferId), reference, status: toTransferStatus(data.status) };
+  }
+
+  // x-paystack-signature is an HMAC-SHA512 of the body keyed with the secret key
+  verifyWebhookSignature(rawBody: string, headers: IncomingHttpHeaders): boolean {
+    if (!PAYSTACK_SECRET_KEY) {
+      return false;
+    }
+    return safeEqual(hmac('sha512', PAYSTACK_SECRET_KEY, rawBody), headers['x-paystack-signature']);
+  }
+
+  parseWebhook(body: any): WebhookEvent | null {
+    const data = body?.data;
+    if (!body?.event || !data || data.id === undefined) {
+      return null;
+    }
+
+    return {
+      provider: this.name,
+      eventId: `${body.event}:${data.id}`,
+      eventType: body.event,
+      status: body.event === 'charge.success' ? 'successful' : toStatus(data.status),
+      txRef: data.reference,
+      transactionId: String(data.id),
+      amount: data.amount !== undefined ? fromMinor(Number(data.amount)) : undefined,
+      currency: data.currency,
+    };
+  }
+
+  private async request(method: 'get' | 'post', path: string, action: string, body?: unknown) {
+    try {
+      const response = await axios.request({
+        method,
+        url: `${PAYSTACK_BASE_URL}${path}`,
+        data: body,
+        headers: {
+          Authorization: `Bearer ${PAYSTACK_SECRET_KEY}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (response.data.status !== true) {
+        throw new PaymentProviderError(this.name, `${action} failed: ${response.data.message}`);
+      }
+      return response.data.data;
+    } catch (error) {
+      throw toProviderError(this.name, error, action);
+    }
+  }
+}
+
+export const paystackProvider = new PaystackProvider();
+export { PaystackProvider };
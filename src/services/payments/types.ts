@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+export type PaymentProviderName = 'flutterwave' | 'paystack' | 'mock';
+
+export type PaymentStatus = 'successful' | 'failed' | 'pending';
+
+export interface InitializePaymentInput {
+  txRef: string;
+  amount: number;
+  currency: string;
+  customerEmail: string;
+  redirectUrl: string;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface InitializePaymentResult {
+  provider: PaymentProviderName;
+  txRef: string;
+  paymentLink: string;
+}
+
+export interface VerifyPaymentResult {
+  provider: PaymentProviderName;
+  status: PaymentStatus;
+  // Provider-side id, needed later for refunds
+  transactionId: string;
+  txRef?: string;
+  amount?: number;
+  currency?: string;
+}
+
+export interface RefundInput {
+  transactionId: string;
+  amount?: number;
+  reason?: string;
+}
+
+export interface RefundResult {
+  provider: PaymentProviderName;
+  refundId: string;
+  status: 'PROCESSING' | 'COMPLETED' | 'FAILED';
+}
+
+export interface Bank {
+  name: string;
+  code: string;
+}
+
+export interface ResolvedAccount {
+  accountNumber: string;
+  accountName: string;
+  bankCode: string;
+}
+
+export interface TransferInput {
+  reference: string;
+  amount: number;
+  currency: string;
+  accountNumber: string;
+  bankCode: string;
+  accountName?: string;
+  narration?: string;
+}
+
+export interface TransferResult {
+  provider: PaymentProviderName;
+  transferId: string;
+  reference: string;
+  status: 'PENDING' | 'SUCCESSFUL' | 'FAILED';
+}
+
+export interface WebhookEvent {
+  provider: PaymentProviderName;
+  // Stable id for the delivery, so repeated webhooks can be recognised
+  eventId: string;
+  eventType: string;
+  status: PaymentStatus;
+  txRef?: string;
+  transactionId?: string;
+  amount?: number;
+  currency?: string;
+}
+
+// Every gateway speaks the same shape so routes never depend on a vendor's API
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  isConfigured(): boolean;
+  initialize(input: InitializePaymentInput): Promise<InitializePaymentResult>;
+  // Flutterwave verifies by its transaction id, Paystack by our reference
+  verify(reference: string): Promise<VerifyPaymentResult>;
+  refund(input: RefundInput): Promise<RefundResult>;
+  listBanks(country: string): Promise<Bank[]>;
+  resolveAccount(accountNumber: string, bankCode: string): Promise<ResolvedAccount>;
+  transfer(input: TransferInput): Promise<TransferResult>;
+  // Current state of a transfer that was still pending when it was sent
+  getTransfer(transferId: string, reference: string): Promise<TransferResult>;
+  // Check the gateway's signature over the raw request body before a webhook is trusted
+  verifyWebhookSignature(rawBody: string, headers: IncomingHttpHeaders): boolean;
+  parseWebhook(body: any): WebhookEvent | null;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(
+    public provider: PaymentProviderName,
+    message: string,
+    // Network failures and 5xx responses are worth retrying on another provider
+    public retryable = false,
+  ) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
+
+// A provider name that is not registered, e.g. a webhook URL for a gateway we do not use
+export class UnknownPaymentProviderError extends Error {
+  constructor(public providerName: string) {
+    super(`Unknown payment provider: ${providerName}`);
+    this.name = 'UnknownPaymentProviderError';
+  }
+}
+
+// Normalise an HTTP client failure into a PaymentProviderError
+export const toProviderError = (provider: PaymentProviderName, error: any, action: string): PaymentProviderError => {
+  if (error instanceof PaymentProviderError) {
+    return error;
+  }
+  const status: number | undefined = error?.response?.status;
+  const detail = error?.response?.data?.message || error?.message || 'Unknown error';
+  return new PaymentProviderError(provider, `${action} failed: ${detail}`, status === undefined || status >= 500);
+};
+
+// Constant-time comparison for signatures and shared secrets
+export const safeEqual = (expected: string, received?: string | string[]): boolean => {
+  if (typeof received !== 'string' || received.length !== expected.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+};
+
+export const hmac = (algorithm: 'sha256' | 'sha512', secret: string, body: string, encoding: 'hex' | 'base64' = 'hex') =>
+  crypto.createHmac(algorithm, secret).update(body, 'utf8').digest(encoding);
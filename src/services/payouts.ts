@@ -0,0 +1,203 @@
+import db from '../config/database';
+import { transactions, users, bankAccounts } from '../schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { ledgerService } from './ledger';
+import { paymentGateway, PaymentProviderError, TransferResult } from './payments';
+import { messageQueue, JobTypes } from './messageQueue';
+import { createNotification } from '../routes/notifications';
+import { DispatchInput } from './notificationDispatcher';
+
+// How long to wait before asking the gateway again about a transfer it accepted but has not paid
+const TRANSFER_CHECK_DELAY_MS = 10 * 60 * 1000;
+
+interface PayoutDetails {
+  bankAccountId?: string;
+  accountNumber?: string;
+  bankCode?: string;
+  bankAccount?: string;
+  provider?: string;
+  transferId?: string;
+}
+
+interface WithdrawalRequest {
+  userId: number;
+  amount: number | string;
+  bankAccountId: string;
+  type?: 'WITHDRAWAL' | 'PAYOUT_REQUEST';
+  withdrawalMethod?: string;
+  notes?: string;
+}
+
+class PayoutError extends Error {
+  constructor(public code: 'BANK_ACCOUNT_NOT_FOUND', message: string) {
+    super(message);
+    this.name = 'PayoutError';
+  }
+}
+
+// Sends wallet withdrawals and payout requests to the bank through the payment gateway. The
+// withdrawal already sits in PAYOUTS_PENDING; a paid transfer clears it against the gateway
+// balance and a failed one puts the money back in the wallet.
+class PayoutService {
+  constructor() {
+    messageQueue.registerHandler(JobTypes.PROCESS_PAYOUT, async (job) => this.process((job.data as { transactionId: number }).transactionId));
+  }
+
+  // Save a bank account for payouts once the gateway has resolved it to the holder's name.
+  // Saving the same account again refreshes the name.
+  async saveBankAccount(userId: number, accountNumber: string, bankCode: string, country?: string) {
+    const resolved = await paymentGateway.execute(country, async provider => ({
+      ...await provider.resolveAccount(accountNumber, bankCode),
+      provider: provider.name,
+    }));
+
+    const values = {
+      userId,
+      accountNumber: resolved.accountNumber || accountNumber,
+      bankCode: resolved.bankCode || bankCode,
+      accountName: resolved.accountName,
+      provider: resolved.provider,
+      verifiedAt: new Date(),
+    };
+    const [saved] = await db.insert(bankAccounts)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [bankAccounts.userId, bankAccounts.accountNumber, bankAccounts.bankCode],
+        set: { accountName: values.accountName, provider: values.provider, verifiedAt: values.verifiedAt, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async listBankAccounts(userId: number) {
+    return db.select().from(bankAccounts).where(eq(bankAccounts.userId, userId));
+  }
+
+  // Take the amount out of the wallet and queue the transfer to one of the user's saved accounts
+  async requestWithdrawal(request: WithdrawalRequest) {
+    const { userId, amount, bankAccountId, type = 'WITHDRAWAL', withdrawalMethod = 'BANK_TRANSFER', notes } = request;
+    const account = await this.findBankAccount(userId, bankAccountId);
+    if (!account) {
+      throw new PayoutError('BANK_ACCOUNT_NOT_FOUND', 'Bank account not found; save and verify it first');
+    }
+
+    const { transaction } = await ledgerService.withdrawFromWallet({
+      userId,
+      amount,
+      withdrawalMethod,
+      type,
+      metadata: {
+        bankAccountId: account.id,
+        bankAccount: account.accountName,
+        accountNumber: account.accountNumber,
+        bankCode: account.bankCode,
+        notes,
+      },
+    });
+    await this.enqueue(transaction.id);
+    return { transaction, bankAccount: account };
+  }
+
+  async enqueue(transactionId: number, delay?: number) {
+    return messageQueue.add(JobTypes.PROCESS_PAYOUT, { transactionId }, {
+      uniqueKey: `${JobTypes.PROCESS_PAYOUT}:${transactionId}`,
+      delay,
+    });
+  }
+
+  async process(transactionId: number) {
+    const [payout] = await db.select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.id, transactionId),
+        inArray(transactions.type, ['WITHDRAWAL', 'PAYOUT_REQUEST']),
+        inArray(transactions.status, ['PENDING', 'PROCESSING']),
+      ))
+      .limit(1);
+    if (!payout) {
+      return { transactionId, status: 'SKIPPED' };
+    }
+
+    // Only a saved account of the wallet's owner is paid, whatever else the metadata says
+    const details = (payout.metadata || {}) as PayoutDetails;
+    const account = details.bankAccountId ? await this.findBankAccount(payout.userId, details.bankAccountId) : null;
+    if (!account) {
+      return this.fail(payout, 'No verified bank account to pay out to');
+    }
+
+    let transfer: TransferResult;
+    try {
+      // The transaction reference doubles as the gateway's idempotency key, so a retried job
+      // cannot pay the same withdrawal twice
+      transfer = details.transferId
+        ? await paymentGateway.getProvider(details.provider).getTransfer(details.transferId, payout.transactionRef!)
+        : await paymentGateway.getProvider(details.provider).transfer({
+          reference: payout.transactionRef!,
+          amount: parseFloat(payout.amount),
+          currency: payout.currency || 'NGN',
+          accountNumber: account.accountNumber,
+          bankCode: account.bankCode,
+          accountName: account.accountName,
+          narration: payout.description || 'Brillprime payout',
+        });
+    } catch (error) {
+      // Unreachable gateways are retried by the queue; a rejected transfer will not succeed later
+      if (error instanceof PaymentProviderError && !error.retryable) {
+        return this.fail(payout, error.message);
+      }
+      throw error;
+    }
+
+    const transferDetails = { provider: transfer.provider, transferId: transfer.transferId };
+    if (transfer.status === 'SUCCESSFUL') {
+      await ledgerService.completePayout(payout.id, transferDetails);
+      await this.notify(payout, 'Payout Completed', `Your payout of ₦${payout.amount} has been sent to your bank account.`);
+      return { transactionId, status: 'COMPLETED' };
+    }
+    if (transfer.status === 'FAILED') {
+      return this.fail(payout, 'Transfer failed', transferDetails);
+    }
+
+    await db.update(transactions)
+      .set({ status: 'PROCESSING', metadata: { ...details, ...transferDetails }, updatedAt: new Date() })
+      .where(and(eq(transactions.id, payout.id), inArray(transactions.status, ['PENDING', 'PROCESSING'])));
+    // This job still holds the unique key, so the follow-up check is queued without one
+    await messageQueue.add(JobTypes.PROCESS_PAYOUT, { transactionId }, { delay: TRANSFER_CHECK_DELAY_MS });
+    return { transactionId, status: 'PROCESSING' };
+  }
+
+  private async findBankAccount(userId: number, id: string) {
+    const [account] = await db.select()
+      .from(bankAccounts)
+      .where(and(eq(bankAccounts.id, id), eq(bankAccounts.userId, userId)))
+      .limit(1);
+    return account ?? null;
+  }
+
+  private async fail(payout: typeof transactions.$inferSelect, reason: string, transfer?: Record<string, any>) {
+    const reversed = await ledgerService.reversePayout(payout.id, reason, transfer);
+    if (reversed) {
+      await this.notify(payout, 'Payout Failed', `Your payout of ₦${payout.amount} could not be sent and has been returned to your wallet.`);
+    }
+    return { transactionId: payout.id, status: 'FAILED', reason };
+  }
+
+  private async notify(payout: typeof transactions.$inferSelect, title: string, message: string) {
+    const [user] = await db.select({ role: users.role }).from(users).where(eq(users.id, payout.userId)).limit(1);
+    if (!user || !['CONSUMER', 'MERCHANT', 'DRIVER'].includes(user.role)) {
+      return;
+    }
+    await createNotification({
+      userId: payout.userId,
+      userRole: user.role as DispatchInput['userRole'],
+      title,
+      message,
+      type: 'PAYOUT_CONFIRMATION',
+      relatedId: payout.transactionRef || undefined,
+      actionUrl: '/payment/payout/history',
+    });
+  }
+}
+
+export const payoutService = new PayoutService();
+export { PayoutService, PayoutError };
@@ -0,0 +1,144 @@
+import http2 from 'http2';
+import jwt from 'jsonwebtoken';
+import { APNS_KEY_ID, APNS_TEAM_ID, APNS_PRIVATE_KEY, APNS_BUNDLE_ID, APNS_PRODUCTION } from '../../config/environment';
+import { PushProvider, PushMessage, PushResult, PushProviderError, stringifyData, sendEach } from './types';
+
+const REQUEST_TIMEOUT_MS = 10000;
+// Apple rejects provider tokens older than an hour and throttles refreshes more often than every 20 minutes
+const PROVIDER_TOKEN_TTL_MS = 50 * 60 * 1000;
+
+// APNs reasons meaning the token will never work again
+const INVALID_TOKEN_REASONS = ['BadDeviceToken', 'Unregistered', 'DeviceTokenNotForTopic'];
+
+// Apple Push Notification service over HTTP/2 with token-based (.p8) authentication
+class ApnsProvider implements PushProvider {
+  readonly name = 'apns' as const;
+  private session?: http2.ClientHttp2Session;
+  private providerToken?: { value: string; issuedAt: number };
+
+  isConfigured(): boolean {
+    return !!(APNS_KEY_ID && APNS_TEAM_ID && APNS_PRIVATE_KEY && APNS_BUNDLE_ID);
+  }
+
+  async send(message: PushMessage, tokens: string[]): Promise<PushResult[]> {
+    if (!this.isConfigured()) {
+      throw new PushProviderError(this.name, 'APNs is not configured');
+    }
+    // APNs has no validate-only mode, so a dry run stops here
+    if (message.dryRun) {
+      return tokens.map(token => ({ token, status: 'SENT' }));
+    }
+
+    const payload = JSON.stringify({
+      aps: {
+        alert: { title: message.title, body: message.body },
+        badge: message.badge !== undefined ? Number(message.badge) || undefined : undefined,
+        sound: 'default',
+        'mutable-content': message.image ? 1 : undefined,
+      },
+      ...stringifyData({ ...message.data, image: message.image }),
+    });
+
+    return sendEach(tokens, token => this.sendOne(token, message, payload));
+  }
+
+  private sendOne(token: string, message: PushMessage, payload: string): Promise<PushResult> {
+    return new Promise(resolve => {
+      let request: http2.ClientHttp2Stream;
+      try {
+        request = this.getSession().request({
+          ':method': 'POST',
+          ':path': `/3/device/${token}`,
+          authorization: `bearer ${this.getProviderToken()}`,
+          'apns-topic': APNS_BUNDLE_ID!,
+          'apns-push-type': 'alert',
+          'apns-priority': message.priority === 'high' ? '10' : '5',
+          'apns-expiration': String(Math.floor(Date.now() / 1000) + message.ttl),
+          ...(message.collapseKey ? { 'apns-collapse-id': message.collapseKey } : {}),
+          'content-type': 'application/json',
+        });
+      } catch (error: any) {
+        resolve({ token, status: 'FAILED', error: error?.message || 'Connection failed', retryable: true });
+        return;
+      }
+
+      let status = 0;
+      let apnsId: string | undefined;
+      let body = '';
+
+      request.setEncoding('utf8');
+      request.setTimeout(REQUEST_TIMEOUT_MS, () => request.close(http2.constants.NGHTTP2_CANCEL));
+      request.on('response', headers => {
+        status = Number(headers[':status']);
+        apnsId = headers['apns-id'] as string | undefined;
+      });
+      request.on('data', chunk => { body += chunk; });
+      request.on('error', error => resolve({ token, status: 'FAILED', error: error.message, retryable: true }));
+      request.on('close', () => {
+        if (status === 200) {
+          resolve({ token, status: 'SENT', messageId: apnsId });
+          return;
+        }
+        if (status === 0) {
+          resolve({ token, status: 'FAILED', error: 'Request timed out', retryable: true });
+          return;
+        }
+
+        let reason = 'Unknown';
+        try {
+          reason = JSON.parse(body).reason || reason;
+        } catch {
+          // APNs always sends a JSON reason; keep the default if it did not
+        }
+
+        if (status === 410 || INVALID_TOKEN_REASONS.includes(reason)) {
+          resolve({ token, status: 'INVALID', error: `${status}: ${reason}` });
+          return;
+        }
+        if (reason === 'ExpiredProviderToken' || reason === 'InvalidProviderToken') {
+          this.providerToken = undefined;
+        }
+        resolve({
+          token,
+          status: 'FAILED',
+          error: `${status}: ${reason}`,
+          retryable: status === 429 || status >= 500 || reason === 'ExpiredProviderToken',
+        });
+      });
+      request.end(payload);
+    });
+  }
+
+  // One long-lived HTTP/2 connection, reopened after Apple closes it
+  private getSession(): http2.ClientHttp2Session {
+    if (this.session && !this.session.closed && !this.session.destroyed) {
+      return this.session;
+    }
+
+    const session = http2.connect(APNS_PRODUCTION ? 'https://api.push.apple.com' : 'https://api.sandbox.push.apple.com');
+    session.on('error', error => console.error('APNs connection error:', error.message));
+    session.on('goaway', () => session.close());
+    session.on('close', () => {
+      if (this.session === session) {
+        this.session = undefined;
+      }
+    });
+    // Do not keep the process alive just for an idle push connection
+    session.unref();
+    this.session = session;
+    return session;
+  }
+
+  private getProviderToken(): string {
+    if (this.providerToken && Date.now() - this.providerToken.issuedAt < PROVIDER_TOKEN_TTL_MS) {
+      return this.providerToken.value;
+    }
+
+    const value = jwt.sign({ iss: APNS_TEAM_ID }, APNS_PRIVATE_KEY!, { algorithm: 'ES256', keyid: APNS_KEY_ID });
+    this.providerToken = { value, issuedAt: Date.now() };
+    return value;
+  }
+}
+
+export const apnsProvider = new ApnsProvider();
+export { ApnsProvider };
@@ -0,0 +1,48 @@
+import { PushProvider, PushMessage, PushResult } from './types';
+
+interface SentPush {
+  token: string;
+  message: PushMessage;
+  sentAt: Date;
+}
+
+// Offline push service for development and tests. Nothing leaves the process; sends are kept in
+// memory. Tokens starting with "invalid" (or marked invalid) are rejected as unregistered.
+class FakePushProvider implements PushProvider {
+  readonly name = 'fake' as const;
+  private sent: SentPush[] = [];
+  private invalidTokens = new Set<string>();
+  private sequence = 0;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(message: PushMessage, tokens: string[]): Promise<PushResult[]> {
+    return tokens.map(token => {
+      if (token.startsWith('invalid') || this.invalidTokens.has(token)) {
+        return { token, status: 'INVALID', error: 'Unregistered token' };
+      }
+      if (!message.dryRun) {
+        this.sent.push({ token, message, sentAt: new Date() });
+      }
+      return { token, status: 'SENT', messageId: `fake-${++this.sequence}` };
+    });
+  }
+
+  markInvalid(token: string): void {
+    this.invalidTokens.add(token);
+  }
+
+  getSent(token?: string): SentPush[] {
+    return token ? this.sent.filter(push => push.token === token) : [...this.sent];
+  }
+
+  reset(): void {
+    this.sent = [];
+    this.invalidTokens.clear();
+  }
+}
+
+export const fakePushProvider = new FakePushProvider();
+export { FakePushProvider, SentPush };
@@ -0,0 +1,127 @@
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import { FCM_PROJECT_ID, FCM_CLIENT_EMAIL, FCM_PRIVATE_KEY } from '../../config/environment';
+import { PushProvider, PushMessage, PushResult, PushProviderError, stringifyData, sendEach } from './types';
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const MESSAGING_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+const REQUEST_TIMEOUT_MS = 10000;
+
+// FCM error codes meaning the token will never work again
+const INVALID_TOKEN_CODES = ['UNREGISTERED', 'SENDER_ID_MISMATCH'];
+const RETRYABLE_CODES = ['UNAVAILABLE', 'INTERNAL', 'QUOTA_EXCEEDED'];
+
+// Firebase Cloud Messaging HTTP v1, authorised with a service account. One request per token.
+class FcmProvider implements PushProvider {
+  readonly name = 'fcm' as const;
+  private accessToken?: { value: string; expiresAt: number };
+
+  isConfigured(): boolean {
+    return !!(FCM_PROJECT_ID && FCM_CLIENT_EMAIL && FCM_PRIVATE_KEY);
+  }
+
+  async send(message: PushMessage, tokens: string[]): Promise<PushResult[]> {
+    const accessToken = await this.getAccessToken();
+    return sendEach(tokens, token => this.sendOne(accessToken, message, token));
+  }
+
+  private async sendOne(accessToken: string, message: PushMessage, token: string): Promise<PushResult> {
+    try {
+      const response = await axios.post(
+        `https://fcm.googleapis.com/v1/projects/${FCM_PROJECT_ID}/messages:send`,
+        {
+          validate_only: message.dryRun || undefined,
+          message: {
+            token,
+            notification: { title: message.title, body: message.body, image: message.image },
+            data: stringifyData(message.data),
+            android: {
+              priority: message.priority === 'high' ? 'HIGH' : 'NORMAL',
+              ttl: `${message.ttl}s`,
+              collapse_key: message.collapseKey,
+              notification: { icon: message.icon },
+            },
+            apns: {
+              headers: {
+                'apns-priority': message.priority === 'high' ? '10' : '5',
+                ...(message.collapseKey ? { 'apns-collapse-id': message.collapseKey } : {}),
+              },
+              payload: { aps: { badge: message.badge !== undefined ? Number(message.badge) || undefined : undefined } },
+            },
+            webpush: message.icon ? { notification: { icon: message.icon } } : undefined,
+          },
+        },
+        {
+          headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+          timeout: REQUEST_TIMEOUT_MS,
+        },
+      );
+      return { token, status: 'SENT', messageId: response.data.name };
+    } catch (error: any) {
+      return this.toResult(token, error);
+    }
+  }
+
+  private toResult(token: string, error: any): PushResult {
+    const status: number | undefined = error?.response?.status;
+    const detail = error?.response?.data?.error;
+    const errorCode: string | undefined = detail?.details?.find((item: any) => item?.errorCode)?.errorCode || detail?.status;
+    const description = detail?.message || error?.message || 'Unknown error';
+
+    const invalidToken = INVALID_TOKEN_CODES.includes(errorCode || '')
+      || status === 404
+      || (errorCode === 'INVALID_ARGUMENT' && /registration token/i.test(description));
+    if (invalidToken) {
+      return { token, status: 'INVALID', error: `${errorCode || status}: ${description}` };
+    }
+
+    if (status === 401) {
+      // The cached access token was revoked early; fetch a new one on the next attempt
+      this.accessToken = undefined;
+    }
+    const retryable = status === undefined || status === 401 || status === 429 || status >= 500 || RETRYABLE_CODES.includes(errorCode || '');
+    return { token, status: 'FAILED', error: `${errorCode || status || 'NETWORK'}: ${description}`, retryable };
+  }
+
+  // OAuth access token from a self-signed service account assertion, cached until shortly before expiry
+  private async getAccessToken(): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new PushProviderError(this.name, 'FCM is not configured');
+    }
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60 * 1000) {
+      return this.accessToken.value;
+    }
+
+    const assertion = jwt.sign(
+      { iss: FCM_CLIENT_EMAIL, scope: MESSAGING_SCOPE, aud: TOKEN_URL },
+      FCM_PRIVATE_KEY!,
+      { algorithm: 'RS256', expiresIn: 3600 },
+    );
+
+    try {
+      const response = await axios.post(TOKEN_URL, new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion,
+      }).toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+
+      this.accessToken = {
+        value: response.data.access_token,
+        expiresAt: Date.now() + response.data.expires_in * 1000,
+      };
+      return this.accessToken.value;
+    } catch (error: any) {
+      const status: number | undefined = error?.response?.status;
+      throw new PushProviderError(
+        this.name,
+        `Access token request failed: ${error?.response?.data?.error_description || error?.message}`,
+        status === undefined || status >= 500,
+      );
+    }
+  }
+}
+
+export const fcmProvider = new FcmProvider();
+export { FcmProvider };
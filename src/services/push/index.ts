@@ -0,0 +1,61 @@
+import { env, PUSH_PROVIDER } from '../../config/environment';
+import { fcmProvider } from './fcm';
+import { apnsProvider } from './apns';
+import { fakePushProvider } from './fake';
+import { PushProvider, PushProviderName, DevicePlatform } from './types';
+
+const DEFAULT_PROVIDER: Record<DevicePlatform, PushProviderName> = {
+  android: 'fcm',
+  ios: 'apns',
+  web: 'fcm',
+};
+
+class PushGateway {
+  private providers = new Map<PushProviderName, PushProvider>([
+    [fcmProvider.name, fcmProvider],
+    [apnsProvider.name, apnsProvider],
+    [fakePushProvider.name, fakePushProvider],
+  ]);
+  private forceFake = PUSH_PROVIDER === 'fake' || (!PUSH_PROVIDER && env.isTest);
+
+  // The push service that issued a device's token. iOS apps using the Firebase SDK register FCM tokens.
+  providerForPlatform(platform: DevicePlatform, requested?: string): PushProviderName {
+    if (requested && requested !== 'fake' && this.providers.has(requested as PushProviderName)) {
+      return requested as PushProviderName;
+    }
+    return DEFAULT_PROVIDER[platform];
+  }
+
+  // The adapter to send through. Outside production an unconfigured service falls back to the
+  // fake provider so local setups work without credentials.
+  getProvider(name: string): PushProvider {
+    if (this.forceFake) {
+      return fakePushProvider;
+    }
+    const provider = this.providers.get(name as PushProviderName) || fakePushProvider;
+    if (!provider.isConfigured() && !env.isProd) {
+      return fakePushProvider;
+    }
+    return provider;
+  }
+
+  isPlatform(value: string): value is DevicePlatform {
+    return value in DEFAULT_PROVIDER;
+  }
+
+  getStatus() {
+    return {
+      forceFake: this.forceFake,
+      providers: [...this.providers.values()].map(provider => ({
+        name: provider.name,
+        configured: provider.isConfigured(),
+        sendsThrough: this.getProvider(provider.name).name,
+      })),
+    };
+  }
+}
+
+export const pushGateway = new PushGateway();
+export { PushGateway };
+export { fakePushProvider } from './fake';
+export * from './types';
@@ -0,0 +1,64 @@
+export type PushProviderName = 'fcm' | 'apns' | 'fake';
+
+export type DevicePlatform = 'android' | 'ios' | 'web';
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  icon?: string;
+  badge?: string;
+  image?: string;
+  data?: Record<string, any>;
+  priority: 'normal' | 'high';
+  // Seconds the push service keeps trying an offline device
+  ttl: number;
+  collapseKey?: string;
+  dryRun?: boolean;
+}
+
+// INVALID means the push service no longer knows the token, so it should be deleted
+export interface PushResult {
+  token: string;
+  status: 'SENT' | 'INVALID' | 'FAILED';
+  messageId?: string;
+  error?: string;
+  retryable?: boolean;
+}
+
+// Every push service speaks the same shape; a failure for one token never fails the others
+export interface PushProvider {
+  readonly name: PushProviderName;
+  isConfigured(): boolean;
+  send(message: PushMessage, tokens: string[]): Promise<PushResult[]>;
+}
+
+export class PushProviderError extends Error {
+  constructor(
+    public provider: PushProviderName,
+    message: string,
+    // Network failures, throttling and 5xx responses are worth retrying later
+    public retryable = false,
+  ) {
+    super(message);
+    this.name = 'PushProviderError';
+  }
+}
+
+// Push services allow string data values only
+export const stringifyData = (data: Record<string, any> = {}): Record<string, string> =>
+  Object.fromEntries(Object.entries(data)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]));
+
+// Run one request per token with bounded parallelism
+export const sendEach = async (
+  tokens: string[],
+  sendOne: (token: string) => Promise<PushResult>,
+  concurrency = 20,
+): Promise<PushResult[]> => {
+  const results: PushResult[] = [];
+  for (let i = 0; i < tokens.length; i += concurrency) {
+    results.push(...await Promise.all(tokens.slice(i, i + concurrency).map(sendOne)));
+  }
+  return results;
+};
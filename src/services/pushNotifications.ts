@@ -1,5 +1,9 @@
 
-import { messageQueue, JobTypes } from './messageQueue';
+import db from '../config/database';
+import { deviceTokens, deviceTopicSubscriptions } from '../schema';
+import { eq, and, or, desc, inArray, sql } from 'drizzle-orm';
+import { messageQueue, JobTypes, QueueJob } from './messageQueue';
+import { pushGateway, PushMessage, PushResult, PushProviderError, DevicePlatform } from './push';
 
 interface PushNotificationData {
   title: string;
@@ -31,10 +35,26 @@ interface NotificationOptions {
   dryRun?: boolean;
 }
 
-class PushNotificationService {
-  private subscribers: Map<string, Set<string>> = new Map(); // userId -> Set of device tokens
-  private topicSubscribers: Map<string, Set<string>> = new Map(); // topic -> Set of device tokens
+interface DeviceRegistration {
+  token: string;
+  platform: DevicePlatform;
+  provider?: string;
+  appVersion?: string;
+}
+
+interface SendSummary {
+  targeted: number;
+  sent: number;
+  failed: number;
+  pruned: number;
+}
+
+// FCM's maximum; also the default the old simulated sender used
+const DEFAULT_TTL_SECONDS = 2419200;
+// Topic names follow FCM's rules so they can be mirrored there later
+const TOPIC_PATTERN = /^[a-zA-Z0-9-_.~%]{1,100}$/;
 
+class PushNotificationService {
   constructor() {
     // Register message queue handler
     messageQueue.registerHandler(JobTypes.SEND_NOTIFICATION, this.processNotification.bind(this));
@@ -96,150 +116,229 @@ class PushNotificationService {
     return this.send({ deviceTokens }, notification, options);
   }
 
-  // Device token management
-  async registerDevice(userId: string, deviceToken: string): Promise<void> {
-    if (!this.subscribers.has(userId)) {
-      this.subscribers.set(userId, new Set());
-    }
-    this.subscribers.get(userId)!.add(deviceToken);
-  }
+  // Device token management. A token is unique per install; re-registering it updates the
+  // device, and a token handed to a different user drops the previous user's topic subscriptions.
+  async registerDevice(userId: number, registration: DeviceRegistration) {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select({ id: deviceTokens.id, userId: deviceTokens.userId })
+        .from(deviceTokens)
+        .where(eq(deviceTokens.token, registration.token))
+        .for('update');
+
+      const values = {
+        userId,
+        platform: registration.platform,
+        provider: pushGateway.providerForPlatform(registration.platform, registration.provider),
+        appVersion: registration.appVersion ?? null,
+        lastSeenAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      if (!existing) {
+        const [device] = await tx.insert(deviceTokens)
+          .values({ token: registration.token, ...values })
+          .onConflictDoUpdate({ target: deviceTokens.token, set: values })
+          .returning();
+        return device;
+      }
 
-  async unregisterDevice(userId: string, deviceToken: string): Promise<void> {
-    const userTokens = this.subscribers.get(userId);
-    if (userTokens) {
-      userTokens.delete(deviceToken);
-      if (userTokens.size === 0) {
-        this.subscribers.delete(userId);
+      if (existing.userId !== userId) {
+        await tx.delete(deviceTopicSubscriptions).where(eq(deviceTopicSubscriptions.deviceTokenId, existing.id));
       }
-    }
+      const [device] = await tx.update(deviceTokens)
+        .set(values)
+        .where(eq(deviceTokens.id, existing.id))
+        .returning();
+      return device;
+    });
   }
 
-  // Topic subscription management
-  async subscribeToTopic(deviceToken: string, topic: string): Promise<void> {
-    if (!this.topicSubscribers.has(topic)) {
-      this.topicSubscribers.set(topic, new Set());
-    }
-    this.topicSubscribers.get(topic)!.add(deviceToken);
+  async unregisterDevice(userId: number, deviceId: string): Promise<boolean> {
+    const removed = await db.delete(deviceTokens)
+      .where(and(eq(deviceTokens.id, deviceId), eq(deviceTokens.userId, userId)))
+      .returning({ id: deviceTokens.id });
+    return removed.length > 0;
   }
 
-  async unsubscribeFromTopic(deviceToken: string, topic: string): Promise<void> {
-    const topicTokens = this.topicSubscribers.get(topic);
-    if (topicTokens) {
-      topicTokens.delete(deviceToken);
-      if (topicTokens.size === 0) {
-        this.topicSubscribers.delete(topic);
-      }
+  async listDevices(userId: number) {
+    const devices = await db.select()
+      .from(deviceTokens)
+      .where(eq(deviceTokens.userId, userId))
+      .orderBy(desc(deviceTokens.lastSeenAt));
+    if (devices.length === 0) {
+      return [];
     }
+
+    const subscriptions = await db.select({ deviceTokenId: deviceTopicSubscriptions.deviceTokenId, topic: deviceTopicSubscriptions.topic })
+      .from(deviceTopicSubscriptions)
+      .where(inArray(deviceTopicSubscriptions.deviceTokenId, devices.map(device => device.id)));
+
+    return devices.map(device => ({
+      ...device,
+      topics: subscriptions.filter(sub => sub.deviceTokenId === device.id).map(sub => sub.topic),
+    }));
   }
 
-  private async processNotification(job: any): Promise<void> {
-    const { target, notification, options } = job.data;
+  isValidTopic(topic: string): boolean {
+    return TOPIC_PATTERN.test(topic);
+  }
 
-    try {
-      const deviceTokens = await this.resolveDeviceTokens(target);
-      
-      if (deviceTokens.length === 0) {
-        console.warn('No device tokens found for notification target');
-        return;
-      }
+  // Topic subscription management; returns false when the device is not the user's
+  async subscribeToTopic(userId: number, deviceId: string, topic: string): Promise<boolean> {
+    const device = await this.findOwnDevice(userId, deviceId);
+    if (!device) {
+      return false;
+    }
+    await db.insert(deviceTopicSubscriptions)
+      .values({ deviceTokenId: device.id, topic })
+      .onConflictDoNothing();
+    return true;
+  }
 
-      // In a real implementation, you would integrate with FCM, APNs, etc.
-      // For now, we'll simulate sending notifications
-      await this.simulateSendNotification(deviceTokens, notification, options);
-
-      console.log(`Notification sent to ${deviceTokens.length} devices:`, {
-        title: notification.title,
-        body: notification.body
-      });
-    } catch (error) {
-      console.error('Failed to send push notification:', error);
-      throw error;
+  async unsubscribeFromTopic(userId: number, deviceId: string, topic: string): Promise<boolean> {
+    const device = await this.findOwnDevice(userId, deviceId);
+    if (!device) {
+      return false;
     }
+    await db.delete(deviceTopicSubscriptions)
+      .where(and(eq(deviceTopicSubscriptions.deviceTokenId, device.id), eq(deviceTopicSubscriptions.topic, topic)));
+    return true;
+  }
+
+  private async findOwnDevice(userId: number, deviceId: string) {
+    const [device] = await db.select({ id: deviceTokens.id })
+      .from(deviceTokens)
+      .where(and(eq(deviceTokens.id, deviceId), eq(deviceTokens.userId, userId)));
+    return device ?? null;
   }
 
-  private async resolveDeviceTokens(target: NotificationTarget): Promise<string[]> {
-    const tokens: Set<string> = new Set();
+  private async processNotification(job: QueueJob): Promise<SendSummary> {
+    const { target, notification, options = {} } = job.data as {
+      target: NotificationTarget;
+      notification: PushNotificationData;
+      options?: NotificationOptions;
+    };
+    return this.deliver(target, notification, options);
+  }
 
-    if (target.deviceToken) {
-      tokens.add(target.deviceToken);
+  // Send to every device of the target now, through the push service that issued its token. Tokens
+  // the service reports as unregistered are deleted. Throws only when nothing was delivered and a
+  // failure was temporary, so a retry never sends the message twice to a device that already got it.
+  async deliver(
+    target: NotificationTarget,
+    notification: PushNotificationData,
+    options: NotificationOptions = {}
+  ): Promise<SendSummary> {
+    const devices = await this.resolveDevices(target);
+    const summary: SendSummary = { targeted: devices.length, sent: 0, failed: 0, pruned: 0 };
+    if (devices.length === 0) {
+      return summary;
     }
 
-    if (target.deviceTokens) {
-      target.deviceTokens.forEach(token => tokens.add(token));
+    const message: PushMessage = {
+      ...notification,
+      priority: options.priority || 'normal',
+      ttl: options.ttl || DEFAULT_TTL_SECONDS,
+      collapseKey: options.collapseKey,
+      dryRun: options.dryRun,
+    };
+
+    const byProvider = new Map<string, string[]>();
+    for (const device of devices) {
+      const name = pushGateway.getProvider(device.provider).name;
+      byProvider.set(name, [...(byProvider.get(name) || []), device.token]);
     }
 
-    if (target.userId) {
-      const userTokens = this.subscribers.get(target.userId);
-      if (userTokens) {
-        userTokens.forEach(token => tokens.add(token));
+    const invalid: string[] = [];
+    let retryableError: string | undefined;
+    for (const [name, tokens] of byProvider) {
+      let results: PushResult[];
+      try {
+        results = await pushGateway.getProvider(name).send(message, tokens);
+      } catch (error) {
+        const retryable = error instanceof PushProviderError && error.retryable;
+        results = tokens.map(token => ({ token, status: 'FAILED', error: error instanceof Error ? error.message : String(error), retryable }));
       }
-    }
 
-    if (target.userIds) {
-      for (const userId of target.userIds) {
-        const userTokens = this.subscribers.get(userId);
-        if (userTokens) {
-          userTokens.forEach(token => tokens.add(token));
+      for (const result of results) {
+        if (result.status === 'SENT') {
+          summary.sent++;
+        } else if (result.status === 'INVALID') {
+          invalid.push(result.token);
+        } else {
+          summary.failed++;
+          if (result.retryable) {
+            retryableError = `${name}: ${result.error}`;
+          }
         }
       }
     }
 
-    if (target.topic) {
-      const topicTokens = this.topicSubscribers.get(target.topic);
-      if (topicTokens) {
-        topicTokens.forEach(token => tokens.add(token));
-      }
+    if (invalid.length > 0) {
+      const pruned = await db.delete(deviceTokens)
+        .where(inArray(deviceTokens.token, invalid))
+        .returning({ id: deviceTokens.id });
+      summary.pruned = pruned.length;
     }
 
-    return Array.from(tokens);
+    if (summary.sent === 0 && retryableError) {
+      throw new Error(`Push delivery failed: ${retryableError}`);
+    }
+    if (summary.failed > 0) {
+      console.error(`Push notification "${notification.title}": ${summary.failed} of ${summary.targeted} devices failed`);
+    }
+    return summary;
   }
 
-  private async simulateSendNotification(
-    deviceTokens: string[],
-    notification: PushNotificationData,
-    options: NotificationOptions
-  ): Promise<void> {
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 100));
-
-    // In a real implementation, you would:
-    // 1. Use FCM SDK for Android notifications
-    // 2. Use APNs for iOS notifications
-    // 3. Use Web Push for browser notifications
-    // 4. Handle errors and retry logic
-    // 5. Track delivery status
-
-    const payload = {
-      notification: {
-        title: notification.title,
-        body: notification.body,
-        icon: notification.icon,
-        badge: notification.badge,
-        image: notification.image
-      },
-      data: notification.data || {},
-      options: {
-        priority: options.priority || 'normal',
-        timeToLive: options.ttl || 2419200, // 4 weeks default
-        collapseKey: options.collapseKey
-      }
-    };
+  private async resolveDevices(target: NotificationTarget): Promise<Array<{ token: string; provider: string }>> {
+    const conditions = [];
+
+    const tokens = [target.deviceToken, ...(target.deviceTokens || [])].filter((token): token is string => !!token);
+    if (tokens.length > 0) {
+      conditions.push(inArray(deviceTokens.token, tokens));
+    }
 
-    // Log for debugging (remove in production)
-    console.log('Push notification payload:', payload);
-    console.log('Target device tokens:', deviceTokens.length);
+    const userIds = [target.userId, ...(target.userIds || [])]
+      .filter((userId): userId is string => !!userId)
+      .map(Number)
+      .filter(userId => Number.isInteger(userId));
+    if (userIds.length > 0) {
+      conditions.push(inArray(deviceTokens.userId, userIds));
+    }
+
+    if (target.topic) {
+      conditions.push(inArray(
+        deviceTokens.id,
+        db.select({ id: deviceTopicSubscriptions.deviceTokenId })
+          .from(deviceTopicSubscriptions)
+          .where(eq(deviceTopicSubscriptions.topic, target.topic)),
+      ));
+    }
+
+    if (conditions.length === 0) {
+      return [];
+    }
+
+    return db.selectDistinct({ token: deviceTokens.token, provider: deviceTokens.provider })
+      .from(deviceTokens)
+      .where(or(...conditions));
   }
 
   // Analytics and monitoring
-  getStats() {
-    return {
-      totalSubscribers: this.subscribers.size,
-      totalDeviceTokens: Array.from(this.subscribers.values())
-        .reduce((total, tokens) => total + tokens.size, 0),
-      totalTopics: this.topicSubscribers.size,
-      topicSubscriptions: Array.from(this.topicSubscribers.values())
-        .reduce((total, tokens) => total + tokens.size, 0)
-    };
+  async getStats() {
+    const [devices] = await db.select({
+      totalDeviceTokens: sql<number>`count(*)::int`,
+      totalSubscribers: sql<number>`count(distinct ${deviceTokens.userId})::int`,
+    }).from(deviceTokens);
+    const [topics] = await db.select({
+      totalTopics: sql<number>`count(distinct ${deviceTopicSubscriptions.topic})::int`,
+      topicSubscriptions: sql<number>`count(*)::int`,
+    }).from(deviceTopicSubscriptions);
+    const byPlatform = await db.select({ platform: deviceTokens.platform, count: sql<number>`count(*)::int` })
+      .from(deviceTokens)
+      .groupBy(deviceTokens.platform);
+
+    return { ...devices, ...topics, byPlatform, gateway: pushGateway.getStatus() };
   }
 }
 
@@ -282,4 +381,4 @@ export const NotificationTemplates = {
 };
 
 export const pushNotificationService = new PushNotificationService();
-export { PushNotificationService, PushNotificationData, NotificationTarget, NotificationOptions };
+export { PushNotificationService, PushNotificationData, NotificationTarget, NotificationOptions, DeviceRegistration, SendSummary };
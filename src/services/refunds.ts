@@ -0,0 +1,91 @@
+import db from '../config/database';
+import { transactions, orders } from '../schema';
+import { eq, and } from 'drizzle-orm';
+import { ledgerService } from './ledger';
+import { paymentGateway, PaymentProviderError, RefundResult } from './payments';
+import { messageQueue, JobTypes } from './messageQueue';
+
+interface RefundDetails {
+  orderId?: string;
+  reason?: string;
+}
+
+// Sends order refunds back through the gateway that took the payment. The refund is already
+// posted to the ledger and committed with the order's status change; this job reverses the
+// charge afterwards so a slow or failing gateway never holds the order's transaction open.
+class RefundService {
+  constructor() {
+    messageQueue.registerHandler(JobTypes.PROCESS_REFUND, async (job) => this.process((job.data as { transactionId: number }).transactionId));
+  }
+
+  async enqueue(transactionId: number) {
+    return messageQueue.add(JobTypes.PROCESS_REFUND, { transactionId }, {
+      uniqueKey: `${JobTypes.PROCESS_REFUND}:${transactionId}`,
+    });
+  }
+
+  async process(transactionId: number) {
+    const [refund] = await db.select()
+      .from(transactions)
+      .where(and(eq(transactions.id, transactionId), eq(transactions.type, 'REFUND'), eq(transactions.status, 'PENDING')))
+      .limit(1);
+    if (!refund) {
+      return { transactionId, status: 'SKIPPED' };
+    }
+
+    const details = (refund.metadata || {}) as RefundDetails;
+    const payment = details.orderId ? await ledgerService.findOrderPayment(details.orderId) : null;
+
+    let gatewayRefund: RefundResult | null;
+    try {
+      gatewayRefund = await paymentGateway.refundCharge(payment?.metadata, parseFloat(refund.amount), details.reason || 'Order refunded');
+    } catch (error) {
+      // Unreachable gateways are retried by the queue; a rejected refund will not succeed later
+      if (error instanceof PaymentProviderError && !error.retryable) {
+        return this.close(refund, 'FAILED', { failureReason: error.message });
+      }
+      throw error;
+    }
+
+    // Payments taken outside a gateway have nothing to reverse
+    if (!gatewayRefund) {
+      return this.close(refund, 'COMPLETED', {});
+    }
+    return this.close(refund, gatewayRefund.status, { provider: gatewayRefund.provider, refundId: gatewayRefund.refundId });
+  }
+
+  private async close(refund: typeof transactions.$inferSelect, status: RefundResult['status'], gatewayRefund: Record<string, any>) {
+    const failed = status === 'FAILED';
+    const closed = await db.transaction(async (tx) => {
+      const [updated] = await tx.update(transactions)
+        .set({
+          status: failed ? 'FAILED' : 'COMPLETED',
+          metadata: { ...(refund.metadata as Record<string, any> | null), gatewayRefund: { ...gatewayRefund, status } },
+          completedAt: failed ? undefined : new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(transactions.id, refund.id), eq(transactions.status, 'PENDING')))
+        .returning();
+      if (!updated) {
+        return null;
+      }
+
+      const { orderId } = (refund.metadata || {}) as RefundDetails;
+      if (orderId) {
+        await tx.update(orders)
+          .set({ refundStatus: status, updatedAt: new Date() })
+          .where(eq(orders.id, orderId));
+      }
+      return updated;
+    });
+
+    if (closed && failed) {
+      // The ledger already shows the money leaving escrow; finance settles a rejected refund by hand
+      console.error(`Gateway rejected refund ${refund.transactionRef}:`, gatewayRefund.failureReason);
+    }
+    return { transactionId: refund.id, status: closed ? status : 'SKIPPED' };
+  }
+}
+
+export const refundService = new RefundService();
+export { RefundService };
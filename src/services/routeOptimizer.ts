@@ -0,0 +1,375 @@
+import { ROUTE_ROAD_FACTOR } from '../config/environment';
+import { geocodingService, distanceKm, Coordinates } from './geocoding';
+
+type StopType = 'PICKUP' | 'DROPOFF';
+// HAVERSINE is straight-line distance; ROAD scales it by ROUTE_ROAD_FACTOR to approximate streets
+type DistanceModel = 'HAVERSINE' | 'ROAD';
+type UnassignedReason = 'CAPACITY' | 'TIME_WINDOW';
+
+interface StopInput {
+  location: Coordinates;
+  address?: string | null;
+  // Arriving before earliest means waiting; arriving after latest is not allowed
+  earliest?: Date | null;
+  latest?: Date | null;
+  serviceMinutes?: number;
+}
+
+// One order to carry. Without a pickup the package is already on board and only needs dropping off.
+interface RouteJob {
+  id: string;
+  pickup?: StopInput | null;
+  dropoff: StopInput;
+  load?: number;
+}
+
+interface RouteProblem {
+  start: Coordinates;
+  startAt?: Date;
+  // Where the route must finish, e.g. back at the start; by default it ends at the last stop
+  end?: Coordinates | null;
+  capacity?: number;
+  distanceModel?: DistanceModel;
+  jobs: RouteJob[];
+}
+
+interface PlannedStop {
+  sequence: number;
+  jobId: string;
+  type: StopType;
+  location: Coordinates;
+  address: string | null;
+  legDistanceKm: number;
+  arrivalAt: Date;
+  waitMinutes: number;
+  departureAt: Date;
+  // Load on board after the stop
+  load: number;
+  latest: Date | null;
+}
+
+interface RoutePlan {
+  stops: PlannedStop[];
+  totalDistanceKm: number;
+  totalDurationMinutes: number;
+  startAt: Date;
+  finishAt: Date;
+  capacity: number;
+  distanceModel: DistanceModel;
+  // Jobs that fit no position in the route, with what ruled them out
+  unassigned: { jobId: string; reason: UnassignedReason }[];
+}
+
+class RouteOptimizerError extends Error {
+  constructor(public code: 'INVALID_PROBLEM', message: string) {
+    super(message);
+    this.name = 'RouteOptimizerError';
+  }
+}
+
+interface RouteNode {
+  job: number;
+  type: StopType;
+  stop: StopInput;
+}
+
+interface Evaluation {
+  distance: number;
+  finish: number;
+  overCapacity: boolean;
+  late: boolean;
+}
+
+const DEFAULT_SERVICE_MINUTES = 5;
+// Insertion is cubic in the number of stops; beyond this split the work across drivers
+const MAX_JOBS = 25;
+const MAX_IMPROVEMENT_PASSES = 5;
+const EPSILON = 1e-9;
+
+// Capacity is counted in load units: a small parcel is one unit
+const PACKAGE_LOADS: Record<string, number> = {
+  SMALL: 1,
+  MEDIUM: 2,
+  LARGE: 4,
+  EXTRA_LARGE: 8,
+};
+const VEHICLE_CAPACITIES: Record<string, number> = {
+  BICYCLE: 2,
+  MOTORCYCLE: 4,
+  CAR: 10,
+  VAN: 30,
+  TRUCK: 80,
+};
+const DEFAULT_CAPACITY = VEHICLE_CAPACITIES.MOTORCYCLE;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const parseDate = (value: unknown, field: string): Date | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw new RouteOptimizerError('INVALID_PROBLEM', `${field} must be a valid date`);
+  }
+  return date;
+};
+
+// Plans one driver's route over pickups and drop-offs. Every pickup comes before its drop-off, no
+// stop is reached after its latest time, and the load never exceeds the vehicle's capacity. Jobs
+// are placed by cheapest feasible insertion, tightest deadlines first, then each job is removed
+// and re-inserted while that shortens the route. Runs entirely offline on a distance matrix.
+class RouteOptimizerService {
+  parseStop(raw: any, field: string): StopInput {
+    const source = raw?.location || raw;
+    const latitude = Number(source?.latitude);
+    const longitude = Number(source?.longitude);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)
+      || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new RouteOptimizerError('INVALID_PROBLEM', `${field} needs a valid latitude and longitude`);
+    }
+
+    const serviceMinutes = raw.serviceMinutes === undefined ? undefined : Number(raw.serviceMinutes);
+    if (serviceMinutes !== undefined && (!Number.isFinite(serviceMinutes) || serviceMinutes < 0)) {
+      throw new RouteOptimizerError('INVALID_PROBLEM', `${field}.serviceMinutes must be zero or more`);
+    }
+
+    const earliest = parseDate(raw.earliest, `${field}.earliest`);
+    const latest = parseDate(raw.latest, `${field}.latest`);
+    if (earliest && latest && earliest > latest) {
+      throw new RouteOptimizerError('INVALID_PROBLEM', `${field}.earliest is after ${field}.latest`);
+    }
+
+    return { location: { latitude, longitude }, address: raw.address ?? null, earliest, latest, serviceMinutes };
+  }
+
+  parseJob(raw: any, index: number): RouteJob {
+    if (!raw || typeof raw !== 'object' || !raw.dropoff) {
+      throw new RouteOptimizerError('INVALID_PROBLEM', `jobs[${index}] needs a dropoff`);
+    }
+    const load = raw.load === undefined ? this.loadFor(raw.packageSize) : Number(raw.load);
+    if (!Number.isFinite(load) || load <= 0) {
+      throw new RouteOptimizerError('INVALID_PROBLEM', `jobs[${index}].load must be a positive number`);
+    }
+
+    return {
+      id: String(raw.id ?? index + 1),
+      pickup: raw.pickup ? this.parseStop(raw.pickup, `jobs[${index}].pickup`) : null,
+      dropoff: this.parseStop(raw.dropoff, `jobs[${index}].dropoff`),
+      load,
+    };
+  }
+
+  loadFor(packageSize?: string | null): number {
+    return PACKAGE_LOADS[String(packageSize || '').toUpperCase()] ?? PACKAGE_LOADS.SMALL;
+  }
+
+  capacityFor(vehicleType?: string | null): number {
+    return VEHICLE_CAPACITIES[String(vehicleType || '').toUpperCase()] ?? DEFAULT_CAPACITY;
+  }
+
+  optimize(problem: RouteProblem): RoutePlan {
+    const jobs = problem.jobs;
+    if (jobs.length > MAX_JOBS) {
+      throw new RouteOptimizerError('INVALID_PROBLEM', `At most ${MAX_JOBS} jobs can be routed at once`);
+    }
+    if (new Set(jobs.map(job => job.id)).size !== jobs.length) {
+      throw new RouteOptimizerError('INVALID_PROBLEM', 'Job ids must be unique');
+    }
+
+    const startAt = problem.startAt || new Date();
+    const capacity = problem.capacity ?? DEFAULT_CAPACITY;
+    const distanceModel = problem.distanceModel || 'ROAD';
+
+    // Node 2j is job j's pickup and 2j + 1 its drop-off; matrix row 0 is the start and the last row the end
+    const nodes: RouteNode[] = [];
+    jobs.forEach((job, index) => {
+      nodes.push({ job: index, type: 'PICKUP', stop: job.pickup || job.dropoff });
+      nodes.push({ job: index, type: 'DROPOFF', stop: job.dropoff });
+    });
+    const points = [problem.start, ...nodes.map(node => node.stop.location)];
+    if (problem.end) points.push(problem.end);
+    const factor = distanceModel === 'ROAD' ? ROUTE_ROAD_FACTOR : 1;
+    const matrix = points.map(from => points.map(to => distanceKm(from, to) * factor));
+    const endRow = problem.end ? points.length - 1 : null;
+
+    const loadOf = (job: number) => jobs[job].load ?? 1;
+    const onBoard = (job: number) => !jobs[job].pickup;
+
+    const evaluate = (route: number[]): Evaluation => {
+      let load = route.reduce((sum, id) => nodes[id].type === 'DROPOFF' && onBoard(nodes[id].job) ? sum + loadOf(nodes[id].job) : sum, 0);
+      let overCapacity = load > capacity;
+      let late = false;
+      let distance = 0;
+      let time = startAt.getTime();
+      let previous = 0;
+
+      for (const id of route) {
+        const node = nodes[id];
+        const leg = matrix[previous][id + 1];
+        distance += leg;
+        time += geocodingService.estimateDurationMinutes(leg) * 60 * 1000;
+        if (node.stop.earliest && time < node.stop.earliest.getTime()) {
+          time = node.stop.earliest.getTime();
+        }
+        if (node.stop.latest && time > node.stop.latest.getTime()) {
+          late = true;
+        }
+        load += node.type === 'PICKUP' ? loadOf(node.job) : -loadOf(node.job);
+        overCapacity = overCapacity || load > capacity;
+        time += (node.stop.serviceMinutes ?? DEFAULT_SERVICE_MINUTES) * 60 * 1000;
+        previous = id + 1;
+      }
+      if (endRow !== null) {
+        distance += matrix[previous][endRow];
+        time += geocodingService.estimateDurationMinutes(matrix[previous][endRow]) * 60 * 1000;
+      }
+      return { distance, finish: time, overCapacity, late };
+    };
+
+    // The cheapest position for a job's stops, pickup always ahead of drop-off
+    const bestInsertion = (route: number[], job: number, ignoreCapacity = false) => {
+      let best: { route: number[]; evaluation: Evaluation } | null = null;
+      const consider = (candidate: number[]) => {
+        const evaluation = evaluate(candidate);
+        if (evaluation.late || (evaluation.overCapacity && !ignoreCapacity)) return;
+        if (!best || evaluation.distance < best.evaluation.distance - EPSILON
+          || (Math.abs(evaluation.distance - best.evaluation.distance) <= EPSILON && evaluation.finish < best.evaluation.finish)) {
+          best = { route: candidate, evaluation };
+        }
+      };
+
+      const dropoff = job * 2 + 1;
+      if (onBoard(job)) {
+        for (let k = 0; k <= route.length; k++) {
+          consider([...route.slice(0, k), dropoff, ...route.slice(k)]);
+        }
+      } else {
+        for (let i = 0; i <= route.length; i++) {
+          const withPickup = [...route.slice(0, i), job * 2, ...route.slice(i)];
+          for (let k = i + 1; k <= withPickup.length; k++) {
+            consider([...withPickup.slice(0, k), dropoff, ...withPickup.slice(k)]);
+          }
+        }
+      }
+      return best as { route: number[]; evaluation: Evaluation } | null;
+    };
+
+    // Packages already on board first, then the tightest deadlines, then the furthest away
+    const deadline = (job: number) => jobs[job].dropoff.latest?.getTime() ?? Infinity;
+    const reach = (job: number) => matrix[0][job * 2 + 1];
+    const order = jobs.map((_, index) => index).sort((a, b) =>
+      Number(onBoard(b)) - Number(onBoard(a)) || deadline(a) - deadline(b) || reach(b) - reach(a));
+
+    let route: number[] = [];
+    let unplaced: number[] = [];
+    for (const job of order) {
+      const best = bestInsertion(route, job);
+      if (best) {
+        route = best.route;
+      } else {
+        unplaced.push(job);
+      }
+    }
+
+    for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+      let improved = false;
+      for (const job of order.filter(index => !unplaced.includes(index))) {
+        const current = evaluate(route).distance;
+        const best = bestInsertion(route.filter(id => nodes[id].job !== job), job);
+        if (best && best.evaluation.distance < current - EPSILON) {
+          route = best.route;
+          improved = true;
+        }
+      }
+      // A shorter route may leave time for a job that did not fit before
+      unplaced = unplaced.filter(job => {
+        const best = bestInsertion(route, job);
+        if (best) {
+          route = best.route;
+          improved = true;
+        }
+        return !best;
+      });
+      if (!improved) break;
+    }
+
+    return {
+      ...this.describe(route, nodes, jobs, matrix, endRow, startAt),
+      startAt,
+      capacity,
+      distanceModel,
+      unassigned: unplaced.map(job => ({
+        jobId: jobs[job].id,
+        reason: loadOf(job) > capacity || bestInsertion(route, job, true) ? 'CAPACITY' as const : 'TIME_WINDOW' as const,
+      })),
+    };
+  }
+
+  // Walk the final route to time each stop
+  private describe(
+    route: number[],
+    nodes: RouteNode[],
+    jobs: RouteJob[],
+    matrix: number[][],
+    endRow: number | null,
+    startAt: Date,
+  ) {
+    let load = route.reduce((sum, id) => nodes[id].type === 'DROPOFF' && !jobs[nodes[id].job].pickup ? sum + (jobs[nodes[id].job].load ?? 1) : sum, 0);
+    let time = startAt.getTime();
+    let distance = 0;
+    let previous = 0;
+
+    const stops: PlannedStop[] = route.map((id, index) => {
+      const node = nodes[id];
+      const leg = matrix[previous][id + 1];
+      distance += leg;
+      time += geocodingService.estimateDurationMinutes(leg) * 60 * 1000;
+      const arrivalAt = new Date(time);
+      if (node.stop.earliest && time < node.stop.earliest.getTime()) {
+        time = node.stop.earliest.getTime();
+      }
+      const waitMinutes = Math.round((time - arrivalAt.getTime()) / 60000);
+      time += (node.stop.serviceMinutes ?? DEFAULT_SERVICE_MINUTES) * 60 * 1000;
+      load += (node.type === 'PICKUP' ? 1 : -1) * (jobs[node.job].load ?? 1);
+      previous = id + 1;
+
+      return {
+        sequence: index + 1,
+        jobId: jobs[node.job].id,
+        type: node.type,
+        location: node.stop.location,
+        address: node.stop.address ?? null,
+        legDistanceKm: round(leg),
+        arrivalAt,
+        waitMinutes,
+        departureAt: new Date(time),
+        load,
+        latest: node.stop.latest ?? null,
+      };
+    });
+
+    if (endRow !== null) {
+      distance += matrix[previous][endRow];
+      time += geocodingService.estimateDurationMinutes(matrix[previous][endRow]) * 60 * 1000;
+    }
+
+    return {
+      stops,
+      totalDistanceKm: round(distance),
+      totalDurationMinutes: Math.round((time - startAt.getTime()) / 60000),
+      finishAt: new Date(time),
+    };
+  }
+}
+
+export const routeOptimizerService = new RouteOptimizerService();
+export {
+  RouteOptimizerService,
+  RouteOptimizerError,
+  RouteJob,
+  RouteProblem,
+  RoutePlan,
+  PlannedStop,
+  StopInput,
+  StopType,
+  DistanceModel,
+};
@@ -0,0 +1,297 @@
+import db from '../config/database';
+import {
+  scheduledNotifications,
+  scheduledNotificationDeliveries,
+  notificationTemplates,
+  users,
+  orders,
+  orderFulfilments,
+  products,
+} from '../schema';
+import { eq, and, or, inArray, lt, lte, gte, isNotNull, sql } from 'drizzle-orm';
+import { notificationDispatcher, NotificationPriority } from './notificationDispatcher';
+import { messageQueue, JobTypes } from './messageQueue';
+
+type RecipientRole = 'CONSUMER' | 'MERCHANT' | 'DRIVER';
+type Recurrence = 'daily' | 'weekly' | 'monthly';
+
+interface Recipient {
+  userId: number;
+  userRole: RecipientRole;
+}
+
+interface NotificationContent {
+  title: string;
+  body: string;
+  actionUrl?: string;
+}
+
+interface RecipientResult extends Recipient {
+  status: 'SENT' | 'FAILED';
+  notificationId?: string;
+  pushJobId?: string;
+  error?: string;
+}
+
+type ScheduledNotification = typeof scheduledNotifications.$inferSelect;
+type VariableSource = (recipient: Recipient, schedule: ScheduledNotification) => Promise<Record<string, string | number>>;
+
+const RECURRENCES: Recurrence[] = ['daily', 'weekly', 'monthly'];
+const RECIPIENT_ROLES: RecipientRole[] = ['CONSUMER', 'MERCHANT', 'DRIVER'];
+const BATCH_SIZE = 10;
+// A run still marked processing after this long is presumed abandoned and picked up again
+const STALE_LOCK_MS = 10 * 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Replace {name} placeholders; unknown placeholders are left as they are
+const render = (text: string, variables: Record<string, unknown>) =>
+  text.replace(/\{(\w+)\}/g, (match, key) => (variables[key] !== undefined && variables[key] !== null ? String(variables[key]) : match));
+
+const nextRun = (from: Date, recurrence: Recurrence): Date => {
+  const next = new Date(from);
+  if (recurrence === 'daily') next.setDate(next.getDate() + 1);
+  if (recurrence === 'weekly') next.setDate(next.getDate() + 7);
+  if (recurrence === 'monthly') next.setMonth(next.getMonth() + 1);
+  return next;
+};
+
+// Per-recipient variables computed at send time, selected with a schedule's variableSource
+const VARIABLE_SOURCES: Record<string, VariableSource> = {
+  // Last seven days of orders for a merchant, e.g. for a weekly digest
+  merchant_weekly_digest: async ({ userId }) => {
+    const since = new Date(Date.now() - WEEK_MS);
+    const [sales] = await db.select({
+      orderCount: sql<number>`count(*)::int`,
+      revenue: sql<string>`coalesce(sum(${orders.totalPrice}::numeric), 0)`,
+    })
+      .from(orders)
+      .where(and(
+        eq(orders.sellerId, userId),
+        gte(orders.createdAt, since),
+        inArray(orders.status, ['confirmed', 'processing', 'shipped', 'delivered']),
+      ));
+    const [pending] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(orderFulfilments)
+      .where(and(eq(orderFulfilments.merchantId, userId), inArray(orderFulfilments.status, ['confirmed', 'processing'])));
+    const [lowStock] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(products)
+      .where(and(eq(products.sellerId, userId), eq(products.isActive, true), isNotNull(products.lowStockAlertedAt)));
+
+    return {
+      orderCount: sales.orderCount,
+      revenue: Number(sales.revenue).toFixed(2),
+      pendingFulfilments: pending.count,
+      lowStockProducts: lowStock.count,
+      periodStart: since.toDateString(),
+      periodEnd: new Date().toDateString(),
+    };
+  },
+};
+
+class ScheduledNotificationService {
+  constructor() {
+    messageQueue.registerHandler(JobTypes.DISPATCH_SCHEDULED_NOTIFICATIONS, async () => ({ dispatched: await this.dispatchDue() }), { concurrency: 1 });
+  }
+
+  isRecurrence(value: string): value is Recurrence {
+    return (RECURRENCES as string[]).includes(value);
+  }
+
+  isVariableSource(value: string): boolean {
+    return value in VARIABLE_SOURCES;
+  }
+
+  isRecipientRole(value: string): value is RecipientRole {
+    return (RECIPIENT_ROLES as string[]).includes(value);
+  }
+
+  // Send every schedule that is due. Rows are claimed with SKIP LOCKED so several instances can
+  // run the dispatcher at once without sending anything twice.
+  async dispatchDue(): Promise<number> {
+    let dispatched = 0;
+
+    for (;;) {
+      const batch = await this.claimDue();
+      if (batch.length === 0) {
+        return dispatched;
+      }
+      for (const schedule of batch) {
+        await this.run(schedule);
+        dispatched++;
+      }
+    }
+  }
+
+  async getDeliveries(scheduledNotificationId: string, run?: number) {
+    return db.select()
+      .from(scheduledNotificationDeliveries)
+      .where(and(
+        eq(scheduledNotificationDeliveries.scheduledNotificationId, scheduledNotificationId),
+        run !== undefined ? eq(scheduledNotificationDeliveries.run, run) : undefined,
+      ))
+      .orderBy(scheduledNotificationDeliveries.run, scheduledNotificationDeliveries.createdAt);
+  }
+
+  private async claimDue(): Promise<ScheduledNotification[]> {
+    const due = db.select({ id: scheduledNotifications.id })
+      .from(scheduledNotifications)
+      .where(or(
+        and(eq(scheduledNotifications.status, 'scheduled'), lte(scheduledNotifications.scheduleTime, sql`now()`)),
+        and(eq(scheduledNotifications.status, 'processing'), lt(scheduledNotifications.lockedAt, new Date(Date.now() - STALE_LOCK_MS))),
+      ))
+      .orderBy(scheduledNotifications.scheduleTime)
+      .limit(BATCH_SIZE)
+      .for('update', { skipLocked: true });
+
+    return db.update(scheduledNotifications)
+      .set({ status: 'processing', lockedAt: new Date(), updatedAt: new Date() })
+      .where(inArray(scheduledNotifications.id, due))
+      .returning();
+  }
+
+  // One run of a schedule: resolve recipients, render, fan out and record each outcome
+  private async run(schedule: ScheduledNotification) {
+    const runNumber = schedule.runCount + 1;
+    let results: RecipientResult[] = [];
+    let runError: string | undefined;
+
+    try {
+      const content = await this.resolveContent(schedule);
+      const recipients = await this.resolveRecipients(schedule);
+      const source = schedule.variableSource ? VARIABLE_SOURCES[schedule.variableSource] : undefined;
+
+      for (const recipient of recipients) {
+        results.push(await this.deliver(schedule, content, recipient, source));
+      }
+    } catch (error) {
+      runError = error instanceof Error ? error.message : String(error);
+      console.error(`Scheduled notification ${schedule.id} failed:`, error);
+    }
+
+    if (results.length > 0) {
+      await db.insert(scheduledNotificationDeliveries).values(results.map(result => ({
+        scheduledNotificationId: schedule.id,
+        run: runNumber,
+        userId: result.userId,
+        userRole: result.userRole,
+        status: result.status,
+        notificationId: result.notificationId,
+        pushJobId: result.pushJobId,
+        error: result.error,
+      })));
+    }
+
+    const failed = results.filter(result => result.status === 'FAILED').length;
+    const runStatus = runError || failed === results.length
+      ? 'failed'
+      : failed > 0 ? 'partially_failed' : 'sent';
+
+    // Recurring schedules roll forward from their own slot (not from now) so they do not drift
+    let next: Date | null = null;
+    if (schedule.recurrence && this.isRecurrence(schedule.recurrence)) {
+      next = nextRun(schedule.scheduleTime, schedule.recurrence);
+      while (next <= new Date()) {
+        next = nextRun(next, schedule.recurrence);
+      }
+      if (schedule.recurrenceEndsAt && next > schedule.recurrenceEndsAt) {
+        next = null;
+      }
+    }
+
+    await db.update(scheduledNotifications)
+      .set({
+        status: next ? 'scheduled' : runStatus,
+        scheduleTime: next ?? schedule.scheduleTime,
+        lastRunStatus: runStatus,
+        lastRunAt: new Date(),
+        runCount: runNumber,
+        lockedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(scheduledNotifications.id, schedule.id));
+  }
+
+  private async deliver(
+    schedule: ScheduledNotification,
+    content: NotificationContent,
+    recipient: Recipient,
+    source?: VariableSource,
+  ): Promise<RecipientResult> {
+    try {
+      const [user] = await db.select({ fullName: users.fullName })
+        .from(users)
+        .where(eq(users.id, recipient.userId));
+      if (!user) {
+        return { ...recipient, status: 'FAILED', error: 'User not found' };
+      }
+
+      const variables = {
+        ...(schedule.templateVariables as Record<string, unknown> || {}),
+        fullName: user.fullName,
+        firstName: user.fullName.split(' ')[0],
+        ...(source ? await source(recipient, schedule) : {}),
+      };
+      const title = render(content.title, variables);
+      const body = render(content.body, variables);
+      const actionUrl = content.actionUrl ? render(content.actionUrl, variables) : undefined;
+
+      // The dispatcher writes the in-app copy and sends push or email per the recipient's preferences
+      const result = await notificationDispatcher.dispatch({
+        userId: recipient.userId,
+        userRole: recipient.userRole,
+        title,
+        message: body,
+        type: schedule.type || 'SYSTEM',
+        relatedId: schedule.id,
+        priority: (schedule.priority || 'MEDIUM') as NotificationPriority,
+        actionUrl,
+        data: { scheduledNotificationId: schedule.id },
+      });
+      const push = result.channels.find(channel => channel.channel === 'PUSH');
+
+      return {
+        ...recipient,
+        status: 'SENT',
+        notificationId: result.inApp?.id,
+        pushJobId: push?.jobId,
+        error: push?.reason ? `Push ${push.status.toLowerCase()}: ${push.reason}` : undefined,
+      };
+    } catch (error) {
+      return { ...recipient, status: 'FAILED', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async resolveContent(schedule: ScheduledNotification): Promise<NotificationContent> {
+    if (schedule.templateId) {
+      const [template] = await db.select()
+        .from(notificationTemplates)
+        .where(eq(notificationTemplates.id, schedule.templateId));
+      if (!template || template.isActive === false) {
+        throw new Error('Notification template not found or inactive');
+      }
+      return template.template as NotificationContent;
+    }
+
+    const message = schedule.message as NotificationContent | null;
+    if (!message?.title || !message?.body) {
+      throw new Error('Scheduled notification has no message');
+    }
+    return message;
+  }
+
+  private async resolveRecipients(schedule: ScheduledNotification): Promise<Recipient[]> {
+    const audience = schedule.audience as { role?: string } | null;
+    if (audience?.role && this.isRecipientRole(audience.role)) {
+      const members = await db.select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.role, audience.role), eq(users.isActive, true)));
+      return members.map(member => ({ userId: member.id, userRole: audience.role as RecipientRole }));
+    }
+
+    return ((schedule.recipients as Recipient[] | null) || [])
+      .filter(recipient => this.isRecipientRole(recipient.userRole));
+  }
+}
+
+export const scheduledNotificationService = new ScheduledNotificationService();
+export { ScheduledNotificationService, Recipient, Recurrence };
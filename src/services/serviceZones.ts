@@ -0,0 +1,418 @@
+import db from '../config/database';
+import { serviceZones } from '../schema';
+import { eq, desc } from 'drizzle-orm';
+import { Coordinates } from './geocoding';
+
+type ZoneService = 'DELIVERY' | 'FUEL' | 'TOLL';
+type ServiceZone = typeof serviceZones.$inferSelect;
+
+// [longitude, latitude], as GeoJSON orders them
+type Position = [number, number];
+type Ring = Position[];
+
+interface ZoneBoundary {
+  type: 'Polygon' | 'MultiPolygon';
+  coordinates: Ring[] | Ring[][];
+}
+
+interface OperatingWindow {
+  dayOfWeek: string;
+  openTime: string;
+  closeTime: string;
+}
+
+interface ZoneInput {
+  name?: string;
+  description?: string | null;
+  boundary?: unknown;
+  baseFee?: number | string;
+  perKmRate?: number | string;
+  surgeMultiplier?: number | string;
+  operatingHours?: unknown;
+  services?: unknown;
+  priority?: number;
+  isActive?: boolean;
+}
+
+interface ZoneCheck {
+  available: boolean;
+  zone: ServiceZone | null;
+  reason?: 'OUT_OF_AREA' | 'SERVICE_DISABLED' | 'CLOSED';
+  message?: string;
+  opensAt?: Date | null;
+}
+
+interface DeliveryPricing {
+  zoneId: string | null;
+  baseFee: number;
+  distanceFee: number;
+  surgeMultiplier: number;
+  total: number;
+}
+
+class ServiceZoneError extends Error {
+  constructor(
+    public code: 'NOT_FOUND' | 'INVALID_ZONE' | 'OUT_OF_AREA' | 'SERVICE_DISABLED' | 'CLOSED',
+    message: string,
+    public opensAt?: Date | null,
+  ) {
+    super(message);
+    this.name = 'ServiceZoneError';
+  }
+}
+
+const ZONE_SERVICES: ZoneService[] = ['DELIVERY', 'FUEL', 'TOLL'];
+const DAYS = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+// Operating hours are Lagos time; West Africa Time is UTC+1 all year
+const UTC_OFFSET_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Zones change rarely; other instances pick up an admin's edit within this long
+const ZONE_CACHE_TTL_MS = 60 * 1000;
+// Pricing used only while no zones are configured
+const DEFAULT_BASE_FEE = 500;
+const DEFAULT_PER_KM_RATE = 50;
+
+const SERVICE_LABELS: Record<ZoneService, string> = {
+  DELIVERY: 'Delivery',
+  FUEL: 'Fuel delivery',
+  TOLL: 'Toll payment',
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const isPosition = (value: unknown): value is Position =>
+  Array.isArray(value) && value.length >= 2
+  && typeof value[0] === 'number' && typeof value[1] === 'number'
+  && Math.abs(value[0]) <= 180 && Math.abs(value[1]) <= 90;
+
+// Ray casting: count crossings of a ray running east from the point
+const inRing = (point: Coordinates, ring: Ring): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > point.latitude) !== (yj > point.latitude)
+      && point.longitude < (xj - xi) * (point.latitude - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// The first ring is the outline, any others are holes
+const inPolygon = (point: Coordinates, rings: Ring[]): boolean =>
+  inRing(point, rings[0]) && !rings.slice(1).some(hole => inRing(point, hole));
+
+const polygonsOf = (boundary: ZoneBoundary): Ring[][] =>
+  boundary.type === 'Polygon' ? [boundary.coordinates as Ring[]] : boundary.coordinates as Ring[][];
+
+class ServiceZoneService {
+  private cache?: { zones: ServiceZone[]; loadedAt: number };
+
+  async list(includeInactive = true): Promise<ServiceZone[]> {
+    if (!includeInactive) {
+      return this.getActiveZones();
+    }
+    return db.select().from(serviceZones).orderBy(desc(serviceZones.priority), serviceZones.name);
+  }
+
+  async get(id: string): Promise<ServiceZone> {
+    const [zone] = await db.select().from(serviceZones).where(eq(serviceZones.id, id));
+    if (!zone) {
+      throw new ServiceZoneError('NOT_FOUND', 'Service zone not found');
+    }
+    return zone;
+  }
+
+  async create(input: ZoneInput, createdBy?: number): Promise<ServiceZone> {
+    if (!input.name || input.boundary === undefined || input.baseFee === undefined || input.perKmRate === undefined) {
+      throw new ServiceZoneError('INVALID_ZONE', 'Required fields: name, boundary, baseFee, perKmRate');
+    }
+
+    const [zone] = await db.insert(serviceZones)
+      .values({ ...this.toColumns(input), createdBy } as typeof serviceZones.$inferInsert)
+      .returning();
+    this.cache = undefined;
+    return zone;
+  }
+
+  async update(id: string, input: ZoneInput): Promise<ServiceZone> {
+    const [zone] = await db.update(serviceZones)
+      .set({ ...this.toColumns(input), updatedAt: new Date() })
+      .where(eq(serviceZones.id, id))
+      .returning();
+    if (!zone) {
+      throw new ServiceZoneError('NOT_FOUND', 'Service zone not found');
+    }
+    this.cache = undefined;
+    return zone;
+  }
+
+  async remove(id: string): Promise<void> {
+    const deleted = await db.delete(serviceZones).where(eq(serviceZones.id, id)).returning({ id: serviceZones.id });
+    if (deleted.length === 0) {
+      throw new ServiceZoneError('NOT_FOUND', 'Service zone not found');
+    }
+    this.cache = undefined;
+  }
+
+  // Active zones, highest priority first
+  async getActiveZones(): Promise<ServiceZone[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < ZONE_CACHE_TTL_MS) {
+      return this.cache.zones;
+    }
+    const zones = await db.select()
+      .from(serviceZones)
+      .where(eq(serviceZones.isActive, true))
+      .orderBy(desc(serviceZones.priority), serviceZones.name);
+    this.cache = { zones, loadedAt: Date.now() };
+    return zones;
+  }
+
+  // Active zones containing the point, highest priority first
+  async zonesAt(point: Coordinates): Promise<ServiceZone[]> {
+    return (await this.getActiveZones()).filter(zone => this.contains(zone, point));
+  }
+
+  contains(zone: ServiceZone, point: Coordinates): boolean {
+    if (point.latitude < parseFloat(zone.minLatitude) || point.latitude > parseFloat(zone.maxLatitude)
+      || point.longitude < parseFloat(zone.minLongitude) || point.longitude > parseFloat(zone.maxLongitude)) {
+      return false;
+    }
+    return polygonsOf(zone.boundary as ZoneBoundary).some(rings => inPolygon(point, rings));
+  }
+
+  offers(zone: ServiceZone, service: ZoneService): boolean {
+    return (zone.services as ZoneService[]).includes(service);
+  }
+
+  // Whether a service can be used at a point and time. With no zones configured the platform is
+  // unrestricted; a point that could not be located is not blocked either.
+  async check(point: Coordinates | null, service: ZoneService, at: Date = new Date()): Promise<ZoneCheck> {
+    if (!point || (await this.getActiveZones()).length === 0) {
+      return { available: true, zone: null };
+    }
+
+    const containing = await this.zonesAt(point);
+    if (containing.length === 0) {
+      return { available: false, zone: null, reason: 'OUT_OF_AREA', message: 'This location is outside our service area' };
+    }
+
+    const offering = containing.filter(zone => this.offers(zone, service));
+    if (offering.length === 0) {
+      return {
+        available: false,
+        zone: containing[0],
+        reason: 'SERVICE_DISABLED',
+        message: `${SERVICE_LABELS[service]} is not available in ${containing[0].name}`,
+      };
+    }
+
+    const open = offering.find(zone => this.isOpen(zone, at));
+    if (!open) {
+      const opensAt = offering
+        .map(zone => this.nextOpening(zone, at))
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => a.getTime() - b.getTime())[0] || null;
+      return {
+        available: false,
+        zone: offering[0],
+        reason: 'CLOSED',
+        message: `${SERVICE_LABELS[service]} in ${offering[0].name} is closed at this time`,
+        opensAt,
+      };
+    }
+
+    return { available: true, zone: open };
+  }
+
+  // check(), throwing when the service is unavailable
+  async assertAvailable(point: Coordinates | null, service: ZoneService, at?: Date): Promise<ServiceZone | null> {
+    const result = await this.check(point, service, at);
+    if (!result.available) {
+      throw new ServiceZoneError(result.reason!, result.message!, result.opensAt);
+    }
+    return result.zone;
+  }
+
+  // A predicate for whether a point lies in a zone offering any of the services, for filtering
+  // many points (e.g. drivers) against one load of the zones
+  async coverageFor(services: ZoneService[]): Promise<(point: Coordinates) => boolean> {
+    const active = await this.getActiveZones();
+    if (active.length === 0) {
+      return () => true;
+    }
+    const zones = active.filter(zone => services.some(service => this.offers(zone, service)));
+    return (point) => zones.some(zone => this.contains(zone, point));
+  }
+
+  // Fee for a trip priced in the zone: (base fee + distance x per-km rate) x surge
+  priceDelivery(zone: ServiceZone | null, distanceKm: number): DeliveryPricing {
+    const baseFee = zone ? parseFloat(zone.baseFee) : DEFAULT_BASE_FEE;
+    const perKmRate = zone ? parseFloat(zone.perKmRate) : DEFAULT_PER_KM_RATE;
+    const surgeMultiplier = zone ? parseFloat(zone.surgeMultiplier) : 1;
+    const distanceFee = Math.round(distanceKm * perKmRate * 100) / 100;
+
+    return {
+      zoneId: zone?.id ?? null,
+      baseFee,
+      distanceFee,
+      surgeMultiplier,
+      total: Math.round((baseFee + distanceFee) * surgeMultiplier * 100) / 100,
+    };
+  }
+
+  isOpen(zone: ServiceZone, at: Date = new Date()): boolean {
+    const hours = zone.operatingHours as OperatingWindow[] | null;
+    if (!hours || hours.length === 0) {
+      return true;
+    }
+
+    const local = new Date(at.getTime() + UTC_OFFSET_MS);
+    const today = DAYS[local.getUTCDay()];
+    const yesterday = DAYS[(local.getUTCDay() + 6) % 7];
+    const minute = local.getUTCHours() * 60 + local.getUTCMinutes();
+
+    return hours.some(window => {
+      const open = toMinutes(window.openTime);
+      const close = toMinutes(window.closeTime);
+      if (close > open) {
+        return window.dayOfWeek === today && minute >= open && minute < close;
+      }
+      // Runs past midnight: the late part belongs to the day it opened
+      return (window.dayOfWeek === today && minute >= open) || (window.dayOfWeek === yesterday && minute < close);
+    });
+  }
+
+  // The next time the zone opens after the given time, within a week
+  nextOpening(zone: ServiceZone, at: Date = new Date()): Date | null {
+    const hours = zone.operatingHours as OperatingWindow[] | null;
+    if (!hours || hours.length === 0) {
+      return at;
+    }
+
+    const local = new Date(at.getTime() + UTC_OFFSET_MS);
+    const midnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()) - UTC_OFFSET_MS;
+    for (let day = 0; day <= 7; day++) {
+      const dayName = DAYS[(local.getUTCDay() + day) % 7];
+      const opening = hours
+        .filter(window => window.dayOfWeek === dayName)
+        .map(window => new Date(midnight + day * DAY_MS + toMinutes(window.openTime) * 60 * 1000))
+        .filter(date => date > at)
+        .sort((a, b) => a.getTime() - b.getTime())[0];
+      if (opening) {
+        return opening;
+      }
+    }
+    return null;
+  }
+
+  // Validate an admin's input into column values; only the fields given are returned
+  private toColumns(input: ZoneInput): Partial<typeof serviceZones.$inferInsert> {
+    const columns: Partial<typeof serviceZones.$inferInsert> = {};
+
+    if (input.name !== undefined) {
+      if (typeof input.name !== 'string' || !input.name.trim()) {
+        throw new ServiceZoneError('INVALID_ZONE', 'name must be a non-empty string');
+      }
+      columns.name = input.name.trim();
+    }
+    if (input.description !== undefined) {
+      columns.description = input.description;
+    }
+    if (input.boundary !== undefined) {
+      const boundary = this.parseBoundary(input.boundary);
+      const positions = polygonsOf(boundary).flat(2);
+      columns.boundary = boundary;
+      columns.minLatitude = Math.min(...positions.map(([, latitude]) => latitude)).toFixed(8);
+      columns.maxLatitude = Math.max(...positions.map(([, latitude]) => latitude)).toFixed(8);
+      columns.minLongitude = Math.min(...positions.map(([longitude]) => longitude)).toFixed(8);
+      columns.maxLongitude = Math.max(...positions.map(([longitude]) => longitude)).toFixed(8);
+    }
+    for (const field of ['baseFee', 'perKmRate', 'surgeMultiplier'] as const) {
+      if (input[field] !== undefined) {
+        const value = Number(input[field]);
+        if (!Number.isFinite(value) || value < 0 || (field === 'surgeMultiplier' && value < 1)) {
+          throw new ServiceZoneError('INVALID_ZONE', field === 'surgeMultiplier'
+            ? 'surgeMultiplier must be a number of at least 1'
+            : `${field} must be a non-negative number`);
+        }
+        columns[field] = value.toFixed(2);
+      }
+    }
+    if (input.operatingHours !== undefined) {
+      columns.operatingHours = this.parseOperatingHours(input.operatingHours);
+    }
+    if (input.services !== undefined) {
+      const services = input.services;
+      if (!Array.isArray(services) || services.some(service => !ZONE_SERVICES.includes(service))) {
+        throw new ServiceZoneError('INVALID_ZONE', `services must be a list of ${ZONE_SERVICES.join(', ')}`);
+      }
+      columns.services = [...new Set(services as ZoneService[])];
+    }
+    if (input.priority !== undefined) {
+      if (!Number.isInteger(input.priority)) {
+        throw new ServiceZoneError('INVALID_ZONE', 'priority must be an integer');
+      }
+      columns.priority = input.priority;
+    }
+    if (input.isActive !== undefined) {
+      columns.isActive = !!input.isActive;
+    }
+
+    return columns;
+  }
+
+  // Accepts a Polygon or MultiPolygon geometry, or a Feature wrapping one. Rings must be closed
+  // and have at least four positions.
+  private parseBoundary(value: any): ZoneBoundary {
+    const geometry = value?.type === 'Feature' ? value.geometry : value;
+    if (geometry?.type !== 'Polygon' && geometry?.type !== 'MultiPolygon') {
+      throw new ServiceZoneError('INVALID_ZONE', 'boundary must be a GeoJSON Polygon or MultiPolygon');
+    }
+
+    const polygons: unknown[] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    const valid = Array.isArray(polygons) && polygons.length > 0 && polygons.every(rings =>
+      Array.isArray(rings) && rings.length > 0 && rings.every((ring: unknown) =>
+        Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition)
+        && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]));
+    if (!valid) {
+      throw new ServiceZoneError('INVALID_ZONE', 'boundary rings must be closed lists of at least four [longitude, latitude] positions');
+    }
+
+    return { type: geometry.type, coordinates: geometry.coordinates };
+  }
+
+  private parseOperatingHours(value: unknown): OperatingWindow[] | null {
+    if (value === null) {
+      return null;
+    }
+    if (!Array.isArray(value)) {
+      throw new ServiceZoneError('INVALID_ZONE', 'operatingHours must be a list of { dayOfWeek, openTime, closeTime }, or null');
+    }
+
+    return value.map((window: any) => {
+      const dayOfWeek = typeof window?.dayOfWeek === 'string' ? window.dayOfWeek.toUpperCase() : '';
+      if (!DAYS.includes(dayOfWeek) || !TIME_PATTERN.test(window.openTime) || !TIME_PATTERN.test(window.closeTime)) {
+        throw new ServiceZoneError('INVALID_ZONE', 'Each operating window needs a dayOfWeek (e.g. MONDAY) and HH:MM openTime and closeTime');
+      }
+      return { dayOfWeek, openTime: window.openTime, closeTime: window.closeTime };
+    });
+  }
+}
+
+export const serviceZoneService = new ServiceZoneService();
+export {
+  ServiceZoneService,
+  ServiceZoneError,
+  ServiceZone,
+  ZoneService,
+  ZoneCheck,
+  ZoneInput,
+  DeliveryPricing,
+  OperatingWindow,
+};
@@ -0,0 +1,254 @@
+import EventEmitter from 'events';
+import db from '../config/database';
+import { sessions, users } from '../schema';
+import { eq, and, ne, gt, isNull, desc, inArray } from 'drizzle-orm';
+import { ACCESS_TOKEN_TTL, REFRESH_TOKEN_TTL_DAYS } from '../config/environment';
+import { tokenService } from './tokens';
+import { JWTPayload } from '../utils/auth';
+
+type RevokeReason =
+  | 'LOGOUT'
+  | 'USER_REVOKED'
+  | 'PASSWORD_CHANGED'
+  | 'PASSWORD_RESET'
+  | 'DEACTIVATED'
+  | 'MFA_RESET'
+  | 'REFRESH_TOKEN_REUSE';
+
+interface SessionUser {
+  id: number;
+  email: string;
+  role: string;
+}
+
+interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+interface RefreshClaims {
+  sub: string;
+  sid: string;
+  gen: number;
+}
+
+interface RevokedEvent {
+  sessionIds: string[];
+  reason: RevokeReason;
+}
+
+interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+  refreshTokenExpiresAt: Date;
+}
+
+class SessionError extends Error {
+  constructor(
+    public code: 'INVALID_TOKEN' | 'SESSION_REVOKED' | 'SESSION_EXPIRED' | 'TOKEN_REUSED' | 'USER_INACTIVE',
+    message: string,
+  ) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+const REFRESH_TOKEN_TTL_MS = REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+class SessionService extends EventEmitter {
+  // Verify an access token and check its session is still live. REST and socket authentication
+  // both go through here so a token is accepted or refused the same way on either transport.
+  async authenticate(token: string): Promise<JWTPayload> {
+    let claims: JWTPayload;
+    try {
+      claims = tokenService.verify<JWTPayload>('access', token);
+    } catch {
+      throw new SessionError('INVALID_TOKEN', 'Invalid or expired token');
+    }
+
+    if (!claims.sid || !(await this.isActive(claims.sid, claims.userId))) {
+      throw new SessionError('SESSION_REVOKED', 'Session has ended, please log in again');
+    }
+    return claims;
+  }
+
+  // A session stays usable until it is revoked or expires, and only while its user is active
+  async isActive(sessionId: string, userId: number): Promise<boolean> {
+    const [session] = await db.select({ id: sessions.id })
+      .from(sessions)
+      .innerJoin(users, eq(users.id, sessions.userId))
+      .where(and(
+        eq(sessions.id, sessionId),
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date()),
+        eq(users.isActive, true),
+      ));
+    return !!session;
+  }
+
+  // The subset of sessionIds that are still live, for re-checking long-lived connections in one query
+  async filterActive(sessionIds: string[]): Promise<Set<string>> {
+    if (sessionIds.length === 0) {
+      return new Set();
+    }
+    const live = await db.select({ id: sessions.id })
+      .from(sessions)
+      .innerJoin(users, eq(users.id, sessions.userId))
+      .where(and(
+        inArray(sessions.id, sessionIds),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date()),
+        eq(users.isActive, true),
+      ));
+    return new Set(live.map(session => session.id));
+  }
+
+  // Start a session for a successful login and issue its first token pair
+  async create(user: SessionUser, client: ClientInfo = {}): Promise<IssuedTokens> {
+    const [session] = await db.insert(sessions).values({
+      userId: user.id,
+      userAgent: client.userAgent?.slice(0, 500),
+      ipAddress: client.ipAddress,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    }).returning();
+
+    return this.issue(user, session.id, session.generation, session.expiresAt);
+  }
+
+  // Swap a refresh token for a new pair. Each refresh token works once: the generation check
+  // and bump are one statement, and a token from an earlier generation revokes the whole
+  // session because only a copied token can be presented after it was rotated.
+  async refresh(refreshToken: string, client: ClientInfo = {}): Promise<IssuedTokens> {
+    let claims: RefreshClaims;
+    try {
+      claims = tokenService.verify<RefreshClaims>('refresh', refreshToken);
+    } catch {
+      throw new SessionError('INVALID_TOKEN', 'Invalid or expired refresh token');
+    }
+    if (!claims.sid || typeof claims.gen !== 'number') {
+      throw new SessionError('INVALID_TOKEN', 'Invalid or expired refresh token');
+    }
+
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+    const [rotated] = await db.update(sessions)
+      .set({
+        generation: claims.gen + 1,
+        lastUsedAt: new Date(),
+        expiresAt,
+        ...(client.userAgent ? { userAgent: client.userAgent.slice(0, 500) } : {}),
+        ...(client.ipAddress ? { ipAddress: client.ipAddress } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(sessions.id, claims.sid),
+        eq(sessions.generation, claims.gen),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date()),
+      ))
+      .returning();
+
+    if (!rotated) {
+      const [session] = await db.select().from(sessions).where(eq(sessions.id, claims.sid));
+      if (!session || session.revokedAt) {
+        throw new SessionError('SESSION_REVOKED', 'Session has been revoked');
+      }
+      if (session.generation > claims.gen) {
+        await this.revoke(session.id, 'REFRESH_TOKEN_REUSE');
+        console.warn(`Refresh token reuse detected for session ${session.id} of user ${session.userId}; session revoked`);
+        throw new SessionError('TOKEN_REUSED', 'Refresh token was already used; the session has been revoked');
+      }
+      throw new SessionError('SESSION_EXPIRED', 'Session has expired');
+    }
+
+    const [user] = await db.select({ id: users.id, email: users.email, role: users.role, isActive: users.isActive })
+      .from(users)
+      .where(eq(users.id, rotated.userId));
+    if (!user || user.isActive === false) {
+      await this.revoke(rotated.id, 'DEACTIVATED');
+      throw new SessionError('USER_INACTIVE', 'Account is deactivated');
+    }
+
+    return this.issue(user, rotated.id, rotated.generation, rotated.expiresAt);
+  }
+
+  // Revoke one session; with a userId, only if the session belongs to that user
+  async revoke(sessionId: string, reason: RevokeReason, userId?: number): Promise<boolean> {
+    const conditions = [eq(sessions.id, sessionId), isNull(sessions.revokedAt)];
+    if (userId !== undefined) {
+      conditions.push(eq(sessions.userId, userId));
+    }
+
+    const revoked = await db.update(sessions)
+      .set({ revokedAt: new Date(), revokedReason: reason, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: sessions.id });
+    this.announce(revoked.map(session => session.id), reason);
+    return revoked.length > 0;
+  }
+
+  // Revoke every live session of a user, optionally keeping the one making the request
+  async revokeAllForUser(userId: number, reason: RevokeReason, exceptSessionId?: string): Promise<number> {
+    const conditions = [eq(sessions.userId, userId), isNull(sessions.revokedAt)];
+    if (exceptSessionId) {
+      conditions.push(ne(sessions.id, exceptSessionId));
+    }
+
+    const revoked = await db.update(sessions)
+      .set({ revokedAt: new Date(), revokedReason: reason, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: sessions.id });
+    this.announce(revoked.map(session => session.id), reason);
+    return revoked.length;
+  }
+
+  // Live sessions of a user, most recently used first
+  async listForUser(userId: number) {
+    return db.select({
+      id: sessions.id,
+      userAgent: sessions.userAgent,
+      ipAddress: sessions.ipAddress,
+      createdAt: sessions.createdAt,
+      lastUsedAt: sessions.lastUsedAt,
+      expiresAt: sessions.expiresAt,
+    })
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt), gt(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.lastUsedAt));
+  }
+
+  // Lets this instance act on a revocation straight away, e.g. to drop the session's sockets.
+  // Other instances notice on their next periodic check.
+  private announce(sessionIds: string[], reason: RevokeReason) {
+    if (sessionIds.length > 0) {
+      this.emit('revoked', { sessionIds, reason } as RevokedEvent);
+    }
+  }
+
+  private issue(user: SessionUser, sessionId: string, generation: number, expiresAt: Date): IssuedTokens {
+    const claims: JWTPayload = {
+      userId: user.id,
+      email: user.email,
+      role: user.role as JWTPayload['role'],
+      sid: sessionId,
+    };
+    const token = tokenService.sign('access', claims, ACCESS_TOKEN_TTL);
+    const refreshToken = tokenService.sign(
+      'refresh',
+      { sub: String(user.id), sid: sessionId, gen: generation },
+      Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+    );
+
+    return { token, refreshToken, sessionId, refreshTokenExpiresAt: expiresAt };
+  }
+}
+
+// Client details recorded on a session
+export const clientInfo = (req: { headers: Record<string, any>; ip?: string }): ClientInfo => ({
+  userAgent: req.headers['user-agent'],
+  ipAddress: req.ip,
+});
+
+export const sessionService = new SessionService();
+export { SessionService, SessionError, RevokeReason, RevokedEvent, IssuedTokens };
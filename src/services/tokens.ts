@@ -0,0 +1,105 @@
+import jwt from 'jsonwebtoken';
+import {
+  env,
+  JWT_SECRET_KEY,
+  JWT_KEYS,
+  JWT_ACTIVE_KEY_ID,
+  JWT_ISSUER,
+  JWT_AUDIENCE,
+} from '../config/environment';
+
+// Access tokens authorise API and socket calls; refresh tokens only renew a session. They carry
+// different audiences so one can never be presented as the other.
+type TokenUse = 'access' | 'refresh';
+
+class TokenError extends Error {
+  constructor(public code: 'INVALID_TOKEN' | 'TOKEN_EXPIRED' | 'UNKNOWN_KEY', message: string) {
+    super(message);
+    this.name = 'TokenError';
+  }
+}
+
+const DEFAULT_KEY_ID = 'default';
+const PLACEHOLDER_SECRET = 'your-jwt-secret-key';
+
+// "kid:secret" pairs; a secret may itself contain colons
+const parseKeys = (value?: string): Map<string, string> => {
+  const keys = new Map<string, string>();
+  for (const entry of (value || '').split(',').map(item => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0 || separator === entry.length - 1) {
+      throw new Error(`Invalid JWT_KEYS entry "${entry.split(':')[0]}"; expected kid:secret`);
+    }
+    keys.set(entry.slice(0, separator), entry.slice(separator + 1));
+  }
+  return keys;
+};
+
+class TokenService {
+  private keys: Map<string, string>;
+  private activeKeyId: string;
+
+  constructor() {
+    this.keys = parseKeys(JWT_KEYS);
+    if (this.keys.size === 0) {
+      this.keys.set(DEFAULT_KEY_ID, JWT_SECRET_KEY);
+    }
+
+    this.activeKeyId = JWT_ACTIVE_KEY_ID || this.keys.keys().next().value!;
+    if (!this.keys.has(this.activeKeyId)) {
+      throw new Error(`JWT_ACTIVE_KEY_ID "${this.activeKeyId}" is not listed in JWT_KEYS`);
+    }
+    if (env.isProd && [...this.keys.values()].includes(PLACEHOLDER_SECRET)) {
+      console.warn('JWT signing key is the built-in placeholder; set JWT_KEYS or JWT_SECRET_KEY');
+    }
+  }
+
+  // Sign with the active key, naming it in the header so verification survives a rotation
+  sign(use: TokenUse, claims: object, expiresIn: string | number): string {
+    return jwt.sign(claims, this.keys.get(this.activeKeyId)!, {
+      algorithm: 'HS256',
+      keyid: this.activeKeyId,
+      issuer: JWT_ISSUER,
+      audience: this.audience(use),
+      expiresIn,
+    } as jwt.SignOptions);
+  }
+
+  verify<T extends object>(use: TokenUse, token: string): T {
+    const decoded = jwt.decode(token, { complete: true });
+    const keyId = decoded?.header.kid;
+    const secret = keyId ? this.keys.get(keyId) : undefined;
+    if (!secret) {
+      throw new TokenError('UNKNOWN_KEY', 'Token was not signed with a current key');
+    }
+
+    try {
+      return jwt.verify(token, secret, {
+        algorithms: ['HS256'],
+        issuer: JWT_ISSUER,
+        audience: this.audience(use),
+      }) as T;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new TokenError('TOKEN_EXPIRED', 'Token has expired');
+      }
+      throw new TokenError('INVALID_TOKEN', 'Invalid token');
+    }
+  }
+
+  getStatus() {
+    return {
+      activeKeyId: this.activeKeyId,
+      keyIds: [...this.keys.keys()],
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE,
+    };
+  }
+
+  private audience(use: TokenUse): string {
+    return use === 'access' ? JWT_AUDIENCE : `${JWT_AUDIENCE}:refresh`;
+  }
+}
+
+export const tokenService = new TokenService();
+export { TokenService, TokenError, TokenUse };
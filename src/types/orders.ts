@@ -1,3 +1,17 @@
+// Every status an order can be in; transitions between them live in services/orderLifecycle
+export const ORDER_STATUSES = [
+  'pending',
+  'confirmed',
+  'processing',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'failed',
+  'refunded',
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
 export interface PlaceOrderDto {
   deliveryAddress: string;
 }
@@ -19,7 +33,7 @@ export interface OrderDetails {
   productId: string;
   quantity: number;
   totalPrice: string;
-  status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
   deliveryAddress: string;
   createdAt: Date;
   updatedAt: Date;
@@ -1,5 +1,7 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { JWTPayload, authenticateToken } from './auth';
+import { adminPermissionService, Permission } from '../services/adminPermissions';
+import { auditLogger } from '../middleware/auditLogger';
 
 // Middleware to ensure only admins can access admin routes
 export const requireAdminRole = (req: Request, res: Response, next: NextFunction) => {
@@ -22,6 +24,51 @@ export const requireAdminRole = (req: Request, res: Response, next: NextFunction
   next();
 };
 
+// Gate an admin route on permissions from the admin's sub-roles; every listed permission is required.
+// Use after authenticateToken in place of authorizeRoles('ADMIN').
+export const requirePermission = (...permissions: Permission[]): RequestHandler => {
+  return async (req, res, next) => {
+    const user = (req as any).user as JWTPayload;
+    if (!user || user.role !== 'ADMIN') {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+    return checkPermissions(user, permissions, req, res, next);
+  };
+};
+
+// For routes shared with other roles: admins additionally need the permissions, while the other
+// roles are left to authorizeRoles and the route's own ownership checks
+export const requirePermissionForAdmins = (...permissions: Permission[]): RequestHandler => {
+  return async (req, res, next) => {
+    const user = (req as any).user as JWTPayload;
+    if (!user || user.role !== 'ADMIN') {
+      return next();
+    }
+    return checkPermissions(user, permissions, req, res, next);
+  };
+};
+
+const checkPermissions = async (
+  user: JWTPayload,
+  permissions: Permission[],
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  try {
+    const granted = await adminPermissionService.getPermissions(user.userId);
+    const missing = permissions.filter(permission => !granted.has(permission));
+    if (missing.length > 0) {
+      return res.status(403).json({ error: 'Insufficient permissions', missingPermissions: missing });
+    }
+    (req as any).adminPermissions = granted;
+    next();
+  } catch (error) {
+    console.error('Permission check error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
 // Middleware to redirect authenticated regular users away from admin pages
 export const preventRegularUserAccess = (req: Request, res: Response, next: NextFunction) => {
   const user = (req as any).user as JWTPayload;
@@ -79,11 +126,18 @@ const getRoleBasedRedirect = (role: string): string => {
   }
 };
 
-// Middleware to log admin actions
+// Middleware to log admin actions under a named action, in addition to the per-request audit entry
 export const logAdminAction = (action: string) => {
   return (req: Request, res: Response, next: NextFunction) => {
-    const user = (req as any).user as JWTPayload;
-    console.log(`Admin Action: ${action} by admin ${user?.userId} (${user?.email}) at ${new Date().toISOString()}`);
+    res.on('finish', () => {
+      auditLogger.logAction(req, {
+        action,
+        resource: req.baseUrl.split('/').filter(Boolean).pop(),
+        resourceId: req.params.id,
+        statusCode: res.statusCode,
+        success: res.statusCode < 400,
+      });
+    });
     next();
   };
-};
\ No newline at end of file
+};
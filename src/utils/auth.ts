@@ -1,14 +1,15 @@
-import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { Request, Response, NextFunction, RequestHandler } from 'express';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your_default_secret_change_in_production';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+import { ACCESS_TOKEN_TTL } from '../config/environment';
+import { tokenService } from '../services/tokens';
+import { sessionService, SessionError } from '../services/sessions';
 
 export interface JWTPayload {
   userId: number;
   email: string;
   role: 'CONSUMER' | 'MERCHANT' | 'DRIVER' | 'VENDOR' | 'ADMIN';
+  // Session the token was issued for; logging out or revoking the session ends the token early
+  sid: string;
 }
 
 export const hashPassword = async (password: string): Promise<string> => {
@@ -19,19 +20,21 @@ export const comparePassword = async (password: string, hashedPassword: string):
   return bcrypt.compare(password, hashedPassword);
 };
 
+// Short-lived access token; clients renew it with the session's refresh token
 export const generateToken = (payload: JWTPayload): string => {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN } as any);
+  return tokenService.sign('access', payload, ACCESS_TOKEN_TTL);
 };
 
+// Signature, expiry, issuer and audience only; authenticateToken also checks the session
 export const verifyToken = (token: string): JWTPayload => {
-  return jwt.verify(token, JWT_SECRET) as JWTPayload;
+  return tokenService.verify<JWTPayload>('access', token);
 };
 
 export const generateOTP = (): string => {
   return Math.floor(100000 + Math.random() * 900000).toString();
 };
 
-export const authenticateToken: RequestHandler = (req, res, next) => {
+export const authenticateToken: RequestHandler = async (req, res, next) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -40,12 +43,16 @@ export const authenticateToken: RequestHandler = (req, res, next) => {
   }
 
   try {
-    const decoded = verifyToken(token);
-    (req as any).user = decoded;
-    next();
+    (req as any).user = await sessionService.authenticate(token);
   } catch (error) {
-    return res.status(403).json({ error: 'Invalid or expired token' });
+    if (error instanceof SessionError) {
+      return res.status(error.code === 'INVALID_TOKEN' ? 403 : 401).json({ error: error.message });
+    }
+    console.error('Session check error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
   }
+
+  next();
 };
 
 export const authorizeRoles = (...roles: string[]): RequestHandler => {
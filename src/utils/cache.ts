@@ -1,80 +1,445 @@
+import { CACHE_DRIVER, CACHE_KEY_PREFIX } from '../config/environment';
+import { redisClient, RedisClient, RedisError } from './redis';
+
+export interface CacheSetOptions {
+  // Entity tags such as product:<id>; invalidateTags drops every key carrying one of them
+  tags?: string[];
+}
+
+export interface CacheWrapOptions<T> {
+  ttl: number; // milliseconds the value is fresh
+  // Milliseconds after that during which the old value is still served while one caller reloads it
+  staleTtl?: number;
+  tags?: string[] | ((value: T) => string[]);
+}
+
+// What wrap() and the cache middleware store: the value and when it stops being fresh
+export interface CacheEntry<T = any> {
+  value: T;
+  freshUntil: number;
+}
+
+// One rate-limit check against a counter; remaining and resetMs describe the counter afterwards
+export interface RateLimitCounter {
+  allowed: boolean;
+  remaining: number;
+  // Until the window is empty or the bucket full again
+  resetMs: number;
+  // Until the next request would be allowed; 0 when this one was
+  retryAfterMs: number;
+}
 
 export interface ICacheService {
   get(key: string): Promise<string | null>;
-  set(key: string, value: any, ttl: number): Promise<boolean>;
+  set(key: string, value: any, ttl: number, options?: CacheSetOptions): Promise<boolean>;
   del(key: string): Promise<boolean>;
   reset(): Promise<void>;
   update(key: string, value: any): Promise<boolean>;
+  invalidateTags(tags: string[]): Promise<number>;
+  wrap<T>(key: string, loader: () => Promise<T>, options: CacheWrapOptions<T>): Promise<T>;
+  // Atomic rate-limit counters: a log of the last windowMs of requests, or a bucket of limit tokens
+  // refilled evenly over windowMs. Each call counts one request if it is allowed.
+  slidingWindow(key: string, limit: number, windowMs: number): Promise<RateLimitCounter>;
+  tokenBucket(key: string, limit: number, windowMs: number): Promise<RateLimitCounter>;
+}
+
+// Tag names shared by cached responses and the writes that invalidate them
+export const cacheTags = {
+  products: 'products',
+  categories: 'categories',
+  product: (id: string | number) => `product:${id}`,
+  merchant: (id: string | number) => `merchant:${id}`,
+  category: (slug: string) => `category:${slug}`,
+  // Everything a product listing shows: the products, their sellers and their categories
+  forProducts(rows: Array<{ id?: string; seller?: { id?: number | null } | null; category?: { slug?: string | null } | null }>): string[] {
+    const tags = new Set<string>([this.products]);
+    for (const row of rows) {
+      if (row.id) tags.add(this.product(row.id));
+      if (row.seller?.id) tags.add(this.merchant(row.seller.id));
+      if (row.category?.slug) tags.add(this.category(row.category.slug));
+    }
+    return Array.from(tags);
+  },
+};
+
+export const encodeEntry = <T>(value: T, ttl: number): string =>
+  JSON.stringify({ value, freshUntil: Date.now() + ttl });
+
+export const decodeEntry = <T>(raw: string | null): CacheEntry<T> | null => {
+  if (!raw) return null;
+  try {
+    const entry = JSON.parse(raw);
+    return entry && typeof entry.freshUntil === 'number' ? entry : null;
+  } catch {
+    return null;
+  }
+};
+
+// wrap() for every cache: stale-while-revalidate over get/set, with loads of the same key coalesced
+// so an expiring hot entry costs one database query per process, not one per request
+abstract class BaseCache implements ICacheService {
+  private inflight = new Map<string, Promise<any>>();
+  // Bumped by every invalidation, so a load that started before one does not store its old result
+  private generation = 0;
+
+  abstract get(key: string): Promise<string | null>;
+  abstract set(key: string, value: any, ttl: number, options?: CacheSetOptions): Promise<boolean>;
+  abstract update(key: string, value: any): Promise<boolean>;
+  abstract slidingWindow(key: string, limit: number, windowMs: number): Promise<RateLimitCounter>;
+  abstract tokenBucket(key: string, limit: number, windowMs: number): Promise<RateLimitCounter>;
+  protected abstract remove(key: string): Promise<boolean>;
+  protected abstract clear(): Promise<void>;
+  protected abstract removeTagged(tags: string[]): Promise<number>;
+
+  async del(key: string): Promise<boolean> {
+    this.generation++;
+    return this.remove(key);
+  }
+
+  async reset(): Promise<void> {
+    this.generation++;
+    return this.clear();
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    if (tags.length === 0) return 0;
+    this.generation++;
+    return this.removeTagged(tags);
+  }
+
+  // Values pass through JSON, so dates come back as strings
+  async wrap<T>(key: string, loader: () => Promise<T>, options: CacheWrapOptions<T>): Promise<T> {
+    const entry = decodeEntry<T>(await this.get(key).catch(() => null));
+    if (entry && entry.freshUntil > Date.now()) {
+      return entry.value;
+    }
+    if (entry) {
+      this.load(key, loader, options).catch(error => console.error(`Cache refresh error for ${key}:`, error));
+      return entry.value;
+    }
+    return this.load(key, loader, options);
+  }
+
+  private load<T>(key: string, loader: () => Promise<T>, options: CacheWrapOptions<T>): Promise<T> {
+    const running = this.inflight.get(key);
+    if (running) {
+      return running;
+    }
+
+    const generation = this.generation;
+    const promise = (async () => {
+      const value = await loader();
+      if (generation === this.generation) {
+        const tags = typeof options.tags === 'function' ? options.tags(value) : options.tags;
+        await this.set(key, encodeEntry(value, options.ttl), options.ttl + (options.staleTtl ?? 0), { tags })
+          .catch(error => console.error('Cache set error:', error));
+      }
+      return value;
+    })().finally(() => this.inflight.delete(key));
+
+    this.inflight.set(key, promise);
+    return promise;
+  }
 }
 
-export class InMemoryCache implements ICacheService {
-  private cache: Map<string, { value: any; expiry: number }> = new Map();
+// Expired entries and idle rate-limit counters are swept after this many writes
+const SWEEP_INTERVAL = 500;
+
+export class InMemoryCache extends BaseCache {
+  private cache: Map<string, { value: any; expiry: number; tags: string[] }> = new Map();
+  private tagIndex: Map<string, Set<string>> = new Map();
+  private windows: Map<string, { hits: number[]; windowMs: number }> = new Map();
+  private buckets: Map<string, { tokens: number; updatedAt: number; windowMs: number }> = new Map();
+  private writes = 0;
 
   async get(key: string): Promise<string | null> {
     const item = this.cache.get(key);
     if (!item) return null;
-    
+
     if (Date.now() > item.expiry) {
-      this.cache.delete(key);
+      this.drop(key);
       return null;
     }
-    
+
     return item.value;
   }
 
-  async set(key: string, value: any, ttl: number): Promise<boolean> {
+  async set(key: string, value: any, ttl: number, options: CacheSetOptions = {}): Promise<boolean> {
     const expiry = Date.now() + ttl;
-    this.cache.set(key, { value, expiry });
+    const tags = options.tags || [];
+    this.drop(key);
+    this.cache.set(key, { value, expiry, tags });
+    for (const tag of tags) {
+      if (!this.tagIndex.has(tag)) this.tagIndex.set(tag, new Set());
+      this.tagIndex.get(tag)!.add(key);
+    }
+
+    this.countWrite();
     return true;
   }
 
-  async del(key: string): Promise<boolean> {
-    return this.cache.delete(key);
+  async update(key: string, value: any): Promise<boolean> {
+    const item = this.cache.get(key);
+    if (!item) return false;
+
+    this.cache.set(key, { ...item, value });
+    return true;
   }
 
-  async reset(): Promise<void> {
+  // No await between reading and updating a counter, so each check is atomic within the process
+  async slidingWindow(key: string, limit: number, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const log = this.windows.get(key) || { hits: [], windowMs };
+    log.hits = log.hits.filter(hit => hit > now - windowMs);
+
+    const allowed = log.hits.length < limit;
+    if (allowed) log.hits.push(now);
+    this.windows.set(key, log);
+    this.countWrite();
+
+    const resetMs = log.hits.length ? log.hits[0] + windowMs - now : 0;
+    return { allowed, remaining: limit - log.hits.length, resetMs, retryAfterMs: allowed ? 0 : resetMs };
+  }
+
+  async tokenBucket(key: string, limit: number, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const rate = limit / windowMs;
+    const bucket = this.buckets.get(key);
+    let tokens = bucket ? Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * rate) : limit;
+
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+    this.buckets.set(key, { tokens, updatedAt: now, windowMs });
+    this.countWrite();
+
+    return {
+      allowed,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((limit - tokens) / rate),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+    };
+  }
+
+  protected async remove(key: string): Promise<boolean> {
+    return this.drop(key);
+  }
+
+  protected async clear(): Promise<void> {
     this.cache.clear();
+    this.tagIndex.clear();
   }
 
-  async update(key: string, value: any): Promise<boolean> {
+  protected async removeTagged(tags: string[]): Promise<number> {
+    let removed = 0;
+    for (const tag of tags) {
+      for (const key of Array.from(this.tagIndex.get(tag) || [])) {
+        if (this.drop(key)) removed++;
+      }
+      this.tagIndex.delete(tag);
+    }
+    return removed;
+  }
+
+  private drop(key: string): boolean {
     const item = this.cache.get(key);
     if (!item) return false;
-    
-    this.cache.set(key, { value, expiry: item.expiry });
+
+    this.cache.delete(key);
+    for (const tag of item.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.tagIndex.delete(tag);
+    }
     return true;
   }
+
+  private countWrite() {
+    if (++this.writes % SWEEP_INTERVAL === 0) {
+      this.sweep();
+    }
+  }
+
+  // Idle counters go too: a window with no recent hits, a bucket that has refilled
+  private sweep() {
+    const now = Date.now();
+    for (const [key, item] of this.cache) {
+      if (now > item.expiry) this.drop(key);
+    }
+    for (const [key, log] of this.windows) {
+      if (!log.hits.some(hit => hit > now - log.windowMs)) this.windows.delete(key);
+    }
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > bucket.windowMs) this.buckets.delete(key);
+    }
+  }
 }
 
-// For Redis implementation, you would need to install redis package
-// and implement similar to the NestJS version
-export class RedisCache implements ICacheService {
-  // Implementation would require redis package
-  // For now, fallback to in-memory cache
+// Sets the entry and adds it to each tag's set; a tag set lives as long as its longest entry
+const SET_TAGGED_SCRIPT = `
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+for i = 2, #KEYS do
+  redis.call('SADD', KEYS[i], KEYS[1])
+  if redis.call('PTTL', KEYS[i]) < tonumber(ARGV[2]) then
+    redis.call('PEXPIRE', KEYS[i], ARGV[2])
+  end
+end
+return 1`;
+
+const INVALIDATE_TAGS_SCRIPT = `
+local removed = 0
+for i = 1, #KEYS do
+  for _, key in ipairs(redis.call('SMEMBERS', KEYS[i])) do
+    removed = removed + redis.call('DEL', key)
+  end
+  redis.call('DEL', KEYS[i])
+end
+return removed`;
+
+// Redis' own clock keeps every app server on the same timeline
+const NOW_MS = `local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)`;
+
+// A sorted set of request times; ARGV: limit, windowMs, unique member
+const SLIDING_WINDOW_SCRIPT = `${NOW_MS}
+local limit, window = tonumber(ARGV[1]), tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[3])
+  count = count + 1
+  allowed = 1
+end
+local reset = 0
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+if oldest[2] then
+  reset = tonumber(oldest[2]) + window - now
+  redis.call('PEXPIRE', KEYS[1], window)
+end
+return { allowed, limit - count, reset }`;
+
+// A hash of the tokens left and when they were counted; ARGV: limit, windowMs
+const TOKEN_BUCKET_SCRIPT = `${NOW_MS}
+local limit, window = tonumber(ARGV[1]), tonumber(ARGV[2])
+local rate = limit / window
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updated')
+local tokens = tonumber(bucket[1]) or limit
+local updated = tonumber(bucket[2]) or now
+tokens = math.min(limit, tokens + math.max(0, now - updated) * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated', now)
+redis.call('PEXPIRE', KEYS[1], window)
+local retry = 0
+if allowed == 0 then
+  retry = math.ceil((1 - tokens) / rate)
+end
+return { allowed, math.floor(tokens), math.ceil((limit - tokens) / rate), retry }`;
+
+// Keys live under CACHE_KEY_PREFIX and tag sets under <prefix>tag:<tag>. While Redis cannot be
+// reached, this process falls back to an in-memory cache rather than failing requests.
+export class RedisCache extends BaseCache {
   private fallback = new InMemoryCache();
+  private warned = false;
+
+  constructor(private client: RedisClient = redisClient, private prefix: string = CACHE_KEY_PREFIX) {
+    super();
+  }
 
   async get(key: string): Promise<string | null> {
-    // TODO: Implement Redis connection
-    return this.fallback.get(key);
+    return this.run(
+      async () => (await this.client.command('GET', this.prefix + key)) as string | null,
+      () => this.fallback.get(key),
+    );
   }
 
-  async set(key: string, value: any, ttl: number): Promise<boolean> {
-    // TODO: Implement Redis connection
-    return this.fallback.set(key, value, ttl);
+  async set(key: string, value: any, ttl: number, options: CacheSetOptions = {}): Promise<boolean> {
+    const serialized = typeof value === 'string' ? value : JSON.stringify(value);
+    const tagKeys = (options.tags || []).map(tag => this.tagKey(tag));
+    return this.run(
+      async () => {
+        await this.client.eval(SET_TAGGED_SCRIPT, [this.prefix + key, ...tagKeys], [serialized, Math.max(1, Math.round(ttl))]);
+        return true;
+      },
+      () => this.fallback.set(key, value, ttl, options),
+    );
   }
 
-  async del(key: string): Promise<boolean> {
-    // TODO: Implement Redis connection
-    return this.fallback.del(key);
+  async update(key: string, value: any): Promise<boolean> {
+    const serialized = typeof value === 'string' ? value : JSON.stringify(value);
+    return this.run(
+      async () => (await this.client.command('SET', this.prefix + key, serialized, 'KEEPTTL', 'XX')) === 'OK',
+      () => this.fallback.update(key, value),
+    );
   }
 
-  async reset(): Promise<void> {
-    // TODO: Implement Redis connection
-    return this.fallback.reset();
+  async slidingWindow(key: string, limit: number, windowMs: number): Promise<RateLimitCounter> {
+    return this.run(async () => {
+      const member = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      const [allowed, remaining, resetMs] = (await this.client.eval(SLIDING_WINDOW_SCRIPT, [this.prefix + key], [limit, windowMs, member])) as number[];
+      return { allowed: allowed === 1, remaining, resetMs, retryAfterMs: allowed === 1 ? 0 : resetMs };
+    }, () => this.fallback.slidingWindow(key, limit, windowMs));
   }
 
-  async update(key: string, value: any): Promise<boolean> {
-    // TODO: Implement Redis connection
-    return this.fallback.update(key, value);
+  async tokenBucket(key: string, limit: number, windowMs: number): Promise<RateLimitCounter> {
+    return this.run(async () => {
+      const [allowed, remaining, resetMs, retryAfterMs] = (await this.client.eval(TOKEN_BUCKET_SCRIPT, [this.prefix + key], [limit, windowMs])) as number[];
+      return { allowed: allowed === 1, remaining, resetMs, retryAfterMs };
+    }, () => this.fallback.tokenBucket(key, limit, windowMs));
+  }
+
+  protected async remove(key: string): Promise<boolean> {
+    return this.run(
+      async () => (await this.client.command('DEL', this.prefix + key)) === 1,
+      () => this.fallback.del(key),
+    );
+  }
+
+  protected async clear(): Promise<void> {
+    await this.fallback.reset();
+    return this.run(async () => {
+      let cursor = '0';
+      do {
+        const [next, keys] = (await this.client.command('SCAN', cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 500)) as [string, string[]];
+        if (keys.length > 0) {
+          await this.client.command('DEL', ...keys);
+        }
+        cursor = next;
+      } while (cursor !== '0');
+    }, async () => undefined);
+  }
+
+  protected async removeTagged(tags: string[]): Promise<number> {
+    // Entries cached in the fallback while Redis was down must go too
+    const local = await this.fallback.invalidateTags(tags);
+    return this.run(
+      async () => local + ((await this.client.eval(INVALIDATE_TAGS_SCRIPT, tags.map(tag => this.tagKey(tag)))) as number),
+      async () => local,
+    );
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.prefix}tag:${tag}`;
+  }
+
+  private async run<T>(command: () => Promise<T>, fallback: () => Promise<T>): Promise<T> {
+    try {
+      const result = await command();
+      this.warned = false;
+      return result;
+    } catch (error) {
+      if (!(error instanceof RedisError && error.connection)) {
+        throw error;
+      }
+      if (!this.warned) {
+        console.error('Redis cache unavailable, using in-memory cache:', error.message);
+        this.warned = true;
+      }
+      return fallback();
+    }
   }
 }
 
@@ -82,7 +447,7 @@ export class RedisCache implements ICacheService {
 export class CacheManager {
   private static instance: ICacheService;
 
-  static getInstance(type: 'memory' | 'redis' = 'memory'): ICacheService {
+  static getInstance(type: 'memory' | 'redis' = CACHE_DRIVER): ICacheService {
     if (!this.instance) {
       this.instance = type === 'redis' ? new RedisCache() : new InMemoryCache();
     }
@@ -0,0 +1,20 @@
+// Spreadsheet apps run cells that start with these characters as formulas
+export const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// A header line of the column names, then one line per row
+export const toCsv = <T extends Record<string, any>>(columns: Array<keyof T & string>, rows: T[]): string => {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => csvCell(row[column])).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+};
@@ -61,4 +61,27 @@ export const sendWelcomeEmail = async (email: string, fullName: string): Promise
   } catch (error) {
     console.error('Failed to send welcome email:', error);
   }
-};
\ No newline at end of file
+};
+// Email channel of the notification dispatcher; throws so the delivery job can retry
+export const sendNotificationEmail = async (
+  email: string,
+  fullName: string,
+  subject: string,
+  message: string,
+  actionUrl?: string,
+): Promise<void> => {
+  await transporter.sendMail({
+    from: EMAIL_USER,
+    to: email,
+    subject,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>${subject}</h2>
+        <p>Hi ${fullName},</p>
+        <p>${message}</p>
+        ${actionUrl ? `<p><a href="${actionUrl}">View in BrillPrime</a></p>` : ''}
+        <p>The BrillPrime Team</p>
+      </div>
+    `,
+  });
+};
@@ -1,82 +0,0 @@
-
-import { Request, Response, NextFunction } from 'express';
-import { CacheManager } from './cache';
-
-interface RateLimitOptions {
-  windowMs: number; // Time window in milliseconds
-  maxRequests: number; // Maximum requests per window
-  message?: string;
-  skipSuccessfulRequests?: boolean;
-  skipFailedRequests?: boolean;
-}
-
-export class RateLimiter {
-  private cache = CacheManager.getInstance();
-  private options: Required<RateLimitOptions>;
-
-  constructor(options: RateLimitOptions) {
-    this.options = {
-      skipSuccessfulRequests: false,
-      skipFailedRequests: false,
-      message: 'Too many requests, please try again later.',
-      ...options,
-    };
-  }
-
-  middleware() {
-    return async (req: Request, res: Response, next: NextFunction) => {
-      try {
-        const key = this.generateKey(req);
-        const current = await this.cache.get(key);
-        const count = current ? parseInt(current) : 0;
-
-        if (count >= this.options.maxRequests) {
-          return res.status(429).json({
-            error: 'Rate limit exceeded',
-            message: this.options.message,
-            retryAfter: Math.ceil(this.options.windowMs / 1000),
-          });
-        }
-
-        // Track the request
-        await this.cache.set(key, (count + 1).toString(), this.options.windowMs / 1000);
-
-        // Add rate limit headers
-        res.set({
-          'X-RateLimit-Limit': this.options.maxRequests.toString(),
-          'X-RateLimit-Remaining': Math.max(0, this.options.maxRequests - count - 1).toString(),
-          'X-RateLimit-Reset': new Date(Date.now() + this.options.windowMs).toISOString(),
-        });
-
-        next();
-      } catch (error) {
-        console.error('Rate limiter error:', error);
-        next(); // Allow request to proceed on error
-      }
-    };
-  }
-
-  private generateKey(req: Request): string {
-    const ip = req.ip || req.connection.remoteAddress || 'unknown';
-    const route = req.route?.path || req.path;
-    return `rate_limit:${ip}:${route}`;
-  }
-}
-
-// Predefined rate limiters
-export const authLimiter = new RateLimiter({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  maxRequests: 5, // 5 attempts per 15 minutes
-  message: 'Too many authentication attempts, please try again later.',
-});
-
-export const apiLimiter = new RateLimiter({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  maxRequests: 100, // 100 requests per 15 minutes
-});
-
-export const uploadLimiter = new RateLimiter({
-  windowMs: 60 * 60 * 1000, // 1 hour
-  maxRequests: 10, // 10 uploads per hour
-  message: 'Upload limit exceeded, please try again later.',
-});
@@ -6,7 +6,7 @@ export const realtimeHeaders = (req: Request, res: Response, next: NextFunction)
   res.set({
     'X-API-Type': 'realtime',
     'X-Timestamp': new Date().toISOString(),
-    'X-Request-ID': req.headers['x-request-id'] || `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    'X-Request-ID': (req as any).requestId || req.headers['x-request-id'] || `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     'Cache-Control': 'no-cache, no-store, must-revalidate',
     'Pragma': 'no-cache',
     'Expires': '0'
@@ -0,0 +1,183 @@
+import net from 'net';
+import { REDIS_HOST, REDIS_PORT, REDIS_USERNAME, REDIS_PASSWORD, REDIS_CLIENT_NAME } from '../config/environment';
+
+export type RedisReply = string | number | null | RedisReply[];
+
+interface RedisOptions {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  name?: string;
+}
+
+// connection is true when Redis could not be reached, as opposed to Redis rejecting a command
+export class RedisError extends Error {
+  constructor(message: string, public connection = false) {
+    super(message);
+    this.name = 'RedisError';
+  }
+}
+
+const CONNECT_TIMEOUT_MS = 5000;
+// After a failed connection, commands fail fast for this long instead of each waiting on a timeout
+const RECONNECT_DELAY_MS = 5000;
+
+const encode = (args: Array<string | number>): string =>
+  `*${args.length}\r\n` + args.map(arg => {
+    const value = String(arg);
+    return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }).join('');
+
+// One RESP2 reply starting at offset, or null when the buffer does not hold all of it yet
+const parseReply = (buffer: Buffer, offset: number): { value: RedisReply | RedisError; end: number } | null => {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd < 0) return null;
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (String.fromCharCode(buffer[offset])) {
+    case '+':
+      return { value: line, end: next };
+    case '-':
+      return { value: new RedisError(line), end: next };
+    case ':':
+      return { value: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { value: null, end: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), end: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { value: null, end: next };
+      const items: RedisReply[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item.value instanceof RedisError ? null : item.value);
+        position = item.end;
+      }
+      return { value: items, end: position };
+    }
+    default:
+      throw new RedisError(`Unexpected reply from Redis: ${line}`, true);
+  }
+};
+
+// A small Redis client over a single connection. Commands are pipelined and answered in order;
+// the connection is opened on first use and reopened after it drops.
+export class RedisClient {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private pending: Array<{ resolve: (reply: RedisReply) => void; reject: (error: Error) => void }> = [];
+  private buffer: Buffer = Buffer.alloc(0);
+  private retryAt = 0;
+
+  constructor(private options: RedisOptions) {}
+
+  async command(...args: Array<string | number>): Promise<RedisReply> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  // Run a Lua script atomically; keys and args follow Redis' EVAL conventions
+  async eval(script: string, keys: string[], args: Array<string | number> = []): Promise<RedisReply> {
+    return this.command('EVAL', script, keys.length, ...keys, ...args);
+  }
+
+  close(): void {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  private send(socket: net.Socket, args: Array<string | number>): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encode(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    if (Date.now() < this.retryAt) {
+      return Promise.reject(new RedisError('Redis is unavailable', true));
+    }
+
+    if (!this.connecting) {
+      this.connecting = new Promise<net.Socket>((resolve, reject) => {
+        const socket = net.createConnection({ host: this.options.host, port: this.options.port });
+        socket.setTimeout(CONNECT_TIMEOUT_MS, () => socket.destroy(new RedisError('Redis connection timed out', true)));
+
+        const fail = (error: Error) => {
+          this.socket = null;
+          this.buffer = Buffer.alloc(0);
+          this.retryAt = Date.now() + RECONNECT_DELAY_MS;
+          const failure = error instanceof RedisError ? error : new RedisError(error.message, true);
+          this.pending.splice(0).forEach(request => request.reject(failure));
+          reject(failure);
+        };
+        socket.on('error', fail);
+        socket.on('close', () => fail(new RedisError('Redis connection closed', true)));
+        socket.on('data', chunk => {
+          try {
+            this.receive(chunk);
+          } catch (error) {
+            socket.destroy(error as Error);
+          }
+        });
+
+        socket.once('connect', async () => {
+          socket.setTimeout(0);
+          try {
+            if (this.options.password) {
+              await this.send(socket, this.options.username
+                ? ['AUTH', this.options.username, this.options.password]
+                : ['AUTH', this.options.password]);
+            }
+            if (this.options.name) {
+              await this.send(socket, ['CLIENT', 'SETNAME', this.options.name]);
+            }
+            this.socket = socket;
+            resolve(socket);
+          } catch (error) {
+            socket.destroy();
+            reject(error);
+          }
+        });
+      }).finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private receive(chunk: Buffer) {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+    let reply = parseReply(this.buffer, offset);
+    while (reply) {
+      const request = this.pending.shift();
+      if (reply.value instanceof RedisError) {
+        request?.reject(reply.value);
+      } else {
+        request?.resolve(reply.value);
+      }
+      offset = reply.end;
+      reply = offset < this.buffer.length ? parseReply(this.buffer, offset) : null;
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+}
+
+export const redisClient = new RedisClient({
+  host: REDIS_HOST,
+  port: parseInt(REDIS_PORT, 10),
+  username: REDIS_USERNAME,
+  password: REDIS_PASSWORD,
+  name: REDIS_CLIENT_NAME,
+});
@@ -0,0 +1,24 @@
+import axios from 'axios';
+import { TERMII_BASE_URL, TERMII_API_KEY, TERMII_SENDER_ID } from '../config/environment';
+
+export const isSmsConfigured = (): boolean => !!TERMII_API_KEY;
+
+// Send a plain SMS through Termii. Without an API key the message is only logged, as the
+// verification OTPs are. Throws on failure so the delivery job can retry.
+export const sendSms = async (phone: string, message: string): Promise<string | undefined> => {
+  if (!isSmsConfigured()) {
+    console.log(`SMS to ${phone}: ${message}`);
+    return undefined;
+  }
+
+  const response = await axios.post(`${TERMII_BASE_URL}/api/sms/send`, {
+    api_key: TERMII_API_KEY,
+    to: phone.replace(/^\+/, ''),
+    from: TERMII_SENDER_ID,
+    sms: message,
+    type: 'plain',
+    channel: 'generic',
+  }, { timeout: 10000 });
+
+  return response.data?.message_id;
+};
@@ -1,3 +1,5 @@
+import { ORDER_STATUSES, OrderStatus } from '../types/orders';
+
 export const validateEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email) && email.length <= 254;
@@ -230,9 +232,8 @@ export const validateConfirmOrder = (data: any): { isValid: boolean; errors: str
   return { isValid: errors.length === 0, errors };
 };
 
-export const validateOrderStatus = (status: string): boolean => {
-  const validStatuses = ['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled'];
-  return validStatuses.includes(status);
+export const validateOrderStatus = (status: string): status is OrderStatus => {
+  return (ORDER_STATUSES as readonly string[]).includes(status);
 };
 
 export const validateUpdateProfile = (data: any): { isValid: boolean; errors: string[] } => {
@@ -1,20 +1,29 @@
 
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server } from 'http';
-import jwt from 'jsonwebtoken';
 import { eq, and, or } from 'drizzle-orm';
 import db from '../config/database';
 import { conversations, chatMessages, users } from '../schema';
-import { JWT_SECRET_KEY } from '../config/environment';
+import { sessionService, SessionError, RevokedEvent } from '../services/sessions';
+import { deliveryTrackingService, TrackingError, LocationEvent, StatusEvent } from '../services/deliveryTracking';
 
 interface AuthenticatedSocket extends Socket {
   userId?: number;
   userRole?: string;
+  sessionId?: string;
 }
 
+// How often open sockets are re-checked against their sessions. Revocations on this instance
+// disconnect at once; this catches revocations and deactivations made by other instances.
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Public namespace for following a delivery's progress by tracking number, without logging in
+const TRACKING_NAMESPACE = '/tracking';
+
 export class WebSocketService {
   private io: SocketIOServer;
   private connectedUsers: Map<number, string> = new Map();
+  private sessionCheck?: NodeJS.Timeout;
 
   constructor(server: Server) {
     this.io = new SocketIOServer(server, {
@@ -26,6 +35,8 @@ export class WebSocketService {
 
     this.setupMiddleware();
     this.setupEventHandlers();
+    this.setupSessionChecks();
+    this.setupTracking();
   }
 
   private setupMiddleware() {
@@ -38,22 +49,93 @@ export class WebSocketService {
           return next(new Error('Authentication error: No token provided'));
         }
 
-        const decoded = jwt.verify(token, JWT_SECRET_KEY) as any;
-        const user = await db.select().from(users).where(eq(users.id, decoded.userId));
-        
-        if (user.length === 0) {
-          return next(new Error('Authentication error: User not found'));
-        }
+        const decoded = await sessionService.authenticate(token);
 
         socket.userId = decoded.userId;
         socket.userRole = decoded.role;
+        socket.sessionId = decoded.sid;
         next();
       } catch (error) {
-        next(new Error('Authentication error: Invalid token'));
+        if (error instanceof SessionError) {
+          return next(new Error(`Authentication error: ${error.message}`));
+        }
+        console.error('Socket authentication error:', error);
+        next(new Error('Authentication error: Unable to verify session'));
       }
     });
   }
 
+  private setupSessionChecks() {
+    sessionService.on('revoked', (event: RevokedEvent) => {
+      this.disconnectSessions(new Set(event.sessionIds));
+    });
+
+    this.sessionCheck = setInterval(() => {
+      this.checkSessions().catch(error => console.error('Socket session check error:', error));
+    }, SESSION_CHECK_INTERVAL_MS);
+    this.sessionCheck.unref();
+  }
+
+  private async checkSessions() {
+    const sockets = [...this.io.sockets.sockets.values()] as AuthenticatedSocket[];
+    const sessionIds = [...new Set(sockets.map(socket => socket.sessionId).filter((id): id is string => !!id))];
+    if (sessionIds.length === 0) {
+      return;
+    }
+
+    const live = await sessionService.filterActive(sessionIds);
+    this.disconnectSessions(new Set(sessionIds.filter(id => !live.has(id))));
+  }
+
+  private disconnectSessions(sessionIds: Set<string>) {
+    if (sessionIds.size === 0) {
+      return;
+    }
+    for (const socket of this.io.sockets.sockets.values() as IterableIterator<AuthenticatedSocket>) {
+      if (socket.sessionId && sessionIds.has(socket.sessionId)) {
+        socket.emit('session_revoked', { message: 'Session has ended, please log in again' });
+        socket.disconnect(true);
+      }
+    }
+  }
+
+  // Each delivery has a room, delivery_<id>, in both the main namespace (customer, merchant, driver
+  // and admins) and the public tracking namespace. Status updates go to both; positions only go to
+  // the signed-in participants, the public room gets the ETA.
+  private setupTracking() {
+    deliveryTrackingService.on('location', (event: LocationEvent) => {
+      this.io.to(`delivery_${event.deliveryId}`).emit('delivery_location', event);
+      this.io.of(TRACKING_NAMESPACE).to(`delivery_${event.deliveryId}`).emit('delivery_eta', deliveryTrackingService.toPublicLocation(event));
+    });
+    deliveryTrackingService.on('status', (event: StatusEvent) => {
+      this.broadcastToDelivery(event.deliveryId, 'delivery_status', event);
+    });
+
+    this.io.of(TRACKING_NAMESPACE).on('connection', (socket: Socket) => {
+      socket.on('track_delivery', async (trackingNumber: string) => {
+        try {
+          const snapshot = typeof trackingNumber === 'string' ? await deliveryTrackingService.getPublicTracking(trackingNumber) : null;
+          if (!snapshot) {
+            socket.emit('error', { message: 'Tracking number not found' });
+            return;
+          }
+          socket.join(`delivery_${snapshot.id}`);
+          socket.emit('tracking_snapshot', snapshot);
+        } catch (error) {
+          console.error('Track delivery socket error:', error);
+          socket.emit('error', { message: 'Failed to track delivery' });
+        }
+      });
+
+      socket.on('untrack_delivery', async (trackingNumber: string) => {
+        const delivery = typeof trackingNumber === 'string' ? await deliveryTrackingService.findByTrackingNumber(trackingNumber).catch(() => null) : null;
+        if (delivery) {
+          socket.leave(`delivery_${delivery.id}`);
+        }
+      });
+    });
+  }
+
   private setupEventHandlers() {
     this.io.on('connection', (socket: AuthenticatedSocket) => {
       console.log(`User ${socket.userId} connected`);
@@ -175,6 +257,44 @@ export class WebSocketService {
         }
       });
 
+      // Follow a delivery's live location and status
+      socket.on('join_delivery', async (deliveryId: string) => {
+        try {
+          if (await deliveryTrackingService.canFollow(deliveryId, socket.userId!, socket.userRole)) {
+            socket.join(`delivery_${deliveryId}`);
+            socket.emit('joined_delivery', { deliveryId });
+          } else {
+            socket.emit('error', { message: 'Not authorized to follow this delivery' });
+          }
+        } catch (error) {
+          socket.emit('error', { message: 'Failed to join delivery' });
+        }
+      });
+
+      socket.on('leave_delivery', (deliveryId: string) => {
+        socket.leave(`delivery_${deliveryId}`);
+        socket.emit('left_delivery', { deliveryId });
+      });
+
+      // Drivers may stream their position over the socket instead of PUT /api/delivery/:id/location
+      socket.on('driver_location', async (data: { deliveryId: string; latitude: number; longitude: number; heading?: number; speed?: number; accuracy?: number }) => {
+        try {
+          if (socket.userRole !== 'DRIVER') {
+            socket.emit('error', { message: 'Only drivers can report delivery locations' });
+            return;
+          }
+          const report = deliveryTrackingService.parseReport(data);
+          await deliveryTrackingService.recordLocation(data.deliveryId, socket.userId!, report);
+        } catch (error) {
+          if (error instanceof TrackingError) {
+            socket.emit('error', { message: error.message, code: error.code });
+            return;
+          }
+          console.error('Driver location socket error:', error);
+          socket.emit('error', { message: 'Failed to record location' });
+        }
+      });
+
       // Handle typing indicators
       socket.on('typing_start', (conversationId: string) => {
         socket.to(`conversation_${conversationId}`).emit('user_typing', {
@@ -246,6 +366,12 @@ export class WebSocketService {
     this.io.to(`conversation_${conversationId}`).emit(event, data);
   }
 
+  // Method to broadcast to everyone following a delivery, signed in or by tracking number
+  public broadcastToDelivery(deliveryId: string, event: string, data: any) {
+    this.io.to(`delivery_${deliveryId}`).emit(event, data);
+    this.io.of(TRACKING_NAMESPACE).to(`delivery_${deliveryId}`).emit(event, data);
+  }
+
   // Get online users
   public getOnlineUsers(): number[] {
     return Array.from(this.connectedUsers.keys());
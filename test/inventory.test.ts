@@ -0,0 +1,51 @@
+import { fakeDb } from './support/fakeDatabase';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import db from '../src/config/database';
+import { inventoryService, InventoryError } from '../src/services/inventory';
+
+const order = { id: 'order-1', productId: 'product-1', buyerId: 1, quantity: 2 };
+const product = { id: 'product-1', seller_id: 2, name: 'Diesel', quantity: 8, reserved_quantity: 0, in_stock: true, low_stock_threshold: null };
+const reservation = (status: string) => ({ id: 'hold-1', order_id: 'order-1', product_id: 'product-1', buyer_id: 1, quantity: 2, status });
+
+const inventoryError = (code: InventoryError['code']) =>
+  (error: unknown) => error instanceof InventoryError && error.code === code;
+
+describe('inventory', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+  });
+
+  test('turns a live hold into the sale', async () => {
+    fakeDb.on(/^select .* from "inventory_reservations"/, [reservation('ACTIVE')]);
+    fakeDb.on(/^update "products"/, [product]);
+
+    await db.transaction(tx => inventoryService.commit(order, tx));
+
+    const [stock] = fakeDb.find(/^update "products"/);
+    assert.deepEqual(stock.params.slice(0, 2), [-2, -2]);
+    const [hold] = fakeDb.find(/^update "inventory_reservations"/).map(query => fakeDb.written(query));
+    assert.equal(hold.status, 'COMMITTED');
+  });
+
+  test('refuses a late payment whose lapsed hold has since sold', async () => {
+    fakeDb.on(/^select .* from "inventory_reservations"/, [reservation('EXPIRED')]);
+
+    await assert.rejects(
+      db.transaction(tx => inventoryService.commit(order, tx)),
+      inventoryError('INSUFFICIENT_STOCK'),
+    );
+    assert.equal(fakeDb.find(/^update "inventory_reservations"/).length, 0);
+  });
+
+  test('throws instead of clamping when a counter would go below zero', async () => {
+    // The product shows nothing reserved, so the guarded update matches no row
+    fakeDb.on(/^select .* from "inventory_reservations"/, [reservation('ACTIVE')]);
+
+    await assert.rejects(
+      db.transaction(tx => inventoryService.release(order, false, tx)),
+      inventoryError('STOCK_MISMATCH'),
+    );
+    assert.equal(fakeDb.find(/^update "inventory_reservations"/).length, 0);
+  });
+});
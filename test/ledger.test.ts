@@ -0,0 +1,105 @@
+import { fakeDb } from './support/fakeDatabase';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ledgerService, LedgerError, SystemAccounts } from '../src/services/ledger';
+
+const account = (id: string, code: string, normalBalance: 'DEBIT' | 'CREDIT', balance: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  code,
+  account_type: code.startsWith('WALLET:') ? 'WALLET' : 'GATEWAY',
+  normal_balance: normalBalance,
+  balance,
+  allow_negative: false,
+  user_id: null,
+  ...extra,
+});
+
+const postings = () => fakeDb.find(/^insert into "ledger_postings"/).map(query => fakeDb.written(query));
+
+describe('ledger postings', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.on(/^insert into "transactions"/, [{ id: 1 }]);
+    fakeDb.on(/^insert into "journal_entries"/, [{ id: 'entry-1' }]);
+    fakeDb.on(/^update "wallets"/, [{ id: 1 }]);
+  });
+
+  test('rejects an entry whose debits and credits differ before writing anything', async () => {
+    await assert.rejects(
+      ledgerService.post({
+        reference: 'TEST:unbalanced',
+        entryType: 'TEST',
+        lines: [
+          { accountCode: SystemAccounts.GATEWAY_CLEARING, direction: 'DEBIT', amount: '100.00' },
+          { accountCode: 'WALLET:7', direction: 'CREDIT', amount: '99.99' },
+        ],
+      }),
+      (error: unknown) => error instanceof LedgerError && error.code === 'UNBALANCED_ENTRY',
+    );
+    assert.equal(fakeDb.find(/^(insert|update)/).length, 0);
+  });
+
+  test('posts balanced lines and moves each account by its normal balance', async () => {
+    fakeDb.on(/^select .* from "ledger_accounts"/, [
+      account('acc-gateway', SystemAccounts.GATEWAY_CLEARING, 'DEBIT', '500.00', { allow_negative: true }),
+      account('acc-wallet', 'WALLET:7', 'CREDIT', '50.00', { user_id: 7 }),
+    ]);
+
+    await ledgerService.fundWallet({ userId: 7, amount: 100.1, transactionRef: 'DEP_1' });
+
+    const written = postings();
+    const total = (direction: string) => written
+      .filter(posting => posting.direction === direction)
+      .reduce((sum, posting) => sum + Math.round(parseFloat(String(posting.amount)) * 100), 0);
+    assert.equal(written.length, 2);
+    assert.equal(total('DEBIT'), total('CREDIT'));
+
+    const balances = Object.fromEntries(written.map(posting => [posting.account_id, posting.balance_after]));
+    assert.deepEqual(balances, { 'acc-gateway': '600.10', 'acc-wallet': '150.10' });
+
+    // The legacy wallet column follows the ledger
+    const [wallet] = fakeDb.find(/^update "wallets"/).map(query => fakeDb.written(query));
+    assert.equal(wallet.balance, '150.10');
+  });
+
+  test('refuses to take a wallet below zero', async () => {
+    fakeDb.on(/^select .* from "ledger_accounts"/, [
+      account('acc-pending', SystemAccounts.PAYOUTS_PENDING, 'CREDIT', '0.00', { allow_negative: true }),
+      account('acc-wallet', 'WALLET:7', 'CREDIT', '50.00', { user_id: 7 }),
+    ]);
+
+    await assert.rejects(
+      ledgerService.withdrawFromWallet({ userId: 7, amount: 80 }),
+      (error: unknown) => error instanceof LedgerError && error.code === 'INSUFFICIENT_FUNDS',
+    );
+    assert.equal(fakeDb.find(/^update "ledger_accounts"/).length, 0);
+  });
+
+  test('does not post the same reference twice', async () => {
+    fakeDb.on(/^select .* from "journal_entries"/, [{ id: 'entry-0', reference: 'WALLET_FUNDING:DEP_2', entry_type: 'WALLET_FUNDING' }]);
+
+    const result = await ledgerService.post({
+      reference: 'WALLET_FUNDING:DEP_2',
+      entryType: 'WALLET_FUNDING',
+      lines: [
+        { accountCode: SystemAccounts.GATEWAY_CLEARING, direction: 'DEBIT', amount: '10.00' },
+        { accountCode: 'WALLET:7', direction: 'CREDIT', amount: '10.00' },
+      ],
+    });
+
+    assert.equal(result.id, 'entry-0');
+    assert.equal(postings().length, 0);
+  });
+
+  test('returns the original transaction for a repeated reference instead of recording another', async () => {
+    fakeDb.on(/^select .* from "journal_entries"/, [{ id: 'entry-0', reference: 'WALLET_FUNDING:DEP_3', entry_type: 'WALLET_FUNDING', transaction_id: 5 }]);
+    fakeDb.on(/^select .* from "transactions"/, [{ id: 5, user_id: 7, type: 'WALLET_FUNDING', amount: '10.00', net_amount: '10.00', transaction_ref: 'DEP_3' }]);
+
+    const { transaction, entry } = await ledgerService.fundWallet({ userId: 7, amount: 10, transactionRef: 'DEP_3' });
+
+    assert.equal(transaction.id, 5);
+    assert.equal(entry?.id, 'entry-0');
+    assert.equal(fakeDb.find(/^insert into "transactions"/).length, 0);
+    assert.equal(postings().length, 0);
+  });
+});
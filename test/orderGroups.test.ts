@@ -0,0 +1,125 @@
+import { fakeDb } from './support/fakeDatabase';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { orderGroupService } from '../src/services/orderGroups';
+
+const order = (overrides: Record<string, unknown> = {}) => ({
+  id: 'order-1',
+  buyer_id: 1,
+  seller_id: 2,
+  product_id: 'product-1',
+  quantity: 1,
+  total_price: '100.00',
+  status: 'pending',
+  payment_status: 'pending',
+  fulfilment_id: 'fulfilment-1',
+  ...overrides,
+});
+
+const group = { id: 'group-1', buyer_id: 1, payment_tx_ref: 'group-ref', payment_status: 'PENDING', status: 'PENDING' };
+
+const fulfilment = (overrides: Record<string, unknown> = {}) => ({
+  id: 'fulfilment-1',
+  order_group_id: 'group-1',
+  merchant_id: 2,
+  status: 'pending',
+  delivery_quote_id: 'quote-1',
+  delivery_fee: '850.00',
+  delivery_request_id: null,
+  ...overrides,
+});
+
+const quote = {
+  id: 'quote-1',
+  customer_id: 1,
+  pickup_address: '1 Market Road',
+  delivery_address: '2 Palm Close',
+  pickup_latitude: '6.50000000',
+  pickup_longitude: '3.30000000',
+  delivery_latitude: '6.60000000',
+  delivery_longitude: '3.40000000',
+  delivery_type: 'STANDARD',
+  distance_km: '12.40',
+  duration_minutes: 35,
+  fee: '850.00',
+};
+
+describe('order groups', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.on(/^insert into "jobs"/, [{ id: 'job-1' }]);
+  });
+
+  test('requests a paid fulfilment\'s delivery at its quoted fee, linked to its order', async () => {
+    fakeDb.on(/^select .* from "order_groups"/, [group]);
+    fakeDb.on(/^select .* from "orders"/, [
+      { id: 'order-1', fulfilment_id: 'fulfilment-1', status: 'confirmed', tracking_number: 'BP-1', special_instructions: 'Gate 2' },
+    ]);
+    fakeDb.on(/^select .* from "order_fulfilments"/, [fulfilment()]);
+    fakeDb.on(/^select .* from "delivery_quotes"/, [quote]);
+    fakeDb.on(/^insert into "delivery_requests"/, [{ id: 'delivery-1' }]);
+    fakeDb.on(/^update "order_groups"/, [{ ...group, status: 'PAID' }]);
+
+    await orderGroupService.markPaid('group-ref');
+
+    const [delivery] = fakeDb.find(/^insert into "delivery_requests"/).map(query => fakeDb.written(query));
+    assert.deepEqual(
+      [delivery.order_id, delivery.quote_id, delivery.delivery_fee, delivery.tracking_number, delivery.merchant_id],
+      ['order-1', 'quote-1', '850.00', 'BP-1', 2],
+    );
+    const [update] = fakeDb.find(/^update "order_fulfilments"/).map(query => fakeDb.written(query));
+    assert.deepEqual([update.status, update.delivery_request_id], ['confirmed', 'delivery-1']);
+  });
+
+  test('requests no delivery for a fulfilment whose orders were all refunded', async () => {
+    fakeDb.on(/^select .* from "order_groups"/, [group]);
+    fakeDb.on(/^select .* from "orders"/, [{ id: 'order-1', fulfilment_id: 'fulfilment-1', status: 'refunded' }]);
+    fakeDb.on(/^select .* from "order_fulfilments"/, [fulfilment()]);
+
+    await orderGroupService.markPaid('group-ref');
+
+    assert.equal(fakeDb.find(/^insert into "delivery_requests"/).length, 0);
+  });
+
+  test('calls off the delivery of a cancelled fulfilment', async () => {
+    fakeDb.on(/^update "order_fulfilments"/, [fulfilment({ status: 'cancelled', delivery_request_id: 'delivery-1' })]);
+    fakeDb.on(/^update "delivery_requests"/, [{ id: 'delivery-1', status: 'CANCELLED', tracking_number: 'BP-1' }]);
+
+    await orderGroupService.updateFulfilmentStatus('fulfilment-1', 2, 'cancelled');
+
+    const [cancelled] = fakeDb.find(/^update "delivery_requests"/);
+    assert.equal(fakeDb.written(cancelled).status, 'CANCELLED');
+    assert.ok(cancelled.params.includes('delivery-1'));
+  });
+
+  test('moves an order\'s fulfilment along with its least advanced order', async () => {
+    fakeDb.on(/^select .* from "orders" where "orders"."id"/, [order({ status: 'processing', payment_status: 'paid' })]);
+    fakeDb.on(/^update "orders"/, [order({ status: 'shipped', payment_status: 'paid' })]);
+    fakeDb.on(/^insert into "order_status_history"/, [{ id: 'history-1' }]);
+    fakeDb.on(/^select .* from "orders" where "orders"."fulfilment_id"/, [{ status: 'shipped' }, { status: 'processing' }, { status: 'cancelled' }]);
+    fakeDb.on(/^update "order_fulfilments"/, [fulfilment({ status: 'processing' })]);
+
+    await orderGroupService.transitionOrder('order-1', 'shipped', { role: 'MERCHANT', userId: 2 });
+
+    const [update] = fakeDb.find(/^update "order_fulfilments"/).map(query => fakeDb.written(query));
+    assert.equal(update.status, 'processing');
+  });
+
+  test('cancels the fulfilment and its delivery when its last order is cancelled', async () => {
+    fakeDb.on(/^select .* from "orders" where "orders"."id"/, [order()]);
+    fakeDb.on(/^update "orders"/, [order({ status: 'cancelled' })]);
+    fakeDb.on(/^insert into "order_status_history"/, [{ id: 'history-1' }]);
+    fakeDb.on(/^select .* from "orders" where "orders"."fulfilment_id"/, [{ status: 'cancelled' }, { status: 'cancelled' }]);
+    fakeDb.on(/^update "order_fulfilments"/, [fulfilment({ status: 'cancelled', delivery_request_id: 'delivery-1' })]);
+    fakeDb.on(/^select .* from "order_fulfilments"/, [{ status: 'cancelled' }]);
+    fakeDb.on(/^update "delivery_requests"/, [{ id: 'delivery-1', status: 'CANCELLED', tracking_number: 'BP-1' }]);
+
+    await orderGroupService.transitionOrder('order-1', 'cancelled', { role: 'CONSUMER', userId: 1 });
+
+    const [update] = fakeDb.find(/^update "order_fulfilments"/).map(query => fakeDb.written(query));
+    assert.equal(update.status, 'cancelled');
+    const [group] = fakeDb.find(/^update "order_groups"/).map(query => fakeDb.written(query));
+    assert.equal(group.status, 'CANCELLED');
+    assert.equal(fakeDb.find(/^update "delivery_requests"/).length, 1);
+  });
+});
@@ -0,0 +1,133 @@
+import { fakeDb } from './support/fakeDatabase';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { orderLifecycle, OrderTransitionError } from '../src/services/orderLifecycle';
+
+const order = (overrides: Record<string, unknown> = {}) => ({
+  id: 'order-1',
+  buyer_id: 1,
+  seller_id: 2,
+  product_id: 'product-1',
+  quantity: 1,
+  total_price: '100.00',
+  status: 'confirmed',
+  payment_status: 'paid',
+  refund_amount: null,
+  ...overrides,
+});
+
+const transitionError = (code: OrderTransitionError['code']) =>
+  (error: unknown) => error instanceof OrderTransitionError && error.code === code;
+
+describe('order lifecycle', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+  });
+
+  test('allows each move only to the roles that may make it', () => {
+    assert.equal(orderLifecycle.canTransition('pending', 'confirmed', 'SYSTEM'), true);
+    assert.equal(orderLifecycle.canTransition('pending', 'confirmed', 'CONSUMER'), false);
+    assert.equal(orderLifecycle.canTransition('failed', 'confirmed', 'SYSTEM'), true);
+    assert.equal(orderLifecycle.canTransition('shipped', 'delivered', 'DRIVER'), true);
+    assert.equal(orderLifecycle.canTransition('delivered', 'refunded', 'MERCHANT'), true);
+    assert.equal(orderLifecycle.canTransition('delivered', 'shipped', 'ADMIN'), false);
+    assert.deepEqual(orderLifecycle.nextStatuses('confirmed', 'CONSUMER'), ['cancelled']);
+    assert.deepEqual(orderLifecycle.nextStatuses('cancelled', 'ADMIN'), []);
+    assert.deepEqual(orderLifecycle.nextStatuses('refunded', 'ADMIN'), []);
+  });
+
+  test('rejects a move the current status does not allow without touching the order', async () => {
+    fakeDb.on(/^select .* from "orders"/, [order({ status: 'delivered' })]);
+
+    await assert.rejects(
+      orderLifecycle.transition('order-1', 'shipped', { role: 'MERCHANT', userId: 2 }),
+      transitionError('INVALID_TRANSITION'),
+    );
+    assert.equal(await orderLifecycle.tryTransition('order-1', 'shipped', { role: 'MERCHANT', userId: 2 }), null);
+    assert.equal(fakeDb.find(/^(update|insert)/).length, 0);
+  });
+
+  test('rejects a role that may not make the move', async () => {
+    fakeDb.on(/^select .* from "orders"/, [order({ status: 'pending', payment_status: 'pending' })]);
+
+    await assert.rejects(
+      orderLifecycle.transition('order-1', 'confirmed', { role: 'CONSUMER', userId: 1 }),
+      transitionError('FORBIDDEN'),
+    );
+  });
+
+  test('records the move in the order timeline', async () => {
+    fakeDb.on(/^select .* from "orders"/, [order()]);
+    fakeDb.on(/^update "orders"/, [order({ status: 'processing' })]);
+    fakeDb.on(/^insert into "order_status_history"/, (params, query) => [{ id: 'history-1', ...fakeDb.written({ query, params }) }]);
+
+    const result = await orderLifecycle.transition('order-1', 'processing', { role: 'MERCHANT', userId: 2 }, { reason: 'Packing' });
+
+    assert.equal(result.from, 'confirmed');
+    assert.equal(result.order.status, 'processing');
+    const [update] = fakeDb.find(/^update "orders"/).map(query => fakeDb.written(query));
+    assert.equal(update.status, 'processing');
+    const [history] = fakeDb.find(/^insert into "order_status_history"/).map(query => fakeDb.written(query));
+    assert.equal(history.from_status, 'confirmed');
+    assert.equal(history.to_status, 'processing');
+    assert.equal(history.actor_role, 'MERCHANT');
+  });
+
+  describe('refunds', () => {
+    beforeEach(() => {
+      fakeDb.on(/^select .* from "orders"/, [order({ refund_amount: '60.00' })]);
+      fakeDb.on(/^select .* from "ledger_accounts"/, [
+        { id: 'acc-escrow', code: 'ESCROW:order-1', account_type: 'ESCROW', normal_balance: 'CREDIT', balance: '40.00', allow_negative: false },
+        { id: 'acc-gateway', code: 'GATEWAY_CLEARING', account_type: 'GATEWAY', normal_balance: 'DEBIT', balance: '1000.00', allow_negative: true },
+      ]);
+      fakeDb.on(/^insert into "transactions"/, [{ id: 1, transaction_ref: 'REFUND_1' }]);
+      fakeDb.on(/^insert into "journal_entries"/, [{ id: 'entry-1' }]);
+      fakeDb.on(/^insert into "jobs"/, [{ id: 'job-1' }]);
+    });
+
+    test('refuses more than what is left of the payment', async () => {
+      await assert.rejects(
+        orderLifecycle.refund('order-1', 40.01, { role: 'ADMIN', userId: 9 }, { reason: 'Damaged' }),
+        transitionError('INVALID_AMOUNT'),
+      );
+      assert.equal(fakeDb.find(/^insert into "transactions"/).length, 0);
+    });
+
+    test('adds a partial refund to the refunded total and keeps the status', async () => {
+      const result = await orderLifecycle.refund('order-1', 15, { role: 'ADMIN', userId: 9 }, { reason: 'Damaged' });
+
+      assert.equal(result.transition, null);
+      assert.equal(result.refund.amount, 15);
+      const updates = fakeDb.find(/^update "orders"/).map(query => fakeDb.written(query));
+      assert.deepEqual(updates.map(update => update.status), [undefined]);
+      assert.equal(updates[0].refund_amount, '75.00');
+      assert.equal(fakeDb.find(/^insert into "order_status_history"/).length, 0);
+    });
+
+    test('queues the gateway refund instead of sending it inside the ledger transaction', async () => {
+      await orderLifecycle.refund('order-1', 15, { role: 'ADMIN', userId: 9 }, { reason: 'Damaged' });
+
+      const [transaction] = fakeDb.find(/^insert into "transactions"/).map(query => fakeDb.written(query));
+      assert.equal(transaction.status, 'PENDING');
+      const [update] = fakeDb.find(/^update "orders"/).map(query => fakeDb.written(query));
+      assert.equal(update.refund_status, 'PENDING');
+      const [job] = fakeDb.find(/^insert into "jobs"/).map(query => fakeDb.written(query));
+      assert.equal(job.type, 'process_refund');
+      assert.deepEqual(JSON.parse(job.data as string), { transactionId: 1 });
+    });
+
+    test('marks the order refunded with the refund that returns the rest', async () => {
+      fakeDb.on(/^update "orders"/, [order({ status: 'refunded', refund_amount: '60.00' })]);
+      fakeDb.on(/^insert into "order_status_history"/, [{ id: 'history-1' }]);
+      fakeDb.on(/^update "products"/, [{ id: 'product-1', quantity: 5, reserved_quantity: 0, in_stock: true, low_stock_threshold: null }]);
+
+      const result = await orderLifecycle.refund('order-1', undefined, { role: 'ADMIN', userId: 9 }, { reason: 'Damaged' });
+
+      assert.equal(result.transition?.to, 'refunded');
+      assert.equal(result.refund.amount, 40);
+      const updates = fakeDb.find(/^update "orders"/).map(query => fakeDb.written(query));
+      assert.equal(updates[0].status, 'refunded');
+      assert.equal(updates[1].refund_amount, '100.00');
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { fakeDb } from './support/fakeDatabase';
+import { describe, test, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { paymentEventService } from '../src/services/paymentEvents';
+import { orderLifecycle, TransitionResult } from '../src/services/orderLifecycle';
+import { orderGroupService } from '../src/services/orderGroups';
+import { ledgerService } from '../src/services/ledger';
+
+const intent = (overrides: Record<string, unknown> = {}) => ({
+  id: 'intent-1',
+  tx_ref: 'wallet-7-ref',
+  user_id: 7,
+  provider: 'mock',
+  purpose: 'WALLET_FUNDING',
+  amount: '100.00',
+  currency: 'NGN',
+  ...overrides,
+});
+
+const order = (id: string) => ({
+  id,
+  buyer_id: 1,
+  seller_id: 2,
+  order_group_id: 'group-1',
+  total_price: '60.00',
+  status: 'pending',
+  payment_status: 'pending',
+  payment_tx_ref: 'group-ref',
+});
+
+const walletAccount = { id: 'acc-wallet', code: 'WALLET:7', account_type: 'WALLET', normal_balance: 'CREDIT', balance: '0.00', allow_negative: false, user_id: 7 };
+const gatewayAccount = { id: 'acc-gateway', code: 'GATEWAY_CLEARING', account_type: 'GATEWAY', normal_balance: 'DEBIT', balance: '0.00', allow_negative: true, user_id: null };
+
+describe('payment events', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    mock.restoreAll();
+    fakeDb.on(/^insert into "transactions"/, [{ id: 1 }]);
+    fakeDb.on(/^insert into "journal_entries"/, [{ id: 'entry-1' }]);
+    fakeDb.on(/^update "wallets"/, [{ id: 1 }]);
+    fakeDb.on(/^select .* from "ledger_accounts"/, [gatewayAccount, walletAccount]);
+  });
+
+  test('credits a wallet top-up for the amount asked once the gateway confirms it', async () => {
+    fakeDb.on(/^select .* from "payment_intents"/, [intent()]);
+
+    const result = await paymentEventService.applyOutcome({ txRef: 'wallet-7-ref', status: 'successful', provider: 'mock', amount: 100, currency: 'NGN' });
+
+    assert.equal(result.action, 'WALLET_FUNDED');
+    const [transaction] = fakeDb.find(/^insert into "transactions"/).map(query => fakeDb.written(query));
+    assert.deepEqual([transaction.user_id, transaction.amount, transaction.transaction_ref], [7, '100.00', 'wallet-7-ref']);
+    assert.equal(fakeDb.find(/^select .* from "orders"/).length, 0);
+  });
+
+  test('does not credit a top-up when the gateway reports no amount or less than asked', async () => {
+    fakeDb.on(/^select .* from "payment_intents"/, [intent()]);
+
+    const missing = await paymentEventService.applyOutcome({ txRef: 'wallet-7-ref', status: 'successful', provider: 'mock' });
+    const short = await paymentEventService.applyOutcome({ txRef: 'wallet-7-ref', status: 'successful', provider: 'mock', amount: 50, currency: 'NGN' });
+
+    assert.deepEqual([missing.action, short.action], ['AMOUNT_MISMATCH', 'AMOUNT_MISMATCH']);
+    assert.equal(fakeDb.find(/^insert into/).length, 0);
+  });
+
+  test('credits nothing new when the same top-up is confirmed again', async () => {
+    fakeDb.on(/^select .* from "payment_intents"/, [intent()]);
+    fakeDb.on(/^select .* from "journal_entries"/, [{ id: 'entry-0', reference: 'WALLET_FUNDING:wallet-7-ref', entry_type: 'WALLET_FUNDING', transaction_id: 5 }]);
+    fakeDb.on(/^select .* from "transactions"/, [{ id: 5, user_id: 7, type: 'WALLET_FUNDING', amount: '100.00', net_amount: '100.00' }]);
+
+    const result = await paymentEventService.applyOutcome({ txRef: 'wallet-7-ref', status: 'successful', provider: 'mock', amount: 100, currency: 'NGN' });
+
+    assert.equal(result.action, 'NOOP');
+    assert.equal(fakeDb.find(/^insert into/).length, 0);
+  });
+
+  test('does not confirm orders when the gateway reports no currency or another one', async () => {
+    fakeDb.on(/^select .* from "orders"/, [order('order-1'), order('order-2')]);
+    const transition = mock.method(orderLifecycle, 'tryTransition');
+
+    const missing = await paymentEventService.applyOutcome({ txRef: 'group-ref', status: 'successful', provider: 'mock', amount: 120 });
+    const foreign = await paymentEventService.applyOutcome({ txRef: 'group-ref', status: 'successful', provider: 'mock', amount: 120, currency: 'USD' });
+
+    assert.deepEqual([missing.action, foreign.action], ['AMOUNT_MISMATCH', 'AMOUNT_MISMATCH']);
+    assert.equal(transition.mock.callCount(), 0);
+  });
+
+  test('confirms none of a checkout\'s orders when one of them fails part-way', async () => {
+    fakeDb.on(/^select .* from "orders"/, [order('order-1'), order('order-2')]);
+    const confirmed = { order: { id: 'order-1', status: 'confirmed' } } as unknown as TransitionResult;
+    mock.method(orderLifecycle, 'tryTransition', async (orderId: string) => {
+      if (orderId === 'order-2') {
+        throw new Error('connection lost');
+      }
+      return confirmed;
+    });
+    mock.method(ledgerService, 'captureOrderPayment', async () => null);
+    const markPaid = mock.method(orderGroupService, 'markPaid', async () => null);
+    const effects = mock.method(orderLifecycle, 'dispatchEffects', async () => undefined);
+
+    await assert.rejects(
+      paymentEventService.applyOutcome({ txRef: 'group-ref', status: 'successful', provider: 'mock', amount: 120, currency: 'NGN' }),
+      /connection lost/,
+    );
+    assert.equal(markPaid.mock.callCount(), 0);
+    assert.equal(effects.mock.callCount(), 0);
+  });
+});
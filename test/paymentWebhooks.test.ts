@@ -0,0 +1,127 @@
+import { fakeDb } from './support/fakeDatabase';
+import { describe, test, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import paymentRouter from '../src/routes/payment';
+import { paymentEventService } from '../src/services/paymentEvents';
+import { hmac } from '../src/services/payments';
+
+type Row = Record<string, unknown>;
+
+const webhook = (paymentRouter.stack as any[])
+  .find(layer => layer.route?.path === '/webhook/:provider?')
+  .route.stack.at(-1).handle;
+
+// Run the webhook route with a body signed the way the mock gateway signs it
+const deliver = async (body: unknown, options: { provider?: string; secret?: string } = {}) => {
+  const rawBody = JSON.stringify(body);
+  const req = {
+    params: { provider: options.provider ?? 'mock' },
+    body,
+    rawBody,
+    headers: { 'x-mock-signature': hmac('sha256', options.secret ?? process.env.MOCK_WEBHOOK_SECRET!, rawBody) },
+  };
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(payload: unknown) {
+      this.body = payload;
+      return this;
+    },
+  };
+  await webhook(req, res);
+  return res;
+};
+
+const charge = (id: number, txRef = 'BP-TX-1') => ({
+  event: 'charge.completed',
+  data: { id, tx_ref: txRef, status: 'successful', amount: 100 },
+});
+
+describe('payment webhooks', () => {
+  let events: Map<string, Row>;
+
+  beforeEach(() => {
+    fakeDb.reset();
+    mock.restoreAll();
+    mock.method(console, 'warn', () => undefined);
+    mock.method(console, 'error', () => undefined);
+
+    // payment_events keyed by provider and event id, as the unique index keeps them
+    events = new Map();
+    fakeDb.on(/^insert into "payment_events"/, (params, query) => {
+      const values = fakeDb.written({ query, params });
+      const key = `${values.provider}:${values.event_id}`;
+      if (events.has(key)) {
+        return [];
+      }
+      const row = { ...values, id: `event-${events.size + 1}`, processing_status: 'PROCESSING', attempts: 1 };
+      events.set(key, row);
+      return [row];
+    });
+    fakeDb.on(/^update "payment_events"/, (params, query) => {
+      const changes = fakeDb.written({ query, params });
+      // Claiming a failed event for another attempt
+      if (/ where .*"processing_status" = \$/.test(query)) {
+        const failed = [...events.values()].filter(event => event.processing_status === 'FAILED');
+        failed.forEach(event => Object.assign(event, changes));
+        return failed;
+      }
+      const event = [...events.values()].find(row => params.includes(row.id));
+      return event ? [Object.assign(event, changes)] : [];
+    });
+    fakeDb.on(/^select .* from "payment_events"/, () => [...events.values()]);
+  });
+
+  test('rejects a payload whose signature does not match and stores nothing', async () => {
+    const applyOutcome = mock.method(paymentEventService, 'applyOutcome', async () => ({ action: 'CONFIRMED', orderIds: [] }));
+
+    const res = await deliver(charge(1), { secret: 'someone-else' });
+
+    assert.equal(res.statusCode, 401);
+    assert.equal(fakeDb.queries.length, 0);
+    assert.equal(applyOutcome.mock.callCount(), 0);
+  });
+
+  test('rejects a provider that is not registered', async () => {
+    const res = await deliver(charge(1), { provider: 'stripe' });
+
+    assert.equal(res.statusCode, 400);
+    assert.equal(fakeDb.queries.length, 0);
+  });
+
+  test('applies a redelivered event only once', async () => {
+    const applyOutcome = mock.method(paymentEventService, 'applyOutcome', async () => ({ action: 'CONFIRMED', orderIds: ['order-1'] }));
+
+    const first = await deliver(charge(1));
+    const second = await deliver(charge(1));
+
+    assert.deepEqual([first.statusCode, first.body.duplicate], [200, false]);
+    assert.deepEqual([second.statusCode, second.body.duplicate], [200, true]);
+    assert.equal(applyOutcome.mock.callCount(), 1);
+    assert.equal(events.size, 1);
+    assert.equal([...events.values()][0].processing_status, 'PROCESSED');
+  });
+
+  test('retries an event whose processing failed when the gateway redelivers it', async () => {
+    let attempts = 0;
+    const applyOutcome = mock.method(paymentEventService, 'applyOutcome', async () => {
+      if (++attempts === 1) {
+        throw new Error('database unavailable');
+      }
+      return { action: 'CONFIRMED', orderIds: ['order-1'] };
+    });
+
+    const first = await deliver(charge(2));
+    assert.equal(first.statusCode, 500);
+    assert.equal([...events.values()][0].processing_status, 'FAILED');
+
+    const second = await deliver(charge(2));
+    assert.deepEqual([second.statusCode, second.body.duplicate], [200, false]);
+    assert.equal(applyOutcome.mock.callCount(), 2);
+    assert.equal([...events.values()][0].processing_status, 'PROCESSED');
+  });
+});
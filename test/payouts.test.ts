@@ -0,0 +1,68 @@
+import { fakeDb } from './support/fakeDatabase';
+import { describe, test, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { payoutService, PayoutError } from '../src/services/payouts';
+import { ledgerService } from '../src/services/ledger';
+import { mockPaymentProvider } from '../src/services/payments/mock';
+
+const payout = (metadata: Record<string, unknown>) => ({
+  id: 9,
+  user_id: 7,
+  type: 'WITHDRAWAL',
+  amount: '50.00',
+  net_amount: '50.00',
+  currency: 'NGN',
+  status: 'PENDING',
+  transaction_ref: 'WTH_test',
+  metadata,
+});
+
+const savedAccount = {
+  id: 'bank-1',
+  user_id: 7,
+  account_number: '0123456789',
+  bank_code: '058',
+  account_name: 'ADA OBI',
+  provider: 'mock',
+};
+
+describe('payouts', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    mock.restoreAll();
+  });
+
+  test('refuses a withdrawal to an account the user has not saved', async () => {
+    await assert.rejects(
+      payoutService.requestWithdrawal({ userId: 7, amount: 50, bankAccountId: 'bank-2' }),
+      (error: unknown) => error instanceof PayoutError && error.code === 'BANK_ACCOUNT_NOT_FOUND',
+    );
+    assert.equal(fakeDb.find(/^insert into "transactions"/).length, 0);
+  });
+
+  test('returns a withdrawal without a saved account to the wallet instead of transferring it', async () => {
+    fakeDb.on(/^select .* from "transactions"/, [payout({ accountNumber: '9999999999', bankCode: '011' })]);
+    const transfer = mock.method(mockPaymentProvider, 'transfer');
+    const reverse = mock.method(ledgerService, 'reversePayout', async () => null);
+
+    const result = await payoutService.process(9);
+
+    assert.equal(result.status, 'FAILED');
+    assert.equal(transfer.mock.callCount(), 0);
+    assert.equal(reverse.mock.callCount(), 1);
+  });
+
+  test('transfers to the saved account, not to details stored with the withdrawal', async () => {
+    fakeDb.on(/^select .* from "transactions"/, [payout({ bankAccountId: 'bank-1', accountNumber: '9999999999', bankCode: '011' })]);
+    fakeDb.on(/^select .* from "bank_accounts"/, [savedAccount]);
+    const transfer = mock.method(mockPaymentProvider, 'transfer');
+    mock.method(ledgerService, 'completePayout', async () => null);
+
+    const result = await payoutService.process(9);
+
+    assert.equal(result.status, 'COMPLETED');
+    const [input] = transfer.mock.calls[0].arguments;
+    assert.deepEqual([input.accountNumber, input.bankCode, input.accountName], ['0123456789', '058', 'ADA OBI']);
+    assert.equal(input.reference, 'WTH_test');
+  });
+});
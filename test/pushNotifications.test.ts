@@ -0,0 +1,66 @@
+import { fakeDb } from './support/fakeDatabase';
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { pushNotificationService } from '../src/services/pushNotifications';
+import { pushGateway, fakePushProvider } from '../src/services/push';
+
+const notification = { title: 'Order Shipped', body: 'Your order is on the way', data: { orderId: 'order-1' } };
+
+describe('push notifications', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakePushProvider.reset();
+    fakeDb.on(/^delete from "device_tokens"/, params => params.map((_, i) => ({ id: `device-${i}` })));
+  });
+
+  test('sends through the fake transport in tests, whatever service issued the token', () => {
+    assert.equal(pushGateway.getProvider('fcm').name, 'fake');
+    assert.equal(pushGateway.getProvider('apns').name, 'fake');
+  });
+
+  test('delivers to every device of the user', async () => {
+    fakeDb.on(/^select distinct .* from "device_tokens"/, [
+      { token: 'android-token', provider: 'fcm' },
+      { token: 'ios-token', provider: 'apns' },
+    ]);
+
+    const summary = await pushNotificationService.deliver({ userId: '1' }, notification, { priority: 'high' });
+
+    assert.deepEqual(summary, { targeted: 2, sent: 2, failed: 0, pruned: 0 });
+    const [sent] = fakePushProvider.getSent('ios-token');
+    assert.equal(sent.message.title, 'Order Shipped');
+    assert.equal(sent.message.priority, 'high');
+    assert.deepEqual(sent.message.data, { orderId: 'order-1' });
+    assert.equal(fakeDb.find(/^delete from "device_tokens"/).length, 0);
+  });
+
+  test('deletes tokens the push service no longer knows', async () => {
+    fakeDb.on(/^select distinct .* from "device_tokens"/, [
+      { token: 'android-token', provider: 'fcm' },
+      { token: 'invalid-token', provider: 'fcm' },
+    ]);
+
+    const summary = await pushNotificationService.deliver({ userId: '1' }, notification);
+
+    assert.deepEqual(summary, { targeted: 2, sent: 1, failed: 0, pruned: 1 });
+    const [pruned] = fakeDb.find(/^delete from "device_tokens"/);
+    assert.deepEqual(pruned.params, ['invalid-token']);
+    assert.equal(fakePushProvider.getSent().length, 1);
+  });
+
+  test('records nothing on a dry run', async () => {
+    fakeDb.on(/^select distinct .* from "device_tokens"/, [{ token: 'android-token', provider: 'fcm' }]);
+
+    const summary = await pushNotificationService.deliver({ deviceToken: 'android-token' }, notification, { dryRun: true });
+
+    assert.equal(summary.sent, 1);
+    assert.equal(fakePushProvider.getSent().length, 0);
+  });
+
+  test('sends nothing when the target has no devices', async () => {
+    const summary = await pushNotificationService.deliver({ topic: 'promotions' }, notification);
+
+    assert.deepEqual(summary, { targeted: 0, sent: 0, failed: 0, pruned: 0 });
+    assert.equal(fakePushProvider.getSent().length, 0);
+  });
+});
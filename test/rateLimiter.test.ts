@@ -0,0 +1,136 @@
+import './support/fakeDatabase';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter } from '../src/middleware/rateLimiter';
+import { InMemoryCache } from '../src/utils/cache';
+import { RateLimitPolicy, rateLimitPolicies } from '../src/config/rateLimits';
+import { generateToken } from '../src/utils/auth';
+
+const policy = (overrides: Partial<RateLimitPolicy> = {}): RateLimitPolicy => ({
+  name: 'test',
+  paths: ['/api/*'],
+  algorithm: 'SLIDING_WINDOW',
+  limit: 3,
+  windowMs: 60 * 1000,
+  keyBy: ['user'],
+  ...overrides,
+});
+
+const tokenFor = (userId: number) => generateToken({ userId, email: `user${userId}@example.com`, role: 'CONSUMER', sid: `session-${userId}` });
+
+interface RequestOptions {
+  path?: string;
+  method?: string;
+  ip?: string;
+  userId?: number;
+  headers?: Record<string, string>;
+}
+
+// Send one request through the middleware; statusCode stays undefined when it was let through
+const send = async (limiter: RateLimiter, options: RequestOptions = {}) => {
+  const headers: Record<string, string> = { ...options.headers };
+  if (options.userId) {
+    headers.authorization = `Bearer ${tokenFor(options.userId)}`;
+  }
+  const req = {
+    method: options.method ?? 'GET',
+    originalUrl: options.path ?? '/api/products',
+    ip: options.ip ?? '10.0.0.1',
+    headers,
+    get: (name: string) => headers[name.toLowerCase()],
+  };
+  const res = {
+    statusCode: undefined as number | undefined,
+    headers: {} as Record<string, string>,
+    body: undefined as any,
+    set(name: string | Record<string, string>, value?: string) {
+      Object.assign(this.headers, typeof name === 'string' ? { [name]: value } : name);
+      return this;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(payload: unknown) {
+      this.body = payload;
+      return this;
+    },
+  };
+
+  let passed = false;
+  await limiter.middleware()(req as any, res as any, () => {
+    passed = true;
+  });
+  return { ...res, passed };
+};
+
+const sendMany = async (count: number, limiter: RateLimiter, options: RequestOptions = {}) => {
+  const results = [];
+  for (let i = 0; i < count; i++) {
+    results.push(await send(limiter, options));
+  }
+  return results;
+};
+
+describe('rate limiter', () => {
+  test('refuses the request after the limit with 429 and Retry-After', async () => {
+    const limiter = new RateLimiter(new InMemoryCache(), [policy()]);
+
+    const results = await sendMany(4, limiter, { userId: 1 });
+
+    assert.deepEqual(results.map(result => result.passed), [true, true, true, false]);
+    assert.deepEqual(results.map(result => result.headers['RateLimit-Remaining']), ['2', '1', '0', '0']);
+    const refused = results[3];
+    assert.equal(refused.statusCode, 429);
+    assert.equal(refused.body.policy, 'test');
+    assert.ok(Number(refused.headers['Retry-After']) >= 1);
+  });
+
+  test('keeps a separate counter per user, and per IP for anonymous callers', async () => {
+    const limiter = new RateLimiter(new InMemoryCache(), [policy({ limit: 1 })]);
+
+    assert.equal((await send(limiter, { userId: 1 })).passed, true);
+    assert.equal((await send(limiter, { userId: 1 })).passed, false);
+    assert.equal((await send(limiter, { userId: 2 })).passed, true);
+    assert.equal((await send(limiter, { ip: '10.0.0.2' })).passed, true);
+    assert.equal((await send(limiter, { ip: '10.0.0.2' })).passed, false);
+  });
+
+  test('counts token buckets down and only matches the policy paths and methods', async () => {
+    const limiter = new RateLimiter(new InMemoryCache(), [
+      policy({ name: 'writes', algorithm: 'TOKEN_BUCKET', limit: 2, methods: ['POST'], exclude: ['/api/payment/webhook*'] }),
+    ]);
+
+    const writes = await sendMany(3, limiter, { method: 'POST', userId: 1 });
+    assert.deepEqual(writes.map(result => result.passed), [true, true, false]);
+    assert.equal(writes[2].body.policy, 'writes');
+
+    assert.equal((await send(limiter, { method: 'GET', userId: 1 })).passed, true);
+    assert.equal((await send(limiter, { method: 'POST', path: '/api/payment/webhook/mock', userId: 1 })).passed, true);
+  });
+
+  test('refuses when any matching policy is exhausted', async () => {
+    const limiter = new RateLimiter(new InMemoryCache(), [
+      policy({ name: 'broad', limit: 10 }),
+      policy({ name: 'login', paths: ['/api/auth/login'], limit: 1, keyBy: ['ip', 'route'] }),
+    ]);
+
+    assert.equal((await send(limiter, { path: '/api/auth/login' })).passed, true);
+    const refused = await send(limiter, { path: '/api/auth/login' });
+    assert.equal(refused.statusCode, 429);
+    assert.equal(refused.body.policy, 'login');
+    assert.equal((await send(limiter, { path: '/api/products' })).passed, true);
+  });
+
+  test('does not give a fresh api allowance for a new X-Client-Id', async () => {
+    const api = rateLimitPolicies.find(candidate => candidate.name === 'api')!;
+    const limiter = new RateLimiter(new InMemoryCache(), [{ ...api, limit: 2 }]);
+
+    const results = [];
+    for (const client of ['a', 'b', 'c']) {
+      results.push(await send(limiter, { userId: 1, headers: { 'x-client-id': client } }));
+    }
+
+    assert.deepEqual(results.map(result => result.passed), [true, true, false]);
+  });
+});
@@ -0,0 +1,53 @@
+import { fakeDb } from './support/fakeDatabase';
+import { describe, test, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { refundService } from '../src/services/refunds';
+import { paymentGateway, PaymentProviderError } from '../src/services/payments';
+
+const refund = {
+  id: 3,
+  user_id: 1,
+  type: 'REFUND',
+  amount: '15.00',
+  net_amount: '15.00',
+  status: 'PENDING',
+  transaction_ref: 'REFUND_test',
+  metadata: { orderId: 'order-1', reason: 'Damaged' },
+};
+
+const payment = { id: 2, type: 'PAYMENT', metadata: { orderId: 'order-1', provider: 'mock', providerTransactionId: 'charge-1' } };
+
+describe('refunds', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    mock.restoreAll();
+    fakeDb.on(/^select .* from "transactions" where \("transactions"."id"/, [refund]);
+    fakeDb.on(/^select .* from "transactions" where \("transactions"."type"/, [payment]);
+    fakeDb.on(/^update "transactions"/, [{ ...refund, status: 'COMPLETED' }]);
+  });
+
+  test('sends the refund back through the gateway that took the payment and completes it', async () => {
+    const gatewayRefund = mock.method(paymentGateway, 'refundCharge', async () => ({ provider: 'mock', refundId: 'rf-1', status: 'COMPLETED' }));
+
+    const result = await refundService.process(3);
+
+    assert.equal(result.status, 'COMPLETED');
+    assert.deepEqual(gatewayRefund.mock.calls[0].arguments, [payment.metadata, 15, 'Damaged']);
+    const [transaction] = fakeDb.find(/^update "transactions"/).map(query => fakeDb.written(query));
+    assert.equal(transaction.status, 'COMPLETED');
+    const [order] = fakeDb.find(/^update "orders"/).map(query => fakeDb.written(query));
+    assert.equal(order.refund_status, 'COMPLETED');
+  });
+
+  test('marks a refund the gateway rejects as failed instead of retrying it', async () => {
+    mock.method(paymentGateway, 'refundCharge', async () => {
+      throw new PaymentProviderError('mock', 'Refund failed: amount exceeds charge');
+    });
+
+    const result = await refundService.process(3);
+
+    assert.equal(result.status, 'FAILED');
+    const [transaction] = fakeDb.find(/^update "transactions"/).map(query => fakeDb.written(query));
+    assert.equal(transaction.status, 'FAILED');
+  });
+});
@@ -0,0 +1,159 @@
+// Offline stand-in for PostgreSQL. Importing this first swaps the `postgres` driver for a fake
+// client before src/config/database.ts creates one, so services run their real drizzle queries
+// and each test decides what the database answers. Unanswered queries return no rows.
+process.env.NODE_ENV = 'test';
+process.env.CACHE_DRIVER = 'memory';
+process.env.PUSH_PROVIDER = 'fake';
+process.env.MOCK_WEBHOOK_SECRET = 'test-webhook-secret';
+
+type Row = Record<string, unknown>;
+type Handler = (params: unknown[], query: string) => Row[] | void;
+
+interface RecordedQuery {
+  query: string;
+  params: unknown[];
+}
+
+const camelCase = (name: string) => name.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+// Position of `keyword` outside any parentheses, so sub-selects are skipped
+const indexAtTopLevel = (text: string, keyword: string, from = 0, last = false) => {
+  let depth = 0;
+  let found = -1;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')') depth--;
+    else if (depth === 0 && text.startsWith(keyword, i)) {
+      if (!last) return i;
+      found = i;
+    }
+  }
+  return found;
+};
+
+// Text inside the parentheses that open at `open`
+const insideParens = (text: string, open: number) => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return text.slice(open + 1, i);
+  }
+  return text.slice(open + 1);
+};
+
+const splitAtTopLevel = (text: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')') depth--;
+    else if (depth === 0 && text[i] === ',') {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+};
+
+// The column each value in a result row stands for: the select list or the returning clause
+const resultColumns = (query: string): string[] => {
+  const returning = indexAtTopLevel(query, ' returning ', 0, true);
+  let list: string;
+  if (returning >= 0) {
+    list = query.slice(returning + ' returning '.length);
+  } else {
+    const start = query.startsWith('select distinct ') ? 'select distinct '.length : 'select '.length;
+    list = query.slice(start, indexAtTopLevel(query, ' from ', start));
+  }
+  return splitAtTopLevel(list).map(item => {
+    const names = item.match(/"([^"]+)"/g);
+    return names ? names[names.length - 1].slice(1, -1) : item;
+  });
+};
+
+const driverValue = (value: unknown) => {
+  if (value === undefined) return null;
+  // Timestamps come back from PostgreSQL without a zone
+  if (value instanceof Date) return value.toISOString().replace('Z', '');
+  return value;
+};
+
+class FakeDatabase {
+  queries: RecordedQuery[] = [];
+  private handlers: Array<{ pattern: RegExp; handler: Handler }> = [];
+
+  // Answer queries matching `pattern`; the most recently added handler wins
+  on(pattern: RegExp, handler: Handler | Row[]) {
+    this.handlers.unshift({ pattern, handler: typeof handler === 'function' ? handler : () => handler });
+  }
+
+  reset() {
+    this.queries = [];
+    this.handlers = [];
+  }
+
+  find(pattern: RegExp) {
+    return this.queries.filter(({ query }) => pattern.test(query));
+  }
+
+  // Column name to value for the first row of an insert, or the set clause of an update
+  written({ query, params }: RecordedQuery): Row {
+    const values: Row = {};
+    const param = (token: string) => {
+      const placeholder = token.match(/^\$(\d+)$/);
+      return placeholder ? params[Number(placeholder[1]) - 1] : token;
+    };
+
+    if (query.startsWith('insert into ')) {
+      const columns = splitAtTopLevel(insideParens(query, query.indexOf('(')));
+      const tokens = splitAtTopLevel(insideParens(query, query.indexOf(' values (') + ' values '.length));
+      columns.forEach((column, i) => {
+        values[column.slice(1, -1)] = param(tokens[i]);
+      });
+    } else if (query.startsWith('update ')) {
+      const setStart = query.indexOf(' set ') + ' set '.length;
+      const end = indexAtTopLevel(query, ' where ', setStart);
+      for (const assignment of splitAtTopLevel(query.slice(setStart, end < 0 ? undefined : end))) {
+        const match = assignment.match(/^"([^"]+)" = (.+)$/);
+        if (match) {
+          values[match[1]] = param(match[2]);
+        }
+      }
+    }
+    return values;
+  }
+
+  private answer(query: string, params: unknown[]): Row[] {
+    this.queries.push({ query, params });
+    const match = this.handlers.find(({ pattern }) => pattern.test(query));
+    return match?.handler(params, query) || [];
+  }
+
+  // The slice of the postgres.js client that drizzle uses
+  readonly client = {
+    unsafe: (query: string, params: unknown[] = []) => {
+      let rows: Row[];
+      try {
+        rows = this.answer(query, params);
+      } catch (error) {
+        const failed = Promise.reject(error);
+        return Object.assign(failed, { values: () => failed });
+      }
+      const columns = () => resultColumns(query);
+      return Object.assign(Promise.resolve(rows), {
+        values: async () => rows.map(row => columns().map(column => driverValue(row[column] ?? row[camelCase(column)]))),
+      });
+    },
+    begin: <T>(callback: (client: unknown) => Promise<T>) => callback(this.client),
+    savepoint: <T>(callback: (client: unknown) => Promise<T>) => callback(this.client),
+    end: async () => undefined,
+  };
+}
+
+export const fakeDb = new FakeDatabase();
+
+const fakePostgres = Object.assign(() => fakeDb.client, { camel: {} });
+const driverPath = require.resolve('postgres');
+require.cache[driverPath] = { id: driverPath, filename: driverPath, loaded: true, exports: fakePostgres } as NodeJS.Module;